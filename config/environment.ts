@@ -45,6 +45,9 @@ export interface EnvironmentConfig {
   // External APIs
   SARB_API_URL: string;
   ECB_API_URL: string;
+  EXCHANGE_RATE_PROVIDERS: string;
+  EXCHANGE_RATE_FIXTURE_DIR?: string;
+  EXCHANGE_RATE_CRON: string;
   
   // Logging Configuration
   LOG_LEVEL: string;
@@ -94,6 +97,9 @@ const config: EnvironmentConfig = {
   // External APIs
   SARB_API_URL: process.env.SARB_API_URL || 'https://www.resbank.co.za/api/exchangerates',
   ECB_API_URL: process.env.ECB_API_URL || 'https://api.exchangerate.host/latest',
+  EXCHANGE_RATE_PROVIDERS: process.env.EXCHANGE_RATE_PROVIDERS || 'sarb,ecb',
+  EXCHANGE_RATE_FIXTURE_DIR: process.env.EXCHANGE_RATE_FIXTURE_DIR,
+  EXCHANGE_RATE_CRON: process.env.EXCHANGE_RATE_CRON || '0 30 17 * * 1-5', // weekdays after ECB/SARB publication
   
   // Logging Configuration
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { chartOfAccountsService } from '../services/financial/chartOfAccountsService';
+import { getUploadedText } from '../middleware/upload';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { AccountType, AccountCategory } from '../types';
+
+/**
+ * Administrators may import into another company (e.g. one just created through
+ * companyService.createCompany); everyone else works in their own company.
+ */
+const resolveTargetCompany = (req: Request): string => {
+  const requested = req.query.company_id as string | undefined;
+  const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+
+  return requested && isAdmin ? requested : req.user!.companyId;
+};
+
+export class AccountController {
+  /**
+   * Get chart of accounts (tree by default, flat with view=flat)
+   */
+  static async getAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const companyId = req.user!.companyId;
+
+      if (req.query.view === 'flat') {
+        const accounts = await chartOfAccountsService.getAccounts(companyId, {
+          type: req.query.type as AccountType | undefined,
+          category: req.query.category as AccountCategory | undefined,
+          is_active: req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined,
+          search: req.query.search as string | undefined,
+        });
+
+        res.status(200).json({ success: true, data: accounts });
+        return;
+      }
+
+      const tree = await chartOfAccountsService.getAccountTree(companyId, req.query.include_inactive === 'true');
+
+      res.status(200).json({ success: true, data: tree });
+    } catch (error) {
+      logger.error('Get accounts error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get account with rolled-up balance and children
+   */
+  static async getAccountById(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await chartOfAccountsService.getAccountById(req.user!.companyId, req.params.id);
+
+      if (!account) {
+        throw new NotFoundError('Account not found');
+      }
+
+      res.status(200).json({ success: true, data: account });
+    } catch (error) {
+      logger.error('Get account error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        accountId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create account
+   */
+  static async createAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await chartOfAccountsService.createAccount(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: account,
+        message: 'Account created',
+      });
+    } catch (error) {
+      logger.error('Create account error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update account
+   */
+  static async updateAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await chartOfAccountsService.updateAccount(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: account,
+        message: 'Account updated',
+      });
+    } catch (error) {
+      logger.error('Update account error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        accountId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete account
+   */
+  static async deleteAccount(req: Request, res: Response): Promise<void> {
+    try {
+      await chartOfAccountsService.deleteAccount(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account deleted',
+      });
+    } catch (error) {
+      logger.error('Delete account error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        accountId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get account numbering rules
+   */
+  static async getNumberingRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await chartOfAccountsService.getNumberingRules(req.user!.companyId);
+
+      res.status(200).json({ success: true, data: rules });
+    } catch (error) {
+      logger.error('Get numbering rules error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update account numbering rules
+   */
+  static async updateNumberingRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await chartOfAccountsService.setNumberingRules(req.user!.companyId, req.body.rules, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: rules,
+        message: 'Numbering rules updated',
+      });
+    } catch (error) {
+      logger.error('Update numbering rules error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Export chart of accounts as CSV
+   */
+  static async exportAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const csv = await chartOfAccountsService.exportChartCsv(req.user!.companyId);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="chart-of-accounts.csv"');
+      res.status(200).send(csv);
+    } catch (error) {
+      logger.error('Export accounts error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Import chart of accounts from CSV (multipart field "file" or body field "csv")
+   */
+  static async importAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const csv = getUploadedText(req.file, req.body?.csv);
+      if (!csv) {
+        throw new ValidationError('A CSV file is required');
+      }
+
+      const companyId = resolveTargetCompany(req);
+      const result = await chartOfAccountsService.importChartCsv(companyId, csv, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.created + result.updated} accounts`,
+      });
+    } catch (error) {
+      logger.error('Import accounts error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { attendanceService } from '../services/hr/attendanceService';
+import { employeeService } from '../services/hr/employeeService';
+import { resolveRequestEmployee } from './employeeController';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { AttendanceStatus } from '../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filters shared by the attendance listings
+ */
+const parseFilters = (req: Request) => {
+  const status = req.query.status as AttendanceStatus | undefined;
+  if (status && !Object.values(AttendanceStatus).includes(status)) {
+    throw new ValidationError(`Status must be one of: ${Object.values(AttendanceStatus).join(', ')}`);
+  }
+
+  const startDate = req.query.start_date as string | undefined;
+  const endDate = req.query.end_date as string | undefined;
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    throw new ValidationError('Dates must be in YYYY-MM-DD format');
+  }
+
+  return {
+    status,
+    start_date: startDate,
+    end_date: endDate,
+    page: req.query.page ? parseInt(req.query.page as string) : undefined,
+    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+  };
+};
+
+export class AttendanceController {
+  /**
+   * Clock in
+   */
+  static async clockIn(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = await resolveRequestEmployee(req);
+      const record = await attendanceService.clockIn(req.user!.companyId, employeeId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: record,
+        message: 'Clocked in successfully',
+      });
+    } catch (error) {
+      logger.error('Clock in error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Clock out
+   */
+  static async clockOut(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = await resolveRequestEmployee(req);
+      const record = await attendanceService.clockOut(req.user!.companyId, employeeId, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: record,
+        message: 'Clocked out successfully',
+      });
+    } catch (error) {
+      logger.error('Clock out error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The caller's own attendance
+   */
+  static async getMyAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.getEmployeeByUserId(req.user!.companyId, req.user!.id);
+      if (!employee) {
+        throw new NotFoundError('No employee record is linked to this user');
+      }
+
+      const result = await attendanceService.getAttendance(req.user!.companyId, {
+        ...parseFilters(req),
+        employee_id: employee.id,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.records,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get my attendance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List attendance records
+   */
+  static async getAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = req.query.employee_id as string | undefined;
+      if (employeeId && Joi.string().uuid().validate(employeeId).error) {
+        throw new ValidationError('employee_id must be a valid UUID');
+      }
+
+      const result = await attendanceService.getAttendance(req.user!.companyId, {
+        ...parseFilters(req),
+        employee_id: employeeId,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.records,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get attendance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an attendance record with its corrections
+   */
+  static async getAttendanceById(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await attendanceService.getAttendanceById(req.user!.companyId, req.params.id);
+
+      if (!record) {
+        throw new NotFoundError('Attendance record not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: record,
+      });
+    } catch (error) {
+      logger.error('Get attendance record error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        attendanceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record attendance manually
+   */
+  static async recordAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await attendanceService.recordAttendance(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: record,
+        message: 'Attendance recorded successfully',
+      });
+    } catch (error) {
+      logger.error('Record attendance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Correct an attendance record
+   */
+  static async correctAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await attendanceService.correctAttendance(req.user!.companyId, req.params.id, req.body, {
+        id: req.user!.id,
+        department: req.user!.department,
+        role: req.user!.role,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: record,
+        message: 'Attendance corrected successfully',
+      });
+    } catch (error) {
+      logger.error('Correct attendance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        attendanceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List shifts
+   */
+  static async getShifts(req: Request, res: Response): Promise<void> {
+    try {
+      const shifts = await attendanceService.getShifts(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: shifts,
+      });
+    } catch (error) {
+      logger.error('Get shifts error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a shift
+   */
+  static async createShift(req: Request, res: Response): Promise<void> {
+    try {
+      const shift = await attendanceService.createShift(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: shift,
+        message: 'Shift created successfully',
+      });
+    } catch (error) {
+      logger.error('Create shift error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a shift
+   */
+  static async updateShift(req: Request, res: Response): Promise<void> {
+    try {
+      const shift = await attendanceService.updateShift(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: shift,
+        message: 'Shift updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update shift error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        shiftId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
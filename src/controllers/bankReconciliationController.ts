@@ -0,0 +1,287 @@
+import { Request, Response } from 'express';
+import { bankReconciliationService } from '../services/financial/bankReconciliationService';
+import { StatementFormat } from '../services/financial/bankStatementParser';
+import { getUploadedText } from '../middleware/upload';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { toDateOnly } from '../utils/dateUtils';
+
+const FORMATS: StatementFormat[] = ['csv', 'ofx', 'camt053'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Optional date window (days either side) for matching
+ */
+const parseDateWindow = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const days = parseInt(String(value));
+  if (isNaN(days) || days < 0 || days > 60) {
+    throw new ValidationError('date_window_days must be between 0 and 60');
+  }
+  return days;
+};
+
+export class BankReconciliationController {
+  /**
+   * Import a bank statement file (CSV, OFX or CAMT.053)
+   */
+  static async importStatement(req: Request, res: Response): Promise<void> {
+    try {
+      const content = getUploadedText(req.file, req.body?.content);
+      if (!content) {
+        throw new ValidationError('A statement file is required');
+      }
+
+      const bankAccountId = req.body?.bank_account_id as string | undefined;
+      if (!bankAccountId) {
+        throw new ValidationError('Bank account is required');
+      }
+
+      const format = req.body?.format ? String(req.body.format).toLowerCase() as StatementFormat : undefined;
+      if (format && !FORMATS.includes(format)) {
+        throw new ValidationError(`Format must be one of: ${FORMATS.join(', ')}`);
+      }
+
+      const result = await bankReconciliationService.importStatement(req.user!.companyId, {
+        bank_account_id: bankAccountId,
+        content,
+        file_name: req.file?.originalname || req.body?.file_name,
+        format,
+        date_window_days: parseDateWindow(req.body?.date_window_days),
+      }, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.imported} lines, ${result.auto_matched} matched automatically`,
+      });
+    } catch (error) {
+      logger.error('Import bank statement error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List imported bank statements
+   */
+  static async getStatements(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await bankReconciliationService.getStatements(req.user!.companyId, {
+        bank_account_id: req.query.bank_account_id as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.statements,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get bank statements error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a bank statement with its lines and matches
+   */
+  static async getStatementById(req: Request, res: Response): Promise<void> {
+    try {
+      const statement = await bankReconciliationService.getStatementById(req.user!.companyId, req.params.id);
+
+      if (!statement) {
+        throw new NotFoundError('Bank statement not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: statement,
+      });
+    } catch (error) {
+      logger.error('Get bank statement error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        statementId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an unmatched bank statement
+   */
+  static async deleteStatement(req: Request, res: Response): Promise<void> {
+    try {
+      await bankReconciliationService.deleteStatement(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Bank statement deleted',
+      });
+    } catch (error) {
+      logger.error('Delete bank statement error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        statementId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ledger lines a statement line could be matched to
+   */
+  static async getMatchCandidates(req: Request, res: Response): Promise<void> {
+    try {
+      const candidates = await bankReconciliationService.getMatchCandidates(
+        req.user!.companyId,
+        req.params.lineId,
+        parseDateWindow(req.query.date_window_days)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: candidates,
+      });
+    } catch (error) {
+      logger.error('Get bank match candidates error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        lineId: req.params.lineId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Manually match (and split) a statement line
+   */
+  static async matchLine(req: Request, res: Response): Promise<void> {
+    try {
+      const line = await bankReconciliationService.matchLine(
+        req.user!.companyId,
+        req.params.lineId,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: line,
+        message: line.status === 'matched' ? 'Statement line matched' : 'Statement line partially matched',
+      });
+    } catch (error) {
+      logger.error('Match bank statement line error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        lineId: req.params.lineId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the matches from a statement line
+   */
+  static async unmatchLine(req: Request, res: Response): Promise<void> {
+    try {
+      const line = await bankReconciliationService.unmatchLine(req.user!.companyId, req.params.lineId, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: line,
+        message: 'Statement line unmatched',
+      });
+    } catch (error) {
+      logger.error('Unmatch bank statement line error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        lineId: req.params.lineId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Re-run automatic matching for a bank account
+   */
+  static async autoMatch(req: Request, res: Response): Promise<void> {
+    try {
+      const matched = await bankReconciliationService.autoMatch(
+        req.user!.companyId,
+        req.params.accountId,
+        req.user!.id,
+        parseDateWindow(req.body?.date_window_days)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { matched },
+        message: `${matched} statement lines matched`,
+      });
+    } catch (error) {
+      logger.error('Auto-match bank lines error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        accountId: req.params.accountId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Bank reconciliation statement as of a date (JSON, CSV or PDF)
+   */
+  static async getReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const format = ((req.query.format as string) || 'json').toLowerCase();
+      if (!['json', 'csv', 'pdf'].includes(format)) {
+        throw new ValidationError('Format must be one of: json, csv, pdf');
+      }
+
+      const asOf = req.query.as_of as string | undefined;
+      if (asOf && !DATE_PATTERN.test(asOf)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const reconciliation = await bankReconciliationService.getReconciliation(
+        req.user!.companyId,
+        req.params.accountId,
+        asOf || toDateOnly(new Date())
+      );
+
+      if (format === 'json') {
+        res.status(200).json({
+          success: true,
+          data: reconciliation,
+        });
+        return;
+      }
+
+      const rendered = await bankReconciliationService.renderReconciliation(reconciliation, format as 'csv' | 'pdf');
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Get bank reconciliation error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        accountId: req.params.accountId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { Request, Response } from 'express';
+import { budgetService, BudgetStatus } from '../services/financial/budgetService';
+import { getUploadedText } from '../middleware/upload';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STATUSES: BudgetStatus[] = ['draft', 'approved', 'superseded'];
+
+export class BudgetController {
+  /**
+   * List cost centres
+   */
+  static async getCostCentres(req: Request, res: Response): Promise<void> {
+    try {
+      const costCentres = await budgetService.getCostCentres(req.user!.companyId, {
+        is_active: req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: costCentres,
+      });
+    } catch (error) {
+      logger.error('Get cost centres error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a cost centre
+   */
+  static async createCostCentre(req: Request, res: Response): Promise<void> {
+    try {
+      const costCentre = await budgetService.createCostCentre(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: costCentre,
+        message: 'Cost centre created successfully',
+      });
+    } catch (error) {
+      logger.error('Create cost centre error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a cost centre
+   */
+  static async updateCostCentre(req: Request, res: Response): Promise<void> {
+    try {
+      const costCentre = await budgetService.updateCostCentre(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: costCentre,
+        message: 'Cost centre updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update cost centre error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        costCentreId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List budgets (filter by fiscal year and status)
+   */
+  static async getBudgets(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as BudgetStatus | undefined;
+      if (status && !STATUSES.includes(status)) {
+        throw new ValidationError(`Status must be one of: ${STATUSES.join(', ')}`);
+      }
+
+      const budgets = await budgetService.getBudgets(req.user!.companyId, {
+        fiscal_year_id: req.query.fiscal_year_id as string | undefined,
+        status,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: budgets,
+      });
+    } catch (error) {
+      logger.error('Get budgets error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a budget with its lines
+   */
+  static async getBudgetById(req: Request, res: Response): Promise<void> {
+    try {
+      const budget = await budgetService.getBudgetById(req.user!.companyId, req.params.id);
+
+      if (!budget) {
+        throw new NotFoundError('Budget not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: budget,
+      });
+    } catch (error) {
+      logger.error('Get budget error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        budgetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a budget version
+   */
+  static async createBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const budget = await budgetService.createBudget(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: budget,
+        message: 'Budget created successfully',
+      });
+    } catch (error) {
+      logger.error('Create budget error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Set monthly amounts on a draft budget
+   */
+  static async setBudgetLines(req: Request, res: Response): Promise<void> {
+    try {
+      const budget = await budgetService.setBudgetLines(
+        req.user!.companyId,
+        req.params.id,
+        req.body.lines,
+        req.user!.id,
+        req.body.replace === true
+      );
+
+      res.status(200).json({
+        success: true,
+        data: budget,
+        message: 'Budget lines saved',
+      });
+    } catch (error) {
+      logger.error('Set budget lines error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        budgetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Import budget lines from CSV (multipart "file" or a "csv" field)
+   */
+  static async importBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const csv = getUploadedText(req.file, req.body?.csv);
+      if (!csv) {
+        throw new ValidationError('A CSV file is required');
+      }
+
+      const replace = req.body?.replace === true || req.body?.replace === 'true';
+      const result = await budgetService.importBudgetCsv(req.user!.companyId, req.params.id, csv, req.user!.id, replace);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.imported} budget lines for ${result.accounts} accounts`,
+      });
+    } catch (error) {
+      logger.error('Import budget error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        budgetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a draft budget
+   */
+  static async approveBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const budget = await budgetService.approveBudget(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: budget,
+        message: 'Budget approved',
+      });
+    } catch (error) {
+      logger.error('Approve budget error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        budgetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft budget
+   */
+  static async deleteBudget(req: Request, res: Response): Promise<void> {
+    try {
+      await budgetService.deleteBudget(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Budget deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete budget error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        budgetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Budget vs actual variance (JSON, CSV or PDF)
+   */
+  static async getVarianceReport(req: Request, res: Response): Promise<void> {
+    try {
+      const format = ((req.query.format as string) || 'json').toLowerCase();
+      if (!['json', 'csv', 'pdf'].includes(format)) {
+        throw new ValidationError('Format must be one of: json, csv, pdf');
+      }
+
+      const startDate = req.query.start_date as string | undefined;
+      const endDate = req.query.end_date as string | undefined;
+      if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const report = await budgetService.getVarianceReport(req.user!.companyId, req.params.id, {
+        start_date: startDate,
+        end_date: endDate,
+        cost_centre_id: req.query.cost_centre_id as string | undefined,
+      });
+
+      if (format === 'json') {
+        res.status(200).json({
+          success: true,
+          data: report,
+        });
+        return;
+      }
+
+      const rendered = await budgetService.renderVarianceReport(report, format as 'csv' | 'pdf');
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Get budget variance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        budgetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { calendarService, WorkingDayOptions } from '../services/calendar/calendarService';
+import { getUploadedText } from '../middleware/upload';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Optional year query or body value
+ */
+const parseYear = (value: unknown): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+
+  const year = parseInt(String(value));
+  if (isNaN(year) || year < 2000 || year > 2100) {
+    throw new ValidationError('Year must be between 2000 and 2100');
+  }
+  return year;
+};
+
+/**
+ * Calendar or employee the working-day calculation is for
+ */
+const parseWorkingDayOptions = (req: Request): WorkingDayOptions => {
+  const calendarId = req.query.calendar_id as string | undefined;
+  const employeeId = req.query.employee_id as string | undefined;
+
+  if (calendarId && Joi.string().uuid().validate(calendarId).error) {
+    throw new ValidationError('calendar_id must be a valid UUID');
+  }
+  if (employeeId && Joi.string().uuid().validate(employeeId).error) {
+    throw new ValidationError('employee_id must be a valid UUID');
+  }
+
+  return { calendar_id: calendarId, employee_id: employeeId };
+};
+
+export class CalendarController {
+  /**
+   * List holiday calendars
+   */
+  static async getCalendars(req: Request, res: Response): Promise<void> {
+    try {
+      const calendars = await calendarService.getCalendars(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: calendars,
+      });
+    } catch (error) {
+      logger.error('Get holiday calendars error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a holiday calendar with its holidays
+   */
+  static async getCalendarById(req: Request, res: Response): Promise<void> {
+    try {
+      const calendar = await calendarService.getCalendarById(
+        req.user!.companyId,
+        req.params.id,
+        parseYear(req.query.year)
+      );
+
+      if (!calendar) {
+        throw new NotFoundError('Holiday calendar not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: calendar,
+      });
+    } catch (error) {
+      logger.error('Get holiday calendar error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        calendarId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a holiday calendar
+   */
+  static async createCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const calendar = await calendarService.createCalendar(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: calendar,
+        message: 'Holiday calendar created successfully',
+      });
+    } catch (error) {
+      logger.error('Create holiday calendar error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a holiday calendar
+   */
+  static async updateCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const calendar = await calendarService.updateCalendar(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: calendar,
+        message: 'Holiday calendar updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update holiday calendar error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        calendarId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a public holiday
+   */
+  static async addHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      const holiday = await calendarService.addHoliday(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: holiday,
+        message: 'Public holiday added successfully',
+      });
+    } catch (error) {
+      logger.error('Add public holiday error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        calendarId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a public holiday
+   */
+  static async deleteHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      await calendarService.deleteHoliday(req.user!.companyId, req.params.id, req.params.holidayId, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Public holiday deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete public holiday error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        calendarId: req.params.id,
+        holidayId: req.params.holidayId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Import public holidays from an ICS file
+   */
+  static async importIcs(req: Request, res: Response): Promise<void> {
+    try {
+      const content = getUploadedText(req.file, req.body?.content);
+      if (!content) {
+        throw new ValidationError('An ICS file is required');
+      }
+
+      const result = await calendarService.importIcs(
+        req.user!.companyId,
+        req.params.id,
+        content,
+        req.user!.id,
+        parseYear(req.body?.until_year)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.imported} holidays, ${result.skipped} already on the calendar`,
+      });
+    } catch (error) {
+      logger.error('Import holiday calendar error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        calendarId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List company closure days
+   */
+  static async getClosureDays(req: Request, res: Response): Promise<void> {
+    try {
+      const closures = await calendarService.getClosureDays(req.user!.companyId, parseYear(req.query.year));
+
+      res.status(200).json({
+        success: true,
+        data: closures,
+      });
+    } catch (error) {
+      logger.error('Get closure days error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a company closure day
+   */
+  static async addClosureDay(req: Request, res: Response): Promise<void> {
+    try {
+      const closure = await calendarService.addClosureDay(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: closure,
+        message: 'Closure day added successfully',
+      });
+    } catch (error) {
+      logger.error('Add closure day error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a company closure day
+   */
+  static async deleteClosureDay(req: Request, res: Response): Promise<void> {
+    try {
+      await calendarService.deleteClosureDay(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Closure day deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete closure day error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        closureId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Count working days between two dates
+   */
+  static async countWorkingDays(req: Request, res: Response): Promise<void> {
+    try {
+      const startDate = req.query.start_date as string | undefined;
+      const endDate = req.query.end_date as string | undefined;
+      if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+        throw new ValidationError('start_date and end_date are required in YYYY-MM-DD format');
+      }
+
+      const workingDays = await calendarService.countWorkingDays(
+        req.user!.companyId,
+        startDate,
+        endDate,
+        parseWorkingDayOptions(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          start_date: startDate,
+          end_date: endDate,
+          working_days: workingDays,
+        },
+      });
+    } catch (error) {
+      logger.error('Count working days error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The date a number of working days from a date (today by default)
+   */
+  static async addWorkingDays(req: Request, res: Response): Promise<void> {
+    try {
+      const date = req.query.date as string | undefined;
+      if (date && !DATE_PATTERN.test(date)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const days = parseInt(req.query.days as string);
+      if (isNaN(days) || Math.abs(days) > 3650) {
+        throw new ValidationError('days must be a whole number of at most 3650');
+      }
+
+      const result = await calendarService.addWorkingDays(
+        req.user!.companyId,
+        date,
+        days,
+        parseWorkingDayOptions(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          from: date ?? null,
+          days,
+          date: result,
+        },
+      });
+    } catch (error) {
+      logger.error('Add working days error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
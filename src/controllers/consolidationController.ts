@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { consolidationService } from '../services/financial/consolidationService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class ConsolidationController {
+  /**
+   * List consolidation groups
+   */
+  static async getGroups(req: Request, res: Response): Promise<void> {
+    try {
+      const groups = await consolidationService.getGroups(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: groups,
+      });
+    } catch (error) {
+      logger.error('Get consolidation groups error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a consolidation group with members
+   */
+  static async getGroupById(req: Request, res: Response): Promise<void> {
+    try {
+      const group = await consolidationService.getGroupById(req.user!.companyId, req.params.id);
+
+      if (!group) {
+        throw new NotFoundError('Consolidation group not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: group,
+      });
+    } catch (error) {
+      logger.error('Get consolidation group error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        groupId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a consolidation group
+   */
+  static async createGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const group = await consolidationService.createGroup(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: group,
+        message: 'Consolidation group created successfully',
+      });
+    } catch (error) {
+      logger.error('Create consolidation group error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a consolidation group
+   */
+  static async updateGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const group = await consolidationService.updateGroup(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: group,
+        message: 'Consolidation group updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update consolidation group error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        groupId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a consolidation group
+   */
+  static async deleteGroup(req: Request, res: Response): Promise<void> {
+    try {
+      await consolidationService.deleteGroup(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Consolidation group deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete consolidation group error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        groupId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
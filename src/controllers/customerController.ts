@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { customerService } from '../services/financial/customerService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class CustomerController {
+  /**
+   * List customers
+   */
+  static async getCustomers(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await customerService.getCustomers(req.user!.companyId, {
+        search: req.query.search as string | undefined,
+        is_active: req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.customers,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get customers error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single customer
+   */
+  static async getCustomerById(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await customerService.getCustomerById(req.user!.companyId, req.params.id);
+
+      if (!customer) {
+        throw new NotFoundError('Customer not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: customer,
+      });
+    } catch (error) {
+      logger.error('Get customer error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        customerId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a customer
+   */
+  static async createCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await customerService.createCustomer(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: customer,
+        message: 'Customer created',
+      });
+    } catch (error) {
+      logger.error('Create customer error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a customer
+   */
+  static async updateCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await customerService.updateCustomer(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: customer,
+        message: 'Customer updated',
+      });
+    } catch (error) {
+      logger.error('Update customer error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        customerId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a customer without invoices
+   */
+  static async deleteCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      await customerService.deleteCustomer(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Customer deleted',
+      });
+    } catch (error) {
+      logger.error('Delete customer error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        customerId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
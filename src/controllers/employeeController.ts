@@ -0,0 +1,239 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { employeeService } from '../services/hr/employeeService';
+import { NotFoundError, ValidationError, AuthorizationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { Department, EmploymentType, EmployeeStatus } from '../types';
+
+/**
+ * Employee a self-service request is for: the caller's own record, or the
+ * employee_id that HR (or a kiosk account) acts for
+ */
+export const resolveRequestEmployee = async (req: Request): Promise<string> => {
+  const own = await employeeService.getEmployeeByUserId(req.user!.companyId, req.user!.id);
+  const employeeId = req.body.employee_id as string | undefined;
+
+  if (!employeeId || employeeId === own?.id) {
+    if (!own) {
+      throw new NotFoundError('No employee record is linked to this user');
+    }
+    return own.id;
+  }
+
+  const permissions = req.user!.permissions || [];
+  if (!permissions.includes('*') && !permissions.includes('hr:write')) {
+    throw new AuthorizationError('Only HR can act for other employees');
+  }
+
+  return employeeId;
+};
+
+export class EmployeeController {
+  /**
+   * List employees
+   */
+  static async getEmployees(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as EmployeeStatus | undefined;
+      if (status && !Object.values(EmployeeStatus).includes(status)) {
+        throw new ValidationError(`Status must be one of: ${Object.values(EmployeeStatus).join(', ')}`);
+      }
+
+      const department = req.query.department as Department | undefined;
+      if (department && !Object.values(Department).includes(department)) {
+        throw new ValidationError(`Department must be one of: ${Object.values(Department).join(', ')}`);
+      }
+
+      const employmentType = req.query.employment_type as EmploymentType | undefined;
+      if (employmentType && !Object.values(EmploymentType).includes(employmentType)) {
+        throw new ValidationError(`Employment type must be one of: ${Object.values(EmploymentType).join(', ')}`);
+      }
+
+      const managerId = req.query.manager_id as string | undefined;
+      if (managerId && Joi.string().uuid().validate(managerId).error) {
+        throw new ValidationError('manager_id must be a valid UUID');
+      }
+
+      const result = await employeeService.getEmployees(req.user!.companyId, {
+        search: req.query.search as string | undefined,
+        status,
+        department,
+        employment_type: employmentType,
+        manager_id: managerId,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.employees,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get employees error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single employee
+   */
+  static async getEmployeeById(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.getEmployeeById(req.user!.companyId, req.params.id);
+
+      if (!employee) {
+        throw new NotFoundError('Employee not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: employee,
+      });
+    } catch (error) {
+      logger.error('Get employee error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create an employee
+   */
+  static async createEmployee(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.createEmployee(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: employee,
+        message: 'Employee created successfully',
+      });
+    } catch (error) {
+      logger.error('Create employee error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an employee
+   */
+  static async updateEmployee(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.updateEmployee(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: employee,
+        message: 'Employee updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update employee error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change an employee's status
+   */
+  static async changeStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.changeStatus(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: employee,
+        message: 'Employee status updated successfully',
+      });
+    } catch (error) {
+      logger.error('Change employee status error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an employee
+   */
+  static async deleteEmployee(req: Request, res: Response): Promise<void> {
+    try {
+      await employeeService.deleteEmployee(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Employee deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete employee error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Salary history for an employee
+   */
+  static async getSalaryHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await employeeService.getSalaryHistory(req.user!.companyId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      logger.error('Get salary history error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record an effective-dated salary change
+   */
+  static async addSalaryChange(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await employeeService.addSalaryChange(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: entry,
+        message: 'Salary change recorded successfully',
+      });
+    } catch (error) {
+      logger.error('Add salary change error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
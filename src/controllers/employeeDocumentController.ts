@@ -0,0 +1,242 @@
+import { Request, Response } from 'express';
+import { employeeDocumentService } from '../services/hr/employeeDocumentService';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { DocumentType } from '../types';
+import { logger } from '../utils/logger';
+
+const DOCUMENT_TYPES = Object.values(DocumentType) as string[];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Version number from the query string, if any
+ */
+const parseVersion = (value: unknown): number | undefined => {
+  if (value === undefined) return undefined;
+
+  const version = parseInt(value as string);
+  if (isNaN(version) || version < 1) {
+    throw new ValidationError('Version must be a positive number');
+  }
+  return version;
+};
+
+export class EmployeeDocumentController {
+  /**
+   * List an employee's documents
+   */
+  static async getDocuments(req: Request, res: Response): Promise<void> {
+    try {
+      const type = req.query.type as DocumentType | undefined;
+      if (type && !DOCUMENT_TYPES.includes(type)) {
+        throw new ValidationError(`Type must be one of: ${DOCUMENT_TYPES.join(', ')}`);
+      }
+
+      const expiringBefore = req.query.expiring_before as string | undefined;
+      if (expiringBefore && !DATE_PATTERN.test(expiringBefore)) {
+        throw new ValidationError('expiring_before must be a date (YYYY-MM-DD)');
+      }
+
+      const documents = await employeeDocumentService.getDocuments(req.user!.companyId, req.params.id, {
+        type,
+        expiring_before: expiringBefore,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: documents,
+      });
+    } catch (error) {
+      logger.error('Get employee documents error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a document with its version history
+   */
+  static async getDocumentById(req: Request, res: Response): Promise<void> {
+    try {
+      const document = await employeeDocumentService.getDocumentById(
+        req.user!.companyId,
+        req.params.id,
+        req.params.documentId
+      );
+
+      if (!document) {
+        throw new NotFoundError('Document not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: document,
+      });
+    } catch (error) {
+      logger.error('Get employee document error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        documentId: req.params.documentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a new document
+   */
+  static async uploadDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const document = await employeeDocumentService.uploadDocument(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.file,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: document,
+        message: 'Document uploaded successfully',
+      });
+    } catch (error) {
+      logger.error('Upload employee document error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a new version of a document
+   */
+  static async addVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const document = await employeeDocumentService.addVersion(
+        req.user!.companyId,
+        req.params.id,
+        req.params.documentId,
+        req.body,
+        req.file,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: document,
+        message: `Version ${document.current_version} uploaded successfully`,
+      });
+    } catch (error) {
+      logger.error('Add employee document version error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        documentId: req.params.documentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download a document (the current version unless ?version= is given)
+   */
+  static async downloadDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const rendered = await employeeDocumentService.getDocumentFile(
+        req.user!.companyId,
+        req.params.id,
+        req.params.documentId,
+        parseVersion(req.query.version),
+        req.user!.id
+      );
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Download employee document error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        documentId: req.params.documentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a document from the vault
+   */
+  static async deleteDocument(req: Request, res: Response): Promise<void> {
+    try {
+      await employeeDocumentService.deleteDocument(
+        req.user!.companyId,
+        req.params.id,
+        req.params.documentId,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Document deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete employee document error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        documentId: req.params.documentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's own documents (the user themselves or HR)
+   */
+  static async getUserDocuments(req: Request, res: Response): Promise<void> {
+    try {
+      const documents = await employeeDocumentService.getUserDocuments(req.user!.companyId, req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        data: documents,
+      });
+    } catch (error) {
+      logger.error('Get user documents error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        documentUserId: req.params.userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download one of a user's own documents
+   */
+  static async downloadUserDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const rendered = await employeeDocumentService.getUserDocumentFile(
+        req.user!.companyId,
+        req.params.userId,
+        req.params.documentId,
+        parseVersion(req.query.version),
+        req.user!.id
+      );
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Download user document error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        documentId: req.params.documentId,
+      });
+      throw error;
+    }
+  }
+}
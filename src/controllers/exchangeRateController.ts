@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { exchangeRateService } from '../services/exchangeRateService';
+import { companyService } from '../core/company/companyService';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { toDateOnly } from '../utils/dateUtils';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+
+export class ExchangeRateController {
+  /**
+   * Exchange rates against a base currency as of a date
+   */
+  static async getExchangeRates(req: Request, res: Response): Promise<void> {
+    try {
+      const date = (req.query.date as string | undefined) || toDateOnly(new Date());
+      if (!DATE_PATTERN.test(date)) {
+        throw new ValidationError('Date must be in YYYY-MM-DD format');
+      }
+
+      let base = req.query.base as string | undefined;
+      if (!base) {
+        const company = await companyService.getCompanyById(req.user!.companyId);
+        base = company?.currency_code || 'ZAR';
+      }
+      if (!CURRENCY_PATTERN.test(base)) {
+        throw new ValidationError('Base currency must be a 3-letter ISO code');
+      }
+
+      const symbols = ((req.query.symbols as string) || '')
+        .split(',')
+        .map(symbol => symbol.trim())
+        .filter(symbol => symbol.length > 0);
+
+      const rates = await exchangeRateService.getRates(base, date, symbols);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          base: base.toUpperCase(),
+          date,
+          rates,
+        },
+      });
+    } catch (error) {
+      logger.error('Get exchange rates error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch rates from the providers now (optionally backfilling a past date)
+   */
+  static async fetchExchangeRates(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await exchangeRateService.fetchAndStoreRates(req.body.date);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `${result.stored} exchange rates stored`,
+      });
+    } catch (error) {
+      logger.error('Fetch exchange rates error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { fiscalPeriodService } from '../services/financial/fiscalPeriodService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class FiscalPeriodController {
+  /**
+   * List fiscal years with their periods
+   */
+  static async getFiscalYears(req: Request, res: Response): Promise<void> {
+    try {
+      const years = await fiscalPeriodService.getFiscalYears(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: years,
+      });
+    } catch (error) {
+      logger.error('Get fiscal years error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single fiscal year
+   */
+  static async getFiscalYearById(req: Request, res: Response): Promise<void> {
+    try {
+      const year = await fiscalPeriodService.getFiscalYearById(req.user!.companyId, req.params.id);
+
+      if (!year) {
+        throw new NotFoundError('Fiscal year not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: year,
+      });
+    } catch (error) {
+      logger.error('Get fiscal year error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        fiscalYearId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a fiscal year and generate its periods
+   */
+  static async createFiscalYear(req: Request, res: Response): Promise<void> {
+    try {
+      const year = await fiscalPeriodService.createFiscalYear(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: year,
+        message: 'Fiscal year created',
+      });
+    } catch (error) {
+      logger.error('Create fiscal year error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close a fiscal year and post the retained earnings entry
+   */
+  static async closeFiscalYear(req: Request, res: Response): Promise<void> {
+    try {
+      const year = await fiscalPeriodService.closeFiscalYear(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: year,
+        message: 'Fiscal year closed',
+      });
+    } catch (error) {
+      logger.error('Close fiscal year error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        fiscalYearId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reopen a closed fiscal year
+   */
+  static async reopenFiscalYear(req: Request, res: Response): Promise<void> {
+    try {
+      const year = await fiscalPeriodService.reopenFiscalYear(
+        req.user!.companyId,
+        req.params.id,
+        req.user!.id,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: year,
+        message: 'Fiscal year reopened',
+      });
+    } catch (error) {
+      logger.error('Reopen fiscal year error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        fiscalYearId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a period into closing review
+   */
+  static async startPeriodClose(req: Request, res: Response): Promise<void> {
+    try {
+      const period = await fiscalPeriodService.startPeriodClose(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: period,
+        message: 'Period close started',
+      });
+    } catch (error) {
+      logger.error('Start period close error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        periodId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close a fiscal period
+   */
+  static async closePeriod(req: Request, res: Response): Promise<void> {
+    try {
+      const period = await fiscalPeriodService.closePeriod(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: period,
+        message: 'Period closed',
+      });
+    } catch (error) {
+      logger.error('Close period error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        periodId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reopen a closed fiscal period
+   */
+  static async reopenPeriod(req: Request, res: Response): Promise<void> {
+    try {
+      const period = await fiscalPeriodService.reopenPeriod(
+        req.user!.companyId,
+        req.params.id,
+        req.user!.id,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: period,
+        message: 'Period reopened',
+      });
+    } catch (error) {
+      logger.error('Reopen period error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        periodId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { fixedAssetService, FixedAssetStatus } from '../services/financial/fixedAssetService';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const STATUSES: FixedAssetStatus[] = ['active', 'fully_depreciated', 'disposed'];
+
+export class FixedAssetController {
+  /**
+   * List the asset register
+   */
+  static async getAssets(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as FixedAssetStatus | undefined;
+      if (status && !STATUSES.includes(status)) {
+        throw new ValidationError(`Status must be one of: ${STATUSES.join(', ')}`);
+      }
+
+      const result = await fixedAssetService.getAssets(req.user!.companyId, {
+        status,
+        category: req.query.category as string | undefined,
+        location: req.query.location as string | undefined,
+        custodian_id: req.query.custodian_id as string | undefined,
+        control_system_id: req.query.control_system_id as string | undefined,
+        search: req.query.search as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.assets,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get fixed assets error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an asset with depreciation history and remaining schedule
+   */
+  static async getAssetById(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await fixedAssetService.getAssetById(req.user!.companyId, req.params.id);
+
+      if (!asset) {
+        throw new NotFoundError('Fixed asset not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: asset,
+      });
+    } catch (error) {
+      logger.error('Get fixed asset error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        assetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add an asset to the register
+   */
+  static async createAsset(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await fixedAssetService.createAsset(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: asset,
+        message: 'Fixed asset created successfully',
+      });
+    } catch (error) {
+      logger.error('Create fixed asset error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an asset
+   */
+  static async updateAsset(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await fixedAssetService.updateAsset(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: asset,
+        message: 'Fixed asset updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update fixed asset error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        assetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Dispose of an asset
+   */
+  static async disposeAsset(req: Request, res: Response): Promise<void> {
+    try {
+      const asset = await fixedAssetService.disposeAsset(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: asset,
+        message: 'Fixed asset disposed',
+      });
+    } catch (error) {
+      logger.error('Dispose fixed asset error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        assetId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Run depreciation through a month
+   */
+  static async runDepreciation(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await fixedAssetService.runDepreciation(req.user!.companyId, `${req.body.period_month}-01`, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.assets > 0
+          ? `Depreciated ${result.assets} assets`
+          : 'Nothing to depreciate',
+      });
+    } catch (error) {
+      logger.error('Run depreciation error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { fxService } from '../services/financial/fxService';
+import { financialSettingsService } from '../services/financial/financialSettingsService';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { toDateOnly } from '../utils/dateUtils';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class FxController {
+  /**
+   * Get financial settings (default posting accounts, FX options)
+   */
+  static async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await financialSettingsService.getSettings(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      logger.error('Get financial settings error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update financial settings
+   */
+  static async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await financialSettingsService.updateSettings(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+        message: 'Financial settings updated',
+      });
+    } catch (error) {
+      logger.error('Update financial settings error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Open foreign-currency balances with their revaluation at the given date
+   */
+  static async getForeignBalances(req: Request, res: Response): Promise<void> {
+    try {
+      const date = (req.query.date as string | undefined) || toDateOnly(new Date());
+      if (!DATE_PATTERN.test(date)) {
+        throw new ValidationError('Date must be in YYYY-MM-DD format');
+      }
+
+      const balances = await fxService.getForeignBalances(req.user!.companyId, date);
+
+      res.status(200).json({
+        success: true,
+        data: balances,
+      });
+    } catch (error) {
+      logger.error('Get foreign balances error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Post an unrealised FX revaluation
+   */
+  static async revalue(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await fxService.revalue(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: result.entry ? 'Revaluation posted' : 'No revaluation differences to post',
+      });
+    } catch (error) {
+      logger.error('FX revaluation error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a foreign-currency balance and book the realised gain or loss
+   */
+  static async settle(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await fxService.settle(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Settlement posted',
+      });
+    } catch (error) {
+      logger.error('FX settlement error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,327 @@
+import { Request, Response } from 'express';
+import { invoiceService } from '../services/financial/invoiceService';
+import { invoiceDocumentService } from '../services/financial/invoiceDocumentService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { InvoiceStatus } from '../types';
+
+export class InvoiceController {
+  /**
+   * List invoices
+   */
+  static async getInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await invoiceService.getInvoices(req.user!.companyId, {
+        status: req.query.status as InvoiceStatus | undefined,
+        customer_id: req.query.customer_id as string | undefined,
+        start_date: req.query.start_date as string | undefined,
+        end_date: req.query.end_date as string | undefined,
+        search: req.query.search as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.invoices,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get invoices error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single invoice with payments and credit notes
+   */
+  static async getInvoiceById(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.getInvoiceById(req.user!.companyId, req.params.id);
+
+      if (!invoice) {
+        throw new NotFoundError('Invoice not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error) {
+      logger.error('Get invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft invoice
+   */
+  static async createInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.createInvoice(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: invoice,
+        message: 'Invoice created',
+      });
+    } catch (error) {
+      logger.error('Create invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft invoice
+   */
+  static async updateInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.updateInvoice(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: invoice,
+        message: 'Invoice updated',
+      });
+    } catch (error) {
+      logger.error('Update invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft invoice
+   */
+  static async deleteInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      await invoiceService.deleteInvoice(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Invoice deleted',
+      });
+    } catch (error) {
+      logger.error('Delete invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a draft invoice and post it to the ledger
+   */
+  static async sendInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.sendInvoice(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: invoice,
+        message: 'Invoice sent',
+      });
+    } catch (error) {
+      logger.error('Send invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a payment against an invoice
+   */
+  static async recordPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.recordPayment(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: invoice,
+        message: 'Payment recorded',
+      });
+    } catch (error) {
+      logger.error('Record invoice payment error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a credit note against an invoice
+   */
+  static async createCreditNote(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.createCreditNote(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: invoice,
+        message: 'Credit note issued',
+      });
+    } catch (error) {
+      logger.error('Create credit note error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an invoice
+   */
+  static async cancelInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.cancelInvoice(
+        req.user!.companyId,
+        req.params.id,
+        req.user!.id,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: invoice,
+        message: 'Invoice cancelled',
+      });
+    } catch (error) {
+      logger.error('Cancel invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download an invoice as PDF
+   */
+  static async getInvoicePdf(req: Request, res: Response): Promise<void> {
+    try {
+      const rendered = await invoiceDocumentService.renderInvoicePdf(req.user!.companyId, req.params.id);
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Get invoice PDF error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Email an invoice PDF to the customer
+   */
+  static async emailInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceDocumentService.emailInvoice(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: invoice,
+        message: 'Invoice emailed',
+      });
+    } catch (error) {
+      logger.error('Email invoice error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        invoiceId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the company's invoice template
+   */
+  static async getTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await invoiceDocumentService.getTemplate(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error('Get invoice template error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the company's invoice template
+   */
+  static async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await invoiceDocumentService.updateTemplate(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+        message: 'Invoice template updated',
+      });
+    } catch (error) {
+      logger.error('Update invoice template error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
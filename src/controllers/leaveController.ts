@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { leaveService } from '../services/hr/leaveService';
+import { employeeService } from '../services/hr/employeeService';
+import { resolveRequestEmployee } from './employeeController';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { LeaveType, LeaveStatus } from '../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filters shared by the leave listings
+ */
+const parseFilters = (req: Request) => {
+  const type = req.query.type as LeaveType | undefined;
+  if (type && !Object.values(LeaveType).includes(type)) {
+    throw new ValidationError(`Type must be one of: ${Object.values(LeaveType).join(', ')}`);
+  }
+
+  const status = req.query.status as LeaveStatus | undefined;
+  if (status && !Object.values(LeaveStatus).includes(status)) {
+    throw new ValidationError(`Status must be one of: ${Object.values(LeaveStatus).join(', ')}`);
+  }
+
+  const startDate = req.query.start_date as string | undefined;
+  const endDate = req.query.end_date as string | undefined;
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    throw new ValidationError('Dates must be in YYYY-MM-DD format');
+  }
+
+  return {
+    type,
+    status,
+    start_date: startDate,
+    end_date: endDate,
+    page: req.query.page ? parseInt(req.query.page as string) : undefined,
+    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+  };
+};
+
+/**
+ * Whether the caller can act on any employee's leave
+ */
+const isHrUser = (req: Request): boolean => {
+  const permissions = req.user!.permissions || [];
+  return permissions.includes('*') || permissions.includes('hr:write');
+};
+
+export class LeaveController {
+  /**
+   * Request leave
+   */
+  static async requestLeave(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = await resolveRequestEmployee(req);
+      const leave = await leaveService.requestLeave(req.user!.companyId, employeeId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: leave,
+        message: 'Leave requested successfully',
+      });
+    } catch (error) {
+      logger.error('Request leave error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a leave request
+   */
+  static async cancelLeave(req: Request, res: Response): Promise<void> {
+    try {
+      const leave = await leaveService.cancelLeave(req.user!.companyId, req.params.id, req.user!.id, isHrUser(req));
+
+      res.status(200).json({
+        success: true,
+        data: leave,
+        message: 'Leave cancelled successfully',
+      });
+    } catch (error) {
+      logger.error('Cancel leave error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        leaveId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The caller's own leave requests
+   */
+  static async getMyLeaves(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.getEmployeeByUserId(req.user!.companyId, req.user!.id);
+      if (!employee) {
+        throw new NotFoundError('No employee record is linked to this user');
+      }
+
+      const result = await leaveService.getLeaves(req.user!.companyId, {
+        ...parseFilters(req),
+        employee_id: employee.id,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.leaves,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get my leaves error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The caller's own leave balances
+   */
+  static async getMyBalances(req: Request, res: Response): Promise<void> {
+    try {
+      const employee = await employeeService.getEmployeeByUserId(req.user!.companyId, req.user!.id);
+      if (!employee) {
+        throw new NotFoundError('No employee record is linked to this user');
+      }
+
+      const asOf = req.query.as_of_date as string | undefined;
+      if (asOf && !DATE_PATTERN.test(asOf)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const balances = await leaveService.getBalances(req.user!.companyId, employee.id, asOf);
+
+      res.status(200).json({
+        success: true,
+        data: balances,
+      });
+    } catch (error) {
+      logger.error('Get my leave balances error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List leave requests
+   */
+  static async getLeaves(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = req.query.employee_id as string | undefined;
+      if (employeeId && Joi.string().uuid().validate(employeeId).error) {
+        throw new ValidationError('employee_id must be a valid UUID');
+      }
+
+      const result = await leaveService.getLeaves(req.user!.companyId, {
+        ...parseFilters(req),
+        employee_id: employeeId,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.leaves,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get leaves error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a leave request
+   */
+  static async getLeaveById(req: Request, res: Response): Promise<void> {
+    try {
+      const leave = await leaveService.getLeaveById(req.user!.companyId, req.params.id);
+
+      if (!leave) {
+        throw new NotFoundError('Leave request not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: leave,
+      });
+    } catch (error) {
+      logger.error('Get leave error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        leaveId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Leave balances for an employee
+   */
+  static async getBalances(req: Request, res: Response): Promise<void> {
+    try {
+      const asOf = req.query.as_of_date as string | undefined;
+      if (asOf && !DATE_PATTERN.test(asOf)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const balances = await leaveService.getBalances(req.user!.companyId, req.params.id, asOf);
+
+      res.status(200).json({
+        success: true,
+        data: balances,
+      });
+    } catch (error) {
+      logger.error('Get leave balances error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Adjust an employee's leave balance
+   */
+  static async addAdjustment(req: Request, res: Response): Promise<void> {
+    try {
+      const balances = await leaveService.addAdjustment(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: balances,
+        message: 'Leave balance adjusted successfully',
+      });
+    } catch (error) {
+      logger.error('Adjust leave balance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List leave policies
+   */
+  static async getPolicies(req: Request, res: Response): Promise<void> {
+    try {
+      const policies = await leaveService.getPolicies(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: policies,
+      });
+    } catch (error) {
+      logger.error('Get leave policies error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a leave policy
+   */
+  static async createPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await leaveService.createPolicy(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: policy,
+        message: 'Leave policy created successfully',
+      });
+    } catch (error) {
+      logger.error('Create leave policy error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a leave policy
+   */
+  static async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await leaveService.updatePolicy(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: policy,
+        message: 'Leave policy updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update leave policy error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        policyId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
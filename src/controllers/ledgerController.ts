@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { ledgerService } from '../services/financial/ledgerService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { TransactionStatus } from '../types';
+
+export class LedgerController {
+  /**
+   * List journal entries
+   */
+  static async getTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const companyId = req.user!.companyId;
+      const result = await ledgerService.getJournalEntries(companyId, {
+        status: req.query.status as TransactionStatus | undefined,
+        start_date: req.query.start_date as string | undefined,
+        end_date: req.query.end_date as string | undefined,
+        account_id: req.query.account_id as string | undefined,
+        source_type: req.query.source_type as string | undefined,
+        search: req.query.search as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.entries,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get transactions error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single journal entry
+   */
+  static async getTransactionById(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await ledgerService.getJournalEntryById(req.user!.companyId, req.params.id);
+
+      if (!entry) {
+        throw new NotFoundError('Journal entry not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      logger.error('Get transaction error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        entryId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft journal entry
+   */
+  static async createTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await ledgerService.createJournalEntry(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: entry,
+        message: 'Journal entry created',
+      });
+    } catch (error) {
+      logger.error('Create transaction error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Post a draft journal entry to the ledger
+   */
+  static async postTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await ledgerService.postJournalEntry(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+        message: 'Journal entry posted',
+      });
+    } catch (error) {
+      logger.error('Post transaction error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        entryId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse a posted journal entry
+   */
+  static async reverseTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const reversal = await ledgerService.reverseJournalEntry(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: reversal,
+        message: 'Journal entry reversed',
+      });
+    } catch (error) {
+      logger.error('Reverse transaction error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        entryId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
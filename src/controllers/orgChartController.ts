@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { orgChartService, OrgChartFormat, OrgChartOptions, OrgChartView } from '../services/hr/orgChartService';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const VIEWS: OrgChartView[] = ['employees', 'departments'];
+const FORMATS: OrgChartFormat[] = ['svg', 'pdf'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * View and subtree root from the query string
+ */
+const chartOptions = (req: Request): OrgChartOptions => {
+  const view = req.query.view as OrgChartView | undefined;
+  if (view && !VIEWS.includes(view)) {
+    throw new ValidationError(`View must be one of: ${VIEWS.join(', ')}`);
+  }
+
+  const rootId = req.query.root_id as string | undefined;
+  if (rootId && !UUID_PATTERN.test(rootId)) {
+    throw new ValidationError('root_id must be a valid UUID');
+  }
+
+  return { view, root_id: rootId };
+};
+
+export class OrgChartController {
+  /**
+   * Organisation chart as a tree
+   */
+  static async getOrgChart(req: Request, res: Response): Promise<void> {
+    try {
+      const chart = await orgChartService.getOrgChart(req.user!.companyId, chartOptions(req));
+
+      res.status(200).json({
+        success: true,
+        data: chart,
+      });
+    } catch (error) {
+      logger.error('Get org chart error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download the organisation chart as SVG or PDF
+   */
+  static async exportOrgChart(req: Request, res: Response): Promise<void> {
+    try {
+      const format = (req.query.format as OrgChartFormat | undefined) || 'svg';
+      if (!FORMATS.includes(format)) {
+        throw new ValidationError(`Format must be one of: ${FORMATS.join(', ')}`);
+      }
+
+      const rendered = await orgChartService.exportOrgChart(req.user!.companyId, format, chartOptions(req));
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Export org chart error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * A user's managers up to the top of the organisation
+   */
+  static async getManagementChain(req: Request, res: Response): Promise<void> {
+    try {
+      const chain = await orgChartService.getManagementChain(req.user!.companyId, req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        data: chain,
+      });
+    } catch (error) {
+      logger.error('Get management chain error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        chainUserId: req.params.userId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { paymentRunService, PaymentRunStatus } from '../services/financial/paymentRunService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class PaymentRunController {
+  /**
+   * List payment runs
+   */
+  static async getPaymentRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await paymentRunService.getPaymentRuns(req.user!.companyId, {
+        status: req.query.status as PaymentRunStatus | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.runs,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get payment runs error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single payment run with its bills
+   */
+  static async getPaymentRunById(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await paymentRunService.getPaymentRunById(req.user!.companyId, req.params.id);
+
+      if (!run) {
+        throw new NotFoundError('Payment run not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      logger.error('Get payment run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        paymentRunId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Propose a payment run of bills due
+   */
+  static async createPaymentRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await paymentRunService.createPaymentRun(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: run,
+        message: 'Payment run created',
+      });
+    } catch (error) {
+      logger.error('Create payment run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a bill from a draft payment run
+   */
+  static async excludeBill(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await paymentRunService.excludeBill(
+        req.user!.companyId,
+        req.params.id,
+        req.params.billId,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: 'Bill removed from payment run',
+      });
+    } catch (error) {
+      logger.error('Remove bill from payment run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        paymentRunId: req.params.id,
+        billId: req.params.billId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Post a payment run to the ledger
+   */
+  static async postPaymentRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await paymentRunService.postPaymentRun(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: 'Payment run posted',
+      });
+    } catch (error) {
+      logger.error('Post payment run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        paymentRunId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a draft payment run
+   */
+  static async cancelPaymentRun(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await paymentRunService.cancelPaymentRun(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: 'Payment run cancelled',
+      });
+    } catch (error) {
+      logger.error('Cancel payment run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        paymentRunId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,389 @@
+import { Request, Response } from 'express';
+import { payrollService, PayrollRunStatus, PayrollRunType } from '../services/hr/payrollService';
+import { payslipService } from '../services/hr/payslipService';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const RUN_STATUSES: PayrollRunStatus[] = ['draft', 'finalised'];
+const RUN_TYPES: PayrollRunType[] = ['regular', 'reversal'];
+
+export class PayrollController {
+  /**
+   * List payroll runs
+   */
+  static async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const period = req.query.period as string | undefined;
+      if (period && !PERIOD_PATTERN.test(period)) {
+        throw new ValidationError('Period must be in YYYY-MM format');
+      }
+
+      const status = req.query.status as PayrollRunStatus | undefined;
+      if (status && !RUN_STATUSES.includes(status)) {
+        throw new ValidationError(`Status must be one of: ${RUN_STATUSES.join(', ')}`);
+      }
+
+      const runType = req.query.run_type as PayrollRunType | undefined;
+      if (runType && !RUN_TYPES.includes(runType)) {
+        throw new ValidationError(`Run type must be one of: ${RUN_TYPES.join(', ')}`);
+      }
+
+      const result = await payrollService.getPayrollRuns(req.user!.companyId, {
+        period,
+        status,
+        run_type: runType,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.runs,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get payroll runs error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a payroll run with its payslip lines
+   */
+  static async getRunById(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await payrollService.getPayrollRunById(req.user!.companyId, req.params.id);
+
+      if (!run) {
+        throw new NotFoundError('Payroll run not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      logger.error('Get payroll run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        runId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate a period's payroll as a draft for review
+   */
+  static async calculate(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await payrollService.calculatePayroll(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: run.exceptions.length > 0
+          ? `Payroll calculated for ${run.employee_count} employees with ${run.exceptions.length} exceptions`
+          : `Payroll calculated for ${run.employee_count} employees`,
+      });
+    } catch (error) {
+      logger.error('Calculate payroll error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finalise a draft run and post it to the ledger
+   */
+  static async finalise(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await payrollService.finalisePayrollRun(req.user!.companyId, req.params.id, req.user!.id);
+
+      // Payslips are rendered and emailed after the response; failures are
+      // recorded on each payslip and the run can be reissued
+      if (run.run_type === 'regular') {
+        payslipService.issuePayslips(req.user!.companyId, run.id, req.user!.id).catch((error) => {
+          logger.error('Payslip issue failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            runId: run.id,
+          });
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: run.run_type === 'regular'
+          ? 'Payroll run finalised successfully; payslips are being issued'
+          : 'Payroll run finalised successfully',
+      });
+    } catch (error) {
+      logger.error('Finalise payroll run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        runId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a draft run
+   */
+  static async discard(req: Request, res: Response): Promise<void> {
+    try {
+      await payrollService.discardPayrollRun(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payroll run discarded successfully',
+      });
+    } catch (error) {
+      logger.error('Discard payroll run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        runId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Prepare a reversal of a finalised run
+   */
+  static async reverse(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await payrollService.reversePayrollRun(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: run,
+        message: 'Payroll reversal prepared; finalise it to post',
+      });
+    } catch (error) {
+      logger.error('Reverse payroll run error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        runId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List PAYE tax tables
+   */
+  static async getTaxTables(req: Request, res: Response): Promise<void> {
+    try {
+      let taxYear: number | undefined;
+      if (req.query.tax_year) {
+        taxYear = parseInt(req.query.tax_year as string);
+        if (isNaN(taxYear)) {
+          throw new ValidationError('tax_year must be a year');
+        }
+      }
+
+      const tables = await payrollService.getTaxTables(req.user!.companyId, taxYear);
+
+      res.status(200).json({
+        success: true,
+        data: tables,
+      });
+    } catch (error) {
+      logger.error('Get tax tables error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a PAYE tax table version
+   */
+  static async createTaxTable(req: Request, res: Response): Promise<void> {
+    try {
+      const table = await payrollService.createTaxTable(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: table,
+        message: `Tax table for ${table.tax_year} (version ${table.version}) created successfully`,
+      });
+    } catch (error) {
+      logger.error('Create tax table error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the default South African tax tables
+   */
+  static async createDefaultTaxTables(req: Request, res: Response): Promise<void> {
+    try {
+      const tables = await payrollService.createDefaultTaxTables(req.user!.companyId, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: tables,
+        message: 'Default tax tables created successfully',
+      });
+    } catch (error) {
+      logger.error('Create default tax tables error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List payroll earning and deduction items
+   */
+  static async getItems(req: Request, res: Response): Promise<void> {
+    try {
+      const items = await payrollService.getPayrollItems(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: items,
+      });
+    } catch (error) {
+      logger.error('Get payroll items error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a payroll item
+   */
+  static async createItem(req: Request, res: Response): Promise<void> {
+    try {
+      const item = await payrollService.createPayrollItem(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: item,
+        message: 'Payroll item created successfully',
+      });
+    } catch (error) {
+      logger.error('Create payroll item error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a payroll item
+   */
+  static async updateItem(req: Request, res: Response): Promise<void> {
+    try {
+      const item = await payrollService.updatePayrollItem(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: item,
+        message: 'Payroll item updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update payroll item error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        itemId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List an employee's recurring earnings and deductions
+   */
+  static async getEmployeeItems(req: Request, res: Response): Promise<void> {
+    try {
+      const items = await payrollService.getEmployeePayrollItems(req.user!.companyId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: items,
+      });
+    } catch (error) {
+      logger.error('Get employee payroll items error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Give an employee a recurring earning or deduction
+   */
+  static async addEmployeeItem(req: Request, res: Response): Promise<void> {
+    try {
+      const item = await payrollService.addEmployeePayrollItem(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: item,
+        message: 'Employee payroll item added successfully',
+      });
+    } catch (error) {
+      logger.error('Add employee payroll item error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change or end an employee's recurring item
+   */
+  static async updateEmployeeItem(req: Request, res: Response): Promise<void> {
+    try {
+      const item = await payrollService.updateEmployeePayrollItem(
+        req.user!.companyId,
+        req.params.id,
+        req.params.itemId,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: item,
+        message: 'Employee payroll item updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update employee payroll item error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        employeeId: req.params.id,
+        itemId: req.params.itemId,
+      });
+      throw error;
+    }
+  }
+}
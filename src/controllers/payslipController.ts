@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { payslipService } from '../services/hr/payslipService';
+import { logger } from '../utils/logger';
+
+export class PayslipController {
+  /**
+   * List a user's payslips (the user themselves or HR)
+   */
+  static async getPayslips(req: Request, res: Response): Promise<void> {
+    try {
+      const payslips = await payslipService.getPayslips(req.user!.companyId, req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        data: payslips,
+      });
+    } catch (error) {
+      logger.error('Get payslips error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        payslipUserId: req.params.userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download a payslip PDF
+   */
+  static async downloadPayslip(req: Request, res: Response): Promise<void> {
+    try {
+      const rendered = await payslipService.getPayslipFile(
+        req.user!.companyId,
+        req.params.userId,
+        req.params.id,
+        req.user!.id
+      );
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Download payslip error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        payslipId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Regenerate a finalised run's payslips, emailing them unless email is false
+   */
+  static async issuePayslips(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await payslipService.issuePayslips(req.user!.companyId, req.params.id, req.user!.id, {
+        email: req.body?.email,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.failed.length > 0
+          ? `${result.generated} payslips generated, ${result.failed.length} could not be emailed`
+          : `${result.generated} payslips generated`,
+      });
+    } catch (error) {
+      logger.error('Issue payslips error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        runId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
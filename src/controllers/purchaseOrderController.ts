@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { purchaseOrderService, PurchaseOrderStatus } from '../services/financial/purchaseOrderService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class PurchaseOrderController {
+  /**
+   * List purchase orders
+   */
+  static async getPurchaseOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await purchaseOrderService.getPurchaseOrders(req.user!.companyId, {
+        status: req.query.status as PurchaseOrderStatus | undefined,
+        supplier_id: req.query.supplier_id as string | undefined,
+        search: req.query.search as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.purchase_orders,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get purchase orders error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single purchase order with its goods receipts
+   */
+  static async getPurchaseOrderById(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await purchaseOrderService.getPurchaseOrderById(req.user!.companyId, req.params.id);
+
+      if (!order) {
+        throw new NotFoundError('Purchase order not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: order,
+      });
+    } catch (error) {
+      logger.error('Get purchase order error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        purchaseOrderId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  static async createPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await purchaseOrderService.createPurchaseOrder(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: order,
+        message: 'Purchase order created',
+      });
+    } catch (error) {
+      logger.error('Create purchase order error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft purchase order
+   */
+  static async updatePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await purchaseOrderService.updatePurchaseOrder(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: order,
+        message: 'Purchase order updated',
+      });
+    } catch (error) {
+      logger.error('Update purchase order error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        purchaseOrderId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a draft purchase order to the supplier
+   */
+  static async issuePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await purchaseOrderService.issuePurchaseOrder(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: order,
+        message: 'Purchase order issued',
+      });
+    } catch (error) {
+      logger.error('Issue purchase order error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        purchaseOrderId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a goods receipt against a purchase order
+   */
+  static async receiveGoods(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await purchaseOrderService.receiveGoods(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: order,
+        message: 'Goods received',
+      });
+    } catch (error) {
+      logger.error('Receive goods error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        purchaseOrderId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close or cancel a purchase order
+   */
+  static async closePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await purchaseOrderService.closePurchaseOrder(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: order,
+        message: order.status === 'cancelled' ? 'Purchase order cancelled' : 'Purchase order closed',
+      });
+    } catch (error) {
+      logger.error('Close purchase order error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        purchaseOrderId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import { receivablesService } from '../services/financial/receivablesService';
+import { AgeingBasis } from '../services/financial/receivablesAgeing';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BASES: AgeingBasis[] = ['invoice_date', 'due_date'];
+
+export class ReceivablesController {
+  /**
+   * Aged receivables per customer (JSON, CSV or PDF)
+   */
+  static async getAgeing(req: Request, res: Response): Promise<void> {
+    try {
+      const format = ((req.query.format as string) || 'json').toLowerCase();
+      if (!['json', 'csv', 'pdf'].includes(format)) {
+        throw new ValidationError('Format must be one of: json, csv, pdf');
+      }
+
+      const asOfDate = req.query.as_of_date as string | undefined;
+      if (asOfDate && !DATE_PATTERN.test(asOfDate)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const basis = req.query.basis as AgeingBasis | undefined;
+      if (basis && !BASES.includes(basis)) {
+        throw new ValidationError(`Basis must be one of: ${BASES.join(', ')}`);
+      }
+
+      const customerId = req.query.customer_id as string | undefined;
+      if (customerId && Joi.string().uuid().validate(customerId).error) {
+        throw new ValidationError('customer_id must be a valid UUID');
+      }
+
+      const report = await receivablesService.getAgeing(req.user!.companyId, {
+        as_of_date: asOfDate,
+        basis,
+        customer_id: customerId,
+      });
+
+      if (format === 'json') {
+        res.status(200).json({
+          success: true,
+          data: report,
+        });
+        return;
+      }
+
+      const rendered = await receivablesService.renderAgeing(report, format as 'csv' | 'pdf');
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Get receivables ageing error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Customer statement for a period (JSON or PDF)
+   */
+  static async getCustomerStatement(req: Request, res: Response): Promise<void> {
+    try {
+      const format = ((req.query.format as string) || 'json').toLowerCase();
+      if (!['json', 'pdf'].includes(format)) {
+        throw new ValidationError('Format must be one of: json, pdf');
+      }
+
+      const startDate = req.query.start_date as string | undefined;
+      const endDate = req.query.end_date as string | undefined;
+      if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const currency = req.query.currency as string | undefined;
+      if (currency && !/^[A-Za-z]{3}$/.test(currency)) {
+        throw new ValidationError('Currency must be a 3-letter code');
+      }
+
+      const statement = await receivablesService.getCustomerStatement(req.user!.companyId, req.params.id, {
+        start_date: startDate,
+        end_date: endDate,
+        currency: currency?.toUpperCase(),
+      });
+
+      if (format === 'json') {
+        res.status(200).json({
+          success: true,
+          data: statement,
+        });
+        return;
+      }
+
+      const rendered = await receivablesService.renderStatementPdf(req.user!.companyId, statement);
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Get customer statement error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        customerId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List dunning levels
+   */
+  static async getDunningLevels(req: Request, res: Response): Promise<void> {
+    try {
+      const levels = await receivablesService.getDunningLevels(req.user!.companyId);
+
+      res.status(200).json({
+        success: true,
+        data: levels,
+      });
+    } catch (error) {
+      logger.error('Get dunning levels error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a dunning level
+   */
+  static async createDunningLevel(req: Request, res: Response): Promise<void> {
+    try {
+      const level = await receivablesService.createDunningLevel(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: level,
+        message: 'Dunning level created successfully',
+      });
+    } catch (error) {
+      logger.error('Create dunning level error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the default reminder sequence
+   */
+  static async createDefaultDunningLevels(req: Request, res: Response): Promise<void> {
+    try {
+      const levels = await receivablesService.createDefaultDunningLevels(req.user!.companyId, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: levels,
+        message: 'Default dunning levels created successfully',
+      });
+    } catch (error) {
+      logger.error('Create default dunning levels error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a dunning level
+   */
+  static async updateDunningLevel(req: Request, res: Response): Promise<void> {
+    try {
+      const level = await receivablesService.updateDunningLevel(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: level,
+        message: 'Dunning level updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update dunning level error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        levelId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a dunning level
+   */
+  static async deleteDunningLevel(req: Request, res: Response): Promise<void> {
+    try {
+      await receivablesService.deleteDunningLevel(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dunning level deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete dunning level error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        levelId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send due payment reminders now
+   */
+  static async runDunning(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await receivablesService.runDunning(
+        req.user!.companyId,
+        req.body?.as_of_date || new Date(),
+        req.user!.id
+      );
+
+      const sent = result.reminders.filter(reminder => reminder.status === 'sent').length;
+      const failed = result.reminders.length - sent;
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: failed > 0
+          ? `Sent ${sent} reminders; ${failed} failed`
+          : `Sent ${sent} reminders`,
+      });
+    } catch (error) {
+      logger.error('Run dunning error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { recurringJournalService } from '../services/financial/recurringJournalService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class RecurringJournalController {
+  /**
+   * List recurring journal templates
+   */
+  static async getRecurringJournals(req: Request, res: Response): Promise<void> {
+    try {
+      const templates = await recurringJournalService.getRecurringJournals(req.user!.companyId, {
+        is_active: req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      logger.error('Get recurring journals error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a template with lines and recent runs
+   */
+  static async getRecurringJournalById(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await recurringJournalService.getRecurringJournalById(req.user!.companyId, req.params.id);
+
+      if (!template) {
+        throw new NotFoundError('Recurring journal not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error('Get recurring journal error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        templateId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a template
+   */
+  static async createRecurringJournal(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await recurringJournalService.createRecurringJournal(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: template,
+        message: 'Recurring journal created successfully',
+      });
+    } catch (error) {
+      logger.error('Create recurring journal error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template
+   */
+  static async updateRecurringJournal(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await recurringJournalService.updateRecurringJournal(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: template,
+        message: 'Recurring journal updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update recurring journal error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        templateId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template that never ran
+   */
+  static async deleteRecurringJournal(req: Request, res: Response): Promise<void> {
+    try {
+      await recurringJournalService.deleteRecurringJournal(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Recurring journal deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Delete recurring journal error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        templateId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a template's due entries now
+   */
+  static async runRecurringJournal(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await recurringJournalService.runRecurringJournal(
+        req.user!.companyId,
+        req.params.id,
+        req.body?.as_of_date || new Date(),
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `Generated ${result.entries.length} entries`,
+      });
+    } catch (error) {
+      logger.error('Run recurring journal error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        templateId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Generate due entries for all active templates
+   */
+  static async runDueJournals(req: Request, res: Response): Promise<void> {
+    try {
+      const results = await recurringJournalService.runDueJournals(
+        req.user!.companyId,
+        req.body?.as_of_date || new Date(),
+        req.user!.id
+      );
+
+      const generated = results.reduce((count, result) => count + result.entries.length, 0);
+      const failed = results.filter(result => result.error).length;
+
+      res.status(200).json({
+        success: true,
+        data: results,
+        message: failed > 0
+          ? `Generated ${generated} entries; ${failed} templates failed`
+          : `Generated ${generated} entries`,
+      });
+    } catch (error) {
+      logger.error('Run due recurring journals error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
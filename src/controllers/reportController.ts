@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import {
+  reportService,
+  ReportType,
+  ReportFormat,
+  ComparisonType,
+} from '../services/financial/reportService';
+import { consolidationService } from '../services/financial/consolidationService';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { toDateOnly } from '../utils/dateUtils';
+
+const FORMATS: ReportFormat[] = ['json', 'csv', 'pdf'];
+const COMPARISONS: ComparisonType[] = ['prior_period', 'prior_year', 'budget'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read and validate the shared report query parameters
+ */
+const parseReportQuery = (req: Request) => {
+  const format = ((req.query.format as string) || 'json').toLowerCase() as ReportFormat;
+  if (!FORMATS.includes(format)) {
+    throw new ValidationError(`Format must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  const startDate = req.query.start_date as string | undefined;
+  const endDate = (req.query.end_date as string | undefined) || (req.query.as_of_date as string | undefined);
+  for (const date of [startDate, endDate]) {
+    if (date && !DATE_PATTERN.test(date)) {
+      throw new ValidationError('Dates must be in YYYY-MM-DD format');
+    }
+  }
+
+  const compare = ((req.query.compare as string) || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(value => value.length > 0) as ComparisonType[];
+  const invalid = compare.filter(value => !COMPARISONS.includes(value));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Unsupported comparison: ${invalid.join(', ')}`);
+  }
+
+  const budgetId = req.query.budget_id as string | undefined;
+  if (budgetId && Joi.string().uuid().validate(budgetId).error) {
+    throw new ValidationError('budget_id must be a valid UUID');
+  }
+
+  const groupId = req.query.group_id as string | undefined;
+  if (groupId && Joi.string().uuid().validate(groupId).error) {
+    throw new ValidationError('group_id must be a valid UUID');
+  }
+
+  return {
+    format,
+    groupId,
+    options: {
+      start_date: startDate,
+      end_date: endDate || toDateOnly(new Date()),
+      compare,
+      budget_id: budgetId,
+    },
+  };
+};
+
+/**
+ * Generate a report and send it in the requested format
+ */
+const sendReport = async (req: Request, res: Response, reportType: ReportType): Promise<void> => {
+  const { format, groupId, options } = parseReportQuery(req);
+  const report = groupId
+    ? await consolidationService.generateReport(req.user!.companyId, groupId, reportType, options)
+    : await reportService.generateReport(req.user!.companyId, reportType, options);
+
+  if (format === 'json') {
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+    return;
+  }
+
+  const rendered = await reportService.renderReport(report, format);
+  res.setHeader('Content-Type', rendered.content_type);
+  res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+  res.status(200).send(rendered.content);
+};
+
+export class ReportController {
+  /**
+   * Trial balance as at end_date
+   */
+  static async getTrialBalance(req: Request, res: Response): Promise<void> {
+    try {
+      await sendReport(req, res, 'trial_balance');
+    } catch (error) {
+      logger.error('Get trial balance error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Income statement (profit and loss) for start_date to end_date
+   */
+  static async getIncomeStatement(req: Request, res: Response): Promise<void> {
+    try {
+      await sendReport(req, res, 'income_statement');
+    } catch (error) {
+      logger.error('Get income statement error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Balance sheet as at end_date
+   */
+  static async getBalanceSheet(req: Request, res: Response): Promise<void> {
+    try {
+      await sendReport(req, res, 'balance_sheet');
+    } catch (error) {
+      logger.error('Get balance sheet error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
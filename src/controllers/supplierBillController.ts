@@ -0,0 +1,211 @@
+import { Request, Response } from 'express';
+import { supplierBillService, BillStatus } from '../services/financial/supplierBillService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class SupplierBillController {
+  /**
+   * List supplier bills
+   */
+  static async getBills(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await supplierBillService.getBills(req.user!.companyId, {
+        status: req.query.status as BillStatus | undefined,
+        supplier_id: req.query.supplier_id as string | undefined,
+        due_on_or_before: req.query.due_on_or_before as string | undefined,
+        search: req.query.search as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.bills,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get supplier bills error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single supplier bill with payments
+   */
+  static async getBillById(req: Request, res: Response): Promise<void> {
+    try {
+      const bill = await supplierBillService.getBillById(req.user!.companyId, req.params.id);
+
+      if (!bill) {
+        throw new NotFoundError('Supplier bill not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: bill,
+      });
+    } catch (error) {
+      logger.error('Get supplier bill error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        billId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Capture a draft supplier bill
+   */
+  static async createBill(req: Request, res: Response): Promise<void> {
+    try {
+      const bill = await supplierBillService.createBill(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: bill,
+        message: 'Supplier bill captured',
+      });
+    } catch (error) {
+      logger.error('Create supplier bill error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft or on-hold supplier bill
+   */
+  static async updateBill(req: Request, res: Response): Promise<void> {
+    try {
+      const bill = await supplierBillService.updateBill(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: bill,
+        message: 'Supplier bill updated',
+      });
+    } catch (error) {
+      logger.error('Update supplier bill error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        billId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft supplier bill
+   */
+  static async deleteBill(req: Request, res: Response): Promise<void> {
+    try {
+      await supplierBillService.deleteBill(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Supplier bill deleted',
+      });
+    } catch (error) {
+      logger.error('Delete supplier bill error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        billId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Match and approve a supplier bill; mismatches put it on hold
+   */
+  static async approveBill(req: Request, res: Response): Promise<void> {
+    try {
+      const bill = await supplierBillService.approveBill(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: bill,
+        message: bill.status === 'on_hold'
+          ? 'Supplier bill does not match its purchase order and is on hold'
+          : 'Supplier bill approved',
+      });
+    } catch (error) {
+      logger.error('Approve supplier bill error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        billId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve an on-hold supplier bill despite match differences
+   */
+  static async overrideMatch(req: Request, res: Response): Promise<void> {
+    try {
+      const bill = await supplierBillService.overrideMatch(
+        req.user!.companyId,
+        req.params.id,
+        req.body.reason,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: bill,
+        message: 'Supplier bill approved with match override',
+      });
+    } catch (error) {
+      logger.error('Override supplier bill match error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        billId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a supplier bill
+   */
+  static async cancelBill(req: Request, res: Response): Promise<void> {
+    try {
+      const bill = await supplierBillService.cancelBill(
+        req.user!.companyId,
+        req.params.id,
+        req.user!.id,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: bill,
+        message: 'Supplier bill cancelled',
+      });
+    } catch (error) {
+      logger.error('Cancel supplier bill error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        billId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
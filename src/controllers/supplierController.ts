@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { supplierService } from '../services/financial/supplierService';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export class SupplierController {
+  /**
+   * List suppliers
+   */
+  static async getSuppliers(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await supplierService.getSuppliers(req.user!.companyId, {
+        search: req.query.search as string | undefined,
+        is_active: req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.suppliers,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      logger.error('Get suppliers error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single supplier
+   */
+  static async getSupplierById(req: Request, res: Response): Promise<void> {
+    try {
+      const supplier = await supplierService.getSupplierById(req.user!.companyId, req.params.id);
+
+      if (!supplier) {
+        throw new NotFoundError('Supplier not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: supplier,
+      });
+    } catch (error) {
+      logger.error('Get supplier error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        supplierId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a supplier
+   */
+  static async createSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const supplier = await supplierService.createSupplier(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: supplier,
+        message: 'Supplier created',
+      });
+    } catch (error) {
+      logger.error('Create supplier error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a supplier
+   */
+  static async updateSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const supplier = await supplierService.updateSupplier(
+        req.user!.companyId,
+        req.params.id,
+        req.body,
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: supplier,
+        message: 'Supplier updated',
+      });
+    } catch (error) {
+      logger.error('Update supplier error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        supplierId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a supplier without orders or bills
+   */
+  static async deleteSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      await supplierService.deleteSupplier(req.user!.companyId, req.params.id, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Supplier deleted',
+      });
+    } catch (error) {
+      logger.error('Delete supplier error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        supplierId: req.params.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { taxCertificateService } from '../services/hr/taxCertificateService';
+import { ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Tax year from the route, named by the year it ends
+ */
+const parseTaxYear = (value: string): number => {
+  const taxYear = parseInt(value);
+  if (!/^\d{4}$/.test(value) || taxYear < 2000 || taxYear > 2100) {
+    throw new ValidationError('Tax year must be a four-digit year');
+  }
+  return taxYear;
+};
+
+export class TaxCertificateController {
+  /**
+   * IRP5/IT3(a) certificates for a tax year with their validation issues
+   */
+  static async getCertificates(req: Request, res: Response): Promise<void> {
+    try {
+      const reconciliation = await taxCertificateService.getReconciliation(
+        req.user!.companyId,
+        parseTaxYear(req.params.taxYear),
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: reconciliation,
+      });
+    } catch (error) {
+      logger.error('Get tax certificates error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxYear: req.params.taxYear,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Missing or invalid tax and identity numbers for a tax year
+   */
+  static async getValidationReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await taxCertificateService.getValidationReport(
+        req.user!.companyId,
+        parseTaxYear(req.params.taxYear),
+        req.user!.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: report,
+        message: report.ready
+          ? 'Certificates are ready for submission'
+          : `${report.error_count} errors must be fixed before submission`,
+      });
+    } catch (error) {
+      logger.error('Get tax certificate validation error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxYear: req.params.taxYear,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download an employee's certificate as a PDF
+   */
+  static async downloadCertificate(req: Request, res: Response): Promise<void> {
+    try {
+      const rendered = await taxCertificateService.getCertificatePdf(
+        req.user!.companyId,
+        parseTaxYear(req.params.taxYear),
+        req.params.employeeId,
+        req.user!.id
+      );
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Download tax certificate error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxYear: req.params.taxYear,
+        employeeId: req.params.employeeId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download the EMP501 reconciliation file for e@syFile
+   */
+  static async exportEmp501(req: Request, res: Response): Promise<void> {
+    try {
+      const rendered = await taxCertificateService.exportEmp501(
+        req.user!.companyId,
+        parseTaxYear(req.params.taxYear),
+        req.user!.id,
+        { test: req.query.test === 'true' }
+      );
+
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Export EMP501 error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxYear: req.params.taxYear,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import { vatService, TaxCodeType } from '../services/financial/vatService';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class TaxController {
+  /**
+   * List tax codes (filter by type and active flag)
+   */
+  static async getTaxCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const type = req.query.type as TaxCodeType | undefined;
+      if (type && !['sales', 'purchases'].includes(type)) {
+        throw new ValidationError('Type must be one of: sales, purchases');
+      }
+
+      const taxCodes = await vatService.getTaxCodes(req.user!.companyId, {
+        type,
+        is_active: req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: taxCodes,
+      });
+    } catch (error) {
+      logger.error('Get tax codes error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a tax code with its rate history
+   */
+  static async getTaxCodeById(req: Request, res: Response): Promise<void> {
+    try {
+      const taxCode = await vatService.getTaxCodeById(req.user!.companyId, req.params.id);
+
+      if (!taxCode) {
+        throw new NotFoundError('Tax code not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: taxCode,
+      });
+    } catch (error) {
+      logger.error('Get tax code error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxCodeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a tax code
+   */
+  static async createTaxCode(req: Request, res: Response): Promise<void> {
+    try {
+      const taxCode = await vatService.createTaxCode(req.user!.companyId, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: taxCode,
+        message: 'Tax code created successfully',
+      });
+    } catch (error) {
+      logger.error('Create tax code error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the default South African tax codes
+   */
+  static async createDefaultTaxCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const taxCodes = await vatService.createDefaultTaxCodes(req.user!.companyId, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: taxCodes,
+        message: 'Default tax codes created',
+      });
+    } catch (error) {
+      logger.error('Create default tax codes error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a tax code
+   */
+  static async updateTaxCode(req: Request, res: Response): Promise<void> {
+    try {
+      const taxCode = await vatService.updateTaxCode(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        data: taxCode,
+        message: 'Tax code updated successfully',
+      });
+    } catch (error) {
+      logger.error('Update tax code error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxCodeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a rate change to a tax code
+   */
+  static async addRate(req: Request, res: Response): Promise<void> {
+    try {
+      const taxCode = await vatService.addRate(req.user!.companyId, req.params.id, req.body, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: taxCode,
+        message: 'Tax rate added',
+      });
+    } catch (error) {
+      logger.error('Add tax rate error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        taxCodeId: req.params.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * VAT201 return for start_date to end_date (JSON, CSV or PDF)
+   */
+  static async getVat201(req: Request, res: Response): Promise<void> {
+    try {
+      const format = ((req.query.format as string) || 'json').toLowerCase();
+      if (!['json', 'csv', 'pdf'].includes(format)) {
+        throw new ValidationError('Format must be one of: json, csv, pdf');
+      }
+
+      const startDate = req.query.start_date as string | undefined;
+      const endDate = req.query.end_date as string | undefined;
+      if (!startDate || !endDate) {
+        throw new ValidationError('start_date and end_date are required');
+      }
+      if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+
+      const vatReturn = await vatService.getVat201(req.user!.companyId, startDate, endDate);
+
+      if (format === 'json') {
+        res.status(200).json({
+          success: true,
+          data: vatReturn,
+        });
+        return;
+      }
+
+      const rendered = await vatService.renderVat201(vatReturn, format as 'csv' | 'pdf');
+      res.setHeader('Content-Type', rendered.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.status(200).send(rendered.content);
+    } catch (error) {
+      logger.error('Get VAT201 return error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import { approvalService } from '../services/approvalService';
+import { logger } from '../utils/logger';
+
+export class WorkflowController {
+  /**
+   * Pending approvals addressed to the caller or their department
+   */
+  static async getApprovals(req: Request, res: Response): Promise<void> {
+    try {
+      const approvals = await approvalService.getPendingApprovals(req.user!.companyId, req.user!);
+
+      res.status(200).json({
+        success: true,
+        data: approvals,
+      });
+    } catch (error) {
+      logger.error('Get approvals error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a pending request
+   */
+  static async decide(req: Request, res: Response): Promise<void> {
+    try {
+      const approval = await approvalService.decide(
+        req.user!.companyId,
+        req.body.approval_id,
+        req.body.decision,
+        req.user!,
+        req.body.comments
+      );
+
+      res.status(200).json({
+        success: true,
+        data: approval,
+        message: `Request ${approval.status} successfully`,
+      });
+    } catch (error) {
+      logger.error('Decide approval error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        approvalId: req.body?.approval_id,
+      });
+      throw error;
+    }
+  }
+}
@@ -8,10 +8,17 @@ import {
   ConflictError 
 } from '../../middleware/errorHandler';
 
+// Names the HR and finance departments go by (compared in upper case)
+const HR_DEPARTMENT_NAMES = ['HR', 'HUMAN RESOURCES'];
+const FINANCE_DEPARTMENT_NAMES = ['FINANCE', 'FINANCE & ACCOUNTS', 'FINANCE AND ACCOUNTS', 'ACCOUNTS', 'ACCOUNTING'];
+
 export interface CreateCompanyData {
   name: string;
   registration_number: string;
   vat_number?: string;
+  paye_reference_number?: string | null;
+  sdl_reference_number?: string | null;
+  uif_reference_number?: string | null;
   address_line_1: string;
   address_line_2?: string;
   city: string;
@@ -23,6 +30,7 @@ export interface CreateCompanyData {
   website?: string;
   currency_code: string;
   timezone: string;
+  parent_company_id?: string | null;
   is_active?: boolean;
 }
 
@@ -30,6 +38,9 @@ export interface UpdateCompanyData {
   name?: string;
   registration_number?: string;
   vat_number?: string;
+  paye_reference_number?: string | null;
+  sdl_reference_number?: string | null;
+  uif_reference_number?: string | null;
   address_line_1?: string;
   address_line_2?: string;
   city?: string;
@@ -41,6 +52,7 @@ export interface UpdateCompanyData {
   website?: string;
   currency_code?: string;
   timezone?: string;
+  parent_company_id?: string | null;
   is_active?: boolean;
 }
 
@@ -65,6 +77,9 @@ export interface CompanyWithDepartments {
   name: string;
   registration_number: string;
   vat_number?: string;
+  paye_reference_number?: string | null;
+  sdl_reference_number?: string | null;
+  uif_reference_number?: string | null;
   address_line_1: string;
   address_line_2?: string;
   city: string;
@@ -76,6 +91,7 @@ export interface CompanyWithDepartments {
   website?: string;
   currency_code: string;
   timezone: string;
+  parent_company_id?: string | null;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -125,6 +141,11 @@ export class CompanyService {
         throw new ConflictError('Registration number already exists');
       }
 
+      // Validate parent company if provided
+      if (data.parent_company_id && !(await this.getCompanyById(data.parent_company_id))) {
+        throw new ValidationError('Invalid parent company');
+      }
+
       // Start transaction
       const result = await db.transaction(async (trx) => {
         // Create company
@@ -133,6 +154,9 @@ export class CompanyService {
           name: data.name,
           registration_number: data.registration_number,
           vat_number: data.vat_number,
+          paye_reference_number: data.paye_reference_number ?? null,
+          sdl_reference_number: data.sdl_reference_number ?? null,
+          uif_reference_number: data.uif_reference_number ?? null,
           address_line_1: data.address_line_1,
           address_line_2: data.address_line_2,
           city: data.city,
@@ -144,6 +168,7 @@ export class CompanyService {
           website: data.website,
           currency_code: data.currency_code,
           timezone: data.timezone,
+          parent_company_id: data.parent_company_id ?? null,
           is_active: data.is_active ?? true,
           created_by: createdBy,
           updated_by: createdBy
@@ -223,6 +248,46 @@ export class CompanyService {
     }
   }
 
+  /**
+   * Get the company's base currency code
+   */
+  async getBaseCurrency(companyId: string): Promise<string> {
+    const company = await this.getCompanyById(companyId);
+    if (!company?.currency_code) {
+      throw new ValidationError('Company has no base currency');
+    }
+    return company.currency_code.toUpperCase();
+  }
+
+  /**
+   * IDs of every company below this one in the parent/subsidiary tree
+   */
+  async getSubsidiaryIds(companyId: string): Promise<string[]> {
+    try {
+      const db = getDatabase();
+      const rows = await db
+        .withRecursive('subsidiaries', (qb) => {
+          qb.select('id')
+            .from('companies')
+            .where('parent_company_id', companyId)
+            .where('deleted_at', null)
+            .union((union) => {
+              union.select('companies.id')
+                .from('companies')
+                .join('subsidiaries', 'companies.parent_company_id', 'subsidiaries.id')
+                .where('companies.deleted_at', null);
+            });
+        })
+        .select('id')
+        .from('subsidiaries');
+
+      return rows.map((row: { id: string }) => row.id);
+    } catch (error) {
+      logger.error('Error fetching subsidiary companies', { error, companyId });
+      throw error;
+    }
+  }
+
   /**
    * Get company by registration number
    */
@@ -284,6 +349,15 @@ export class CompanyService {
         }
       }
 
+      // A company cannot sit below itself or one of its own subsidiaries
+      if (data.parent_company_id) {
+        const parentCompany = await this.getCompanyById(data.parent_company_id);
+        const subsidiaryIds = await this.getSubsidiaryIds(companyId);
+        if (!parentCompany || data.parent_company_id === companyId || subsidiaryIds.includes(data.parent_company_id)) {
+          throw new ValidationError('Invalid parent company');
+        }
+      }
+
       // Update company
       const updateData: any = {
         updated_by: updatedBy,
@@ -293,6 +367,9 @@ export class CompanyService {
       if (data.name) updateData.name = data.name;
       if (data.registration_number) updateData.registration_number = data.registration_number;
       if (data.vat_number !== undefined) updateData.vat_number = data.vat_number;
+      if (data.paye_reference_number !== undefined) updateData.paye_reference_number = data.paye_reference_number;
+      if (data.sdl_reference_number !== undefined) updateData.sdl_reference_number = data.sdl_reference_number;
+      if (data.uif_reference_number !== undefined) updateData.uif_reference_number = data.uif_reference_number;
       if (data.address_line_1) updateData.address_line_1 = data.address_line_1;
       if (data.address_line_2 !== undefined) updateData.address_line_2 = data.address_line_2;
       if (data.city) updateData.city = data.city;
@@ -304,6 +381,7 @@ export class CompanyService {
       if (data.website !== undefined) updateData.website = data.website;
       if (data.currency_code) updateData.currency_code = data.currency_code;
       if (data.timezone) updateData.timezone = data.timezone;
+      if (data.parent_company_id !== undefined) updateData.parent_company_id = data.parent_company_id;
       if (data.is_active !== undefined) updateData.is_active = data.is_active;
 
       const [result] = await db('companies')
@@ -470,6 +548,48 @@ export class CompanyService {
     }
   }
 
+  /**
+   * Get the company's active HR department
+   */
+  async getHrDepartment(companyId: string): Promise<Department | null> {
+    try {
+      return await this.getActiveDepartmentByNames(companyId, HR_DEPARTMENT_NAMES);
+    } catch (error) {
+      logger.error('Error fetching HR department', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the company's active finance department
+   */
+  async getFinanceDepartment(companyId: string): Promise<Department | null> {
+    try {
+      return await this.getActiveDepartmentByNames(companyId, FINANCE_DEPARTMENT_NAMES);
+    } catch (error) {
+      logger.error('Error fetching finance department', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * First active department whose name matches one of the given names, ignoring case
+   */
+  private async getActiveDepartmentByNames(companyId: string, names: string[]): Promise<Department | null> {
+    const db = getDatabase();
+    const department = await db('departments')
+      .where('company_id', companyId)
+      .whereRaw('upper(name) = any(?)', [names])
+      .where('is_active', true)
+      .where('deleted_at', null)
+      .orderBy('created_at')
+      .first();
+
+    if (!department) return null;
+
+    return this.getDepartmentById(department.id);
+  }
+
   /**
    * Get company with departments
    */
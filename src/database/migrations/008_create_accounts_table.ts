@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('accounts', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('account_number').notNullable();
+    table.string('name').notNullable();
+    table.enum('type', ['asset', 'liability', 'equity', 'revenue', 'expense']).notNullable();
+    table.enum('category', [
+      'current_assets',
+      'fixed_assets',
+      'current_liabilities',
+      'long_term_liabilities',
+      'owners_equity',
+      'operating_revenue',
+      'operating_expenses',
+    ]).notNullable();
+    table.decimal('balance', 18, 2).notNullable().defaultTo(0);
+    table.string('currency', 3).notNullable();
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('parent_account_id');
+    table.uuid('created_by');
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at');
+
+    // Indexes
+    table.unique(['company_id', 'account_number']);
+    table.index(['company_id']);
+    table.index(['type']);
+    table.index(['parent_account_id']);
+    table.index(['deleted_at']);
+
+    // Foreign key
+    table.foreign('parent_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('accounts');
+}
@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('document_sequences', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('sequence_type').notNullable();
+    table.string('prefix').notNullable();
+    table.integer('next_value').notNullable().defaultTo(1);
+    table.integer('padding').notNullable().defaultTo(6);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'sequence_type']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('document_sequences');
+}
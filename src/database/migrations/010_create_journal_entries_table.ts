@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('journal_entries', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('entry_number').notNullable();
+    table.date('entry_date').notNullable();
+    table.string('description').notNullable();
+    table.string('reference');
+    table.enum('status', ['draft', 'posted', 'reversed']).notNullable().defaultTo('draft');
+    table.string('source_type');
+    table.uuid('source_id');
+    table.uuid('reversal_of_id');
+    table.uuid('reversed_by_id');
+    table.timestamp('posted_at');
+    table.uuid('posted_by');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'entry_number']);
+    table.index(['company_id']);
+    table.index(['entry_date']);
+    table.index(['status']);
+    table.index(['source_type', 'source_id']);
+
+    // Foreign keys
+    table.foreign('reversal_of_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+    table.foreign('reversed_by_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+    table.foreign('created_by').references('id').inTable('users').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('journal_entries');
+}
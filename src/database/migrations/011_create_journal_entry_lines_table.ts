@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('journal_entry_lines', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('journal_entry_id').notNullable();
+    table.integer('line_number').notNullable();
+    table.uuid('account_id').notNullable();
+    table.string('description');
+    table.decimal('debit', 18, 2).notNullable().defaultTo(0);
+    table.decimal('credit', 18, 2).notNullable().defaultTo(0);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['journal_entry_id']);
+    table.index(['account_id']);
+
+    // Foreign keys
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('CASCADE');
+    table.foreign('account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('journal_entry_lines');
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('account_numbering_rules', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.enum('account_type', ['asset', 'liability', 'equity', 'revenue', 'expense']).notNullable();
+    table.integer('range_start').notNullable();
+    table.integer('range_end').notNullable();
+    table.integer('number_length').notNullable().defaultTo(4);
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'account_type']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('account_numbering_rules');
+}
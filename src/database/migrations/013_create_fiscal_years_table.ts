@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('fiscal_years', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('name').notNullable();
+    table.date('start_date').notNullable();
+    table.date('end_date').notNullable();
+    table.enum('status', ['open', 'closing', 'closed']).notNullable().defaultTo('open');
+    table.uuid('retained_earnings_account_id');
+    table.uuid('closing_entry_id');
+    table.timestamp('closed_at');
+    table.uuid('closed_by');
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'name']);
+    table.index(['company_id', 'start_date', 'end_date']);
+    table.index(['status']);
+
+    // Foreign keys
+    table.foreign('retained_earnings_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('closing_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('fiscal_years');
+}
@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('fiscal_periods', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('fiscal_year_id').notNullable();
+    table.uuid('company_id').notNullable();
+    table.integer('period_number').notNullable();
+    table.string('name').notNullable();
+    table.date('start_date').notNullable();
+    table.date('end_date').notNullable();
+    table.enum('status', ['open', 'closing', 'closed']).notNullable().defaultTo('open');
+    table.timestamp('closed_at');
+    table.uuid('closed_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['fiscal_year_id', 'period_number']);
+    table.index(['company_id', 'start_date', 'end_date']);
+    table.index(['status']);
+
+    // Foreign key
+    table.foreign('fiscal_year_id').references('id').inTable('fiscal_years').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('fiscal_periods');
+}
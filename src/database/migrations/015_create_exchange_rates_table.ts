@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('exchange_rates', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('base_currency', 3).notNullable();
+    table.string('quote_currency', 3).notNullable();
+    table.decimal('rate', 18, 8).notNullable();
+    table.date('rate_date').notNullable();
+    table.string('source').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['base_currency', 'quote_currency', 'rate_date']);
+    table.index(['rate_date']);
+    table.index(['quote_currency', 'rate_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('exchange_rates');
+}
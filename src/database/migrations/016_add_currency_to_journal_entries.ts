@@ -0,0 +1,19 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('journal_entries', (table) => {
+    table.string('currency', 3);
+    table.decimal('exchange_rate', 18, 8).notNullable().defaultTo(1);
+
+    // Indexes
+    table.index(['company_id', 'currency']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('journal_entries', (table) => {
+    table.dropIndex(['company_id', 'currency']);
+    table.dropColumn('currency');
+    table.dropColumn('exchange_rate');
+  });
+}
@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('journal_entry_lines', (table) => {
+    // Amounts in the entry's transaction currency; debit/credit stay in base currency
+    table.decimal('foreign_debit', 18, 2).notNullable().defaultTo(0);
+    table.decimal('foreign_credit', 18, 2).notNullable().defaultTo(0);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.dropColumn('foreign_debit');
+    table.dropColumn('foreign_credit');
+  });
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('financial_settings', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable().unique();
+    table.uuid('fx_unrealised_gain_loss_account_id');
+    table.uuid('fx_realised_gain_loss_account_id');
+    table.boolean('fx_auto_revaluation').notNullable().defaultTo(false);
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('fx_unrealised_gain_loss_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+    table.foreign('fx_realised_gain_loss_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('financial_settings');
+}
@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('customers', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('customer_code').notNullable();
+    table.string('name').notNullable();
+    table.string('email');
+    table.string('phone');
+    table.string('vat_number');
+    table.string('address_line_1');
+    table.string('address_line_2');
+    table.string('city');
+    table.string('postal_code');
+    table.string('country');
+    table.string('currency', 3).notNullable();
+    table.integer('payment_terms_days').notNullable().defaultTo(30);
+    table.decimal('credit_limit', 18, 2);
+    table.uuid('receivable_account_id');
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by');
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at');
+
+    // Indexes
+    table.unique(['company_id', 'customer_code']);
+    table.index(['company_id', 'name']);
+
+    // Foreign keys
+    table.foreign('receivable_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('customers');
+}
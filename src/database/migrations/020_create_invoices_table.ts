@@ -0,0 +1,47 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('invoices', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('customer_id').notNullable();
+    table.string('invoice_number').notNullable();
+    table.date('issue_date').notNullable();
+    table.date('due_date').notNullable();
+    table.string('currency', 3).notNullable();
+    table.decimal('exchange_rate', 18, 8).notNullable().defaultTo(1);
+    table.decimal('subtotal', 18, 2).notNullable().defaultTo(0);
+    table.decimal('tax_total', 18, 2).notNullable().defaultTo(0);
+    table.decimal('total', 18, 2).notNullable().defaultTo(0);
+    table.decimal('amount_paid', 18, 2).notNullable().defaultTo(0);
+    table.decimal('amount_credited', 18, 2).notNullable().defaultTo(0);
+    table.decimal('balance_due', 18, 2).notNullable().defaultTo(0);
+    table.enum('status', ['draft', 'sent', 'paid', 'overdue', 'cancelled']).notNullable().defaultTo('draft');
+    table.string('reference');
+    table.text('notes');
+    table.uuid('receivable_account_id');
+    table.uuid('journal_entry_id');
+    table.timestamp('sent_at');
+    table.uuid('sent_by');
+    table.timestamp('cancelled_at');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'invoice_number']);
+    table.index(['company_id', 'status']);
+    table.index(['customer_id']);
+    table.index(['due_date']);
+
+    // Foreign keys
+    table.foreign('customer_id').references('id').inTable('customers').onDelete('RESTRICT');
+    table.foreign('receivable_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('invoices');
+}
@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('invoice_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('invoice_id').notNullable();
+    table.integer('line_number').notNullable();
+    table.string('description').notNullable();
+    table.decimal('quantity', 18, 4).notNullable().defaultTo(1);
+    table.decimal('unit_price', 18, 4).notNullable();
+    table.decimal('discount_percent', 5, 2).notNullable().defaultTo(0);
+    table.decimal('tax_rate', 7, 4).notNullable().defaultTo(0);
+    table.decimal('line_subtotal', 18, 2).notNullable();
+    table.decimal('tax_amount', 18, 2).notNullable();
+    table.decimal('line_total', 18, 2).notNullable();
+    table.uuid('revenue_account_id');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['invoice_id']);
+
+    // Foreign keys
+    table.foreign('invoice_id').references('id').inTable('invoices').onDelete('CASCADE');
+    table.foreign('revenue_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('invoice_items');
+}
@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('invoice_payments', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('invoice_id').notNullable();
+    table.date('payment_date').notNullable();
+    table.decimal('amount', 18, 2).notNullable();
+    table.decimal('exchange_rate', 18, 8).notNullable().defaultTo(1);
+    table.decimal('realised_fx', 18, 2).notNullable().defaultTo(0);
+    table.uuid('bank_account_id').notNullable();
+    table.string('method');
+    table.string('reference');
+    table.uuid('journal_entry_id');
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['invoice_id']);
+    table.index(['company_id', 'payment_date']);
+
+    // Foreign keys
+    table.foreign('invoice_id').references('id').inTable('invoices').onDelete('RESTRICT');
+    table.foreign('bank_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('invoice_payments');
+}
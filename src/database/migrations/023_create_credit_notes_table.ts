@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('credit_notes', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('invoice_id').notNullable();
+    table.uuid('customer_id').notNullable();
+    table.string('credit_note_number').notNullable();
+    table.date('issue_date').notNullable();
+    table.string('reason').notNullable();
+    table.string('currency', 3).notNullable();
+    table.decimal('subtotal', 18, 2).notNullable();
+    table.decimal('tax_total', 18, 2).notNullable();
+    table.decimal('total', 18, 2).notNullable();
+    table.uuid('journal_entry_id');
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'credit_note_number']);
+    table.index(['invoice_id']);
+
+    // Foreign keys
+    table.foreign('invoice_id').references('id').inTable('invoices').onDelete('RESTRICT');
+    table.foreign('customer_id').references('id').inTable('customers').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('credit_notes');
+}
@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('credit_note_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('credit_note_id').notNullable();
+    table.integer('line_number').notNullable();
+    table.string('description').notNullable();
+    table.decimal('quantity', 18, 4).notNullable().defaultTo(1);
+    table.decimal('unit_price', 18, 4).notNullable();
+    table.decimal('discount_percent', 5, 2).notNullable().defaultTo(0);
+    table.decimal('tax_rate', 7, 4).notNullable().defaultTo(0);
+    table.decimal('line_subtotal', 18, 2).notNullable();
+    table.decimal('tax_amount', 18, 2).notNullable();
+    table.decimal('line_total', 18, 2).notNullable();
+    table.uuid('revenue_account_id');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['credit_note_id']);
+
+    // Foreign keys
+    table.foreign('credit_note_id').references('id').inTable('credit_notes').onDelete('CASCADE');
+    table.foreign('revenue_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('credit_note_items');
+}
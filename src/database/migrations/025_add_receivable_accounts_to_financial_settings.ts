@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    table.uuid('ar_control_account_id');
+    table.uuid('default_revenue_account_id');
+    table.uuid('vat_output_account_id');
+
+    // Foreign keys
+    table.foreign('ar_control_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+    table.foreign('default_revenue_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+    table.foreign('vat_output_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    table.dropForeign(['ar_control_account_id']);
+    table.dropForeign(['default_revenue_account_id']);
+    table.dropForeign(['vat_output_account_id']);
+    table.dropColumn('ar_control_account_id');
+    table.dropColumn('default_revenue_account_id');
+    table.dropColumn('vat_output_account_id');
+  });
+}
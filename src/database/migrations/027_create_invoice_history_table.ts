@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('invoice_history', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('invoice_id').notNullable();
+    table.enum('action', ['issued', 'emailed', 'email_failed', 'payment_recorded', 'credit_note_issued', 'cancelled']).notNullable();
+    table.string('recipient');
+    table.jsonb('details');
+    table.uuid('created_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['invoice_id', 'created_at']);
+
+    // Foreign keys
+    table.foreign('invoice_id').references('id').inTable('invoices').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('invoice_history');
+}
@@ -0,0 +1,37 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('purchase_orders', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('supplier_id').notNullable();
+    table.string('po_number').notNullable();
+    table.date('order_date').notNullable();
+    table.date('expected_date');
+    table.string('currency', 3).notNullable();
+    table.decimal('subtotal', 18, 2).notNullable().defaultTo(0);
+    table.decimal('tax_total', 18, 2).notNullable().defaultTo(0);
+    table.decimal('total', 18, 2).notNullable().defaultTo(0);
+    table.enum('status', ['draft', 'issued', 'partially_received', 'received', 'closed', 'cancelled']).notNullable().defaultTo('draft');
+    table.string('reference');
+    table.text('notes');
+    table.timestamp('issued_at');
+    table.uuid('issued_by');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'po_number']);
+    table.index(['company_id', 'status']);
+    table.index(['supplier_id']);
+
+    // Foreign keys
+    table.foreign('supplier_id').references('id').inTable('suppliers').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('purchase_orders');
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('purchase_order_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('purchase_order_id').notNullable();
+    table.integer('line_number').notNullable();
+    table.string('description').notNullable();
+    table.decimal('quantity', 18, 4).notNullable();
+    table.decimal('unit_price', 18, 4).notNullable();
+    table.decimal('tax_rate', 7, 4).notNullable().defaultTo(0);
+    table.decimal('line_subtotal', 18, 2).notNullable();
+    table.decimal('tax_amount', 18, 2).notNullable();
+    table.decimal('line_total', 18, 2).notNullable();
+    table.uuid('expense_account_id');
+    table.decimal('quantity_received', 18, 4).notNullable().defaultTo(0);
+    table.decimal('quantity_billed', 18, 4).notNullable().defaultTo(0);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['purchase_order_id']);
+
+    // Foreign keys
+    table.foreign('purchase_order_id').references('id').inTable('purchase_orders').onDelete('CASCADE');
+    table.foreign('expense_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('purchase_order_items');
+}
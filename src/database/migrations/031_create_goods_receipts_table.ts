@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('goods_receipts', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('purchase_order_id').notNullable();
+    table.string('receipt_number').notNullable();
+    table.date('received_date').notNullable();
+    table.string('delivery_note');
+    table.text('notes');
+    table.uuid('received_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'receipt_number']);
+    table.index(['purchase_order_id']);
+
+    // Foreign keys
+    table.foreign('purchase_order_id').references('id').inTable('purchase_orders').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('goods_receipts');
+}
@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('goods_receipt_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('goods_receipt_id').notNullable();
+    table.uuid('purchase_order_item_id').notNullable();
+    table.decimal('quantity', 18, 4).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['goods_receipt_id']);
+    table.index(['purchase_order_item_id']);
+
+    // Foreign keys
+    table.foreign('goods_receipt_id').references('id').inTable('goods_receipts').onDelete('CASCADE');
+    table.foreign('purchase_order_item_id').references('id').inTable('purchase_order_items').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('goods_receipt_items');
+}
@@ -0,0 +1,51 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('supplier_bills', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('supplier_id').notNullable();
+    table.uuid('purchase_order_id');
+    table.string('bill_number').notNullable();
+    table.string('supplier_reference').notNullable();
+    table.date('bill_date').notNullable();
+    table.date('due_date').notNullable();
+    table.string('currency', 3).notNullable();
+    table.decimal('exchange_rate', 18, 8).notNullable().defaultTo(1);
+    table.decimal('subtotal', 18, 2).notNullable().defaultTo(0);
+    table.decimal('tax_total', 18, 2).notNullable().defaultTo(0);
+    table.decimal('total', 18, 2).notNullable().defaultTo(0);
+    table.decimal('amount_paid', 18, 2).notNullable().defaultTo(0);
+    table.decimal('balance_due', 18, 2).notNullable().defaultTo(0);
+    table.enum('status', ['draft', 'on_hold', 'approved', 'partially_paid', 'paid', 'cancelled']).notNullable().defaultTo('draft');
+    table.enum('match_status', ['pending', 'not_required', 'matched', 'mismatch', 'overridden']).notNullable().defaultTo('pending');
+    table.jsonb('match_details');
+    table.string('override_reason');
+    table.text('notes');
+    table.uuid('payable_account_id');
+    table.uuid('journal_entry_id');
+    table.timestamp('approved_at');
+    table.uuid('approved_by');
+    table.timestamp('cancelled_at');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'bill_number']);
+    table.index(['supplier_id', 'supplier_reference']);
+    table.index(['company_id', 'status']);
+    table.index(['due_date']);
+
+    // Foreign keys
+    table.foreign('supplier_id').references('id').inTable('suppliers').onDelete('RESTRICT');
+    table.foreign('purchase_order_id').references('id').inTable('purchase_orders').onDelete('RESTRICT');
+    table.foreign('payable_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('supplier_bills');
+}
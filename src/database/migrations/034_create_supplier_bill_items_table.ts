@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('supplier_bill_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('bill_id').notNullable();
+    table.integer('line_number').notNullable();
+    table.uuid('purchase_order_item_id');
+    table.string('description').notNullable();
+    table.decimal('quantity', 18, 4).notNullable().defaultTo(1);
+    table.decimal('unit_price', 18, 4).notNullable();
+    table.decimal('tax_rate', 7, 4).notNullable().defaultTo(0);
+    table.decimal('line_subtotal', 18, 2).notNullable();
+    table.decimal('tax_amount', 18, 2).notNullable();
+    table.decimal('line_total', 18, 2).notNullable();
+    table.uuid('expense_account_id');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['bill_id']);
+    table.index(['purchase_order_item_id']);
+
+    // Foreign keys
+    table.foreign('bill_id').references('id').inTable('supplier_bills').onDelete('CASCADE');
+    table.foreign('purchase_order_item_id').references('id').inTable('purchase_order_items').onDelete('RESTRICT');
+    table.foreign('expense_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('supplier_bill_items');
+}
@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('payment_runs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('run_number').notNullable();
+    table.date('payment_date').notNullable();
+    table.date('due_on_or_before').notNullable();
+    table.string('currency', 3).notNullable();
+    table.uuid('bank_account_id').notNullable();
+    table.decimal('total', 18, 2).notNullable().defaultTo(0);
+    table.integer('bill_count').notNullable().defaultTo(0);
+    table.enum('status', ['draft', 'posted', 'cancelled']).notNullable().defaultTo('draft');
+    table.timestamp('posted_at');
+    table.uuid('posted_by');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'run_number']);
+    table.index(['company_id', 'status']);
+
+    // Foreign keys
+    table.foreign('bank_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('payment_runs');
+}
@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('payment_run_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('payment_run_id').notNullable();
+    table.uuid('bill_id').notNullable();
+    table.uuid('supplier_id').notNullable();
+    table.decimal('amount', 18, 2).notNullable();
+    table.decimal('exchange_rate', 18, 8).notNullable().defaultTo(1);
+    table.decimal('realised_fx', 18, 2).notNullable().defaultTo(0);
+    table.uuid('journal_entry_id');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['payment_run_id']);
+    table.index(['bill_id']);
+
+    // Foreign keys
+    table.foreign('payment_run_id').references('id').inTable('payment_runs').onDelete('CASCADE');
+    table.foreign('bill_id').references('id').inTable('supplier_bills').onDelete('RESTRICT');
+    table.foreign('supplier_id').references('id').inTable('suppliers').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('payment_run_items');
+}
@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    table.uuid('ap_control_account_id');
+    table.uuid('default_expense_account_id');
+    table.uuid('vat_input_account_id');
+    table.decimal('ap_price_tolerance_percent', 7, 4).notNullable().defaultTo(0);
+    table.decimal('ap_quantity_tolerance_percent', 7, 4).notNullable().defaultTo(0);
+
+    // Foreign keys
+    table.foreign('ap_control_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+    table.foreign('default_expense_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+    table.foreign('vat_input_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    table.dropForeign(['ap_control_account_id']);
+    table.dropForeign(['default_expense_account_id']);
+    table.dropForeign(['vat_input_account_id']);
+    table.dropColumn('ap_control_account_id');
+    table.dropColumn('default_expense_account_id');
+    table.dropColumn('vat_input_account_id');
+    table.dropColumn('ap_price_tolerance_percent');
+    table.dropColumn('ap_quantity_tolerance_percent');
+  });
+}
@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('bank_statements', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('bank_account_id').notNullable();
+    table.enum('format', ['csv', 'ofx', 'camt053']).notNullable();
+    table.string('file_name');
+    table.string('file_hash', 64).notNullable();
+    table.string('account_identifier');
+    table.string('currency', 3).notNullable();
+    table.date('statement_start').notNullable();
+    table.date('statement_end').notNullable();
+    table.decimal('opening_balance', 18, 2).notNullable().defaultTo(0);
+    table.decimal('closing_balance', 18, 2).notNullable().defaultTo(0);
+    table.integer('line_count').notNullable().defaultTo(0);
+    table.uuid('imported_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['bank_account_id', 'file_hash']);
+    table.index(['company_id', 'bank_account_id', 'statement_end']);
+
+    // Foreign keys
+    table.foreign('bank_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('bank_statements');
+}
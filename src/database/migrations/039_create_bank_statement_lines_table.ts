@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('bank_statement_lines', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('statement_id').notNullable();
+    table.uuid('company_id').notNullable();
+    table.uuid('bank_account_id').notNullable();
+    table.integer('line_number').notNullable();
+    table.date('transaction_date').notNullable();
+    table.decimal('amount', 18, 2).notNullable();
+    table.string('description', 500);
+    table.string('reference');
+    table.string('external_id');
+    table.decimal('matched_amount', 18, 2).notNullable().defaultTo(0);
+    table.enum('status', ['unmatched', 'partially_matched', 'matched']).notNullable().defaultTo('unmatched');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['statement_id']);
+    table.index(['bank_account_id', 'status', 'transaction_date']);
+    table.index(['bank_account_id', 'external_id']);
+
+    // Foreign keys
+    table.foreign('statement_id').references('id').inTable('bank_statements').onDelete('CASCADE');
+    table.foreign('bank_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('bank_statement_lines');
+}
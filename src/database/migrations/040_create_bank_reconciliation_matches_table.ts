@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('bank_reconciliation_matches', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('statement_line_id').notNullable();
+    table.uuid('journal_entry_line_id').notNullable();
+    table.decimal('amount', 18, 2).notNullable();
+    table.enum('match_type', ['auto', 'manual', 'adjustment']).notNullable();
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['statement_line_id']);
+    table.index(['journal_entry_line_id']);
+
+    // Foreign keys
+    table.foreign('statement_line_id').references('id').inTable('bank_statement_lines').onDelete('CASCADE');
+    table.foreign('journal_entry_line_id').references('id').inTable('journal_entry_lines').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('bank_reconciliation_matches');
+}
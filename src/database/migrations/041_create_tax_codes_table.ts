@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('tax_codes', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('code', 20).notNullable();
+    table.string('name').notNullable();
+    table.enum('type', ['sales', 'purchases']).notNullable();
+    table.boolean('is_exempt').notNullable().defaultTo(false);
+    table.boolean('is_zero_rated').notNullable().defaultTo(false);
+    table.boolean('is_reverse_charge').notNullable().defaultTo(false);
+    table.string('return_field', 5);
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'code']);
+    table.index(['company_id', 'type', 'is_active']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('tax_codes');
+}
@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('tax_code_rates', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('tax_code_id').notNullable();
+    table.decimal('rate', 7, 4).notNullable();
+    table.date('effective_from').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['tax_code_id', 'effective_from']);
+
+    // Foreign keys
+    table.foreign('tax_code_id').references('id').inTable('tax_codes').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('tax_code_rates');
+}
@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+const TABLES = ['invoice_items', 'credit_note_items', 'supplier_bill_items'];
+
+export async function up(knex: Knex): Promise<void> {
+  for (const tableName of TABLES) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.uuid('tax_code_id');
+
+      // Foreign keys
+      table.foreign('tax_code_id').references('id').inTable('tax_codes').onDelete('RESTRICT');
+    });
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  for (const tableName of TABLES) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.dropForeign(['tax_code_id']);
+      table.dropColumn('tax_code_id');
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('vat_transactions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('tax_code_id');
+    table.string('return_field', 5).notNullable();
+    table.date('tax_point').notNullable();
+    // Base currency; credit notes and cancellations are negative
+    table.decimal('net_amount', 18, 2).notNullable();
+    table.decimal('tax_amount', 18, 2).notNullable();
+    table.decimal('tax_rate', 7, 4).notNullable().defaultTo(0);
+    table.string('source_type', 50).notNullable();
+    table.uuid('source_id').notNullable();
+    table.uuid('journal_entry_id').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['company_id', 'tax_point']);
+    table.index(['source_type', 'source_id']);
+
+    // Foreign keys
+    table.foreign('tax_code_id').references('id').inTable('tax_codes').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('vat_transactions');
+}
@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('cost_centres', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('code', 20).notNullable();
+    table.string('name').notNullable();
+    // Its manager receives budget warnings
+    table.uuid('department_id');
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'code']);
+
+    // Foreign keys
+    table.foreign('department_id').references('id').inTable('departments').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('cost_centres');
+}
@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.uuid('cost_centre_id');
+
+    // Indexes
+    table.index(['account_id', 'cost_centre_id']);
+
+    // Foreign keys
+    table.foreign('cost_centre_id').references('id').inTable('cost_centres').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.dropForeign(['cost_centre_id']);
+    table.dropIndex(['account_id', 'cost_centre_id']);
+    table.dropColumn('cost_centre_id');
+  });
+}
@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('budgets', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('fiscal_year_id').notNullable();
+    table.string('name').notNullable();
+    // e.g. original, forecast_q2
+    table.string('version', 50).notNullable();
+    table.enum('status', ['draft', 'approved', 'superseded']).notNullable().defaultTo('draft');
+    table.uuid('copied_from_id');
+    table.text('notes');
+    table.timestamp('approved_at');
+    table.uuid('approved_by');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'fiscal_year_id', 'version']);
+    table.index(['company_id', 'status']);
+
+    // Foreign keys
+    table.foreign('fiscal_year_id').references('id').inTable('fiscal_years').onDelete('RESTRICT');
+    table.foreign('copied_from_id').references('id').inTable('budgets').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('budgets');
+}
@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('budget_lines', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('budget_id').notNullable();
+    table.uuid('account_id').notNullable();
+    table.uuid('cost_centre_id');
+    // First day of the month
+    table.date('period_month').notNullable();
+    // In the account's natural sign (see balanceChange)
+    table.decimal('amount', 18, 2).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['budget_id', 'account_id', 'cost_centre_id']);
+    table.index(['budget_id', 'period_month']);
+
+    // Foreign keys
+    table.foreign('budget_id').references('id').inTable('budgets').onDelete('CASCADE');
+    table.foreign('account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('cost_centre_id').references('id').inTable('cost_centres').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('budget_lines');
+}
@@ -0,0 +1,60 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('fixed_assets', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('asset_number').notNullable();
+    table.string('name').notNullable();
+    table.text('description');
+    table.string('category', 100);
+    table.string('serial_number');
+    table.string('location');
+    table.uuid('custodian_id');
+    table.uuid('cost_centre_id');
+    // Control module systems are not persisted in this schema yet, so no foreign key
+    table.uuid('control_system_id');
+    table.date('acquisition_date').notNullable();
+    table.date('depreciation_start_date').notNullable();
+    table.decimal('cost', 18, 2).notNullable();
+    table.decimal('residual_value', 18, 2).notNullable().defaultTo(0);
+    table.enum('depreciation_method', ['straight_line', 'reducing_balance']).notNullable();
+    table.integer('useful_life_months');
+    // Annual rate for reducing balance
+    table.decimal('depreciation_rate', 7, 4);
+    table.decimal('accumulated_depreciation', 18, 2).notNullable().defaultTo(0);
+    // Last month depreciated (first day of the month)
+    table.date('depreciated_to');
+    table.uuid('asset_account_id').notNullable();
+    table.uuid('accumulated_depreciation_account_id').notNullable();
+    table.uuid('depreciation_expense_account_id').notNullable();
+    table.enum('status', ['active', 'fully_depreciated', 'disposed']).notNullable().defaultTo('active');
+    table.uuid('acquisition_journal_entry_id');
+    table.date('disposal_date');
+    table.decimal('disposal_proceeds', 18, 2);
+    table.decimal('disposal_gain_loss', 18, 2);
+    table.uuid('disposal_journal_entry_id');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'asset_number']);
+    table.index(['company_id', 'status']);
+    table.index(['control_system_id']);
+
+    // Foreign keys
+    table.foreign('custodian_id').references('id').inTable('users').onDelete('SET NULL');
+    table.foreign('cost_centre_id').references('id').inTable('cost_centres').onDelete('SET NULL');
+    table.foreign('asset_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('accumulated_depreciation_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('depreciation_expense_account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('acquisition_journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+    table.foreign('disposal_journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('fixed_assets');
+}
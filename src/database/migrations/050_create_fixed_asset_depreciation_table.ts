@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('fixed_asset_depreciation', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('fixed_asset_id').notNullable();
+    // First day of the month depreciated
+    table.date('period_month').notNullable();
+    table.decimal('amount', 18, 2).notNullable();
+    table.decimal('accumulated_depreciation', 18, 2).notNullable();
+    table.decimal('net_book_value', 18, 2).notNullable();
+    table.uuid('journal_entry_id');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['fixed_asset_id', 'period_month']);
+    table.index(['company_id', 'period_month']);
+
+    // Foreign keys
+    table.foreign('fixed_asset_id').references('id').inTable('fixed_assets').onDelete('CASCADE');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('fixed_asset_depreciation');
+}
@@ -0,0 +1,19 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    table.uuid('asset_disposal_account_id');
+    table.boolean('auto_depreciation').notNullable().defaultTo(false);
+
+    // Foreign keys
+    table.foreign('asset_disposal_account_id').references('id').inTable('accounts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    table.dropForeign(['asset_disposal_account_id']);
+    table.dropColumn('asset_disposal_account_id');
+    table.dropColumn('auto_depreciation');
+  });
+}
@@ -0,0 +1,35 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('recurring_journals', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('name').notNullable();
+    table.string('description').notNullable();
+    table.string('reference');
+    table.enum('frequency', ['weekly', 'monthly', 'quarterly', 'semi_annually', 'annually']).notNullable();
+    table.date('start_date').notNullable();
+    table.date('end_date');
+    // Null once the schedule has ended
+    table.date('next_run_date');
+    table.date('last_run_date');
+    table.boolean('auto_post').notNullable().defaultTo(true);
+    table.boolean('auto_reverse').notNullable().defaultTo(false);
+    // Generate every occurrence missed while the scheduler was down, or only the latest
+    table.boolean('catch_up').notNullable().defaultTo(true);
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.text('last_error');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['company_id', 'is_active']);
+    table.index(['is_active', 'next_run_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('recurring_journals');
+}
@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('recurring_journal_lines', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('recurring_journal_id').notNullable();
+    table.uuid('account_id').notNullable();
+    table.uuid('cost_centre_id');
+    table.string('description');
+    table.decimal('debit', 18, 2).notNullable().defaultTo(0);
+    table.decimal('credit', 18, 2).notNullable().defaultTo(0);
+    table.integer('line_number').notNullable();
+
+    // Indexes
+    table.index(['recurring_journal_id']);
+
+    // Foreign keys
+    table.foreign('recurring_journal_id').references('id').inTable('recurring_journals').onDelete('CASCADE');
+    table.foreign('account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+    table.foreign('cost_centre_id').references('id').inTable('cost_centres').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('recurring_journal_lines');
+}
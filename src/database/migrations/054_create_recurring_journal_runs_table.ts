@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('recurring_journal_runs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('recurring_journal_id').notNullable();
+    table.date('occurrence_date').notNullable();
+    table.enum('status', ['draft', 'posted', 'skipped']).notNullable();
+    table.uuid('journal_entry_id');
+    table.uuid('reversal_entry_id');
+    table.uuid('run_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Each occurrence is generated at most once
+    table.unique(['recurring_journal_id', 'occurrence_date']);
+
+    // Foreign keys
+    table.foreign('recurring_journal_id').references('id').inTable('recurring_journals').onDelete('CASCADE');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+    table.foreign('reversal_entry_id').references('id').inTable('journal_entries').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('recurring_journal_runs');
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+const HISTORY_ACTIONS = ['issued', 'emailed', 'email_failed', 'payment_recorded', 'credit_note_issued', 'cancelled'];
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('invoices', (table) => {
+    // Highest reminder level sent
+    table.integer('dunning_level').notNullable().defaultTo(0);
+    table.timestamp('last_reminder_at');
+  });
+
+  await knex.raw('ALTER TABLE invoice_history DROP CONSTRAINT IF EXISTS invoice_history_action_check');
+  await knex.raw(
+    `ALTER TABLE invoice_history ADD CONSTRAINT invoice_history_action_check CHECK (action IN (${[...HISTORY_ACTIONS, 'reminder_sent'].map(() => '?').join(', ')}))`,
+    [...HISTORY_ACTIONS, 'reminder_sent']
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('invoice_history').where('action', 'reminder_sent').del();
+  await knex.raw('ALTER TABLE invoice_history DROP CONSTRAINT IF EXISTS invoice_history_action_check');
+  await knex.raw(
+    `ALTER TABLE invoice_history ADD CONSTRAINT invoice_history_action_check CHECK (action IN (${HISTORY_ACTIONS.map(() => '?').join(', ')}))`,
+    HISTORY_ACTIONS
+  );
+
+  await knex.schema.alterTable('invoices', (table) => {
+    table.dropColumn('dunning_level');
+    table.dropColumn('last_reminder_at');
+  });
+}
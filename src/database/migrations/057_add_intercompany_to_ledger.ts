@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('accounts', (table) => {
+    // Lines posted to an intercompany account are tagged with this company
+    table.uuid('intercompany_company_id');
+  });
+
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    // Other group company on the far side of an intercompany line
+    table.uuid('counterparty_company_id');
+
+    // Indexes
+    table.index(['counterparty_company_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.dropIndex(['counterparty_company_id']);
+    table.dropColumn('counterparty_company_id');
+  });
+
+  await knex.schema.alterTable('accounts', (table) => {
+    table.dropColumn('intercompany_company_id');
+  });
+}
@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('consolidation_groups', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    // Parent company that owns the group and reports on it
+    table.uuid('company_id').notNullable();
+    table.string('name').notNullable();
+    table.text('description');
+    // Presentation currency of the consolidated reports
+    table.string('currency', 3).notNullable();
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'name']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('consolidation_groups');
+}
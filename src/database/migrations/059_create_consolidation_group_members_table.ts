@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('consolidation_group_members', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('group_id').notNullable();
+    table.uuid('company_id').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['group_id', 'company_id']);
+    table.index(['company_id']);
+
+    // Foreign keys
+    table.foreign('group_id').references('id').inTable('consolidation_groups').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('consolidation_group_members');
+}
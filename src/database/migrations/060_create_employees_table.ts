@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('employees', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('user_id').notNullable();
+    table.string('employee_number').notNullable();
+    table.enum('department', ['finance', 'hr', 'engineering', 'manufacturing', 'control', 'sales', 'it', 'quality']).notNullable();
+    table.string('position').notNullable();
+    table.string('work_location');
+    table.enum('employment_type', ['full_time', 'part_time', 'contract', 'intern']).notNullable();
+    table.enum('status', ['active', 'inactive', 'terminated', 'on_leave']).notNullable().defaultTo('active');
+    table.date('hire_date').notNullable();
+    table.date('termination_date');
+    table.text('termination_reason');
+    table.uuid('manager_id');
+    table.jsonb('emergency_contact');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at');
+
+    // Indexes
+    table.unique(['company_id', 'employee_number']);
+    table.index(['company_id', 'status']);
+    table.index(['user_id']);
+    table.index(['manager_id']);
+
+    // Foreign keys
+    table.foreign('user_id').references('id').inTable('users').onDelete('RESTRICT');
+    table.foreign('manager_id').references('id').inTable('employees').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('employees');
+}
@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('employee_salary_history', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('employee_id').notNullable();
+    // Annual salary from this date until the next entry
+    table.date('effective_from').notNullable();
+    table.decimal('salary', 18, 2).notNullable();
+    table.string('currency', 3).notNullable();
+    table.string('reason');
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['employee_id', 'effective_from']);
+
+    // Foreign keys
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('employee_salary_history');
+}
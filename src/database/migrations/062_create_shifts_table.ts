@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('shifts', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('name').notNullable();
+    // Wall-clock times (HH:MM) in the company timezone; an end before the start runs overnight
+    table.string('start_time', 5).notNullable();
+    table.string('end_time', 5).notNullable();
+    table.integer('grace_minutes').notNullable().defaultTo(15);
+    table.integer('break_minutes').notNullable().defaultTo(60);
+    // Days with fewer hours worked are half days
+    table.decimal('min_full_day_hours', 5, 2).notNullable().defaultTo(6);
+    // Applies to employees without a shift of their own
+    table.boolean('is_default').notNullable().defaultTo(false);
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'name']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('shifts');
+}
@@ -0,0 +1,17 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    table.uuid('shift_id');
+
+    // Foreign keys
+    table.foreign('shift_id').references('id').inTable('shifts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    table.dropForeign(['shift_id']);
+    table.dropColumn('shift_id');
+  });
+}
@@ -0,0 +1,39 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('attendance', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('employee_id').notNullable();
+    // Day of the shift, which is the day before the clock-in for overnight shifts
+    table.date('date').notNullable();
+    table.uuid('shift_id');
+    table.timestamp('check_in');
+    table.timestamp('check_out');
+    table.enum('check_in_source', ['kiosk', 'mobile', 'web', 'manual']);
+    table.enum('check_out_source', ['kiosk', 'mobile', 'web', 'manual']);
+    table.jsonb('check_in_location');
+    table.jsonb('check_out_location');
+    table.decimal('total_hours', 6, 2);
+    table.decimal('overtime_hours', 6, 2).notNullable().defaultTo(0);
+    table.integer('late_minutes').notNullable().defaultTo(0);
+    table.enum('status', ['present', 'absent', 'late', 'half_day', 'leave']).notNullable();
+    table.text('notes');
+    table.uuid('recorded_by');
+    table.timestamp('corrected_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['employee_id', 'date']);
+    table.index(['company_id', 'date']);
+
+    // Foreign keys
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+    table.foreign('shift_id').references('id').inTable('shifts').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('attendance');
+}
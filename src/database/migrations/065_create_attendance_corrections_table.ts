@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('attendance_corrections', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('attendance_id').notNullable();
+    table.text('reason').notNullable();
+    // Changed fields before and after the correction
+    table.jsonb('previous_values').notNullable();
+    table.jsonb('new_values').notNullable();
+    table.uuid('corrected_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['attendance_id']);
+
+    // Foreign keys
+    table.foreign('attendance_id').references('id').inTable('attendance').onDelete('CASCADE');
+    table.foreign('corrected_by').references('id').inTable('users').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('attendance_corrections');
+}
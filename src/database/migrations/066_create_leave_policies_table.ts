@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('leave_policies', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.enum('leave_type', ['annual', 'sick', 'personal', 'maternity', 'paternity', 'unpaid']).notNullable();
+    // Null applies to every employment type without a policy of its own
+    table.enum('employment_type', ['full_time', 'part_time', 'contract', 'intern']);
+    table.decimal('annual_days', 6, 2).notNullable();
+    table.enum('accrual_frequency', ['monthly', 'annual']).notNullable().defaultTo('monthly');
+    // Most days carried into the next year; null carries everything
+    table.decimal('carry_over_cap', 6, 2);
+    table.boolean('prorate_new_hires').notNullable().defaultTo(true);
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['company_id', 'leave_type']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('leave_policies');
+}
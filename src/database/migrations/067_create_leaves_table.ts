@@ -0,0 +1,34 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('leaves', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('employee_id').notNullable();
+    table.enum('type', ['annual', 'sick', 'personal', 'maternity', 'paternity', 'unpaid']).notNullable();
+    table.date('start_date').notNullable();
+    table.date('end_date').notNullable();
+    // Working days taken
+    table.decimal('days', 6, 2).notNullable();
+    table.text('reason');
+    table.enum('status', ['pending', 'approved', 'rejected', 'cancelled']).notNullable().defaultTo('pending');
+    table.uuid('requested_by').notNullable();
+    table.uuid('approved_by');
+    table.timestamp('approved_at');
+    table.text('decision_comments');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['employee_id', 'type', 'status']);
+    table.index(['company_id', 'start_date']);
+
+    // Foreign keys
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+    table.foreign('approved_by').references('id').inTable('users').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('leaves');
+}
@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('leave_adjustments', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('employee_id').notNullable();
+    table.enum('leave_type', ['annual', 'sick', 'personal', 'maternity', 'paternity', 'unpaid']).notNullable();
+    table.integer('year').notNullable();
+    // Positive days add to the balance, negative days remove from it
+    table.decimal('days', 6, 2).notNullable();
+    table.text('reason').notNullable();
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['employee_id', 'leave_type']);
+
+    // Foreign keys
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('leave_adjustments');
+}
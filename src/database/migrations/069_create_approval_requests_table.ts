@@ -0,0 +1,36 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('approval_requests', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    // What is being approved, e.g. 'leave' and the leave ID
+    table.string('resource_type', 50).notNullable();
+    table.uuid('resource_id').notNullable();
+    table.string('title').notNullable();
+    table.jsonb('details');
+    table.uuid('requested_by').notNullable();
+    // A specific approver, or anyone in the department when there is none
+    table.uuid('approver_id');
+    table.string('approver_department', 50);
+    table.enum('status', ['pending', 'approved', 'rejected', 'cancelled']).notNullable().defaultTo('pending');
+    table.uuid('decided_by');
+    table.timestamp('decided_at');
+    table.text('comments');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.index(['approver_id', 'status']);
+    table.index(['company_id', 'approver_department', 'status']);
+    table.index(['resource_type', 'resource_id']);
+
+    // Foreign keys
+    table.foreign('approver_id').references('id').inTable('users').onDelete('SET NULL');
+    table.foreign('requested_by').references('id').inTable('users').onDelete('RESTRICT');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('approval_requests');
+}
@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('holiday_calendars', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('name', 100).notNullable();
+    // ISO 3166-1 alpha-2 country and optional subdivision (e.g. ZA, ZA-WC)
+    table.string('country_code', 2).notNullable();
+    table.string('region', 10);
+    // Days of the week that are not worked (0 = Sunday)
+    table.jsonb('weekend_days').notNullable().defaultTo(JSON.stringify([0, 6]));
+    // Calendar for employees without one of their own
+    table.boolean('is_default').notNullable().defaultTo(false);
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'name']);
+    table.index(['company_id', 'country_code']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('holiday_calendars');
+}
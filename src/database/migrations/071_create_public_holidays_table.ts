@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('public_holidays', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('calendar_id').notNullable();
+    table.date('date').notNullable();
+    table.string('name', 200).notNullable();
+    table.enum('source', ['manual', 'ics']).notNullable().defaultTo('manual');
+    // UID of the imported ICS event
+    table.string('external_uid', 255);
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('calendar_id').references('id').inTable('holiday_calendars').onDelete('CASCADE');
+
+    // Indexes
+    table.unique(['calendar_id', 'date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('public_holidays');
+}
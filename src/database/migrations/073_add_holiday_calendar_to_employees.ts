@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    // Null uses the company's default calendar
+    table.uuid('holiday_calendar_id');
+
+    // Foreign keys
+    table.foreign('holiday_calendar_id').references('id').inTable('holiday_calendars').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    table.dropForeign(['holiday_calendar_id']);
+    table.dropColumn('holiday_calendar_id');
+  });
+}
@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+const ACCOUNT_COLUMNS = [
+  'payroll_expense_account_id',
+  'payroll_employer_expense_account_id',
+  'paye_payable_account_id',
+  'uif_payable_account_id',
+  'sdl_payable_account_id',
+  'net_pay_account_id'
+];
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    for (const column of ACCOUNT_COLUMNS) {
+      table.uuid(column);
+
+      // Foreign keys
+      table.foreign(column).references('id').inTable('accounts').onDelete('SET NULL');
+    }
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('financial_settings', (table) => {
+    for (const column of ACCOUNT_COLUMNS) {
+      table.dropForeign([column]);
+      table.dropColumn(column);
+    }
+  });
+}
@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    // Age-based PAYE rebates; without it only the primary rebate applies
+    table.date('date_of_birth');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    table.dropColumn('date_of_birth');
+  });
+}
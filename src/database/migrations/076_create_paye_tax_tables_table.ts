@@ -0,0 +1,35 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('paye_tax_tables', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    // Year of assessment by the year it ends (2026 = March 2025 to February 2026)
+    table.integer('tax_year').notNullable();
+    // A new version supersedes earlier ones from its effective date; versions are never edited
+    table.integer('version').notNullable();
+    table.date('effective_from').notNullable();
+    // [{ min, rate }] marginal rates in percent on income above min
+    table.jsonb('brackets').notNullable();
+    table.decimal('primary_rebate', 12, 2).notNullable();
+    table.decimal('secondary_rebate', 12, 2).notNullable();
+    table.decimal('tertiary_rebate', 12, 2).notNullable();
+    table.decimal('uif_rate', 5, 2).notNullable();
+    table.decimal('uif_monthly_ceiling', 12, 2).notNullable();
+    table.decimal('sdl_rate', 5, 2).notNullable();
+    // SDL applies once annual payroll exceeds this
+    table.decimal('sdl_threshold', 14, 2).notNullable();
+    table.decimal('retirement_cap_percent', 5, 2).notNullable();
+    table.decimal('retirement_cap_annual', 12, 2).notNullable();
+    table.text('notes');
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Indexes
+    table.unique(['company_id', 'tax_year', 'version']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('paye_tax_tables');
+}
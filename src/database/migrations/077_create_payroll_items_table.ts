@@ -0,0 +1,34 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('payroll_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('code', 20).notNullable();
+    table.string('name', 100).notNullable();
+    table.enum('type', ['earning', 'deduction']).notNullable();
+    // Earnings: counts as remuneration for PAYE, UIF and SDL
+    table.boolean('taxable').notNullable().defaultTo(true);
+    // Earnings: bonuses and other annual payments, taxed on their own
+    table.boolean('annual_payment').notNullable().defaultTo(false);
+    // Deductions: retirement fund contributions reduce taxable income up to the cap
+    table.boolean('retirement_fund').notNullable().defaultTo(false);
+    // Earnings default to the payroll expense account; deductions post here
+    table.uuid('account_id');
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('account_id').references('id').inTable('accounts').onDelete('RESTRICT');
+
+    // Indexes
+    table.unique(['company_id', 'code']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('payroll_items');
+}
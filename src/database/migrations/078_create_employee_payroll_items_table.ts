@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('employee_payroll_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('employee_id').notNullable();
+    table.uuid('payroll_item_id').notNullable();
+    // Amount every pay period while in effect
+    table.decimal('amount', 12, 2).notNullable();
+    table.date('effective_from').notNullable();
+    table.date('effective_to');
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+    table.foreign('payroll_item_id').references('id').inTable('payroll_items').onDelete('RESTRICT');
+
+    // Indexes
+    table.index(['employee_id', 'effective_from']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('employee_payroll_items');
+}
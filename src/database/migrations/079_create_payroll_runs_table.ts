@@ -0,0 +1,53 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('payroll_runs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.string('run_number', 50).notNullable();
+    // Pay period as YYYY-MM
+    table.string('period', 7).notNullable();
+    table.date('period_start').notNullable();
+    table.date('period_end').notNullable();
+    table.date('payment_date').notNullable();
+    // A reversal negates lines of a finalised run; finalised runs are never changed
+    table.enum('run_type', ['regular', 'reversal']).notNullable().defaultTo('regular');
+    table.uuid('corrects_run_id');
+    table.enum('status', ['draft', 'finalised']).notNullable().defaultTo('draft');
+    table.uuid('tax_table_id');
+    // Once-off earnings and deductions, kept so the run can be recalculated
+    table.jsonb('inputs').notNullable().defaultTo('[]');
+    // Employees left out of the run and why
+    table.jsonb('exceptions').notNullable().defaultTo('[]');
+    table.integer('employee_count').notNullable().defaultTo(0);
+    table.decimal('gross', 14, 2).notNullable().defaultTo(0);
+    table.decimal('paye', 14, 2).notNullable().defaultTo(0);
+    table.decimal('uif_employee', 14, 2).notNullable().defaultTo(0);
+    table.decimal('uif_employer', 14, 2).notNullable().defaultTo(0);
+    table.decimal('sdl', 14, 2).notNullable().defaultTo(0);
+    table.decimal('deductions', 14, 2).notNullable().defaultTo(0);
+    table.decimal('net', 14, 2).notNullable().defaultTo(0);
+    table.text('reason');
+    table.uuid('journal_entry_id');
+    table.uuid('calculated_by').notNullable();
+    table.timestamp('calculated_at').notNullable();
+    table.uuid('finalised_by');
+    table.timestamp('finalised_at');
+    table.uuid('created_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('corrects_run_id').references('id').inTable('payroll_runs').onDelete('RESTRICT');
+    table.foreign('tax_table_id').references('id').inTable('paye_tax_tables').onDelete('RESTRICT');
+    table.foreign('journal_entry_id').references('id').inTable('journal_entries').onDelete('RESTRICT');
+
+    // Indexes
+    table.unique(['company_id', 'run_number']);
+    table.index(['company_id', 'period']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('payroll_runs');
+}
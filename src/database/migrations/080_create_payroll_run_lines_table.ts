@@ -0,0 +1,38 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('payroll_run_lines', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('run_id').notNullable();
+    table.uuid('employee_id').notNullable();
+    // Annual salary the line was calculated from
+    table.decimal('salary', 14, 2).notNullable();
+    table.integer('working_days').notNullable();
+    table.decimal('days_paid', 6, 2).notNullable();
+    table.decimal('unpaid_leave_days', 6, 2).notNullable().defaultTo(0);
+    // [{ code, name, type, amount, account_id }]
+    table.jsonb('items').notNullable();
+    // Amounts are negative on reversal runs
+    table.decimal('gross', 14, 2).notNullable();
+    table.decimal('taxable_income', 14, 2).notNullable();
+    table.decimal('paye', 14, 2).notNullable();
+    table.decimal('uif_employee', 14, 2).notNullable();
+    table.decimal('uif_employer', 14, 2).notNullable();
+    table.decimal('sdl', 14, 2).notNullable();
+    table.decimal('deductions', 14, 2).notNullable();
+    table.decimal('net', 14, 2).notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('run_id').references('id').inTable('payroll_runs').onDelete('CASCADE');
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('RESTRICT');
+
+    // Indexes
+    table.unique(['run_id', 'employee_id']);
+    table.index('employee_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('payroll_run_lines');
+}
@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('payslips', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('run_id').notNullable();
+    table.uuid('employee_id').notNullable();
+    table.string('period', 7).notNullable();
+    // Relative to UPLOAD_PATH; the archived copy is not password protected
+    table.string('file_path', 500).notNullable();
+    table.integer('file_size').notNullable();
+    table.uuid('generated_by').notNullable();
+    table.timestamp('generated_at').notNullable().defaultTo(knex.fn.now());
+    table.string('emailed_to');
+    table.timestamp('emailed_at');
+    table.text('email_error');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('run_id').references('id').inTable('payroll_runs').onDelete('RESTRICT');
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+
+    // Indexes
+    table.unique(['run_id', 'employee_id']);
+    table.index(['employee_id', 'period']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('payslips');
+}
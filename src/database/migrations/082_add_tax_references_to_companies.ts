@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('companies', (table) => {
+    // SARS employer references reported on tax certificates and the EMP501
+    table.string('paye_reference_number', 10);
+    table.string('sdl_reference_number', 10);
+    table.string('uif_reference_number', 10);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('companies', (table) => {
+    table.dropColumn('paye_reference_number');
+    table.dropColumn('sdl_reference_number');
+    table.dropColumn('uif_reference_number');
+  });
+}
@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    // South African identity number and SARS income tax reference
+    table.string('id_number', 13);
+    table.string('tax_number', 10);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('employees', (table) => {
+    table.dropColumn('id_number');
+    table.dropColumn('tax_number');
+  });
+}
@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('payroll_items', (table) => {
+    // SARS source code the item is reported under on IRP5/IT3(a) certificates
+    table.string('sars_code', 4);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('payroll_items', (table) => {
+    table.dropColumn('sars_code');
+  });
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('employee_documents', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('company_id').notNullable();
+    table.uuid('employee_id').notNullable();
+    table.enum('type', ['contract', 'id_proof', 'certificate', 'performance_review', 'other']).notNullable();
+    table.string('name').notNullable();
+    table.text('description');
+    // Expiry of the current version; contracts and certificates get reminders
+    table.date('expiry_date');
+    table.integer('current_version').notNullable().defaultTo(1);
+    table.uuid('created_by').notNullable();
+    table.uuid('updated_by').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+    table.timestamp('deleted_at');
+
+    // Foreign keys
+    table.foreign('employee_id').references('id').inTable('employees').onDelete('CASCADE');
+
+    // Indexes
+    table.index(['employee_id', 'type']);
+    table.index(['company_id', 'expiry_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('employee_documents');
+}
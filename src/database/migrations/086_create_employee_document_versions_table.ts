@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('employee_document_versions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('document_id').notNullable();
+    table.integer('version').notNullable();
+    // Relative to UPLOAD_PATH
+    table.string('file_path', 500).notNullable();
+    table.string('file_name').notNullable();
+    table.string('mime_type', 100).notNullable();
+    table.integer('file_size').notNullable();
+    table.string('checksum', 64).notNullable();
+    table.date('expiry_date');
+    table.text('notes');
+    table.uuid('uploaded_by').notNullable();
+    table.timestamp('uploaded_at').notNullable().defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('document_id').references('id').inTable('employee_documents').onDelete('CASCADE');
+
+    // Indexes
+    table.unique(['document_id', 'version']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('employee_document_versions');
+}
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('employee_document_reminders', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('document_id').notNullable();
+    // The expiry date reminded about; a renewed document starts afresh
+    table.date('expiry_date').notNullable();
+    table.integer('days_before').notNullable();
+    table.timestamp('sent_at').notNullable().defaultTo(knex.fn.now());
+
+    // Foreign keys
+    table.foreign('document_id').references('id').inTable('employee_documents').onDelete('CASCADE');
+
+    // Indexes
+    table.unique(['document_id', 'expiry_date', 'days_before']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTable('employee_document_reminders');
+}
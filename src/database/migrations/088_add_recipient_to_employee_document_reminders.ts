@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('employee_document_reminders', (table) => {
+    // Who the reminder went to ('employee' or 'hr'); each is delivered and retried on its own
+    table.string('recipient', 20).notNullable().defaultTo('employee');
+
+    table.dropUnique(['document_id', 'expiry_date', 'days_before']);
+    table.unique(['document_id', 'expiry_date', 'days_before', 'recipient']);
+  });
+
+  // Reminders recorded so far reached both the employee and HR
+  await knex.raw(`
+    insert into employee_document_reminders (document_id, expiry_date, days_before, sent_at, recipient)
+    select document_id, expiry_date, days_before, sent_at, 'hr'
+    from employee_document_reminders
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('employee_document_reminders').where('recipient', 'hr').delete();
+
+  await knex.schema.alterTable('employee_document_reminders', (table) => {
+    table.dropUnique(['document_id', 'expiry_date', 'days_before', 'recipient']);
+    table.unique(['document_id', 'expiry_date', 'days_before']);
+    table.dropColumn('recipient');
+  });
+}
@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('companies', (table) => {
+    // Holding company this one reports to; consolidation groups may only
+    // take in companies below their parent in this tree
+    table.uuid('parent_company_id').nullable().references('id').inTable('companies').onDelete('SET NULL');
+    table.index(['parent_company_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('companies', (table) => {
+    table.dropIndex(['parent_company_id']);
+    table.dropForeign(['parent_company_id']);
+    table.dropColumn('parent_company_id');
+  });
+}
@@ -24,6 +24,7 @@ import engineeringRoutes from './routes/engineeringRoutes';
 import manufacturingRoutes from './routes/manufacturingRoutes';
 import controlRoutes from './routes/controlRoutes';
 import workflowRoutes from './routes/workflowRoutes';
+import calendarRoutes from './routes/calendarRoutes';
 import notificationRoutes from './routes/notificationRoutes';
 
 // Import service initializers
@@ -33,6 +34,9 @@ import { initializeSocketIO } from './services/socketService';
 import { initializeWorkflowEngine } from './services/workflowEngine';
 import { initializeNotificationService } from './services/notificationService';
 import { initializeExchangeRateService } from './services/exchangeRateService';
+import { stopScheduledJobs } from './services/schedulerService';
+import { initializeFinancialJobs } from './services/financial/financialJobs';
+import { initializeHrJobs } from './services/hr/hrJobs';
 
 class NitroERPApp {
   private app: express.Application;
@@ -78,6 +82,14 @@ class NitroERPApp {
       await initializeExchangeRateService();
       logger.info('Exchange rate service initialized');
 
+      // Initialize scheduled financial jobs
+      await initializeFinancialJobs();
+      logger.info('Financial jobs initialized');
+
+      // Initialize scheduled HR jobs
+      await initializeHrJobs();
+      logger.info('HR jobs initialized');
+
       // Initialize Socket.IO
       initializeSocketIO(this.io);
       logger.info('Socket.IO initialized');
@@ -160,6 +172,7 @@ class NitroERPApp {
     this.app.use(`${apiPrefix}/manufacturing`, authMiddleware, manufacturingRoutes);
     this.app.use(`${apiPrefix}/control`, authMiddleware, controlRoutes);
     this.app.use(`${apiPrefix}/workflow`, authMiddleware, workflowRoutes);
+    this.app.use(`${apiPrefix}/calendars`, authMiddleware, calendarRoutes);
     this.app.use(`${apiPrefix}/notifications`, authMiddleware, notificationRoutes);
 
     // API documentation endpoint
@@ -176,6 +189,7 @@ class NitroERPApp {
           manufacturing: `${apiPrefix}/manufacturing`,
           control: `${apiPrefix}/control`,
           workflow: `${apiPrefix}/workflow`,
+          calendars: `${apiPrefix}/calendars`,
           notifications: `${apiPrefix}/notifications`,
         },
         documentation: '/docs',
@@ -195,6 +209,9 @@ class NitroERPApp {
     const gracefulShutdown = async (signal: string) => {
       logger.info(`Received ${signal}. Starting graceful shutdown...`);
 
+      // Stop scheduled jobs
+      stopScheduledJobs();
+
       // Close server
       this.server.close(() => {
         logger.info('HTTP server closed');
@@ -235,9 +235,47 @@ export const requireDepartment = (departments: string | string[]) => {
 };
 
 /**
- * Resource ownership middleware
+ * Role or department access control; users without one of the roles pass if
+ * they belong to one of the departments and hold its permission (e.g. HR
+ * staff with hr:write alongside managers)
  */
-export const requireOwnership = (resourceUserIdField: string = 'userId') => {
+export const requireRoleOrDepartment = (roles: string[], departments: string[], permission: string) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    if (roles.includes(req.user.role)) {
+      return next();
+    }
+
+    const userPermissions = req.user.permissions;
+    const hasPermission = userPermissions.includes('*') || userPermissions.includes(permission);
+
+    if (!departments.includes(req.user.department) || !hasPermission) {
+      auditLogger.log('AUTHORIZATION_FAILURE', req.user.id, req.path, {
+        requiredRoles: roles,
+        requiredDepartments: departments,
+        requiredPermission: permission,
+        userRole: req.user.role,
+        userDepartment: req.user.department,
+        method: req.method,
+      });
+
+      throw new AuthorizationError(
+        `Access denied. Required: ${roles.join(', ')} or ${departments.join(', ')} with ${permission}`
+      );
+    }
+
+    next();
+  };
+};
+
+/**
+ * Resource ownership middleware; users in allowedDepartments (e.g. HR for
+ * employee records) may also access other users' resources
+ */
+export const requireOwnership = (resourceUserIdField: string = 'userId', allowedDepartments: string[] = []) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       throw new AuthenticationError('Authentication required');
@@ -248,6 +286,10 @@ export const requireOwnership = (resourceUserIdField: string = 'userId') => {
       return next();
     }
 
+    if (allowedDepartments.includes(req.user.department)) {
+      return next();
+    }
+
     const resourceUserId = req.params[resourceUserIdField] || req.body[resourceUserIdField];
     
     if (resourceUserId && resourceUserId !== req.user.id) {
@@ -329,7 +371,7 @@ export const authRateLimit = (maxAttempts: number = 5, windowMs: number = 15 * 6
   const attempts = new Map<string, { count: number; resetTime: number }>();
 
   return (req: Request, res: Response, next: NextFunction): void => {
-    const ip = req.ip;
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
     const now = Date.now();
 
     const attempt = attempts.get(ip);
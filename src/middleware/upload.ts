@@ -0,0 +1,52 @@
+import multer from 'multer';
+import config from '../../config/environment';
+import { ValidationError } from './errorHandler';
+
+const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+];
+
+/**
+ * In-memory upload for files that are parsed and discarded (CSV imports, statements)
+ */
+export const memoryUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.MAX_FILE_SIZE,
+    files: 1,
+  },
+});
+
+/**
+ * In-memory upload for documents that are kept (employee document vault);
+ * only PDF, image and Word files are accepted
+ */
+export const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.MAX_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new ValidationError('Documents must be PDF, JPEG, PNG or Word files'));
+    }
+  },
+});
+
+/**
+ * Read an uploaded file (field "file") or a raw text body field as UTF-8 text
+ */
+export const getUploadedText = (file: Express.Multer.File | undefined, fallback?: unknown): string | undefined => {
+  if (file) {
+    return file.buffer.toString('utf8');
+  }
+
+  return typeof fallback === 'string' && fallback.length > 0 ? fallback : undefined;
+};
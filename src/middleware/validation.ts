@@ -277,4 +277,1072 @@ export const validateBusinessRules = {
       next();
     };
   },
-}; 
\ No newline at end of file
+};
+
+// Journal entry validation schema
+const journalLineSchema = Joi.object({
+  account_id: Joi.string().uuid().required().messages({
+    'string.guid': 'Account ID must be a valid UUID',
+    'any.required': 'Account is required on every line',
+  }),
+  description: Joi.string().max(255).optional().allow(''),
+  debit: Joi.number().precision(2).min(0).default(0),
+  credit: Joi.number().precision(2).min(0).default(0),
+  foreign_debit: Joi.number().precision(2).min(0).optional(),
+  foreign_credit: Joi.number().precision(2).min(0).optional(),
+  cost_centre_id: Joi.string().uuid().allow(null).optional(),
+  counterparty_company_id: Joi.string().uuid().allow(null).optional(),
+});
+
+export const journalEntrySchema = Joi.object({
+  entry_date: Joi.date().iso().required().messages({
+    'date.base': 'Entry date must be a valid date',
+    'any.required': 'Entry date is required',
+  }),
+  description: Joi.string().min(1).max(255).required().messages({
+    'any.required': 'Description is required',
+  }),
+  reference: Joi.string().max(100).optional().allow(''),
+  currency: Joi.string().length(3).uppercase().optional(),
+  exchange_rate: Joi.number().positive().optional(),
+  lines: Joi.array().items(journalLineSchema).min(2).required().messages({
+    'array.min': 'A journal entry requires at least two lines',
+    'any.required': 'Journal lines are required',
+  }),
+});
+
+export const validateJournalEntry = validate(journalEntrySchema);
+
+// Journal entry reversal validation schema
+export const journalReversalSchema = Joi.object({
+  reversal_date: Joi.date().iso().optional(),
+  description: Joi.string().max(255).optional(),
+});
+
+export const validateJournalReversal = validate(journalReversalSchema);
+
+// Account validation schemas
+const accountTypes = ['asset', 'liability', 'equity', 'revenue', 'expense'];
+const accountCategories = [
+  'current_assets',
+  'fixed_assets',
+  'current_liabilities',
+  'long_term_liabilities',
+  'owners_equity',
+  'operating_revenue',
+  'operating_expenses',
+];
+
+export const createAccountSchema = Joi.object({
+  account_number: Joi.string().pattern(/^\d+$/).max(20).optional().messages({
+    'string.pattern.base': 'Account number must be numeric',
+  }),
+  name: Joi.string().min(1).max(255).required().messages({
+    'any.required': 'Account name is required',
+  }),
+  type: Joi.string().valid(...accountTypes).required().messages({
+    'any.only': 'Invalid account type',
+    'any.required': 'Account type is required',
+  }),
+  category: Joi.string().valid(...accountCategories).required().messages({
+    'any.only': 'Invalid account category',
+    'any.required': 'Account category is required',
+  }),
+  currency: Joi.string().length(3).uppercase().optional(),
+  parent_account_id: Joi.string().uuid().allow(null).optional(),
+  intercompany_company_id: Joi.string().uuid().allow(null).optional(),
+  is_active: Joi.boolean().optional(),
+});
+
+export const validateCreateAccount = validate(createAccountSchema);
+
+export const updateAccountSchema = Joi.object({
+  account_number: Joi.string().pattern(/^\d+$/).max(20).optional().messages({
+    'string.pattern.base': 'Account number must be numeric',
+  }),
+  name: Joi.string().min(1).max(255).optional(),
+  type: Joi.string().valid(...accountTypes).optional(),
+  category: Joi.string().valid(...accountCategories).optional(),
+  parent_account_id: Joi.string().uuid().allow(null).optional(),
+  intercompany_company_id: Joi.string().uuid().allow(null).optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateAccount = validate(updateAccountSchema);
+
+export const numberingRulesSchema = Joi.object({
+  rules: Joi.array().items(Joi.object({
+    account_type: Joi.string().valid(...accountTypes).required(),
+    range_start: Joi.number().integer().min(0).required(),
+    range_end: Joi.number().integer().min(0).required(),
+    number_length: Joi.number().integer().min(1).max(20).required(),
+  })).min(1).unique('account_type').required(),
+});
+
+export const validateNumberingRules = validate(numberingRulesSchema);
+
+// Fiscal period validation schemas
+export const fiscalYearSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().messages({
+    'any.required': 'Fiscal year name is required',
+  }),
+  start_date: Joi.date().iso().required().messages({
+    'any.required': 'Start date is required',
+  }),
+  period_count: Joi.number().integer().valid(1, 2, 3, 4, 6, 12).optional(),
+});
+
+export const validateFiscalYear = validate(fiscalYearSchema);
+
+export const fiscalYearCloseSchema = Joi.object({
+  retained_earnings_account_id: Joi.string().uuid().required().messages({
+    'any.required': 'Retained earnings account is required',
+  }),
+});
+
+export const validateFiscalYearClose = validate(fiscalYearCloseSchema);
+
+export const periodReopenSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+export const validatePeriodReopen = validate(periodReopenSchema);
+
+// Exchange rate validation schemas
+export const exchangeRateFetchSchema = Joi.object({
+  date: Joi.date().iso().max('now').optional(),
+});
+
+export const validateExchangeRateFetch = validate(exchangeRateFetchSchema);
+
+// Financial settings and FX validation schemas
+export const financialSettingsSchema = Joi.object({
+  fx_unrealised_gain_loss_account_id: Joi.string().uuid().allow(null).optional(),
+  fx_realised_gain_loss_account_id: Joi.string().uuid().allow(null).optional(),
+  fx_auto_revaluation: Joi.boolean().optional(),
+  ar_control_account_id: Joi.string().uuid().allow(null).optional(),
+  default_revenue_account_id: Joi.string().uuid().allow(null).optional(),
+  vat_output_account_id: Joi.string().uuid().allow(null).optional(),
+  ap_control_account_id: Joi.string().uuid().allow(null).optional(),
+  default_expense_account_id: Joi.string().uuid().allow(null).optional(),
+  vat_input_account_id: Joi.string().uuid().allow(null).optional(),
+  ap_price_tolerance_percent: Joi.number().min(0).max(100).optional(),
+  ap_quantity_tolerance_percent: Joi.number().min(0).max(100).optional(),
+  asset_disposal_account_id: Joi.string().uuid().allow(null).optional(),
+  auto_depreciation: Joi.boolean().optional(),
+  payroll_expense_account_id: Joi.string().uuid().allow(null).optional(),
+  payroll_employer_expense_account_id: Joi.string().uuid().allow(null).optional(),
+  paye_payable_account_id: Joi.string().uuid().allow(null).optional(),
+  uif_payable_account_id: Joi.string().uuid().allow(null).optional(),
+  sdl_payable_account_id: Joi.string().uuid().allow(null).optional(),
+  net_pay_account_id: Joi.string().uuid().allow(null).optional(),
+}).min(1);
+
+export const validateFinancialSettings = validate(financialSettingsSchema);
+
+export const fxRevaluationSchema = Joi.object({
+  revaluation_date: Joi.date().iso().required().messages({
+    'any.required': 'Revaluation date is required',
+  }),
+  reverse_next_day: Joi.boolean().optional(),
+});
+
+export const validateFxRevaluation = validate(fxRevaluationSchema);
+
+export const fxSettlementSchema = Joi.object({
+  settlement_date: Joi.date().iso().required(),
+  account_id: Joi.string().uuid().required(),
+  bank_account_id: Joi.string().uuid().required(),
+  foreign_amount: Joi.number().precision(2).positive().required(),
+  original_rate: Joi.number().positive().required(),
+  settlement_rate: Joi.number().positive().optional(),
+  description: Joi.string().max(255).optional(),
+  reference: Joi.string().max(100).optional(),
+});
+
+export const validateFxSettlement = validate(fxSettlementSchema);
+
+// Customer and invoice validation schemas
+const customerFields = {
+  name: Joi.string().min(1).max(255),
+  email: Joi.string().email().allow(null, '').optional(),
+  phone: Joi.string().max(50).allow(null, '').optional(),
+  vat_number: Joi.string().max(50).allow(null, '').optional(),
+  address_line_1: Joi.string().max(255).allow(null, '').optional(),
+  address_line_2: Joi.string().max(255).allow(null, '').optional(),
+  city: Joi.string().max(100).allow(null, '').optional(),
+  postal_code: Joi.string().max(20).allow(null, '').optional(),
+  country: Joi.string().max(100).allow(null, '').optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  payment_terms_days: Joi.number().integer().min(0).max(365).optional(),
+  credit_limit: Joi.number().precision(2).min(0).allow(null).optional(),
+  receivable_account_id: Joi.string().uuid().allow(null).optional(),
+};
+
+export const createCustomerSchema = Joi.object({
+  ...customerFields,
+  customer_code: Joi.string().max(30).optional(),
+  name: customerFields.name.required().messages({
+    'any.required': 'Customer name is required',
+  }),
+});
+
+export const validateCreateCustomer = validate(createCustomerSchema);
+
+export const updateCustomerSchema = Joi.object({
+  ...customerFields,
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateCustomer = validate(updateCustomerSchema);
+
+const invoiceItemSchema = Joi.object({
+  description: Joi.string().min(1).max(500).required(),
+  quantity: Joi.number().positive().required(),
+  unit_price: Joi.number().min(0).required(),
+  discount_percent: Joi.number().min(0).max(100).optional(),
+  tax_code_id: Joi.string().uuid().allow(null).optional(),
+  tax_rate: Joi.number().min(0).max(100).optional(),
+  revenue_account_id: Joi.string().uuid().optional(),
+});
+
+export const createInvoiceSchema = Joi.object({
+  customer_id: Joi.string().uuid().required().messages({
+    'any.required': 'Customer is required',
+  }),
+  issue_date: Joi.date().iso().required(),
+  due_date: Joi.date().iso().min(Joi.ref('issue_date')).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  exchange_rate: Joi.number().positive().optional(),
+  reference: Joi.string().max(100).allow(null, '').optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+  items: Joi.array().items(invoiceItemSchema).min(1).required().messages({
+    'array.min': 'At least one line item is required',
+  }),
+});
+
+export const validateCreateInvoice = validate(createInvoiceSchema);
+
+export const updateInvoiceSchema = Joi.object({
+  issue_date: Joi.date().iso().optional(),
+  due_date: Joi.date().iso().optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  exchange_rate: Joi.number().positive().optional(),
+  reference: Joi.string().max(100).allow(null, '').optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+  items: Joi.array().items(invoiceItemSchema).min(1).optional(),
+}).min(1);
+
+export const validateUpdateInvoice = validate(updateInvoiceSchema);
+
+export const invoicePaymentSchema = Joi.object({
+  payment_date: Joi.date().iso().required(),
+  amount: Joi.number().precision(2).positive().required(),
+  bank_account_id: Joi.string().uuid().required().messages({
+    'any.required': 'Bank account is required',
+  }),
+  exchange_rate: Joi.number().positive().optional(),
+  method: Joi.string().valid('eft', 'card', 'cash', 'cheque', 'other').optional(),
+  reference: Joi.string().max(100).optional(),
+});
+
+export const validateInvoicePayment = validate(invoicePaymentSchema);
+
+export const creditNoteSchema = Joi.object({
+  issue_date: Joi.date().iso().required(),
+  reason: Joi.string().min(1).max(500).required().messages({
+    'any.required': 'A reason is required for a credit note',
+  }),
+  items: Joi.array().items(invoiceItemSchema).min(1).required(),
+});
+
+export const validateCreditNote = validate(creditNoteSchema);
+
+export const invoiceCancelSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+export const validateInvoiceCancel = validate(invoiceCancelSchema);
+
+export const invoiceEmailSchema = Joi.object({
+  to: Joi.string().email().optional(),
+  cc: Joi.string().email().optional(),
+  subject: Joi.string().max(255).optional(),
+  message: Joi.string().max(5000).optional(),
+});
+
+export const validateInvoiceEmail = validate(invoiceEmailSchema);
+
+export const invoiceTemplateSchema = Joi.object({
+  document_title: Joi.string().max(100).allow(null).optional(),
+  email_subject: Joi.string().max(255).allow(null).optional(),
+  email_body: Joi.string().max(5000).allow(null).optional(),
+  payment_instructions: Joi.string().max(2000).allow(null).optional(),
+  footer_text: Joi.string().max(2000).allow(null).optional(),
+}).min(1);
+
+export const validateInvoiceTemplate = validate(invoiceTemplateSchema);
+
+// Supplier, purchase order, bill and payment run validation schemas
+const supplierFields = {
+  name: Joi.string().min(1).max(255),
+  email: Joi.string().email().allow(null, '').optional(),
+  phone: Joi.string().max(50).allow(null, '').optional(),
+  vat_number: Joi.string().max(50).allow(null, '').optional(),
+  address_line_1: Joi.string().max(255).allow(null, '').optional(),
+  address_line_2: Joi.string().max(255).allow(null, '').optional(),
+  city: Joi.string().max(100).allow(null, '').optional(),
+  postal_code: Joi.string().max(20).allow(null, '').optional(),
+  country: Joi.string().max(100).allow(null, '').optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  payment_terms_days: Joi.number().integer().min(0).max(365).optional(),
+  bank_name: Joi.string().max(100).allow(null, '').optional(),
+  bank_account_number: Joi.string().max(50).allow(null, '').optional(),
+  bank_branch_code: Joi.string().max(20).allow(null, '').optional(),
+  payable_account_id: Joi.string().uuid().allow(null).optional(),
+};
+
+export const createSupplierSchema = Joi.object({
+  ...supplierFields,
+  supplier_code: Joi.string().max(30).optional(),
+  name: supplierFields.name.required().messages({
+    'any.required': 'Supplier name is required',
+  }),
+});
+
+export const validateCreateSupplier = validate(createSupplierSchema);
+
+export const updateSupplierSchema = Joi.object({
+  ...supplierFields,
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateSupplier = validate(updateSupplierSchema);
+
+const purchaseOrderItemSchema = Joi.object({
+  description: Joi.string().min(1).max(500).required(),
+  quantity: Joi.number().positive().required(),
+  unit_price: Joi.number().min(0).required(),
+  tax_rate: Joi.number().min(0).max(100).optional(),
+  expense_account_id: Joi.string().uuid().optional(),
+});
+
+export const createPurchaseOrderSchema = Joi.object({
+  supplier_id: Joi.string().uuid().required().messages({
+    'any.required': 'Supplier is required',
+  }),
+  order_date: Joi.date().iso().required(),
+  expected_date: Joi.date().iso().min(Joi.ref('order_date')).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  reference: Joi.string().max(100).allow(null, '').optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+  items: Joi.array().items(purchaseOrderItemSchema).min(1).required().messages({
+    'array.min': 'At least one line item is required',
+  }),
+});
+
+export const validateCreatePurchaseOrder = validate(createPurchaseOrderSchema);
+
+export const updatePurchaseOrderSchema = Joi.object({
+  order_date: Joi.date().iso().optional(),
+  expected_date: Joi.date().iso().allow(null).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  reference: Joi.string().max(100).allow(null, '').optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+  items: Joi.array().items(purchaseOrderItemSchema).min(1).optional(),
+}).min(1);
+
+export const validateUpdatePurchaseOrder = validate(updatePurchaseOrderSchema);
+
+export const goodsReceiptSchema = Joi.object({
+  received_date: Joi.date().iso().required(),
+  delivery_note: Joi.string().max(100).optional(),
+  notes: Joi.string().max(2000).optional(),
+  items: Joi.array().items(Joi.object({
+    purchase_order_item_id: Joi.string().uuid().required(),
+    quantity: Joi.number().positive().required(),
+  })).min(1).required().messages({
+    'array.min': 'At least one received line is required',
+  }),
+});
+
+export const validateGoodsReceipt = validate(goodsReceiptSchema);
+
+const billItemSchema = Joi.object({
+  purchase_order_item_id: Joi.string().uuid().optional(),
+  description: Joi.string().min(1).max(500).optional(),
+  quantity: Joi.number().positive().required(),
+  unit_price: Joi.number().min(0).required(),
+  tax_code_id: Joi.string().uuid().allow(null).optional(),
+  tax_rate: Joi.number().min(0).max(100).optional(),
+  expense_account_id: Joi.string().uuid().optional(),
+});
+
+export const createBillSchema = Joi.object({
+  supplier_id: Joi.string().uuid().required().messages({
+    'any.required': 'Supplier is required',
+  }),
+  purchase_order_id: Joi.string().uuid().optional(),
+  supplier_reference: Joi.string().min(1).max(100).required().messages({
+    'any.required': "The supplier's invoice number is required",
+  }),
+  bill_date: Joi.date().iso().required(),
+  due_date: Joi.date().iso().min(Joi.ref('bill_date')).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  exchange_rate: Joi.number().positive().optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+  items: Joi.array().items(billItemSchema).min(1).required().messages({
+    'array.min': 'At least one line item is required',
+  }),
+});
+
+export const validateCreateBill = validate(createBillSchema);
+
+export const updateBillSchema = Joi.object({
+  supplier_reference: Joi.string().min(1).max(100).optional(),
+  bill_date: Joi.date().iso().optional(),
+  due_date: Joi.date().iso().optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  exchange_rate: Joi.number().positive().optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+  items: Joi.array().items(billItemSchema).min(1).optional(),
+}).min(1);
+
+export const validateUpdateBill = validate(updateBillSchema);
+
+export const billOverrideSchema = Joi.object({
+  reason: Joi.string().min(1).max(500).required().messages({
+    'any.required': 'A reason is required to override a match failure',
+  }),
+});
+
+export const validateBillOverride = validate(billOverrideSchema);
+
+export const billCancelSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+export const validateBillCancel = validate(billCancelSchema);
+
+export const createPaymentRunSchema = Joi.object({
+  payment_date: Joi.date().iso().required(),
+  bank_account_id: Joi.string().uuid().required().messages({
+    'any.required': 'Bank account is required',
+  }),
+  due_on_or_before: Joi.date().iso().optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  supplier_ids: Joi.array().items(Joi.string().uuid()).optional(),
+});
+
+export const validateCreatePaymentRun = validate(createPaymentRunSchema);
+
+// Bank reconciliation validation schemas
+export const bankLineMatchSchema = Joi.object({
+  matches: Joi.array().items(Joi.object({
+    journal_line_id: Joi.string().uuid().required(),
+    amount: Joi.number().precision(2).invalid(0).optional(),
+  })).optional(),
+  adjustments: Joi.array().items(Joi.object({
+    account_id: Joi.string().uuid().required(),
+    amount: Joi.number().precision(2).invalid(0).required(),
+    description: Joi.string().max(255).optional(),
+  })).optional(),
+}).or('matches', 'adjustments');
+
+export const validateBankLineMatch = validate(bankLineMatchSchema);
+
+// Tax code validation schemas
+const vatReturnFieldSchema = Joi.string().valid('1', '1A', '2', '2A', '3', '14', '14A', '15', '15A').allow(null);
+
+export const createTaxCodeSchema = Joi.object({
+  code: Joi.string().min(1).max(20).required().messages({
+    'any.required': 'Tax code is required',
+  }),
+  name: Joi.string().min(1).max(255).required(),
+  type: Joi.string().valid('sales', 'purchases').required(),
+  is_exempt: Joi.boolean().optional(),
+  is_zero_rated: Joi.boolean().optional(),
+  is_reverse_charge: Joi.boolean().optional(),
+  return_field: vatReturnFieldSchema.optional(),
+  rate: Joi.number().min(0).max(100).optional(),
+  effective_from: Joi.date().iso().optional(),
+});
+
+export const validateCreateTaxCode = validate(createTaxCodeSchema);
+
+export const updateTaxCodeSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  return_field: vatReturnFieldSchema.optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateTaxCode = validate(updateTaxCodeSchema);
+
+export const taxRateSchema = Joi.object({
+  rate: Joi.number().min(0).max(100).required(),
+  effective_from: Joi.date().iso().required().messages({
+    'any.required': 'Effective date is required',
+  }),
+});
+
+export const validateTaxRate = validate(taxRateSchema);
+
+// Budget validation schemas
+export const createCostCentreSchema = Joi.object({
+  code: Joi.string().min(1).max(20).required().messages({
+    'any.required': 'Cost centre code is required',
+  }),
+  name: Joi.string().min(1).max(255).required(),
+  department_id: Joi.string().uuid().allow(null).optional(),
+});
+
+export const validateCreateCostCentre = validate(createCostCentreSchema);
+
+export const updateCostCentreSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  department_id: Joi.string().uuid().allow(null).optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateCostCentre = validate(updateCostCentreSchema);
+
+export const createBudgetSchema = Joi.object({
+  fiscal_year_id: Joi.string().uuid().required().messages({
+    'any.required': 'Fiscal year is required',
+  }),
+  name: Joi.string().min(1).max(255).required(),
+  version: Joi.string().min(1).max(50).required().messages({
+    'any.required': 'Version is required (e.g. original, forecast)',
+  }),
+  notes: Joi.string().max(1000).optional(),
+  copy_from_budget_id: Joi.string().uuid().optional(),
+});
+
+export const validateCreateBudget = validate(createBudgetSchema);
+
+export const budgetLinesSchema = Joi.object({
+  lines: Joi.array().items(Joi.object({
+    account_id: Joi.string().uuid().required(),
+    cost_centre_id: Joi.string().uuid().allow(null).optional(),
+    month: Joi.string().pattern(/^\d{4}-\d{2}$/).required().messages({
+      'string.pattern.base': 'Month must be in YYYY-MM format',
+    }),
+    amount: Joi.number().precision(2).required(),
+  })).min(1).required(),
+  replace: Joi.boolean().optional(),
+});
+
+export const validateBudgetLines = validate(budgetLinesSchema);
+
+// Fixed asset validation schemas
+const monthSchema = Joi.string().pattern(/^\d{4}-\d{2}$/).messages({
+  'string.pattern.base': 'Month must be in YYYY-MM format',
+});
+
+export const createFixedAssetSchema = Joi.object({
+  asset_number: Joi.string().max(50).optional(),
+  name: Joi.string().min(1).max(255).required().messages({
+    'any.required': 'Asset name is required',
+  }),
+  description: Joi.string().max(1000).optional(),
+  category: Joi.string().max(100).optional(),
+  serial_number: Joi.string().max(255).optional(),
+  location: Joi.string().max(255).optional(),
+  custodian_id: Joi.string().uuid().allow(null).optional(),
+  cost_centre_id: Joi.string().uuid().allow(null).optional(),
+  control_system_id: Joi.string().uuid().allow(null).optional(),
+  acquisition_date: Joi.date().iso().required(),
+  depreciation_start_date: Joi.date().iso().optional(),
+  cost: Joi.number().positive().precision(2).required(),
+  residual_value: Joi.number().min(0).precision(2).optional(),
+  depreciation_method: Joi.string().valid('straight_line', 'reducing_balance').required(),
+  useful_life_months: Joi.number().integer().min(1).max(1200).when('depreciation_method', {
+    is: 'straight_line',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  depreciation_rate: Joi.number().positive().max(100).when('depreciation_method', {
+    is: 'reducing_balance',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  asset_account_id: Joi.string().uuid().required(),
+  accumulated_depreciation_account_id: Joi.string().uuid().required(),
+  depreciation_expense_account_id: Joi.string().uuid().required(),
+  acquisition_credit_account_id: Joi.string().uuid().optional(),
+  opening_accumulated_depreciation: Joi.number().min(0).precision(2).optional(),
+  opening_depreciated_to: monthSchema.optional(),
+});
+
+export const validateCreateFixedAsset = validate(createFixedAssetSchema);
+
+export const updateFixedAssetSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).allow('', null).optional(),
+  category: Joi.string().max(100).allow(null).optional(),
+  serial_number: Joi.string().max(255).allow(null).optional(),
+  location: Joi.string().max(255).allow(null).optional(),
+  custodian_id: Joi.string().uuid().allow(null).optional(),
+  cost_centre_id: Joi.string().uuid().allow(null).optional(),
+  control_system_id: Joi.string().uuid().allow(null).optional(),
+  residual_value: Joi.number().min(0).precision(2).optional(),
+  depreciation_method: Joi.string().valid('straight_line', 'reducing_balance').optional(),
+  useful_life_months: Joi.number().integer().min(1).max(1200).optional(),
+  depreciation_rate: Joi.number().positive().max(100).optional(),
+}).min(1);
+
+export const validateUpdateFixedAsset = validate(updateFixedAssetSchema);
+
+export const disposeFixedAssetSchema = Joi.object({
+  disposal_date: Joi.date().iso().required().messages({
+    'any.required': 'Disposal date is required',
+  }),
+  proceeds: Joi.number().min(0).precision(2).optional(),
+  proceeds_account_id: Joi.string().uuid().when('proceeds', {
+    is: Joi.number().greater(0),
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  notes: Joi.string().max(500).optional(),
+});
+
+export const validateDisposeFixedAsset = validate(disposeFixedAssetSchema);
+
+export const depreciationRunSchema = Joi.object({
+  period_month: monthSchema.required().messages({
+    'any.required': 'period_month is required (YYYY-MM)',
+  }),
+});
+
+export const validateDepreciationRun = validate(depreciationRunSchema);
+
+// Recurring journal validation schemas
+const recurringJournalLineSchema = Joi.object({
+  account_id: Joi.string().uuid().required(),
+  cost_centre_id: Joi.string().uuid().allow(null).optional(),
+  description: Joi.string().max(255).optional(),
+  debit: Joi.number().min(0).precision(2).optional(),
+  credit: Joi.number().min(0).precision(2).optional(),
+});
+
+export const createRecurringJournalSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  description: Joi.string().min(1).max(255).required().messages({
+    'any.required': 'Description is required',
+  }),
+  reference: Joi.string().max(100).optional(),
+  frequency: Joi.string().valid('weekly', 'monthly', 'quarterly', 'semi_annually', 'annually').required(),
+  start_date: Joi.date().iso().required(),
+  end_date: Joi.date().iso().allow(null).optional(),
+  auto_post: Joi.boolean().optional(),
+  auto_reverse: Joi.boolean().optional(),
+  catch_up: Joi.boolean().optional(),
+  lines: Joi.array().items(recurringJournalLineSchema).min(2).required(),
+});
+
+export const validateCreateRecurringJournal = validate(createRecurringJournalSchema);
+
+export const updateRecurringJournalSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().min(1).max(255).optional(),
+  reference: Joi.string().max(100).allow('', null).optional(),
+  frequency: Joi.string().valid('weekly', 'monthly', 'quarterly', 'semi_annually', 'annually').optional(),
+  start_date: Joi.date().iso().optional(),
+  end_date: Joi.date().iso().allow(null).optional(),
+  auto_post: Joi.boolean().optional(),
+  auto_reverse: Joi.boolean().optional(),
+  catch_up: Joi.boolean().optional(),
+  is_active: Joi.boolean().optional(),
+  lines: Joi.array().items(recurringJournalLineSchema).min(2).optional(),
+}).min(1);
+
+export const validateUpdateRecurringJournal = validate(updateRecurringJournalSchema);
+
+export const recurringJournalRunSchema = Joi.object({
+  as_of_date: Joi.date().iso().optional(),
+});
+
+export const validateRecurringJournalRun = validate(recurringJournalRunSchema);
+
+// Receivables validation schemas
+export const createDunningLevelSchema = Joi.object({
+  level: Joi.number().integer().min(1).max(10).required(),
+  name: Joi.string().min(1).max(100).required(),
+  days_overdue: Joi.number().integer().min(1).max(365).required(),
+  email_subject: Joi.string().min(1).max(255).required(),
+  email_body: Joi.string().min(1).max(10000).required(),
+  is_active: Joi.boolean().optional(),
+});
+
+export const validateCreateDunningLevel = validate(createDunningLevelSchema);
+
+export const updateDunningLevelSchema = Joi.object({
+  level: Joi.number().integer().min(1).max(10).optional(),
+  name: Joi.string().min(1).max(100).optional(),
+  days_overdue: Joi.number().integer().min(1).max(365).optional(),
+  email_subject: Joi.string().min(1).max(255).optional(),
+  email_body: Joi.string().min(1).max(10000).optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateDunningLevel = validate(updateDunningLevelSchema);
+
+export const dunningRunSchema = Joi.object({
+  as_of_date: Joi.date().iso().optional(),
+});
+
+export const validateDunningRun = validate(dunningRunSchema);
+
+// Consolidation validation schemas
+export const createConsolidationGroupSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  description: Joi.string().max(1000).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  member_company_ids: Joi.array().items(Joi.string().uuid()).min(1).unique().required(),
+});
+
+export const validateCreateConsolidationGroup = validate(createConsolidationGroupSchema);
+
+export const updateConsolidationGroupSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).allow('', null).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  is_active: Joi.boolean().optional(),
+  member_company_ids: Joi.array().items(Joi.string().uuid()).min(1).unique().optional(),
+}).min(1);
+
+export const validateUpdateConsolidationGroup = validate(updateConsolidationGroupSchema);
+
+// Employee validation schemas
+const employmentTypes = ['full_time', 'part_time', 'contract', 'intern'];
+
+const emergencyContactSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  relationship: Joi.string().min(1).max(100).required(),
+  phone: Joi.string().min(1).max(50).required(),
+  email: Joi.string().email().optional(),
+});
+
+const employeeFields = {
+  department: Joi.string().valid('finance', 'hr', 'engineering', 'manufacturing', 'control', 'sales', 'it', 'quality'),
+  position: Joi.string().min(1).max(255),
+  work_location: Joi.string().max(255).allow(null, '').optional(),
+  employment_type: Joi.string().valid(...employmentTypes),
+  hire_date: Joi.date().iso(),
+  date_of_birth: Joi.date().iso().max('now').allow(null).optional(),
+  id_number: Joi.string().pattern(/^\d{13}$/).allow(null).optional()
+    .messages({ 'string.pattern.base': 'ID number must be 13 digits' }),
+  tax_number: Joi.string().pattern(/^\d{10}$/).allow(null).optional()
+    .messages({ 'string.pattern.base': 'Tax number must be 10 digits' }),
+  manager_id: Joi.string().uuid().allow(null).optional(),
+  shift_id: Joi.string().uuid().allow(null).optional(),
+  holiday_calendar_id: Joi.string().uuid().allow(null).optional(),
+  emergency_contact: emergencyContactSchema.allow(null).optional(),
+};
+
+export const createEmployeeSchema = Joi.object({
+  ...employeeFields,
+  user_id: Joi.string().uuid().required(),
+  employee_number: Joi.string().max(30).optional(),
+  department: employeeFields.department.required(),
+  position: employeeFields.position.required(),
+  employment_type: employeeFields.employment_type.required(),
+  hire_date: employeeFields.hire_date.required(),
+  salary: Joi.number().precision(2).positive().required(),
+  currency: Joi.string().length(3).uppercase().optional(),
+});
+
+export const validateCreateEmployee = validate(createEmployeeSchema);
+
+export const updateEmployeeSchema = Joi.object({
+  ...employeeFields,
+  department: employeeFields.department.optional(),
+  position: employeeFields.position.optional(),
+  employment_type: employeeFields.employment_type.optional(),
+  hire_date: employeeFields.hire_date.optional(),
+}).min(1);
+
+export const validateUpdateEmployee = validate(updateEmployeeSchema);
+
+export const employeeStatusSchema = Joi.object({
+  status: Joi.string().valid('active', 'inactive', 'terminated', 'on_leave').required(),
+  effective_date: Joi.date().iso().optional(),
+  reason: Joi.string().max(1000).optional(),
+});
+
+export const validateEmployeeStatus = validate(employeeStatusSchema);
+
+export const salaryChangeSchema = Joi.object({
+  salary: Joi.number().precision(2).positive().required(),
+  effective_from: Joi.date().iso().required(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  reason: Joi.string().max(255).optional(),
+});
+
+export const validateSalaryChange = validate(salaryChangeSchema);
+
+// Attendance validation schemas
+const shiftTime = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).messages({
+  'string.pattern.base': 'Shift times must be in HH:MM format',
+});
+
+const shiftFields = {
+  name: Joi.string().min(1).max(100),
+  start_time: shiftTime,
+  end_time: shiftTime,
+  grace_minutes: Joi.number().integer().min(0).max(240).optional(),
+  break_minutes: Joi.number().integer().min(0).max(480).optional(),
+  min_full_day_hours: Joi.number().min(0).max(24).optional(),
+  is_default: Joi.boolean().optional(),
+};
+
+export const createShiftSchema = Joi.object({
+  ...shiftFields,
+  name: shiftFields.name.required(),
+  start_time: shiftFields.start_time.required(),
+  end_time: shiftFields.end_time.required(),
+});
+
+export const validateCreateShift = validate(createShiftSchema);
+
+export const updateShiftSchema = Joi.object({
+  ...shiftFields,
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateShift = validate(updateShiftSchema);
+
+export const clockSchema = Joi.object({
+  employee_id: Joi.string().uuid().optional(),
+  source: Joi.string().valid('kiosk', 'mobile', 'web').required(),
+  location: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+    accuracy: Joi.number().min(0).optional(),
+  }).optional(),
+  notes: Joi.string().max(1000).optional(),
+});
+
+export const validateClock = validate(clockSchema);
+
+const attendanceStatuses = ['present', 'absent', 'late', 'half_day', 'leave'];
+
+export const recordAttendanceSchema = Joi.object({
+  employee_id: Joi.string().uuid().required(),
+  date: Joi.date().iso().required(),
+  status: Joi.string().valid(...attendanceStatuses).required(),
+  check_in: Joi.date().iso().optional(),
+  check_out: Joi.date().iso().min(Joi.ref('check_in')).optional(),
+  notes: Joi.string().max(1000).optional(),
+}).with('check_out', 'check_in');
+
+export const validateRecordAttendance = validate(recordAttendanceSchema);
+
+export const attendanceCorrectionSchema = Joi.object({
+  check_in: Joi.date().iso().allow(null).optional(),
+  check_out: Joi.date().iso().allow(null).optional(),
+  status: Joi.string().valid(...attendanceStatuses).optional(),
+  notes: Joi.string().max(1000).allow(null, '').optional(),
+  reason: Joi.string().min(1).max(1000).required(),
+}).or('check_in', 'check_out', 'status', 'notes');
+
+export const validateAttendanceCorrection = validate(attendanceCorrectionSchema);
+
+// Leave validation schemas
+const leaveTypes = ['annual', 'sick', 'personal', 'maternity', 'paternity', 'unpaid'];
+
+export const createLeavePolicySchema = Joi.object({
+  leave_type: Joi.string().valid(...leaveTypes).required(),
+  employment_type: Joi.string().valid(...employmentTypes).allow(null).optional(),
+  annual_days: Joi.number().min(0).max(366).required(),
+  accrual_frequency: Joi.string().valid('monthly', 'annual').optional(),
+  carry_over_cap: Joi.number().min(0).allow(null).optional(),
+  prorate_new_hires: Joi.boolean().optional(),
+});
+
+export const validateCreateLeavePolicy = validate(createLeavePolicySchema);
+
+export const updateLeavePolicySchema = Joi.object({
+  annual_days: Joi.number().min(0).max(366).optional(),
+  accrual_frequency: Joi.string().valid('monthly', 'annual').optional(),
+  carry_over_cap: Joi.number().min(0).allow(null).optional(),
+  prorate_new_hires: Joi.boolean().optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateLeavePolicy = validate(updateLeavePolicySchema);
+
+export const leaveRequestSchema = Joi.object({
+  employee_id: Joi.string().uuid().optional(),
+  type: Joi.string().valid(...leaveTypes).required(),
+  start_date: Joi.date().iso().required(),
+  end_date: Joi.date().iso().min(Joi.ref('start_date')).required(),
+  reason: Joi.string().max(1000).optional(),
+});
+
+export const validateLeaveRequest = validate(leaveRequestSchema);
+
+export const leaveAdjustmentSchema = Joi.object({
+  leave_type: Joi.string().valid(...leaveTypes).required(),
+  year: Joi.number().integer().min(2000).max(2100).optional(),
+  days: Joi.number().invalid(0).required(),
+  reason: Joi.string().min(1).max(1000).required(),
+});
+
+export const validateLeaveAdjustment = validate(leaveAdjustmentSchema);
+
+// Workflow validation schemas
+export const approvalDecisionSchema = Joi.object({
+  approval_id: Joi.string().uuid().required(),
+  decision: Joi.string().valid('approved', 'rejected').required(),
+  comments: Joi.string().max(1000).optional(),
+});
+
+export const validateApprovalDecision = validate(approvalDecisionSchema);
+
+// Calendar validation schemas
+const calendarFields = {
+  name: Joi.string().min(1).max(100),
+  country_code: Joi.string().length(2).pattern(/^[A-Za-z]{2}$/),
+  region: Joi.string().max(10).allow(null).optional(),
+  weekend_days: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().max(6).optional(),
+  is_default: Joi.boolean().optional(),
+};
+
+export const createCalendarSchema = Joi.object({
+  ...calendarFields,
+  name: calendarFields.name.required(),
+  country_code: calendarFields.country_code.required(),
+});
+
+export const validateCreateCalendar = validate(createCalendarSchema);
+
+export const updateCalendarSchema = Joi.object({
+  ...calendarFields,
+  name: calendarFields.name.optional(),
+  country_code: calendarFields.country_code.optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdateCalendar = validate(updateCalendarSchema);
+
+export const calendarDaySchema = Joi.object({
+  date: Joi.date().iso().required(),
+  name: Joi.string().min(1).max(200).required(),
+});
+
+export const validateCalendarDay = validate(calendarDaySchema);
+
+// Payroll validation schemas
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const createTaxTableSchema = Joi.object({
+  tax_year: Joi.number().integer().min(2000).max(2100).required(),
+  effective_from: Joi.date().iso().optional(),
+  brackets: Joi.array().items(Joi.object({
+    min: Joi.number().min(0).required(),
+    rate: Joi.number().min(0).max(100).required(),
+  })).min(1).required(),
+  primary_rebate: Joi.number().min(0).required(),
+  secondary_rebate: Joi.number().min(0).required(),
+  tertiary_rebate: Joi.number().min(0).required(),
+  uif_rate: Joi.number().min(0).max(100).required(),
+  uif_monthly_ceiling: Joi.number().min(0).required(),
+  sdl_rate: Joi.number().min(0).max(100).required(),
+  sdl_threshold: Joi.number().min(0).required(),
+  retirement_cap_percent: Joi.number().min(0).max(100).required(),
+  retirement_cap_annual: Joi.number().min(0).required(),
+  notes: Joi.string().max(500).allow('', null).optional(),
+});
+
+export const validateCreateTaxTable = validate(createTaxTableSchema);
+
+const payrollItemFields = {
+  name: Joi.string().min(1).max(100),
+  taxable: Joi.boolean().optional(),
+  annual_payment: Joi.boolean().optional(),
+  retirement_fund: Joi.boolean().optional(),
+  account_id: Joi.string().uuid().allow(null).optional(),
+  sars_code: Joi.string().pattern(/^\d{4}$/).allow(null).optional()
+    .messages({ 'string.pattern.base': 'SARS code must be a 4-digit source code' }),
+};
+
+export const createPayrollItemSchema = Joi.object({
+  ...payrollItemFields,
+  code: Joi.string().pattern(/^[A-Za-z0-9_-]{1,20}$/).required(),
+  name: payrollItemFields.name.required(),
+  type: Joi.string().valid('earning', 'deduction').required(),
+});
+
+export const validateCreatePayrollItem = validate(createPayrollItemSchema);
+
+export const updatePayrollItemSchema = Joi.object({
+  ...payrollItemFields,
+  name: payrollItemFields.name.optional(),
+  is_active: Joi.boolean().optional(),
+}).min(1);
+
+export const validateUpdatePayrollItem = validate(updatePayrollItemSchema);
+
+export const employeePayrollItemSchema = Joi.object({
+  payroll_item_id: Joi.string().uuid().required(),
+  amount: Joi.number().positive().precision(2).required(),
+  effective_from: Joi.date().iso().required(),
+  effective_to: Joi.date().iso().allow(null).optional(),
+});
+
+export const validateEmployeePayrollItem = validate(employeePayrollItemSchema);
+
+export const updateEmployeePayrollItemSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).optional(),
+  effective_to: Joi.date().iso().allow(null).optional(),
+}).min(1);
+
+export const validateUpdateEmployeePayrollItem = validate(updateEmployeePayrollItemSchema);
+
+export const calculatePayrollSchema = Joi.object({
+  period: Joi.string().pattern(PERIOD_PATTERN).required()
+    .messages({ 'string.pattern.base': 'Period must be in YYYY-MM format' }),
+  payment_date: Joi.date().iso().optional(),
+  employee_ids: Joi.array().items(Joi.string().uuid()).min(1).unique().optional(),
+  inputs: Joi.array().items(Joi.object({
+    employee_id: Joi.string().uuid().required(),
+    payroll_item_id: Joi.string().uuid().required(),
+    amount: Joi.number().positive().precision(2).required(),
+  })).max(5000).optional(),
+});
+
+export const validateCalculatePayroll = validate(calculatePayrollSchema);
+
+export const reversePayrollSchema = Joi.object({
+  reason: Joi.string().min(1).max(500).required(),
+  employee_ids: Joi.array().items(Joi.string().uuid()).min(1).unique().optional(),
+});
+
+export const validateReversePayroll = validate(reversePayrollSchema);
+
+export const issuePayslipsSchema = Joi.object({
+  email: Joi.boolean().optional(),
+});
+
+export const validateIssuePayslips = validate(issuePayslipsSchema);
+
+// Employee document validation schemas
+const documentTypes = ['contract', 'id_proof', 'certificate', 'performance_review', 'other'];
+
+export const uploadEmployeeDocumentSchema = Joi.object({
+  type: Joi.string().valid(...documentTypes).required(),
+  name: Joi.string().min(1).max(255).required(),
+  description: Joi.string().max(2000).allow(null, '').optional(),
+  expiry_date: Joi.date().iso().allow(null, '').optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+});
+
+export const validateUploadEmployeeDocument = validate(uploadEmployeeDocumentSchema);
+
+export const employeeDocumentVersionSchema = Joi.object({
+  expiry_date: Joi.date().iso().allow(null, '').optional(),
+  notes: Joi.string().max(2000).allow(null, '').optional(),
+});
+
+export const validateEmployeeDocumentVersion = validate(employeeDocumentVersionSchema);
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import hrRoutes from '../hrRoutes';
+import { AuthorizationError } from '../../middleware/errorHandler';
+
+jest.mock('../../core/notification/notificationService', () => ({
+  notificationService: { createNotification: jest.fn() },
+}));
+
+describe('HR routes', () => {
+  // The route's access check runs before validation and the controller
+  const accessCheck = (path: string, method: string) => {
+    const layer = (hrRoutes as any).stack.find((entry: any) => entry.route?.path === path && entry.route.methods[method]);
+    return layer.route.stack[0].handle;
+  };
+
+  const request = (user: Partial<NonNullable<Request['user']>>): Request => ({
+    path: '/attendance/record-1',
+    method: 'PUT',
+    params: { id: 'record-1' },
+    body: {},
+    user: { id: 'user-1', email: 'user@acme.example', companyId: 'company-1', permissions: [], ...user },
+  } as unknown as Request);
+
+  describe('PUT /attendance/:id', () => {
+    const correct = accessCheck('/attendance/:id', 'put');
+
+    it('should let an HR user who is not a manager through to the record-level check', () => {
+      const next = jest.fn();
+      correct(request({ role: 'USER', department: 'HR', permissions: ['hr:read', 'hr:write'] }), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should let a manager outside HR through to the record-level check', () => {
+      const next = jest.fn();
+      correct(request({ role: 'MANAGER', department: 'ENGINEERING' }), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject an HR user without hr:write', () => {
+      expect(() => correct(request({ role: 'USER', department: 'HR', permissions: ['hr:read'] }), {} as Response, jest.fn()))
+        .toThrow(AuthorizationError);
+    });
+
+    it('should reject an employee who is neither a manager nor in HR', () => {
+      expect(() => correct(request({ role: 'USER', department: 'ENGINEERING', permissions: ['hr:write'] }), {} as Response, jest.fn()))
+        .toThrow(AuthorizationError);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requirePermission } from '../middleware/authMiddleware';
+import {
+  validateCreateCalendar,
+  validateUpdateCalendar,
+  validateCalendarDay,
+} from '../middleware/validation';
+import { memoryUpload } from '../middleware/upload';
+import { CalendarController } from '../controllers/calendarController';
+
+const router = Router();
+
+// Working-day calculator - shared by every module
+
+/**
+ * @route GET /api/v1/calendars/working-days/count
+ * @desc Count working days from start_date to end_date inclusive (optional calendar_id or employee_id)
+ * @access Private
+ */
+router.get('/working-days/count', 
+  asyncHandler(CalendarController.countWorkingDays)
+);
+
+/**
+ * @route GET /api/v1/calendars/working-days/add
+ * @desc Date a number of working days from date (today in the company timezone by default)
+ * @access Private
+ */
+router.get('/working-days/add', 
+  asyncHandler(CalendarController.addWorkingDays)
+);
+
+/**
+ * @route GET /api/v1/calendars/closures
+ * @desc Get company closure days (optional year)
+ * @access Private
+ */
+router.get('/closures', 
+  asyncHandler(CalendarController.getClosureDays)
+);
+
+/**
+ * @route POST /api/v1/calendars/closures
+ * @desc Add a company closure day
+ * @access Private - HR
+ */
+router.post('/closures', 
+  requirePermission('hr:write'), 
+  validateCalendarDay,
+  asyncHandler(CalendarController.addClosureDay)
+);
+
+/**
+ * @route DELETE /api/v1/calendars/closures/:id
+ * @desc Remove a company closure day
+ * @access Private - HR
+ */
+router.delete('/closures/:id', 
+  requirePermission('hr:write'), 
+  asyncHandler(CalendarController.deleteClosureDay)
+);
+
+/**
+ * @route GET /api/v1/calendars
+ * @desc Get holiday calendars
+ * @access Private
+ */
+router.get('/', 
+  asyncHandler(CalendarController.getCalendars)
+);
+
+/**
+ * @route POST /api/v1/calendars
+ * @desc Create a holiday calendar for a country or region
+ * @access Private - HR
+ */
+router.post('/', 
+  requirePermission('hr:write'), 
+  validateCreateCalendar,
+  asyncHandler(CalendarController.createCalendar)
+);
+
+/**
+ * @route GET /api/v1/calendars/:id
+ * @desc Get a holiday calendar with its holidays (optional year)
+ * @access Private
+ */
+router.get('/:id', 
+  asyncHandler(CalendarController.getCalendarById)
+);
+
+/**
+ * @route PUT /api/v1/calendars/:id
+ * @desc Update a holiday calendar
+ * @access Private - HR
+ */
+router.put('/:id', 
+  requirePermission('hr:write'), 
+  validateUpdateCalendar,
+  asyncHandler(CalendarController.updateCalendar)
+);
+
+/**
+ * @route POST /api/v1/calendars/:id/holidays
+ * @desc Add a public holiday
+ * @access Private - HR
+ */
+router.post('/:id/holidays', 
+  requirePermission('hr:write'), 
+  validateCalendarDay,
+  asyncHandler(CalendarController.addHoliday)
+);
+
+/**
+ * @route DELETE /api/v1/calendars/:id/holidays/:holidayId
+ * @desc Remove a public holiday
+ * @access Private - HR
+ */
+router.delete('/:id/holidays/:holidayId', 
+  requirePermission('hr:write'), 
+  asyncHandler(CalendarController.deleteHoliday)
+);
+
+/**
+ * @route POST /api/v1/calendars/:id/import
+ * @desc Import public holidays from an ICS file (multipart "file", optional until_year for yearly events)
+ * @access Private - HR
+ */
+router.post('/:id/import', 
+  requirePermission('hr:write'), 
+  memoryUpload.single('file'),
+  asyncHandler(CalendarController.importIcs)
+);
+
+export default router;
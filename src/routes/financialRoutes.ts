@@ -1,6 +1,80 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { requirePermission, requireDepartment } from '../middleware/authMiddleware';
+import { requirePermission, requireDepartment, requireRole } from '../middleware/authMiddleware';
+import {
+  validateUUID,
+  validateJournalEntry,
+  validateJournalReversal,
+  validateCreateAccount,
+  validateUpdateAccount,
+  validateNumberingRules,
+  validateFiscalYear,
+  validateFiscalYearClose,
+  validatePeriodReopen,
+  validateExchangeRateFetch,
+  validateFinancialSettings,
+  validateFxRevaluation,
+  validateFxSettlement,
+  validateCreateCustomer,
+  validateUpdateCustomer,
+  validateCreateInvoice,
+  validateUpdateInvoice,
+  validateInvoicePayment,
+  validateCreditNote,
+  validateInvoiceCancel,
+  validateInvoiceEmail,
+  validateInvoiceTemplate,
+  validateCreateSupplier,
+  validateUpdateSupplier,
+  validateCreatePurchaseOrder,
+  validateUpdatePurchaseOrder,
+  validateGoodsReceipt,
+  validateCreateBill,
+  validateUpdateBill,
+  validateBillOverride,
+  validateBillCancel,
+  validateCreatePaymentRun,
+  validateBankLineMatch,
+  validateCreateTaxCode,
+  validateUpdateTaxCode,
+  validateTaxRate,
+  validateCreateCostCentre,
+  validateUpdateCostCentre,
+  validateCreateBudget,
+  validateBudgetLines,
+  validateCreateFixedAsset,
+  validateUpdateFixedAsset,
+  validateDisposeFixedAsset,
+  validateDepreciationRun,
+  validateCreateRecurringJournal,
+  validateUpdateRecurringJournal,
+  validateRecurringJournalRun,
+  validateCreateDunningLevel,
+  validateUpdateDunningLevel,
+  validateDunningRun,
+  validateCreateConsolidationGroup,
+  validateUpdateConsolidationGroup,
+} from '../middleware/validation';
+import { memoryUpload } from '../middleware/upload';
+import { LedgerController } from '../controllers/ledgerController';
+import { AccountController } from '../controllers/accountController';
+import { FiscalPeriodController } from '../controllers/fiscalPeriodController';
+import { ReportController } from '../controllers/reportController';
+import { ExchangeRateController } from '../controllers/exchangeRateController';
+import { FxController } from '../controllers/fxController';
+import { CustomerController } from '../controllers/customerController';
+import { InvoiceController } from '../controllers/invoiceController';
+import { SupplierController } from '../controllers/supplierController';
+import { PurchaseOrderController } from '../controllers/purchaseOrderController';
+import { SupplierBillController } from '../controllers/supplierBillController';
+import { PaymentRunController } from '../controllers/paymentRunController';
+import { BankReconciliationController } from '../controllers/bankReconciliationController';
+import { TaxController } from '../controllers/taxController';
+import { BudgetController } from '../controllers/budgetController';
+import { FixedAssetController } from '../controllers/fixedAssetController';
+import { RecurringJournalController } from '../controllers/recurringJournalController';
+import { ReceivablesController } from '../controllers/receivablesController';
+import { ConsolidationController } from '../controllers/consolidationController';
 
 const router = Router();
 
@@ -9,38 +83,1506 @@ router.use(requirePermission('financial:read'));
 
 /**
  * @route GET /api/v1/financial/accounts
- * @desc Get chart of accounts
+ * @desc Get chart of accounts as a tree with rolled-up balances (view=flat for a filtered list)
  * @access Private - FINANCE
  */
 router.get('/accounts', 
   requireDepartment('FINANCE'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Chart of accounts endpoint' });
-  })
+  asyncHandler(AccountController.getAccounts)
+);
+
+/**
+ * @route GET /api/v1/financial/accounts/export
+ * @desc Export chart of accounts as CSV
+ * @access Private - FINANCE
+ */
+router.get('/accounts/export', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(AccountController.exportAccounts)
+);
+
+/**
+ * @route POST /api/v1/financial/accounts/import
+ * @desc Import chart of accounts from CSV (admins may target a new company with company_id)
+ * @access Private - FINANCE
+ */
+router.post('/accounts/import', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  memoryUpload.single('file'),
+  asyncHandler(AccountController.importAccounts)
+);
+
+/**
+ * @route GET /api/v1/financial/accounts/numbering-rules
+ * @desc Get account numbering rules per account type
+ * @access Private - FINANCE
+ */
+router.get('/accounts/numbering-rules', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(AccountController.getNumberingRules)
+);
+
+/**
+ * @route PUT /api/v1/financial/accounts/numbering-rules
+ * @desc Update account numbering rules
+ * @access Private - FINANCE
+ */
+router.put('/accounts/numbering-rules', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateNumberingRules,
+  asyncHandler(AccountController.updateNumberingRules)
+);
+
+/**
+ * @route GET /api/v1/financial/accounts/:id
+ * @desc Get account with rolled-up balance and child accounts
+ * @access Private - FINANCE
+ */
+router.get('/accounts/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(AccountController.getAccountById)
+);
+
+/**
+ * @route POST /api/v1/financial/accounts
+ * @desc Create account
+ * @access Private - FINANCE
+ */
+router.post('/accounts', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateAccount,
+  asyncHandler(AccountController.createAccount)
+);
+
+/**
+ * @route PUT /api/v1/financial/accounts/:id
+ * @desc Update account
+ * @access Private - FINANCE
+ */
+router.put('/accounts/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateAccount,
+  asyncHandler(AccountController.updateAccount)
+);
+
+/**
+ * @route DELETE /api/v1/financial/accounts/:id
+ * @desc Delete account without postings or children
+ * @access Private - FINANCE
+ */
+router.delete('/accounts/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(AccountController.deleteAccount)
 );
 
 /**
  * @route GET /api/v1/financial/transactions
- * @desc Get financial transactions
+ * @desc List journal entries (filters: status, start_date, end_date, account_id, source_type, search)
+ * @access Private - FINANCE
+ */
+router.get('/transactions', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(LedgerController.getTransactions)
+);
+
+/**
+ * @route GET /api/v1/financial/transactions/:id
+ * @desc Get journal entry with its lines
+ * @access Private - FINANCE
+ */
+router.get('/transactions/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(LedgerController.getTransactionById)
+);
+
+/**
+ * @route POST /api/v1/financial/transactions
+ * @desc Create draft journal entry (lines must balance)
+ * @access Private - FINANCE
+ */
+router.post('/transactions', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateJournalEntry,
+  asyncHandler(LedgerController.createTransaction)
+);
+
+/**
+ * @route POST /api/v1/financial/transactions/:id/post
+ * @desc Post draft journal entry and update account balances
+ * @access Private - FINANCE
+ */
+router.post('/transactions/:id/post', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(LedgerController.postTransaction)
+);
+
+/**
+ * @route POST /api/v1/financial/transactions/:id/reverse
+ * @desc Reverse posted journal entry with an opposite entry
+ * @access Private - FINANCE
+ */
+router.post('/transactions/:id/reverse', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateJournalReversal,
+  asyncHandler(LedgerController.reverseTransaction)
+);
+
+/**
+ * @route GET /api/v1/financial/fiscal-years
+ * @desc List fiscal years with their periods
+ * @access Private - FINANCE
+ */
+router.get('/fiscal-years', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(FiscalPeriodController.getFiscalYears)
+);
+
+/**
+ * @route GET /api/v1/financial/fiscal-years/:id
+ * @desc Get fiscal year with its periods
+ * @access Private - FINANCE
+ */
+router.get('/fiscal-years/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(FiscalPeriodController.getFiscalYearById)
+);
+
+/**
+ * @route POST /api/v1/financial/fiscal-years
+ * @desc Create fiscal year and generate monthly (or custom) periods
+ * @access Private - FINANCE
+ */
+router.post('/fiscal-years', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateFiscalYear,
+  asyncHandler(FiscalPeriodController.createFiscalYear)
+);
+
+/**
+ * @route POST /api/v1/financial/fiscal-years/:id/close
+ * @desc Close fiscal year, posting net income to retained earnings
+ * @access Private - FINANCE
+ */
+router.post('/fiscal-years/:id/close', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateFiscalYearClose,
+  asyncHandler(FiscalPeriodController.closeFiscalYear)
+);
+
+/**
+ * @route POST /api/v1/financial/fiscal-years/:id/reopen
+ * @desc Reopen closed fiscal year and reverse its closing entry
+ * @access Private - FINANCE
+ */
+router.post('/fiscal-years/:id/reopen', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validatePeriodReopen,
+  asyncHandler(FiscalPeriodController.reopenFiscalYear)
+);
+
+/**
+ * @route POST /api/v1/financial/fiscal-periods/:id/start-close
+ * @desc Move open period into closing review
+ * @access Private - FINANCE
+ */
+router.post('/fiscal-periods/:id/start-close', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(FiscalPeriodController.startPeriodClose)
+);
+
+/**
+ * @route POST /api/v1/financial/fiscal-periods/:id/close
+ * @desc Close period; postings dated in it are rejected afterwards
+ * @access Private - FINANCE
+ */
+router.post('/fiscal-periods/:id/close', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(FiscalPeriodController.closePeriod)
+);
+
+/**
+ * @route POST /api/v1/financial/fiscal-periods/:id/reopen
+ * @desc Reopen closed period (audited)
+ * @access Private - FINANCE
+ */
+router.post('/fiscal-periods/:id/reopen', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validatePeriodReopen,
+  asyncHandler(FiscalPeriodController.reopenPeriod)
+);
+
+/**
+ * @route GET /api/v1/financial/reports/trial-balance
+ * @desc Trial balance as at end_date (compare=prior_period,prior_year; group_id to consolidate; format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/reports/trial-balance', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(ReportController.getTrialBalance)
+);
+
+/**
+ * @route GET /api/v1/financial/reports/income-statement
+ * @desc Income statement for start_date..end_date (compare=prior_period,prior_year; group_id to consolidate; format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/reports/income-statement', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(ReportController.getIncomeStatement)
+);
+
+/**
+ * @route GET /api/v1/financial/reports/balance-sheet
+ * @desc Balance sheet as at end_date (compare=prior_period,prior_year; group_id to consolidate; format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/reports/balance-sheet', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(ReportController.getBalanceSheet)
+);
+
+/**
+ * @route GET /api/v1/financial/settings
+ * @desc Get financial settings (default posting accounts, FX options)
+ * @access Private - FINANCE
+ */
+router.get('/settings', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(FxController.getSettings)
+);
+
+/**
+ * @route PUT /api/v1/financial/settings
+ * @desc Update financial settings
+ * @access Private - FINANCE
+ */
+router.put('/settings', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateFinancialSettings,
+  asyncHandler(FxController.updateSettings)
+);
+
+/**
+ * @route GET /api/v1/financial/fx/balances
+ * @desc Open foreign-currency balances revalued at date
+ * @access Private - FINANCE
+ */
+router.get('/fx/balances', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(FxController.getForeignBalances)
+);
+
+/**
+ * @route POST /api/v1/financial/fx/revaluations
+ * @desc Post unrealised FX gains/losses (reversed the next day)
+ * @access Private - FINANCE
+ */
+router.post('/fx/revaluations', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateFxRevaluation,
+  asyncHandler(FxController.revalue)
+);
+
+/**
+ * @route POST /api/v1/financial/fx/settlements
+ * @desc Settle a foreign receivable/payable and book the realised gain/loss
+ * @access Private - FINANCE
+ */
+router.post('/fx/settlements', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateFxSettlement,
+  asyncHandler(FxController.settle)
+);
+
+/**
+ * @route GET /api/v1/financial/customers
+ * @desc Get customers (search, is_active, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/customers', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(CustomerController.getCustomers)
+);
+
+/**
+ * @route GET /api/v1/financial/customers/:id
+ * @desc Get customer
+ * @access Private - FINANCE
+ */
+router.get('/customers/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(CustomerController.getCustomerById)
+);
+
+/**
+ * @route POST /api/v1/financial/customers
+ * @desc Create customer (code is generated when omitted)
+ * @access Private - FINANCE
+ */
+router.post('/customers', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateCustomer,
+  asyncHandler(CustomerController.createCustomer)
+);
+
+/**
+ * @route PUT /api/v1/financial/customers/:id
+ * @desc Update customer
+ * @access Private - FINANCE
+ */
+router.put('/customers/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateCustomer,
+  asyncHandler(CustomerController.updateCustomer)
+);
+
+/**
+ * @route DELETE /api/v1/financial/customers/:id
+ * @desc Delete customer without invoices
+ * @access Private - FINANCE
+ */
+router.delete('/customers/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(CustomerController.deleteCustomer)
+);
+
+/**
+ * @route GET /api/v1/financial/customers/:id/statement
+ * @desc Customer statement for start_date..end_date, month to date by default (currency, format=json|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/customers/:id/statement', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(ReceivablesController.getCustomerStatement)
+);
+
+/**
+ * @route GET /api/v1/financial/invoices
+ * @desc Get invoices (status, customer_id, start_date, end_date, search, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/invoices', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(InvoiceController.getInvoices)
+);
+
+/**
+ * @route GET /api/v1/financial/invoices/template
+ * @desc Get the company's invoice PDF and email template
+ * @access Private - FINANCE
+ */
+router.get('/invoices/template', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(InvoiceController.getTemplate)
+);
+
+/**
+ * @route PUT /api/v1/financial/invoices/template
+ * @desc Update the company's invoice template ({{placeholders}} supported)
+ * @access Private - FINANCE
+ */
+router.put('/invoices/template', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateInvoiceTemplate,
+  asyncHandler(InvoiceController.updateTemplate)
+);
+
+/**
+ * @route GET /api/v1/financial/invoices/:id
+ * @desc Get invoice with lines, payments and credit notes
+ * @access Private - FINANCE
+ */
+router.get('/invoices/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(InvoiceController.getInvoiceById)
+);
+
+/**
+ * @route POST /api/v1/financial/invoices
+ * @desc Create draft invoice
+ * @access Private - FINANCE
+ */
+router.post('/invoices', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateInvoice,
+  asyncHandler(InvoiceController.createInvoice)
+);
+
+/**
+ * @route PUT /api/v1/financial/invoices/:id
+ * @desc Update draft invoice
+ * @access Private - FINANCE
+ */
+router.put('/invoices/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateInvoice,
+  asyncHandler(InvoiceController.updateInvoice)
+);
+
+/**
+ * @route DELETE /api/v1/financial/invoices/:id
+ * @desc Delete draft invoice
+ * @access Private - FINANCE
+ */
+router.delete('/invoices/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(InvoiceController.deleteInvoice)
+);
+
+/**
+ * @route POST /api/v1/financial/invoices/:id/send
+ * @desc Issue draft invoice and post it to the ledger
+ * @access Private - FINANCE
+ */
+router.post('/invoices/:id/send', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(InvoiceController.sendInvoice)
+);
+
+/**
+ * @route GET /api/v1/financial/invoices/:id/pdf
+ * @desc Download invoice PDF with company letterhead
+ * @access Private - FINANCE
+ */
+router.get('/invoices/:id/pdf', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(InvoiceController.getInvoicePdf)
+);
+
+/**
+ * @route POST /api/v1/financial/invoices/:id/email
+ * @desc Email invoice PDF to the customer (recorded in the invoice history)
+ * @access Private - FINANCE
+ */
+router.post('/invoices/:id/email', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateInvoiceEmail,
+  asyncHandler(InvoiceController.emailInvoice)
+);
+
+/**
+ * @route POST /api/v1/financial/invoices/:id/payments
+ * @desc Record a (partial) payment against an invoice
+ * @access Private - FINANCE
+ */
+router.post('/invoices/:id/payments', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateInvoicePayment,
+  asyncHandler(InvoiceController.recordPayment)
+);
+
+/**
+ * @route POST /api/v1/financial/invoices/:id/credit-notes
+ * @desc Issue a credit note against an invoice
+ * @access Private - FINANCE
+ */
+router.post('/invoices/:id/credit-notes', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateCreditNote,
+  asyncHandler(InvoiceController.createCreditNote)
+);
+
+/**
+ * @route POST /api/v1/financial/invoices/:id/cancel
+ * @desc Cancel invoice (sent invoices are reversed in the ledger)
+ * @access Private - FINANCE
+ */
+router.post('/invoices/:id/cancel', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateInvoiceCancel,
+  asyncHandler(InvoiceController.cancelInvoice)
+);
+
+/**
+ * @route GET /api/v1/financial/suppliers
+ * @desc Get suppliers (search, is_active, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/suppliers', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(SupplierController.getSuppliers)
+);
+
+/**
+ * @route GET /api/v1/financial/suppliers/:id
+ * @desc Get supplier
+ * @access Private - FINANCE
+ */
+router.get('/suppliers/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(SupplierController.getSupplierById)
+);
+
+/**
+ * @route POST /api/v1/financial/suppliers
+ * @desc Create supplier (code is generated when omitted)
+ * @access Private - FINANCE
+ */
+router.post('/suppliers', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateSupplier,
+  asyncHandler(SupplierController.createSupplier)
+);
+
+/**
+ * @route PUT /api/v1/financial/suppliers/:id
+ * @desc Update supplier
+ * @access Private - FINANCE
+ */
+router.put('/suppliers/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateSupplier,
+  asyncHandler(SupplierController.updateSupplier)
+);
+
+/**
+ * @route DELETE /api/v1/financial/suppliers/:id
+ * @desc Delete supplier without orders or bills
+ * @access Private - FINANCE
+ */
+router.delete('/suppliers/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(SupplierController.deleteSupplier)
+);
+
+/**
+ * @route GET /api/v1/financial/purchase-orders
+ * @desc Get purchase orders (status, supplier_id, search, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/purchase-orders', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(PurchaseOrderController.getPurchaseOrders)
+);
+
+/**
+ * @route GET /api/v1/financial/purchase-orders/:id
+ * @desc Get purchase order with lines and goods receipts
+ * @access Private - FINANCE
+ */
+router.get('/purchase-orders/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(PurchaseOrderController.getPurchaseOrderById)
+);
+
+/**
+ * @route POST /api/v1/financial/purchase-orders
+ * @desc Create draft purchase order
+ * @access Private - FINANCE
+ */
+router.post('/purchase-orders', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreatePurchaseOrder,
+  asyncHandler(PurchaseOrderController.createPurchaseOrder)
+);
+
+/**
+ * @route PUT /api/v1/financial/purchase-orders/:id
+ * @desc Update draft purchase order
+ * @access Private - FINANCE
+ */
+router.put('/purchase-orders/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdatePurchaseOrder,
+  asyncHandler(PurchaseOrderController.updatePurchaseOrder)
+);
+
+/**
+ * @route POST /api/v1/financial/purchase-orders/:id/issue
+ * @desc Issue draft purchase order to the supplier
+ * @access Private - FINANCE
+ */
+router.post('/purchase-orders/:id/issue', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(PurchaseOrderController.issuePurchaseOrder)
+);
+
+/**
+ * @route POST /api/v1/financial/purchase-orders/:id/receipts
+ * @desc Record goods received against a purchase order
+ * @access Private - FINANCE
+ */
+router.post('/purchase-orders/:id/receipts', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateGoodsReceipt,
+  asyncHandler(PurchaseOrderController.receiveGoods)
+);
+
+/**
+ * @route POST /api/v1/financial/purchase-orders/:id/close
+ * @desc Close purchase order (cancelled when nothing was received)
+ * @access Private - FINANCE
+ */
+router.post('/purchase-orders/:id/close', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(PurchaseOrderController.closePurchaseOrder)
+);
+
+/**
+ * @route GET /api/v1/financial/bills
+ * @desc Get supplier bills (status, supplier_id, due_on_or_before, search, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/bills', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(SupplierBillController.getBills)
+);
+
+/**
+ * @route GET /api/v1/financial/bills/:id
+ * @desc Get supplier bill with lines, match result and payments
+ * @access Private - FINANCE
+ */
+router.get('/bills/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(SupplierBillController.getBillById)
+);
+
+/**
+ * @route POST /api/v1/financial/bills
+ * @desc Capture draft supplier bill, optionally against a purchase order
+ * @access Private - FINANCE
+ */
+router.post('/bills', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateBill,
+  asyncHandler(SupplierBillController.createBill)
+);
+
+/**
+ * @route PUT /api/v1/financial/bills/:id
+ * @desc Update draft or on-hold supplier bill
+ * @access Private - FINANCE
+ */
+router.put('/bills/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateBill,
+  asyncHandler(SupplierBillController.updateBill)
+);
+
+/**
+ * @route DELETE /api/v1/financial/bills/:id
+ * @desc Delete draft supplier bill
+ * @access Private - FINANCE
+ */
+router.delete('/bills/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(SupplierBillController.deleteBill)
+);
+
+/**
+ * @route POST /api/v1/financial/bills/:id/approve
+ * @desc Three-way match and post the bill; mismatches go on hold for approval
+ * @access Private - FINANCE
+ */
+router.post('/bills/:id/approve', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(SupplierBillController.approveBill)
+);
+
+/**
+ * @route POST /api/v1/financial/bills/:id/override
+ * @desc Approve an on-hold bill despite match differences (reason required)
+ * @access Private - FINANCE (Manager)
+ */
+router.post('/bills/:id/override', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  requireRole(['MANAGER', 'ADMIN', 'SUPER_ADMIN']),
+  validateUUID('id'),
+  validateBillOverride,
+  asyncHandler(SupplierBillController.overrideMatch)
+);
+
+/**
+ * @route POST /api/v1/financial/bills/:id/cancel
+ * @desc Cancel supplier bill (approved bills are reversed in the ledger)
+ * @access Private - FINANCE
+ */
+router.post('/bills/:id/cancel', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateBillCancel,
+  asyncHandler(SupplierBillController.cancelBill)
+);
+
+/**
+ * @route GET /api/v1/financial/payment-runs
+ * @desc Get payment runs (status, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/payment-runs', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(PaymentRunController.getPaymentRuns)
+);
+
+/**
+ * @route GET /api/v1/financial/payment-runs/:id
+ * @desc Get payment run with its bills
+ * @access Private - FINANCE
+ */
+router.get('/payment-runs/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(PaymentRunController.getPaymentRunById)
+);
+
+/**
+ * @route POST /api/v1/financial/payment-runs
+ * @desc Propose a draft payment run of approved bills due by a date
+ * @access Private - FINANCE
+ */
+router.post('/payment-runs', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreatePaymentRun,
+  asyncHandler(PaymentRunController.createPaymentRun)
+);
+
+/**
+ * @route DELETE /api/v1/financial/payment-runs/:id/bills/:billId
+ * @desc Remove a bill from a draft payment run
+ * @access Private - FINANCE
+ */
+router.delete('/payment-runs/:id/bills/:billId', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUUID('billId'),
+  asyncHandler(PaymentRunController.excludeBill)
+);
+
+/**
+ * @route POST /api/v1/financial/payment-runs/:id/post
+ * @desc Post payment run (one payment journal per bill, realised FX on foreign bills)
+ * @access Private - FINANCE
+ */
+router.post('/payment-runs/:id/post', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(PaymentRunController.postPaymentRun)
+);
+
+/**
+ * @route POST /api/v1/financial/payment-runs/:id/cancel
+ * @desc Cancel draft payment run
+ * @access Private - FINANCE
+ */
+router.post('/payment-runs/:id/cancel', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(PaymentRunController.cancelPaymentRun)
+);
+
+/**
+ * @route POST /api/v1/financial/bank-statements/import
+ * @desc Import a CSV, OFX or CAMT.053 statement (multipart "file", bank_account_id, optional format) and auto-match it
+ * @access Private - FINANCE
+ */
+router.post('/bank-statements/import', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  memoryUpload.single('file'),
+  asyncHandler(BankReconciliationController.importStatement)
+);
+
+/**
+ * @route GET /api/v1/financial/bank-statements
+ * @desc Get imported bank statements (bank_account_id, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/bank-statements', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(BankReconciliationController.getStatements)
+);
+
+/**
+ * @route GET /api/v1/financial/bank-statements/lines/:lineId/candidates
+ * @desc Get ledger lines a statement line could be matched to (date_window_days)
+ * @access Private - FINANCE
+ */
+router.get('/bank-statements/lines/:lineId/candidates', 
+  requireDepartment('FINANCE'), 
+  validateUUID('lineId'),
+  asyncHandler(BankReconciliationController.getMatchCandidates)
+);
+
+/**
+ * @route POST /api/v1/financial/bank-statements/lines/:lineId/match
+ * @desc Match a statement line to ledger lines, splitting it and posting adjustments as needed
+ * @access Private - FINANCE
+ */
+router.post('/bank-statements/lines/:lineId/match', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('lineId'),
+  validateBankLineMatch,
+  asyncHandler(BankReconciliationController.matchLine)
+);
+
+/**
+ * @route POST /api/v1/financial/bank-statements/lines/:lineId/unmatch
+ * @desc Remove a statement line's matches (adjustment postings are reversed)
+ * @access Private - FINANCE
+ */
+router.post('/bank-statements/lines/:lineId/unmatch', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('lineId'),
+  asyncHandler(BankReconciliationController.unmatchLine)
+);
+
+/**
+ * @route GET /api/v1/financial/bank-statements/:id
+ * @desc Get bank statement with lines and matches
+ * @access Private - FINANCE
+ */
+router.get('/bank-statements/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(BankReconciliationController.getStatementById)
+);
+
+/**
+ * @route DELETE /api/v1/financial/bank-statements/:id
+ * @desc Delete a bank statement without matched lines
+ * @access Private - FINANCE
+ */
+router.delete('/bank-statements/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(BankReconciliationController.deleteStatement)
+);
+
+/**
+ * @route POST /api/v1/financial/bank-reconciliation/:accountId/auto-match
+ * @desc Re-run automatic matching of unmatched statement lines (date_window_days)
+ * @access Private - FINANCE
+ */
+router.post('/bank-reconciliation/:accountId/auto-match', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('accountId'),
+  asyncHandler(BankReconciliationController.autoMatch)
+);
+
+/**
+ * @route GET /api/v1/financial/bank-reconciliation/:accountId
+ * @desc Bank reconciliation statement with unreconciled items (as_of, format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/bank-reconciliation/:accountId', 
+  requireDepartment('FINANCE'), 
+  validateUUID('accountId'),
+  asyncHandler(BankReconciliationController.getReconciliation)
+);
+
+/**
+ * @route GET /api/v1/financial/tax-codes
+ * @desc List tax codes with rate history (type=sales|purchases, is_active)
  * @access Private - FINANCE
  */
-router.get('/transactions', 
+router.get('/tax-codes', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(TaxController.getTaxCodes)
+);
+
+/**
+ * @route POST /api/v1/financial/tax-codes
+ * @desc Create tax code (exempt, zero rated or reverse charge; VAT201 field; first rate)
+ * @access Private - FINANCE
+ */
+router.post('/tax-codes', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateTaxCode,
+  asyncHandler(TaxController.createTaxCode)
+);
+
+/**
+ * @route POST /api/v1/financial/tax-codes/defaults
+ * @desc Create the South African default tax codes that do not exist yet
+ * @access Private - FINANCE
+ */
+router.post('/tax-codes/defaults', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  asyncHandler(TaxController.createDefaultTaxCodes)
+);
+
+/**
+ * @route GET /api/v1/financial/tax-codes/:id
+ * @desc Get tax code with rate history
+ * @access Private - FINANCE
+ */
+router.get('/tax-codes/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(TaxController.getTaxCodeById)
+);
+
+/**
+ * @route PUT /api/v1/financial/tax-codes/:id
+ * @desc Update tax code name, VAT201 field or active flag
+ * @access Private - FINANCE
+ */
+router.put('/tax-codes/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateTaxCode,
+  asyncHandler(TaxController.updateTaxCode)
+);
+
+/**
+ * @route POST /api/v1/financial/tax-codes/:id/rates
+ * @desc Add a rate effective from a date
+ * @access Private - FINANCE
+ */
+router.post('/tax-codes/:id/rates', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateTaxRate,
+  asyncHandler(TaxController.addRate)
+);
+
+/**
+ * @route GET /api/v1/financial/reports/vat201
+ * @desc VAT201 return for start_date..end_date from posted documents (format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/reports/vat201', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(TaxController.getVat201)
+);
+
+/**
+ * @route GET /api/v1/financial/cost-centres
+ * @desc List cost centres (is_active)
+ * @access Private - FINANCE
+ */
+router.get('/cost-centres', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(BudgetController.getCostCentres)
+);
+
+/**
+ * @route POST /api/v1/financial/cost-centres
+ * @desc Create cost centre, optionally owned by a department
+ * @access Private - FINANCE
+ */
+router.post('/cost-centres', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateCostCentre,
+  asyncHandler(BudgetController.createCostCentre)
+);
+
+/**
+ * @route PUT /api/v1/financial/cost-centres/:id
+ * @desc Update cost centre name, department or active flag
+ * @access Private - FINANCE
+ */
+router.put('/cost-centres/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateCostCentre,
+  asyncHandler(BudgetController.updateCostCentre)
+);
+
+/**
+ * @route GET /api/v1/financial/budgets
+ * @desc List budget versions with totals (fiscal_year_id, status)
+ * @access Private - FINANCE
+ */
+router.get('/budgets', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(BudgetController.getBudgets)
+);
+
+/**
+ * @route POST /api/v1/financial/budgets
+ * @desc Create a draft budget version for a fiscal year (optionally copying another version)
+ * @access Private - FINANCE
+ */
+router.post('/budgets', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateBudget,
+  asyncHandler(BudgetController.createBudget)
+);
+
+/**
+ * @route GET /api/v1/financial/budgets/:id
+ * @desc Get budget with monthly lines
+ * @access Private - FINANCE
+ */
+router.get('/budgets/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(BudgetController.getBudgetById)
+);
+
+/**
+ * @route DELETE /api/v1/financial/budgets/:id
+ * @desc Delete draft budget
+ * @access Private - FINANCE
+ */
+router.delete('/budgets/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(BudgetController.deleteBudget)
+);
+
+/**
+ * @route PUT /api/v1/financial/budgets/:id/lines
+ * @desc Set monthly amounts per account and cost centre on a draft budget (replace for all lines)
+ * @access Private - FINANCE
+ */
+router.put('/budgets/:id/lines', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateBudgetLines,
+  asyncHandler(BudgetController.setBudgetLines)
+);
+
+/**
+ * @route POST /api/v1/financial/budgets/:id/import
+ * @desc Import budget lines from CSV (multipart "file", month per row or per column, replace)
+ * @access Private - FINANCE
+ */
+router.post('/budgets/:id/import', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  memoryUpload.single('file'),
+  asyncHandler(BudgetController.importBudget)
+);
+
+/**
+ * @route POST /api/v1/financial/budgets/:id/approve
+ * @desc Approve draft budget; supersedes the fiscal year's approved version
+ * @access Private - FINANCE
+ */
+router.post('/budgets/:id/approve', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(BudgetController.approveBudget)
+);
+
+/**
+ * @route GET /api/v1/financial/budgets/:id/variance
+ * @desc Budget vs actual per account and cost centre (start_date, end_date, cost_centre_id, format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/budgets/:id/variance', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(BudgetController.getVarianceReport)
+);
+
+/**
+ * @route GET /api/v1/financial/fixed-assets
+ * @desc Asset register (status, category, location, custodian_id, control_system_id, search, page, limit)
+ * @access Private - FINANCE
+ */
+router.get('/fixed-assets', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(FixedAssetController.getAssets)
+);
+
+/**
+ * @route POST /api/v1/financial/fixed-assets
+ * @desc Add asset (straight-line or reducing balance; optional acquisition posting and opening depreciation)
+ * @access Private - FINANCE
+ */
+router.post('/fixed-assets', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateFixedAsset,
+  asyncHandler(FixedAssetController.createAsset)
+);
+
+/**
+ * @route POST /api/v1/financial/fixed-assets/depreciation-runs
+ * @desc Post depreciation for all active assets through period_month (YYYY-MM)
+ * @access Private - FINANCE
+ */
+router.post('/fixed-assets/depreciation-runs', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateDepreciationRun,
+  asyncHandler(FixedAssetController.runDepreciation)
+);
+
+/**
+ * @route GET /api/v1/financial/fixed-assets/:id
+ * @desc Get asset with depreciation history and remaining schedule
+ * @access Private - FINANCE
+ */
+router.get('/fixed-assets/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(FixedAssetController.getAssetById)
+);
+
+/**
+ * @route PUT /api/v1/financial/fixed-assets/:id
+ * @desc Update asset location, custodian and details (depreciation basis only before the first run)
+ * @access Private - FINANCE
+ */
+router.put('/fixed-assets/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateFixedAsset,
+  asyncHandler(FixedAssetController.updateAsset)
+);
+
+/**
+ * @route POST /api/v1/financial/fixed-assets/:id/dispose
+ * @desc Dispose of asset and post the gain or loss
+ * @access Private - FINANCE
+ */
+router.post('/fixed-assets/:id/dispose', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateDisposeFixedAsset,
+  asyncHandler(FixedAssetController.disposeAsset)
+);
+
+/**
+ * @route GET /api/v1/financial/recurring-journals
+ * @desc List recurring journal templates (is_active)
+ * @access Private - FINANCE
+ */
+router.get('/recurring-journals', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(RecurringJournalController.getRecurringJournals)
+);
+
+/**
+ * @route POST /api/v1/financial/recurring-journals
+ * @desc Create recurring journal (frequency, start/end dates, draft or posted, auto-reverse, catch-up)
+ * @access Private - FINANCE
+ */
+router.post('/recurring-journals', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateRecurringJournal,
+  asyncHandler(RecurringJournalController.createRecurringJournal)
+);
+
+/**
+ * @route POST /api/v1/financial/recurring-journals/run
+ * @desc Generate entries for all templates due by as_of_date (default today)
+ * @access Private - FINANCE
+ */
+router.post('/recurring-journals/run', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateRecurringJournalRun,
+  asyncHandler(RecurringJournalController.runDueJournals)
+);
+
+/**
+ * @route GET /api/v1/financial/recurring-journals/:id
+ * @desc Get recurring journal with lines and recent runs
+ * @access Private - FINANCE
+ */
+router.get('/recurring-journals/:id', 
+  requireDepartment('FINANCE'), 
+  validateUUID('id'),
+  asyncHandler(RecurringJournalController.getRecurringJournalById)
+);
+
+/**
+ * @route PUT /api/v1/financial/recurring-journals/:id
+ * @desc Update recurring journal (lines are replaced when given)
+ * @access Private - FINANCE
+ */
+router.put('/recurring-journals/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateRecurringJournal,
+  asyncHandler(RecurringJournalController.updateRecurringJournal)
+);
+
+/**
+ * @route DELETE /api/v1/financial/recurring-journals/:id
+ * @desc Delete recurring journal that has not generated entries
+ * @access Private - FINANCE
+ */
+router.delete('/recurring-journals/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  asyncHandler(RecurringJournalController.deleteRecurringJournal)
+);
+
+/**
+ * @route POST /api/v1/financial/recurring-journals/:id/run
+ * @desc Generate the template's entries due by as_of_date (default today)
+ * @access Private - FINANCE
+ */
+router.post('/recurring-journals/:id/run', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateRecurringJournalRun,
+  asyncHandler(RecurringJournalController.runRecurringJournal)
+);
+
+/**
+ * @route GET /api/v1/financial/reports/ar-ageing
+ * @desc Aged receivables per customer (as_of_date, basis=invoice_date|due_date, customer_id, format=json|csv|pdf)
+ * @access Private - FINANCE
+ */
+router.get('/reports/ar-ageing', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(ReceivablesController.getAgeing)
+);
+
+/**
+ * @route GET /api/v1/financial/dunning-levels
+ * @desc List dunning levels
+ * @access Private - FINANCE
+ */
+router.get('/dunning-levels', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(ReceivablesController.getDunningLevels)
+);
+
+/**
+ * @route POST /api/v1/financial/dunning-levels
+ * @desc Create dunning level
+ * @access Private - FINANCE
+ */
+router.post('/dunning-levels', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateCreateDunningLevel,
+  asyncHandler(ReceivablesController.createDunningLevel)
+);
+
+/**
+ * @route POST /api/v1/financial/dunning-levels/defaults
+ * @desc Create the default reminder sequence (7, 30 and 60 days overdue)
+ * @access Private - FINANCE
+ */
+router.post('/dunning-levels/defaults', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  asyncHandler(ReceivablesController.createDefaultDunningLevels)
+);
+
+/**
+ * @route PUT /api/v1/financial/dunning-levels/:id
+ * @desc Update dunning level
+ * @access Private - FINANCE
+ */
+router.put('/dunning-levels/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateUUID('id'),
+  validateUpdateDunningLevel,
+  asyncHandler(ReceivablesController.updateDunningLevel)
+);
+
+/**
+ * @route DELETE /api/v1/financial/dunning-levels/:id
+ * @desc Delete dunning level
+ * @access Private - FINANCE
+ */
+router.delete('/dunning-levels/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  validateUUID('id'),
+  asyncHandler(ReceivablesController.deleteDunningLevel)
+);
+
+/**
+ * @route POST /api/v1/financial/dunning/run
+ * @desc Email due payment reminders now (as_of_date)
+ * @access Private - FINANCE
+ */
+router.post('/dunning/run', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateDunningRun,
+  asyncHandler(ReceivablesController.runDunning)
+);
+
+/**
+ * @route GET /api/v1/financial/consolidation-groups
+ * @desc List consolidation groups owned by the company
+ * @access Private - FINANCE
+ */
+router.get('/consolidation-groups', 
+  requireDepartment('FINANCE'), 
+  asyncHandler(ConsolidationController.getGroups)
+);
+
+/**
+ * @route POST /api/v1/financial/consolidation-groups
+ * @desc Create consolidation group over other companies' ledgers
+ * @access Private - FINANCE (Admin)
+ */
+router.post('/consolidation-groups', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  requireRole(['ADMIN', 'SUPER_ADMIN']),
+  validateCreateConsolidationGroup,
+  asyncHandler(ConsolidationController.createGroup)
+);
+
+/**
+ * @route GET /api/v1/financial/consolidation-groups/:id
+ * @desc Get consolidation group with members
+ * @access Private - FINANCE
+ */
+router.get('/consolidation-groups/:id', 
   requireDepartment('FINANCE'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Financial transactions endpoint' });
-  })
+  validateUUID('id'),
+  asyncHandler(ConsolidationController.getGroupById)
+);
+
+/**
+ * @route PUT /api/v1/financial/consolidation-groups/:id
+ * @desc Update consolidation group (member_company_ids replaces the members)
+ * @access Private - FINANCE (Admin)
+ */
+router.put('/consolidation-groups/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  requireRole(['ADMIN', 'SUPER_ADMIN']),
+  validateUUID('id'),
+  validateUpdateConsolidationGroup,
+  asyncHandler(ConsolidationController.updateGroup)
+);
+
+/**
+ * @route DELETE /api/v1/financial/consolidation-groups/:id
+ * @desc Delete consolidation group
+ * @access Private - FINANCE (Admin)
+ */
+router.delete('/consolidation-groups/:id', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:delete'),
+  requireRole(['ADMIN', 'SUPER_ADMIN']),
+  validateUUID('id'),
+  asyncHandler(ConsolidationController.deleteGroup)
 );
 
 /**
  * @route GET /api/v1/financial/exchange-rates
- * @desc Get current exchange rates
+ * @desc Get exchange rates as of a date (date, base, symbols=USD,EUR)
  * @access Private - FINANCE
  */
 router.get('/exchange-rates', 
   requireDepartment('FINANCE'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Exchange rates endpoint' });
-  })
+  asyncHandler(ExchangeRateController.getExchangeRates)
+);
+
+/**
+ * @route POST /api/v1/financial/exchange-rates/fetch
+ * @desc Fetch and store rates from the configured providers (optional date to backfill)
+ * @access Private - FINANCE
+ */
+router.post('/exchange-rates/fetch', 
+  requireDepartment('FINANCE'), 
+  requirePermission('financial:write'),
+  validateExchangeRateFetch,
+  asyncHandler(ExchangeRateController.fetchExchangeRates)
 );
 
 export default router; 
\ No newline at end of file
@@ -1,9 +1,206 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
-import { requirePermission, requireDepartment } from '../middleware/authMiddleware';
+import {
+  requirePermission,
+  requireDepartment,
+  requireRole,
+  requireRoleOrDepartment,
+  requireOwnership,
+} from '../middleware/authMiddleware';
+import {
+  validateUUID,
+  validateCreateEmployee,
+  validateUpdateEmployee,
+  validateEmployeeStatus,
+  validateSalaryChange,
+  validateCreateShift,
+  validateUpdateShift,
+  validateClock,
+  validateRecordAttendance,
+  validateAttendanceCorrection,
+  validateCreateLeavePolicy,
+  validateUpdateLeavePolicy,
+  validateLeaveRequest,
+  validateLeaveAdjustment,
+  validateCalculatePayroll,
+  validateReversePayroll,
+  validateCreateTaxTable,
+  validateCreatePayrollItem,
+  validateUpdatePayrollItem,
+  validateEmployeePayrollItem,
+  validateUpdateEmployeePayrollItem,
+  validateIssuePayslips,
+  validateUploadEmployeeDocument,
+  validateEmployeeDocumentVersion,
+} from '../middleware/validation';
+import { documentUpload } from '../middleware/upload';
+import { EmployeeController } from '../controllers/employeeController';
+import { AttendanceController } from '../controllers/attendanceController';
+import { LeaveController } from '../controllers/leaveController';
+import { PayrollController } from '../controllers/payrollController';
+import { PayslipController } from '../controllers/payslipController';
+import { TaxCertificateController } from '../controllers/taxCertificateController';
+import { OrgChartController } from '../controllers/orgChartController';
+import { EmployeeDocumentController } from '../controllers/employeeDocumentController';
 
 const router = Router();
 
+// Self-service routes - available to every employee
+
+/**
+ * @route POST /api/v1/hr/attendance/clock-in
+ * @desc Clock in from a kiosk, mobile device or browser (kiosk and HR accounts may pass employee_id)
+ * @access Private - Employee
+ */
+router.post('/attendance/clock-in', 
+  validateClock,
+  asyncHandler(AttendanceController.clockIn)
+);
+
+/**
+ * @route POST /api/v1/hr/attendance/clock-out
+ * @desc Clock out and calculate hours worked and overtime
+ * @access Private - Employee
+ */
+router.post('/attendance/clock-out', 
+  validateClock,
+  asyncHandler(AttendanceController.clockOut)
+);
+
+/**
+ * @route GET /api/v1/hr/attendance/me
+ * @desc Get own attendance records
+ * @access Private - Employee
+ */
+router.get('/attendance/me', 
+  asyncHandler(AttendanceController.getMyAttendance)
+);
+
+/**
+ * @route PUT /api/v1/hr/attendance/:id
+ * @desc Correct an attendance record with a reason
+ * @access Private - Employee's manager or HR
+ */
+router.put('/attendance/:id', 
+  requireRoleOrDepartment(['MANAGER', 'ADMIN', 'SUPER_ADMIN'], ['HR'], 'hr:write'),
+  validateUUID('id'),
+  validateAttendanceCorrection,
+  asyncHandler(AttendanceController.correctAttendance)
+);
+
+/**
+ * @route POST /api/v1/hr/leaves
+ * @desc Request leave (checked against the balance, then routed to the manager for approval; HR may pass employee_id)
+ * @access Private - Employee
+ */
+router.post('/leaves', 
+  validateLeaveRequest,
+  asyncHandler(LeaveController.requestLeave)
+);
+
+/**
+ * @route GET /api/v1/hr/leaves/me
+ * @desc Get own leave requests
+ * @access Private - Employee
+ */
+router.get('/leaves/me', 
+  asyncHandler(LeaveController.getMyLeaves)
+);
+
+/**
+ * @route GET /api/v1/hr/leaves/balances/me
+ * @desc Get own leave balances
+ * @access Private - Employee
+ */
+router.get('/leaves/balances/me', 
+  asyncHandler(LeaveController.getMyBalances)
+);
+
+/**
+ * @route POST /api/v1/hr/leaves/:id/cancel
+ * @desc Cancel own pending request or approved leave that has not started
+ * @access Private - Employee
+ */
+router.post('/leaves/:id/cancel', 
+  validateUUID('id'),
+  asyncHandler(LeaveController.cancelLeave)
+);
+
+/**
+ * @route GET /api/v1/hr/users/:userId/payslips
+ * @desc Get a user's payslip archive
+ * @access Private - Owner or HR
+ */
+router.get('/users/:userId/payslips', 
+  validateUUID('userId'),
+  requireOwnership('userId', ['HR']),
+  asyncHandler(PayslipController.getPayslips)
+);
+
+/**
+ * @route GET /api/v1/hr/users/:userId/payslips/:id/download
+ * @desc Download a payslip PDF
+ * @access Private - Owner or HR
+ */
+router.get('/users/:userId/payslips/:id/download', 
+  validateUUID('userId'),
+  validateUUID('id'),
+  requireOwnership('userId', ['HR']),
+  asyncHandler(PayslipController.downloadPayslip)
+);
+
+/**
+ * @route GET /api/v1/hr/users/:userId/documents
+ * @desc Get a user's documents from the document vault
+ * @access Private - Owner or HR
+ */
+router.get('/users/:userId/documents', 
+  validateUUID('userId'),
+  requireOwnership('userId', ['HR']),
+  asyncHandler(EmployeeDocumentController.getUserDocuments)
+);
+
+/**
+ * @route GET /api/v1/hr/users/:userId/documents/:documentId/download
+ * @desc Download one of a user's documents
+ * @access Private - Owner or HR
+ */
+router.get('/users/:userId/documents/:documentId/download', 
+  validateUUID('userId'),
+  validateUUID('documentId'),
+  requireOwnership('userId', ['HR']),
+  asyncHandler(EmployeeDocumentController.downloadUserDocument)
+);
+
+/**
+ * @route GET /api/v1/hr/users/:userId/management-chain
+ * @desc Get a user's managers up to the top of the organisation
+ * @access Private - Owner or HR
+ */
+router.get('/users/:userId/management-chain', 
+  validateUUID('userId'),
+  requireOwnership('userId', ['HR']),
+  asyncHandler(OrgChartController.getManagementChain)
+);
+
+/**
+ * @route GET /api/v1/hr/org-chart
+ * @desc Get the organisation chart of employees or departments as a tree
+ * @access Private
+ */
+router.get('/org-chart', 
+  asyncHandler(OrgChartController.getOrgChart)
+);
+
+/**
+ * @route GET /api/v1/hr/org-chart/export
+ * @desc Download the organisation chart as SVG or PDF
+ * @access Private
+ */
+router.get('/org-chart/export', 
+  asyncHandler(OrgChartController.exportOrgChart)
+);
+
 // HR module routes - all require HR permissions
 router.use(requirePermission('hr:read'));
 
@@ -14,21 +211,553 @@ router.use(requirePermission('hr:read'));
  */
 router.get('/employees', 
   requireDepartment('HR'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Employees endpoint' });
-  })
+  asyncHandler(EmployeeController.getEmployees)
+);
+
+/**
+ * @route POST /api/v1/hr/employees
+ * @desc Create employee record for a user with a starting salary
+ * @access Private - HR
+ */
+router.post('/employees', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateCreateEmployee,
+  asyncHandler(EmployeeController.createEmployee)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id
+ * @desc Get employee by ID
+ * @access Private - HR
+ */
+router.get('/employees/:id', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(EmployeeController.getEmployeeById)
+);
+
+/**
+ * @route PUT /api/v1/hr/employees/:id
+ * @desc Update employee details
+ * @access Private - HR
+ */
+router.put('/employees/:id', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateUpdateEmployee,
+  asyncHandler(EmployeeController.updateEmployee)
+);
+
+/**
+ * @route DELETE /api/v1/hr/employees/:id
+ * @desc Delete employee record created in error
+ * @access Private - HR
+ */
+router.delete('/employees/:id', 
+  requireDepartment('HR'), 
+  requirePermission('hr:delete'),
+  validateUUID('id'),
+  asyncHandler(EmployeeController.deleteEmployee)
+);
+
+/**
+ * @route POST /api/v1/hr/employees/:id/status
+ * @desc Change employee status (active, on leave, inactive, terminated)
+ * @access Private - HR
+ */
+router.post('/employees/:id/status', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateEmployeeStatus,
+  asyncHandler(EmployeeController.changeStatus)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id/salary-history
+ * @desc Get effective-dated salary history
+ * @access Private - HR
+ */
+router.get('/employees/:id/salary-history', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(EmployeeController.getSalaryHistory)
+);
+
+/**
+ * @route POST /api/v1/hr/employees/:id/salary-history
+ * @desc Record a salary change effective from a date
+ * @access Private - HR
+ */
+router.post('/employees/:id/salary-history', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateSalaryChange,
+  asyncHandler(EmployeeController.addSalaryChange)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id/documents
+ * @desc Get an employee's documents
+ * @access Private - HR
+ */
+router.get('/employees/:id/documents', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(EmployeeDocumentController.getDocuments)
+);
+
+/**
+ * @route POST /api/v1/hr/employees/:id/documents
+ * @desc Upload an employee document (multipart field "file")
+ * @access Private - HR
+ */
+router.post('/employees/:id/documents', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  documentUpload.single('file'),
+  validateUploadEmployeeDocument,
+  asyncHandler(EmployeeDocumentController.uploadDocument)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id/documents/:documentId
+ * @desc Get an employee document with its versions
+ * @access Private - HR
+ */
+router.get('/employees/:id/documents/:documentId', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  validateUUID('documentId'),
+  asyncHandler(EmployeeDocumentController.getDocumentById)
+);
+
+/**
+ * @route POST /api/v1/hr/employees/:id/documents/:documentId/versions
+ * @desc Upload a new version of an employee document (multipart field "file")
+ * @access Private - HR
+ */
+router.post('/employees/:id/documents/:documentId/versions', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateUUID('documentId'),
+  documentUpload.single('file'),
+  validateEmployeeDocumentVersion,
+  asyncHandler(EmployeeDocumentController.addVersion)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id/documents/:documentId/download
+ * @desc Download an employee document (?version= for an earlier version)
+ * @access Private - HR
+ */
+router.get('/employees/:id/documents/:documentId/download', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  validateUUID('documentId'),
+  asyncHandler(EmployeeDocumentController.downloadDocument)
+);
+
+/**
+ * @route DELETE /api/v1/hr/employees/:id/documents/:documentId
+ * @desc Remove an employee document from the vault
+ * @access Private - HR (Manager)
+ */
+router.delete('/employees/:id/documents/:documentId', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  requireRole(['MANAGER', 'ADMIN', 'SUPER_ADMIN']),
+  validateUUID('id'),
+  validateUUID('documentId'),
+  asyncHandler(EmployeeDocumentController.deleteDocument)
+);
+
+/**
+ * @route GET /api/v1/hr/shifts
+ * @desc Get shifts
+ * @access Private - HR
+ */
+router.get('/shifts', 
+  requireDepartment('HR'), 
+  asyncHandler(AttendanceController.getShifts)
+);
+
+/**
+ * @route POST /api/v1/hr/shifts
+ * @desc Create shift with start and end times, grace period and break
+ * @access Private - HR
+ */
+router.post('/shifts', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateCreateShift,
+  asyncHandler(AttendanceController.createShift)
+);
+
+/**
+ * @route PUT /api/v1/hr/shifts/:id
+ * @desc Update shift
+ * @access Private - HR
+ */
+router.put('/shifts/:id', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateUpdateShift,
+  asyncHandler(AttendanceController.updateShift)
+);
+
+/**
+ * @route GET /api/v1/hr/attendance
+ * @desc Get attendance records
+ * @access Private - HR
+ */
+router.get('/attendance', 
+  requireDepartment('HR'), 
+  asyncHandler(AttendanceController.getAttendance)
+);
+
+/**
+ * @route POST /api/v1/hr/attendance
+ * @desc Record attendance manually (absences, missed clock-ins)
+ * @access Private - HR
+ */
+router.post('/attendance', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateRecordAttendance,
+  asyncHandler(AttendanceController.recordAttendance)
+);
+
+/**
+ * @route GET /api/v1/hr/attendance/:id
+ * @desc Get attendance record with its corrections
+ * @access Private - HR
+ */
+router.get('/attendance/:id', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(AttendanceController.getAttendanceById)
+);
+
+/**
+ * @route GET /api/v1/hr/leaves
+ * @desc Get leave requests
+ * @access Private - HR
+ */
+router.get('/leaves', 
+  requireDepartment('HR'), 
+  asyncHandler(LeaveController.getLeaves)
+);
+
+/**
+ * @route GET /api/v1/hr/leaves/:id
+ * @desc Get leave request
+ * @access Private - HR
+ */
+router.get('/leaves/:id', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(LeaveController.getLeaveById)
+);
+
+/**
+ * @route GET /api/v1/hr/leave-policies
+ * @desc Get leave accrual policies
+ * @access Private - HR
+ */
+router.get('/leave-policies', 
+  requireDepartment('HR'), 
+  asyncHandler(LeaveController.getPolicies)
+);
+
+/**
+ * @route POST /api/v1/hr/leave-policies
+ * @desc Create leave accrual policy for a leave type and employment type
+ * @access Private - HR
+ */
+router.post('/leave-policies', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateCreateLeavePolicy,
+  asyncHandler(LeaveController.createPolicy)
+);
+
+/**
+ * @route PUT /api/v1/hr/leave-policies/:id
+ * @desc Update leave accrual policy
+ * @access Private - HR
+ */
+router.put('/leave-policies/:id', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateUpdateLeavePolicy,
+  asyncHandler(LeaveController.updatePolicy)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id/leave-balances
+ * @desc Get an employee's leave balances
+ * @access Private - HR
+ */
+router.get('/employees/:id/leave-balances', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(LeaveController.getBalances)
+);
+
+/**
+ * @route POST /api/v1/hr/employees/:id/leave-adjustments
+ * @desc Adjust an employee's leave balance
+ * @access Private - HR
+ */
+router.post('/employees/:id/leave-adjustments', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateLeaveAdjustment,
+  asyncHandler(LeaveController.addAdjustment)
 );
 
 /**
  * @route GET /api/v1/hr/payroll
- * @desc Get payroll information
+ * @desc Get payroll runs
  * @access Private - HR
  */
 router.get('/payroll', 
   requireDepartment('HR'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Payroll endpoint' });
-  })
+  asyncHandler(PayrollController.getRuns)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/calculate
+ * @desc Calculate a period's payroll as a draft for review (recalculating replaces the draft)
+ * @access Private - HR
+ */
+router.post('/payroll/calculate', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateCalculatePayroll,
+  asyncHandler(PayrollController.calculate)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/runs/:id
+ * @desc Get payroll run with payslip lines
+ * @access Private - HR
+ */
+router.get('/payroll/runs/:id', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(PayrollController.getRunById)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/runs/:id/finalise
+ * @desc Finalise a draft payroll run and post it to the ledger
+ * @access Private - HR (Manager)
+ */
+router.post('/payroll/runs/:id/finalise', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  requireRole(['MANAGER', 'ADMIN', 'SUPER_ADMIN']),
+  validateUUID('id'),
+  asyncHandler(PayrollController.finalise)
+);
+
+/**
+ * @route DELETE /api/v1/hr/payroll/runs/:id
+ * @desc Discard a draft payroll run
+ * @access Private - HR
+ */
+router.delete('/payroll/runs/:id', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  asyncHandler(PayrollController.discard)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/runs/:id/reverse
+ * @desc Prepare a reversal of a finalised payroll run
+ * @access Private - HR (Manager)
+ */
+router.post('/payroll/runs/:id/reverse', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  requireRole(['MANAGER', 'ADMIN', 'SUPER_ADMIN']),
+  validateUUID('id'),
+  validateReversePayroll,
+  asyncHandler(PayrollController.reverse)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/runs/:id/payslips
+ * @desc Regenerate a finalised run's payslips and email them again
+ * @access Private - HR
+ */
+router.post('/payroll/runs/:id/payslips', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateIssuePayslips,
+  asyncHandler(PayslipController.issuePayslips)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/tax-years/:taxYear/certificates
+ * @desc Get IRP5/IT3(a) certificates for a tax year from its finalised runs
+ * @access Private - HR
+ */
+router.get('/payroll/tax-years/:taxYear/certificates', 
+  requireDepartment('HR'), 
+  asyncHandler(TaxCertificateController.getCertificates)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/tax-years/:taxYear/certificates/validation
+ * @desc Get missing or invalid tax, ID and employer reference numbers for a tax year
+ * @access Private - HR
+ */
+router.get('/payroll/tax-years/:taxYear/certificates/validation', 
+  requireDepartment('HR'), 
+  asyncHandler(TaxCertificateController.getValidationReport)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/tax-years/:taxYear/certificates/:employeeId/download
+ * @desc Download an employee's tax certificate as a PDF
+ * @access Private - HR
+ */
+router.get('/payroll/tax-years/:taxYear/certificates/:employeeId/download', 
+  requireDepartment('HR'), 
+  validateUUID('employeeId'),
+  asyncHandler(TaxCertificateController.downloadCertificate)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/tax-years/:taxYear/emp501
+ * @desc Download the EMP501 reconciliation file for e@syFile (?test=true for a test submission)
+ * @access Private - HR (Manager)
+ */
+router.get('/payroll/tax-years/:taxYear/emp501', 
+  requireDepartment('HR'), 
+  requireRole(['MANAGER', 'ADMIN', 'SUPER_ADMIN']),
+  asyncHandler(TaxCertificateController.exportEmp501)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/tax-tables
+ * @desc Get PAYE tax tables
+ * @access Private - HR
+ */
+router.get('/payroll/tax-tables', 
+  requireDepartment('HR'), 
+  asyncHandler(PayrollController.getTaxTables)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/tax-tables
+ * @desc Add a PAYE tax table version
+ * @access Private - HR (Admin)
+ */
+router.post('/payroll/tax-tables', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  requireRole(['ADMIN', 'SUPER_ADMIN']),
+  validateCreateTaxTable,
+  asyncHandler(PayrollController.createTaxTable)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/tax-tables/defaults
+ * @desc Create the default South African tax tables
+ * @access Private - HR (Admin)
+ */
+router.post('/payroll/tax-tables/defaults', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  requireRole(['ADMIN', 'SUPER_ADMIN']),
+  asyncHandler(PayrollController.createDefaultTaxTables)
+);
+
+/**
+ * @route GET /api/v1/hr/payroll/items
+ * @desc Get payroll earning and deduction items
+ * @access Private - HR
+ */
+router.get('/payroll/items', 
+  requireDepartment('HR'), 
+  asyncHandler(PayrollController.getItems)
+);
+
+/**
+ * @route POST /api/v1/hr/payroll/items
+ * @desc Create payroll item
+ * @access Private - HR
+ */
+router.post('/payroll/items', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateCreatePayrollItem,
+  asyncHandler(PayrollController.createItem)
+);
+
+/**
+ * @route PUT /api/v1/hr/payroll/items/:id
+ * @desc Update payroll item
+ * @access Private - HR
+ */
+router.put('/payroll/items/:id', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateUpdatePayrollItem,
+  asyncHandler(PayrollController.updateItem)
+);
+
+/**
+ * @route GET /api/v1/hr/employees/:id/payroll-items
+ * @desc Get an employee's recurring earnings and deductions
+ * @access Private - HR
+ */
+router.get('/employees/:id/payroll-items', 
+  requireDepartment('HR'), 
+  validateUUID('id'),
+  asyncHandler(PayrollController.getEmployeeItems)
+);
+
+/**
+ * @route POST /api/v1/hr/employees/:id/payroll-items
+ * @desc Give an employee a recurring earning or deduction
+ * @access Private - HR
+ */
+router.post('/employees/:id/payroll-items', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateEmployeePayrollItem,
+  asyncHandler(PayrollController.addEmployeeItem)
+);
+
+/**
+ * @route PUT /api/v1/hr/employees/:id/payroll-items/:itemId
+ * @desc Change or end an employee's recurring payroll item
+ * @access Private - HR
+ */
+router.put('/employees/:id/payroll-items/:itemId', 
+  requireDepartment('HR'), 
+  requirePermission('hr:write'),
+  validateUUID('id'),
+  validateUUID('itemId'),
+  validateUpdateEmployeePayrollItem,
+  asyncHandler(PayrollController.updateEmployeeItem)
 );
 
 export default router; 
\ No newline at end of file
@@ -1,31 +1,30 @@
 import { Router } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import { requirePermission } from '../middleware/authMiddleware';
+import { validateApprovalDecision } from '../middleware/validation';
+import { WorkflowController } from '../controllers/workflowController';
 
 const router = Router();
 
 /**
  * @route GET /api/v1/workflow/approvals
- * @desc Get pending approvals
+ * @desc Get pending approvals addressed to the user or their department
  * @access Private
  */
 router.get('/approvals', 
   requirePermission('workflow:read'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Workflow approvals endpoint' });
-  })
+  asyncHandler(WorkflowController.getApprovals)
 );
 
 /**
  * @route POST /api/v1/workflow/approve
- * @desc Approve workflow item
+ * @desc Approve or reject workflow item
  * @access Private
  */
 router.post('/approve', 
   requirePermission('workflow:write'), 
-  asyncHandler(async (req, res) => {
-    res.json({ message: 'Workflow approve endpoint' });
-  })
+  validateApprovalDecision,
+  asyncHandler(WorkflowController.decide)
 );
 
 export default router; 
\ No newline at end of file
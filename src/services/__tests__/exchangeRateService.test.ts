@@ -0,0 +1,63 @@
+import path from 'path';
+import { SarbRateProvider, EcbRateProvider, parseEcbRates } from '../exchangeRateProviders';
+import { resolveRate } from '../exchangeRateService';
+
+const fixtureDir = path.join(__dirname, '..', 'fixtures', 'exchange-rates');
+
+describe('Exchange rates', () => {
+  describe('providers (fixtures)', () => {
+    it('should read the latest SARB rand rates', async () => {
+      const provider = new SarbRateProvider({ url: 'http://unused', fixtureDir });
+      const quotes = await provider.fetchRates();
+
+      expect(quotes).toHaveLength(4);
+      expect(quotes.find(quote => quote.base_currency === 'USD')).toEqual({
+        base_currency: 'USD',
+        quote_currency: 'ZAR',
+        rate: 18.1979,
+        rate_date: '2024-06-28',
+        source: 'sarb',
+      });
+    });
+
+    it('should read historical ECB rates on or before a date', async () => {
+      const provider = new EcbRateProvider({ url: 'http://unused/latest', fixtureDir });
+
+      const quotes = await provider.fetchRates('2024-06-27');
+      expect(quotes.every(quote => quote.rate_date === '2024-06-27')).toBe(true);
+      expect(quotes.find(quote => quote.quote_currency === 'ZAR')?.rate).toBe(19.7135);
+
+      // A weekend date falls back to the previous publication
+      const weekend = await provider.fetchRates('2024-06-30');
+      expect(weekend[0].rate_date).toBe('2024-06-28');
+    });
+
+    it('should accept exchangerate.host style JSON', () => {
+      const quotes = parseEcbRates(JSON.stringify({ base: 'EUR', date: '2024-06-28', rates: { USD: 1.07, EUR: 1 } }));
+
+      expect(quotes).toEqual([
+        { base_currency: 'EUR', quote_currency: 'USD', rate: 1.07, rate_date: '2024-06-28', source: 'ecb' },
+      ]);
+    });
+  });
+
+  describe('resolveRate', () => {
+    const quotes = [
+      { base_currency: 'USD', quote_currency: 'ZAR', rate: 18.2, rate_date: '2024-06-28', source: 'sarb' },
+      { base_currency: 'EUR', quote_currency: 'ZAR', rate: 19.5, rate_date: '2024-06-27', source: 'sarb' },
+    ];
+
+    it('should use direct and inverted quotes', () => {
+      expect(resolveRate(quotes, 'USD', 'ZAR')?.rate).toBe(18.2);
+      expect(resolveRate(quotes, 'ZAR', 'USD')?.rate).toBe(0.05494505);
+    });
+
+    it('should cross through a shared currency and report the older date', () => {
+      const resolved = resolveRate(quotes, 'EUR', 'USD');
+
+      expect(resolved?.rate).toBe(1.07142857);
+      expect(resolved?.rate_date).toBe('2024-06-27');
+      expect(resolveRate(quotes, 'EUR', 'GBP')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../database/connection';
+import { notificationService } from '../core/notification/notificationService';
+import { companyService } from '../core/company/companyService';
+import { logger } from '../utils/logger';
+import { NotificationType } from '../types';
+import {
+  ValidationError,
+  NotFoundError,
+  AuthorizationError
+} from '../middleware/errorHandler';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface CreateApprovalData {
+  company_id: string;
+  resource_type: string;
+  resource_id: string;
+  title: string;
+  details?: Record<string, unknown>;
+  requested_by: string;
+  approver_id?: string | null;
+  approver_department?: string | null;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  company_id: string;
+  resource_type: string;
+  resource_id: string;
+  title: string;
+  details: Record<string, unknown> | null;
+  requested_by: string;
+  requested_by_name?: string;
+  approver_id: string | null;
+  approver_department: string | null;
+  status: ApprovalStatus;
+  decided_by: string | null;
+  decided_at: Date | null;
+  comments: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Approver {
+  id: string;
+  department: string;
+  role: string;
+}
+
+/**
+ * Applies a decision to the resource being approved, inside the
+ * transaction that records the decision
+ */
+export type ApprovalHandler = (
+  trx: Knex.Transaction,
+  request: ApprovalRequest,
+  decision: ApprovalDecision,
+  decidedBy: string,
+  comments?: string
+) => Promise<void>;
+
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+export class ApprovalService {
+  private handlers = new Map<string, ApprovalHandler>();
+
+  /**
+   * Register the handler that applies decisions for a resource type
+   */
+  registerHandler(resourceType: string, handler: ApprovalHandler): void {
+    this.handlers.set(resourceType, handler);
+  }
+
+  /**
+   * Open an approval request (call notifyApprover once the transaction commits)
+   */
+  async createRequest(trx: Knex.Transaction, data: CreateApprovalData): Promise<ApprovalRequest> {
+    try {
+      if (!data.approver_id && !data.approver_department) {
+        throw new ValidationError('An approval request needs an approver or an approving department');
+      }
+
+      const approvalId = uuidv4();
+      await trx('approval_requests').insert({
+        id: approvalId,
+        company_id: data.company_id,
+        resource_type: data.resource_type,
+        resource_id: data.resource_id,
+        title: data.title,
+        details: data.details ? JSON.stringify(data.details) : null,
+        requested_by: data.requested_by,
+        approver_id: data.approver_id ?? null,
+        approver_department: data.approver_department ?? null,
+        status: 'pending'
+      });
+
+      return await trx('approval_requests').where('id', approvalId).first();
+    } catch (error) {
+      logger.error('Error creating approval request', { error, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Pending requests the user can decide: those addressed to them and those
+   * addressed to their department without a named approver
+   */
+  async getPendingApprovals(companyId: string, approver: Approver): Promise<ApprovalRequest[]> {
+    try {
+      const db = getDatabase();
+      const rows = await db('approval_requests')
+        .join('users', 'approval_requests.requested_by', 'users.id')
+        .where('approval_requests.company_id', companyId)
+        .where('approval_requests.status', 'pending')
+        .whereNot('approval_requests.requested_by', approver.id)
+        .where((builder) => {
+          builder
+            .where('approval_requests.approver_id', approver.id)
+            .orWhere((inner) => {
+              inner
+                .whereNull('approval_requests.approver_id')
+                .where('approval_requests.approver_department', approver.department);
+            });
+        })
+        .orderBy('approval_requests.created_at')
+        .select(
+          'approval_requests.*',
+          db.raw("concat_ws(' ', users.first_name, users.last_name) as requested_by_name")
+        );
+
+      return rows;
+    } catch (error) {
+      logger.error('Error fetching pending approvals', { error, companyId, approverId: approver.id });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a pending request and let the requester know
+   */
+  async decide(
+    companyId: string,
+    approvalId: string,
+    decision: ApprovalDecision,
+    approver: Approver,
+    comments?: string
+  ): Promise<ApprovalRequest> {
+    try {
+      const db = getDatabase();
+
+      const request = await db.transaction(async (trx) => {
+        const existing: ApprovalRequest | undefined = await trx('approval_requests')
+          .where('id', approvalId)
+          .where('company_id', companyId)
+          .forUpdate()
+          .first();
+        if (!existing) {
+          throw new NotFoundError('Approval request not found');
+        }
+
+        if (existing.status !== 'pending') {
+          throw new ValidationError(`Approval request is already ${existing.status}`);
+        }
+
+        if (existing.requested_by === approver.id) {
+          throw new AuthorizationError('You cannot decide your own request');
+        }
+
+        const isApprover = existing.approver_id
+          ? existing.approver_id === approver.id
+          : existing.approver_department === approver.department;
+        if (!isApprover && !ADMIN_ROLES.includes(approver.role)) {
+          throw new AuthorizationError('You are not the approver for this request');
+        }
+
+        const handler = this.handlers.get(existing.resource_type);
+        if (!handler) {
+          throw new Error(`No approval handler registered for ${existing.resource_type}`);
+        }
+
+        await handler(trx, existing, decision, approver.id, comments);
+
+        await trx('approval_requests')
+          .where('id', approvalId)
+          .update({
+            status: decision,
+            decided_by: approver.id,
+            decided_at: new Date(),
+            comments: comments ?? null,
+            updated_at: new Date()
+          });
+
+        return trx('approval_requests').where('id', approvalId).first();
+      });
+
+      logger.info('Approval request decided', {
+        approvalId,
+        companyId,
+        resourceType: request.resource_type,
+        decision,
+        decidedBy: approver.id
+      });
+
+      await this.notifyRequester(request);
+
+      return request;
+    } catch (error) {
+      logger.error('Error deciding approval request', { error, companyId, approvalId, decision });
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw the pending request for a resource, if there is one
+   */
+  async cancelForResource(trx: Knex.Transaction, resourceType: string, resourceId: string): Promise<void> {
+    try {
+      await trx('approval_requests')
+        .where('resource_type', resourceType)
+        .where('resource_id', resourceId)
+        .where('status', 'pending')
+        .update({ status: 'cancelled', updated_at: new Date() });
+    } catch (error) {
+      logger.error('Error cancelling approval request', { error, resourceType, resourceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Raise an APPROVAL notification to the approver or approving department
+   */
+  async notifyApprover(request: ApprovalRequest): Promise<void> {
+    try {
+      let recipient: { recipient_id: string } | { recipient_department_id: string } | null = null;
+
+      if (request.approver_id) {
+        recipient = { recipient_id: request.approver_id };
+      } else if (request.approver_department === 'HR') {
+        const department = await companyService.getHrDepartment(request.company_id);
+        recipient = department ? { recipient_department_id: department.id } : null;
+      } else {
+        const department = await getDatabase()('departments')
+          .where('company_id', request.company_id)
+          .whereRaw('upper(name) = ?', [request.approver_department])
+          .where('is_active', true)
+          .first();
+        recipient = department ? { recipient_department_id: department.id } : null;
+      }
+
+      if (!recipient) {
+        logger.warn('No recipient for approval notification', { approvalId: request.id });
+        return;
+      }
+
+      await notificationService.createNotification({
+        type: NotificationType.APPROVAL,
+        title: request.title,
+        message: `${request.title} is waiting for your approval.`,
+        ...recipient,
+        data: { approval_id: request.id, resource_type: request.resource_type, resource_id: request.resource_id },
+        priority: 'medium'
+      }, request.requested_by);
+    } catch (error) {
+      // The request stays pending either way; a lost notification must not undo it
+      logger.error('Error sending approval notification', { error, approvalId: request.id });
+    }
+  }
+
+  /**
+   * Tell the requester how their request was decided
+   */
+  private async notifyRequester(request: ApprovalRequest): Promise<void> {
+    try {
+      await notificationService.createNotification({
+        type: request.status === 'approved' ? NotificationType.SUCCESS : NotificationType.WARNING,
+        title: `${request.title} ${request.status}`,
+        message: request.comments
+          ? `${request.title} was ${request.status}: ${request.comments}`
+          : `${request.title} was ${request.status}.`,
+        recipient_id: request.requested_by,
+        data: { approval_id: request.id, resource_type: request.resource_type, resource_id: request.resource_id },
+        priority: 'medium'
+      }, request.decided_by || undefined);
+    } catch (error) {
+      logger.error('Error sending approval decision notification', { error, approvalId: request.id });
+    }
+  }
+}
+
+export const approvalService = new ApprovalService();
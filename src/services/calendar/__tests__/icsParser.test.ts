@@ -0,0 +1,58 @@
+import { parseIcs } from '../icsParser';
+
+const ics = (...events: string[]): string => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Test//Holidays//EN',
+  ...events.flatMap(event => ['BEGIN:VEVENT', ...event.split('\n'), 'END:VEVENT']),
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('ICS parser', () => {
+  it('should read single and multi-day events with folded and escaped text', () => {
+    const result = parseIcs(ics(
+      'UID:freedom@example.com\nDTSTART;VALUE=DATE:20250428\nDTEND;VALUE=DATE:20250429\nSUMMARY:Freedom\n  Day',
+      'UID:shutdown\nDTSTART;VALUE=DATE:20251229\nDTEND;VALUE=DATE:20251231\nSUMMARY:Shutdown\\, year end',
+      'DTSTART:20250616T000000Z\nSUMMARY:Youth Day'
+    ), 2025);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.holidays).toEqual([
+      { date: '2025-04-28', name: 'Freedom Day', uid: 'freedom@example.com' },
+      { date: '2025-12-29', name: 'Shutdown, year end', uid: 'shutdown' },
+      { date: '2025-12-30', name: 'Shutdown, year end', uid: 'shutdown' },
+      { date: '2025-06-16', name: 'Youth Day', uid: null },
+    ]);
+  });
+
+  it('should expand yearly recurrences up to the given year', () => {
+    const result = parseIcs(ics(
+      'UID:new-year\nDTSTART;VALUE=DATE:20240101\nRRULE:FREQ=YEARLY\nEXDATE;VALUE=DATE:20250101\nSUMMARY:New Year',
+      'UID:leap\nDTSTART;VALUE=DATE:20240229\nRRULE:FREQ=YEARLY;COUNT=2\nSUMMARY:Leap Day'
+    ), 2026);
+
+    expect(result.holidays.map(holiday => holiday.date)).toEqual([
+      '2024-01-01',
+      '2026-01-01',
+      '2024-02-29',
+    ]);
+  });
+
+  it('should skip cancelled events and warn about unsupported recurrences', () => {
+    const result = parseIcs(ics(
+      'DTSTART;VALUE=DATE:20250101\nSTATUS:CANCELLED\nSUMMARY:Cancelled',
+      'DTSTART;VALUE=DATE:20250101\nRRULE:FREQ=MONTHLY\nSUMMARY:Month start',
+      'SUMMARY:No date'
+    ), 2025);
+
+    expect(result.holidays).toEqual([]);
+    expect(result.warnings).toEqual([
+      'Skipped "Month start": only fixed-date yearly recurrences are supported',
+      'Skipped "No date": no start date',
+    ]);
+  });
+
+  it('should reject files that are not calendars', () => {
+    expect(() => parseIcs('date,name\n2025-01-01,New Year', 2025)).toThrow('not an iCalendar');
+  });
+});
@@ -0,0 +1,35 @@
+import { isWorkingDay, countWorkingDays, addWorkingDays, WorkingCalendar } from '../workingDays';
+
+describe('Working days', () => {
+  const calendar: WorkingCalendar = {
+    weekend_days: [0, 6],
+    non_working_dates: new Set(['2025-12-25', '2025-12-26']),
+  };
+
+  it('should skip weekends and holidays', () => {
+    expect(isWorkingDay(calendar, '2025-12-24')).toBe(true);
+    expect(isWorkingDay(calendar, '2025-12-25')).toBe(false);
+    expect(isWorkingDay(calendar, '2025-12-27')).toBe(false);
+    expect(countWorkingDays(calendar, '2025-12-22', '2025-12-31')).toBe(6);
+    expect(countWorkingDays(calendar, '2025-12-31', '2025-12-22')).toBe(0);
+  });
+
+  it('should honour the calendar weekend', () => {
+    const fridaySaturday = { weekend_days: [5, 6], non_working_dates: new Set<string>() };
+    // Friday 11 to Sunday 13 July
+    expect(countWorkingDays(fridaySaturday, '2025-07-11', '2025-07-13')).toBe(1);
+  });
+
+  it('should add and subtract working days across holidays', () => {
+    expect(addWorkingDays(calendar, '2025-12-24', 1)).toBe('2025-12-29');
+    expect(addWorkingDays(calendar, '2025-12-29', -1)).toBe('2025-12-24');
+    expect(addWorkingDays(calendar, '2025-12-19', 5)).toBe('2025-12-30');
+    expect(addWorkingDays(calendar, '2025-12-27', 0)).toBe('2025-12-29');
+    expect(addWorkingDays(calendar, '2025-12-24', 0)).toBe('2025-12-24');
+  });
+
+  it('should reject a calendar without working days', () => {
+    const closed = { weekend_days: [0, 1, 2, 3, 4, 5, 6], non_working_dates: new Set<string>() };
+    expect(() => addWorkingDays(closed, '2025-12-24', 1)).toThrow('no working days');
+  });
+});
@@ -0,0 +1,657 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { addDays, toDateOnly, zonedDateTime } from '../../utils/dateUtils';
+import { parseIcs } from './icsParser';
+import {
+  WorkingCalendar,
+  isWorkingDay,
+  countWorkingDays,
+  addWorkingDays
+} from './workingDays';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface CreateCalendarData {
+  name: string;
+  country_code: string;
+  region?: string | null;
+  weekend_days?: number[];
+  is_default?: boolean;
+}
+
+export interface UpdateCalendarData extends Partial<CreateCalendarData> {
+  is_active?: boolean;
+}
+
+export interface HolidayCalendar {
+  id: string;
+  company_id: string;
+  name: string;
+  country_code: string;
+  region: string | null;
+  weekend_days: number[];
+  is_default: boolean;
+  is_active: boolean;
+  holidays?: PublicHoliday[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PublicHoliday {
+  id: string;
+  calendar_id: string;
+  date: string;
+  name: string;
+  source: 'manual' | 'ics';
+  external_uid: string | null;
+  created_at: Date;
+}
+
+export interface ClosureDay {
+  id: string;
+  company_id: string;
+  date: string;
+  name: string;
+  created_at: Date;
+}
+
+export interface DayData {
+  date: Date | string;
+  name: string;
+}
+
+export interface IcsImportResult {
+  imported: number;
+  skipped: number;
+  warnings: string[];
+}
+
+export interface WorkingDayOptions {
+  // Use this calendar rather than the company default
+  calendar_id?: string;
+  // Use the employee's calendar (or the company default when they have none)
+  employee_id?: string;
+}
+
+// Weekend for companies that have not set up a calendar
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+// Years past the current one that recurring ICS holidays are expanded into
+const ICS_EXPANSION_YEARS = 2;
+
+export class CalendarService {
+  /**
+   * Get holiday calendars
+   */
+  async getCalendars(companyId: string): Promise<HolidayCalendar[]> {
+    try {
+      const db = getDatabase();
+      const rows = await db('holiday_calendars')
+        .where('company_id', companyId)
+        .orderBy([{ column: 'is_default', order: 'desc' }, 'name']);
+
+      return rows;
+    } catch (error) {
+      logger.error('Error fetching holiday calendars', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a calendar with its holidays, optionally for one year
+   */
+  async getCalendarById(companyId: string, calendarId: string, year?: number): Promise<HolidayCalendar | null> {
+    try {
+      const db = getDatabase();
+      const row = await db('holiday_calendars')
+        .where('id', calendarId)
+        .where('company_id', companyId)
+        .first();
+      if (!row) return null;
+
+      let query = db('public_holidays')
+        .where('calendar_id', calendarId)
+        .orderBy('date');
+      if (year) {
+        query = query.whereBetween('date', [`${year}-01-01`, `${year}-12-31`]);
+      }
+      const holidays = await query;
+
+      return {
+        ...row,
+        holidays: holidays.map((holiday: any) => this.mapHoliday(holiday))
+      };
+    } catch (error) {
+      logger.error('Error fetching holiday calendar by ID', { error, companyId, calendarId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create holiday calendar
+   */
+  async createCalendar(companyId: string, data: CreateCalendarData, createdBy: string): Promise<HolidayCalendar> {
+    try {
+      const db = getDatabase();
+      const calendarId = uuidv4();
+      this.validateWeekendDays(data.weekend_days);
+
+      await db.transaction(async (trx) => {
+        const existing = await trx('holiday_calendars')
+          .where('company_id', companyId)
+          .where('name', data.name.trim())
+          .first();
+        if (existing) {
+          throw new ConflictError(`Calendar ${data.name} already exists`);
+        }
+
+        // The company's first calendar is its default
+        const others = await trx('holiday_calendars').where('company_id', companyId).first();
+        const isDefault = data.is_default ?? !others;
+        if (isDefault) {
+          await trx('holiday_calendars')
+            .where('company_id', companyId)
+            .update({ is_default: false, updated_at: new Date() });
+        }
+
+        await trx('holiday_calendars').insert({
+          id: calendarId,
+          company_id: companyId,
+          name: data.name.trim(),
+          country_code: data.country_code.toUpperCase(),
+          region: data.region ? data.region.toUpperCase() : null,
+          weekend_days: JSON.stringify(data.weekend_days ?? DEFAULT_WEEKEND_DAYS),
+          is_default: isDefault,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+      });
+
+      logger.info('Holiday calendar created successfully', { calendarId, companyId, createdBy });
+
+      return (await this.getCalendarById(companyId, calendarId))!;
+    } catch (error) {
+      logger.error('Error creating holiday calendar', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update holiday calendar
+   */
+  async updateCalendar(
+    companyId: string,
+    calendarId: string,
+    data: UpdateCalendarData,
+    updatedBy: string
+  ): Promise<HolidayCalendar> {
+    try {
+      const db = getDatabase();
+      const existing = await db('holiday_calendars')
+        .where('id', calendarId)
+        .where('company_id', companyId)
+        .first();
+      if (!existing) {
+        throw new NotFoundError('Holiday calendar not found');
+      }
+      this.validateWeekendDays(data.weekend_days);
+
+      if (data.is_active === false && (data.is_default ?? existing.is_default)) {
+        throw new ValidationError('The default calendar cannot be deactivated; make another calendar the default first');
+      }
+
+      await db.transaction(async (trx) => {
+        if (data.name !== undefined && data.name.trim() !== existing.name) {
+          const duplicate = await trx('holiday_calendars')
+            .where('company_id', companyId)
+            .where('name', data.name.trim())
+            .first();
+          if (duplicate) {
+            throw new ConflictError(`Calendar ${data.name} already exists`);
+          }
+        }
+
+        if (data.is_default) {
+          await trx('holiday_calendars')
+            .where('company_id', companyId)
+            .whereNot('id', calendarId)
+            .update({ is_default: false, updated_at: new Date() });
+        }
+
+        const { weekend_days, ...fields } = data;
+
+        await trx('holiday_calendars')
+          .where('id', calendarId)
+          .update({
+            ...fields,
+            name: data.name?.trim() ?? existing.name,
+            country_code: data.country_code?.toUpperCase() ?? existing.country_code,
+            ...(data.region !== undefined ? { region: data.region ? data.region.toUpperCase() : null } : {}),
+            ...(weekend_days !== undefined ? { weekend_days: JSON.stringify(weekend_days) } : {}),
+            updated_by: updatedBy,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Holiday calendar updated successfully', { calendarId, companyId, updatedBy });
+
+      return (await this.getCalendarById(companyId, calendarId))!;
+    } catch (error) {
+      logger.error('Error updating holiday calendar', { error, companyId, calendarId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a public holiday to a calendar
+   */
+  async addHoliday(companyId: string, calendarId: string, data: DayData, createdBy: string): Promise<PublicHoliday> {
+    try {
+      const db = getDatabase();
+      await this.getCalendarRow(db, companyId, calendarId);
+      const date = toDateOnly(data.date);
+
+      const existing = await db('public_holidays')
+        .where('calendar_id', calendarId)
+        .where('date', date)
+        .first();
+      if (existing) {
+        throw new ConflictError(`${existing.name} is already a holiday on ${date}`);
+      }
+
+      const [row] = await db('public_holidays')
+        .insert({
+          id: uuidv4(),
+          calendar_id: calendarId,
+          date,
+          name: data.name.trim(),
+          source: 'manual',
+          created_by: createdBy
+        })
+        .returning('*');
+
+      logger.info('Public holiday added successfully', { calendarId, date, companyId, createdBy });
+
+      return this.mapHoliday(row);
+    } catch (error) {
+      logger.error('Error adding public holiday', { error, companyId, calendarId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a public holiday
+   */
+  async deleteHoliday(companyId: string, calendarId: string, holidayId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      await this.getCalendarRow(db, companyId, calendarId);
+
+      const deleted = await db('public_holidays')
+        .where('id', holidayId)
+        .where('calendar_id', calendarId)
+        .delete();
+      if (!deleted) {
+        throw new NotFoundError('Public holiday not found');
+      }
+
+      logger.info('Public holiday deleted successfully', { holidayId, calendarId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting public holiday', { error, companyId, calendarId, holidayId });
+      throw error;
+    }
+  }
+
+  /**
+   * Import holidays from an iCalendar file; dates the calendar already has
+   * are skipped
+   */
+  async importIcs(
+    companyId: string,
+    calendarId: string,
+    content: string,
+    importedBy: string,
+    untilYear?: number
+  ): Promise<IcsImportResult> {
+    try {
+      const db = getDatabase();
+      await this.getCalendarRow(db, companyId, calendarId);
+
+      const currentYear = parseInt((await this.today(companyId)).slice(0, 4));
+      const parsed = parseIcs(content, untilYear ?? currentYear + ICS_EXPANSION_YEARS);
+
+      // One holiday per date; the first event in the file names it
+      const byDate = new Map<string, { name: string; uid: string | null }>();
+      for (const holiday of parsed.holidays) {
+        if (!byDate.has(holiday.date)) {
+          byDate.set(holiday.date, { name: holiday.name.slice(0, 200), uid: holiday.uid });
+        }
+      }
+
+      let imported = 0;
+      if (byDate.size > 0) {
+        const inserted = await db('public_holidays')
+          .insert(Array.from(byDate.entries()).map(([date, holiday]) => ({
+            id: uuidv4(),
+            calendar_id: calendarId,
+            date,
+            name: holiday.name,
+            source: 'ics',
+            external_uid: holiday.uid ? holiday.uid.slice(0, 255) : null,
+            created_by: importedBy
+          })))
+          .onConflict(['calendar_id', 'date'])
+          .ignore()
+          .returning('id');
+        imported = inserted.length;
+      }
+
+      await auditService.logUserAction({
+        user_id: importedBy,
+        action: 'holiday_calendar_imported',
+        resource_type: 'holiday_calendar',
+        resource_id: calendarId,
+        company_id: companyId,
+        details: {
+          imported,
+          skipped: byDate.size - imported,
+          warnings: parsed.warnings.length
+        }
+      });
+
+      logger.info('Holiday calendar imported successfully', { calendarId, companyId, imported, importedBy });
+
+      return {
+        imported,
+        skipped: byDate.size - imported,
+        warnings: parsed.warnings
+      };
+    } catch (error) {
+      logger.error('Error importing holiday calendar', { error, companyId, calendarId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get company closure days, optionally for one year
+   */
+  async getClosureDays(companyId: string, year?: number): Promise<ClosureDay[]> {
+    try {
+      const db = getDatabase();
+      let query = db('company_closure_days')
+        .where('company_id', companyId)
+        .orderBy('date');
+      if (year) {
+        query = query.whereBetween('date', [`${year}-01-01`, `${year}-12-31`]);
+      }
+
+      const rows = await query;
+      return rows.map((row: any) => ({ ...row, date: toDateOnly(row.date) }));
+    } catch (error) {
+      logger.error('Error fetching closure days', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a company closure day
+   */
+  async addClosureDay(companyId: string, data: DayData, createdBy: string): Promise<ClosureDay> {
+    try {
+      const db = getDatabase();
+      const date = toDateOnly(data.date);
+
+      const existing = await db('company_closure_days')
+        .where('company_id', companyId)
+        .where('date', date)
+        .first();
+      if (existing) {
+        throw new ConflictError(`The company is already closed on ${date}`);
+      }
+
+      const [row] = await db('company_closure_days')
+        .insert({
+          id: uuidv4(),
+          company_id: companyId,
+          date,
+          name: data.name.trim(),
+          created_by: createdBy
+        })
+        .returning('*');
+
+      logger.info('Closure day added successfully', { date, companyId, createdBy });
+
+      return { ...row, date: toDateOnly(row.date) };
+    } catch (error) {
+      logger.error('Error adding closure day', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a company closure day
+   */
+  async deleteClosureDay(companyId: string, closureId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const deleted = await db('company_closure_days')
+        .where('id', closureId)
+        .where('company_id', companyId)
+        .delete();
+      if (!deleted) {
+        throw new NotFoundError('Closure day not found');
+      }
+
+      logger.info('Closure day deleted successfully', { closureId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting closure day', { error, companyId, closureId });
+      throw error;
+    }
+  }
+
+  /**
+   * Today's date in the company timezone
+   */
+  async today(companyId: string): Promise<string> {
+    return zonedDateTime(new Date(), await this.companyTimeZone(companyId)).date;
+  }
+
+  /**
+   * Whether a date is a working day. Date values are instants and are read
+   * in the company timezone; 'YYYY-MM-DD' strings are taken as they are.
+   */
+  async isWorkingDay(
+    companyId: string,
+    date: Date | string,
+    options: WorkingDayOptions = {},
+    trx?: Knex.Transaction
+  ): Promise<boolean> {
+    try {
+      const day = await this.localDate(companyId, date);
+      const calendar = await this.loadWorkingCalendar(trx || getDatabase(), companyId, day, day, options);
+      return isWorkingDay(calendar, day);
+    } catch (error) {
+      logger.error('Error checking working day', { error, companyId, date });
+      throw error;
+    }
+  }
+
+  /**
+   * Working days from start to end inclusive
+   */
+  async countWorkingDays(
+    companyId: string,
+    startDate: Date | string,
+    endDate: Date | string,
+    options: WorkingDayOptions = {},
+    trx?: Knex.Transaction
+  ): Promise<number> {
+    try {
+      const start = await this.localDate(companyId, startDate);
+      const end = await this.localDate(companyId, endDate);
+      if (end < start) return 0;
+
+      const calendar = await this.loadWorkingCalendar(trx || getDatabase(), companyId, start, end, options);
+      return countWorkingDays(calendar, start, end);
+    } catch (error) {
+      logger.error('Error counting working days', { error, companyId, startDate, endDate });
+      throw error;
+    }
+  }
+
+  /**
+   * The date a number of working days after (or before, when negative) a
+   * date, or after today in the company timezone when no date is given
+   */
+  async addWorkingDays(
+    companyId: string,
+    from: Date | string | undefined,
+    days: number,
+    options: WorkingDayOptions = {},
+    trx?: Knex.Transaction
+  ): Promise<string> {
+    try {
+      const db = trx || getDatabase();
+      const start = from !== undefined ? await this.localDate(companyId, from) : await this.today(companyId);
+
+      // Load holidays for a window that comfortably covers the result, widening it if not
+      let span = Math.abs(days) * 2 + 31;
+      for (;;) {
+        const windowStart = days < 0 ? addDays(start, -span) : start;
+        const windowEnd = days < 0 ? start : addDays(start, span);
+        const calendar = await this.loadWorkingCalendar(db, companyId, windowStart, windowEnd, options);
+        const result = addWorkingDays(calendar, start, days);
+        if (result >= windowStart && result <= windowEnd) {
+          return result;
+        }
+        span *= 2;
+      }
+    } catch (error) {
+      logger.error('Error adding working days', { error, companyId, from, days });
+      throw error;
+    }
+  }
+
+  /**
+   * Weekend days and non-working dates for a date range: the requested (or
+   * employee's, or default) calendar's holidays plus the company closure days
+   */
+  private async loadWorkingCalendar(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    options: WorkingDayOptions
+  ): Promise<WorkingCalendar> {
+    let calendar: any = null;
+
+    if (options.calendar_id) {
+      calendar = await this.getCalendarRow(db, companyId, options.calendar_id);
+    } else if (options.employee_id) {
+      const employee = await db('employees')
+        .where('id', options.employee_id)
+        .where('company_id', companyId)
+        .first();
+      if (!employee) {
+        throw new NotFoundError('Employee not found');
+      }
+      if (employee.holiday_calendar_id) {
+        calendar = await db('holiday_calendars')
+          .where('id', employee.holiday_calendar_id)
+          .where('is_active', true)
+          .first();
+      }
+    }
+
+    // Fall back to the company default
+    if (!calendar) {
+      calendar = await db('holiday_calendars')
+        .where('company_id', companyId)
+        .where('is_default', true)
+        .where('is_active', true)
+        .first();
+    }
+
+    const holidays = calendar
+      ? await db('public_holidays')
+        .where('calendar_id', calendar.id)
+        .whereBetween('date', [startDate, endDate])
+        .select('date')
+      : [];
+    const closures = await db('company_closure_days')
+      .where('company_id', companyId)
+      .whereBetween('date', [startDate, endDate])
+      .select('date');
+
+    return {
+      weekend_days: calendar ? calendar.weekend_days : DEFAULT_WEEKEND_DAYS,
+      non_working_dates: new Set([...holidays, ...closures].map((row: any) => toDateOnly(row.date)))
+    };
+  }
+
+  /**
+   * Calendar date of a value: date strings as given, instants in the company timezone
+   */
+  private async localDate(companyId: string, value: Date | string): Promise<string> {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return value;
+    }
+
+    const instant = value instanceof Date ? value : new Date(value);
+    if (isNaN(instant.getTime())) {
+      throw new ValidationError(`Invalid date: ${value}`);
+    }
+    return zonedDateTime(instant, await this.companyTimeZone(companyId)).date;
+  }
+
+  /**
+   * The calendar must belong to the company
+   */
+  private async getCalendarRow(db: Knex | Knex.Transaction, companyId: string, calendarId: string): Promise<any> {
+    const calendar = await db('holiday_calendars')
+      .where('id', calendarId)
+      .where('company_id', companyId)
+      .first();
+
+    if (!calendar) {
+      throw new NotFoundError('Holiday calendar not found');
+    }
+    return calendar;
+  }
+
+  /**
+   * A week needs at least one working day
+   */
+  private validateWeekendDays(weekendDays?: number[]): void {
+    if (weekendDays && new Set(weekendDays).size >= 7) {
+      throw new ValidationError('A calendar must have at least one working day in the week');
+    }
+  }
+
+  /**
+   * Company timezone for local dates (UTC when not set)
+   */
+  private async companyTimeZone(companyId: string): Promise<string> {
+    const company = await companyService.getCompanyById(companyId);
+    return company?.timezone || 'UTC';
+  }
+
+  /**
+   * Map a holiday row
+   */
+  private mapHoliday(row: any): PublicHoliday {
+    return {
+      ...row,
+      date: toDateOnly(row.date)
+    };
+  }
+}
+
+export const calendarService = new CalendarService();
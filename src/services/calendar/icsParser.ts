@@ -0,0 +1,216 @@
+import { addDays, toDateOnly } from '../../utils/dateUtils';
+import { ValidationError } from '../../middleware/errorHandler';
+
+/**
+ * Reads holidays from iCalendar (RFC 5545) files such as the public holiday
+ * feeds published by governments and calendar providers.
+ *
+ * Each VEVENT becomes one holiday per day it covers; DATE values end the day
+ * before DTEND, as the standard requires. Yearly recurrences (the usual way
+ * fixed-date holidays are published) are expanded up to a given year, less
+ * any EXDATEs. Cancelled events and other recurrence frequencies are skipped
+ * and reported as warnings.
+ */
+
+export interface IcsHoliday {
+  date: string;
+  name: string;
+  uid: string | null;
+}
+
+export interface ParsedIcs {
+  holidays: IcsHoliday[];
+  warnings: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Longest single event accepted, to catch feeds that mark whole seasons
+const MAX_EVENT_DAYS = 31;
+
+/**
+ * Undo RFC 5545 line folding (CRLF followed by a space or tab)
+ */
+const unfold = (content: string): string[] => {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+};
+
+/**
+ * Split a content line into name, parameters and value; parameter values
+ * may be quoted and contain colons
+ */
+const parseLine = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Unescape a TEXT value
+ */
+const unescapeText = (value: string): string => {
+  return value
+    .replace(/\\[nN]/g, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+};
+
+/**
+ * Calendar date of a DATE or DATE-TIME value (date-times keep their own date)
+ */
+const parseIcsDate = (value: string): string => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new ValidationError(`Invalid iCalendar date: ${value}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/**
+ * Whether a DATE-TIME value is exactly midnight, so an end on it excludes that day
+ */
+const isMidnight = (value: string): boolean => /T000000Z?$/.test(value.trim());
+
+/**
+ * Days an event covers, from DTSTART to the day before an exclusive DTEND
+ */
+const eventDays = (start: IcsProperty, end: IcsProperty | undefined): string[] => {
+  const startDate = parseIcsDate(start.value);
+  if (!end) return [startDate];
+
+  const dateOnly = end.params.VALUE === 'DATE' || /^\d{8}$/.test(end.value.trim());
+  let lastDate = parseIcsDate(end.value);
+  if (dateOnly || isMidnight(end.value)) {
+    lastDate = addDays(lastDate, -1);
+  }
+
+  const days: string[] = [];
+  for (let date = startDate; date <= lastDate && days.length < MAX_EVENT_DAYS; date = addDays(date, 1)) {
+    days.push(date);
+  }
+  return days.length > 0 ? days : [startDate];
+};
+
+/**
+ * The same month and day in another year, or null when it does not exist (29 February)
+ */
+const inYear = (date: string, year: number): string | null => {
+  const candidate = `${year}${date.slice(4)}`;
+  return toDateOnly(new Date(`${candidate}T00:00:00.000Z`)) === candidate ? candidate : null;
+};
+
+/**
+ * Parse the holidays in an iCalendar file; yearly recurrences are expanded
+ * to the end of untilYear
+ */
+export const parseIcs = (content: string, untilYear: number): ParsedIcs => {
+  const lines = unfold(content);
+  if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ValidationError('File is not an iCalendar (BEGIN:VCALENDAR missing)');
+  }
+
+  const holidays: IcsHoliday[] = [];
+  const warnings: string[] = [];
+  let event: IcsProperty[] | null = null;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      event = [];
+      continue;
+    }
+    if (upper !== 'END:VEVENT') {
+      if (event) {
+        const property = parseLine(line);
+        if (property) event.push(property);
+      }
+      continue;
+    }
+    if (!event) continue;
+
+    const properties = event;
+    event = null;
+    const get = (name: string) => properties.find(property => property.name === name);
+
+    const summary = get('SUMMARY');
+    const name = summary ? unescapeText(summary.value) : 'Holiday';
+    const uid = get('UID')?.value.trim() || null;
+    const start = get('DTSTART');
+    if (!start) {
+      warnings.push(`Skipped "${name}": no start date`);
+      continue;
+    }
+    if (get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+      continue;
+    }
+
+    const days = eventDays(start, get('DTEND'));
+    const rrule = get('RRULE');
+    if (!rrule) {
+      holidays.push(...days.map(date => ({ date, name, uid })));
+      continue;
+    }
+
+    const rule: Record<string, string> = {};
+    for (const part of rrule.value.split(';')) {
+      const [key, value] = part.split('=');
+      rule[key.toUpperCase()] = value;
+    }
+    if (rule.FREQ !== 'YEARLY' || rule.BYDAY || rule.BYSETPOS) {
+      warnings.push(`Skipped "${name}": only fixed-date yearly recurrences are supported`);
+      continue;
+    }
+
+    const interval = Math.max(1, parseInt(rule.INTERVAL || '1'));
+    const count = rule.COUNT ? parseInt(rule.COUNT) : null;
+    const until = rule.UNTIL ? parseIcsDate(rule.UNTIL) : null;
+    const excluded = new Set(
+      properties
+        .filter(property => property.name === 'EXDATE')
+        .flatMap(property => property.value.split(',').map(parseIcsDate))
+    );
+
+    const firstYear = parseInt(days[0].slice(0, 4));
+    let occurrences = 0;
+    for (let year = firstYear; year <= untilYear; year += interval) {
+      if (count !== null && occurrences >= count) break;
+      const first = inYear(days[0], year);
+      if (!first) continue;
+      if (until && first > until) break;
+      occurrences++;
+      if (excluded.has(first)) continue;
+
+      for (const day of days) {
+        const date = inYear(day, year + parseInt(day.slice(0, 4)) - firstYear);
+        if (date) holidays.push({ date, name, uid });
+      }
+    }
+  }
+
+  return { holidays, warnings };
+};
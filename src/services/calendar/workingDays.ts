@@ -0,0 +1,62 @@
+import { addDays, dayOfWeek } from '../../utils/dateUtils';
+
+/**
+ * Working-day arithmetic.
+ *
+ * A day is worked unless it falls on one of the calendar's weekend days or
+ * is a listed non-working date (a public holiday or company closure). All
+ * dates are 'YYYY-MM-DD' calendar days; callers resolve instants to the
+ * company's local date before using them.
+ */
+
+export interface WorkingCalendar {
+  // Days of the week that are not worked (0 = Sunday)
+  weekend_days: number[];
+  // Public holidays and closure days
+  non_working_dates: Set<string>;
+}
+
+/**
+ * Whether a date is a working day
+ */
+export const isWorkingDay = (calendar: WorkingCalendar, date: string): boolean => {
+  return !calendar.weekend_days.includes(dayOfWeek(date)) && !calendar.non_working_dates.has(date);
+};
+
+/**
+ * Working days from start to end inclusive (zero when end is earlier)
+ */
+export const countWorkingDays = (calendar: WorkingCalendar, startDate: string, endDate: string): number => {
+  let days = 0;
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (isWorkingDay(calendar, date)) days++;
+  }
+  return days;
+};
+
+/**
+ * The date a number of working days after (or, when negative, before) a
+ * date; zero rolls a non-working date forward to the next working day
+ */
+export const addWorkingDays = (calendar: WorkingCalendar, date: string, days: number): string => {
+  if (calendar.weekend_days.length >= 7) {
+    throw new Error('Calendar has no working days in the week');
+  }
+
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  let current = date;
+
+  if (remaining === 0) {
+    while (!isWorkingDay(calendar, current)) {
+      current = addDays(current, 1);
+    }
+    return current;
+  }
+
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (isWorkingDay(calendar, current)) remaining--;
+  }
+  return current;
+};
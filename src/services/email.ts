@@ -3,6 +3,7 @@ import { logger } from '../utils/logger';
 
 interface EmailOptions {
   to: string;
+  cc?: string;
   subject: string;
   html: string;
   text?: string;
@@ -39,10 +40,11 @@ class EmailService {
       },
     };
 
-    this.transporter = nodemailer.createTransporter(config);
+    const transporter = nodemailer.createTransport(config);
+    this.transporter = transporter;
 
     // Verify connection
-    this.transporter.verify((error, success) => {
+    transporter.verify((error, success) => {
       if (error) {
         logger.error('Email service initialization failed:', error);
       } else {
@@ -59,6 +61,7 @@ class EmailService {
     const mailOptions = {
       from: process.env.EMAIL_FROM || 'noreply@nitroerp.com',
       to: options.to,
+      cc: options.cc,
       subject: options.subject,
       html: options.html,
       text: options.text,
@@ -354,6 +357,169 @@ class EmailService {
     });
   }
 
+  // Invoice email with the invoice PDF attached
+  public async sendInvoiceEmail(email: string, invoice: {
+    subject: string;
+    companyName: string;
+    invoiceNumber: string;
+    message: string;
+    attachmentName: string;
+    attachmentContent: Buffer;
+    cc?: string;
+  }): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${invoice.subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${invoice.companyName}</h1>
+            <p>Invoice ${invoice.invoiceNumber}</p>
+          </div>
+          <div class="content">
+            <div style="white-space: pre-wrap;">${invoice.message}</div>
+            <p>Your invoice is attached to this email.</p>
+          </div>
+          <div class="footer">
+            <p>Sent on behalf of ${invoice.companyName} by NitroERP.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      cc: invoice.cc,
+      subject: invoice.subject,
+      html,
+      attachments: [{
+        filename: invoice.attachmentName,
+        content: invoice.attachmentContent,
+        contentType: 'application/pdf',
+      }],
+    });
+  }
+
+  public async sendPaymentReminderEmail(email: string, reminder: {
+    subject: string;
+    companyName: string;
+    invoiceNumber: string;
+    levelName: string;
+    message: string;
+    attachmentName: string;
+    attachmentContent: Buffer;
+  }): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${reminder.subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${reminder.companyName}</h1>
+            <p>${reminder.levelName}: Invoice ${reminder.invoiceNumber}</p>
+          </div>
+          <div class="content">
+            <div style="white-space: pre-wrap;">${reminder.message}</div>
+            <p>A copy of the invoice is attached. If you have already paid, please ignore this reminder.</p>
+          </div>
+          <div class="footer">
+            <p>Sent on behalf of ${reminder.companyName} by NitroERP.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: reminder.subject,
+      html,
+      attachments: [{
+        filename: reminder.attachmentName,
+        content: reminder.attachmentContent,
+        contentType: 'application/pdf',
+      }],
+    });
+  }
+
+  // Payslip email with the password-protected PDF attached
+  public async sendPayslipEmail(email: string, payslip: {
+    companyName: string;
+    employeeName: string;
+    period: string;
+    passwordHint: string;
+    attachmentName: string;
+    attachmentContent: Buffer;
+  }): Promise<void> {
+    const subject = `Your payslip for ${payslip.period} - ${payslip.companyName}`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${payslip.companyName}</h1>
+            <p>Payslip for ${payslip.period}</p>
+          </div>
+          <div class="content">
+            <p>Dear ${payslip.employeeName},</p>
+            <p>Your payslip for ${payslip.period} is attached. The PDF is password protected; the password is ${payslip.passwordHint}.</p>
+            <p>Past payslips are available in NitroERP under your payslip archive.</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from NitroERP. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject,
+      html,
+      attachments: [{
+        filename: payslip.attachmentName,
+        content: payslip.attachmentContent,
+        contentType: 'application/pdf',
+      }],
+    });
+  }
+
   // Test email functionality
   public async sendTestEmail(email: string): Promise<void> {
     const subject = 'Test Email - NitroERP';
@@ -0,0 +1,196 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { toDateOnly } from '../utils/dateUtils';
+
+export interface ExchangeRateQuote {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  rate_date: string;
+  source: string;
+}
+
+/**
+ * A source of published exchange rates. Quotes read as
+ * "1 base_currency = rate quote_currency".
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(date?: string): Promise<ExchangeRateQuote[]>;
+}
+
+export interface ProviderOptions {
+  url: string;
+  fixtureDir?: string;
+  timeoutMs?: number;
+}
+
+// SARB publishes "Rand per <currency>" series
+const SARB_CURRENCY_NAMES: Record<string, string> = {
+  'us dollar': 'USD',
+  'british pound': 'GBP',
+  'pound sterling': 'GBP',
+  'euro': 'EUR',
+  'japanese yen': 'JPY',
+  'swiss franc': 'CHF',
+  'australian dollar': 'AUD',
+  'canadian dollar': 'CAD',
+  'chinese yuan': 'CNY',
+  'botswana pula': 'BWP',
+  'new zealand dollar': 'NZD',
+  'indian rupee': 'INR',
+};
+
+/**
+ * Keep only the latest publication on or before the requested date
+ */
+const selectPublication = (quotes: ExchangeRateQuote[], date?: string): ExchangeRateQuote[] => {
+  const eligible = date ? quotes.filter(quote => quote.rate_date <= date) : quotes;
+  if (eligible.length === 0) return [];
+
+  const latest = eligible.reduce((max, quote) => (quote.rate_date > max ? quote.rate_date : max), eligible[0].rate_date);
+  return eligible.filter(quote => quote.rate_date === latest);
+};
+
+/**
+ * Parse a SARB rates response (JSON array of "Rand per X" indicators)
+ */
+export const parseSarbRates = (body: string, date?: string): ExchangeRateQuote[] => {
+  const data = JSON.parse(body);
+  const items: any[] = Array.isArray(data) ? data : data.rates || data.data || [];
+  const quotes: ExchangeRateQuote[] = [];
+
+  for (const item of items) {
+    const name = String(item.Name || item.name || '').toLowerCase();
+    const match = name.match(/^rand per (.+)$/);
+    const currency = match ? SARB_CURRENCY_NAMES[match[1].trim()] : undefined;
+    const value = Number(item.Value ?? item.value);
+
+    if (!currency || !isFinite(value) || value <= 0) continue;
+
+    quotes.push({
+      base_currency: currency,
+      quote_currency: 'ZAR',
+      rate: value,
+      rate_date: toDateOnly(item.Date || item.date),
+      source: 'sarb'
+    });
+  }
+
+  return selectPublication(quotes, date);
+};
+
+/**
+ * Parse ECB reference rates: the eurofxref XML feed (daily or historical)
+ * or an exchangerate.host style JSON body ({ base, date, rates })
+ */
+export const parseEcbRates = (body: string, date?: string): ExchangeRateQuote[] => {
+  const quotes: ExchangeRateQuote[] = [];
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('<')) {
+    const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+    const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+    let day: RegExpExecArray | null;
+    while ((day = dayPattern.exec(trimmed)) !== null) {
+      let rate: RegExpExecArray | null;
+      while ((rate = ratePattern.exec(day[2])) !== null) {
+        quotes.push({
+          base_currency: 'EUR',
+          quote_currency: rate[1],
+          rate: parseFloat(rate[2]),
+          rate_date: day[1],
+          source: 'ecb'
+        });
+      }
+    }
+  } else {
+    const data = JSON.parse(trimmed);
+    const base = String(data.base || 'EUR').toUpperCase();
+    for (const [currency, value] of Object.entries<number>(data.rates || {})) {
+      if (currency === base || !(Number(value) > 0)) continue;
+      quotes.push({
+        base_currency: base,
+        quote_currency: currency.toUpperCase(),
+        rate: Number(value),
+        rate_date: toDateOnly(data.date),
+        source: 'ecb'
+      });
+    }
+  }
+
+  return selectPublication(quotes, date);
+};
+
+/**
+ * Read a provider response from the fixture directory or over HTTP
+ */
+const loadSource = async (options: ProviderOptions, fixtureFile: string, url: string): Promise<string> => {
+  if (options.fixtureDir) {
+    return fs.readFile(path.resolve(options.fixtureDir, fixtureFile), 'utf8');
+  }
+
+  const response = await axios.get<string>(url, {
+    responseType: 'text',
+    timeout: options.timeoutMs ?? 15000,
+    // Keep the raw body; each provider does its own parsing
+    transformResponse: [(data) => data]
+  });
+  return response.data;
+};
+
+export class SarbRateProvider implements ExchangeRateProvider {
+  readonly name = 'sarb';
+
+  constructor(private options: ProviderOptions) {}
+
+  async fetchRates(date?: string): Promise<ExchangeRateQuote[]> {
+    const url = date ? `${this.options.url}?date=${date}` : this.options.url;
+    const body = await loadSource(this.options, 'sarb.json', url);
+    return parseSarbRates(body, date);
+  }
+}
+
+export class EcbRateProvider implements ExchangeRateProvider {
+  readonly name = 'ecb';
+
+  constructor(private options: ProviderOptions) {}
+
+  async fetchRates(date?: string): Promise<ExchangeRateQuote[]> {
+    let url = this.options.url;
+    if (date) {
+      url = /\/latest$/.test(url) ? url.replace(/\/latest$/, `/${date}`) : `${url}?date=${date}`;
+    }
+    const body = await loadSource(this.options, 'ecb.xml', url);
+    return parseEcbRates(body, date);
+  }
+}
+
+/**
+ * Build the configured providers in priority order (e.g. "sarb,ecb")
+ */
+export const createRateProviders = (config: {
+  EXCHANGE_RATE_PROVIDERS: string;
+  EXCHANGE_RATE_FIXTURE_DIR?: string;
+  SARB_API_URL: string;
+  ECB_API_URL: string;
+}): ExchangeRateProvider[] => {
+  const factories: Record<string, () => ExchangeRateProvider> = {
+    sarb: () => new SarbRateProvider({ url: config.SARB_API_URL, fixtureDir: config.EXCHANGE_RATE_FIXTURE_DIR }),
+    ecb: () => new EcbRateProvider({ url: config.ECB_API_URL, fixtureDir: config.EXCHANGE_RATE_FIXTURE_DIR })
+  };
+
+  return config.EXCHANGE_RATE_PROVIDERS
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0)
+    .map(name => {
+      const factory = factories[name];
+      if (!factory) {
+        throw new Error(`Unknown exchange rate provider: ${name}`);
+      }
+      return factory();
+    });
+};
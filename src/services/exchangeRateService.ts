@@ -1,12 +1,303 @@
+import config, { isTest } from '../../config/environment';
+import { getDatabase } from '../database/connection';
+import { cacheService } from './redisService';
+import { scheduleJob } from './schedulerService';
+import { createRateProviders, ExchangeRateProvider, ExchangeRateQuote } from './exchangeRateProviders';
 import { logger } from '../utils/logger';
+import { toDateOnly, addDays } from '../utils/dateUtils';
+import { NotFoundError } from '../middleware/errorHandler';
+
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  rate_date: string;
+  source: string;
+}
+
+export interface RateFetchResult {
+  rate_date?: string;
+  stored: number;
+  providers: Array<{ name: string; fetched: number; error?: string }>;
+}
+
+export interface ConversionResult {
+  amount: number;
+  rate: number;
+  rate_date: string;
+}
+
+// Rates older than this are treated as unavailable (weekends and public holidays fit inside it)
+export const MAX_RATE_AGE_DAYS = 7;
+const CACHE_TTL_SECONDS = 3600;
+const RATE_PRECISION = 1e8;
+
+const roundRate = (rate: number): number => Math.round(rate * RATE_PRECISION) / RATE_PRECISION;
+
+/**
+ * Find the rate for 1 unit of `from` in `to`: directly, inverted, or crossed
+ * through one intermediate currency (e.g. USD -> ZAR -> EUR)
+ */
+export const resolveRate = (
+  quotes: ExchangeRateQuote[],
+  from: string,
+  to: string
+): { rate: number; rate_date: string; source: string } | null => {
+  if (from === to) {
+    return { rate: 1, rate_date: quotes[0]?.rate_date ?? '', source: 'identity' };
+  }
+
+  // Edges in both directions: currency -> [{ currency, rate, quote }]
+  const edges = new Map<string, Array<{ to: string; rate: number; quote: ExchangeRateQuote }>>();
+  const addEdge = (a: string, b: string, rate: number, quote: ExchangeRateQuote) => {
+    if (!edges.has(a)) edges.set(a, []);
+    edges.get(a)!.push({ to: b, rate, quote });
+  };
+  for (const quote of quotes) {
+    addEdge(quote.base_currency, quote.quote_currency, quote.rate, quote);
+    addEdge(quote.quote_currency, quote.base_currency, 1 / quote.rate, quote);
+  }
+
+  const direct = (edges.get(from) || []).find(edge => edge.to === to);
+  if (direct) {
+    return { rate: roundRate(direct.rate), rate_date: direct.quote.rate_date, source: direct.quote.source };
+  }
+
+  for (const first of edges.get(from) || []) {
+    const second = (edges.get(first.to) || []).find(edge => edge.to === to);
+    if (second) {
+      return {
+        rate: roundRate(first.rate * second.rate),
+        rate_date: first.quote.rate_date < second.quote.rate_date ? first.quote.rate_date : second.quote.rate_date,
+        source: first.quote.source === second.quote.source ? first.quote.source : `${first.quote.source}+${second.quote.source}`
+      };
+    }
+  }
+
+  return null;
+};
+
+export class ExchangeRateService {
+  private providers: ExchangeRateProvider[];
+
+  constructor(providers?: ExchangeRateProvider[]) {
+    this.providers = providers || createRateProviders(config);
+  }
+
+  /**
+   * Replace the configured providers (tests, manual backfills)
+   */
+  setProviders(providers: ExchangeRateProvider[]): void {
+    this.providers = providers;
+  }
+
+  /**
+   * Fetch rates from every provider and store them. Providers are tried in
+   * priority order; a pair already stored for the day is not overwritten.
+   */
+  async fetchAndStoreRates(date?: Date | string): Promise<RateFetchResult> {
+    try {
+      const db = getDatabase();
+      const requestedDate = date ? toDateOnly(date) : undefined;
+      const result: RateFetchResult = { rate_date: requestedDate, stored: 0, providers: [] };
+      const storedDates = new Set<string>();
+
+      for (const provider of this.providers) {
+        try {
+          const quotes = await provider.fetchRates(requestedDate);
+
+          if (quotes.length > 0) {
+            const inserted = await db('exchange_rates')
+              .insert(quotes.map(quote => ({
+                base_currency: quote.base_currency,
+                quote_currency: quote.quote_currency,
+                rate: quote.rate,
+                rate_date: quote.rate_date,
+                source: quote.source
+              })))
+              .onConflict(['base_currency', 'quote_currency', 'rate_date'])
+              .ignore()
+              .returning('id');
+
+            result.stored += inserted.length;
+            quotes.forEach(quote => storedDates.add(quote.rate_date));
+          }
+
+          result.providers.push({ name: provider.name, fetched: quotes.length });
+        } catch (error) {
+          // One provider being down must not stop the others
+          logger.warn('Exchange rate provider failed', {
+            provider: provider.name,
+            date: requestedDate,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          result.providers.push({
+            name: provider.name,
+            fetched: 0,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      for (const storedDate of storedDates) {
+        await this.invalidateCache(storedDate);
+      }
+
+      logger.info('Exchange rates fetched', {
+        date: requestedDate || 'latest',
+        stored: result.stored,
+        providers: result.providers
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error fetching exchange rates', { error, date });
+      throw error;
+    }
+  }
+
+  /**
+   * Latest stored quote per currency pair on or before a date
+   */
+  async getQuotesAsOf(date: Date | string): Promise<ExchangeRateQuote[]> {
+    try {
+      const asOf = toDateOnly(date);
+      const cacheKey = `exchange-rates:${asOf}`;
+
+      const cached = await cacheService.get<ExchangeRateQuote[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const db = getDatabase();
+      const rows = await db('exchange_rates')
+        .distinctOn(['base_currency', 'quote_currency'])
+        .select('base_currency', 'quote_currency', 'rate', 'rate_date', 'source')
+        .where('rate_date', '<=', asOf)
+        .where('rate_date', '>', addDays(asOf, -MAX_RATE_AGE_DAYS))
+        .orderBy([
+          { column: 'base_currency' },
+          { column: 'quote_currency' },
+          { column: 'rate_date', order: 'desc' }
+        ]);
+
+      const quotes: ExchangeRateQuote[] = rows.map((row: any) => ({
+        base_currency: row.base_currency,
+        quote_currency: row.quote_currency,
+        rate: parseFloat(row.rate),
+        rate_date: toDateOnly(row.rate_date),
+        source: row.source
+      }));
+
+      await cacheService.set(cacheKey, quotes, CACHE_TTL_SECONDS);
+
+      return quotes;
+    } catch (error) {
+      logger.error('Error fetching exchange rates as of date', { error, date });
+      throw error;
+    }
+  }
+
+  /**
+   * Rates for every known currency against a base currency on a date
+   */
+  async getRates(baseCurrency: string, date: Date | string, symbols?: string[]): Promise<ExchangeRate[]> {
+    try {
+      const base = baseCurrency.toUpperCase();
+      const quotes = await this.getQuotesAsOf(date);
+
+      const currencies = new Set<string>();
+      quotes.forEach(quote => {
+        currencies.add(quote.base_currency);
+        currencies.add(quote.quote_currency);
+      });
+      currencies.delete(base);
+
+      const wanted = symbols && symbols.length > 0
+        ? symbols.map(symbol => symbol.toUpperCase())
+        : Array.from(currencies).sort();
+
+      const rates: ExchangeRate[] = [];
+      for (const currency of wanted) {
+        // Units of the base currency per 1 unit of `currency`
+        const resolved = resolveRate(quotes, currency, base);
+        if (resolved) {
+          rates.push({ currency, rate: resolved.rate, rate_date: resolved.rate_date, source: resolved.source });
+        }
+      }
+
+      return rates;
+    } catch (error) {
+      logger.error('Error fetching exchange rates', { error, baseCurrency, date });
+      throw error;
+    }
+  }
+
+  /**
+   * Rate for 1 unit of `from` expressed in `to` on a date
+   */
+  async getRate(from: string, to: string, date: Date | string): Promise<{ rate: number; rate_date: string }> {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    if (source === target) {
+      return { rate: 1, rate_date: toDateOnly(date) };
+    }
+
+    const resolved = resolveRate(await this.getQuotesAsOf(date), source, target);
+    if (!resolved) {
+      throw new NotFoundError(`No ${source}/${target} exchange rate available on ${toDateOnly(date)}`);
+    }
+
+    return { rate: resolved.rate, rate_date: resolved.rate_date };
+  }
+
+  /**
+   * Convert an amount between currencies at the rate on a date
+   */
+  async convert(amount: number, from: string, to: string, date: Date | string): Promise<ConversionResult> {
+    const { rate, rate_date } = await this.getRate(from, to, date);
+    return {
+      amount: Math.round(amount * rate * 100) / 100,
+      rate,
+      rate_date
+    };
+  }
+
+  /**
+   * Drop cached snapshots that could include rates for the given date
+   */
+  private async invalidateCache(rateDate: string): Promise<void> {
+    for (let offset = 0; offset < MAX_RATE_AGE_DAYS; offset++) {
+      await cacheService.delete(`exchange-rates:${addDays(rateDate, offset)}`);
+    }
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService();
 
 export const initializeExchangeRateService = async (): Promise<void> => {
   try {
-    logger.info('Exchange rate service initialized successfully');
+    if (!isTest()) {
+      scheduleJob('exchange-rates:daily-fetch', config.EXCHANGE_RATE_CRON, async () => {
+        await exchangeRateService.fetchAndStoreRates();
+      });
+
+      // Populate today's rates after a deploy without holding up startup
+      exchangeRateService.fetchAndStoreRates().catch((error) => {
+        logger.warn('Initial exchange rate fetch failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+
+    logger.info('Exchange rate service initialized successfully', {
+      providers: config.EXCHANGE_RATE_PROVIDERS,
+      fixtures: config.EXCHANGE_RATE_FIXTURE_DIR || null,
+    });
   } catch (error) {
     logger.error('Failed to initialize exchange rate service', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw error;
   }
-}; 
\ No newline at end of file
+};
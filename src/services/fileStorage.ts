@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../../config/environment';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../middleware/errorHandler';
+
+/**
+ * Files kept on disk under UPLOAD_PATH (generated payslips, employee
+ * documents). Paths are stored relative to the root so the directory can
+ * move between hosts; they are never taken from user input unchecked.
+ */
+export class FileStorage {
+  constructor(private readonly root: string = config.UPLOAD_PATH) {}
+
+  /**
+   * Absolute path of a stored file; rejects paths that leave the root
+   */
+  resolve(relativePath: string): string {
+    const root = path.resolve(this.root);
+    const absolute = path.resolve(root, relativePath);
+
+    if (absolute !== root && !absolute.startsWith(root + path.sep)) {
+      throw new Error(`Path escapes the upload directory: ${relativePath}`);
+    }
+
+    return absolute;
+  }
+
+  /**
+   * Write a file, creating its directories; returns the size in bytes
+   */
+  async save(relativePath: string, content: Buffer): Promise<number> {
+    try {
+      const absolute = this.resolve(relativePath);
+      await fs.mkdir(path.dirname(absolute), { recursive: true });
+      await fs.writeFile(absolute, content);
+
+      return content.length;
+    } catch (error) {
+      logger.error('Error saving file', { error, relativePath });
+      throw error;
+    }
+  }
+
+  /**
+   * Read a stored file
+   */
+  async read(relativePath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(relativePath));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError('File not found');
+      }
+      logger.error('Error reading file', { error, relativePath });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a stored file; missing files are ignored
+   */
+  async remove(relativePath: string): Promise<void> {
+    try {
+      await fs.rm(this.resolve(relativePath), { force: true });
+    } catch (error) {
+      logger.error('Error removing file', { error, relativePath });
+      throw error;
+    }
+  }
+}
+
+export const fileStorage = new FileStorage();
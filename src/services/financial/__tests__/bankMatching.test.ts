@@ -0,0 +1,54 @@
+import { autoMatchLines, rankCandidates, LedgerLineForMatch } from '../bankMatching';
+
+describe('Bank line matching', () => {
+  const ledgerLines: LedgerLineForMatch[] = [
+    { id: 'je-1', entry_date: '2024-04-01', amount: 1000, entry_number: 'JE-000101', reference: 'INV-000042', description: 'Payment for invoice INV-000042' },
+    { id: 'je-2', entry_date: '2024-04-02', amount: 1000, entry_number: 'JE-000102', reference: 'INV-000043', description: 'Payment for invoice INV-000043' },
+    { id: 'je-3', entry_date: '2024-04-03', amount: -500, entry_number: 'JE-000103', reference: 'PAY-000007', description: 'Payment of supplier bill' },
+    { id: 'je-4', entry_date: '2024-04-03', amount: -80, entry_number: 'JE-000104', reference: null, description: 'Stationery' },
+    { id: 'je-5', entry_date: '2024-04-04', amount: -80, entry_number: 'JE-000105', reference: null, description: 'Courier' },
+  ];
+
+  it('should prefer a reference match over a closer date', () => {
+    const candidates = rankCandidates(
+      { id: 'b-1', transaction_date: '2024-04-02', amount: 1000, description: 'Widget Traders INV 000042', reference: null },
+      ledgerLines
+    );
+
+    expect(candidates.map(candidate => [candidate.journal_line_id, candidate.reference_match, candidate.days_apart])).toEqual([
+      ['je-1', true, 1],
+      ['je-2', false, 0],
+    ]);
+  });
+
+  it('should only pair lines that are unambiguous and use each ledger line once', () => {
+    const matches = autoMatchLines([
+      { id: 'b-1', transaction_date: '2024-04-02', amount: 1000, description: 'Deposit', reference: 'INV-000042' },
+      { id: 'b-2', transaction_date: '2024-04-03', amount: 1000, description: 'Deposit', reference: null },
+      { id: 'b-3', transaction_date: '2024-04-05', amount: -500, description: 'Supplier payments', reference: null },
+      { id: 'b-4', transaction_date: '2024-04-05', amount: -80, description: 'Card', reference: null },
+      { id: 'b-5', transaction_date: '2024-04-20', amount: -500, description: 'Outside window', reference: null },
+    ], ledgerLines, 3);
+
+    expect(matches).toEqual([
+      { bank_line_id: 'b-1', journal_line_id: 'je-1', amount: 1000 },
+      // Only je-2 is left at 1,000 once je-1 is taken
+      { bank_line_id: 'b-2', journal_line_id: 'je-2', amount: 1000 },
+      { bank_line_id: 'b-3', journal_line_id: 'je-3', amount: -500 },
+      // je-5 is one day closer than je-4
+      { bank_line_id: 'b-4', journal_line_id: 'je-5', amount: -80 },
+    ]);
+  });
+
+  it('should leave ties for manual matching', () => {
+    const matches = autoMatchLines(
+      [{ id: 'b-1', transaction_date: '2024-04-03', amount: -80, description: 'Card', reference: null }],
+      [
+        { ...ledgerLines[3], entry_date: '2024-04-02' },
+        { ...ledgerLines[4], entry_date: '2024-04-04' },
+      ]
+    );
+
+    expect(matches).toEqual([]);
+  });
+});
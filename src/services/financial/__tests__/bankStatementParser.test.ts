@@ -0,0 +1,163 @@
+import {
+  parseStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  detectStatementFormat,
+} from '../bankStatementParser';
+
+describe('Bank statement parsing', () => {
+  it('should parse amounts and dates in the common bank export styles', () => {
+    expect(parseStatementAmount('1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('-1 234,56')).toBe(-1234.56);
+    expect(parseStatementAmount('(250.00)')).toBe(-250);
+    expect(parseStatementAmount('R 99.90 DR')).toBe(-99.9);
+    expect(parseStatementAmount('100.00CR')).toBe(100);
+
+    expect(parseStatementDate('2024-03-31')).toBe('2024-03-31');
+    expect(parseStatementDate('20240331120000[+2:SAST]')).toBe('2024-03-31');
+    expect(parseStatementDate('31/03/2024')).toBe('2024-03-31');
+    expect(() => parseStatementDate('31/02/2024')).toThrow('Invalid statement date');
+  });
+
+  it('should read a newest-first CSV with debit/credit columns and running balance', () => {
+    const csv = [
+      'Date;Description;Reference;Debit;Credit;Balance',
+      '03/04/2024;Bank charges;;15,00;;1 985,00',
+      '02/04/2024;Payment from Widget Traders;INV-000042;;1 000,00;2 000,00',
+      '01/04/2024;Rent;APR RENT;500,00;;1 000,00',
+    ].join('\n');
+
+    const statement = parseStatement(csv, undefined, 'april.csv');
+
+    expect(statement.format).toBe('csv');
+    expect(statement.lines.map(line => [line.transaction_date, line.amount, line.reference])).toEqual([
+      ['2024-04-01', -500, 'APR RENT'],
+      ['2024-04-02', 1000, 'INV-000042'],
+      ['2024-04-03', -15, null],
+    ]);
+    expect(statement.opening_balance).toBe(1500);
+    expect(statement.closing_balance).toBe(1985);
+    expect(statement.start_date).toBe('2024-04-01');
+    expect(statement.end_date).toBe('2024-04-03');
+  });
+
+  it('should read an OFX 1.x statement with unclosed elements', () => {
+    const ofx = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>ZAR
+<BANKACCTFROM><BANKID>250655<ACCTID>62000000001<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240401
+<DTEND>20240430
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240402
+<TRNAMT>1000.00
+<FITID>2024040201
+<NAME>Widget Traders
+<MEMO>INV-000042
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240403
+<TRNAMT>-15.00
+<FITID>2024040301
+<NAME>Service fee
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>1985.00<DTASOF>20240430</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+    expect(detectStatementFormat(ofx)).toBe('ofx');
+
+    const statement = parseStatement(ofx);
+
+    expect(statement.account_identifier).toBe('62000000001');
+    expect(statement.currency).toBe('ZAR');
+    expect(statement.start_date).toBe('2024-04-01');
+    expect(statement.end_date).toBe('2024-04-30');
+    expect(statement.closing_balance).toBe(1985);
+    expect(statement.opening_balance).toBe(1000);
+    expect(statement.lines).toEqual([
+      { transaction_date: '2024-04-02', amount: 1000, description: 'Widget Traders - INV-000042', reference: null, external_id: '2024040201' },
+      { transaction_date: '2024-04-03', amount: -15, description: 'Service fee', reference: null, external_id: '2024040301' },
+    ]);
+  });
+
+  it('should read booked entries and balances from a CAMT.053 statement', () => {
+    const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-2024-04</Id>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-04-01</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1250.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-04-30</Dt></Dt></Bal>
+      <Ntry>
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">1000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-04-05</Dt></BookgDt>
+        <AcctSvcrRef>BANK-REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>INV-000042</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Widget Traders &amp; Co</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Invoice INV-000042</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">250.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-04-10</Dt></BookgDt>
+        <AcctSvcrRef>BANK-REF-2</AcctSvcrRef>
+        <NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs></TxDtls></NtryDtls>
+        <AddtlNtryInf>Card purchase</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-04-30</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+    expect(detectStatementFormat(camt, 'statement.xml')).toBe('camt053');
+
+    const statement = parseStatement(camt);
+
+    expect(statement.account_identifier).toBe('DE89370400440532013000');
+    expect(statement.currency).toBe('EUR');
+    expect(statement.opening_balance).toBe(500);
+    expect(statement.closing_balance).toBe(1250);
+    expect(statement.lines).toEqual([
+      {
+        transaction_date: '2024-04-05',
+        amount: 1000,
+        description: 'Widget Traders & Co - Invoice INV-000042',
+        reference: 'INV-000042',
+        external_id: 'BANK-REF-1',
+      },
+      {
+        transaction_date: '2024-04-10',
+        amount: -250,
+        description: 'Card purchase',
+        reference: 'BANK-REF-2',
+        external_id: 'BANK-REF-2',
+      },
+    ]);
+  });
+
+  it('should reject files without transactions or required columns', () => {
+    expect(() => parseStatement('Date,Description\n2024-04-01,Rent\n')).toThrow('amount');
+    expect(() => parseStatement('<OFX></OFX>', 'ofx')).toThrow('no transactions');
+  });
+});
@@ -0,0 +1,50 @@
+import { parseBudgetCsv, parseBudgetMonth, parseBudgetAmount } from '../budgetParser';
+
+describe('Budget CSV import', () => {
+  it('should normalise months and amounts', () => {
+    expect(parseBudgetMonth('2025-3')).toBe('2025-03-01');
+    expect(parseBudgetMonth('2025-03-01')).toBe('2025-03-01');
+    expect(parseBudgetMonth('03/2025')).toBe('2025-03-01');
+    expect(() => parseBudgetMonth('2025-13')).toThrow('Invalid budget month');
+
+    expect(parseBudgetAmount('12 500.00')).toBe(12500);
+    expect(parseBudgetAmount('12,500.50')).toBe(12500.5);
+    expect(parseBudgetAmount('(250)')).toBe(-250);
+    expect(() => parseBudgetAmount('abc')).toThrow('Invalid budget amount');
+  });
+
+  it('should read one row per month', () => {
+    const csv = [
+      'Account Number,Cost Centre,Month,Amount',
+      '6100,SALES,2025-03,1000',
+      '6100,,2025-04,"1,250.00"',
+    ].join('\n');
+
+    expect(parseBudgetCsv(csv)).toEqual([
+      { account_number: '6100', cost_centre_code: 'SALES', period_month: '2025-03-01', amount: 1000, line: 2 },
+      { account_number: '6100', cost_centre_code: null, period_month: '2025-04-01', amount: 1250, line: 3 },
+    ]);
+  });
+
+  it('should read one column per month and skip blank cells and rows', () => {
+    const csv = [
+      'account,cost_center,2025-03,2025-04',
+      '4000,,50000,',
+      '6200,OPS,800,900',
+      ',,,',
+    ].join('\n');
+
+    expect(parseBudgetCsv(csv).map(line => [line.account_number, line.cost_centre_code, line.period_month, line.amount])).toEqual([
+      ['4000', null, '2025-03-01', 50000],
+      ['6200', 'OPS', '2025-03-01', 800],
+      ['6200', 'OPS', '2025-04-01', 900],
+    ]);
+  });
+
+  it('should report the line of a bad value', () => {
+    const csv = 'account_number,month,amount\n6100,2025-03,100\n6200,March,100';
+
+    expect(() => parseBudgetCsv(csv)).toThrow('Line 3 (6200): Invalid budget month');
+    expect(() => parseBudgetCsv('account_number,amount\n6100,100')).toThrow('one column per month');
+  });
+});
@@ -0,0 +1,49 @@
+import { buildVarianceLines, totalVariance, crossesBudget, BudgetAccount } from '../budgetVariance';
+import { AccountType } from '../../../types';
+
+describe('Budget variance', () => {
+  const accounts = new Map<string, BudgetAccount>([
+    ['rev', { account_id: 'rev', account_number: '4000', account_name: 'Sales', account_type: AccountType.REVENUE }],
+    ['rent', { account_id: 'rent', account_number: '6100', account_name: 'Rent', account_type: AccountType.EXPENSE }],
+  ]);
+  const codes = new Map([['cc-ops', 'OPS'], ['cc-sales', 'SALES']]);
+
+  it('should compare budget and actual per account and cost centre', () => {
+    const lines = buildVarianceLines(accounts, codes, [
+      { account_id: 'rent', cost_centre_id: 'cc-sales', amount: 500 },
+      { account_id: 'rent', cost_centre_id: 'cc-ops', amount: 1000 },
+      { account_id: 'rent', cost_centre_id: 'cc-ops', amount: 1000 },
+      { account_id: 'rev', cost_centre_id: null, amount: 10000 },
+    ], [
+      { account_id: 'rent', cost_centre_id: 'cc-ops', amount: 2500 },
+      { account_id: 'rev', cost_centre_id: null, amount: 12000 },
+      { account_id: 'unknown', cost_centre_id: null, amount: 5 },
+    ]);
+
+    expect(lines.map(line => [line.account_number, line.cost_centre_code, line.budget, line.actual, line.variance, line.variance_percent, line.is_favourable])).toEqual([
+      ['4000', null, 10000, 12000, 2000, 20, true],
+      ['6100', 'OPS', 2000, 2500, 500, 25, false],
+      ['6100', 'SALES', 500, 0, -500, -100, true],
+    ]);
+
+    expect(totalVariance(lines.filter(line => line.account_type === AccountType.EXPENSE))).toEqual({
+      budget: 2500,
+      actual: 2500,
+      variance: 0,
+    });
+  });
+
+  it('should leave the percentage empty for unbudgeted spend', () => {
+    const [line] = buildVarianceLines(accounts, codes, [], [{ account_id: 'rent', cost_centre_id: null, amount: 300 }]);
+
+    expect(line.variance_percent).toBeNull();
+    expect(line.is_favourable).toBe(false);
+  });
+
+  it('should only flag the posting that takes an account over budget', () => {
+    expect(crossesBudget(1000, 900, 1100)).toBe(true);
+    expect(crossesBudget(1000, 1000, 1000.01)).toBe(true);
+    expect(crossesBudget(1000, 900, 1000)).toBe(false);
+    expect(crossesBudget(1000, 1100, 1200)).toBe(false);
+  });
+});
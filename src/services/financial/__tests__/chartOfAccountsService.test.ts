@@ -0,0 +1,70 @@
+import {
+  buildAccountTree,
+  validateAccountNumber,
+  DEFAULT_NUMBERING_RULES,
+  LedgerAccount,
+} from '../chartOfAccountsService';
+import { parseCsvRecords, toCsv } from '../../../utils/csvUtils';
+import { AccountType, AccountCategory } from '../../../types';
+
+const account = (id: string, number: string, balance: number, parent?: string): LedgerAccount => ({
+  id,
+  company_id: 'company-1',
+  account_number: number,
+  name: `Account ${number}`,
+  type: AccountType.ASSET,
+  category: AccountCategory.CURRENT_ASSETS,
+  balance,
+  currency: 'ZAR',
+  is_active: true,
+  parent_account_id: parent,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+describe('Chart of accounts', () => {
+  describe('buildAccountTree', () => {
+    it('should roll child balances up through every level', () => {
+      const tree = buildAccountTree([
+        account('bank-2', '1120', 50.25),
+        account('assets', '1000', 0),
+        account('cash', '1100', 10, 'assets'),
+        account('bank-1', '1110', 100.1, 'cash'),
+        account('bank-2-child', '1121', 0.15, 'bank-2'),
+      ]);
+
+      expect(tree.map(node => node.account_number)).toEqual(['1000', '1120']);
+      expect(tree[0].rollup_balance).toBe(110.1);
+      expect(tree[0].children[0].rollup_balance).toBe(110.1);
+      expect(tree[1].rollup_balance).toBe(50.4);
+    });
+  });
+
+  describe('validateAccountNumber', () => {
+    it('should accept numbers inside the type range', () => {
+      expect(() => validateAccountNumber('1500', AccountType.ASSET, DEFAULT_NUMBERING_RULES)).not.toThrow();
+    });
+
+    it('should reject numbers outside the type range', () => {
+      expect(() => validateAccountNumber('4000', AccountType.ASSET, DEFAULT_NUMBERING_RULES)).toThrow('outside');
+    });
+
+    it('should reject numbers of the wrong length', () => {
+      expect(() => validateAccountNumber('10000', AccountType.EXPENSE, DEFAULT_NUMBERING_RULES)).toThrow('4 digits');
+    });
+  });
+
+  describe('CSV round trip', () => {
+    it('should preserve quoted names and parent references', () => {
+      const csv = toCsv(['account_number', 'name', 'parent_account_number'], [
+        { account_number: '1000', name: 'Assets, current', parent_account_number: '' },
+        { account_number: '1100', name: 'Cash "on hand"', parent_account_number: '1000' },
+      ]);
+
+      expect(parseCsvRecords(csv)).toEqual([
+        { account_number: '1000', name: 'Assets, current', parent_account_number: '' },
+        { account_number: '1100', name: 'Cash "on hand"', parent_account_number: '1000' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  averagingDates,
+  averagingStart,
+  averageRate,
+  translateMovements,
+  subtractMovements,
+  mergeMovements,
+  netMovement,
+  balancingMovement,
+} from '../consolidation';
+import { AccountMovement } from '../ledgerService';
+import { AccountType, AccountCategory } from '../../../types';
+
+describe('Consolidation', () => {
+  const movement = (
+    account_id: string,
+    account_number: string,
+    type: AccountType,
+    debit: number,
+    credit: number
+  ): AccountMovement => ({
+    account_id,
+    account_number,
+    account_name: `Account ${account_number}`,
+    type,
+    category: type === AccountType.ASSET ? AccountCategory.CURRENT_ASSETS : AccountCategory.OPERATING_REVENUE,
+    debit,
+    credit,
+  });
+
+  it('should average month-end rates across the period', () => {
+    expect(averagingDates('2025-01-01', '2025-03-31')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    expect(averagingDates('2025-01-15', '2025-02-10')).toEqual(['2025-01-31', '2025-02-10']);
+    expect(averagingStart(undefined, '2025-06-30')).toBe('2024-07-01');
+    expect(averagingStart('2025-01-01', '2025-06-30')).toBe('2025-01-01');
+    expect(averageRate([18, 18.5, 19])).toBe(18.5);
+    expect(averageRate([])).toBe(1);
+  });
+
+  it('should translate balances at the closing rate and income at the average rate', () => {
+    const translated = translateMovements([
+      movement('a1', '1000', AccountType.ASSET, 100, 0),
+      movement('a2', '4000', AccountType.REVENUE, 0, 100),
+    ], { closing: 20, average: 18 });
+
+    expect(translated.map(item => [item.debit, item.credit])).toEqual([[2000, 0], [0, 1800]]);
+    // Left unbalanced by the rate difference, which goes to the reserve
+    expect(netMovement(translated)).toBe(200);
+    expect(balancingMovement('translation_reserve', 'Reserve', 200)).toMatchObject({
+      type: AccountType.EQUITY,
+      debit: 0,
+      credit: 200,
+    });
+    expect(balancingMovement('translation_reserve', 'Reserve', 0)).toBeNull();
+  });
+
+  it('should eliminate tagged amounts and merge members by account number', () => {
+    const parent = subtractMovements(
+      [movement('p-1200', '1200', AccountType.ASSET, 500, 0), movement('p-4000', '4000', AccountType.REVENUE, 0, 900)],
+      [movement('p-1200', '1200', AccountType.ASSET, 300, 0), movement('p-4000', '4000', AccountType.REVENUE, 0, 300)]
+    );
+    const subsidiary = [movement('s-4000', '4000', AccountType.REVENUE, 0, 250)];
+
+    const merged = mergeMovements([parent, subsidiary]);
+
+    expect(merged.map(item => [item.account_id, item.account_name, item.debit, item.credit])).toEqual([
+      ['1200', 'Account 1200', 200, 0],
+      ['4000', 'Account 4000', 0, 850],
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { consolidationService } from '../consolidationService';
+import { companyService, CompanyWithDepartments } from '../../../core/company/companyService';
+import { AuthorizationError } from '../../../middleware/errorHandler';
+
+jest.mock('../../../core/notification/notificationService', () => ({
+  notificationService: { createNotification: jest.fn() },
+}));
+
+// Membership is checked before anything is written
+jest.mock('../../../database/connection', () => ({ getDatabase: jest.fn() }));
+
+describe('Consolidation groups', () => {
+  const company = (id: string): CompanyWithDepartments => ({
+    id,
+    name: `Company ${id}`,
+    registration_number: `REG-${id}`,
+    address_line_1: '1 Main Road',
+    city: 'Cape Town',
+    state_province: 'Western Cape',
+    postal_code: '8001',
+    country: 'South Africa',
+    phone: '+27 21 555 0100',
+    email: `${id}@acme.example`,
+    currency_code: 'ZAR',
+    timezone: 'Africa/Johannesburg',
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    created_by: 'user-1',
+    updated_by: 'user-1',
+    departments: [],
+  });
+
+  beforeEach(() => {
+    jest.spyOn(companyService, 'getCompanyById').mockImplementation(async (id) => company(id));
+    jest.spyOn(companyService, 'getSubsidiaryIds').mockResolvedValue(['subsidiary-1']);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject a member that is not a subsidiary of the parent', async () => {
+    await expect(consolidationService.createGroup(
+      'parent-1',
+      { name: 'Group', member_company_ids: ['subsidiary-1', 'unrelated-1'] },
+      'user-1'
+    )).rejects.toThrow(AuthorizationError);
+
+    expect(companyService.getSubsidiaryIds).toHaveBeenCalledWith('parent-1');
+  });
+
+  it('should reject a member list changed to an unrelated company', async () => {
+    jest.spyOn(consolidationService, 'getGroupById').mockResolvedValue({
+      id: 'group-1',
+      company_id: 'parent-1',
+      name: 'Group',
+      currency: 'ZAR',
+      is_active: true,
+      created_by: 'user-1',
+      created_at: new Date(),
+      updated_at: new Date(),
+      members: [],
+    });
+
+    await expect(consolidationService.updateGroup(
+      'parent-1',
+      'group-1',
+      { member_company_ids: ['unrelated-1'] },
+      'user-1'
+    )).rejects.toThrow('Company unrelated-1 is not a subsidiary of this company');
+  });
+});
@@ -0,0 +1,54 @@
+import { generatePeriods, buildClosingLines } from '../fiscalPeriodService';
+import { AccountType } from '../../../types';
+
+describe('Fiscal periods', () => {
+  describe('generatePeriods', () => {
+    it('should split a March year-end into twelve calendar months', () => {
+      const periods = generatePeriods('2024-03-01');
+
+      expect(periods).toHaveLength(12);
+      expect(periods[0]).toEqual({ period_number: 1, start_date: '2024-03-01', end_date: '2024-03-31' });
+      expect(periods[11]).toEqual({ period_number: 12, start_date: '2025-02-01', end_date: '2025-02-28' });
+    });
+
+    it('should support quarterly periods', () => {
+      const periods = generatePeriods('2024-01-01', 4);
+
+      expect(periods.map(period => period.end_date)).toEqual([
+        '2024-03-31', '2024-06-30', '2024-09-30', '2024-12-31',
+      ]);
+    });
+
+    it('should reject period counts that do not divide the year', () => {
+      expect(() => generatePeriods('2024-01-01', 5)).toThrow('Period count');
+    });
+  });
+
+  describe('buildClosingLines', () => {
+    it('should zero income statement accounts into retained earnings', () => {
+      const lines = buildClosingLines([
+        { account_id: 'sales', type: AccountType.REVENUE, debit: 100, credit: 1100 },
+        { account_id: 'rent', type: AccountType.EXPENSE, debit: 400, credit: 0 },
+        { account_id: 'bank', type: AccountType.ASSET, debit: 700, credit: 0 },
+      ], 'retained');
+
+      expect(lines).toEqual([
+        { account_id: 'sales', description: 'Year-end close', debit: 1000, credit: 0 },
+        { account_id: 'rent', description: 'Year-end close', debit: 0, credit: 400 },
+        { account_id: 'retained', description: 'Net profit for the year', debit: 0, credit: 600 },
+      ]);
+    });
+
+    it('should debit retained earnings for a loss and skip empty years', () => {
+      const lossLines = buildClosingLines([
+        { account_id: 'sales', type: AccountType.REVENUE, debit: 0, credit: 50 },
+        { account_id: 'wages', type: AccountType.EXPENSE, debit: 80.5, credit: 0 },
+      ], 'retained');
+
+      expect(lossLines[2]).toEqual({
+        account_id: 'retained', description: 'Net loss for the year', debit: 30.5, credit: 0,
+      });
+      expect(buildClosingLines([], 'retained')).toEqual([]);
+    });
+  });
+});
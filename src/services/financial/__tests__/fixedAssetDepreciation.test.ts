@@ -0,0 +1,61 @@
+import {
+  buildDepreciationSchedule,
+  monthlyDepreciation,
+  isFullyDepreciated,
+  disposalGainLoss,
+  DepreciationBasis,
+} from '../fixedAssetDepreciation';
+
+describe('Fixed asset depreciation', () => {
+  const straightLine: DepreciationBasis = {
+    cost: 10000,
+    residual_value: 1000,
+    depreciation_method: 'straight_line',
+    useful_life_months: 36,
+    depreciation_start_date: '2025-01-15',
+  };
+
+  it('should depreciate straight-line by whole months down to the residual value', () => {
+    const schedule = buildDepreciationSchedule(straightLine, 0, null);
+
+    expect(schedule).toHaveLength(36);
+    expect(schedule[0]).toEqual({ period_month: '2025-01-01', amount: 250, accumulated_depreciation: 250, net_book_value: 9750 });
+    expect(schedule[35]).toEqual({ period_month: '2027-12-01', amount: 250, accumulated_depreciation: 9000, net_book_value: 1000 });
+    expect(isFullyDepreciated(straightLine, 9000, '2027-12-01')).toBe(true);
+    expect(monthlyDepreciation(straightLine, '2024-12-01', 0)).toBe(0);
+  });
+
+  it('should put the rounding difference in the last month', () => {
+    const asset: DepreciationBasis = { ...straightLine, cost: 1000, residual_value: 0, useful_life_months: 3 };
+
+    expect(buildDepreciationSchedule(asset, 0, null).map(line => line.amount)).toEqual([333.33, 333.33, 333.34]);
+  });
+
+  it('should catch up from the last month depreciated through the run month', () => {
+    const schedule = buildDepreciationSchedule(straightLine, 500, '2025-02-01', '2025-05-31');
+
+    expect(schedule.map(line => [line.period_month, line.accumulated_depreciation])).toEqual([
+      ['2025-03-01', 750],
+      ['2025-04-01', 1000],
+      ['2025-05-01', 1250],
+    ]);
+  });
+
+  it('should depreciate reducing balance on the net book value', () => {
+    const asset: DepreciationBasis = {
+      cost: 12000,
+      residual_value: 11700,
+      depreciation_method: 'reducing_balance',
+      depreciation_rate: 20,
+      depreciation_start_date: '2025-03-01',
+    };
+
+    expect(buildDepreciationSchedule(asset, 0, null).map(line => line.amount)).toEqual([200, 100]);
+    expect(monthlyDepreciation({ ...asset, residual_value: 0 }, '2025-04-01', 200)).toBe(196.67);
+  });
+
+  it('should calculate the gain or loss on disposal', () => {
+    expect(disposalGainLoss(10000, 7000, 2500)).toBe(-500);
+    expect(disposalGainLoss(10000, 7000, 3200)).toBe(200);
+  });
+});
@@ -0,0 +1,63 @@
+import { buildRevaluationLines, buildSettlementLines, ForeignBalance } from '../fxService';
+import { AccountType } from '../../../types';
+
+describe('FX gains and losses', () => {
+  describe('buildRevaluationLines', () => {
+    const balance = (id: string, type: AccountType, difference: number): ForeignBalance => ({
+      account_id: id,
+      account_number: id,
+      account_name: id,
+      type,
+      currency: 'USD',
+      foreign_balance: 1000,
+      carrying_amount: 18000,
+      rate: 18.5,
+      revalued_amount: 18000 + difference,
+      difference,
+    });
+
+    it('should post the net difference to the unrealised gain/loss account', () => {
+      const lines = buildRevaluationLines([
+        balance('debtors-usd', AccountType.ASSET, 500),
+        balance('creditors-usd', AccountType.LIABILITY, -200),
+        balance('loan-usd', AccountType.LIABILITY, 0),
+      ], 'fx-unrealised');
+
+      expect(lines.map(line => [line.account_id, line.debit, line.credit])).toEqual([
+        ['debtors-usd', 500, 0],
+        ['creditors-usd', 0, 200],
+        ['fx-unrealised', 0, 300],
+      ]);
+    });
+  });
+
+  describe('buildSettlementLines', () => {
+    const params = {
+      account_id: 'debtors-usd',
+      bank_account_id: 'bank-zar',
+      bank_is_foreign: false,
+      realised_account_id: 'fx-realised',
+      foreign_amount: 1000,
+      original_rate: 18,
+      settlement_rate: 18.5,
+    };
+
+    it('should book a realised gain when a receivable is received at a stronger rate', () => {
+      const { lines, realised } = buildSettlementLines({ ...params, account_type: AccountType.ASSET });
+
+      expect(realised).toBe(500);
+      expect(lines.map(line => [line.account_id, line.debit || 0, line.credit || 0])).toEqual([
+        ['bank-zar', 18500, 0],
+        ['debtors-usd', 0, 18000],
+        ['fx-realised', 0, 500],
+      ]);
+    });
+
+    it('should book a realised loss when a payable is paid at a stronger rate', () => {
+      const { lines, realised } = buildSettlementLines({ ...params, account_id: 'creditors-usd', account_type: AccountType.LIABILITY });
+
+      expect(realised).toBe(-500);
+      expect(lines[2]).toEqual({ account_id: 'fx-realised', description: 'Realised FX loss', debit: 500, credit: 0 });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { renderTemplate, buildTemplateValues, buildInvoicePdfDocument } from '../invoiceDocumentService';
+import { calculateInvoiceItem, InvoiceWithItems } from '../invoiceService';
+import { Customer } from '../customerService';
+import { renderTablePdf } from '../../../utils/pdfUtils';
+import { InvoiceStatus } from '../../../types';
+
+jest.mock('../../email', () => ({ emailService: { sendInvoiceEmail: jest.fn() } }));
+
+describe('Invoice documents', () => {
+  const company = {
+    id: 'company-1',
+    name: 'Acme Engineering (Pty) Ltd',
+    registration_number: '2015/123456/07',
+    vat_number: '4123456789',
+    address_line_1: '1 Main Road',
+    city: 'Cape Town',
+    state_province: 'Western Cape',
+    postal_code: '8001',
+    country: 'South Africa',
+    phone: '+27 21 555 0100',
+    email: 'accounts@acme.example',
+    currency_code: 'ZAR',
+    timezone: 'Africa/Johannesburg',
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    created_by: 'user-1',
+    updated_by: 'user-1',
+  };
+
+  const customer = {
+    id: 'customer-1',
+    customer_code: 'CUS00001',
+    name: 'Widget Traders',
+    email: 'billing@widgets.example',
+    vat_number: '4987654321',
+    city: 'Durban',
+    currency: 'ZAR',
+    payment_terms_days: 30,
+  } as Customer;
+
+  const items = [
+    calculateInvoiceItem({ description: 'Design work', quantity: 10, unit_price: 850, tax_rate: 15 }),
+    calculateInvoiceItem({ description: 'Site visit', quantity: 1, unit_price: 1200, discount_percent: 50, tax_rate: 15 }),
+  ].map((item, index) => ({ ...item, id: `item-${index}`, line_number: index + 1 }));
+
+  const invoice = {
+    id: 'invoice-1',
+    customer_id: 'customer-1',
+    customer_name: 'Widget Traders',
+    invoice_number: 'INV-000042',
+    issue_date: '2024-07-01',
+    due_date: '2024-07-31',
+    currency: 'ZAR',
+    subtotal: 9100,
+    tax_total: 1365,
+    total: 10465,
+    amount_paid: 465,
+    amount_credited: 0,
+    balance_due: 10000,
+    status: InvoiceStatus.SENT,
+    items,
+  } as unknown as InvoiceWithItems;
+
+  const template = {
+    document_title: 'Tax Invoice',
+    email_subject: 'Invoice {{invoice_number}} from {{company_name}}',
+    email_body: 'Dear {{customer_name}}',
+    payment_instructions: 'Pay {{currency}} {{balance_due}} by {{due_date}}',
+    footer_text: null,
+  };
+
+  it('should substitute known placeholders and leave unknown ones untouched', () => {
+    const values = buildTemplateValues(invoice, company);
+
+    expect(renderTemplate('Invoice {{ invoice_number }} for {{currency}} {{total}} {{unknown}}', values))
+      .toBe('Invoice INV-000042 for ZAR 10,465.00 {{unknown}}');
+  });
+
+  it('should put the letterhead and VAT numbers on the invoice with totals and balance', () => {
+    const doc = buildInvoicePdfDocument(invoice, company, customer, template);
+
+    expect(doc.letterhead?.[0]).toBe('Acme Engineering (Pty) Ltd');
+    expect(doc.letterhead).toContain('VAT No: 4123456789');
+    expect(doc.subtitle).toContain('Customer VAT No: 4987654321');
+    expect(doc.rows.slice(-5).map(row => row.cells.slice(-2))).toEqual([
+      ['Subtotal', '9,100.00'],
+      ['VAT', '1,365.00'],
+      ['Total ZAR', '10,465.00'],
+      ['Paid', '-465.00'],
+      ['Balance due', '10,000.00'],
+    ]);
+    expect(doc.footer).toEqual(['Pay ZAR 10,000.00 by 2024-07-31']);
+  });
+
+  it('should render the invoice to a PDF', async () => {
+    const pdf = await renderTablePdf(buildInvoicePdfDocument(invoice, company, customer, template));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
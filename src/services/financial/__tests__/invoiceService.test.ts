@@ -0,0 +1,82 @@
+import { calculateInvoiceItem, calculateInvoiceTotals, buildInvoicePostingLines } from '../invoiceService';
+import { ValidationError } from '../../../middleware/errorHandler';
+
+describe('Invoicing', () => {
+  describe('calculateInvoiceItem', () => {
+    it('should apply the discount before tax and round each line to the cent', () => {
+      const item = calculateInvoiceItem({
+        description: 'Consulting',
+        quantity: 3,
+        unit_price: 333.33,
+        discount_percent: 10,
+        tax_rate: 15,
+      });
+
+      expect(item.line_subtotal).toBe(899.99);
+      expect(item.tax_amount).toBe(135);
+      expect(item.line_total).toBe(1034.99);
+    });
+
+    it('should default discount and tax to zero', () => {
+      const item = calculateInvoiceItem({ description: 'Exempt', quantity: 2, unit_price: 50 });
+
+      expect(item).toMatchObject({ discount_percent: 0, tax_rate: 0, line_subtotal: 100, tax_amount: 0, line_total: 100 });
+    });
+  });
+
+  describe('calculateInvoiceTotals', () => {
+    it('should total the rounded lines', () => {
+      const items = [
+        calculateInvoiceItem({ description: 'A', quantity: 1, unit_price: 0.05, tax_rate: 15 }),
+        calculateInvoiceItem({ description: 'B', quantity: 1, unit_price: 0.05, tax_rate: 15 }),
+      ];
+
+      expect(calculateInvoiceTotals(items)).toEqual({ subtotal: 0.1, tax_total: 0.02, total: 0.12 });
+    });
+  });
+
+  describe('buildInvoicePostingLines', () => {
+    const items = [
+      calculateInvoiceItem({ description: 'Licence', quantity: 1, unit_price: 1000, tax_rate: 15, revenue_account_id: 'revenue-licences' }),
+      calculateInvoiceItem({ description: 'Support', quantity: 2, unit_price: 250, tax_rate: 15 }),
+      calculateInvoiceItem({ description: 'Training', quantity: 1, unit_price: 100, tax_rate: 15, revenue_account_id: 'revenue-licences' }),
+    ];
+    const params = {
+      receivable_account_id: 'debtors',
+      vat_output_account_id: 'vat-output',
+      default_revenue_account_id: 'revenue-services',
+      items,
+      description: 'Invoice INV-000001',
+    };
+
+    it('should debit the receivable and credit revenue per account and output VAT', () => {
+      const lines = buildInvoicePostingLines(params);
+
+      expect(lines.map(line => [line.account_id, line.foreign_debit, line.foreign_credit])).toEqual([
+        ['debtors', 1840, 0],
+        ['revenue-licences', 0, 1100],
+        ['revenue-services', 0, 500],
+        ['vat-output', 0, 240],
+      ]);
+    });
+
+    it('should post the mirror image for a credit note', () => {
+      const lines = buildInvoicePostingLines({ ...params, reverse: true });
+
+      expect(lines.map(line => [line.account_id, line.foreign_debit, line.foreign_credit])).toEqual([
+        ['debtors', 0, 1840],
+        ['revenue-licences', 1100, 0],
+        ['revenue-services', 500, 0],
+        ['vat-output', 240, 0],
+      ]);
+    });
+
+    it('should require a VAT output account when the invoice carries tax', () => {
+      expect(() => buildInvoicePostingLines({ ...params, vat_output_account_id: null })).toThrow(ValidationError);
+    });
+
+    it('should require a revenue account for every line', () => {
+      expect(() => buildInvoicePostingLines({ ...params, default_revenue_account_id: null })).toThrow(ValidationError);
+    });
+  });
+});
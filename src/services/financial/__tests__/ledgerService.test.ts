@@ -0,0 +1,89 @@
+import { LedgerService, balanceChange, convertLinesToBase } from '../ledgerService';
+import { ValidationError } from '../../../middleware/errorHandler';
+
+describe('LedgerService', () => {
+  const service = new LedgerService();
+  const cash = '11111111-1111-4111-8111-111111111111';
+  const revenue = '22222222-2222-4222-8222-222222222222';
+
+  describe('validateJournalLines', () => {
+    it('should accept a balanced entry', () => {
+      expect(() => service.validateJournalLines([
+        { account_id: cash, debit: 100.1 },
+        { account_id: revenue, credit: 100.1 },
+      ])).not.toThrow();
+    });
+
+    it('should accept a split entry that balances to the cent', () => {
+      expect(() => service.validateJournalLines([
+        { account_id: cash, debit: 0.1 },
+        { account_id: cash, debit: 0.2 },
+        { account_id: revenue, credit: 0.3 },
+      ])).not.toThrow();
+    });
+
+    it('should reject an unbalanced entry', () => {
+      expect(() => service.validateJournalLines([
+        { account_id: cash, debit: 100 },
+        { account_id: revenue, credit: 99.99 },
+      ])).toThrow(ValidationError);
+    });
+
+    it('should reject single-line entries', () => {
+      expect(() => service.validateJournalLines([
+        { account_id: cash, debit: 0 },
+      ])).toThrow('at least two lines');
+    });
+
+    it('should reject lines with both a debit and a credit', () => {
+      expect(() => service.validateJournalLines([
+        { account_id: cash, debit: 50, credit: 50 },
+        { account_id: revenue, credit: 0, debit: 0 },
+      ])).toThrow('both a debit and a credit');
+    });
+
+    it('should reject negative amounts', () => {
+      expect(() => service.validateJournalLines([
+        { account_id: cash, debit: -10 },
+        { account_id: revenue, credit: -10 },
+      ])).toThrow('negative');
+    });
+  });
+
+  describe('balanceChange', () => {
+    it('should increase debit-normal accounts with debits', () => {
+      expect(balanceChange('asset', 100, 0)).toBe(100);
+      expect(balanceChange('expense', 0, 25)).toBe(-25);
+    });
+
+    it('should increase credit-normal accounts with credits', () => {
+      expect(balanceChange('revenue', 0, 100)).toBe(100);
+      expect(balanceChange('liability', 40, 0)).toBe(-40);
+      expect(balanceChange('equity', 0, 10.55)).toBe(10.55);
+    });
+  });
+
+  describe('convertLinesToBase', () => {
+    it('should convert transaction-currency lines and absorb rounding on the largest line', () => {
+      const lines = convertLinesToBase([
+        { account_id: cash, foreign_debit: 100 },
+        { account_id: revenue, foreign_credit: 33.33 },
+        { account_id: revenue, foreign_credit: 33.33 },
+        { account_id: revenue, foreign_credit: 33.34 },
+      ], 18.2345);
+
+      expect(lines.map(line => line.debit || line.credit)).toEqual([1823.46, 607.76, 607.76, 607.94]);
+      expect(() => service.validateJournalLines(lines)).not.toThrow();
+    });
+
+    it('should keep explicit base amounts untouched', () => {
+      const lines = convertLinesToBase([
+        { account_id: cash, debit: 1800, foreign_debit: 100 },
+        { account_id: revenue, foreign_credit: 100 },
+      ], 18);
+
+      expect(lines[0].debit).toBe(1800);
+      expect(lines[1].credit).toBe(1800);
+    });
+  });
+});
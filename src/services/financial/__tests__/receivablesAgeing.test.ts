@@ -0,0 +1,92 @@
+import {
+  ageingBucket,
+  buildAgeing,
+  ageingTotals,
+  buildStatementLines,
+  dunningLevelDue,
+  OpenInvoice
+} from '../receivablesAgeing';
+
+describe('Receivables ageing', () => {
+  const invoice = (overrides: Partial<OpenInvoice>): OpenInvoice => ({
+    invoice_id: 'inv-1',
+    invoice_number: 'INV-0001',
+    customer_id: 'cust-a',
+    customer_code: 'C001',
+    customer_name: 'Acme',
+    currency: 'ZAR',
+    issue_date: '2025-06-30',
+    due_date: '2025-07-30',
+    balance: 100,
+    ...overrides
+  });
+
+  it('should place ages in lower-bound bands', () => {
+    expect([-5, 0, 29, 30, 59, 60, 90, 119, 120, 400].map(ageingBucket)).toEqual([
+      'current',
+      'current',
+      'current',
+      'days_30',
+      'days_30',
+      'days_60',
+      'days_90',
+      'days_90',
+      'days_120_plus',
+      'days_120_plus',
+    ]);
+  });
+
+  it('should age balances per customer and currency', () => {
+    const rows = buildAgeing([
+      invoice({ issue_date: '2025-06-30', balance: 100 }),
+      invoice({ invoice_id: 'inv-2', issue_date: '2025-04-01', balance: 250.5 }),
+      invoice({ invoice_id: 'inv-3', issue_date: '2025-01-15', balance: 0 }),
+      invoice({ invoice_id: 'inv-4', currency: 'USD', issue_date: '2025-02-01', balance: 40 }),
+      invoice({ invoice_id: 'inv-5', customer_id: 'cust-b', customer_code: 'C002', customer_name: 'Beta', balance: -10 }),
+    ], '2025-07-15');
+
+    expect(rows.map(row => [row.customer_name, row.currency, row.total])).toEqual([
+      ['Acme', 'USD', 40],
+      ['Acme', 'ZAR', 350.5],
+      ['Beta', 'ZAR', -10],
+    ]);
+    expect(rows[1]).toMatchObject({ current: 100, days_90: 250.5, days_120_plus: 0 });
+    expect(rows[0].days_120_plus).toBe(40);
+
+    expect(ageingTotals(rows).ZAR).toMatchObject({ current: 90, days_90: 250.5, total: 340.5 });
+  });
+
+  it('should age by days past due on the due date basis', () => {
+    const [row] = buildAgeing([invoice({ balance: 100 })], '2025-09-01', 'due_date');
+    expect(row).toMatchObject({ days_30: 100, total: 100 });
+  });
+
+  it('should run a statement balance with invoices before same-day payments', () => {
+    const lines = buildStatementLines(500, [
+      { date: '2025-07-10', type: 'payment', reference: 'EFT-1', description: 'Payment', debit: 0, credit: 500 },
+      { date: '2025-07-10', type: 'invoice', reference: 'INV-0002', description: 'Invoice', debit: 300, credit: 0 },
+      { date: '2025-07-03', type: 'credit_note', reference: 'CN-0001', description: 'Credit note', debit: 0, credit: 49.99 },
+    ]);
+
+    expect(lines.map(line => [line.reference, line.balance])).toEqual([
+      ['CN-0001', 450.01],
+      ['INV-0002', 750.01],
+      ['EFT-1', 250.01],
+    ]);
+  });
+
+  it('should escalate to the highest reached level not yet sent', () => {
+    const levels = [
+      { level: 1, days_overdue: 7 },
+      { level: 2, days_overdue: 30 },
+      { level: 3, days_overdue: 60 },
+    ];
+
+    expect(dunningLevelDue(levels, 3, 0)).toBeNull();
+    expect(dunningLevelDue(levels, 7, 0)).toBe(1);
+    expect(dunningLevelDue(levels, 20, 1)).toBeNull();
+    expect(dunningLevelDue(levels, 45, 0)).toBe(2);
+    expect(dunningLevelDue(levels, 90, 2)).toBe(3);
+    expect(dunningLevelDue(levels, 90, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { occurrenceDate, nextOccurrence, dueOccurrences, RecurringSchedule } from '../recurringSchedule';
+
+describe('Recurring journal schedule', () => {
+  const monthEnd: RecurringSchedule = { frequency: 'monthly', start_date: '2025-01-31', end_date: '2025-06-30' };
+
+  it('should count occurrences from the start date so month ends are kept', () => {
+    expect([0, 1, 2, 3].map(index => occurrenceDate(monthEnd, index))).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+    ]);
+    expect(occurrenceDate({ frequency: 'weekly', start_date: '2025-01-06' }, 2)).toBe('2025-01-20');
+    expect(occurrenceDate({ frequency: 'quarterly', start_date: '2025-01-01' }, 3)).toBe('2025-10-01');
+  });
+
+  it('should find the next occurrence and stop after the end date', () => {
+    expect(nextOccurrence(monthEnd, null)).toBe('2025-01-31');
+    expect(nextOccurrence(monthEnd, '2025-02-28')).toBe('2025-03-31');
+    expect(nextOccurrence(monthEnd, '2025-03-15')).toBe('2025-03-31');
+    expect(nextOccurrence(monthEnd, '2025-06-30')).toBeNull();
+  });
+
+  it('should list every missed occurrence up to the run date', () => {
+    expect(dueOccurrences(monthEnd, '2025-02-28', '2025-05-02')).toEqual(['2025-02-28', '2025-03-31', '2025-04-30']);
+    expect(dueOccurrences(monthEnd, '2025-02-28', '2025-02-27')).toEqual([]);
+    expect(dueOccurrences(monthEnd, '2025-05-31', '2026-01-01')).toEqual(['2025-05-31', '2025-06-30']);
+    expect(dueOccurrences(monthEnd, null, '2026-01-01')).toEqual([]);
+  });
+});
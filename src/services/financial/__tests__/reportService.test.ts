@@ -0,0 +1,113 @@
+import {
+  buildReportPeriods,
+  buildFinancialReport,
+  reportService,
+  FinancialReport,
+} from '../reportService';
+import { AccountMovement } from '../ledgerService';
+import { AccountType, AccountCategory } from '../../../types';
+
+// Budget comparison pulls in budgetService, which notifies on overspend
+jest.mock('../../../core/notification/notificationService', () => ({
+  notificationService: { createNotification: jest.fn() },
+}));
+
+const movement = (
+  id: string,
+  number: string,
+  type: AccountType,
+  category: AccountCategory,
+  debit: number,
+  credit: number
+): AccountMovement => ({
+  account_id: id,
+  account_number: number,
+  account_name: `Account ${number}`,
+  type,
+  category,
+  debit,
+  credit,
+});
+
+describe('Financial reports', () => {
+  describe('buildReportPeriods', () => {
+    it('should derive prior period and prior year windows', () => {
+      const periods = buildReportPeriods('income_statement', {
+        start_date: '2024-04-01',
+        end_date: '2024-06-30',
+        compare: ['prior_period', 'prior_year'],
+      });
+
+      expect(periods.map(period => [period.key, period.start_date, period.end_date])).toEqual([
+        ['current', '2024-04-01', '2024-06-30'],
+        ['prior_period', '2024-01-01', '2024-03-31'],
+        ['prior_year', '2023-04-01', '2023-06-30'],
+      ]);
+    });
+
+    it('should report balances as at the period end for the balance sheet', () => {
+      const periods = buildReportPeriods('balance_sheet', {
+        start_date: '2024-04-01',
+        end_date: '2024-06-30',
+        compare: ['prior_period'],
+      });
+
+      expect(periods.map(period => [period.start_date, period.end_date])).toEqual([
+        [undefined, '2024-06-30'],
+        [undefined, '2024-03-31'],
+      ]);
+    });
+  });
+
+  describe('buildFinancialReport', () => {
+    const movements = [
+      movement('bank', '1100', AccountType.ASSET, AccountCategory.CURRENT_ASSETS, 1500, 300),
+      movement('loan', '2500', AccountType.LIABILITY, AccountCategory.LONG_TERM_LIABILITIES, 0, 1000),
+      movement('sales', '4000', AccountType.REVENUE, AccountCategory.OPERATING_REVENUE, 0, 500),
+      movement('rent', '5000', AccountType.EXPENSE, AccountCategory.OPERATING_EXPENSES, 300, 0),
+    ];
+
+    it('should balance the trial balance debit and credit columns', () => {
+      const periods = buildReportPeriods('trial_balance', { end_date: '2024-06-30' });
+      const report = buildFinancialReport('trial_balance', periods, { current: movements });
+
+      expect(report.summary[0].values).toEqual({ current_debit: 1500, current_credit: 1500 });
+    });
+
+    it('should add unclosed earnings to equity on the balance sheet', () => {
+      const periods = buildReportPeriods('balance_sheet', { end_date: '2024-06-30' });
+      const report = buildFinancialReport('balance_sheet', periods, { current: movements });
+      const totals = Object.fromEntries(report.summary.map(row => [row.key, row.values.current]));
+
+      expect(totals).toEqual({
+        total_assets: 1200,
+        total_liabilities: 1000,
+        total_equity: 200,
+        total_liabilities_and_equity: 1200,
+      });
+      expect(report.sections[2].groups[0].lines[0].account_name).toBe('Current Year Earnings');
+    });
+
+    it('should render CSV and PDF output', async () => {
+      const periods = buildReportPeriods('income_statement', {
+        start_date: '2024-01-01',
+        end_date: '2024-06-30',
+      });
+      const report: FinancialReport = {
+        ...buildFinancialReport('income_statement', periods, { current: movements }),
+        company_id: 'company-1',
+        company_name: 'Nitro Test',
+        currency: 'ZAR',
+        generated_at: new Date('2024-07-01T00:00:00Z'),
+      };
+
+      const csv = await reportService.renderReport(report, 'csv');
+      expect(csv.filename).toBe('income-statement-2024-06-30.csv');
+      expect(String(csv.content)).toContain('\n,,,Net Income,200.00');
+      expect(String(csv.content).match(/Total Revenue/g)).toHaveLength(1);
+
+      const pdf = await reportService.renderReport(report, 'pdf');
+      expect((pdf.content as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { matchBillLines, OrderLineForMatch } from '../threeWayMatch';
+
+describe('Three-way match', () => {
+  const orderLines: OrderLineForMatch[] = [
+    { id: 'po-line-1', quantity: 10, unit_price: 100, quantity_received: 10, quantity_billed: 0 },
+    { id: 'po-line-2', quantity: 5, unit_price: 40, quantity_received: 3, quantity_billed: 0 },
+  ];
+
+  const noTolerance = { price_percent: 0, quantity_percent: 0 };
+
+  it('should not require a match for bills without a purchase order', () => {
+    const result = matchBillLines(
+      [{ line_number: 1, description: 'Cleaning', quantity: 1, unit_price: 500 }],
+      null,
+      noTolerance
+    );
+
+    expect(result).toEqual({ status: 'not_required', issues: [] });
+  });
+
+  it('should match lines at the order price for received quantities', () => {
+    const result = matchBillLines([
+      { line_number: 1, description: 'Steel', purchase_order_item_id: 'po-line-1', quantity: 10, unit_price: 100 },
+      { line_number: 2, description: 'Bolts', purchase_order_item_id: 'po-line-2', quantity: 3, unit_price: 40 },
+    ], orderLines, noTolerance);
+
+    expect(result).toEqual({ status: 'matched', issues: [] });
+  });
+
+  it('should flag price variances outside the tolerance', () => {
+    const lines = [{ line_number: 1, description: 'Steel', purchase_order_item_id: 'po-line-1', quantity: 10, unit_price: 104 }];
+
+    expect(matchBillLines(lines, orderLines, { price_percent: 5, quantity_percent: 0 }).status).toBe('matched');
+
+    const result = matchBillLines(lines, orderLines, { price_percent: 2, quantity_percent: 0 });
+    expect(result.status).toBe('mismatch');
+    expect(result.issues).toEqual([
+      expect.objectContaining({ line_number: 1, type: 'price_variance', expected: 100, actual: 104 }),
+    ]);
+  });
+
+  it('should flag quantities billed beyond what was received, including earlier bills', () => {
+    const result = matchBillLines([
+      { line_number: 1, description: 'Bolts', purchase_order_item_id: 'po-line-2', quantity: 2, unit_price: 40 },
+      { line_number: 2, description: 'Bolts', purchase_order_item_id: 'po-line-2', quantity: 2, unit_price: 40 },
+    ], orderLines, noTolerance);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ line_number: 2, type: 'quantity_not_received', expected: 3, actual: 4 }),
+    ]);
+
+    const earlierBill = [{ ...orderLines[0], quantity_billed: 8 }];
+    const partial = matchBillLines(
+      [{ line_number: 1, description: 'Steel', purchase_order_item_id: 'po-line-1', quantity: 3, unit_price: 100 }],
+      earlierBill,
+      { price_percent: 0, quantity_percent: 10 }
+    );
+    expect(partial.status).toBe('matched');
+  });
+
+  it('should flag lines that are not on the order', () => {
+    const result = matchBillLines(
+      [{ line_number: 1, description: 'Delivery', quantity: 1, unit_price: 250 }],
+      orderLines,
+      noTolerance
+    );
+
+    expect(result.status).toBe('mismatch');
+    expect(result.issues[0].type).toBe('not_on_order');
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  resolveTaxRate,
+  lineTaxRate,
+  buildVatEntries,
+  buildVat201Fields,
+  reverseChargeTax,
+  ResolvedTaxCode,
+} from '../vatService';
+
+describe('VAT engine', () => {
+  const code = (overrides: Partial<ResolvedTaxCode>): ResolvedTaxCode => ({
+    id: 'tc-std',
+    code: 'S-STD',
+    is_exempt: false,
+    is_zero_rated: false,
+    is_reverse_charge: false,
+    return_field: '1',
+    rate: 15,
+    ...overrides,
+  });
+
+  it('should use the latest rate in force on the document date', () => {
+    const rates = [
+      { rate: 14, effective_from: '1993-04-07' },
+      { rate: 15, effective_from: '2018-04-01' },
+    ];
+
+    expect(resolveTaxRate(rates, '2018-03-31')).toBe(14);
+    expect(resolveTaxRate(rates, '2018-04-01')).toBe(15);
+    expect(resolveTaxRate(rates, '1990-01-01')).toBeNull();
+  });
+
+  it('should charge no VAT on exempt, zero rated and reverse charge lines', () => {
+    expect(lineTaxRate(code({}))).toBe(15);
+    expect(lineTaxRate(code({ is_zero_rated: true, rate: null }))).toBe(0);
+    expect(lineTaxRate(code({ is_exempt: true, rate: null }))).toBe(0);
+    expect(lineTaxRate(code({ is_reverse_charge: true }))).toBe(0);
+    expect(() => lineTaxRate(code({ rate: null }))).toThrow('no rate in force');
+  });
+
+  it('should group lines by field and self-assess reverse charge VAT on both sides', () => {
+    const codes = new Map<string, ResolvedTaxCode>([
+      ['tc-std', code({ id: 'tc-std', code: 'P-STD', return_field: '15' })],
+      ['tc-rc', code({ id: 'tc-rc', code: 'P-RC', is_reverse_charge: true, return_field: '15' })],
+    ]);
+
+    const entries = buildVatEntries('purchases', [
+      { tax_code_id: 'tc-std', tax_rate: 15, line_subtotal: 100, tax_amount: 15 },
+      { tax_code_id: 'tc-std', tax_rate: 15, line_subtotal: 200, tax_amount: 30 },
+      { tax_code_id: 'tc-rc', tax_rate: 0, line_subtotal: 1000, tax_amount: 0 },
+      // Legacy lines without a code: untaxed purchases are not claimed
+      { tax_code_id: null, tax_rate: 15, line_subtotal: 50, tax_amount: 7.5 },
+      { tax_code_id: null, tax_rate: 0, line_subtotal: 80, tax_amount: 0 },
+    ], codes);
+
+    expect(entries).toEqual([
+      { tax_code_id: 'tc-std', return_field: '15', tax_rate: 15, net_amount: 300, tax_amount: 45 },
+      { tax_code_id: 'tc-rc', return_field: '12', tax_rate: 15, net_amount: 1000, tax_amount: 150 },
+      { tax_code_id: 'tc-rc', return_field: '15', tax_rate: 15, net_amount: 1000, tax_amount: 150 },
+      { tax_code_id: null, return_field: '15', tax_rate: 15, net_amount: 50, tax_amount: 7.5 },
+    ]);
+    expect(reverseChargeTax(entries)).toBe(150);
+  });
+
+  it('should build the VAT201 fields from totals per field', () => {
+    const fields = buildVat201Fields({
+      '1': { net_amount: 10000, tax_amount: 1500 },
+      '1A': { net_amount: 2000, tax_amount: 300 },
+      '2': { net_amount: 400, tax_amount: 0 },
+      '3': { net_amount: 250, tax_amount: 0 },
+      '12': { net_amount: 1000, tax_amount: 150 },
+      '14': { net_amount: 5000, tax_amount: 750 },
+      '15': { net_amount: 2000, tax_amount: 300 },
+    });
+    const value = (field: string) => fields.find(entry => entry.field === field)!.amount;
+
+    expect(value('1')).toBe(11500);
+    expect(value('4')).toBe(1500);
+    expect(value('1A')).toBe(2300);
+    expect(value('4A')).toBe(300);
+    expect(value('2')).toBe(400);
+    expect(value('2A')).toBe(0);
+    expect(value('3')).toBe(250);
+    expect(value('12')).toBe(150);
+    expect(value('13')).toBe(1950);
+    expect(value('19')).toBe(1050);
+    expect(value('20')).toBe(900);
+  });
+});
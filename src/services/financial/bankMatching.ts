@@ -0,0 +1,118 @@
+import { amountsEqual } from '../../utils/currencyUtils';
+import { daysBetween } from '../../utils/dateUtils';
+
+/**
+ * Matching of bank statement lines to ledger lines on the bank account by
+ * amount, date proximity and reference.
+ */
+
+export interface BankLineForMatch {
+  id: string;
+  transaction_date: string;
+  // Unmatched part of the line, signed (money in positive)
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export interface LedgerLineForMatch {
+  id: string;
+  entry_date: string;
+  // Unmatched part of the line in the bank account's currency (debit positive)
+  amount: number;
+  entry_number: string;
+  reference: string | null;
+  description: string | null;
+}
+
+export interface MatchCandidate {
+  journal_line_id: string;
+  days_apart: number;
+  reference_match: boolean;
+}
+
+export interface AutoMatch {
+  bank_line_id: string;
+  journal_line_id: string;
+  amount: number;
+}
+
+export const DEFAULT_DATE_WINDOW_DAYS = 5;
+
+const normalise = (text: string | null | undefined): string =>
+  (text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Whether the bank line's reference or description mentions the ledger
+ * reference or entry number (or the other way round)
+ */
+export const referencesMatch = (bankLine: BankLineForMatch, ledgerLine: LedgerLineForMatch): boolean => {
+  const bankText = normalise(`${bankLine.reference ?? ''} ${bankLine.description}`);
+  const ledgerTokens = [ledgerLine.reference, ledgerLine.entry_number]
+    .map(normalise)
+    .filter(token => token.length >= 4);
+
+  if (ledgerTokens.some(token => bankText.includes(token))) {
+    return true;
+  }
+
+  const bankReference = normalise(bankLine.reference);
+  return bankReference.length >= 4
+    && normalise(`${ledgerLine.reference ?? ''} ${ledgerLine.description ?? ''}`).includes(bankReference);
+};
+
+/**
+ * Ledger lines with the same amount within the date window, best first:
+ * reference matches ahead of the rest, then the closest date
+ */
+export const rankCandidates = (
+  bankLine: BankLineForMatch,
+  ledgerLines: LedgerLineForMatch[],
+  dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+): MatchCandidate[] => {
+  return ledgerLines
+    .filter(line => amountsEqual(line.amount, bankLine.amount))
+    .map(line => ({
+      journal_line_id: line.id,
+      days_apart: Math.abs(daysBetween(line.entry_date, bankLine.transaction_date)),
+      reference_match: referencesMatch(bankLine, line),
+    }))
+    .filter(candidate => candidate.days_apart <= dateWindowDays)
+    .sort((a, b) =>
+      Number(b.reference_match) - Number(a.reference_match) || a.days_apart - b.days_apart
+    );
+};
+
+/**
+ * Pair bank lines with ledger lines one-to-one. A pair is only made when the
+ * best candidate is clearly better than the next one; ties are left for
+ * manual matching.
+ */
+export const autoMatchLines = (
+  bankLines: BankLineForMatch[],
+  ledgerLines: LedgerLineForMatch[],
+  dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+): AutoMatch[] => {
+  const matches: AutoMatch[] = [];
+  const used = new Set<string>();
+
+  const ordered = [...bankLines].sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+
+  for (const bankLine of ordered) {
+    if (amountsEqual(bankLine.amount, 0)) continue;
+
+    const available = ledgerLines.filter(line => !used.has(line.id));
+    const [best, next] = rankCandidates(bankLine, available, dateWindowDays);
+    if (!best) continue;
+
+    const ambiguous = next
+      && next.reference_match === best.reference_match
+      && next.days_apart === best.days_apart;
+    if (ambiguous) continue;
+
+    used.add(best.journal_line_id);
+    matches.push({ bank_line_id: bankLine.id, journal_line_id: best.journal_line_id, amount: bankLine.amount });
+  }
+
+  return matches;
+};
@@ -0,0 +1,1110 @@
+import crypto from 'crypto';
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { ledgerService, JournalLineData } from './ledgerService';
+import { RenderedReport } from './reportService';
+import { parseStatement, StatementFormat } from './bankStatementParser';
+import {
+  autoMatchLines,
+  rankCandidates,
+  LedgerLineForMatch,
+  DEFAULT_DATE_WINDOW_DAYS
+} from './bankMatching';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount, amountsEqual, formatMoney } from '../../utils/currencyUtils';
+import { toDateOnly, addDays, daysBetween } from '../../utils/dateUtils';
+import { toCsv } from '../../utils/csvUtils';
+import { renderTablePdf, PdfTableRow } from '../../utils/pdfUtils';
+import { AccountType, TransactionStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export type StatementLineStatus = 'unmatched' | 'partially_matched' | 'matched';
+export type MatchType = 'auto' | 'manual' | 'adjustment';
+
+export interface ImportStatementData {
+  bank_account_id: string;
+  content: string;
+  file_name?: string;
+  format?: StatementFormat;
+  date_window_days?: number;
+}
+
+export interface StatementMatch {
+  id: string;
+  journal_entry_line_id: string;
+  journal_entry_id: string;
+  entry_number: string;
+  entry_date: string;
+  amount: number;
+  match_type: MatchType;
+}
+
+export interface StatementLine {
+  id: string;
+  statement_id: string;
+  line_number: number;
+  transaction_date: string;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  external_id: string | null;
+  matched_amount: number;
+  status: StatementLineStatus;
+  matches?: StatementMatch[];
+}
+
+export interface BankStatement {
+  id: string;
+  company_id: string;
+  bank_account_id: string;
+  format: StatementFormat;
+  file_name: string | null;
+  account_identifier: string | null;
+  currency: string;
+  statement_start: string;
+  statement_end: string;
+  opening_balance: number;
+  closing_balance: number;
+  line_count: number;
+  unmatched_count?: number;
+  imported_by: string;
+  created_at: Date;
+  lines?: StatementLine[];
+}
+
+export interface ImportStatementResult {
+  statement: BankStatement;
+  imported: number;
+  duplicates_skipped: number;
+  auto_matched: number;
+}
+
+export interface StatementFilters {
+  bank_account_id?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ManualMatchData {
+  // Existing ledger lines on the bank account; amount defaults to the ledger line's unmatched part
+  matches?: Array<{ journal_line_id: string; amount?: number }>;
+  // Amounts not yet in the ledger (bank charges, interest) booked against another account
+  adjustments?: Array<{ account_id: string; amount: number; description?: string }>;
+}
+
+export interface OutstandingLedgerLine {
+  journal_line_id: string;
+  journal_entry_id: string;
+  entry_number: string;
+  entry_date: string;
+  description: string | null;
+  reference: string | null;
+  amount: number;
+  unmatched_amount: number;
+}
+
+export interface MatchCandidates {
+  line: StatementLine;
+  // Same amount within the date window, best first
+  candidates: Array<OutstandingLedgerLine & { days_apart: number; reference_match: boolean }>;
+  // Other unmatched ledger lines in the same direction within the window, for split matches
+  outstanding: OutstandingLedgerLine[];
+}
+
+export interface BankReconciliation {
+  company_name: string;
+  bank_account_id: string;
+  account_number: string;
+  account_name: string;
+  currency: string;
+  as_of: string;
+  statement_id: string | null;
+  statement_end: string | null;
+  statement_balance: number;
+  ledger_balance: number;
+  // Ledger items not yet on the statement: deposits in transit (+) and unpresented payments (-)
+  outstanding_ledger: OutstandingLedgerLine[];
+  outstanding_ledger_total: number;
+  // Statement lines not yet in the ledger
+  unreconciled_statement_lines: StatementLine[];
+  unreconciled_statement_total: number;
+  adjusted_ledger_balance: number;
+  difference: number;
+  is_reconciled: boolean;
+}
+
+export const BANK_ADJUSTMENT_SOURCE_TYPE = 'bank_statement_line';
+
+type LedgerLine = LedgerLineForMatch & OutstandingLedgerLine;
+
+interface StatementLineTotal {
+  amount: string | number | null;
+}
+
+interface LedgerLineTotals {
+  debit: string | number | null;
+  credit: string | number | null;
+  foreign_debit: string | number | null;
+  foreign_credit: string | number | null;
+}
+
+export class BankReconciliationService {
+  /**
+   * Get imported statements with pagination
+   */
+  async getStatements(companyId: string, filters: StatementFilters = {}): Promise<{
+    statements: BankStatement[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('bank_statements').where('bank_statements.company_id', companyId);
+
+      if (filters.bank_account_id) {
+        query = query.where('bank_statements.bank_account_id', filters.bank_account_id);
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+
+      const rows = await query
+        .select('bank_statements.*')
+        .select(db.raw(
+          "(select count(*) from bank_statement_lines where bank_statement_lines.statement_id = bank_statements.id and bank_statement_lines.status <> 'matched') as unmatched_count"
+        ))
+        .orderBy('bank_statements.statement_end', 'desc')
+        .orderBy('bank_statements.created_at', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        statements: rows.map((row: any) => this.mapStatement(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching bank statements', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a statement with its lines and their matches
+   */
+  async getStatementById(companyId: string, statementId: string, trx?: Knex.Transaction): Promise<BankStatement | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('bank_statements')
+        .where('id', statementId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const lines = await db('bank_statement_lines')
+        .where('statement_id', statementId)
+        .orderBy('line_number');
+
+      const matches = await this.getMatches(db, lines.map((line: any) => line.id));
+      const statement = this.mapStatement(row);
+      statement.lines = lines.map((line: any) => ({
+        ...this.mapLine(line),
+        matches: matches.filter(match => match.statement_line_id === line.id).map(({ statement_line_id, ...match }) => match)
+      }));
+      statement.unmatched_count = statement.lines.filter(line => line.status !== 'matched').length;
+
+      return statement;
+    } catch (error) {
+      logger.error('Error fetching bank statement by ID', { error, companyId, statementId });
+      throw error;
+    }
+  }
+
+  /**
+   * Import a CSV, OFX or CAMT.053 statement for a bank account and auto-match
+   * its lines. Lines the bank already sent in an earlier statement (same
+   * transaction ID) are skipped.
+   */
+  async importStatement(companyId: string, data: ImportStatementData, userId: string): Promise<ImportStatementResult> {
+    try {
+      const db = getDatabase();
+      const parsed = parseStatement(data.content, data.format, data.file_name);
+      const fileHash = crypto.createHash('sha256').update(data.content).digest('hex');
+      const statementId = uuidv4();
+      let imported = 0;
+      let duplicates = 0;
+
+      await db.transaction(async (trx) => {
+        const bank = await this.getBankAccount(trx, companyId, data.bank_account_id);
+        const currency = bank.currency.toUpperCase();
+        if (parsed.currency && parsed.currency !== currency) {
+          throw new ValidationError(`Statement is in ${parsed.currency} but account ${bank.account_number} is held in ${currency}`);
+        }
+
+        const existing = await trx('bank_statements')
+          .where('bank_account_id', bank.id)
+          .where('file_hash', fileHash)
+          .first();
+        if (existing) {
+          throw new ConflictError(`This statement was already imported on ${toDateOnly(existing.created_at)}`);
+        }
+
+        const externalIds = parsed.lines.map(line => line.external_id).filter(Boolean) as string[];
+        const known = new Set<string>(externalIds.length > 0
+          ? (await trx('bank_statement_lines')
+            .where('bank_account_id', bank.id)
+            .whereIn('external_id', externalIds)
+            .pluck('external_id'))
+          : []);
+        const lines = parsed.lines.filter(line => !line.external_id || !known.has(line.external_id));
+        duplicates = parsed.lines.length - lines.length;
+        imported = lines.length;
+
+        // Fill in whichever balance the file did not state
+        const movement = sumMoney(parsed.lines.map(line => line.amount));
+        let opening = parsed.opening_balance;
+        if (opening === null) {
+          if (parsed.closing_balance !== null) {
+            opening = roundMoney(parsed.closing_balance - movement);
+          } else {
+            const previous = await trx('bank_statements')
+              .where('bank_account_id', bank.id)
+              .where('statement_end', '<=', parsed.start_date)
+              .orderBy('statement_end', 'desc')
+              .first();
+            opening = previous ? toAmount(previous.closing_balance) : 0;
+          }
+        }
+        const closing = parsed.closing_balance ?? roundMoney(opening + movement);
+
+        await trx('bank_statements').insert({
+          id: statementId,
+          company_id: companyId,
+          bank_account_id: bank.id,
+          format: parsed.format,
+          file_name: data.file_name,
+          file_hash: fileHash,
+          account_identifier: parsed.account_identifier,
+          currency,
+          statement_start: parsed.start_date,
+          statement_end: parsed.end_date,
+          opening_balance: opening,
+          closing_balance: closing,
+          line_count: lines.length,
+          imported_by: userId
+        });
+
+        if (lines.length > 0) {
+          await trx('bank_statement_lines').insert(lines.map((line, index) => ({
+            id: uuidv4(),
+            statement_id: statementId,
+            company_id: companyId,
+            bank_account_id: bank.id,
+            line_number: index + 1,
+            transaction_date: line.transaction_date,
+            amount: line.amount,
+            description: line.description.slice(0, 500),
+            reference: line.reference,
+            external_id: line.external_id
+          })));
+        }
+      });
+
+      // The import stands even if matching fails; it can be re-run from the reconciliation
+      const autoMatched = await this.autoMatch(companyId, data.bank_account_id, userId, data.date_window_days)
+        .catch(() => 0);
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'BANK_STATEMENT_IMPORTED',
+        resource_type: 'bank_statement',
+        resource_id: statementId,
+        company_id: companyId,
+        details: { format: parsed.format, file_name: data.file_name, imported, duplicates_skipped: duplicates, auto_matched: autoMatched }
+      });
+
+      logger.info('Bank statement imported', {
+        statementId,
+        format: parsed.format,
+        imported,
+        duplicates,
+        autoMatched,
+        companyId,
+        userId
+      });
+
+      return {
+        statement: (await this.getStatementById(companyId, statementId))!,
+        imported,
+        duplicates_skipped: duplicates,
+        auto_matched: autoMatched
+      };
+    } catch (error) {
+      logger.error('Error importing bank statement', { error, companyId, bankAccountId: data.bank_account_id, fileName: data.file_name });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an imported statement none of whose lines are matched
+   */
+  async deleteStatement(companyId: string, statementId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const statement = await trx('bank_statements')
+          .where('id', statementId)
+          .where('company_id', companyId)
+          .forUpdate()
+          .first();
+        if (!statement) {
+          throw new NotFoundError('Bank statement not found');
+        }
+
+        const matched = await trx('bank_statement_lines')
+          .where('statement_id', statementId)
+          .whereNot('status', 'unmatched')
+          .first();
+        if (matched) {
+          throw new ConflictError('Statement has matched lines; unmatch them before deleting it');
+        }
+
+        await trx('bank_statements').where('id', statementId).del();
+      });
+
+      logger.info('Bank statement deleted', { statementId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting bank statement', { error, companyId, statementId });
+      throw error;
+    }
+  }
+
+  /**
+   * Match the bank account's unmatched statement lines to unmatched ledger
+   * lines with the same amount near the same date, returning the number matched
+   */
+  async autoMatch(
+    companyId: string,
+    bankAccountId: string,
+    userId: string,
+    dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+  ): Promise<number> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+      let matched = 0;
+
+      await db.transaction(async (trx) => {
+        const bank = await this.getBankAccount(trx, companyId, bankAccountId);
+
+        const bankLines = await trx('bank_statement_lines')
+          .where('bank_account_id', bank.id)
+          .where('status', 'unmatched')
+          .orderBy('transaction_date')
+          .forUpdate();
+        if (bankLines.length === 0) return;
+
+        const dates = bankLines.map((line: any) => toDateOnly(line.transaction_date)).sort();
+        const ledgerLines = (await this.getLedgerLines(trx, companyId, bank, baseCurrency, {
+          start_date: addDays(dates[0], -dateWindowDays),
+          end_date: addDays(dates[dates.length - 1], dateWindowDays)
+        })).filter(line => amountsEqual(line.unmatched_amount, line.amount));
+
+        const matches = autoMatchLines(
+          bankLines.map((line: any) => ({
+            id: line.id,
+            transaction_date: toDateOnly(line.transaction_date),
+            amount: toAmount(line.amount),
+            description: line.description || '',
+            reference: line.reference
+          })),
+          ledgerLines,
+          dateWindowDays
+        );
+
+        for (const match of matches) {
+          await trx('bank_reconciliation_matches').insert({
+            id: uuidv4(),
+            company_id: companyId,
+            statement_line_id: match.bank_line_id,
+            journal_entry_line_id: match.journal_line_id,
+            amount: match.amount,
+            match_type: 'auto',
+            created_by: userId
+          });
+
+          await trx('bank_statement_lines')
+            .where('id', match.bank_line_id)
+            .update({ matched_amount: match.amount, status: 'matched', updated_at: new Date() });
+        }
+
+        matched = matches.length;
+      });
+
+      logger.info('Bank lines auto-matched', { bankAccountId, matched, companyId, userId });
+
+      return matched;
+    } catch (error) {
+      logger.error('Error auto-matching bank lines', { error, companyId, bankAccountId });
+      throw error;
+    }
+  }
+
+  /**
+   * Ledger lines a statement line could be matched to
+   */
+  async getMatchCandidates(
+    companyId: string,
+    lineId: string,
+    dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+  ): Promise<MatchCandidates> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      const row = await db('bank_statement_lines')
+        .where('id', lineId)
+        .where('company_id', companyId)
+        .first();
+      if (!row) {
+        throw new NotFoundError('Statement line not found');
+      }
+
+      const line = this.mapLine(row);
+      const remaining = roundMoney(line.amount - line.matched_amount);
+      const bank = await db('accounts').where('id', row.bank_account_id).first();
+
+      const ledgerLines = (await this.getLedgerLines(db, companyId, bank, baseCurrency, {
+        start_date: addDays(line.transaction_date, -dateWindowDays),
+        end_date: addDays(line.transaction_date, dateWindowDays)
+      })).filter(ledgerLine => Math.sign(ledgerLine.unmatched_amount) === Math.sign(remaining));
+
+      const open = ledgerLines.map(ledgerLine => ({ ...ledgerLine, amount: ledgerLine.unmatched_amount }));
+      const ranked = rankCandidates(
+        { id: line.id, transaction_date: line.transaction_date, amount: remaining, description: line.description || '', reference: line.reference },
+        open,
+        dateWindowDays
+      );
+
+      const byId = new Map(ledgerLines.map(ledgerLine => [ledgerLine.id, ledgerLine]));
+      const toOutstanding = ({ id, ...ledgerLine }: LedgerLine): OutstandingLedgerLine => ({
+        journal_line_id: id,
+        journal_entry_id: ledgerLine.journal_entry_id,
+        entry_number: ledgerLine.entry_number,
+        entry_date: ledgerLine.entry_date,
+        description: ledgerLine.description,
+        reference: ledgerLine.reference,
+        amount: ledgerLine.amount,
+        unmatched_amount: ledgerLine.unmatched_amount
+      });
+
+      return {
+        line,
+        candidates: ranked.map(candidate => ({
+          ...toOutstanding(byId.get(candidate.journal_line_id)!),
+          days_apart: candidate.days_apart,
+          reference_match: candidate.reference_match
+        })),
+        outstanding: ledgerLines
+          .filter(ledgerLine => !ranked.some(candidate => candidate.journal_line_id === ledgerLine.id))
+          .sort((a, b) =>
+            Math.abs(daysBetween(a.entry_date, line.transaction_date)) - Math.abs(daysBetween(b.entry_date, line.transaction_date))
+          )
+          .map(toOutstanding)
+      };
+    } catch (error) {
+      logger.error('Error fetching bank match candidates', { error, companyId, lineId });
+      throw error;
+    }
+  }
+
+  /**
+   * Manually match a statement line, split across one or more ledger lines
+   * and/or new adjustment postings (bank charges, interest)
+   */
+  async matchLine(companyId: string, lineId: string, data: ManualMatchData, userId: string): Promise<StatementLine> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+      const matches = data.matches || [];
+      const adjustments = data.adjustments || [];
+
+      if (matches.length === 0 && adjustments.length === 0) {
+        throw new ValidationError('Provide ledger lines to match or adjustments to post');
+      }
+
+      await db.transaction(async (trx) => {
+        const line = await this.lockLine(trx, companyId, lineId);
+        const remaining = roundMoney(toAmount(line.amount) - toAmount(line.matched_amount));
+        if (amountsEqual(remaining, 0)) {
+          throw new ConflictError('Statement line is already fully matched');
+        }
+
+        const bank = await this.getBankAccount(trx, companyId, line.bank_account_id);
+        const ledgerLines = matches.length > 0
+          ? await this.getLedgerLines(trx, companyId, bank, baseCurrency, {
+            ids: matches.map(match => match.journal_line_id)
+          })
+          : [];
+
+        const allocations: Array<{ journal_line_id: string; amount: number; match_type: MatchType }> = [];
+        for (const [index, match] of matches.entries()) {
+          const ledgerLine = ledgerLines.find(item => item.id === match.journal_line_id);
+          if (!ledgerLine) {
+            throw new ValidationError(`Match ${index + 1}: not a posted ledger line on this bank account`);
+          }
+
+          const amount = roundMoney(match.amount ?? ledgerLine.unmatched_amount);
+          if (amountsEqual(amount, 0) || Math.sign(amount) !== Math.sign(remaining)) {
+            throw new ValidationError(`Match ${index + 1}: amount must be non-zero and in the same direction as the statement line`);
+          }
+          if (Math.abs(amount) > Math.abs(ledgerLine.unmatched_amount) + 0.001) {
+            throw new ValidationError(
+              `Match ${index + 1}: only ${ledgerLine.unmatched_amount.toFixed(2)} of ${ledgerLine.entry_number} is unmatched`
+            );
+          }
+
+          allocations.push({ journal_line_id: ledgerLine.id, amount, match_type: 'manual' });
+        }
+
+        for (const [index, adjustment] of adjustments.entries()) {
+          if (amountsEqual(adjustment.amount, 0) || Math.sign(adjustment.amount) !== Math.sign(remaining)) {
+            throw new ValidationError(`Adjustment ${index + 1}: amount must be non-zero and in the same direction as the statement line`);
+          }
+        }
+
+        const total = sumMoney([...allocations.map(item => item.amount), ...adjustments.map(item => item.amount)]);
+        if (Math.abs(total) > Math.abs(remaining) + 0.001) {
+          throw new ValidationError(`Matched amounts (${total.toFixed(2)}) exceed the unmatched ${remaining.toFixed(2)} on the statement line`);
+        }
+
+        if (adjustments.length > 0) {
+          const entry = await this.postAdjustment(trx, companyId, bank, line, adjustments, userId);
+          allocations.push({
+            journal_line_id: entry.lines.find(entryLine => entryLine.line_number === 1)!.id,
+            amount: sumMoney(adjustments.map(item => item.amount)),
+            match_type: 'adjustment'
+          });
+        }
+
+        await trx('bank_reconciliation_matches').insert(allocations.map(allocation => ({
+          id: uuidv4(),
+          company_id: companyId,
+          statement_line_id: lineId,
+          journal_entry_line_id: allocation.journal_line_id,
+          amount: allocation.amount,
+          match_type: allocation.match_type,
+          created_by: userId
+        })));
+
+        const matchedAmount = roundMoney(toAmount(line.matched_amount) + total);
+        await trx('bank_statement_lines')
+          .where('id', lineId)
+          .update({
+            matched_amount: matchedAmount,
+            status: amountsEqual(matchedAmount, toAmount(line.amount)) ? 'matched' : 'partially_matched',
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Bank statement line matched', { lineId, companyId, userId });
+
+      return this.getLine(companyId, lineId);
+    } catch (error) {
+      logger.error('Error matching bank statement line', { error, companyId, lineId });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all matches from a statement line, reversing any adjustment postings
+   */
+  async unmatchLine(companyId: string, lineId: string, userId: string): Promise<StatementLine> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const line = await this.lockLine(trx, companyId, lineId);
+        if (line.status === 'unmatched') {
+          throw new ConflictError('Statement line is not matched');
+        }
+
+        const adjustmentEntries = await trx('bank_reconciliation_matches')
+          .join('journal_entry_lines', 'bank_reconciliation_matches.journal_entry_line_id', 'journal_entry_lines.id')
+          .where('bank_reconciliation_matches.statement_line_id', lineId)
+          .where('bank_reconciliation_matches.match_type', 'adjustment')
+          .distinct('journal_entry_lines.journal_entry_id')
+          .pluck('journal_entry_lines.journal_entry_id');
+
+        await trx('bank_reconciliation_matches').where('statement_line_id', lineId).del();
+
+        for (const entryId of adjustmentEntries) {
+          await ledgerService.reverseJournalEntry(companyId, entryId, {
+            description: `Unmatched bank statement line of ${toDateOnly(line.transaction_date)}`
+          }, userId, trx);
+        }
+
+        await trx('bank_statement_lines')
+          .where('id', lineId)
+          .update({ matched_amount: 0, status: 'unmatched', updated_at: new Date() });
+      });
+
+      logger.info('Bank statement line unmatched', { lineId, companyId, userId });
+
+      return this.getLine(companyId, lineId);
+    } catch (error) {
+      logger.error('Error unmatching bank statement line', { error, companyId, lineId });
+      throw error;
+    }
+  }
+
+  /**
+   * Bank reconciliation statement as of a date: statement balance against the
+   * ledger balance, with the ledger items not yet on a statement and the
+   * statement lines not yet in the ledger
+   */
+  async getReconciliation(companyId: string, bankAccountId: string, asOf: Date | string): Promise<BankReconciliation> {
+    try {
+      const db = getDatabase();
+      const asOfDate = toDateOnly(asOf);
+      const company = await companyService.getCompanyById(companyId);
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      const bank = await db('accounts')
+        .where('id', bankAccountId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .first();
+      if (!bank || bank.type !== AccountType.ASSET) {
+        throw new NotFoundError('Bank account not found');
+      }
+
+      const currency = bank.currency.toUpperCase();
+      const isForeign = currency !== baseCurrency;
+
+      const statement = await db('bank_statements')
+        .where('bank_account_id', bank.id)
+        .where('statement_end', '<=', asOfDate)
+        .orderBy('statement_end', 'desc')
+        .orderBy('created_at', 'desc')
+        .first();
+
+      // Lines on later statements up to the date still move the bank balance
+      let statementBalance = statement ? toAmount(statement.closing_balance) : 0;
+      if (statement) {
+        const later = await db('bank_statement_lines')
+          .where('bank_account_id', bank.id)
+          .whereNot('statement_id', statement.id)
+          .where('transaction_date', '>', toDateOnly(statement.statement_end))
+          .where('transaction_date', '<=', asOfDate)
+          .sum({ amount: 'amount' })
+          .first<StatementLineTotal | undefined>();
+        statementBalance = roundMoney(statementBalance + toAmount(later?.amount));
+      }
+
+      const totals = await db('journal_entry_lines')
+        .join('journal_entries', 'journal_entry_lines.journal_entry_id', 'journal_entries.id')
+        .where('journal_entries.company_id', companyId)
+        .where('journal_entry_lines.account_id', bank.id)
+        .whereIn('journal_entries.status', [TransactionStatus.POSTED, TransactionStatus.REVERSED])
+        .where('journal_entries.entry_date', '<=', asOfDate)
+        .sum({
+          debit: 'journal_entry_lines.debit',
+          credit: 'journal_entry_lines.credit',
+          foreign_debit: 'journal_entry_lines.foreign_debit',
+          foreign_credit: 'journal_entry_lines.foreign_credit'
+        })
+        .first<LedgerLineTotals | undefined>();
+      const ledgerBalance = isForeign
+        ? roundMoney(toAmount(totals?.foreign_debit) - toAmount(totals?.foreign_credit))
+        : roundMoney(toAmount(totals?.debit) - toAmount(totals?.credit));
+
+      const outstanding = (await this.getLedgerLines(db, companyId, bank, baseCurrency, { end_date: asOfDate }))
+        .filter(line => !amountsEqual(line.unmatched_amount, 0))
+        .map(({ id, ...line }) => ({
+          journal_line_id: id,
+          journal_entry_id: line.journal_entry_id,
+          entry_number: line.entry_number,
+          entry_date: line.entry_date,
+          description: line.description,
+          reference: line.reference,
+          amount: line.amount,
+          unmatched_amount: line.unmatched_amount
+        }));
+
+      const unreconciled = (await db('bank_statement_lines')
+        .where('bank_account_id', bank.id)
+        .whereNot('status', 'matched')
+        .where('transaction_date', '<=', asOfDate)
+        .orderBy('transaction_date')
+        .orderBy('line_number'))
+        .map((row: any) => this.mapLine(row));
+
+      const outstandingTotal = sumMoney(outstanding.map(line => line.unmatched_amount));
+      const unreconciledTotal = sumMoney(unreconciled.map(line => line.amount - line.matched_amount));
+      const adjustedLedger = roundMoney(ledgerBalance - outstandingTotal + unreconciledTotal);
+      const difference = roundMoney(statementBalance - adjustedLedger);
+
+      return {
+        company_name: company?.name || '',
+        bank_account_id: bank.id,
+        account_number: bank.account_number,
+        account_name: bank.name,
+        currency,
+        as_of: asOfDate,
+        statement_id: statement?.id ?? null,
+        statement_end: statement ? toDateOnly(statement.statement_end) : null,
+        statement_balance: statementBalance,
+        ledger_balance: ledgerBalance,
+        outstanding_ledger: outstanding,
+        outstanding_ledger_total: outstandingTotal,
+        unreconciled_statement_lines: unreconciled,
+        unreconciled_statement_total: unreconciledTotal,
+        adjusted_ledger_balance: adjustedLedger,
+        difference,
+        is_reconciled: difference === 0
+      };
+    } catch (error) {
+      logger.error('Error building bank reconciliation', { error, companyId, bankAccountId, asOf });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a reconciliation statement as CSV or PDF
+   */
+  async renderReconciliation(reconciliation: BankReconciliation, format: 'csv' | 'pdf'): Promise<RenderedReport> {
+    const filename = `bank-reconciliation-${reconciliation.account_number}-${reconciliation.as_of}`;
+
+    const items = [
+      ...reconciliation.outstanding_ledger.map(line => ({
+        section: 'Outstanding in ledger',
+        date: line.entry_date,
+        reference: line.entry_number,
+        description: [line.reference, line.description].filter(Boolean).join(' '),
+        amount: line.unmatched_amount
+      })),
+      ...reconciliation.unreconciled_statement_lines.map(line => ({
+        section: 'Not in ledger',
+        date: line.transaction_date,
+        reference: line.reference || '',
+        description: line.description || '',
+        amount: roundMoney(line.amount - line.matched_amount)
+      }))
+    ];
+
+    const summary = [
+      ['Balance per ledger', reconciliation.ledger_balance],
+      ['Less: outstanding ledger items', -reconciliation.outstanding_ledger_total],
+      ['Add: statement lines not in ledger', reconciliation.unreconciled_statement_total],
+      ['Adjusted ledger balance', reconciliation.adjusted_ledger_balance],
+      ['Balance per bank statement', reconciliation.statement_balance],
+      ['Difference', reconciliation.difference]
+    ] as Array<[string, number]>;
+
+    if (format === 'csv') {
+      const records = [
+        ...summary.map(([label, amount]) => ({ section: 'Summary', description: label, amount: amount.toFixed(2) })),
+        ...items.map(item => ({ ...item, amount: item.amount.toFixed(2) }))
+      ];
+
+      return {
+        content: toCsv(['section', 'date', 'reference', 'description', 'amount'], records),
+        content_type: 'text/csv; charset=utf-8',
+        filename: `${filename}.csv`
+      };
+    }
+
+    const rows: PdfTableRow[] = [
+      ...summary.map(([label, amount], index) => ({
+        cells: ['', '', label, formatMoney(amount)],
+        bold: index === 3 || index === 5
+      })),
+      ...(['Outstanding in ledger', 'Not in ledger'].flatMap(section => {
+        const sectionItems = items.filter(item => item.section === section);
+        if (sectionItems.length === 0) return [];
+        return [
+          { cells: ['', '', section, ''], bold: true },
+          ...sectionItems.map(item => ({
+            cells: [item.date, item.reference, item.description, formatMoney(item.amount)],
+            indent: 1
+          }))
+        ];
+      }))
+    ];
+
+    const content = await renderTablePdf({
+      title: 'Bank Reconciliation',
+      subtitle: [
+        reconciliation.company_name,
+        `${reconciliation.account_number} ${reconciliation.account_name} (${reconciliation.currency}) as at ${reconciliation.as_of}`
+      ].filter(line => line.length > 0),
+      columns: [
+        { label: 'Date', width: 70 },
+        { label: 'Reference', width: 95 },
+        { label: 'Description', width: 255 },
+        { label: 'Amount', width: 95, align: 'right' }
+      ],
+      rows
+    });
+
+    return {
+      content,
+      content_type: 'application/pdf',
+      filename: `${filename}.pdf`
+    };
+  }
+
+  /**
+   * Post the unbooked part of a statement line against the adjustment accounts;
+   * the bank line is first so it can be matched
+   */
+  private async postAdjustment(
+    trx: Knex.Transaction,
+    companyId: string,
+    bank: any,
+    line: any,
+    adjustments: NonNullable<ManualMatchData['adjustments']>,
+    userId: string
+  ) {
+    const total = sumMoney(adjustments.map(item => item.amount));
+    const description = `Bank statement ${toDateOnly(line.transaction_date)}: ${line.description || line.reference || 'adjustment'}`;
+
+    const lines: JournalLineData[] = [
+      {
+        account_id: bank.id,
+        description,
+        foreign_debit: total > 0 ? total : 0,
+        foreign_credit: total < 0 ? -total : 0
+      },
+      ...adjustments.map(adjustment => ({
+        account_id: adjustment.account_id,
+        description: adjustment.description || description,
+        foreign_debit: adjustment.amount < 0 ? -roundMoney(adjustment.amount) : 0,
+        foreign_credit: adjustment.amount > 0 ? roundMoney(adjustment.amount) : 0
+      }))
+    ];
+
+    if (adjustments.some(adjustment => adjustment.account_id === bank.id)) {
+      throw new ValidationError('Adjustments must be booked to an account other than the bank account');
+    }
+
+    return ledgerService.createAndPostJournalEntry(companyId, {
+      entry_date: toDateOnly(line.transaction_date),
+      description: description.slice(0, 255),
+      reference: line.reference || undefined,
+      source_type: BANK_ADJUSTMENT_SOURCE_TYPE,
+      source_id: line.id,
+      currency: bank.currency,
+      lines
+    }, userId, trx);
+  }
+
+  /**
+   * Posted ledger lines on the bank account in the account's currency with
+   * their unmatched part; reversed entries and their reversals cancel out and
+   * are left out
+   */
+  private async getLedgerLines(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    bank: any,
+    baseCurrency: string,
+    range: { start_date?: string; end_date?: string; ids?: string[] }
+  ): Promise<LedgerLine[]> {
+    const isForeign = bank.currency.toUpperCase() !== baseCurrency;
+    const matched = db('bank_reconciliation_matches')
+      .select('journal_entry_line_id')
+      .sum({ matched_amount: 'amount' })
+      .groupBy('journal_entry_line_id')
+      .as('matched');
+
+    let query = db('journal_entry_lines')
+      .select(
+        'journal_entry_lines.id',
+        'journal_entry_lines.journal_entry_id',
+        'journal_entry_lines.description as line_description',
+        'journal_entry_lines.debit',
+        'journal_entry_lines.credit',
+        'journal_entry_lines.foreign_debit',
+        'journal_entry_lines.foreign_credit',
+        'journal_entries.entry_number',
+        'journal_entries.entry_date',
+        'journal_entries.reference',
+        'journal_entries.description',
+        'matched.matched_amount'
+      )
+      .join('journal_entries', 'journal_entry_lines.journal_entry_id', 'journal_entries.id')
+      .leftJoin(matched, 'matched.journal_entry_line_id', 'journal_entry_lines.id')
+      .where('journal_entries.company_id', companyId)
+      .where('journal_entry_lines.account_id', bank.id)
+      .where('journal_entries.status', TransactionStatus.POSTED)
+      .whereNull('journal_entries.reversal_of_id');
+
+    if (range.ids) {
+      query = query.whereIn('journal_entry_lines.id', range.ids);
+    }
+    if (range.start_date) {
+      query = query.where('journal_entries.entry_date', '>=', range.start_date);
+    }
+    if (range.end_date) {
+      query = query.where('journal_entries.entry_date', '<=', range.end_date);
+    }
+
+    const rows = await query.orderBy('journal_entries.entry_date').orderBy('journal_entries.entry_number');
+
+    return rows
+      // Revaluation lines on foreign accounts move the base amount only
+      .filter((row: any) => !isForeign || toAmount(row.foreign_debit) !== 0 || toAmount(row.foreign_credit) !== 0)
+      .map((row: any) => {
+        const amount = isForeign
+          ? roundMoney(toAmount(row.foreign_debit) - toAmount(row.foreign_credit))
+          : roundMoney(toAmount(row.debit) - toAmount(row.credit));
+
+        return {
+          id: row.id,
+          journal_entry_id: row.journal_entry_id,
+          journal_line_id: row.id,
+          entry_number: row.entry_number,
+          entry_date: toDateOnly(row.entry_date),
+          reference: row.reference,
+          description: row.line_description || row.description,
+          amount,
+          unmatched_amount: roundMoney(amount - toAmount(row.matched_amount))
+        };
+      });
+  }
+
+  /**
+   * Matches for a set of statement lines with their journal entry numbers
+   */
+  private async getMatches(
+    db: Knex | Knex.Transaction,
+    lineIds: string[]
+  ): Promise<Array<StatementMatch & { statement_line_id: string }>> {
+    if (lineIds.length === 0) return [];
+
+    const rows = await db('bank_reconciliation_matches')
+      .select(
+        'bank_reconciliation_matches.*',
+        'journal_entry_lines.journal_entry_id',
+        'journal_entries.entry_number',
+        'journal_entries.entry_date'
+      )
+      .join('journal_entry_lines', 'bank_reconciliation_matches.journal_entry_line_id', 'journal_entry_lines.id')
+      .join('journal_entries', 'journal_entry_lines.journal_entry_id', 'journal_entries.id')
+      .whereIn('bank_reconciliation_matches.statement_line_id', lineIds)
+      .orderBy('bank_reconciliation_matches.created_at');
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      statement_line_id: row.statement_line_id,
+      journal_entry_line_id: row.journal_entry_line_id,
+      journal_entry_id: row.journal_entry_id,
+      entry_number: row.entry_number,
+      entry_date: toDateOnly(row.entry_date),
+      amount: toAmount(row.amount),
+      match_type: row.match_type
+    }));
+  }
+
+  /**
+   * A statement line with its matches
+   */
+  private async getLine(companyId: string, lineId: string): Promise<StatementLine> {
+    const db = getDatabase();
+    const row = await db('bank_statement_lines')
+      .where('id', lineId)
+      .where('company_id', companyId)
+      .first();
+
+    return {
+      ...this.mapLine(row),
+      matches: (await this.getMatches(db, [lineId])).map(({ statement_line_id, ...match }) => match)
+    };
+  }
+
+  /**
+   * Bank account statements are imported for
+   */
+  private async getBankAccount(trx: Knex.Transaction, companyId: string, accountId: string): Promise<any> {
+    const bank = await trx('accounts')
+      .where('id', accountId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!bank || bank.type !== AccountType.ASSET) {
+      throw new ValidationError('Bank account must be an asset account of this company');
+    }
+
+    return bank;
+  }
+
+  /**
+   * Lock a statement line row for update
+   */
+  private async lockLine(trx: Knex.Transaction, companyId: string, lineId: string): Promise<any> {
+    const line = await trx('bank_statement_lines')
+      .where('id', lineId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!line) {
+      throw new NotFoundError('Statement line not found');
+    }
+
+    return line;
+  }
+
+  /**
+   * Map a statement row
+   */
+  private mapStatement(row: any): BankStatement {
+    return {
+      ...row,
+      statement_start: toDateOnly(row.statement_start),
+      statement_end: toDateOnly(row.statement_end),
+      opening_balance: toAmount(row.opening_balance),
+      closing_balance: toAmount(row.closing_balance),
+      ...(row.unmatched_count !== undefined ? { unmatched_count: parseInt(row.unmatched_count) } : {})
+    };
+  }
+
+  /**
+   * Map a statement line row
+   */
+  private mapLine(row: any): StatementLine {
+    return {
+      id: row.id,
+      statement_id: row.statement_id,
+      line_number: row.line_number,
+      transaction_date: toDateOnly(row.transaction_date),
+      amount: toAmount(row.amount),
+      description: row.description,
+      reference: row.reference,
+      external_id: row.external_id,
+      matched_amount: toAmount(row.matched_amount),
+      status: row.status
+    };
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
@@ -0,0 +1,426 @@
+import { parseCsv } from '../../utils/csvUtils';
+import { roundMoney, sumMoney } from '../../utils/currencyUtils';
+import { ValidationError } from '../../middleware/errorHandler';
+
+/**
+ * Parsers for bank statement files: bank CSV exports, OFX (1.x SGML and 2.x
+ * XML) and ISO 20022 CAMT.053. Amounts are signed from the account holder's
+ * point of view: money in is positive, money out negative.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053';
+
+export interface ParsedStatementLine {
+  transaction_date: string;
+  amount: number;
+  description: string;
+  reference: string | null;
+  // Bank's unique transaction ID (OFX FITID, CAMT AcctSvcrRef), used to skip re-imported lines
+  external_id: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  account_identifier: string | null;
+  currency: string | null;
+  start_date: string;
+  end_date: string;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+const CSV_COLUMNS = {
+  date: ['date', 'transaction_date', 'posting_date', 'posted_date', 'booking_date', 'value_date'],
+  amount: ['amount', 'transaction_amount', 'value'],
+  debit: ['debit', 'debit_amount', 'withdrawal', 'withdrawals', 'money_out', 'paid_out'],
+  credit: ['credit', 'credit_amount', 'deposit', 'deposits', 'money_in', 'paid_in'],
+  description: ['description', 'details', 'narrative', 'transaction_description', 'memo', 'payee'],
+  reference: ['reference', 'ref', 'cheque_number', 'check_number'],
+  external_id: ['transaction_id', 'id', 'fitid', 'bank_reference'],
+  balance: ['balance', 'running_balance'],
+};
+
+/**
+ * Parse a statement date: ISO (2024-03-31), compact (20240331, OFX
+ * 20240331120000[+2:SAST]) or day-first (31/03/2024, 31-03-2024, 31.03.2024)
+ */
+export const parseStatementDate = (value: string): string => {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (!match) {
+    const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (compact) match = compact;
+  }
+
+  let year: number, month: number, day: number;
+  if (match) {
+    [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  } else {
+    const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    if (!dayFirst) {
+      throw new ValidationError(`Unrecognised statement date: ${value}`);
+    }
+    [day, month, year] = [parseInt(dayFirst[1]), parseInt(dayFirst[2]), parseInt(dayFirst[3])];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new ValidationError(`Invalid statement date: ${value}`);
+  }
+
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Parse a statement amount: thousands separators, currency symbols, decimal
+ * commas, (brackets) and trailing minus or CR/DR markers
+ */
+export const parseStatementAmount = (value: string): number => {
+  let text = value.trim().replace(/\s/g, '');
+  let sign = 1;
+
+  const marker = text.match(/(CR|DR|-)$/i);
+  if (marker) {
+    if (marker[1].toUpperCase() !== 'CR') sign = -1;
+    text = text.slice(0, -marker[1].length);
+  }
+
+  if (/^\(.*\)$/.test(text)) {
+    sign = -sign;
+    text = text.slice(1, -1);
+  }
+
+  if (text.startsWith('-')) {
+    sign = -sign;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  text = text.replace(/^[^\d.,]+/, '');
+
+  // A comma followed by exactly two digits at the end is a decimal comma
+  if (/,\d{1,2}$/.test(text) && !/\.\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new ValidationError(`Unrecognised statement amount: ${value}`);
+  }
+
+  return roundMoney(sign * parseFloat(text));
+};
+
+/**
+ * Guess the statement format from the file name and content
+ */
+export const detectStatementFormat = (content: string, fileName?: string): StatementFormat => {
+  const extension = fileName?.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+
+  const head = content.slice(0, 2000);
+  if (/<(\w+:)?BkToCstmrStmt[\s>]/.test(content) || /camt\.053/i.test(head)) return 'camt053';
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (extension === 'xml') return 'camt053';
+
+  return 'csv';
+};
+
+/**
+ * Parse a statement file in the given (or detected) format
+ */
+export const parseStatement = (content: string, format?: StatementFormat, fileName?: string): ParsedStatement => {
+  const resolved = format || detectStatementFormat(content, fileName);
+
+  const statement = resolved === 'ofx'
+    ? parseOfx(content)
+    : resolved === 'camt053'
+      ? parseCamt053(content)
+      : parseCsvStatement(content);
+
+  if (statement.lines.length === 0) {
+    throw new ValidationError('The statement contains no transactions');
+  }
+
+  return statement;
+};
+
+const pickColumn = (keys: string[], aliases: string[]): string | undefined =>
+  aliases.find(alias => keys.includes(alias));
+
+/**
+ * Bank CSV export with a header row; either a signed amount column or
+ * separate debit/credit columns
+ */
+export const parseCsvStatement = (content: string): ParsedStatement => {
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const [header, ...rows] = parseCsv(content, delimiter);
+  if (!header) {
+    throw new ValidationError('The CSV statement is empty');
+  }
+
+  const keys = header.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const column = {
+    date: pickColumn(keys, CSV_COLUMNS.date),
+    amount: pickColumn(keys, CSV_COLUMNS.amount),
+    debit: pickColumn(keys, CSV_COLUMNS.debit),
+    credit: pickColumn(keys, CSV_COLUMNS.credit),
+    description: pickColumn(keys, CSV_COLUMNS.description),
+    reference: pickColumn(keys, CSV_COLUMNS.reference),
+    external_id: pickColumn(keys, CSV_COLUMNS.external_id),
+    balance: pickColumn(keys, CSV_COLUMNS.balance),
+  };
+
+  if (!column.date || (!column.amount && !column.debit && !column.credit)) {
+    throw new ValidationError('The CSV statement needs a date column and an amount (or debit/credit) column');
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  const balances: number[] = [];
+
+  rows.forEach((row, index) => {
+    const value = (key?: string): string => (key ? (row[keys.indexOf(key)] ?? '').trim() : '');
+    const rowNumber = index + 2;
+
+    try {
+      let amount: number;
+      if (column.amount && value(column.amount)) {
+        amount = parseStatementAmount(value(column.amount));
+      } else {
+        const debit = value(column.debit) ? Math.abs(parseStatementAmount(value(column.debit))) : 0;
+        const credit = value(column.credit) ? Math.abs(parseStatementAmount(value(column.credit))) : 0;
+        amount = roundMoney(credit - debit);
+      }
+
+      lines.push({
+        transaction_date: parseStatementDate(value(column.date)),
+        amount,
+        description: value(column.description),
+        reference: value(column.reference) || null,
+        external_id: value(column.external_id) || null,
+      });
+
+      if (value(column.balance)) {
+        balances.push(parseStatementAmount(value(column.balance)));
+      }
+    } catch (error) {
+      throw new ValidationError(`Row ${rowNumber}: ${error instanceof Error ? error.message : 'invalid row'}`);
+    }
+  });
+
+  // Exports are newest-first or oldest-first; the running balance follows the file order
+  const newestFirst = lines.length > 1 && lines[0].transaction_date > lines[lines.length - 1].transaction_date;
+  const ordered = newestFirst ? [...lines].reverse() : lines;
+
+  let closingBalance: number | null = null;
+  let openingBalance: number | null = null;
+  if (balances.length === lines.length && lines.length > 0) {
+    const ascending = newestFirst ? [...balances].reverse() : balances;
+    closingBalance = ascending[ascending.length - 1];
+    openingBalance = roundMoney(ascending[0] - ordered[0].amount);
+  }
+
+  return {
+    format: 'csv',
+    account_identifier: null,
+    currency: null,
+    ...dateRange(ordered),
+    opening_balance: openingBalance,
+    closing_balance: closingBalance,
+    lines: ordered,
+  };
+};
+
+/**
+ * Value of an OFX element; 1.x SGML leaves leaf elements unclosed
+ */
+const ofxValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>\\s*([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value.length > 0 ? value : null;
+};
+
+/**
+ * OFX bank or credit card statement (STMTTRNRS / CCSTMTTRNRS)
+ */
+export const parseOfx = (content: string): ParsedStatement => {
+  const transactions = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  const lines = transactions.map((block) => {
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    const datePosted = ofxValue(block, 'DTPOSTED');
+    const amount = ofxValue(block, 'TRNAMT');
+    if (!datePosted || !amount) {
+      throw new ValidationError('OFX transaction without DTPOSTED or TRNAMT');
+    }
+
+    return {
+      transaction_date: parseStatementDate(datePosted),
+      amount: parseStatementAmount(amount),
+      description: [name, memo].filter(Boolean).join(' - '),
+      reference: ofxValue(block, 'CHECKNUM') || ofxValue(block, 'REFNUM'),
+      external_id: ofxValue(block, 'FITID'),
+    };
+  });
+
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?(<\/LEDGERBAL>|$)/i)?.[0] || '';
+  const closing = ofxValue(ledgerBalance, 'BALAMT');
+  const transactionList = content.match(/<BANKTRANLIST>[\s\S]*?(<STMTTRN>|<\/BANKTRANLIST>)/i)?.[0] || '';
+  const start = ofxValue(transactionList, 'DTSTART');
+  const end = ofxValue(transactionList, 'DTEND');
+  const range = dateRange(lines);
+
+  const closingBalance = closing ? parseStatementAmount(closing) : null;
+
+  return {
+    format: 'ofx',
+    account_identifier: ofxValue(content, 'ACCTID'),
+    currency: ofxValue(content, 'CURDEF')?.toUpperCase() ?? null,
+    start_date: start ? parseStatementDate(start) : range.start_date,
+    end_date: end ? parseStatementDate(end) : range.end_date,
+    opening_balance: closingBalance === null
+      ? null
+      : roundMoney(closingBalance - sumMoney(lines.map(line => line.amount))),
+    closing_balance: closingBalance,
+    lines,
+  };
+};
+
+/**
+ * Text of the first XML element with this name inside a block
+ */
+const xmlValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value.length > 0 ? value : null;
+};
+
+/**
+ * First XML element with this name inside a block, including its children
+ */
+const xmlBlock = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`));
+  return match ? match[0] : null;
+};
+
+const xmlBlocks = (block: string, tag: string): string[] =>
+  block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'g')) || [];
+
+/**
+ * Signed amount of a CAMT balance or entry (CdtDbtInd DBIT is money out)
+ */
+const camtAmount = (block: string): { amount: number; currency: string | null } => {
+  const match = block.match(/<Amt(?:\s+Ccy="([A-Za-z]{3})")?[^>]*>([^<]+)<\/Amt>/);
+  if (!match) {
+    throw new ValidationError('CAMT.053 entry without an amount');
+  }
+
+  const amount = parseStatementAmount(match[2]);
+  return {
+    amount: xmlValue(block, 'CdtDbtInd') === 'DBIT' ? -amount : amount,
+    currency: match[1]?.toUpperCase() ?? null,
+  };
+};
+
+const camtDate = (block: string | null): string | null => {
+  if (!block) return null;
+  const value = xmlValue(block, 'Dt') || xmlValue(block, 'DtTm');
+  return value ? parseStatementDate(value) : null;
+};
+
+/**
+ * ISO 20022 bank-to-customer statement (camt.053); booked entries of the
+ * first statement in the file
+ */
+export const parseCamt053 = (content: string): ParsedStatement => {
+  // Namespace prefixes (<ns2:Ntry>) carry no meaning for these elements
+  const xml = content.replace(/<(\/?)[A-Za-z][\w.-]*:/g, '<$1');
+
+  const statement = xmlBlock(xml, 'Stmt');
+  if (!statement) {
+    throw new ValidationError('No statement (Stmt) found in the CAMT.053 file');
+  }
+
+  const account = xmlBlock(statement, 'Acct') || '';
+  const entries = xmlBlocks(statement, 'Ntry').filter((entry) => {
+    const status = xmlBlock(entry, 'Sts');
+    const code = status ? (xmlValue(status, 'Cd') || xmlValue(entry, 'Sts')) : 'BOOK';
+    return code === 'BOOK';
+  });
+
+  let currency = xmlValue(account, 'Ccy');
+  const lines = entries.map((entry) => {
+    const { amount, currency: entryCurrency } = camtAmount(entry);
+    currency = currency || entryCurrency;
+
+    const date = camtDate(xmlBlock(entry, 'BookgDt')) || camtDate(xmlBlock(entry, 'ValDt'));
+    if (!date) {
+      throw new ValidationError('CAMT.053 entry without a booking date');
+    }
+
+    const endToEndId = xmlValue(entry, 'EndToEndId');
+    const counterparty = xmlValue(xmlBlock(entry, amount < 0 ? 'Cdtr' : 'Dbtr') || '', 'Nm');
+    const remittance = xmlValues(entry, 'Ustrd').join(' ');
+
+    return {
+      transaction_date: date,
+      amount,
+      description: [counterparty, remittance || xmlValue(entry, 'AddtlNtryInf') || xmlValue(entry, 'AddtlTxInf')]
+        .filter(Boolean)
+        .join(' - '),
+      reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null)
+        || xmlValue(entry, 'NtryRef')
+        || xmlValue(entry, 'AcctSvcrRef'),
+      external_id: xmlValue(entry, 'AcctSvcrRef') || xmlValue(entry, 'NtryRef'),
+    };
+  });
+
+  const balances = xmlBlocks(statement, 'Bal').map((balance) => ({
+    code: xmlValue(xmlBlock(balance, 'Tp') || '', 'Cd'),
+    amount: camtAmount(balance).amount,
+  }));
+  const opening = balances.find(balance => balance.code === 'OPBD' || balance.code === 'PRCD');
+  const closing = balances.find(balance => balance.code === 'CLBD');
+
+  const period = xmlBlock(statement, 'FrToDt');
+  const range = dateRange(lines);
+  const periodStart = period ? xmlValue(period, 'FrDtTm') || xmlValue(period, 'FrDt') : null;
+  const periodEnd = period ? xmlValue(period, 'ToDtTm') || xmlValue(period, 'ToDt') : null;
+
+  return {
+    format: 'camt053',
+    account_identifier: xmlValue(account, 'IBAN') || xmlValue(xmlBlock(account, 'Othr') || '', 'Id'),
+    currency: currency ? currency.toUpperCase() : null,
+    start_date: periodStart ? parseStatementDate(periodStart) : range.start_date,
+    end_date: periodEnd ? parseStatementDate(periodEnd) : range.end_date,
+    opening_balance: opening ? opening.amount : null,
+    closing_balance: closing ? closing.amount : null,
+    lines,
+  };
+};
+
+const xmlValues = (block: string, tag: string): string[] =>
+  (block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, 'g')) || [])
+    .map(element => decodeEntities(element.replace(/<[^>]+>/g, '').trim()))
+    .filter(value => value.length > 0);
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&');
+
+const dateRange = (lines: ParsedStatementLine[]): { start_date: string; end_date: string } => {
+  const dates = lines.map(line => line.transaction_date).sort();
+  return { start_date: dates[0] ?? '', end_date: dates[dates.length - 1] ?? '' };
+};
@@ -0,0 +1,139 @@
+import { parseCsvRecords } from '../../utils/csvUtils';
+import { roundMoney } from '../../utils/currencyUtils';
+import { ValidationError } from '../../middleware/errorHandler';
+
+/**
+ * Budget CSV import. Two layouts are accepted:
+ *
+ *   long: account_number, cost_centre, month, amount (one row per month)
+ *   wide: account_number, cost_centre, 2025-03, 2025-04, ... (one column per month)
+ *
+ * The cost centre column is optional in both.
+ */
+
+export interface ParsedBudgetLine {
+  account_number: string;
+  cost_centre_code: string | null;
+  // First day of the month
+  period_month: string;
+  amount: number;
+  line: number;
+}
+
+const ACCOUNT_COLUMNS = ['account_number', 'account', 'account_no'];
+const COST_CENTRE_COLUMNS = ['cost_centre', 'cost_center', 'cost_centre_code', 'cost_center_code'];
+// parseCsvRecords turns '2025-03' headers into '2025_03'
+const MONTH_HEADER = /^\d{4}_\d{2}(_01)?$/;
+
+const formatMonth = (year: number, month: number, original: string): string => {
+  if (month < 1 || month > 12) {
+    throw new ValidationError(`Invalid budget month: ${original} (use YYYY-MM)`);
+  }
+  return `${year}-${String(month).padStart(2, '0')}-01`;
+};
+
+/**
+ * '2025-03', '2025-03-01' or '03/2025' -> '2025-03-01'
+ */
+export const parseBudgetMonth = (value: string): string => {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})(?:-01)?$/);
+  if (match) {
+    return formatMonth(parseInt(match[1]), parseInt(match[2]), value);
+  }
+
+  match = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    return formatMonth(parseInt(match[2]), parseInt(match[1]), value);
+  }
+
+  throw new ValidationError(`Invalid budget month: ${value} (use YYYY-MM)`);
+};
+
+/**
+ * '12 500.00' or '12,500.00' -> 12500
+ */
+export const parseBudgetAmount = (value: string): number => {
+  const text = value.replace(/[\s,]/g, '');
+  const negative = /^\(.*\)$/.test(text);
+  const amount = Number(text.replace(/[()]/g, ''));
+
+  if (text.length === 0 || isNaN(amount)) {
+    throw new ValidationError(`Invalid budget amount: ${value}`);
+  }
+
+  return roundMoney(negative ? -amount : amount);
+};
+
+/**
+ * Parse a budget CSV into one line per account, cost centre and month
+ */
+export const parseBudgetCsv = (content: string): ParsedBudgetLine[] => {
+  const records = parseCsvRecords(content);
+  if (records.length === 0) {
+    throw new ValidationError('The CSV file contains no budget lines');
+  }
+
+  const columns = Object.keys(records[0]);
+  const accountColumn = ACCOUNT_COLUMNS.find(column => columns.includes(column));
+  if (!accountColumn) {
+    throw new ValidationError('Missing CSV column: account_number');
+  }
+
+  const costCentreColumn = COST_CENTRE_COLUMNS.find(column => columns.includes(column));
+  const monthColumns = columns.filter(column => MONTH_HEADER.test(column));
+  const isLong = columns.includes('month') && columns.includes('amount');
+
+  if (!isLong && monthColumns.length === 0) {
+    throw new ValidationError('The CSV needs month and amount columns, or one column per month (YYYY-MM)');
+  }
+
+  const lines: ParsedBudgetLine[] = [];
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const accountNumber = record[accountColumn];
+    if (!accountNumber) {
+      // Blank rows at the end of spreadsheet exports
+      if (Object.values(record).every(value => value === '')) return;
+      throw new ValidationError(`Line ${line}: account number is required`);
+    }
+
+    const costCentreCode = (costCentreColumn && record[costCentreColumn]) || null;
+
+    try {
+      if (isLong) {
+        lines.push({
+          account_number: accountNumber,
+          cost_centre_code: costCentreCode,
+          period_month: parseBudgetMonth(record.month),
+          amount: parseBudgetAmount(record.amount),
+          line
+        });
+        return;
+      }
+
+      for (const column of monthColumns) {
+        if (record[column] === '') continue;
+
+        lines.push({
+          account_number: accountNumber,
+          cost_centre_code: costCentreCode,
+          period_month: parseBudgetMonth(column.replace(/_/g, '-')),
+          amount: parseBudgetAmount(record[column]),
+          line
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new ValidationError(`Line ${line} (${accountNumber}): ${message}`);
+    }
+  });
+
+  if (lines.length === 0) {
+    throw new ValidationError('The CSV file contains no budget lines');
+  }
+
+  return lines;
+};
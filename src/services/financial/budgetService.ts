@@ -0,0 +1,1186 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { balanceChange, AccountMovement } from './ledgerService';
+import { YEAR_END_SOURCE_TYPE } from './fiscalPeriodService';
+import { parseBudgetCsv, parseBudgetMonth } from './budgetParser';
+import {
+  buildVarianceLines,
+  totalVariance,
+  budgetKey,
+  totalByKey,
+  crossesBudget,
+  BudgetAccount,
+  BudgetAmount,
+  VarianceLine,
+  VarianceTotals
+} from './budgetVariance';
+import { RenderedReport } from './reportService';
+import { companyService } from '../../core/company/companyService';
+import { notificationService } from '../../core/notification/notificationService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount, formatMoney } from '../../utils/currencyUtils';
+import { toDateOnly, startOfMonth, endOfMonth } from '../../utils/dateUtils';
+import { toCsv } from '../../utils/csvUtils';
+import { renderTablePdf, PdfTableRow } from '../../utils/pdfUtils';
+import { AccountType, NotificationType, TransactionStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export type BudgetStatus = 'draft' | 'approved' | 'superseded';
+
+export interface CostCentre {
+  id: string;
+  company_id: string;
+  code: string;
+  name: string;
+  department_id?: string | null;
+  department_name?: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateCostCentreData {
+  code: string;
+  name: string;
+  department_id?: string | null;
+}
+
+export interface UpdateCostCentreData {
+  name?: string;
+  department_id?: string | null;
+  is_active?: boolean;
+}
+
+export interface BudgetLine {
+  id: string;
+  account_id: string;
+  account_number: string;
+  account_name: string;
+  cost_centre_id: string | null;
+  cost_centre_code: string | null;
+  period_month: string;
+  amount: number;
+}
+
+export interface Budget {
+  id: string;
+  company_id: string;
+  fiscal_year_id: string;
+  fiscal_year_name: string;
+  start_date: string;
+  end_date: string;
+  name: string;
+  version: string;
+  status: BudgetStatus;
+  copied_from_id?: string | null;
+  notes?: string | null;
+  total: number;
+  approved_at?: Date | null;
+  approved_by?: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  lines?: BudgetLine[];
+}
+
+export interface CreateBudgetData {
+  fiscal_year_id: string;
+  name: string;
+  version: string;
+  notes?: string;
+  copy_from_budget_id?: string;
+}
+
+export interface BudgetLineData {
+  account_id: string;
+  cost_centre_id?: string | null;
+  // YYYY-MM
+  month: string;
+  amount: number;
+}
+
+export interface BudgetFilters {
+  fiscal_year_id?: string;
+  status?: BudgetStatus;
+}
+
+export interface BudgetImportResult {
+  imported: number;
+  accounts: number;
+}
+
+export interface BudgetVarianceOptions {
+  start_date?: Date | string;
+  end_date?: Date | string;
+  cost_centre_id?: string;
+}
+
+export interface BudgetVarianceReport {
+  budget: Omit<Budget, 'lines'>;
+  company_name?: string;
+  currency?: string;
+  start_date: string;
+  end_date: string;
+  cost_centre_id: string | null;
+  lines: VarianceLine[];
+  totals: {
+    revenue: VarianceTotals;
+    expenses: VarianceTotals;
+    net_income: VarianceTotals;
+  };
+}
+
+interface BudgetOverrun {
+  budget_id: string;
+  budget_name: string;
+  account_id: string;
+  account_number: string;
+  account_name: string;
+  cost_centre_id: string | null;
+  budget: number;
+  actual: number;
+  month_end: string;
+}
+
+const DEBIT_NORMAL_TYPES: string[] = [AccountType.ASSET, AccountType.EXPENSE];
+
+export class BudgetService {
+  /**
+   * Get a company's cost centres
+   */
+  async getCostCentres(companyId: string, filters: { is_active?: boolean } = {}): Promise<CostCentre[]> {
+    try {
+      const db = getDatabase();
+
+      let query = db('cost_centres')
+        .select('cost_centres.*', 'departments.name as department_name')
+        .leftJoin('departments', 'cost_centres.department_id', 'departments.id')
+        .where('cost_centres.company_id', companyId);
+
+      if (filters.is_active !== undefined) {
+        query = query.where('cost_centres.is_active', filters.is_active);
+      }
+
+      return await query.orderBy('cost_centres.code');
+    } catch (error) {
+      logger.error('Error fetching cost centres', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a cost centre, optionally owned by a department
+   */
+  async createCostCentre(companyId: string, data: CreateCostCentreData, createdBy: string): Promise<CostCentre> {
+    try {
+      const db = getDatabase();
+
+      const code = data.code.trim().toUpperCase();
+      const existing = await db('cost_centres')
+        .where('company_id', companyId)
+        .where('code', code)
+        .first();
+      if (existing) {
+        throw new ConflictError(`Cost centre ${code} already exists`);
+      }
+
+      if (data.department_id) {
+        await this.assertDepartment(companyId, data.department_id);
+      }
+
+      const costCentreId = uuidv4();
+      await db('cost_centres').insert({
+        id: costCentreId,
+        company_id: companyId,
+        code,
+        name: data.name.trim(),
+        department_id: data.department_id || null,
+        created_by: createdBy
+      });
+
+      logger.info('Cost centre created successfully', { costCentreId, code, companyId, createdBy });
+
+      return (await this.getCostCentre(companyId, costCentreId))!;
+    } catch (error) {
+      logger.error('Error creating cost centre', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a cost centre's name, department or active flag
+   */
+  async updateCostCentre(
+    companyId: string,
+    costCentreId: string,
+    data: UpdateCostCentreData,
+    updatedBy: string
+  ): Promise<CostCentre> {
+    try {
+      const db = getDatabase();
+
+      const costCentre = await this.getCostCentre(companyId, costCentreId);
+      if (!costCentre) {
+        throw new NotFoundError('Cost centre not found');
+      }
+
+      const updateData: Record<string, any> = { updated_at: new Date() };
+
+      if (data.name !== undefined) updateData.name = data.name.trim();
+      if (data.is_active !== undefined) updateData.is_active = data.is_active;
+      if (data.department_id !== undefined) {
+        if (data.department_id) {
+          await this.assertDepartment(companyId, data.department_id);
+        }
+        updateData.department_id = data.department_id || null;
+      }
+
+      await db('cost_centres').where('id', costCentreId).update(updateData);
+
+      logger.info('Cost centre updated successfully', { costCentreId, companyId, updatedBy });
+
+      return (await this.getCostCentre(companyId, costCentreId))!;
+    } catch (error) {
+      logger.error('Error updating cost centre', { error, companyId, costCentreId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Get budgets (all versions) with their totals
+   */
+  async getBudgets(companyId: string, filters: BudgetFilters = {}): Promise<Budget[]> {
+    try {
+      const db = getDatabase();
+
+      let query = this.budgetQuery(db).where('budgets.company_id', companyId);
+
+      if (filters.fiscal_year_id) {
+        query = query.where('budgets.fiscal_year_id', filters.fiscal_year_id);
+      }
+
+      if (filters.status) {
+        query = query.where('budgets.status', filters.status);
+      }
+
+      const rows = await query
+        .orderBy('fiscal_years.start_date', 'desc')
+        .orderBy('budgets.created_at');
+
+      return rows.map((row: any) => this.mapBudget(row));
+    } catch (error) {
+      logger.error('Error fetching budgets', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a budget with its lines
+   */
+  async getBudgetById(companyId: string, budgetId: string, trx?: Knex.Transaction): Promise<Budget | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await this.budgetQuery(db)
+        .where('budgets.id', budgetId)
+        .where('budgets.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const lines = await db('budget_lines')
+        .select(
+          'budget_lines.*',
+          'accounts.account_number',
+          'accounts.name as account_name',
+          'cost_centres.code as cost_centre_code'
+        )
+        .join('accounts', 'budget_lines.account_id', 'accounts.id')
+        .leftJoin('cost_centres', 'budget_lines.cost_centre_id', 'cost_centres.id')
+        .where('budget_lines.budget_id', budgetId)
+        .orderBy('accounts.account_number')
+        .orderBy('cost_centres.code')
+        .orderBy('budget_lines.period_month');
+
+      return {
+        ...this.mapBudget(row),
+        lines: lines.map((line: any) => ({
+          id: line.id,
+          account_id: line.account_id,
+          account_number: line.account_number,
+          account_name: line.account_name,
+          cost_centre_id: line.cost_centre_id,
+          cost_centre_code: line.cost_centre_code,
+          period_month: toDateOnly(line.period_month),
+          amount: toAmount(line.amount)
+        }))
+      };
+    } catch (error) {
+      logger.error('Error fetching budget by ID', { error, companyId, budgetId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft budget version for a fiscal year, optionally copying another version's lines
+   */
+  async createBudget(companyId: string, data: CreateBudgetData, createdBy: string): Promise<Budget> {
+    try {
+      const db = getDatabase();
+      const version = data.version.trim().toLowerCase();
+      const budgetId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const fiscalYear = await trx('fiscal_years')
+          .where('id', data.fiscal_year_id)
+          .where('company_id', companyId)
+          .first();
+        if (!fiscalYear) {
+          throw new NotFoundError('Fiscal year not found');
+        }
+
+        const existing = await trx('budgets')
+          .where('company_id', companyId)
+          .where('fiscal_year_id', fiscalYear.id)
+          .where('version', version)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Fiscal year ${fiscalYear.name} already has a ${version} budget`);
+        }
+
+        let source: any = null;
+        if (data.copy_from_budget_id) {
+          source = await trx('budgets')
+            .where('id', data.copy_from_budget_id)
+            .where('company_id', companyId)
+            .first();
+          if (!source) {
+            throw new NotFoundError('Budget to copy not found');
+          }
+          if (source.fiscal_year_id !== fiscalYear.id) {
+            throw new ValidationError('Only budgets of the same fiscal year can be copied');
+          }
+        }
+
+        await trx('budgets').insert({
+          id: budgetId,
+          company_id: companyId,
+          fiscal_year_id: fiscalYear.id,
+          name: data.name.trim(),
+          version,
+          status: 'draft',
+          copied_from_id: source?.id ?? null,
+          notes: data.notes,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        if (source) {
+          await trx.raw(
+            `insert into budget_lines (id, budget_id, account_id, cost_centre_id, period_month, amount)
+             select gen_random_uuid(), ?, account_id, cost_centre_id, period_month, amount
+             from budget_lines where budget_id = ?`,
+            [budgetId, source.id]
+          );
+        }
+      });
+
+      const budget = await this.getBudgetById(companyId, budgetId);
+      if (!budget) {
+        throw new Error('Failed to create budget');
+      }
+
+      logger.info('Budget created successfully', { budgetId, version, companyId, createdBy });
+
+      return budget;
+    } catch (error) {
+      logger.error('Error creating budget', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Set monthly amounts on a draft budget; given months replace existing
+   * amounts for the same account and cost centre, or the whole budget with replace
+   */
+  async setBudgetLines(
+    companyId: string,
+    budgetId: string,
+    lines: BudgetLineData[],
+    updatedBy: string,
+    replace = false
+  ): Promise<Budget> {
+    try {
+      const db = getDatabase();
+
+      if (!Array.isArray(lines) || lines.length === 0) {
+        throw new ValidationError('At least one budget line is required');
+      }
+
+      await db.transaction(async (trx) => {
+        const budget = await this.lockDraftBudget(trx, companyId, budgetId);
+
+        const prepared = lines.map((line, index) => {
+          try {
+            return {
+              account_id: line.account_id,
+              cost_centre_id: line.cost_centre_id || null,
+              period_month: parseBudgetMonth(line.month),
+              amount: roundMoney(line.amount)
+            };
+          } catch (error) {
+            throw new ValidationError(`Line ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        });
+
+        await this.assertBudgetReferences(trx, companyId, prepared);
+        await this.writeLines(trx, budget, prepared, replace, updatedBy);
+      });
+
+      logger.info('Budget lines updated', { budgetId, companyId, count: lines.length, replace, updatedBy });
+
+      return (await this.getBudgetById(companyId, budgetId))!;
+    } catch (error) {
+      logger.error('Error setting budget lines', { error, companyId, budgetId });
+      throw error;
+    }
+  }
+
+  /**
+   * Load budget lines from CSV (account numbers and cost centre codes); all-or-nothing
+   */
+  async importBudgetCsv(
+    companyId: string,
+    budgetId: string,
+    csv: string,
+    importedBy: string,
+    replace = false
+  ): Promise<BudgetImportResult> {
+    try {
+      const db = getDatabase();
+      const parsed = parseBudgetCsv(csv);
+
+      await db.transaction(async (trx) => {
+        const budget = await this.lockDraftBudget(trx, companyId, budgetId);
+
+        const accountNumbers = Array.from(new Set(parsed.map(line => line.account_number)));
+        const accounts = await trx('accounts')
+          .where('company_id', companyId)
+          .whereIn('account_number', accountNumbers)
+          .whereNull('deleted_at')
+          .select('id', 'account_number');
+        const accountIds = new Map<string, string>(accounts.map((account: any) => [account.account_number, account.id]));
+
+        const codes = Array.from(new Set(parsed.map(line => line.cost_centre_code).filter(Boolean))) as string[];
+        const costCentres = codes.length > 0
+          ? await trx('cost_centres')
+            .where('company_id', companyId)
+            .whereIn('code', codes.map(code => code.toUpperCase()))
+            .select('id', 'code')
+          : [];
+        const costCentreIds = new Map<string, string>(costCentres.map((costCentre: any) => [costCentre.code, costCentre.id]));
+
+        const prepared = parsed.map(line => {
+          const accountId = accountIds.get(line.account_number);
+          if (!accountId) {
+            throw new ValidationError(`Line ${line.line}: account ${line.account_number} not found`);
+          }
+
+          const costCentreId = line.cost_centre_code ? costCentreIds.get(line.cost_centre_code.toUpperCase()) : null;
+          if (costCentreId === undefined) {
+            throw new ValidationError(`Line ${line.line}: cost centre ${line.cost_centre_code} not found`);
+          }
+
+          return { account_id: accountId, cost_centre_id: costCentreId, period_month: line.period_month, amount: line.amount };
+        });
+
+        await this.assertBudgetReferences(trx, companyId, prepared);
+        await this.writeLines(trx, budget, prepared, replace, importedBy);
+      });
+
+      const result: BudgetImportResult = {
+        imported: parsed.length,
+        accounts: new Set(parsed.map(line => line.account_number)).size
+      };
+
+      logger.info('Budget imported', { budgetId, companyId, importedBy, ...result });
+
+      return result;
+    } catch (error) {
+      logger.error('Error importing budget', { error, companyId, budgetId });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a draft budget; it replaces the fiscal year's approved version
+   * for variance reporting and overspend warnings
+   */
+  async approveBudget(companyId: string, budgetId: string, userId: string): Promise<Budget> {
+    try {
+      const db = getDatabase();
+      let superseded: string | null = null;
+
+      await db.transaction(async (trx) => {
+        const budget = await this.lockDraftBudget(trx, companyId, budgetId);
+
+        const [{ count }] = await trx('budget_lines').where('budget_id', budgetId).count('* as count');
+        if (parseInt(count as string) === 0) {
+          throw new ValidationError('Budget has no lines');
+        }
+
+        const current = await trx('budgets')
+          .where('company_id', companyId)
+          .where('fiscal_year_id', budget.fiscal_year_id)
+          .where('status', 'approved')
+          .forUpdate()
+          .first();
+
+        if (current) {
+          superseded = current.id;
+          await trx('budgets')
+            .where('id', current.id)
+            .update({ status: 'superseded', updated_by: userId, updated_at: new Date() });
+        }
+
+        await trx('budgets')
+          .where('id', budgetId)
+          .update({
+            status: 'approved',
+            approved_at: new Date(),
+            approved_by: userId,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      const budget = (await this.getBudgetById(companyId, budgetId))!;
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'BUDGET_APPROVED',
+        resource_type: 'budget',
+        resource_id: budgetId,
+        company_id: companyId,
+        details: { name: budget.name, version: budget.version, total: budget.total, superseded_budget_id: superseded }
+      });
+
+      logger.info('Budget approved', { budgetId, companyId, userId, superseded });
+
+      return budget;
+    } catch (error) {
+      logger.error('Error approving budget', { error, companyId, budgetId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft budget
+   */
+  async deleteBudget(companyId: string, budgetId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        await this.lockDraftBudget(trx, companyId, budgetId);
+        await trx('budgets').where('id', budgetId).del();
+      });
+
+      logger.info('Budget deleted successfully', { budgetId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting budget', { error, companyId, budgetId });
+      throw error;
+    }
+  }
+
+  /**
+   * Budget against ledger actuals per account and cost centre (defaults to the whole fiscal year)
+   */
+  async getVarianceReport(
+    companyId: string,
+    budgetId: string,
+    options: BudgetVarianceOptions = {}
+  ): Promise<BudgetVarianceReport> {
+    try {
+      const db = getDatabase();
+
+      const budget = await this.getBudgetById(companyId, budgetId);
+      if (!budget) {
+        throw new NotFoundError('Budget not found');
+      }
+
+      const startDate = options.start_date ? toDateOnly(options.start_date) : budget.start_date;
+      const endDate = options.end_date ? toDateOnly(options.end_date) : budget.end_date;
+      if (startDate > endDate) {
+        throw new ValidationError('start_date must not be after end_date');
+      }
+
+      const costCentreId = options.cost_centre_id || null;
+      const budgetAmounts = (budget.lines || [])
+        .filter(line => line.period_month >= startOfMonth(startDate) && line.period_month <= endDate)
+        .filter(line => !costCentreId || line.cost_centre_id === costCentreId);
+
+      const actuals = (await this.getActuals(db, companyId, startDate, endDate))
+        .filter(actual => !costCentreId || actual.cost_centre_id === costCentreId);
+
+      const accountIds = Array.from(new Set([...budgetAmounts, ...actuals].map(amount => amount.account_id)));
+      const accounts = accountIds.length > 0
+        ? await db('accounts').whereIn('id', accountIds).select('id', 'account_number', 'name', 'type')
+        : [];
+      const accountMap = new Map<string, BudgetAccount>(accounts.map((account: any) => [account.id, {
+        account_id: account.id,
+        account_number: account.account_number,
+        account_name: account.name,
+        account_type: account.type
+      }]));
+
+      const costCentres = await db('cost_centres').where('company_id', companyId).select('id', 'code');
+      const codes = new Map<string, string>(costCentres.map((costCentre: any) => [costCentre.id, costCentre.code]));
+
+      // Balance sheet actuals are only of interest where something was budgeted
+      const budgetedKeys = new Set(budgetAmounts.map(line => budgetKey(line.account_id, line.cost_centre_id)));
+      const relevantActuals = actuals.filter(actual => {
+        const type = accountMap.get(actual.account_id)?.account_type;
+        return type === AccountType.REVENUE || type === AccountType.EXPENSE
+          || budgetedKeys.has(budgetKey(actual.account_id, actual.cost_centre_id));
+      });
+
+      const lines = buildVarianceLines(accountMap, codes, budgetAmounts, relevantActuals);
+      const revenue = totalVariance(lines.filter(line => line.account_type === AccountType.REVENUE));
+      const expenses = totalVariance(lines.filter(line => line.account_type === AccountType.EXPENSE));
+
+      const company = await companyService.getCompanyById(companyId);
+      const { lines: _lines, ...header } = budget;
+
+      return {
+        budget: header,
+        company_name: company?.name,
+        currency: company?.currency_code,
+        start_date: startDate,
+        end_date: endDate,
+        cost_centre_id: costCentreId,
+        lines,
+        totals: {
+          revenue,
+          expenses,
+          net_income: {
+            budget: roundMoney(revenue.budget - expenses.budget),
+            actual: roundMoney(revenue.actual - expenses.actual),
+            variance: roundMoney(revenue.variance - expenses.variance)
+          }
+        }
+      };
+    } catch (error) {
+      logger.error('Error generating budget variance report', { error, companyId, budgetId, options });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a variance report as CSV or PDF
+   */
+  async renderVarianceReport(report: BudgetVarianceReport, format: 'csv' | 'pdf'): Promise<RenderedReport> {
+    const filename = `budget-variance-${report.budget.version}-${report.start_date}-${report.end_date}`;
+    const totals: Array<[string, VarianceTotals]> = [
+      ['Total Revenue', report.totals.revenue],
+      ['Total Expenses', report.totals.expenses],
+      ['Net Income', report.totals.net_income]
+    ];
+
+    if (format === 'csv') {
+      const records = [
+        ...report.lines.map(line => ({
+          account_number: line.account_number,
+          account_name: line.account_name,
+          cost_centre: line.cost_centre_code || '',
+          budget: line.budget.toFixed(2),
+          actual: line.actual.toFixed(2),
+          variance: line.variance.toFixed(2),
+          variance_percent: line.variance_percent ?? ''
+        })),
+        ...totals.map(([label, total]) => ({
+          account_name: label,
+          budget: total.budget.toFixed(2),
+          actual: total.actual.toFixed(2),
+          variance: total.variance.toFixed(2)
+        }))
+      ];
+
+      return {
+        content: toCsv(['account_number', 'account_name', 'cost_centre', 'budget', 'actual', 'variance', 'variance_percent'], records),
+        content_type: 'text/csv; charset=utf-8',
+        filename: `${filename}.csv`
+      };
+    }
+
+    const rows: PdfTableRow[] = [
+      ...report.lines.map(line => ({
+        cells: [
+          `${line.account_number}  ${line.account_name}`,
+          line.cost_centre_code || '',
+          formatMoney(line.budget),
+          formatMoney(line.actual),
+          formatMoney(line.variance),
+          line.variance_percent === null ? '' : `${line.variance_percent.toFixed(1)}%`
+        ]
+      })),
+      ...totals.map(([label, total]) => ({
+        cells: [label, '', formatMoney(total.budget), formatMoney(total.actual), formatMoney(total.variance), ''],
+        bold: true
+      }))
+    ];
+
+    const content = await renderTablePdf({
+      title: 'Budget vs Actual',
+      subtitle: [
+        [report.company_name, report.currency].filter(Boolean).join(' - '),
+        `${report.budget.name} (${report.budget.version}) - ${report.start_date} to ${report.end_date}`
+      ].filter(line => line.length > 0),
+      columns: [
+        { label: 'Account', width: 3 },
+        { label: 'Cost centre', width: 1 },
+        { label: 'Budget', width: 1.3, align: 'right' },
+        { label: 'Actual', width: 1.3, align: 'right' },
+        { label: 'Variance', width: 1.3, align: 'right' },
+        { label: '%', width: 0.7, align: 'right' }
+      ],
+      rows,
+      landscape: true
+    });
+
+    return {
+      content,
+      content_type: 'application/pdf',
+      filename: `${filename}.pdf`
+    };
+  }
+
+  /**
+   * Budgeted amounts per account for a date range as debit/credit movements
+   * (for the budget column on financial reports). Uses the given budget, or
+   * the approved budgets of the fiscal years the range falls in.
+   */
+  async getBudgetMovements(
+    companyId: string,
+    startDate: Date | string,
+    endDate: Date | string,
+    budgetId?: string
+  ): Promise<AccountMovement[]> {
+    try {
+      const db = getDatabase();
+      const start = toDateOnly(startDate);
+      const end = toDateOnly(endDate);
+
+      let budgets = db('budgets')
+        .join('fiscal_years', 'budgets.fiscal_year_id', 'fiscal_years.id')
+        .where('budgets.company_id', companyId);
+
+      if (budgetId) {
+        budgets = budgets.where('budgets.id', budgetId);
+      } else {
+        budgets = budgets
+          .where('budgets.status', 'approved')
+          .where('fiscal_years.start_date', '<=', end)
+          .where('fiscal_years.end_date', '>=', start);
+      }
+
+      const budgetIds = await budgets.pluck('budgets.id');
+      if (budgetId && budgetIds.length === 0) {
+        throw new NotFoundError('Budget not found');
+      }
+      if (budgetIds.length === 0) return [];
+
+      const rows = await db('budget_lines')
+        .select(
+          'accounts.id as account_id',
+          'accounts.account_number',
+          'accounts.name as account_name',
+          'accounts.type',
+          'accounts.category',
+          'accounts.parent_account_id'
+        )
+        .sum({ amount: 'budget_lines.amount' })
+        .join('accounts', 'budget_lines.account_id', 'accounts.id')
+        .whereIn('budget_lines.budget_id', budgetIds)
+        .whereBetween('budget_lines.period_month', [startOfMonth(start), end])
+        .groupBy('accounts.id', 'accounts.account_number', 'accounts.name', 'accounts.type', 'accounts.category', 'accounts.parent_account_id')
+        .orderBy('accounts.account_number');
+
+      return rows.map(({ amount, ...row }: any) => {
+        // Back from the natural sign to the debit/credit side it sits on
+        const value = toAmount(amount);
+        const debitSide = DEBIT_NORMAL_TYPES.includes(row.type) ? value >= 0 : value < 0;
+        return {
+          ...row,
+          debit: debitSide ? Math.abs(value) : 0,
+          credit: debitSide ? 0 : Math.abs(value)
+        };
+      });
+    } catch (error) {
+      logger.error('Error fetching budget movements', { error, companyId, startDate, endDate, budgetId });
+      throw error;
+    }
+  }
+
+  /**
+   * After a posting, warn the budget holder of each expense account and cost
+   * centre the posting took over its year-to-date budget. The notification is
+   * sent once the posting's transaction has committed.
+   */
+  async checkBudgetOverruns(
+    trx: Knex.Transaction,
+    companyId: string,
+    entryId: string,
+    postedBy: string
+  ): Promise<void> {
+    try {
+      const entry = await trx('journal_entries').where('id', entryId).first();
+      if (!entry || entry.source_type === YEAR_END_SOURCE_TYPE) return;
+
+      const entryDate = toDateOnly(entry.entry_date);
+      const budget = await trx('budgets')
+        .select('budgets.id', 'budgets.name', 'fiscal_years.start_date')
+        .join('fiscal_years', 'budgets.fiscal_year_id', 'fiscal_years.id')
+        .where('budgets.company_id', companyId)
+        .where('budgets.status', 'approved')
+        .where('fiscal_years.start_date', '<=', entryDate)
+        .where('fiscal_years.end_date', '>=', entryDate)
+        .first();
+      if (!budget) return;
+
+      const lines = await trx('journal_entry_lines')
+        .select('journal_entry_lines.*', 'accounts.account_number', 'accounts.name as account_name')
+        .join('accounts', 'journal_entry_lines.account_id', 'accounts.id')
+        .where('journal_entry_lines.journal_entry_id', entryId)
+        .where('accounts.type', AccountType.EXPENSE);
+      if (lines.length === 0) return;
+
+      const changes = totalByKey(lines.map((line: any) => ({
+        account_id: line.account_id,
+        cost_centre_id: line.cost_centre_id,
+        amount: balanceChange(AccountType.EXPENSE, toAmount(line.debit), toAmount(line.credit))
+      })));
+
+      // Only spending can push an account over budget
+      const increased = Array.from(changes.entries()).filter(([, change]) => change > 0);
+      if (increased.length === 0) return;
+
+      const yearStart = toDateOnly(budget.start_date);
+      const monthEnd = endOfMonth(entryDate);
+      const accountIds = Array.from(new Set(lines.map((line: any) => line.account_id as string)));
+
+      const budgetRows = await trx('budget_lines')
+        .select('account_id', 'cost_centre_id')
+        .sum({ amount: 'amount' })
+        .where('budget_id', budget.id)
+        .whereIn('account_id', accountIds)
+        .where('period_month', '<=', monthEnd)
+        .groupBy('account_id', 'cost_centre_id');
+      const budgets = totalByKey(budgetRows.map((row: any) => ({ ...row, amount: toAmount(row.amount) })));
+
+      const actuals = totalByKey(await this.getActuals(trx, companyId, yearStart, monthEnd, accountIds));
+
+      const overruns: BudgetOverrun[] = [];
+      for (const [key, change] of increased) {
+        if (!budgets.has(key)) continue;
+
+        const budgeted = budgets.get(key)!;
+        const actual = actuals.get(key) || 0;
+        if (!crossesBudget(budgeted, roundMoney(actual - change), actual)) continue;
+
+        const [accountId, costCentreId] = key.split('|');
+        const line = lines.find((item: any) => item.account_id === accountId);
+        overruns.push({
+          budget_id: budget.id,
+          budget_name: budget.name,
+          account_id: accountId,
+          account_number: line.account_number,
+          account_name: line.account_name,
+          cost_centre_id: costCentreId || null,
+          budget: budgeted,
+          actual,
+          month_end: monthEnd
+        });
+      }
+
+      if (overruns.length === 0) return;
+
+      trx.executionPromise
+        .then(() => this.notifyOverruns(companyId, entry, overruns, postedBy))
+        .catch(() => undefined);
+    } catch (error) {
+      logger.error('Error checking budget overruns', { error, companyId, entryId });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a WARNING to the manager of the cost centre's department (the
+   * Finance department's manager for lines without a cost centre)
+   */
+  private async notifyOverruns(
+    companyId: string,
+    entry: any,
+    overruns: BudgetOverrun[],
+    postedBy: string
+  ): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      const costCentreIds = Array.from(new Set(overruns.map(overrun => overrun.cost_centre_id).filter(Boolean))) as string[];
+      const costCentres = costCentreIds.length > 0
+        ? await db('cost_centres')
+          .select('cost_centres.id', 'cost_centres.code', 'cost_centres.name', 'departments.manager_id')
+          .leftJoin('departments', 'cost_centres.department_id', 'departments.id')
+          .whereIn('cost_centres.id', costCentreIds)
+        : [];
+
+      const finance = await companyService.getFinanceDepartment(companyId);
+
+      for (const overrun of overruns) {
+        const costCentre = costCentres.find((item: any) => item.id === overrun.cost_centre_id);
+        const managerId = costCentre?.manager_id || finance?.manager_id;
+        if (!managerId) {
+          logger.warn('No department manager to warn about budget overrun', { companyId, ...overrun });
+          continue;
+        }
+
+        const where = costCentre ? ` (${costCentre.code} ${costCentre.name})` : '';
+        await notificationService.createNotification({
+          type: NotificationType.WARNING,
+          title: `Budget exceeded: ${overrun.account_number} ${overrun.account_name}${where}`,
+          message: `Posting ${entry.entry_number} (${entry.description}) took ${overrun.account_number} ${overrun.account_name}${where} `
+            + `to ${formatMoney(overrun.actual)} against a year-to-date budget of ${formatMoney(overrun.budget)} `
+            + `to ${overrun.month_end} in ${overrun.budget_name}.`,
+          recipient_id: managerId,
+          data: {
+            budget_id: overrun.budget_id,
+            account_id: overrun.account_id,
+            cost_centre_id: overrun.cost_centre_id,
+            journal_entry_id: entry.id,
+            budget: overrun.budget,
+            actual: overrun.actual,
+            over_by: roundMoney(overrun.actual - overrun.budget)
+          },
+          priority: 'high'
+        }, postedBy);
+      }
+    } catch (error) {
+      // The posting stands either way; a lost warning must not surface as a failure
+      logger.error('Error sending budget overrun notification', { error, companyId, entryId: entry.id });
+    }
+  }
+
+  /**
+   * Posted ledger movements per account and cost centre in the account's
+   * natural sign (year-end closing entries excluded)
+   */
+  private async getActuals(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    accountIds?: string[]
+  ): Promise<BudgetAmount[]> {
+    let query = db('journal_entry_lines')
+      .select('journal_entry_lines.account_id', 'journal_entry_lines.cost_centre_id', 'accounts.type')
+      .sum({ debit: 'journal_entry_lines.debit', credit: 'journal_entry_lines.credit' })
+      .join('journal_entries', 'journal_entry_lines.journal_entry_id', 'journal_entries.id')
+      .join('accounts', 'journal_entry_lines.account_id', 'accounts.id')
+      .where('journal_entries.company_id', companyId)
+      .whereIn('journal_entries.status', [TransactionStatus.POSTED, TransactionStatus.REVERSED])
+      .whereBetween('journal_entries.entry_date', [startDate, endDate])
+      .where((builder) => {
+        builder.whereNull('journal_entries.source_type').orWhereNot('journal_entries.source_type', YEAR_END_SOURCE_TYPE);
+      });
+
+    if (accountIds) {
+      query = query.whereIn('journal_entry_lines.account_id', accountIds);
+    }
+
+    const rows = await query.groupBy('journal_entry_lines.account_id', 'journal_entry_lines.cost_centre_id', 'accounts.type');
+
+    return rows.map((row: any) => ({
+      account_id: row.account_id,
+      cost_centre_id: row.cost_centre_id,
+      amount: balanceChange(row.type, toAmount(row.debit), toAmount(row.credit))
+    }));
+  }
+
+  /**
+   * Replace or upsert monthly amounts on a budget
+   */
+  private async writeLines(
+    trx: Knex.Transaction,
+    budget: any,
+    lines: Array<{ account_id: string; cost_centre_id: string | null; period_month: string; amount: number }>,
+    replace: boolean,
+    userId: string
+  ): Promise<void> {
+    const fiscalYear = await trx('fiscal_years').where('id', budget.fiscal_year_id).first();
+    const firstMonth = startOfMonth(toDateOnly(fiscalYear.start_date));
+    const lastDay = toDateOnly(fiscalYear.end_date);
+
+    const outside = lines.find(line => line.period_month < firstMonth || line.period_month > lastDay);
+    if (outside) {
+      throw new ValidationError(`Month ${outside.period_month.slice(0, 7)} is outside fiscal year ${fiscalYear.name}`);
+    }
+
+    // The last amount given for a month wins
+    const unique = new Map<string, typeof lines[number]>();
+    for (const line of lines) {
+      unique.set(`${budgetKey(line.account_id, line.cost_centre_id)}|${line.period_month}`, line);
+    }
+
+    if (replace) {
+      await trx('budget_lines').where('budget_id', budget.id).del();
+    } else {
+      for (const line of unique.values()) {
+        await trx('budget_lines')
+          .where('budget_id', budget.id)
+          .where('account_id', line.account_id)
+          .where('period_month', line.period_month)
+          .where((builder) => {
+            if (line.cost_centre_id) {
+              builder.where('cost_centre_id', line.cost_centre_id);
+            } else {
+              builder.whereNull('cost_centre_id');
+            }
+          })
+          .del();
+      }
+    }
+
+    await trx('budget_lines').insert(Array.from(unique.values()).map(line => ({
+      id: uuidv4(),
+      budget_id: budget.id,
+      ...line
+    })));
+
+    await trx('budgets')
+      .where('id', budget.id)
+      .update({ updated_by: userId, updated_at: new Date() });
+  }
+
+  /**
+   * Budget lines may only use postable accounts and active cost centres of the company
+   */
+  private async assertBudgetReferences(
+    trx: Knex.Transaction,
+    companyId: string,
+    lines: Array<{ account_id: string; cost_centre_id: string | null }>
+  ): Promise<void> {
+    const accountIds = Array.from(new Set(lines.map(line => line.account_id)));
+    const accounts = await trx('accounts')
+      .whereIn('id', accountIds)
+      .where('company_id', companyId)
+      .whereNull('deleted_at');
+    if (accounts.length !== accountIds.length) {
+      throw new ValidationError('Budget lines must use accounts of this company');
+    }
+
+    const costCentreIds = Array.from(new Set(lines.map(line => line.cost_centre_id).filter(Boolean))) as string[];
+    if (costCentreIds.length === 0) return;
+
+    const costCentres = await trx('cost_centres')
+      .whereIn('id', costCentreIds)
+      .where('company_id', companyId)
+      .where('is_active', true);
+    if (costCentres.length !== costCentreIds.length) {
+      throw new ValidationError('Budget lines must use active cost centres of this company');
+    }
+  }
+
+  /**
+   * Lock a budget for update; only drafts can change
+   */
+  private async lockDraftBudget(trx: Knex.Transaction, companyId: string, budgetId: string): Promise<any> {
+    const budget = await trx('budgets')
+      .where('id', budgetId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!budget) {
+      throw new NotFoundError('Budget not found');
+    }
+
+    if (budget.status !== 'draft') {
+      throw new ConflictError(`Only draft budgets can be changed (status: ${budget.status}); create a new version instead`);
+    }
+
+    return budget;
+  }
+
+  /**
+   * Get a cost centre with its department name
+   */
+  private async getCostCentre(companyId: string, costCentreId: string): Promise<CostCentre | null> {
+    const db = getDatabase();
+    const costCentre = await db('cost_centres')
+      .select('cost_centres.*', 'departments.name as department_name')
+      .leftJoin('departments', 'cost_centres.department_id', 'departments.id')
+      .where('cost_centres.id', costCentreId)
+      .where('cost_centres.company_id', companyId)
+      .first();
+
+    return costCentre || null;
+  }
+
+  /**
+   * The department must belong to the company
+   */
+  private async assertDepartment(companyId: string, departmentId: string): Promise<void> {
+    const db = getDatabase();
+    const department = await db('departments')
+      .where('id', departmentId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!department) {
+      throw new ValidationError('Department not found in this company');
+    }
+  }
+
+  /**
+   * Budget header query with fiscal year and total
+   */
+  private budgetQuery(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    const totals = db('budget_lines')
+      .select('budget_id')
+      .sum({ total: 'amount' })
+      .groupBy('budget_id')
+      .as('totals');
+
+    return db('budgets')
+      .select(
+        'budgets.*',
+        'fiscal_years.name as fiscal_year_name',
+        'fiscal_years.start_date',
+        'fiscal_years.end_date',
+        'totals.total'
+      )
+      .join('fiscal_years', 'budgets.fiscal_year_id', 'fiscal_years.id')
+      .leftJoin(totals, 'totals.budget_id', 'budgets.id');
+  }
+
+  /**
+   * Map a budget row
+   */
+  private mapBudget(row: any): Budget {
+    return {
+      ...row,
+      start_date: toDateOnly(row.start_date),
+      end_date: toDateOnly(row.end_date),
+      total: toAmount(row.total)
+    };
+  }
+}
+
+export const budgetService = new BudgetService();
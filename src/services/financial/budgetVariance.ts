@@ -0,0 +1,121 @@
+import { roundMoney, sumMoney } from '../../utils/currencyUtils';
+import { AccountType } from '../../types';
+
+/**
+ * Budget against actual comparison. Budgets and actuals are both in the
+ * account's natural sign, so spending more than planned is a positive
+ * variance on an expense account and earning less a negative one on revenue.
+ */
+
+export interface BudgetAccount {
+  account_id: string;
+  account_number: string;
+  account_name: string;
+  account_type: AccountType | string;
+}
+
+export interface BudgetAmount {
+  account_id: string;
+  cost_centre_id: string | null;
+  amount: number;
+}
+
+export interface VarianceLine extends BudgetAccount {
+  cost_centre_id: string | null;
+  cost_centre_code: string | null;
+  budget: number;
+  actual: number;
+  variance: number;
+  variance_percent: number | null;
+  is_favourable: boolean;
+}
+
+export interface VarianceTotals {
+  budget: number;
+  actual: number;
+  variance: number;
+}
+
+/**
+ * Key for an account and cost centre pair
+ */
+export const budgetKey = (accountId: string, costCentreId: string | null | undefined): string =>
+  `${accountId}|${costCentreId ?? ''}`;
+
+/**
+ * Sum amounts per account and cost centre
+ */
+export const totalByKey = (amounts: BudgetAmount[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const amount of amounts) {
+    const key = budgetKey(amount.account_id, amount.cost_centre_id);
+    totals.set(key, roundMoney((totals.get(key) || 0) + amount.amount));
+  }
+  return totals;
+};
+
+/**
+ * Running above budget is favourable for revenue and unfavourable otherwise
+ */
+export const isFavourable = (accountType: string, variance: number): boolean =>
+  accountType === AccountType.REVENUE ? variance >= 0 : variance <= 0;
+
+/**
+ * Whether a posting took an account from within budget to over it
+ */
+export const crossesBudget = (budget: number, before: number, after: number): boolean =>
+  before <= budget && after > budget;
+
+/**
+ * One line per account and cost centre with a budget or an actual, sorted
+ * by account number then cost centre
+ */
+export const buildVarianceLines = (
+  accounts: Map<string, BudgetAccount>,
+  costCentreCodes: Map<string, string>,
+  budgets: BudgetAmount[],
+  actuals: BudgetAmount[]
+): VarianceLine[] => {
+  const budgetTotals = totalByKey(budgets);
+  const actualTotals = totalByKey(actuals);
+  const keys = new Set([...budgetTotals.keys(), ...actualTotals.keys()]);
+
+  const lines: VarianceLine[] = [];
+  for (const key of keys) {
+    const [accountId, costCentre] = key.split('|');
+    const account = accounts.get(accountId);
+    if (!account) continue;
+
+    const budget = budgetTotals.get(key) || 0;
+    const actual = actualTotals.get(key) || 0;
+    if (budget === 0 && actual === 0) continue;
+
+    const variance = roundMoney(actual - budget);
+    const costCentreId = costCentre || null;
+
+    lines.push({
+      ...account,
+      cost_centre_id: costCentreId,
+      cost_centre_code: costCentreId ? costCentreCodes.get(costCentreId) ?? null : null,
+      budget,
+      actual,
+      variance,
+      variance_percent: budget !== 0 ? Math.round((variance / Math.abs(budget)) * 1000) / 10 : null,
+      is_favourable: isFavourable(account.account_type, variance)
+    });
+  }
+
+  return lines.sort((a, b) =>
+    a.account_number.localeCompare(b.account_number) ||
+    (a.cost_centre_code ?? '').localeCompare(b.cost_centre_code ?? '')
+  );
+};
+
+/**
+ * Budget, actual and variance totals for a set of lines
+ */
+export const totalVariance = (lines: VarianceLine[]): VarianceTotals => ({
+  budget: sumMoney(lines.map(line => line.budget)),
+  actual: sumMoney(lines.map(line => line.actual)),
+  variance: sumMoney(lines.map(line => line.variance))
+});
@@ -0,0 +1,800 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { companyService } from '../../core/company/companyService';
+import { logger } from '../../utils/logger';
+import { sumMoney, toAmount, roundMoney } from '../../utils/currencyUtils';
+import { parseCsvRecords, toCsv } from '../../utils/csvUtils';
+import { AccountType, AccountCategory } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface CreateAccountData {
+  account_number?: string;
+  name: string;
+  type: AccountType;
+  category: AccountCategory;
+  currency?: string;
+  parent_account_id?: string | null;
+  intercompany_company_id?: string | null;
+  is_active?: boolean;
+}
+
+export interface UpdateAccountData {
+  account_number?: string;
+  name?: string;
+  type?: AccountType;
+  category?: AccountCategory;
+  parent_account_id?: string | null;
+  intercompany_company_id?: string | null;
+  is_active?: boolean;
+}
+
+export interface AccountFilters {
+  type?: AccountType;
+  category?: AccountCategory;
+  is_active?: boolean;
+  search?: string;
+}
+
+export interface LedgerAccount {
+  id: string;
+  company_id: string;
+  account_number: string;
+  name: string;
+  type: AccountType;
+  category: AccountCategory;
+  balance: number;
+  currency: string;
+  is_active: boolean;
+  parent_account_id?: string | null;
+  // Group company this account holds balances with
+  intercompany_company_id?: string | null;
+  created_by?: string;
+  updated_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AccountNode extends LedgerAccount {
+  rollup_balance: number;
+  children: AccountNode[];
+}
+
+export interface AccountNumberingRule {
+  account_type: AccountType;
+  range_start: number;
+  range_end: number;
+  number_length: number;
+}
+
+export interface ChartImportResult {
+  created: number;
+  updated: number;
+}
+
+export const CHART_CSV_COLUMNS = [
+  'account_number',
+  'name',
+  'type',
+  'category',
+  'currency',
+  'parent_account_number',
+  'is_active',
+];
+
+/**
+ * Numbering used when a company has not configured its own ranges
+ */
+export const DEFAULT_NUMBERING_RULES: AccountNumberingRule[] = [
+  { account_type: AccountType.ASSET, range_start: 1000, range_end: 1999, number_length: 4 },
+  { account_type: AccountType.LIABILITY, range_start: 2000, range_end: 2999, number_length: 4 },
+  { account_type: AccountType.EQUITY, range_start: 3000, range_end: 3999, number_length: 4 },
+  { account_type: AccountType.REVENUE, range_start: 4000, range_end: 4999, number_length: 4 },
+  { account_type: AccountType.EXPENSE, range_start: 5000, range_end: 9999, number_length: 4 },
+];
+
+/**
+ * Categories allowed for each account type
+ */
+export const CATEGORY_TYPES: Record<AccountCategory, AccountType> = {
+  [AccountCategory.CURRENT_ASSETS]: AccountType.ASSET,
+  [AccountCategory.FIXED_ASSETS]: AccountType.ASSET,
+  [AccountCategory.CURRENT_LIABILITIES]: AccountType.LIABILITY,
+  [AccountCategory.LONG_TERM_LIABILITIES]: AccountType.LIABILITY,
+  [AccountCategory.OWNERS_EQUITY]: AccountType.EQUITY,
+  [AccountCategory.OPERATING_REVENUE]: AccountType.REVENUE,
+  [AccountCategory.OPERATING_EXPENSES]: AccountType.EXPENSE,
+};
+
+/**
+ * Build the account tree and roll child balances up into their parents
+ */
+export const buildAccountTree = (accounts: LedgerAccount[]): AccountNode[] => {
+  const nodes = new Map<string, AccountNode>();
+  accounts.forEach(account => nodes.set(account.id, { ...account, rollup_balance: 0, children: [] }));
+
+  const roots: AccountNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent_account_id ? nodes.get(node.parent_account_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const rollUp = (node: AccountNode): number => {
+    node.children.sort((a, b) => a.account_number.localeCompare(b.account_number));
+    node.rollup_balance = roundMoney(node.balance + sumMoney(node.children.map(rollUp)));
+    return node.rollup_balance;
+  };
+
+  roots.sort((a, b) => a.account_number.localeCompare(b.account_number));
+  roots.forEach(rollUp);
+
+  return roots;
+};
+
+/**
+ * Check an account number against the company's numbering rule for its type
+ */
+export const validateAccountNumber = (
+  accountNumber: string,
+  type: AccountType,
+  rules: AccountNumberingRule[]
+): void => {
+  const rule = rules.find(r => r.account_type === type);
+  if (!rule) return;
+
+  if (!/^\d+$/.test(accountNumber)) {
+    throw new ValidationError(`Account number ${accountNumber} must be numeric`);
+  }
+
+  if (accountNumber.length !== rule.number_length) {
+    throw new ValidationError(`Account number ${accountNumber} must be ${rule.number_length} digits long`);
+  }
+
+  const value = parseInt(accountNumber, 10);
+  if (value < rule.range_start || value > rule.range_end) {
+    throw new ValidationError(
+      `Account number ${accountNumber} is outside the ${type} range ${rule.range_start}-${rule.range_end}`
+    );
+  }
+};
+
+export class ChartOfAccountsService {
+  /**
+   * Get accounts as a flat list
+   */
+  async getAccounts(companyId: string, filters: AccountFilters = {}): Promise<LedgerAccount[]> {
+    try {
+      const db = getDatabase();
+      let query = db('accounts')
+        .where('company_id', companyId)
+        .whereNull('deleted_at');
+
+      if (filters.type) {
+        query = query.where('type', filters.type);
+      }
+
+      if (filters.category) {
+        query = query.where('category', filters.category);
+      }
+
+      if (filters.is_active !== undefined) {
+        query = query.where('is_active', filters.is_active);
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder.where('account_number', 'ilike', search).orWhere('name', 'ilike', search);
+        });
+      }
+
+      const accounts = await query.orderBy('account_number');
+      return accounts.map((account: any) => this.mapAccount(account));
+    } catch (error) {
+      logger.error('Error fetching accounts', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the chart of accounts as a tree with rolled-up balances
+   */
+  async getAccountTree(companyId: string, includeInactive = false): Promise<AccountNode[]> {
+    try {
+      const accounts = await this.getAccounts(companyId, includeInactive ? {} : { is_active: true });
+      return buildAccountTree(accounts);
+    } catch (error) {
+      logger.error('Error building account tree', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get account by ID with its rolled-up balance
+   */
+  async getAccountById(companyId: string, accountId: string): Promise<AccountNode | null> {
+    try {
+      const accounts = await this.getAccounts(companyId);
+      const tree = buildAccountTree(accounts);
+
+      const find = (nodes: AccountNode[]): AccountNode | null => {
+        for (const node of nodes) {
+          if (node.id === accountId) return node;
+          const match = find(node.children);
+          if (match) return match;
+        }
+        return null;
+      };
+
+      return find(tree);
+    } catch (error) {
+      logger.error('Error fetching account by ID', { error, companyId, accountId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get account by number
+   */
+  async getAccountByNumber(
+    companyId: string,
+    accountNumber: string,
+    trx?: Knex.Transaction
+  ): Promise<LedgerAccount | null> {
+    try {
+      const db = trx || getDatabase();
+      const account = await db('accounts')
+        .where('company_id', companyId)
+        .where('account_number', accountNumber)
+        .whereNull('deleted_at')
+        .first();
+
+      return account ? this.mapAccount(account) : null;
+    } catch (error) {
+      logger.error('Error fetching account by number', { error, companyId, accountNumber });
+      throw error;
+    }
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(
+    companyId: string,
+    data: CreateAccountData,
+    createdBy: string,
+    trx?: Knex.Transaction
+  ): Promise<LedgerAccount> {
+    try {
+      const db = trx || getDatabase();
+      // Validate input
+      this.validateAccountData(data);
+
+      const rules = await this.getNumberingRules(companyId, trx);
+      const accountNumber = data.account_number?.trim() || await this.suggestAccountNumber(companyId, data.type, trx);
+      validateAccountNumber(accountNumber, data.type, rules);
+
+      // Check if account number already exists
+      const existing = await this.getAccountByNumber(companyId, accountNumber, trx);
+      if (existing) {
+        throw new ConflictError(`Account number ${accountNumber} already exists`);
+      }
+
+      // Validate parent account if provided
+      if (data.parent_account_id) {
+        await this.assertValidParent(db, companyId, data.parent_account_id, data.type);
+      }
+
+      if (data.intercompany_company_id) {
+        await this.assertValidIntercompany(companyId, data.intercompany_company_id);
+      }
+
+      const currency = data.currency || await companyService.getBaseCurrency(companyId);
+
+      const [account] = await db('accounts').insert({
+        id: uuidv4(),
+        company_id: companyId,
+        account_number: accountNumber,
+        name: data.name.trim(),
+        type: data.type,
+        category: data.category,
+        balance: 0,
+        currency: currency.toUpperCase(),
+        is_active: data.is_active ?? true,
+        parent_account_id: data.parent_account_id || null,
+        intercompany_company_id: data.intercompany_company_id || null,
+        created_by: createdBy,
+        updated_by: createdBy
+      }).returning('*');
+
+      logger.info('Account created successfully', {
+        accountId: account.id,
+        accountNumber,
+        companyId,
+        createdBy
+      });
+
+      return this.mapAccount(account);
+    } catch (error) {
+      logger.error('Error creating account', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update account
+   */
+  async updateAccount(
+    companyId: string,
+    accountId: string,
+    data: UpdateAccountData,
+    updatedBy: string,
+    trx?: Knex.Transaction
+  ): Promise<LedgerAccount> {
+    try {
+      const db = trx || getDatabase();
+      const existing = await db('accounts')
+        .where('id', accountId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .first();
+
+      if (!existing) {
+        throw new NotFoundError('Account not found');
+      }
+
+      const type = data.type || existing.type;
+      const category = data.category || existing.category;
+
+      if (CATEGORY_TYPES[category as AccountCategory] !== type) {
+        throw new ValidationError(`Category ${category} is not valid for ${type} accounts`);
+      }
+
+      if (data.type && data.type !== existing.type) {
+        const hasPostings = await db('journal_entry_lines').where('account_id', accountId).first();
+        if (hasPostings) {
+          throw new ConflictError('Account type cannot be changed once the account has postings');
+        }
+
+        const mismatchedChild = await db('accounts')
+          .where('parent_account_id', accountId)
+          .whereNull('deleted_at')
+          .whereNot('type', data.type)
+          .first();
+        if (mismatchedChild) {
+          throw new ValidationError('Account type must match the type of its child accounts');
+        }
+      }
+
+      if (data.account_number && data.account_number !== existing.account_number) {
+        const rules = await this.getNumberingRules(companyId, trx);
+        validateAccountNumber(data.account_number, type, rules);
+
+        const duplicate = await this.getAccountByNumber(companyId, data.account_number, trx);
+        if (duplicate) {
+          throw new ConflictError(`Account number ${data.account_number} already exists`);
+        }
+      }
+
+      const parentId = data.parent_account_id !== undefined ? data.parent_account_id : existing.parent_account_id;
+      if (parentId) {
+        await this.assertValidParent(db, companyId, parentId, type, accountId);
+      }
+
+      if (data.intercompany_company_id) {
+        await this.assertValidIntercompany(companyId, data.intercompany_company_id);
+      }
+
+      const updateData: any = {
+        updated_by: updatedBy,
+        updated_at: new Date()
+      };
+
+      if (data.account_number) updateData.account_number = data.account_number;
+      if (data.name) updateData.name = data.name.trim();
+      if (data.type) updateData.type = data.type;
+      if (data.category) updateData.category = data.category;
+      if (data.parent_account_id !== undefined) updateData.parent_account_id = data.parent_account_id || null;
+      if (data.intercompany_company_id !== undefined) updateData.intercompany_company_id = data.intercompany_company_id || null;
+      if (data.is_active !== undefined) updateData.is_active = data.is_active;
+
+      const [account] = await db('accounts')
+        .where('id', accountId)
+        .update(updateData)
+        .returning('*');
+
+      logger.info('Account updated successfully', {
+        accountId,
+        companyId,
+        updatedBy,
+        changes: Object.keys(data)
+      });
+
+      return this.mapAccount(account);
+    } catch (error) {
+      logger.error('Error updating account', { error, companyId, accountId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete an account that has no children and no postings
+   */
+  async deleteAccount(companyId: string, accountId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const account = await db('accounts')
+        .where('id', accountId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .first();
+
+      if (!account) {
+        throw new NotFoundError('Account not found');
+      }
+
+      const child = await db('accounts')
+        .where('parent_account_id', accountId)
+        .whereNull('deleted_at')
+        .first();
+      if (child) {
+        throw new ConflictError('Account has child accounts and cannot be deleted');
+      }
+
+      const posting = await db('journal_entry_lines').where('account_id', accountId).first();
+      if (posting) {
+        throw new ConflictError('Account has postings and cannot be deleted; deactivate it instead');
+      }
+
+      await db('accounts')
+        .where('id', accountId)
+        .update({
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date()
+        });
+
+      logger.info('Account deleted successfully', { accountId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting account', { error, companyId, accountId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get numbering rules for a company (defaults for unconfigured types)
+   */
+  async getNumberingRules(companyId: string, trx?: Knex.Transaction): Promise<AccountNumberingRule[]> {
+    try {
+      const db = trx || getDatabase();
+      const configured = await db('account_numbering_rules').where('company_id', companyId);
+
+      return DEFAULT_NUMBERING_RULES.map(defaultRule => {
+        const rule = configured.find((r: any) => r.account_type === defaultRule.account_type);
+        return rule
+          ? {
+            account_type: rule.account_type,
+            range_start: rule.range_start,
+            range_end: rule.range_end,
+            number_length: rule.number_length
+          }
+          : defaultRule;
+      });
+    } catch (error) {
+      logger.error('Error fetching numbering rules', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace numbering rules for the given account types
+   */
+  async setNumberingRules(
+    companyId: string,
+    rules: AccountNumberingRule[],
+    updatedBy: string
+  ): Promise<AccountNumberingRule[]> {
+    try {
+      const db = getDatabase();
+      // Validate the resulting rule set, not just the submitted rules
+      const current = await this.getNumberingRules(companyId);
+      const merged = current.map(rule => rules.find(r => r.account_type === rule.account_type) || rule);
+      this.validateNumberingRules(merged);
+
+      await db.transaction(async (trx) => {
+        for (const rule of rules) {
+          await trx('account_numbering_rules')
+            .insert({
+              id: uuidv4(),
+              company_id: companyId,
+              account_type: rule.account_type,
+              range_start: rule.range_start,
+              range_end: rule.range_end,
+              number_length: rule.number_length,
+              updated_by: updatedBy
+            })
+            .onConflict(['company_id', 'account_type'])
+            .merge(['range_start', 'range_end', 'number_length', 'updated_by', 'updated_at']);
+        }
+      });
+
+      logger.info('Account numbering rules updated', { companyId, updatedBy });
+
+      return this.getNumberingRules(companyId);
+    } catch (error) {
+      logger.error('Error updating numbering rules', { error, companyId, rules });
+      throw error;
+    }
+  }
+
+  /**
+   * Suggest the next free account number in a type's range
+   */
+  async suggestAccountNumber(companyId: string, type: AccountType, trx?: Knex.Transaction): Promise<string> {
+    try {
+      const db = trx || getDatabase();
+      const rules = await this.getNumberingRules(companyId, trx);
+      const rule = rules.find(r => r.account_type === type);
+      if (!rule) {
+        throw new ValidationError(`No numbering rule for ${type} accounts`);
+      }
+
+      const used = await db('accounts')
+        .where('company_id', companyId)
+        .where('type', type)
+        .whereNull('deleted_at')
+        .pluck('account_number');
+
+      const taken = new Set(used.map((number: string) => parseInt(number, 10)));
+      for (let value = rule.range_start; value <= rule.range_end; value++) {
+        if (!taken.has(value)) {
+          return String(value).padStart(rule.number_length, '0');
+        }
+      }
+
+      throw new ConflictError(`No account numbers left in the ${type} range`);
+    } catch (error) {
+      logger.error('Error suggesting account number', { error, companyId, type });
+      throw error;
+    }
+  }
+
+  /**
+   * Export the chart of accounts as CSV
+   */
+  async exportChartCsv(companyId: string): Promise<string> {
+    try {
+      const accounts = await this.getAccounts(companyId);
+      const numbers = new Map(accounts.map(account => [account.id, account.account_number]));
+
+      return toCsv(CHART_CSV_COLUMNS, accounts.map(account => ({
+        account_number: account.account_number,
+        name: account.name,
+        type: account.type,
+        category: account.category,
+        currency: account.currency,
+        parent_account_number: account.parent_account_id ? numbers.get(account.parent_account_id) : '',
+        is_active: account.is_active ? 'true' : 'false'
+      })));
+    } catch (error) {
+      logger.error('Error exporting chart of accounts', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Import a chart of accounts from CSV, creating or updating by account number.
+   * The import is all-or-nothing.
+   */
+  async importChartCsv(companyId: string, csv: string, importedBy: string): Promise<ChartImportResult> {
+    try {
+      const db = getDatabase();
+      const records = parseCsvRecords(csv);
+      if (records.length === 0) {
+        throw new ValidationError('The CSV file contains no accounts');
+      }
+
+      const missingColumns = ['account_number', 'name', 'type', 'category'].filter(column => !(column in records[0]));
+      if (missingColumns.length > 0) {
+        throw new ValidationError(`Missing CSV column(s): ${missingColumns.join(', ')}`);
+      }
+
+      const ordered = this.orderByParent(records);
+      const result: ChartImportResult = { created: 0, updated: 0 };
+
+      await db.transaction(async (trx) => {
+        for (const { record, line } of ordered) {
+          try {
+            let parentId: string | null = null;
+            if (record.parent_account_number) {
+              const parent = await this.getAccountByNumber(companyId, record.parent_account_number, trx);
+              if (!parent) {
+                throw new ValidationError(`Parent account ${record.parent_account_number} not found`);
+              }
+              parentId = parent.id;
+            }
+
+            const data = {
+              name: record.name,
+              type: record.type.toLowerCase() as AccountType,
+              category: record.category.toLowerCase() as AccountCategory,
+              parent_account_id: parentId,
+              is_active: record.is_active ? !['false', '0', 'no'].includes(record.is_active.toLowerCase()) : true
+            };
+
+            const existing = await this.getAccountByNumber(companyId, record.account_number, trx);
+            if (existing) {
+              await this.updateAccount(companyId, existing.id, data, importedBy, trx);
+              result.updated++;
+            } else {
+              await this.createAccount(companyId, {
+                ...data,
+                account_number: record.account_number,
+                currency: record.currency || undefined
+              }, importedBy, trx);
+              result.created++;
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new ValidationError(`Line ${line} (${record.account_number}): ${message}`);
+          }
+        }
+      });
+
+      logger.info('Chart of accounts imported', { companyId, importedBy, ...result });
+
+      return result;
+    } catch (error) {
+      logger.error('Error importing chart of accounts', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Order CSV records so parents are processed before their children
+   */
+  private orderByParent(records: Array<Record<string, string>>): Array<{ record: Record<string, string>; line: number }> {
+    const pending = records.map((record, index) => ({ record, line: index + 2 }));
+    const inFile = new Set(records.map(record => record.account_number));
+    const placed = new Set<string>();
+    const ordered: Array<{ record: Record<string, string>; line: number }> = [];
+
+    while (pending.length > 0) {
+      const ready = pending.filter(({ record }) =>
+        !record.parent_account_number ||
+        !inFile.has(record.parent_account_number) ||
+        placed.has(record.parent_account_number)
+      );
+
+      if (ready.length === 0) {
+        throw new ValidationError(
+          `Circular parent references in CSV: ${pending.map(({ record }) => record.account_number).join(', ')}`
+        );
+      }
+
+      ready.forEach(item => {
+        ordered.push(item);
+        placed.add(item.record.account_number);
+        pending.splice(pending.indexOf(item), 1);
+      });
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Ensure an intercompany counterparty is another existing company
+   */
+  private async assertValidIntercompany(companyId: string, counterpartyId: string): Promise<void> {
+    if (counterpartyId === companyId) {
+      throw new ValidationError('An intercompany account must point to another company');
+    }
+
+    const counterparty = await companyService.getCompanyById(counterpartyId);
+    if (!counterparty) {
+      throw new ValidationError('Intercompany company not found');
+    }
+  }
+
+  /**
+   * Ensure a parent exists, has the same type and would not create a cycle
+   */
+  private async assertValidParent(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    parentId: string,
+    type: AccountType,
+    accountId?: string
+  ): Promise<void> {
+    const parent = await db('accounts')
+      .where('id', parentId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!parent) {
+      throw new ValidationError('Invalid parent account');
+    }
+
+    if (parent.type !== type) {
+      throw new ValidationError(`Account type ${type} does not match parent account type ${parent.type}`);
+    }
+
+    if (!accountId) return;
+
+    // Walk up from the new parent; reaching this account would form a cycle
+    let currentId: string | null = parent.id;
+    while (currentId) {
+      if (currentId === accountId) {
+        throw new ValidationError('An account cannot be moved under one of its own descendants');
+      }
+      const current: any = await db('accounts').select('parent_account_id').where('id', currentId).first();
+      currentId = current?.parent_account_id || null;
+    }
+  }
+
+  /**
+   * Map an account row
+   */
+  private mapAccount(row: any): LedgerAccount {
+    return {
+      ...row,
+      balance: toAmount(row.balance)
+    };
+  }
+
+  /**
+   * Validate account data
+   */
+  private validateAccountData(data: CreateAccountData): void {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ValidationError('Account name is required');
+    }
+
+    if (!Object.values(AccountType).includes(data.type)) {
+      throw new ValidationError(`Invalid account type: ${data.type}`);
+    }
+
+    if (!Object.values(AccountCategory).includes(data.category)) {
+      throw new ValidationError(`Invalid account category: ${data.category}`);
+    }
+
+    if (CATEGORY_TYPES[data.category] !== data.type) {
+      throw new ValidationError(`Category ${data.category} is not valid for ${data.type} accounts`);
+    }
+  }
+
+  /**
+   * Validate numbering rules
+   */
+  private validateNumberingRules(rules: AccountNumberingRule[]): void {
+    for (const rule of rules) {
+      if (rule.range_start > rule.range_end) {
+        throw new ValidationError(`Invalid range for ${rule.account_type}: start must not exceed end`);
+      }
+
+      if (String(rule.range_end).length > rule.number_length) {
+        throw new ValidationError(`Range end for ${rule.account_type} does not fit in ${rule.number_length} digits`);
+      }
+    }
+
+    const sorted = [...rules].sort((a, b) => a.range_start - b.range_start);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].range_start <= sorted[i - 1].range_end) {
+        throw new ValidationError(
+          `Numbering ranges for ${sorted[i - 1].account_type} and ${sorted[i].account_type} overlap`
+        );
+      }
+    }
+  }
+}
+
+export const chartOfAccountsService = new ChartOfAccountsService();
@@ -0,0 +1,144 @@
+import { AccountMovement } from './ledgerService';
+import { roundMoney } from '../../utils/currencyUtils';
+import { addDays, addMonths, endOfMonth } from '../../utils/dateUtils';
+import { AccountType, AccountCategory } from '../../types';
+
+/**
+ * Consolidation of several companies' account movements into one set.
+ *
+ * Member ledgers are combined by account number, so group companies are
+ * expected to share a chart numbering. Foreign members are translated with
+ * the closing rate for balance sheet accounts and the average of month-end
+ * rates for revenue and expenses; equity is not tracked at historical rates
+ * and is translated at the closing rate too. Whatever no longer balances
+ * after translation is the foreign currency translation reserve.
+ */
+
+export interface TranslationRates {
+  closing: number;
+  average: number;
+}
+
+export const TRANSLATION_RESERVE_KEY = 'translation_reserve';
+export const ELIMINATION_DIFFERENCE_KEY = 'elimination_difference';
+
+/**
+ * Month ends from the start date's month through the end date, plus the end
+ * date itself when it falls mid-month; these are averaged for income rates
+ */
+export const averagingDates = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  let date = endOfMonth(startDate);
+
+  while (date < endDate) {
+    dates.push(date);
+    date = endOfMonth(addDays(date, 1));
+  }
+  dates.push(endDate);
+
+  return dates;
+};
+
+/**
+ * Start of the averaging window: the period start, or the twelve months to
+ * the end date for balances as at a date
+ */
+export const averagingStart = (startDate: string | undefined, endDate: string): string =>
+  startDate || addDays(addMonths(endDate, -12), 1);
+
+/**
+ * Mean of a set of rates (rates are kept to 8 decimals)
+ */
+export const averageRate = (rates: number[]): number => {
+  if (rates.length === 0) return 1;
+  const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+  return Math.round(mean * 1e8) / 1e8;
+};
+
+/**
+ * Rate that applies to an account type
+ */
+export const translationRate = (type: AccountType, rates: TranslationRates): number =>
+  type === AccountType.REVENUE || type === AccountType.EXPENSE ? rates.average : rates.closing;
+
+/**
+ * Translate movements into the presentation currency
+ */
+export const translateMovements = (movements: AccountMovement[], rates: TranslationRates): AccountMovement[] => {
+  return movements.map(movement => {
+    const rate = translationRate(movement.type, rates);
+    return {
+      ...movement,
+      debit: roundMoney(movement.debit * rate),
+      credit: roundMoney(movement.credit * rate)
+    };
+  });
+};
+
+/**
+ * Remove eliminated amounts from each account's movement
+ */
+export const subtractMovements = (movements: AccountMovement[], eliminated: AccountMovement[]): AccountMovement[] => {
+  return movements.map(movement => {
+    const match = eliminated.find(item => item.account_id === movement.account_id);
+    if (!match) return movement;
+
+    return {
+      ...movement,
+      debit: roundMoney(movement.debit - match.debit),
+      credit: roundMoney(movement.credit - match.credit)
+    };
+  });
+};
+
+/**
+ * Combine members' movements by account number; the first member listed
+ * (the parent) decides each account's name and classification
+ */
+export const mergeMovements = (sets: AccountMovement[][]): AccountMovement[] => {
+  const merged = new Map<string, AccountMovement>();
+
+  for (const movements of sets) {
+    for (const movement of movements) {
+      const existing = merged.get(movement.account_number);
+      if (existing) {
+        existing.debit = roundMoney(existing.debit + movement.debit);
+        existing.credit = roundMoney(existing.credit + movement.credit);
+        continue;
+      }
+
+      merged.set(movement.account_number, {
+        ...movement,
+        account_id: movement.account_number,
+        parent_account_id: null
+      });
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => a.account_number.localeCompare(b.account_number));
+};
+
+/**
+ * Debit-positive net of a set of movements
+ */
+export const netMovement = (movements: AccountMovement[]): number =>
+  roundMoney(movements.reduce((sum, movement) => sum + movement.debit - movement.credit, 0));
+
+/**
+ * Equity line that offsets a debit-positive imbalance, or null when there
+ * is nothing to offset
+ */
+export const balancingMovement = (key: string, name: string, imbalance: number): AccountMovement | null => {
+  if (imbalance === 0) return null;
+
+  return {
+    account_id: key,
+    account_number: '',
+    account_name: name,
+    type: AccountType.EQUITY,
+    category: AccountCategory.OWNERS_EQUITY,
+    parent_account_id: null,
+    debit: imbalance < 0 ? -imbalance : 0,
+    credit: imbalance > 0 ? imbalance : 0
+  };
+};
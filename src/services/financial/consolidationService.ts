@@ -0,0 +1,474 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { ledgerService, AccountMovement } from './ledgerService';
+import { YEAR_END_SOURCE_TYPE } from './fiscalPeriodService';
+import {
+  buildReportPeriods,
+  buildFinancialReport,
+  FinancialReport,
+  ReportOptions,
+  ReportType
+} from './reportService';
+import {
+  averagingDates,
+  averagingStart,
+  averageRate,
+  translateMovements,
+  subtractMovements,
+  mergeMovements,
+  netMovement,
+  balancingMovement,
+  TranslationRates,
+  TRANSLATION_RESERVE_KEY,
+  ELIMINATION_DIFFERENCE_KEY
+} from './consolidation';
+import { exchangeRateService } from '../exchangeRateService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney } from '../../utils/currencyUtils';
+import { AccountType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  AuthorizationError
+} from '../../middleware/errorHandler';
+
+export interface ConsolidationMember {
+  company_id: string;
+  company_name: string;
+  currency: string;
+  is_parent: boolean;
+}
+
+export interface ConsolidationGroup {
+  id: string;
+  company_id: string;
+  name: string;
+  description?: string | null;
+  currency: string;
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  members: ConsolidationMember[];
+}
+
+export interface CreateConsolidationGroupData {
+  name: string;
+  description?: string;
+  currency?: string;
+  member_company_ids: string[];
+}
+
+export interface UpdateConsolidationGroupData {
+  name?: string;
+  description?: string | null;
+  currency?: string;
+  is_active?: boolean;
+  member_company_ids?: string[];
+}
+
+export interface ConsolidationElimination {
+  company_id: string;
+  company_name: string;
+  account_number: string;
+  account_name: string;
+  debit: number;
+  credit: number;
+}
+
+export interface ConsolidatedReport extends FinancialReport {
+  group_id: string;
+  members: Array<ConsolidationMember & { rates: Record<string, TranslationRates> }>;
+  // Intercompany amounts removed per period, in the presentation currency
+  eliminations: Record<string, ConsolidationElimination[]>;
+}
+
+export class ConsolidationService {
+  /**
+   * List the company's consolidation groups
+   */
+  async getGroups(companyId: string): Promise<ConsolidationGroup[]> {
+    try {
+      const db = getDatabase();
+      const groups = await db('consolidation_groups').where('company_id', companyId).orderBy('name');
+
+      return Promise.all(groups.map((group: any) => this.withMembers(group)));
+    } catch (error) {
+      logger.error('Error fetching consolidation groups', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a consolidation group with its members
+   */
+  async getGroupById(companyId: string, groupId: string): Promise<ConsolidationGroup | null> {
+    try {
+      const db = getDatabase();
+      const group = await db('consolidation_groups').where({ id: groupId, company_id: companyId }).first();
+
+      return group ? this.withMembers(group) : null;
+    } catch (error) {
+      logger.error('Error fetching consolidation group', { error, companyId, groupId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a group; the owning company is always its parent member
+   */
+  async createGroup(
+    companyId: string,
+    data: CreateConsolidationGroupData,
+    createdBy: string
+  ): Promise<ConsolidationGroup> {
+    try {
+      const db = getDatabase();
+
+      const parent = await companyService.getCompanyById(companyId);
+      if (!parent) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const memberIds = await this.resolveMembers(companyId, data.member_company_ids);
+      await this.assertNameAvailable(companyId, data.name);
+      const groupId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        await trx('consolidation_groups').insert({
+          id: groupId,
+          company_id: companyId,
+          name: data.name.trim(),
+          description: data.description || null,
+          currency: (data.currency || parent.currency_code).toUpperCase(),
+          is_active: true,
+          created_by: createdBy,
+          updated_by: createdBy,
+          created_at: new Date(),
+          updated_at: new Date()
+        });
+
+        await trx('consolidation_group_members').insert(
+          memberIds.map(memberId => ({ id: uuidv4(), group_id: groupId, company_id: memberId }))
+        );
+      });
+
+      await auditService.logUserAction({
+        user_id: createdBy,
+        action: 'consolidation_group_created',
+        resource_type: 'consolidation_group',
+        resource_id: groupId,
+        company_id: companyId,
+        details: { name: data.name, member_company_ids: memberIds }
+      });
+
+      logger.info('Consolidation group created', { companyId, groupId, members: memberIds.length, createdBy });
+
+      return (await this.getGroupById(companyId, groupId))!;
+    } catch (error) {
+      logger.error('Error creating consolidation group', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a group; member_company_ids replaces the member list
+   */
+  async updateGroup(
+    companyId: string,
+    groupId: string,
+    data: UpdateConsolidationGroupData,
+    updatedBy: string
+  ): Promise<ConsolidationGroup> {
+    try {
+      const db = getDatabase();
+
+      const existing = await this.getGroupById(companyId, groupId);
+      if (!existing) {
+        throw new NotFoundError('Consolidation group not found');
+      }
+
+      if (data.name && data.name.trim() !== existing.name) {
+        await this.assertNameAvailable(companyId, data.name);
+      }
+
+      const memberIds = data.member_company_ids
+        ? await this.resolveMembers(companyId, data.member_company_ids)
+        : null;
+
+      const { member_company_ids, ...fields } = data;
+
+      await db.transaction(async (trx) => {
+        await trx('consolidation_groups')
+          .where({ id: groupId, company_id: companyId })
+          .update({
+            ...fields,
+            ...(fields.name ? { name: fields.name.trim() } : {}),
+            ...(fields.currency ? { currency: fields.currency.toUpperCase() } : {}),
+            updated_by: updatedBy,
+            updated_at: new Date()
+          });
+
+        if (memberIds) {
+          await trx('consolidation_group_members').where('group_id', groupId).del();
+          await trx('consolidation_group_members').insert(
+            memberIds.map(memberId => ({ id: uuidv4(), group_id: groupId, company_id: memberId }))
+          );
+        }
+      });
+
+      if (memberIds) {
+        await auditService.logUserAction({
+          user_id: updatedBy,
+          action: 'consolidation_group_members_changed',
+          resource_type: 'consolidation_group',
+          resource_id: groupId,
+          company_id: companyId,
+          details: {
+            previous: existing.members.map(member => member.company_id),
+            member_company_ids: memberIds
+          }
+        });
+      }
+
+      logger.info('Consolidation group updated', { companyId, groupId, fields: Object.keys(data), updatedBy });
+
+      return (await this.getGroupById(companyId, groupId))!;
+    } catch (error) {
+      logger.error('Error updating consolidation group', { error, companyId, groupId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a group (the members' ledgers are untouched)
+   */
+  async deleteGroup(companyId: string, groupId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      const deleted = await db('consolidation_groups').where({ id: groupId, company_id: companyId }).del();
+      if (deleted === 0) {
+        throw new NotFoundError('Consolidation group not found');
+      }
+
+      logger.info('Consolidation group deleted', { companyId, groupId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting consolidation group', { error, companyId, groupId });
+      throw error;
+    }
+  }
+
+  /**
+   * Build a consolidated trial balance, income statement or balance sheet:
+   * members' ledgers translated into the group currency, combined by account
+   * number, with lines tagged as intercompany between members eliminated
+   */
+  async generateReport(
+    companyId: string,
+    groupId: string,
+    reportType: ReportType,
+    options: ReportOptions
+  ): Promise<ConsolidatedReport> {
+    try {
+      const group = await this.getGroupById(companyId, groupId);
+      if (!group) {
+        throw new NotFoundError('Consolidation group not found');
+      }
+      if (!group.is_active) {
+        throw new ConflictError('Consolidation group is inactive');
+      }
+      if (options.compare?.includes('budget')) {
+        throw new ValidationError('Budget comparison is not available on consolidated reports');
+      }
+
+      const periods = buildReportPeriods(reportType, options);
+      const memberIds = group.members.map(member => member.company_id);
+      // Subsidiaries may have been moved out from under the parent since the group was saved
+      await this.assertSubsidiaries(companyId, memberIds.filter(id => id !== companyId));
+      const members: ConsolidatedReport['members'] = group.members.map(member => ({ ...member, rates: {} }));
+      const movementsByPeriod: Record<string, AccountMovement[]> = {};
+      const eliminations: Record<string, ConsolidationElimination[]> = {};
+
+      for (const period of periods) {
+        const filters = {
+          start_date: period.start_date,
+          end_date: period.end_date,
+          account_types: reportType === 'income_statement'
+            ? [AccountType.REVENUE, AccountType.EXPENSE]
+            : undefined,
+          exclude_source_types: reportType === 'income_statement' ? [YEAR_END_SOURCE_TYPE] : undefined
+        };
+
+        const translated: AccountMovement[][] = [];
+        const eliminated: AccountMovement[] = [];
+        eliminations[period.key] = [];
+
+        for (const member of members) {
+          const rates = await this.translationRates(member.currency, group.currency, period.start_date, period.end_date);
+          member.rates[period.key] = rates;
+
+          const movements = await ledgerService.getAccountMovements(member.company_id, filters);
+          const intercompany = await ledgerService.getAccountMovements(member.company_id, {
+            ...filters,
+            counterparty_company_ids: memberIds.filter(id => id !== member.company_id)
+          });
+
+          const translatedEliminations = translateMovements(intercompany, rates);
+          translated.push(translateMovements(subtractMovements(movements, intercompany), rates));
+          eliminated.push(...translatedEliminations);
+          eliminations[period.key].push(...translatedEliminations.map(movement => ({
+            company_id: member.company_id,
+            company_name: member.company_name,
+            account_number: movement.account_number,
+            account_name: movement.account_name,
+            debit: movement.debit,
+            credit: movement.credit
+          })));
+        }
+
+        const combined = mergeMovements(translated);
+
+        // Balances as at a date must still balance: mismatched intercompany
+        // amounts and translation differences are shown in equity
+        if (reportType !== 'income_statement') {
+          const eliminationNet = netMovement(eliminated);
+          const reserve = balancingMovement(
+            TRANSLATION_RESERVE_KEY,
+            'Foreign Currency Translation Reserve',
+            roundMoney(netMovement(combined) + eliminationNet)
+          );
+          const difference = balancingMovement(
+            ELIMINATION_DIFFERENCE_KEY,
+            'Intercompany Elimination Difference',
+            -eliminationNet
+          );
+          if (reserve) combined.push(reserve);
+          if (difference) combined.push(difference);
+        }
+
+        movementsByPeriod[period.key] = combined;
+      }
+
+      const report = buildFinancialReport(reportType, periods, movementsByPeriod);
+
+      // Consolidated lines span several companies' accounts
+      for (const section of report.sections) {
+        for (const reportGroup of section.groups) {
+          reportGroup.lines = reportGroup.lines.map(line => ({ ...line, account_id: null }));
+        }
+      }
+
+      return {
+        ...report,
+        title: `Consolidated ${report.title}`,
+        company_id: companyId,
+        company_name: group.name,
+        currency: group.currency,
+        group_id: group.id,
+        members,
+        eliminations,
+        generated_at: new Date()
+      };
+    } catch (error) {
+      logger.error('Error generating consolidated report', { error, companyId, groupId, reportType, options });
+      throw error;
+    }
+  }
+
+  /**
+   * Closing and average rates from a member's currency into the group's
+   */
+  private async translationRates(
+    from: string,
+    to: string,
+    startDate: string | undefined,
+    endDate: string
+  ): Promise<TranslationRates> {
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return { closing: 1, average: 1 };
+    }
+
+    const closing = (await exchangeRateService.getRate(from, to, endDate)).rate;
+    const rates: number[] = [];
+    for (const date of averagingDates(averagingStart(startDate, endDate), endDate)) {
+      rates.push((await exchangeRateService.getRate(from, to, date)).rate);
+    }
+
+    return { closing, average: averageRate(rates) };
+  }
+
+  /**
+   * Attach members with their names and currencies, parent first
+   */
+  private async withMembers(group: any): Promise<ConsolidationGroup> {
+    const db = getDatabase();
+    const rows = await db('consolidation_group_members')
+      .join('companies', 'consolidation_group_members.company_id', 'companies.id')
+      .where('consolidation_group_members.group_id', group.id)
+      .select('companies.id as company_id', 'companies.name as company_name', 'companies.currency_code as currency')
+      .orderBy('companies.name');
+
+    const members: ConsolidationMember[] = rows
+      .map((row: any) => ({
+        company_id: row.company_id,
+        company_name: row.company_name,
+        currency: (row.currency || group.currency).toUpperCase(),
+        is_parent: row.company_id === group.company_id
+      }))
+      .sort((a: ConsolidationMember, b: ConsolidationMember) => Number(b.is_parent) - Number(a.is_parent));
+
+    return { ...group, members };
+  }
+
+  /**
+   * Member list with the parent first; every company must exist and be a subsidiary of the parent
+   */
+  private async resolveMembers(companyId: string, memberIds: string[]): Promise<string[]> {
+    const others = Array.from(new Set(memberIds)).filter(id => id !== companyId);
+    if (others.length === 0) {
+      throw new ValidationError('A consolidation group needs at least one company besides the parent');
+    }
+
+    for (const memberId of others) {
+      const company = await companyService.getCompanyById(memberId);
+      if (!company) {
+        throw new ValidationError(`Company ${memberId} not found`);
+      }
+    }
+    await this.assertSubsidiaries(companyId, others);
+
+    return [companyId, ...others];
+  }
+
+  /**
+   * A group may only read the ledgers of companies its parent owns
+   */
+  private async assertSubsidiaries(companyId: string, memberIds: string[]): Promise<void> {
+    const subsidiaryIds = new Set(await companyService.getSubsidiaryIds(companyId));
+    const unrelated = memberIds.filter(id => !subsidiaryIds.has(id));
+    if (unrelated.length > 0) {
+      throw new AuthorizationError(`Company ${unrelated.join(', ')} is not a subsidiary of this company`);
+    }
+  }
+
+  /**
+   * Group names are unique per company
+   */
+  private async assertNameAvailable(companyId: string, name: string): Promise<void> {
+    const db = getDatabase();
+    const existing = await db('consolidation_groups')
+      .where('company_id', companyId)
+      .whereRaw('LOWER(name) = ?', [name.trim().toLowerCase()])
+      .first();
+
+    if (existing) {
+      throw new ConflictError(`Consolidation group ${name} already exists`);
+    }
+  }
+}
+
+export const consolidationService = new ConsolidationService();
@@ -0,0 +1,348 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { companyService } from '../../core/company/companyService';
+import { logger } from '../../utils/logger';
+import { toAmount } from '../../utils/currencyUtils';
+import { AccountType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface CreateCustomerData {
+  customer_code?: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  vat_number?: string;
+  address_line_1?: string;
+  address_line_2?: string;
+  city?: string;
+  postal_code?: string;
+  country?: string;
+  currency?: string;
+  payment_terms_days?: number;
+  credit_limit?: number | null;
+  receivable_account_id?: string | null;
+}
+
+export interface UpdateCustomerData extends Partial<Omit<CreateCustomerData, 'customer_code'>> {
+  is_active?: boolean;
+}
+
+export interface Customer {
+  id: string;
+  company_id: string;
+  customer_code: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  vat_number?: string;
+  address_line_1?: string;
+  address_line_2?: string;
+  city?: string;
+  postal_code?: string;
+  country?: string;
+  currency: string;
+  payment_terms_days: number;
+  credit_limit: number | null;
+  receivable_account_id: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CustomerFilters {
+  search?: string;
+  is_active?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export class CustomerService {
+  /**
+   * Get customers with filters and pagination
+   */
+  async getCustomers(companyId: string, filters: CustomerFilters = {}): Promise<{
+    customers: Customer[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('customers')
+        .where('company_id', companyId)
+        .whereNull('deleted_at');
+
+      if (filters.is_active !== undefined) {
+        query = query.where('is_active', filters.is_active);
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('name', 'ilike', search)
+            .orWhere('customer_code', 'ilike', search)
+            .orWhere('email', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+      const rows = await query.orderBy('name').limit(limit).offset(offset);
+
+      return {
+        customers: rows.map((row: any) => this.mapCustomer(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching customers', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get customer by ID
+   */
+  async getCustomerById(companyId: string, customerId: string, trx?: Knex.Transaction): Promise<Customer | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('customers')
+        .where('id', customerId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .first();
+
+      return row ? this.mapCustomer(row) : null;
+    } catch (error) {
+      logger.error('Error fetching customer by ID', { error, companyId, customerId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create customer
+   */
+  async createCustomer(companyId: string, data: CreateCustomerData, createdBy: string): Promise<Customer> {
+    try {
+      const db = getDatabase();
+      this.validateCustomerData(data);
+
+      const currency = (data.currency || await companyService.getBaseCurrency(companyId)).toUpperCase();
+
+      const customerId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        if (data.receivable_account_id) {
+          await this.assertReceivableAccount(trx, companyId, data.receivable_account_id, currency);
+        }
+
+        const customerCode = data.customer_code
+          || await sequenceService.next(trx, companyId, 'customer', { prefix: 'CUS', padding: 5 });
+
+        const existing = await trx('customers')
+          .where('company_id', companyId)
+          .where('customer_code', customerCode)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Customer code ${customerCode} already exists`);
+        }
+
+        await trx('customers').insert({
+          id: customerId,
+          company_id: companyId,
+          customer_code: customerCode,
+          name: data.name.trim(),
+          email: data.email,
+          phone: data.phone,
+          vat_number: data.vat_number,
+          address_line_1: data.address_line_1,
+          address_line_2: data.address_line_2,
+          city: data.city,
+          postal_code: data.postal_code,
+          country: data.country,
+          currency,
+          payment_terms_days: data.payment_terms_days ?? 30,
+          credit_limit: data.credit_limit ?? null,
+          receivable_account_id: data.receivable_account_id ?? null,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+      });
+
+      const customer = await this.getCustomerById(companyId, customerId);
+      if (!customer) {
+        throw new Error('Failed to create customer');
+      }
+
+      logger.info('Customer created successfully', {
+        customerId,
+        customerCode: customer.customer_code,
+        companyId,
+        createdBy
+      });
+
+      return customer;
+    } catch (error) {
+      logger.error('Error creating customer', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update customer
+   */
+  async updateCustomer(
+    companyId: string,
+    customerId: string,
+    data: UpdateCustomerData,
+    updatedBy: string
+  ): Promise<Customer> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getCustomerById(companyId, customerId);
+      if (!existing) {
+        throw new NotFoundError('Customer not found');
+      }
+
+      if (data.name !== undefined && data.name.trim().length === 0) {
+        throw new ValidationError('Customer name is required');
+      }
+
+      const currency = (data.currency || existing.currency).toUpperCase();
+
+      if (currency !== existing.currency) {
+        const invoiced = await db('invoices').where('customer_id', customerId).first();
+        if (invoiced) {
+          throw new ConflictError('Currency cannot be changed once the customer has invoices');
+        }
+      }
+
+      await db.transaction(async (trx) => {
+        const receivableAccountId = data.receivable_account_id !== undefined
+          ? data.receivable_account_id
+          : existing.receivable_account_id;
+        if (receivableAccountId) {
+          await this.assertReceivableAccount(trx, companyId, receivableAccountId, currency);
+        }
+
+        await trx('customers')
+          .where('id', customerId)
+          .update({
+            ...data,
+            name: data.name?.trim() ?? existing.name,
+            currency,
+            updated_by: updatedBy,
+            updated_at: new Date()
+          });
+      });
+
+      const customer = await this.getCustomerById(companyId, customerId);
+      if (!customer) {
+        throw new Error('Failed to update customer');
+      }
+
+      logger.info('Customer updated successfully', { customerId, companyId, updatedBy });
+
+      return customer;
+    } catch (error) {
+      logger.error('Error updating customer', { error, companyId, customerId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete customer (soft delete; customers with invoices are deactivated instead)
+   */
+  async deleteCustomer(companyId: string, customerId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getCustomerById(companyId, customerId);
+      if (!existing) {
+        throw new NotFoundError('Customer not found');
+      }
+
+      const invoiced = await db('invoices').where('customer_id', customerId).first();
+      if (invoiced) {
+        throw new ConflictError('Customer has invoices; deactivate it instead');
+      }
+
+      await db('customers')
+        .where('id', customerId)
+        .update({
+          deleted_at: new Date(),
+          is_active: false,
+          updated_by: deletedBy,
+          updated_at: new Date()
+        });
+
+      logger.info('Customer deleted successfully', { customerId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting customer', { error, companyId, customerId });
+      throw error;
+    }
+  }
+
+  /**
+   * A customer-specific receivable account must be an asset in the customer's
+   * currency or the company's base currency
+   */
+  private async assertReceivableAccount(
+    trx: Knex.Transaction,
+    companyId: string,
+    accountId: string,
+    currency: string
+  ): Promise<void> {
+    const account = await trx('accounts')
+      .where('id', accountId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!account || account.type !== AccountType.ASSET) {
+      throw new ValidationError('Receivable account must be an asset account of this company');
+    }
+
+    const company = await companyService.getCompanyById(companyId);
+    if (account.currency !== currency && account.currency !== company?.currency_code) {
+      throw new ValidationError(`Receivable account must be held in ${currency} or the base currency`);
+    }
+  }
+
+  /**
+   * Map a customer row
+   */
+  private mapCustomer(row: any): Customer {
+    return {
+      ...row,
+      credit_limit: row.credit_limit === null ? null : toAmount(row.credit_limit)
+    };
+  }
+
+  /**
+   * Validate customer data
+   */
+  private validateCustomerData(data: CreateCustomerData): void {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ValidationError('Customer name is required');
+    }
+
+    if (data.payment_terms_days !== undefined && data.payment_terms_days < 0) {
+      throw new ValidationError('Payment terms cannot be negative');
+    }
+  }
+}
+
+export const customerService = new CustomerService();
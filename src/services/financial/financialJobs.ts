@@ -0,0 +1,60 @@
+import { isTest } from '../../../config/environment';
+import { scheduleJob, scheduledDate } from '../schedulerService';
+import { fxService } from './fxService';
+import { invoiceService } from './invoiceService';
+import { budgetService } from './budgetService';
+import { ledgerService } from './ledgerService';
+import { fixedAssetService } from './fixedAssetService';
+import { recurringJournalService } from './recurringJournalService';
+import { receivablesService } from './receivablesService';
+import { logger } from '../../utils/logger';
+import { endOfMonth } from '../../utils/dateUtils';
+
+/**
+ * Register the financial module's posting listeners and scheduled jobs
+ */
+export const initializeFinancialJobs = async (): Promise<void> => {
+  try {
+    // Postings come from every sub-ledger, so overspend is checked at the ledger
+    ledgerService.onEntryPosted((trx, companyId, entryId, postedBy) =>
+      budgetService.checkBudgetOverruns(trx, companyId, entryId, postedBy)
+    );
+
+    if (isTest()) return;
+
+    // Runs nightly after the exchange rate fetch; only acts on the last day of the month
+    scheduleJob('financial:fx-month-end-revaluation', '0 0 22 * * *', async () => {
+      const today = scheduledDate();
+      if (today !== endOfMonth(today)) return;
+
+      await fxService.runScheduledRevaluation(today);
+    });
+
+    scheduleJob('financial:month-end-depreciation', '0 30 22 * * *', async () => {
+      const today = scheduledDate();
+      if (today !== endOfMonth(today)) return;
+
+      await fixedAssetService.runScheduledDepreciation(today);
+    });
+
+    // Early so month-end accruals and their reversals land before the working day
+    scheduleJob('financial:recurring-journals', '0 0 1 * * *', async () => {
+      await recurringJournalService.runScheduledJournals(scheduledDate());
+    });
+
+    scheduleJob('financial:invoice-overdue', '0 15 0 * * *', async () => {
+      await invoiceService.markOverdueInvoices(scheduledDate());
+    });
+
+    scheduleJob('financial:payment-reminders', '0 0 8 * * *', async () => {
+      await receivablesService.runScheduledDunning(scheduledDate());
+    });
+
+    logger.info('Financial jobs initialized successfully');
+  } catch (error) {
+    logger.error('Failed to initialize financial jobs', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+};
@@ -0,0 +1,176 @@
+import { Knex } from 'knex';
+import { getDatabase } from '../../database/connection';
+import { logger } from '../../utils/logger';
+import { ValidationError } from '../../middleware/errorHandler';
+
+export interface FinancialSettings {
+  company_id: string;
+  fx_unrealised_gain_loss_account_id: string | null;
+  fx_realised_gain_loss_account_id: string | null;
+  fx_auto_revaluation: boolean;
+  ar_control_account_id: string | null;
+  default_revenue_account_id: string | null;
+  vat_output_account_id: string | null;
+  ap_control_account_id: string | null;
+  default_expense_account_id: string | null;
+  vat_input_account_id: string | null;
+  ap_price_tolerance_percent: number;
+  ap_quantity_tolerance_percent: number;
+  asset_disposal_account_id: string | null;
+  auto_depreciation: boolean;
+  payroll_expense_account_id: string | null;
+  payroll_employer_expense_account_id: string | null;
+  paye_payable_account_id: string | null;
+  uif_payable_account_id: string | null;
+  sdl_payable_account_id: string | null;
+  net_pay_account_id: string | null;
+  updated_by?: string | null;
+  updated_at?: Date | null;
+}
+
+export type UpdateFinancialSettingsData = Partial<Omit<FinancialSettings, 'company_id' | 'updated_by' | 'updated_at'>>;
+
+export type AccountSettingKey =
+  | 'fx_unrealised_gain_loss_account_id'
+  | 'fx_realised_gain_loss_account_id'
+  | 'ar_control_account_id'
+  | 'default_revenue_account_id'
+  | 'vat_output_account_id'
+  | 'ap_control_account_id'
+  | 'default_expense_account_id'
+  | 'vat_input_account_id'
+  | 'asset_disposal_account_id'
+  | 'payroll_expense_account_id'
+  | 'payroll_employer_expense_account_id'
+  | 'paye_payable_account_id'
+  | 'uif_payable_account_id'
+  | 'sdl_payable_account_id'
+  | 'net_pay_account_id';
+
+// Default posting accounts, with the label used in error messages
+export const ACCOUNT_SETTINGS: Record<AccountSettingKey, string> = {
+  fx_unrealised_gain_loss_account_id: 'unrealised FX gain/loss account',
+  fx_realised_gain_loss_account_id: 'realised FX gain/loss account',
+  ar_control_account_id: 'accounts receivable control account',
+  default_revenue_account_id: 'default revenue account',
+  vat_output_account_id: 'VAT output account',
+  ap_control_account_id: 'accounts payable control account',
+  default_expense_account_id: 'default expense account',
+  vat_input_account_id: 'VAT input account',
+  asset_disposal_account_id: 'asset disposal gain/loss account',
+  payroll_expense_account_id: 'salaries and wages expense account',
+  payroll_employer_expense_account_id: 'employer payroll contributions expense account',
+  paye_payable_account_id: 'PAYE payable account',
+  uif_payable_account_id: 'UIF payable account',
+  sdl_payable_account_id: 'SDL payable account',
+  net_pay_account_id: 'net salaries payable account',
+};
+
+const DEFAULT_SETTINGS: Omit<FinancialSettings, 'company_id'> = {
+  fx_unrealised_gain_loss_account_id: null,
+  fx_realised_gain_loss_account_id: null,
+  fx_auto_revaluation: false,
+  ar_control_account_id: null,
+  default_revenue_account_id: null,
+  vat_output_account_id: null,
+  ap_control_account_id: null,
+  default_expense_account_id: null,
+  vat_input_account_id: null,
+  ap_price_tolerance_percent: 0,
+  ap_quantity_tolerance_percent: 0,
+  asset_disposal_account_id: null,
+  auto_depreciation: false,
+  payroll_expense_account_id: null,
+  payroll_employer_expense_account_id: null,
+  paye_payable_account_id: null,
+  uif_payable_account_id: null,
+  sdl_payable_account_id: null,
+  net_pay_account_id: null,
+  updated_by: null,
+  updated_at: null,
+};
+
+export class FinancialSettingsService {
+  /**
+   * Get a company's financial settings (defaults when none saved)
+   */
+  async getSettings(companyId: string, trx?: Knex.Transaction): Promise<FinancialSettings> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('financial_settings').where('company_id', companyId).first();
+
+      const settings: FinancialSettings = { ...DEFAULT_SETTINGS, company_id: companyId };
+      if (row) {
+        for (const key of Object.keys(DEFAULT_SETTINGS) as Array<keyof typeof DEFAULT_SETTINGS>) {
+          if (row[key] !== undefined) {
+            // DECIMAL columns come back as strings
+            (settings as any)[key] = typeof DEFAULT_SETTINGS[key] === 'number' ? parseFloat(row[key]) : row[key];
+          }
+        }
+      }
+
+      return settings;
+    } catch (error) {
+      logger.error('Error fetching financial settings', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Update financial settings; account references must belong to the company
+   */
+  async updateSettings(
+    companyId: string,
+    data: UpdateFinancialSettingsData,
+    updatedBy: string
+  ): Promise<FinancialSettings> {
+    try {
+      const db = getDatabase();
+
+      const accountIds = (Object.keys(ACCOUNT_SETTINGS) as AccountSettingKey[])
+        .map(key => data[key])
+        .filter((id): id is string => Boolean(id));
+
+      if (accountIds.length > 0) {
+        const accounts = await db('accounts')
+          .whereIn('id', accountIds)
+          .where('company_id', companyId)
+          .whereNull('deleted_at')
+          .select('id');
+
+        const missing = accountIds.filter(id => !accounts.some((account: any) => account.id === id));
+        if (missing.length > 0) {
+          throw new ValidationError(`Unknown account(s): ${missing.join(', ')}`);
+        }
+      }
+
+      await db('financial_settings')
+        .insert({ company_id: companyId, ...data, updated_by: updatedBy, updated_at: new Date() })
+        .onConflict('company_id')
+        .merge({ ...data, updated_by: updatedBy, updated_at: new Date() });
+
+      logger.info('Financial settings updated', { companyId, fields: Object.keys(data), updatedBy });
+
+      return this.getSettings(companyId);
+    } catch (error) {
+      logger.error('Error updating financial settings', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a configured posting account or fail with a helpful message
+   */
+  async requireAccount(companyId: string, key: AccountSettingKey, trx?: Knex.Transaction): Promise<string> {
+    const settings = await this.getSettings(companyId, trx);
+    const accountId = settings[key];
+
+    if (!accountId) {
+      throw new ValidationError(`Configure the ${ACCOUNT_SETTINGS[key]} in financial settings first`);
+    }
+
+    return accountId;
+  }
+}
+
+export const financialSettingsService = new FinancialSettingsService();
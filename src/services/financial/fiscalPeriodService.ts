@@ -0,0 +1,657 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { ledgerService, balanceChange, JournalLineData } from './ledgerService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney } from '../../utils/currencyUtils';
+import { toDateOnly, addMonths, addDays } from '../../utils/dateUtils';
+import { AccountType, FiscalPeriodStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface CreateFiscalYearData {
+  name: string;
+  start_date: Date | string;
+  period_count?: number;
+}
+
+export interface CloseFiscalYearData {
+  retained_earnings_account_id: string;
+}
+
+export interface FiscalPeriod {
+  id: string;
+  fiscal_year_id: string;
+  company_id: string;
+  period_number: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: FiscalPeriodStatus;
+  closed_at?: Date;
+  closed_by?: string;
+}
+
+export interface FiscalYearWithPeriods {
+  id: string;
+  company_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: FiscalPeriodStatus;
+  retained_earnings_account_id?: string;
+  closing_entry_id?: string;
+  closed_at?: Date;
+  closed_by?: string;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  periods: FiscalPeriod[];
+}
+
+export const YEAR_END_SOURCE_TYPE = 'year_end_close';
+
+/**
+ * Split a fiscal year into consecutive periods of whole months
+ */
+export const generatePeriods = (
+  startDate: Date | string,
+  periodCount = 12
+): Array<{ period_number: number; start_date: string; end_date: string }> => {
+  if (![1, 2, 3, 4, 6, 12].includes(periodCount)) {
+    throw new ValidationError('Period count must divide the year evenly (1, 2, 3, 4, 6 or 12)');
+  }
+
+  const months = 12 / periodCount;
+  const start = toDateOnly(startDate);
+
+  return Array.from({ length: periodCount }, (_, index) => ({
+    period_number: index + 1,
+    start_date: addMonths(start, index * months),
+    end_date: addDays(addMonths(start, (index + 1) * months), -1)
+  }));
+};
+
+/**
+ * Build the year-end closing lines: zero every revenue and expense account
+ * and carry the net result into retained earnings.
+ */
+export const buildClosingLines = (
+  movements: Array<{ account_id: string; type: AccountType | string; debit: number; credit: number }>,
+  retainedEarningsAccountId: string
+): JournalLineData[] => {
+  const lines: JournalLineData[] = [];
+  let netIncome = 0;
+
+  for (const movement of movements) {
+    if (movement.type !== AccountType.REVENUE && movement.type !== AccountType.EXPENSE) continue;
+
+    const balance = balanceChange(movement.type, movement.debit, movement.credit);
+    if (balance === 0) continue;
+
+    // Revenue carries a credit balance and is closed with a debit; expenses the opposite
+    const closeWithDebit = (movement.type === AccountType.REVENUE) === (balance > 0);
+    const amount = Math.abs(balance);
+
+    lines.push({
+      account_id: movement.account_id,
+      description: 'Year-end close',
+      debit: closeWithDebit ? amount : 0,
+      credit: closeWithDebit ? 0 : amount
+    });
+
+    netIncome = roundMoney(netIncome + (movement.type === AccountType.REVENUE ? balance : -balance));
+  }
+
+  if (lines.length === 0) return lines;
+
+  if (netIncome !== 0) {
+    lines.push({
+      account_id: retainedEarningsAccountId,
+      description: netIncome > 0 ? 'Net profit for the year' : 'Net loss for the year',
+      debit: netIncome < 0 ? Math.abs(netIncome) : 0,
+      credit: netIncome > 0 ? netIncome : 0
+    });
+  }
+
+  return lines;
+};
+
+export class FiscalPeriodService {
+  /**
+   * Get fiscal years with their periods
+   */
+  async getFiscalYears(companyId: string): Promise<FiscalYearWithPeriods[]> {
+    try {
+      const db = getDatabase();
+      const years = await db('fiscal_years')
+        .where('company_id', companyId)
+        .orderBy('start_date', 'desc');
+
+      const periods = await db('fiscal_periods')
+        .where('company_id', companyId)
+        .orderBy('period_number');
+
+      return years.map((year: any) => this.mapYear(
+        year,
+        periods.filter((period: any) => period.fiscal_year_id === year.id)
+      ));
+    } catch (error) {
+      logger.error('Error fetching fiscal years', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get fiscal year by ID
+   */
+  async getFiscalYearById(
+    companyId: string,
+    fiscalYearId: string,
+    trx?: Knex.Transaction
+  ): Promise<FiscalYearWithPeriods | null> {
+    try {
+      const db = trx || getDatabase();
+      const year = await db('fiscal_years')
+        .where('id', fiscalYearId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!year) return null;
+
+      const periods = await db('fiscal_periods')
+        .where('fiscal_year_id', fiscalYearId)
+        .orderBy('period_number');
+
+      return this.mapYear(year, periods);
+    } catch (error) {
+      logger.error('Error fetching fiscal year by ID', { error, companyId, fiscalYearId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the period containing a date, if one is defined
+   */
+  async getPeriodForDate(companyId: string, date: Date | string, trx?: Knex.Transaction): Promise<FiscalPeriod | null> {
+    try {
+      const db = trx || getDatabase();
+      const day = toDateOnly(date);
+      const period = await db('fiscal_periods')
+        .where('company_id', companyId)
+        .where('start_date', '<=', day)
+        .where('end_date', '>=', day)
+        .first();
+
+      return period ? this.mapPeriod(period) : null;
+    } catch (error) {
+      logger.error('Error fetching fiscal period for date', { error, companyId, date });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a fiscal year and its periods
+   */
+  async createFiscalYear(
+    companyId: string,
+    data: CreateFiscalYearData,
+    createdBy: string
+  ): Promise<FiscalYearWithPeriods> {
+    try {
+      const db = getDatabase();
+      if (!data.name || data.name.trim().length === 0) {
+        throw new ValidationError('Fiscal year name is required');
+      }
+
+      const periods = generatePeriods(data.start_date, data.period_count ?? 12);
+      const startDate = periods[0].start_date;
+      const endDate = periods[periods.length - 1].end_date;
+
+      // Check for overlapping fiscal years
+      const overlapping = await db('fiscal_years')
+        .where('company_id', companyId)
+        .where('start_date', '<=', endDate)
+        .where('end_date', '>=', startDate)
+        .first();
+      if (overlapping) {
+        throw new ConflictError(`Fiscal year overlaps with ${overlapping.name}`);
+      }
+
+      const fiscalYearId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        await trx('fiscal_years').insert({
+          id: fiscalYearId,
+          company_id: companyId,
+          name: data.name.trim(),
+          start_date: startDate,
+          end_date: endDate,
+          status: FiscalPeriodStatus.OPEN,
+          created_by: createdBy
+        });
+
+        await trx('fiscal_periods').insert(periods.map(period => ({
+          id: uuidv4(),
+          fiscal_year_id: fiscalYearId,
+          company_id: companyId,
+          period_number: period.period_number,
+          name: `${data.name.trim()} P${String(period.period_number).padStart(2, '0')}`,
+          start_date: period.start_date,
+          end_date: period.end_date,
+          status: FiscalPeriodStatus.OPEN
+        })));
+      });
+
+      const fiscalYear = await this.getFiscalYearById(companyId, fiscalYearId);
+      if (!fiscalYear) {
+        throw new Error('Failed to create fiscal year');
+      }
+
+      logger.info('Fiscal year created successfully', {
+        fiscalYearId,
+        name: fiscalYear.name,
+        companyId,
+        createdBy
+      });
+
+      return fiscalYear;
+    } catch (error) {
+      logger.error('Error creating fiscal year', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Move an open period into review (closing)
+   */
+  async startPeriodClose(companyId: string, periodId: string, userId: string): Promise<FiscalPeriod> {
+    try {
+      const period = await this.transitionPeriod(companyId, periodId, userId, async (row) => {
+        if (row.status !== FiscalPeriodStatus.OPEN) {
+          throw new ConflictError(`Only open periods can start closing (status: ${row.status})`);
+        }
+        return { status: FiscalPeriodStatus.CLOSING };
+      });
+
+      await this.logCloseEvent('PERIOD_CLOSING_STARTED', period, userId);
+
+      return period;
+    } catch (error) {
+      logger.error('Error starting period close', { error, companyId, periodId });
+      throw error;
+    }
+  }
+
+  /**
+   * Close a period; earlier periods of the year must already be closed
+   */
+  async closePeriod(companyId: string, periodId: string, userId: string): Promise<FiscalPeriod> {
+    try {
+      const period = await this.transitionPeriod(companyId, periodId, userId, async (row, trx) => {
+        if (row.status === FiscalPeriodStatus.CLOSED) {
+          throw new ConflictError('Period is already closed');
+        }
+
+        const earlierOpen = await trx('fiscal_periods')
+          .where('fiscal_year_id', row.fiscal_year_id)
+          .where('period_number', '<', row.period_number)
+          .whereNot('status', FiscalPeriodStatus.CLOSED)
+          .first();
+        if (earlierOpen) {
+          throw new ConflictError(`Earlier period ${earlierOpen.name} must be closed first`);
+        }
+
+        return { status: FiscalPeriodStatus.CLOSED, closed_at: new Date(), closed_by: userId };
+      });
+
+      await this.logCloseEvent('PERIOD_CLOSED', period, userId);
+
+      return period;
+    } catch (error) {
+      logger.error('Error closing period', { error, companyId, periodId });
+      throw error;
+    }
+  }
+
+  /**
+   * Reopen a closed period; later periods must not be closed and the year must be open
+   */
+  async reopenPeriod(companyId: string, periodId: string, userId: string, reason?: string): Promise<FiscalPeriod> {
+    try {
+      const period = await this.transitionPeriod(companyId, periodId, userId, async (row, trx) => {
+        if (row.status === FiscalPeriodStatus.OPEN) {
+          throw new ConflictError('Period is already open');
+        }
+
+        const year = await trx('fiscal_years').where('id', row.fiscal_year_id).first();
+        if (year.status === FiscalPeriodStatus.CLOSED) {
+          throw new ConflictError('The fiscal year is closed; reopen the year first');
+        }
+
+        const laterClosed = await trx('fiscal_periods')
+          .where('fiscal_year_id', row.fiscal_year_id)
+          .where('period_number', '>', row.period_number)
+          .where('status', FiscalPeriodStatus.CLOSED)
+          .first();
+        if (laterClosed) {
+          throw new ConflictError(`Later period ${laterClosed.name} must be reopened first`);
+        }
+
+        return { status: FiscalPeriodStatus.OPEN, closed_at: null, closed_by: null };
+      });
+
+      await this.logCloseEvent('PERIOD_REOPENED', period, userId, { reason });
+
+      return period;
+    } catch (error) {
+      logger.error('Error reopening period', { error, companyId, periodId });
+      throw error;
+    }
+  }
+
+  /**
+   * Close a fiscal year: post the retained-earnings entry and lock every period
+   */
+  async closeFiscalYear(
+    companyId: string,
+    fiscalYearId: string,
+    data: CloseFiscalYearData,
+    userId: string
+  ): Promise<FiscalYearWithPeriods> {
+    try {
+      const db = getDatabase();
+      let closingEntryId: string | null = null;
+
+      await db.transaction(async (trx) => {
+        const year = await trx('fiscal_years')
+          .where('id', fiscalYearId)
+          .where('company_id', companyId)
+          .forUpdate()
+          .first();
+
+        if (!year) {
+          throw new NotFoundError('Fiscal year not found');
+        }
+
+        if (year.status === FiscalPeriodStatus.CLOSED) {
+          throw new ConflictError('Fiscal year is already closed');
+        }
+
+        const retainedEarnings = await trx('accounts')
+          .where('id', data.retained_earnings_account_id)
+          .where('company_id', companyId)
+          .whereNull('deleted_at')
+          .first();
+        if (!retainedEarnings || retainedEarnings.type !== AccountType.EQUITY) {
+          throw new ValidationError('Retained earnings account must be an equity account of this company');
+        }
+
+        const periods = await trx('fiscal_periods')
+          .where('fiscal_year_id', fiscalYearId)
+          .orderBy('period_number');
+        const lastPeriod = periods[periods.length - 1];
+        const stillOpen = periods.filter((period: any) =>
+          period.id !== lastPeriod.id && period.status !== FiscalPeriodStatus.CLOSED
+        );
+        if (stillOpen.length > 0) {
+          throw new ConflictError(
+            `All periods except the last must be closed first: ${stillOpen.map((period: any) => period.name).join(', ')}`
+          );
+        }
+
+        await trx('fiscal_years')
+          .where('id', fiscalYearId)
+          .update({ status: FiscalPeriodStatus.CLOSING, updated_at: new Date() });
+
+        // The closing entry is dated on the last day, while the last period is still open
+        const endDate = toDateOnly(year.end_date);
+        const movements = await ledgerService.getAccountMovements(companyId, {
+          start_date: toDateOnly(year.start_date),
+          end_date: endDate,
+          account_types: [AccountType.REVENUE, AccountType.EXPENSE]
+        }, trx);
+
+        const lines = buildClosingLines(movements, retainedEarnings.id);
+        if (lines.length > 0) {
+          const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+            entry_date: endDate,
+            description: `Year-end close ${year.name}`,
+            reference: year.name,
+            source_type: YEAR_END_SOURCE_TYPE,
+            source_id: fiscalYearId,
+            lines
+          }, userId, trx);
+          closingEntryId = entry.id;
+        }
+
+        await trx('fiscal_periods')
+          .where('fiscal_year_id', fiscalYearId)
+          .whereNot('status', FiscalPeriodStatus.CLOSED)
+          .update({
+            status: FiscalPeriodStatus.CLOSED,
+            closed_at: new Date(),
+            closed_by: userId,
+            updated_at: new Date()
+          });
+
+        await trx('fiscal_years')
+          .where('id', fiscalYearId)
+          .update({
+            status: FiscalPeriodStatus.CLOSED,
+            retained_earnings_account_id: retainedEarnings.id,
+            closing_entry_id: closingEntryId,
+            closed_at: new Date(),
+            closed_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      const fiscalYear = await this.getFiscalYearById(companyId, fiscalYearId);
+      if (!fiscalYear) {
+        throw new Error('Failed to close fiscal year');
+      }
+
+      await auditService.logComplianceEvent({
+        compliance_type: 'FINANCIAL_PERIOD_CLOSE',
+        action: 'FISCAL_YEAR_CLOSED',
+        details: {
+          fiscal_year_id: fiscalYearId,
+          name: fiscalYear.name,
+          closing_entry_id: closingEntryId,
+          retained_earnings_account_id: data.retained_earnings_account_id
+        },
+        user_id: userId,
+        company_id: companyId
+      });
+
+      logger.info('Fiscal year closed successfully', { fiscalYearId, companyId, closingEntryId, userId });
+
+      return fiscalYear;
+    } catch (error) {
+      logger.error('Error closing fiscal year', { error, companyId, fiscalYearId });
+      throw error;
+    }
+  }
+
+  /**
+   * Reopen a closed fiscal year: reopen its last period and reverse the closing entry
+   */
+  async reopenFiscalYear(
+    companyId: string,
+    fiscalYearId: string,
+    userId: string,
+    reason?: string
+  ): Promise<FiscalYearWithPeriods> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const year = await trx('fiscal_years')
+          .where('id', fiscalYearId)
+          .where('company_id', companyId)
+          .forUpdate()
+          .first();
+
+        if (!year) {
+          throw new NotFoundError('Fiscal year not found');
+        }
+
+        if (year.status !== FiscalPeriodStatus.CLOSED) {
+          throw new ConflictError('Fiscal year is not closed');
+        }
+
+        const laterClosed = await trx('fiscal_years')
+          .where('company_id', companyId)
+          .where('start_date', '>', year.end_date)
+          .where('status', FiscalPeriodStatus.CLOSED)
+          .first();
+        if (laterClosed) {
+          throw new ConflictError(`Later fiscal year ${laterClosed.name} must be reopened first`);
+        }
+
+        const lastPeriod = await trx('fiscal_periods')
+          .where('fiscal_year_id', fiscalYearId)
+          .orderBy('period_number', 'desc')
+          .first();
+
+        await trx('fiscal_years')
+          .where('id', fiscalYearId)
+          .update({
+            status: FiscalPeriodStatus.OPEN,
+            closing_entry_id: null,
+            closed_at: null,
+            closed_by: null,
+            updated_at: new Date()
+          });
+
+        await trx('fiscal_periods')
+          .where('id', lastPeriod.id)
+          .update({ status: FiscalPeriodStatus.OPEN, closed_at: null, closed_by: null, updated_at: new Date() });
+
+        if (year.closing_entry_id) {
+          await ledgerService.reverseJournalEntry(companyId, year.closing_entry_id, {
+            reversal_date: toDateOnly(year.end_date),
+            description: `Reopen ${year.name}: reversal of year-end close`
+          }, userId, trx);
+        }
+      });
+
+      const fiscalYear = await this.getFiscalYearById(companyId, fiscalYearId);
+      if (!fiscalYear) {
+        throw new Error('Failed to reopen fiscal year');
+      }
+
+      await auditService.logComplianceEvent({
+        compliance_type: 'FINANCIAL_PERIOD_CLOSE',
+        action: 'FISCAL_YEAR_REOPENED',
+        details: { fiscal_year_id: fiscalYearId, name: fiscalYear.name, reason },
+        user_id: userId,
+        company_id: companyId
+      });
+
+      logger.info('Fiscal year reopened', { fiscalYearId, companyId, userId });
+
+      return fiscalYear;
+    } catch (error) {
+      logger.error('Error reopening fiscal year', { error, companyId, fiscalYearId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lock a period row, apply a status change and return the updated period
+   */
+  private async transitionPeriod(
+    companyId: string,
+    periodId: string,
+    userId: string,
+    change: (row: any, trx: Knex.Transaction) => Promise<Record<string, any>>
+  ): Promise<FiscalPeriod> {
+    const db = getDatabase();
+
+    const updated = await db.transaction(async (trx) => {
+      const row = await trx('fiscal_periods')
+        .where('id', periodId)
+        .where('company_id', companyId)
+        .forUpdate()
+        .first();
+
+      if (!row) {
+        throw new NotFoundError('Fiscal period not found');
+      }
+
+      const updateData = await change(row, trx);
+
+      const [period] = await trx('fiscal_periods')
+        .where('id', periodId)
+        .update({ ...updateData, updated_at: new Date() })
+        .returning('*');
+
+      return period;
+    });
+
+    logger.info('Fiscal period status changed', {
+      periodId,
+      status: updated.status,
+      companyId,
+      userId
+    });
+
+    return this.mapPeriod(updated);
+  }
+
+  /**
+   * Record a period close/reopen in the compliance log
+   */
+  private async logCloseEvent(
+    action: string,
+    period: FiscalPeriod,
+    userId: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    await auditService.logComplianceEvent({
+      compliance_type: 'FINANCIAL_PERIOD_CLOSE',
+      action,
+      details: {
+        fiscal_period_id: period.id,
+        fiscal_year_id: period.fiscal_year_id,
+        name: period.name,
+        start_date: period.start_date,
+        end_date: period.end_date,
+        ...details
+      },
+      user_id: userId,
+      company_id: period.company_id
+    });
+  }
+
+  /**
+   * Map a fiscal period row
+   */
+  private mapPeriod(row: any): FiscalPeriod {
+    return {
+      ...row,
+      start_date: toDateOnly(row.start_date),
+      end_date: toDateOnly(row.end_date)
+    };
+  }
+
+  /**
+   * Map a fiscal year row with its periods
+   */
+  private mapYear(row: any, periods: any[]): FiscalYearWithPeriods {
+    return {
+      ...row,
+      start_date: toDateOnly(row.start_date),
+      end_date: toDateOnly(row.end_date),
+      periods: periods.map(period => this.mapPeriod(period))
+    };
+  }
+}
+
+export const fiscalPeriodService = new FiscalPeriodService();
@@ -0,0 +1,122 @@
+import { roundMoney } from '../../utils/currencyUtils';
+import { addMonths, startOfMonth, endOfMonth } from '../../utils/dateUtils';
+
+/**
+ * Depreciation maths for the fixed asset register. Assets depreciate by
+ * whole months from the month of their depreciation start date and never
+ * below their residual value.
+ *
+ *   straight_line:    (cost - residual) / useful life, the last month taking
+ *                     the rounding difference
+ *   reducing_balance: net book value x annual rate / 12
+ */
+
+export type DepreciationMethod = 'straight_line' | 'reducing_balance';
+
+export interface DepreciationBasis {
+  cost: number;
+  residual_value: number;
+  depreciation_method: DepreciationMethod;
+  useful_life_months?: number | null;
+  // Annual percentage, reducing balance only
+  depreciation_rate?: number | null;
+  depreciation_start_date: string;
+}
+
+export interface DepreciationLine {
+  // First day of the month
+  period_month: string;
+  amount: number;
+  accumulated_depreciation: number;
+  net_book_value: number;
+}
+
+// Reducing balance never quite reaches the residual value; stop projecting after this
+const MAX_SCHEDULE_MONTHS = 600;
+
+/**
+ * Whole months from one month to another (0 for the same month)
+ */
+export const monthsBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+};
+
+/**
+ * The month an asset depreciates next, given the last month depreciated
+ */
+export const nextDepreciationMonth = (asset: DepreciationBasis, depreciatedTo: string | null | undefined): string =>
+  depreciatedTo ? addMonths(startOfMonth(depreciatedTo), 1) : startOfMonth(asset.depreciation_start_date);
+
+/**
+ * Depreciation for one month given the depreciation accumulated before it
+ */
+export const monthlyDepreciation = (asset: DepreciationBasis, periodMonth: string, accumulated: number): number => {
+  const startMonth = startOfMonth(asset.depreciation_start_date);
+  if (periodMonth < startMonth) return 0;
+
+  const remaining = roundMoney(asset.cost - asset.residual_value - accumulated);
+  if (remaining <= 0) return 0;
+
+  if (asset.depreciation_method === 'straight_line') {
+    const life = asset.useful_life_months || 0;
+    if (life <= 0) return 0;
+
+    if (monthsBetween(startMonth, periodMonth) >= life - 1) return remaining;
+
+    return Math.min(roundMoney((asset.cost - asset.residual_value) / life), remaining);
+  }
+
+  const rate = asset.depreciation_rate || 0;
+  return Math.min(roundMoney((asset.cost - accumulated) * rate / 100 / 12), remaining);
+};
+
+/**
+ * Month-by-month depreciation from the month after depreciatedTo, through
+ * throughMonth when given or until the asset is fully depreciated
+ */
+export const buildDepreciationSchedule = (
+  asset: DepreciationBasis,
+  accumulated: number,
+  depreciatedTo: string | null | undefined,
+  throughMonth?: string
+): DepreciationLine[] => {
+  const lines: DepreciationLine[] = [];
+  const last = throughMonth ? startOfMonth(throughMonth) : undefined;
+  let month = nextDepreciationMonth(asset, depreciatedTo);
+  let total = accumulated;
+
+  while ((!last || month <= last) && lines.length < MAX_SCHEDULE_MONTHS) {
+    const amount = monthlyDepreciation(asset, month, total);
+    if (amount <= 0) break;
+
+    total = roundMoney(total + amount);
+    lines.push({
+      period_month: month,
+      amount,
+      accumulated_depreciation: total,
+      net_book_value: roundMoney(asset.cost - total)
+    });
+    month = addMonths(month, 1);
+  }
+
+  return lines;
+};
+
+/**
+ * Whether nothing is left to depreciate
+ */
+export const isFullyDepreciated = (asset: DepreciationBasis, accumulated: number, periodMonth: string): boolean =>
+  monthlyDepreciation(asset, addMonths(periodMonth, 1), accumulated) <= 0;
+
+/**
+ * Proceeds less net book value: positive is a gain, negative a loss
+ */
+export const disposalGainLoss = (cost: number, accumulated: number, proceeds: number): number =>
+  roundMoney(proceeds - (cost - accumulated));
+
+/**
+ * Posting date for a month's depreciation
+ */
+export const depreciationDate = (periodMonth: string): string => endOfMonth(periodMonth);
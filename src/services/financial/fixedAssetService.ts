@@ -0,0 +1,865 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { ledgerService, JournalLineData } from './ledgerService';
+import { financialSettingsService } from './financialSettingsService';
+import {
+  buildDepreciationSchedule,
+  isFullyDepreciated,
+  disposalGainLoss,
+  depreciationDate,
+  DepreciationBasis,
+  DepreciationLine,
+  DepreciationMethod
+} from './fixedAssetDepreciation';
+import { sequenceService } from '../sequenceService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount } from '../../utils/currencyUtils';
+import { toDateOnly, startOfMonth } from '../../utils/dateUtils';
+import { AccountType, AccountCategory } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export const FIXED_ASSET_SOURCE_TYPE = 'fixed_asset';
+export const DEPRECIATION_SOURCE_TYPE = 'depreciation';
+
+export type FixedAssetStatus = 'active' | 'fully_depreciated' | 'disposed';
+
+export interface FixedAsset {
+  id: string;
+  company_id: string;
+  asset_number: string;
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  serial_number?: string | null;
+  location?: string | null;
+  custodian_id?: string | null;
+  custodian_name?: string | null;
+  cost_centre_id?: string | null;
+  control_system_id?: string | null;
+  acquisition_date: string;
+  depreciation_start_date: string;
+  cost: number;
+  residual_value: number;
+  depreciation_method: DepreciationMethod;
+  useful_life_months?: number | null;
+  depreciation_rate?: number | null;
+  accumulated_depreciation: number;
+  net_book_value: number;
+  depreciated_to?: string | null;
+  asset_account_id: string;
+  accumulated_depreciation_account_id: string;
+  depreciation_expense_account_id: string;
+  status: FixedAssetStatus;
+  acquisition_journal_entry_id?: string | null;
+  disposal_date?: string | null;
+  disposal_proceeds?: number | null;
+  disposal_gain_loss?: number | null;
+  disposal_journal_entry_id?: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  depreciation?: DepreciationLine[];
+  schedule?: DepreciationLine[];
+}
+
+export interface CreateFixedAssetData {
+  asset_number?: string;
+  name: string;
+  description?: string;
+  category?: string;
+  serial_number?: string;
+  location?: string;
+  custodian_id?: string | null;
+  cost_centre_id?: string | null;
+  control_system_id?: string | null;
+  acquisition_date: Date | string;
+  depreciation_start_date?: Date | string;
+  cost: number;
+  residual_value?: number;
+  depreciation_method: DepreciationMethod;
+  useful_life_months?: number;
+  depreciation_rate?: number;
+  asset_account_id: string;
+  accumulated_depreciation_account_id: string;
+  depreciation_expense_account_id: string;
+  // Posts Dr asset / Cr this account; leave out when the purchase is already in the ledger (e.g. a supplier bill)
+  acquisition_credit_account_id?: string;
+  // Assets brought over from another system
+  opening_accumulated_depreciation?: number;
+  opening_depreciated_to?: string;
+}
+
+export type UpdateFixedAssetData = Partial<Pick<CreateFixedAssetData,
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'serial_number'
+  | 'location'
+  | 'custodian_id'
+  | 'cost_centre_id'
+  | 'control_system_id'
+  | 'residual_value'
+  | 'depreciation_method'
+  | 'useful_life_months'
+  | 'depreciation_rate'
+>>;
+
+export interface FixedAssetFilters {
+  status?: FixedAssetStatus;
+  category?: string;
+  location?: string;
+  custodian_id?: string;
+  control_system_id?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface DisposeFixedAssetData {
+  disposal_date: Date | string;
+  proceeds?: number;
+  // Bank or receivable account the proceeds were received into
+  proceeds_account_id?: string;
+  notes?: string;
+}
+
+export interface DepreciationRunResult {
+  period_month: string;
+  assets: number;
+  total: number;
+  journal_entries: Array<{
+    period_month: string;
+    journal_entry_id: string;
+    entry_number: string;
+    amount: number;
+  }>;
+}
+
+const DEPRECIATION_FIELDS = ['residual_value', 'depreciation_method', 'useful_life_months', 'depreciation_rate'];
+
+export class FixedAssetService {
+  /**
+   * Get the asset register with filters and pagination
+   */
+  async getAssets(companyId: string, filters: FixedAssetFilters = {}): Promise<{
+    assets: FixedAsset[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('fixed_assets').where('fixed_assets.company_id', companyId);
+
+      if (filters.status) {
+        query = query.where('fixed_assets.status', filters.status);
+      }
+
+      if (filters.category) {
+        query = query.where('fixed_assets.category', filters.category);
+      }
+
+      if (filters.location) {
+        query = query.where('fixed_assets.location', 'ilike', `%${filters.location}%`);
+      }
+
+      if (filters.custodian_id) {
+        query = query.where('fixed_assets.custodian_id', filters.custodian_id);
+      }
+
+      if (filters.control_system_id) {
+        query = query.where('fixed_assets.control_system_id', filters.control_system_id);
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('fixed_assets.name', 'ilike', search)
+            .orWhere('fixed_assets.asset_number', 'ilike', search)
+            .orWhere('fixed_assets.serial_number', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+      const rows = await this.withCustodian(query)
+        .orderBy('fixed_assets.asset_number')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        assets: rows.map((row: any) => this.mapAsset(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching fixed assets', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an asset with its posted depreciation and the remaining schedule
+   */
+  async getAssetById(companyId: string, assetId: string, trx?: Knex.Transaction): Promise<FixedAsset | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await this.withCustodian(db('fixed_assets'))
+        .where('fixed_assets.id', assetId)
+        .where('fixed_assets.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const asset = this.mapAsset(row);
+      const history = await db('fixed_asset_depreciation')
+        .where('fixed_asset_id', assetId)
+        .orderBy('period_month');
+
+      return {
+        ...asset,
+        depreciation: history.map((line: any) => ({
+          period_month: toDateOnly(line.period_month),
+          amount: toAmount(line.amount),
+          accumulated_depreciation: toAmount(line.accumulated_depreciation),
+          net_book_value: toAmount(line.net_book_value)
+        })),
+        schedule: asset.status === 'active'
+          ? buildDepreciationSchedule(asset, asset.accumulated_depreciation, asset.depreciated_to)
+          : []
+      };
+    } catch (error) {
+      logger.error('Error fetching fixed asset by ID', { error, companyId, assetId });
+      throw error;
+    }
+  }
+
+  /**
+   * Add an asset to the register, posting the acquisition when a credit account is given
+   */
+  async createAsset(companyId: string, data: CreateFixedAssetData, createdBy: string): Promise<FixedAsset> {
+    try {
+      const db = getDatabase();
+      const assetId = uuidv4();
+
+      const acquisitionDate = toDateOnly(data.acquisition_date);
+      const startDate = data.depreciation_start_date ? toDateOnly(data.depreciation_start_date) : acquisitionDate;
+      const cost = roundMoney(data.cost);
+      const residual = roundMoney(data.residual_value ?? 0);
+      const opening = roundMoney(data.opening_accumulated_depreciation ?? 0);
+
+      this.validateDepreciationBasis({
+        cost,
+        residual_value: residual,
+        depreciation_method: data.depreciation_method,
+        useful_life_months: data.useful_life_months,
+        depreciation_rate: data.depreciation_rate,
+        depreciation_start_date: startDate
+      });
+
+      if (startDate < acquisitionDate) {
+        throw new ValidationError('Depreciation cannot start before the acquisition date');
+      }
+
+      if (opening < 0 || opening > roundMoney(cost - residual)) {
+        throw new ValidationError('Opening accumulated depreciation must be between zero and cost less residual value');
+      }
+
+      const depreciatedTo = data.opening_depreciated_to ? `${data.opening_depreciated_to.slice(0, 7)}-01` : null;
+      if (opening > 0 && !depreciatedTo) {
+        throw new ValidationError('opening_depreciated_to is required with opening accumulated depreciation');
+      }
+      if (depreciatedTo && depreciatedTo < startOfMonth(startDate)) {
+        throw new ValidationError('opening_depreciated_to is before depreciation starts');
+      }
+
+      await db.transaction(async (trx) => {
+        await this.assertAccounts(trx, companyId, data);
+        await this.assertReferences(trx, companyId, data);
+
+        const assetNumber = data.asset_number
+          || await sequenceService.next(trx, companyId, 'fixed_asset', { prefix: 'FA', padding: 5 });
+
+        const existing = await trx('fixed_assets')
+          .where('company_id', companyId)
+          .where('asset_number', assetNumber)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Asset number ${assetNumber} already exists`);
+        }
+
+        await trx('fixed_assets').insert({
+          id: assetId,
+          company_id: companyId,
+          asset_number: assetNumber,
+          name: data.name.trim(),
+          description: data.description,
+          category: data.category,
+          serial_number: data.serial_number,
+          location: data.location,
+          custodian_id: data.custodian_id || null,
+          cost_centre_id: data.cost_centre_id || null,
+          control_system_id: data.control_system_id || null,
+          acquisition_date: acquisitionDate,
+          depreciation_start_date: startDate,
+          cost,
+          residual_value: residual,
+          depreciation_method: data.depreciation_method,
+          useful_life_months: data.depreciation_method === 'straight_line' ? data.useful_life_months : null,
+          depreciation_rate: data.depreciation_method === 'reducing_balance' ? data.depreciation_rate : null,
+          accumulated_depreciation: opening,
+          depreciated_to: depreciatedTo,
+          asset_account_id: data.asset_account_id,
+          accumulated_depreciation_account_id: data.accumulated_depreciation_account_id,
+          depreciation_expense_account_id: data.depreciation_expense_account_id,
+          status: opening > 0 && opening >= roundMoney(cost - residual) ? 'fully_depreciated' : 'active',
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        if (data.acquisition_credit_account_id) {
+          const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+            entry_date: acquisitionDate,
+            description: `Acquisition of ${assetNumber} ${data.name.trim()}`,
+            reference: assetNumber,
+            source_type: FIXED_ASSET_SOURCE_TYPE,
+            source_id: assetId,
+            lines: [
+              { account_id: data.asset_account_id, debit: cost, cost_centre_id: data.cost_centre_id || null },
+              { account_id: data.acquisition_credit_account_id, credit: cost }
+            ]
+          }, createdBy, trx);
+
+          await trx('fixed_assets').where('id', assetId).update({ acquisition_journal_entry_id: entry.id });
+        }
+      });
+
+      const asset = await this.getAssetById(companyId, assetId);
+      if (!asset) {
+        throw new Error('Failed to create fixed asset');
+      }
+
+      logger.info('Fixed asset created successfully', {
+        assetId,
+        assetNumber: asset.asset_number,
+        companyId,
+        createdBy
+      });
+
+      return asset;
+    } catch (error) {
+      logger.error('Error creating fixed asset', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update register details; the depreciation basis can only change before the first depreciation run
+   */
+  async updateAsset(
+    companyId: string,
+    assetId: string,
+    data: UpdateFixedAssetData,
+    updatedBy: string
+  ): Promise<FixedAsset> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const asset = await this.lockAsset(trx, companyId, assetId);
+        if (asset.status === 'disposed') {
+          throw new ConflictError('Disposed assets cannot be changed');
+        }
+
+        const changesBasis = DEPRECIATION_FIELDS.some(field => (data as any)[field] !== undefined);
+        if (changesBasis) {
+          const run = await trx('fixed_asset_depreciation').where('fixed_asset_id', assetId).first();
+          if (run) {
+            throw new ConflictError('The depreciation basis cannot change once depreciation has been posted');
+          }
+
+          const method = data.depreciation_method ?? asset.depreciation_method;
+          this.validateDepreciationBasis({
+            cost: toAmount(asset.cost),
+            residual_value: data.residual_value ?? toAmount(asset.residual_value),
+            depreciation_method: method,
+            useful_life_months: data.useful_life_months ?? asset.useful_life_months,
+            depreciation_rate: data.depreciation_rate ?? (asset.depreciation_rate !== null ? toAmount(asset.depreciation_rate) : null),
+            depreciation_start_date: toDateOnly(asset.depreciation_start_date)
+          });
+        }
+
+        await this.assertReferences(trx, companyId, data);
+
+        const updateData: Record<string, any> = { updated_by: updatedBy, updated_at: new Date() };
+        for (const [key, value] of Object.entries(data)) {
+          if (value !== undefined) {
+            updateData[key] = typeof value === 'string' && key === 'name' ? value.trim() : value;
+          }
+        }
+        if (data.residual_value !== undefined) {
+          updateData.residual_value = roundMoney(data.residual_value);
+        }
+        if (data.depreciation_method === 'straight_line') {
+          updateData.depreciation_rate = null;
+        } else if (data.depreciation_method === 'reducing_balance') {
+          updateData.useful_life_months = null;
+        }
+
+        await trx('fixed_assets').where('id', assetId).update(updateData);
+      });
+
+      logger.info('Fixed asset updated successfully', { assetId, companyId, updatedBy });
+
+      return (await this.getAssetById(companyId, assetId))!;
+    } catch (error) {
+      logger.error('Error updating fixed asset', { error, companyId, assetId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Depreciate every active asset through the given month, posting one
+   * journal per month (earlier months an asset missed are caught up)
+   */
+  async runDepreciation(companyId: string, periodMonth: Date | string, userId: string): Promise<DepreciationRunResult> {
+    try {
+      const db = getDatabase();
+      const month = startOfMonth(periodMonth);
+
+      const result = await db.transaction(async (trx) => {
+        const assets = await trx('fixed_assets')
+          .where('company_id', companyId)
+          .where('status', 'active')
+          .where('depreciation_start_date', '<=', depreciationDate(month))
+          .orderBy('asset_number')
+          .forUpdate();
+
+        return this.depreciateAssets(trx, companyId, assets, month, userId);
+      });
+
+      if (result.journal_entries.length > 0) {
+        await auditService.logUserAction({
+          user_id: userId,
+          action: 'DEPRECIATION_RUN',
+          resource_type: 'fixed_asset',
+          company_id: companyId,
+          details: { period_month: month, assets: result.assets, total: result.total }
+        });
+      }
+
+      logger.info('Depreciation run completed', { companyId, periodMonth: month, assets: result.assets, total: result.total });
+
+      return result;
+    } catch (error) {
+      logger.error('Error running depreciation', { error, companyId, periodMonth });
+      throw error;
+    }
+  }
+
+  /**
+   * Monthly depreciation for companies that enabled it, attributed to the
+   * user who last saved the financial settings
+   */
+  async runScheduledDepreciation(date: Date | string): Promise<void> {
+    const db = getDatabase();
+    const settings = await db('financial_settings')
+      .where('auto_depreciation', true)
+      .whereNotNull('updated_by');
+
+    for (const row of settings) {
+      try {
+        await this.runDepreciation(row.company_id, date, row.updated_by);
+      } catch (error) {
+        logger.error('Scheduled depreciation failed', {
+          companyId: row.company_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Dispose of an asset: depreciate it through the disposal month, then
+   * remove cost and accumulated depreciation and post the gain or loss
+   */
+  async disposeAsset(
+    companyId: string,
+    assetId: string,
+    data: DisposeFixedAssetData,
+    userId: string
+  ): Promise<FixedAsset> {
+    try {
+      const db = getDatabase();
+      const disposalDate = toDateOnly(data.disposal_date);
+      const proceeds = roundMoney(data.proceeds ?? 0);
+      let gainLoss = 0;
+
+      if (proceeds < 0) {
+        throw new ValidationError('Proceeds cannot be negative');
+      }
+      if (proceeds > 0 && !data.proceeds_account_id) {
+        throw new ValidationError('proceeds_account_id is required when there are proceeds');
+      }
+
+      await db.transaction(async (trx) => {
+        const asset = await this.lockAsset(trx, companyId, assetId);
+        if (asset.status === 'disposed') {
+          throw new ConflictError('Asset has already been disposed of');
+        }
+
+        if (disposalDate < toDateOnly(asset.acquisition_date)) {
+          throw new ValidationError('Disposal date cannot be before the acquisition date');
+        }
+
+        const disposalMonth = startOfMonth(disposalDate);
+        if (asset.depreciated_to && toDateOnly(asset.depreciated_to) > disposalMonth) {
+          throw new ValidationError(`Asset has been depreciated through ${toDateOnly(asset.depreciated_to).slice(0, 7)}, after the disposal date`);
+        }
+
+        const disposalAccountId = await financialSettingsService.requireAccount(companyId, 'asset_disposal_account_id', trx);
+
+        if (data.proceeds_account_id) {
+          const account = await trx('accounts')
+            .where('id', data.proceeds_account_id)
+            .where('company_id', companyId)
+            .whereNull('deleted_at')
+            .first();
+          if (!account) {
+            throw new ValidationError('Proceeds account not found');
+          }
+        }
+
+        if (asset.status === 'active' && toDateOnly(asset.depreciation_start_date) <= disposalDate) {
+          await this.depreciateAssets(trx, companyId, [asset], disposalMonth, userId);
+        }
+
+        const current = await trx('fixed_assets').where('id', assetId).first();
+        const cost = toAmount(current.cost);
+        const accumulated = toAmount(current.accumulated_depreciation);
+        gainLoss = disposalGainLoss(cost, accumulated, proceeds);
+
+        const lines: JournalLineData[] = [
+          { account_id: current.asset_account_id, credit: cost, description: 'Cost' }
+        ];
+        if (accumulated > 0) {
+          lines.push({ account_id: current.accumulated_depreciation_account_id, debit: accumulated, description: 'Accumulated depreciation' });
+        }
+        if (proceeds > 0) {
+          lines.push({ account_id: data.proceeds_account_id!, debit: proceeds, description: 'Proceeds' });
+        }
+        if (gainLoss !== 0) {
+          lines.push({
+            account_id: disposalAccountId,
+            debit: gainLoss < 0 ? -gainLoss : 0,
+            credit: gainLoss > 0 ? gainLoss : 0,
+            description: gainLoss > 0 ? 'Gain on disposal' : 'Loss on disposal',
+            cost_centre_id: current.cost_centre_id
+          });
+        }
+
+        const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+          entry_date: disposalDate,
+          description: `Disposal of ${current.asset_number} ${current.name}${data.notes ? ` - ${data.notes}` : ''}`,
+          reference: current.asset_number,
+          source_type: FIXED_ASSET_SOURCE_TYPE,
+          source_id: assetId,
+          lines
+        }, userId, trx);
+
+        await trx('fixed_assets')
+          .where('id', assetId)
+          .update({
+            status: 'disposed',
+            disposal_date: disposalDate,
+            disposal_proceeds: proceeds,
+            disposal_gain_loss: gainLoss,
+            disposal_journal_entry_id: entry.id,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'FIXED_ASSET_DISPOSED',
+        resource_type: 'fixed_asset',
+        resource_id: assetId,
+        company_id: companyId,
+        details: { disposal_date: disposalDate, proceeds, gain_loss: gainLoss }
+      });
+
+      logger.info('Fixed asset disposed', { assetId, companyId, disposalDate, proceeds, gainLoss, userId });
+
+      return (await this.getAssetById(companyId, assetId))!;
+    } catch (error) {
+      logger.error('Error disposing of fixed asset', { error, companyId, assetId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Depreciate locked assets through a month, one journal per month
+   */
+  private async depreciateAssets(
+    trx: Knex.Transaction,
+    companyId: string,
+    assets: any[],
+    throughMonth: string,
+    userId: string
+  ): Promise<DepreciationRunResult> {
+    const byMonth = new Map<string, Array<{ asset: any; line: DepreciationLine }>>();
+    const depreciated = new Set<string>();
+
+    for (const asset of assets) {
+      const basis = this.toBasis(asset);
+      const schedule = buildDepreciationSchedule(
+        basis,
+        toAmount(asset.accumulated_depreciation),
+        asset.depreciated_to ? toDateOnly(asset.depreciated_to) : null,
+        throughMonth
+      );
+
+      for (const line of schedule) {
+        const entries = byMonth.get(line.period_month) || [];
+        entries.push({ asset, line });
+        byMonth.set(line.period_month, entries);
+        depreciated.add(asset.id);
+      }
+    }
+
+    const result: DepreciationRunResult = {
+      period_month: throughMonth,
+      assets: depreciated.size,
+      total: 0,
+      journal_entries: []
+    };
+
+    for (const month of Array.from(byMonth.keys()).sort()) {
+      const entries = byMonth.get(month)!;
+
+      // One debit per expense account and cost centre, one credit per accumulated depreciation account
+      const debits = new Map<string, JournalLineData>();
+      const credits = new Map<string, JournalLineData>();
+      for (const { asset, line } of entries) {
+        const debitKey = `${asset.depreciation_expense_account_id}|${asset.cost_centre_id || ''}`;
+        const debit = debits.get(debitKey)
+          || { account_id: asset.depreciation_expense_account_id, debit: 0, cost_centre_id: asset.cost_centre_id || null };
+        debit.debit = roundMoney(debit.debit! + line.amount);
+        debits.set(debitKey, debit);
+
+        const credit = credits.get(asset.accumulated_depreciation_account_id)
+          || { account_id: asset.accumulated_depreciation_account_id, credit: 0 };
+        credit.credit = roundMoney(credit.credit! + line.amount);
+        credits.set(asset.accumulated_depreciation_account_id, credit);
+      }
+
+      const amount = sumMoney(entries.map(entry => entry.line.amount));
+      const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+        entry_date: depreciationDate(month),
+        description: `Depreciation ${month.slice(0, 7)}`,
+        source_type: DEPRECIATION_SOURCE_TYPE,
+        lines: [...debits.values(), ...credits.values()]
+      }, userId, trx);
+
+      await trx('fixed_asset_depreciation').insert(entries.map(({ asset, line }) => ({
+        id: uuidv4(),
+        company_id: companyId,
+        fixed_asset_id: asset.id,
+        period_month: month,
+        amount: line.amount,
+        accumulated_depreciation: line.accumulated_depreciation,
+        net_book_value: line.net_book_value,
+        journal_entry_id: entry.id
+      })));
+
+      for (const { asset, line } of entries) {
+        await trx('fixed_assets')
+          .where('id', asset.id)
+          .update({
+            accumulated_depreciation: line.accumulated_depreciation,
+            depreciated_to: month,
+            status: isFullyDepreciated(this.toBasis(asset), line.accumulated_depreciation, month) ? 'fully_depreciated' : 'active',
+            updated_at: new Date()
+          });
+      }
+
+      result.total = roundMoney(result.total + amount);
+      result.journal_entries.push({
+        period_month: month,
+        journal_entry_id: entry.id,
+        entry_number: entry.entry_number,
+        amount
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Posting accounts: a fixed asset account for cost, an asset (contra)
+   * account for accumulated depreciation and an expense account
+   */
+  private async assertAccounts(trx: Knex.Transaction, companyId: string, data: CreateFixedAssetData): Promise<void> {
+    const ids = [
+      data.asset_account_id,
+      data.accumulated_depreciation_account_id,
+      data.depreciation_expense_account_id,
+      data.acquisition_credit_account_id
+    ].filter(Boolean) as string[];
+
+    const accounts = await trx('accounts')
+      .whereIn('id', ids)
+      .where('company_id', companyId)
+      .whereNull('deleted_at');
+    const find = (id?: string) => accounts.find((account: any) => account.id === id);
+
+    const assetAccount = find(data.asset_account_id);
+    if (!assetAccount || assetAccount.category !== AccountCategory.FIXED_ASSETS) {
+      throw new ValidationError('Asset account must be a fixed asset account of this company');
+    }
+
+    if (find(data.accumulated_depreciation_account_id)?.type !== AccountType.ASSET) {
+      throw new ValidationError('Accumulated depreciation account must be an asset (contra) account of this company');
+    }
+
+    if (find(data.depreciation_expense_account_id)?.type !== AccountType.EXPENSE) {
+      throw new ValidationError('Depreciation expense account must be an expense account of this company');
+    }
+
+    if (data.acquisition_credit_account_id && !find(data.acquisition_credit_account_id)) {
+      throw new ValidationError('Acquisition credit account not found');
+    }
+  }
+
+  /**
+   * Custodian and cost centre must exist
+   */
+  private async assertReferences(
+    trx: Knex.Transaction,
+    companyId: string,
+    data: { custodian_id?: string | null; cost_centre_id?: string | null }
+  ): Promise<void> {
+    if (data.custodian_id) {
+      const user = await trx('users').where('id', data.custodian_id).whereNull('deleted_at').first();
+      if (!user) {
+        throw new ValidationError('Custodian not found');
+      }
+    }
+
+    if (data.cost_centre_id) {
+      const costCentre = await trx('cost_centres')
+        .where('id', data.cost_centre_id)
+        .where('company_id', companyId)
+        .where('is_active', true)
+        .first();
+      if (!costCentre) {
+        throw new ValidationError('Cost centre not found or inactive');
+      }
+    }
+  }
+
+  /**
+   * Check the method has what it needs and the residual value is sensible
+   */
+  private validateDepreciationBasis(basis: DepreciationBasis): void {
+    if (basis.cost <= 0) {
+      throw new ValidationError('Cost must be greater than zero');
+    }
+
+    if (basis.residual_value < 0 || basis.residual_value >= basis.cost) {
+      throw new ValidationError('Residual value must be at least zero and below cost');
+    }
+
+    if (basis.depreciation_method === 'straight_line') {
+      if (!basis.useful_life_months || basis.useful_life_months < 1) {
+        throw new ValidationError('Straight-line depreciation needs useful_life_months');
+      }
+    } else if (basis.depreciation_method === 'reducing_balance') {
+      if (!basis.depreciation_rate || basis.depreciation_rate <= 0 || basis.depreciation_rate > 100) {
+        throw new ValidationError('Reducing balance depreciation needs an annual depreciation_rate between 0 and 100');
+      }
+    } else {
+      throw new ValidationError(`Unsupported depreciation method: ${basis.depreciation_method}`);
+    }
+  }
+
+  /**
+   * Lock an asset row for update
+   */
+  private async lockAsset(trx: Knex.Transaction, companyId: string, assetId: string): Promise<any> {
+    const asset = await trx('fixed_assets')
+      .where('id', assetId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!asset) {
+      throw new NotFoundError('Fixed asset not found');
+    }
+
+    return asset;
+  }
+
+  /**
+   * Select asset columns with the custodian's name
+   */
+  private withCustodian(query: Knex.QueryBuilder): Knex.QueryBuilder {
+    return query
+      .select(
+        'fixed_assets.*',
+        getDatabase().raw("concat(users.first_name, ' ', users.last_name) as custodian_name")
+      )
+      .leftJoin('users', 'fixed_assets.custodian_id', 'users.id');
+  }
+
+  /**
+   * Depreciation inputs from an asset row
+   */
+  private toBasis(row: any): DepreciationBasis {
+    return {
+      cost: toAmount(row.cost),
+      residual_value: toAmount(row.residual_value),
+      depreciation_method: row.depreciation_method,
+      useful_life_months: row.useful_life_months,
+      depreciation_rate: row.depreciation_rate !== null && row.depreciation_rate !== undefined ? toAmount(row.depreciation_rate) : null,
+      depreciation_start_date: toDateOnly(row.depreciation_start_date)
+    };
+  }
+
+  /**
+   * Map an asset row
+   */
+  private mapAsset(row: any): FixedAsset {
+    const cost = toAmount(row.cost);
+    const accumulated = toAmount(row.accumulated_depreciation);
+
+    return {
+      ...row,
+      ...this.toBasis(row),
+      acquisition_date: toDateOnly(row.acquisition_date),
+      accumulated_depreciation: accumulated,
+      net_book_value: roundMoney(cost - accumulated),
+      depreciated_to: row.depreciated_to ? toDateOnly(row.depreciated_to) : null,
+      disposal_date: row.disposal_date ? toDateOnly(row.disposal_date) : null,
+      disposal_proceeds: row.disposal_proceeds !== null && row.disposal_proceeds !== undefined ? toAmount(row.disposal_proceeds) : null,
+      disposal_gain_loss: row.disposal_gain_loss !== null && row.disposal_gain_loss !== undefined ? toAmount(row.disposal_gain_loss) : null,
+      custodian_name: row.custodian_id ? row.custodian_name : null
+    };
+  }
+}
+
+export const fixedAssetService = new FixedAssetService();
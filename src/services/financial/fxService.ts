@@ -0,0 +1,398 @@
+import { Knex } from 'knex';
+import { getDatabase } from '../../database/connection';
+import {
+  ledgerService,
+  JournalLineData,
+  JournalEntryWithLines,
+  FX_REVALUATION_SOURCE_TYPE
+} from './ledgerService';
+import { financialSettingsService } from './financialSettingsService';
+import { exchangeRateService } from '../exchangeRateService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, toAmount, sumMoney } from '../../utils/currencyUtils';
+import { toDateOnly, addDays } from '../../utils/dateUtils';
+import { AccountType, TransactionStatus } from '../../types';
+import { ValidationError, ConflictError, NotFoundError } from '../../middleware/errorHandler';
+
+export const FX_SETTLEMENT_SOURCE_TYPE = 'fx_settlement';
+
+/**
+ * Open balance of a foreign-currency account. Amounts are debit-positive.
+ */
+export interface ForeignBalance {
+  account_id: string;
+  account_number: string;
+  account_name: string;
+  type: AccountType;
+  currency: string;
+  foreign_balance: number;
+  carrying_amount: number;
+  rate?: number;
+  revalued_amount?: number;
+  difference?: number;
+}
+
+export interface RevaluationData {
+  revaluation_date: Date | string;
+  reverse_next_day?: boolean;
+}
+
+export interface RevaluationResult {
+  revaluation_date: string;
+  balances: ForeignBalance[];
+  entry: JournalEntryWithLines | null;
+  reversal: JournalEntryWithLines | null;
+}
+
+export interface SettlementData {
+  settlement_date: Date | string;
+  account_id: string;
+  bank_account_id: string;
+  foreign_amount: number;
+  original_rate: number;
+  settlement_rate?: number;
+  description?: string;
+  reference?: string;
+  source_type?: string;
+  source_id?: string;
+}
+
+/**
+ * Lines that bring foreign balances to their revalued base amount, with the
+ * net difference booked to the unrealised gain/loss account
+ */
+export const buildRevaluationLines = (
+  balances: ForeignBalance[],
+  gainLossAccountId: string
+): JournalLineData[] => {
+  const lines: JournalLineData[] = [];
+
+  for (const balance of balances) {
+    const difference = toAmount(balance.difference);
+    if (difference === 0) continue;
+
+    lines.push({
+      account_id: balance.account_id,
+      description: `Revaluation ${balance.currency} ${balance.foreign_balance.toFixed(2)} @ ${balance.rate}`,
+      debit: difference > 0 ? difference : 0,
+      credit: difference < 0 ? -difference : 0
+    });
+  }
+
+  const net = roundMoney(sumMoney(lines.map(line => line.debit)) - sumMoney(lines.map(line => line.credit)));
+  if (net !== 0) {
+    lines.push({
+      account_id: gainLossAccountId,
+      description: net > 0 ? 'Unrealised FX gain' : 'Unrealised FX loss',
+      debit: net < 0 ? -net : 0,
+      credit: net > 0 ? net : 0
+    });
+  }
+
+  return lines;
+};
+
+/**
+ * Lines settling a foreign receivable (asset) or payable (liability) at a new
+ * rate. The open item is cleared at its carrying rate; the bank moves at the
+ * settlement rate and the difference is the realised gain or loss.
+ */
+export const buildSettlementLines = (params: {
+  account_id: string;
+  account_type: AccountType | string;
+  bank_account_id: string;
+  bank_is_foreign: boolean;
+  realised_account_id: string;
+  foreign_amount: number;
+  original_rate: number;
+  settlement_rate: number;
+}): { lines: JournalLineData[]; realised: number } => {
+  const foreign = roundMoney(params.foreign_amount);
+  const carrying = roundMoney(foreign * params.original_rate);
+  const settled = roundMoney(foreign * params.settlement_rate);
+  const bankForeign = params.bank_is_foreign ? foreign : 0;
+  const isReceipt = params.account_type === AccountType.ASSET;
+
+  const lines: JournalLineData[] = isReceipt
+    ? [
+      { account_id: params.bank_account_id, description: 'Settlement received', debit: settled, foreign_debit: bankForeign },
+      { account_id: params.account_id, description: 'Settlement of foreign balance', credit: carrying, foreign_credit: foreign }
+    ]
+    : [
+      { account_id: params.account_id, description: 'Settlement of foreign balance', debit: carrying, foreign_debit: foreign },
+      { account_id: params.bank_account_id, description: 'Settlement paid', credit: settled, foreign_credit: bankForeign }
+    ];
+
+  // Receiving more (or paying less) base currency than carried is a gain
+  const realised = roundMoney(isReceipt ? settled - carrying : carrying - settled);
+  if (realised !== 0) {
+    lines.push({
+      account_id: params.realised_account_id,
+      description: realised > 0 ? 'Realised FX gain' : 'Realised FX loss',
+      debit: realised < 0 ? -realised : 0,
+      credit: realised > 0 ? realised : 0
+    });
+  }
+
+  return { lines, realised };
+};
+
+export class FxService {
+  /**
+   * Open balances of foreign-currency accounts as of a date, valued at that day's rates
+   */
+  async getForeignBalances(companyId: string, asOf: Date | string, trx?: Knex.Transaction): Promise<ForeignBalance[]> {
+    try {
+      const db = trx || getDatabase();
+      const date = toDateOnly(asOf);
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      const rows: any[] = await db('journal_entry_lines')
+        .select('accounts.id as account_id', 'accounts.account_number', 'accounts.name as account_name', 'accounts.type', 'accounts.currency')
+        .sum({
+          debit: 'journal_entry_lines.debit',
+          credit: 'journal_entry_lines.credit',
+          foreign_debit: 'journal_entry_lines.foreign_debit',
+          foreign_credit: 'journal_entry_lines.foreign_credit'
+        })
+        .join('journal_entries', 'journal_entry_lines.journal_entry_id', 'journal_entries.id')
+        .join('accounts', 'journal_entry_lines.account_id', 'accounts.id')
+        .where('journal_entries.company_id', companyId)
+        .whereIn('journal_entries.status', [TransactionStatus.POSTED, TransactionStatus.REVERSED])
+        .where('journal_entries.entry_date', '<=', date)
+        .whereNot('accounts.currency', baseCurrency)
+        .whereNull('accounts.deleted_at')
+        .groupBy('accounts.id', 'accounts.account_number', 'accounts.name', 'accounts.type', 'accounts.currency')
+        .orderBy('accounts.account_number');
+
+      const balances: ForeignBalance[] = [];
+      const rates = new Map<string, number>();
+
+      for (const row of rows) {
+        const currency = String(row.currency).toUpperCase();
+        if (!rates.has(currency)) {
+          rates.set(currency, (await exchangeRateService.getRate(currency, baseCurrency, date)).rate);
+        }
+
+        const rate = rates.get(currency)!;
+        const foreignBalance = roundMoney(toAmount(row.foreign_debit) - toAmount(row.foreign_credit));
+        const carryingAmount = roundMoney(toAmount(row.debit) - toAmount(row.credit));
+        const revaluedAmount = roundMoney(foreignBalance * rate);
+
+        balances.push({
+          account_id: row.account_id,
+          account_number: row.account_number,
+          account_name: row.account_name,
+          type: row.type,
+          currency,
+          foreign_balance: foreignBalance,
+          carrying_amount: carryingAmount,
+          rate,
+          revalued_amount: revaluedAmount,
+          difference: roundMoney(revaluedAmount - carryingAmount)
+        });
+      }
+
+      return balances;
+    } catch (error) {
+      logger.error('Error fetching foreign currency balances', { error, companyId, asOf });
+      throw error;
+    }
+  }
+
+  /**
+   * Post unrealised FX gains/losses for open foreign balances, reversed on
+   * the following day so settlements are measured against the original rate
+   */
+  async revalue(companyId: string, data: RevaluationData, userId: string): Promise<RevaluationResult> {
+    try {
+      const db = getDatabase();
+      const date = toDateOnly(data.revaluation_date);
+
+      const result = await db.transaction(async (trx) => {
+        const gainLossAccountId = await financialSettingsService.requireAccount(
+          companyId,
+          'fx_unrealised_gain_loss_account_id',
+          trx
+        );
+
+        const existing = await trx('journal_entries')
+          .where('company_id', companyId)
+          .where('source_type', FX_REVALUATION_SOURCE_TYPE)
+          .where('entry_date', date)
+          .whereNull('reversal_of_id')
+          .first();
+        if (existing) {
+          throw new ConflictError(`Foreign balances were already revalued on ${date} (${existing.entry_number})`);
+        }
+
+        const balances = await this.getForeignBalances(companyId, date, trx);
+        const lines = buildRevaluationLines(balances, gainLossAccountId);
+
+        if (lines.length === 0) {
+          return { revaluation_date: date, balances, entry: null, reversal: null };
+        }
+
+        const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+          entry_date: date,
+          description: `FX revaluation ${date}`,
+          reference: `FXREV-${date}`,
+          source_type: FX_REVALUATION_SOURCE_TYPE,
+          lines
+        }, userId, trx);
+
+        let reversal: JournalEntryWithLines | null = null;
+        if (data.reverse_next_day !== false) {
+          reversal = await ledgerService.reverseJournalEntry(companyId, entry.id, {
+            reversal_date: addDays(date, 1),
+            description: `Reversal of FX revaluation ${date}`
+          }, userId, trx);
+        }
+
+        return { revaluation_date: date, balances, entry, reversal };
+      });
+
+      if (result.entry) {
+        await auditService.logUserAction({
+          user_id: userId,
+          action: 'FX_REVALUATION_POSTED',
+          resource_type: 'journal_entry',
+          resource_id: result.entry.id,
+          company_id: companyId,
+          details: {
+            revaluation_date: date,
+            entry_number: result.entry.entry_number,
+            accounts: result.balances.length
+          }
+        });
+      }
+
+      logger.info('Foreign balances revalued', {
+        companyId,
+        date,
+        entryId: result.entry?.id,
+        accounts: result.balances.length
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error revaluing foreign balances', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Settle part or all of a foreign receivable/payable and book the realised difference
+   */
+  async settle(
+    companyId: string,
+    data: SettlementData,
+    userId: string,
+    trx?: Knex.Transaction
+  ): Promise<{ entry: JournalEntryWithLines; realised: number }> {
+    try {
+      const db = trx || getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      if (!(data.foreign_amount > 0)) {
+        throw new ValidationError('Settlement amount must be greater than zero');
+      }
+
+      const accounts = await db('accounts')
+        .whereIn('id', [data.account_id, data.bank_account_id])
+        .where('company_id', companyId)
+        .whereNull('deleted_at');
+      const account = accounts.find((item: any) => item.id === data.account_id);
+      const bank = accounts.find((item: any) => item.id === data.bank_account_id);
+
+      if (!account || !bank) {
+        throw new NotFoundError('Account not found');
+      }
+
+      const currency = String(account.currency).toUpperCase();
+      if (currency === baseCurrency) {
+        throw new ValidationError(`Account ${account.account_number} is not a foreign-currency account`);
+      }
+
+      if (account.type !== AccountType.ASSET && account.type !== AccountType.LIABILITY) {
+        throw new ValidationError('Only receivable (asset) or payable (liability) balances can be settled');
+      }
+
+      const bankCurrency = String(bank.currency || baseCurrency).toUpperCase();
+      if (bankCurrency !== baseCurrency && bankCurrency !== currency) {
+        throw new ValidationError(`Bank account must be in ${baseCurrency} or ${currency}`);
+      }
+
+      const settlementRate = data.settlement_rate
+        ?? (await exchangeRateService.getRate(currency, baseCurrency, data.settlement_date)).rate;
+      const realisedAccountId = await financialSettingsService.requireAccount(
+        companyId,
+        'fx_realised_gain_loss_account_id',
+        trx
+      );
+
+      const { lines, realised } = buildSettlementLines({
+        account_id: account.id,
+        account_type: account.type,
+        bank_account_id: bank.id,
+        bank_is_foreign: bankCurrency === currency,
+        realised_account_id: realisedAccountId,
+        foreign_amount: data.foreign_amount,
+        original_rate: data.original_rate,
+        settlement_rate: settlementRate
+      });
+
+      const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+        entry_date: data.settlement_date,
+        description: data.description || `Settlement ${currency} ${data.foreign_amount.toFixed(2)}`,
+        reference: data.reference,
+        source_type: data.source_type || FX_SETTLEMENT_SOURCE_TYPE,
+        source_id: data.source_id,
+        currency,
+        exchange_rate: settlementRate,
+        lines
+      }, userId, trx);
+
+      logger.info('Foreign balance settled', {
+        companyId,
+        entryId: entry.id,
+        currency,
+        foreignAmount: data.foreign_amount,
+        realised
+      });
+
+      return { entry, realised };
+    } catch (error) {
+      logger.error('Error settling foreign balance', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Month-end job: revalue every company that opted in to automatic revaluation
+   */
+  async runScheduledRevaluation(date: Date | string): Promise<void> {
+    const db = getDatabase();
+    const settings = await db('financial_settings')
+      .where('fx_auto_revaluation', true)
+      .whereNotNull('fx_unrealised_gain_loss_account_id')
+      .whereNotNull('updated_by');
+
+    for (const row of settings) {
+      try {
+        // Postings are attributed to the user who enabled automatic revaluation
+        await this.revalue(row.company_id, { revaluation_date: date }, row.updated_by);
+      } catch (error) {
+        if (error instanceof ConflictError) continue;
+        logger.error('Scheduled FX revaluation failed', {
+          companyId: row.company_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+}
+
+export const fxService = new FxService();
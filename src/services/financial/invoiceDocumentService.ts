@@ -0,0 +1,364 @@
+import { getDatabase } from '../../database/connection';
+import { invoiceService, InvoiceWithItems } from './invoiceService';
+import { customerService, Customer } from './customerService';
+import { companyService, CompanyWithDepartments } from '../../core/company/companyService';
+import { emailService } from '../email';
+import { logger } from '../../utils/logger';
+import { formatMoney } from '../../utils/currencyUtils';
+import { renderTablePdf, PdfTableDocument } from '../../utils/pdfUtils';
+import { InvoiceStatus } from '../../types';
+import { ValidationError, NotFoundError, ConflictError } from '../../middleware/errorHandler';
+
+export interface InvoiceTemplate {
+  company_id: string;
+  document_title: string;
+  email_subject: string;
+  email_body: string;
+  payment_instructions: string | null;
+  footer_text: string | null;
+  updated_by?: string | null;
+  updated_at?: Date | null;
+}
+
+export type UpdateInvoiceTemplateData = Partial<Omit<InvoiceTemplate, 'company_id' | 'updated_by' | 'updated_at'>>;
+
+export interface EmailInvoiceData {
+  to?: string;
+  cc?: string;
+  subject?: string;
+  message?: string;
+}
+
+export interface RenderedInvoice {
+  content: Buffer;
+  content_type: string;
+  filename: string;
+}
+
+// Placeholders available in templates, e.g. "Invoice {{invoice_number}} from {{company_name}}"
+export const TEMPLATE_PLACEHOLDERS = [
+  'company_name',
+  'customer_name',
+  'invoice_number',
+  'issue_date',
+  'due_date',
+  'currency',
+  'total',
+  'balance_due',
+  'reference'
+] as const;
+
+export type TemplateValues = Record<typeof TEMPLATE_PLACEHOLDERS[number], string>;
+
+const DEFAULT_TEMPLATE: Omit<InvoiceTemplate, 'company_id'> = {
+  document_title: 'Tax Invoice',
+  email_subject: 'Invoice {{invoice_number}} from {{company_name}}',
+  email_body: 'Dear {{customer_name}},\n\nPlease find attached invoice {{invoice_number}} for {{currency}} {{total}}, due on {{due_date}}.\n\nKind regards,\n{{company_name}}',
+  payment_instructions: null,
+  footer_text: null,
+  updated_by: null,
+  updated_at: null
+};
+
+/**
+ * Substitute {{placeholder}} values; unknown placeholders are left as-is
+ */
+export const renderTemplate = (template: string, values: Partial<TemplateValues>): string => {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    const value = (values as Record<string, string | undefined>)[key];
+    return value !== undefined ? value : match;
+  });
+};
+
+/**
+ * Escape text for inclusion in an HTML email body
+ */
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Template values for an invoice
+ */
+export const buildTemplateValues = (
+  invoice: InvoiceWithItems,
+  company: Pick<CompanyWithDepartments, 'name'>
+): TemplateValues => ({
+  company_name: company.name,
+  customer_name: invoice.customer_name || '',
+  invoice_number: invoice.invoice_number,
+  issue_date: invoice.issue_date,
+  due_date: invoice.due_date,
+  currency: invoice.currency,
+  total: formatMoney(invoice.total),
+  balance_due: formatMoney(invoice.balance_due),
+  reference: invoice.reference || ''
+});
+
+const joinParts = (parts: Array<string | undefined | null>): string | null => parts.filter(Boolean).join(', ') || null;
+
+/**
+ * Company letterhead lines for customer-facing documents
+ */
+export const buildLetterhead = (company: Omit<CompanyWithDepartments, 'departments'>): string[] => [
+  company.name,
+  company.address_line_1,
+  company.address_line_2,
+  joinParts([company.city, company.state_province, company.postal_code]),
+  company.country,
+  joinParts([company.phone, company.email]),
+  company.registration_number ? `Reg. No: ${company.registration_number}` : null,
+  company.vat_number ? `VAT No: ${company.vat_number}` : null
+].filter((line): line is string => Boolean(line));
+
+/**
+ * Lay out an invoice as a PDF table document: letterhead, bill-to block,
+ * priced lines with totals, then payment instructions and footer
+ */
+export const buildInvoicePdfDocument = (
+  invoice: InvoiceWithItems,
+  company: Omit<CompanyWithDepartments, 'departments'>,
+  customer: Customer,
+  template: Omit<InvoiceTemplate, 'company_id'>
+): PdfTableDocument => {
+  const values = buildTemplateValues(invoice, company);
+  const letterhead = buildLetterhead(company);
+
+  const subtitle = [
+    `Invoice No: ${invoice.invoice_number}`,
+    `Issue date: ${invoice.issue_date}    Due date: ${invoice.due_date}`,
+    invoice.reference ? `Reference: ${invoice.reference}` : null,
+    '',
+    `Bill to: ${customer.name} (${customer.customer_code})`,
+    joinParts([customer.address_line_1, customer.address_line_2]),
+    joinParts([customer.city, customer.postal_code, customer.country]),
+    customer.vat_number ? `Customer VAT No: ${customer.vat_number}` : null
+  ].filter((line): line is string => line !== null);
+
+  const totalRow = (label: string, amount: number, bold = false) => ({
+    cells: ['', '', '', '', label, formatMoney(amount)],
+    bold
+  });
+
+  const rows = [
+    ...invoice.items.map(item => ({
+      cells: [
+        item.description,
+        String(item.quantity),
+        formatMoney(item.unit_price),
+        item.discount_percent ? `${item.discount_percent}%` : '',
+        `${item.tax_rate}%`,
+        formatMoney(item.line_subtotal)
+      ]
+    })),
+    { cells: ['', '', '', '', '', ''] },
+    totalRow('Subtotal', invoice.subtotal),
+    totalRow('VAT', invoice.tax_total),
+    totalRow(`Total ${invoice.currency}`, invoice.total, true)
+  ];
+
+  if (invoice.amount_paid > 0 || invoice.amount_credited > 0) {
+    if (invoice.amount_paid > 0) rows.push(totalRow('Paid', -invoice.amount_paid));
+    if (invoice.amount_credited > 0) rows.push(totalRow('Credited', -invoice.amount_credited));
+    rows.push(totalRow('Balance due', invoice.balance_due, true));
+  }
+
+  const footer = [
+    ...(template.payment_instructions ? renderTemplate(template.payment_instructions, values).split('\n') : []),
+    ...(invoice.notes ? ['', ...invoice.notes.split('\n')] : []),
+    ...(template.footer_text ? ['', ...renderTemplate(template.footer_text, values).split('\n')] : [])
+  ];
+
+  return {
+    title: renderTemplate(template.document_title, values),
+    letterhead,
+    subtitle,
+    columns: [
+      { label: 'Description', width: 4 },
+      { label: 'Qty', width: 0.8, align: 'right' },
+      { label: 'Unit price', width: 1.3, align: 'right' },
+      { label: 'Disc.', width: 0.8, align: 'right' },
+      { label: 'VAT', width: 0.8, align: 'right' },
+      { label: 'Amount', width: 1.4, align: 'right' }
+    ],
+    rows,
+    footer
+  };
+};
+
+export class InvoiceDocumentService {
+  /**
+   * Get the company's invoice template (defaults when none saved)
+   */
+  async getTemplate(companyId: string): Promise<InvoiceTemplate> {
+    try {
+      const db = getDatabase();
+      const row = await db('invoice_templates').where('company_id', companyId).first();
+
+      const template: InvoiceTemplate = { ...DEFAULT_TEMPLATE, company_id: companyId };
+      if (row) {
+        for (const key of Object.keys(DEFAULT_TEMPLATE) as Array<keyof typeof DEFAULT_TEMPLATE>) {
+          if (row[key] !== null && row[key] !== undefined) {
+            (template as any)[key] = row[key];
+          }
+        }
+      }
+
+      return template;
+    } catch (error) {
+      logger.error('Error fetching invoice template', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the company's invoice template; null resets a field to the default
+   */
+  async updateTemplate(
+    companyId: string,
+    data: UpdateInvoiceTemplateData,
+    updatedBy: string
+  ): Promise<InvoiceTemplate> {
+    try {
+      const db = getDatabase();
+
+      for (const [key, value] of Object.entries(data)) {
+        const unknown = typeof value === 'string'
+          ? Array.from(value.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+            .map(match => match[1])
+            .filter(name => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name))
+          : [];
+        if (unknown.length > 0) {
+          throw new ValidationError(`Unknown placeholder(s) in ${key}: ${unknown.join(', ')}`);
+        }
+      }
+
+      await db('invoice_templates')
+        .insert({ company_id: companyId, ...data, updated_by: updatedBy, updated_at: new Date() })
+        .onConflict('company_id')
+        .merge({ ...data, updated_by: updatedBy, updated_at: new Date() });
+
+      logger.info('Invoice template updated', { companyId, fields: Object.keys(data), updatedBy });
+
+      return this.getTemplate(companyId);
+    } catch (error) {
+      logger.error('Error updating invoice template', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Render an invoice to PDF with the company letterhead
+   */
+  async renderInvoicePdf(companyId: string, invoiceId: string): Promise<RenderedInvoice> {
+    try {
+      const { invoice, company, customer } = await this.loadInvoice(companyId, invoiceId);
+      const template = await this.getTemplate(companyId);
+
+      const content = await renderTablePdf(buildInvoicePdfDocument(invoice, company, customer, template));
+
+      return {
+        content,
+        content_type: 'application/pdf',
+        filename: `${invoice.invoice_number}.pdf`
+      };
+    } catch (error) {
+      logger.error('Error rendering invoice PDF', { error, companyId, invoiceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Email an issued invoice to the customer with the PDF attached; every
+   * attempt is recorded in the invoice history
+   */
+  async emailInvoice(
+    companyId: string,
+    invoiceId: string,
+    data: EmailInvoiceData,
+    userId: string
+  ): Promise<InvoiceWithItems> {
+    try {
+      const { invoice, company, customer } = await this.loadInvoice(companyId, invoiceId);
+
+      if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.CANCELLED) {
+        throw new ConflictError(`Only issued invoices can be emailed (status: ${invoice.status})`);
+      }
+
+      const recipient = data.to || customer.email;
+      if (!recipient) {
+        throw new ValidationError('Customer has no email address; provide a recipient');
+      }
+
+      const template = await this.getTemplate(companyId);
+      const values = buildTemplateValues(invoice, company);
+      const subject = renderTemplate(data.subject || template.email_subject, values);
+      const message = renderTemplate(data.message || template.email_body, values);
+      const pdf = await renderTablePdf(buildInvoicePdfDocument(invoice, company, customer, template));
+
+      try {
+        await emailService.sendInvoiceEmail(recipient, {
+          subject,
+          companyName: escapeHtml(company.name),
+          invoiceNumber: escapeHtml(invoice.invoice_number),
+          message: escapeHtml(message),
+          attachmentName: `${invoice.invoice_number}.pdf`,
+          attachmentContent: pdf,
+          cc: data.cc
+        });
+      } catch (error) {
+        await invoiceService.recordHistory(companyId, invoiceId, 'email_failed', userId, {
+          recipient,
+          details: { subject, error: error instanceof Error ? error.message : 'Unknown error' }
+        });
+        throw error;
+      }
+
+      await invoiceService.recordHistory(companyId, invoiceId, 'emailed', userId, {
+        recipient,
+        details: { subject, cc: data.cc || null, attachment: `${invoice.invoice_number}.pdf` }
+      });
+
+      logger.info('Invoice emailed', { invoiceId, companyId, recipient, userId });
+
+      return (await invoiceService.getInvoiceById(companyId, invoiceId))!;
+    } catch (error) {
+      logger.error('Error emailing invoice', { error, companyId, invoiceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Load an invoice with its company and customer
+   */
+  private async loadInvoice(companyId: string, invoiceId: string): Promise<{
+    invoice: InvoiceWithItems;
+    company: CompanyWithDepartments;
+    customer: Customer;
+  }> {
+    const invoice = await invoiceService.getInvoiceById(companyId, invoiceId);
+    if (!invoice) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    const company = await companyService.getCompanyById(companyId);
+    if (!company) {
+      throw new NotFoundError('Company not found');
+    }
+
+    // Customers are soft-deleted only when they have no invoices, so this is always found
+    const customer = await customerService.getCustomerById(companyId, invoice.customer_id);
+    if (!customer) {
+      throw new NotFoundError('Customer not found');
+    }
+
+    return { invoice, company, customer };
+  }
+}
+
+export const invoiceDocumentService = new InvoiceDocumentService();
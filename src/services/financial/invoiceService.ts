@@ -0,0 +1,1167 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { exchangeRateService } from '../exchangeRateService';
+import { ledgerService, JournalLineData } from './ledgerService';
+import { customerService, Customer } from './customerService';
+import { financialSettingsService } from './financialSettingsService';
+import { buildSettlementLines } from './fxService';
+import { vatService } from './vatService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount } from '../../utils/currencyUtils';
+import { toDateOnly, addDays } from '../../utils/dateUtils';
+import { AccountType, InvoiceStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface InvoiceItemData {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent?: number;
+  tax_code_id?: string | null;
+  tax_rate?: number;
+  revenue_account_id?: string;
+}
+
+export interface CreateInvoiceData {
+  customer_id: string;
+  issue_date: Date | string;
+  due_date?: Date | string;
+  currency?: string;
+  exchange_rate?: number;
+  reference?: string;
+  notes?: string;
+  items: InvoiceItemData[];
+}
+
+export type UpdateInvoiceData = Partial<Omit<CreateInvoiceData, 'customer_id'>>;
+
+export interface RecordPaymentData {
+  payment_date: Date | string;
+  amount: number;
+  bank_account_id: string;
+  exchange_rate?: number;
+  method?: string;
+  reference?: string;
+}
+
+export interface CreateCreditNoteData {
+  issue_date: Date | string;
+  reason: string;
+  items: InvoiceItemData[];
+}
+
+export interface CalculatedItem extends InvoiceItemData {
+  discount_percent: number;
+  tax_rate: number;
+  line_subtotal: number;
+  tax_amount: number;
+  line_total: number;
+}
+
+export interface InvoiceLineItem extends CalculatedItem {
+  id: string;
+  line_number: number;
+}
+
+export interface InvoicePayment {
+  id: string;
+  invoice_id: string;
+  payment_date: string;
+  amount: number;
+  exchange_rate: number;
+  realised_fx: number;
+  bank_account_id: string;
+  method?: string;
+  reference?: string;
+  journal_entry_id: string;
+  created_at: Date;
+}
+
+export interface CreditNote {
+  id: string;
+  invoice_id: string;
+  customer_id: string;
+  credit_note_number: string;
+  issue_date: string;
+  reason: string;
+  currency: string;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  journal_entry_id: string;
+  items: InvoiceLineItem[];
+  created_at: Date;
+}
+
+export type InvoiceHistoryAction =
+  | 'issued'
+  | 'emailed'
+  | 'email_failed'
+  | 'payment_recorded'
+  | 'credit_note_issued'
+  | 'cancelled'
+  | 'reminder_sent';
+
+export interface InvoiceHistoryEntry {
+  id: string;
+  invoice_id: string;
+  action: InvoiceHistoryAction;
+  recipient?: string | null;
+  details?: Record<string, any> | null;
+  created_by?: string | null;
+  created_at: Date;
+}
+
+export interface InvoiceWithItems {
+  id: string;
+  company_id: string;
+  customer_id: string;
+  customer_name?: string;
+  customer_code?: string;
+  invoice_number: string;
+  issue_date: string;
+  due_date: string;
+  currency: string;
+  exchange_rate: number;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  amount_paid: number;
+  amount_credited: number;
+  balance_due: number;
+  status: InvoiceStatus;
+  reference?: string;
+  notes?: string;
+  receivable_account_id?: string;
+  journal_entry_id?: string;
+  sent_at?: Date;
+  dunning_level: number;
+  last_reminder_at?: Date | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  items: InvoiceLineItem[];
+  payments?: InvoicePayment[];
+  credit_notes?: CreditNote[];
+  history?: InvoiceHistoryEntry[];
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus;
+  customer_id?: string;
+  start_date?: Date | string;
+  end_date?: Date | string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const INVOICE_SOURCE_TYPE = 'invoice';
+export const INVOICE_PAYMENT_SOURCE_TYPE = 'invoice_payment';
+export const CREDIT_NOTE_SOURCE_TYPE = 'credit_note';
+
+const OPEN_STATUSES = [InvoiceStatus.SENT, InvoiceStatus.OVERDUE];
+
+/**
+ * Price a line: discount first, then tax, each rounded to the cent per line
+ * (also used for purchase order and supplier bill lines)
+ */
+export const calculateInvoiceItem = <T extends InvoiceItemData>(item: T): T & CalculatedItem => {
+  const discountPercent = toAmount(item.discount_percent);
+  const taxRate = toAmount(item.tax_rate);
+  const lineSubtotal = roundMoney(item.quantity * item.unit_price * (1 - discountPercent / 100));
+  const taxAmount = roundMoney(lineSubtotal * taxRate / 100);
+
+  return {
+    ...item,
+    discount_percent: discountPercent,
+    tax_rate: taxRate,
+    line_subtotal: lineSubtotal,
+    tax_amount: taxAmount,
+    line_total: roundMoney(lineSubtotal + taxAmount)
+  };
+};
+
+/**
+ * Invoice totals from priced lines
+ */
+export const calculateInvoiceTotals = (items: CalculatedItem[]): { subtotal: number; tax_total: number; total: number } => {
+  const subtotal = sumMoney(items.map(item => item.line_subtotal));
+  const taxTotal = sumMoney(items.map(item => item.tax_amount));
+
+  return { subtotal, tax_total: taxTotal, total: roundMoney(subtotal + taxTotal) };
+};
+
+/**
+ * Ledger lines for an invoice (or, with reverse, a credit note) in the
+ * document currency: receivable against revenue per account and output VAT
+ */
+export const buildInvoicePostingLines = (params: {
+  receivable_account_id: string;
+  vat_output_account_id?: string | null;
+  default_revenue_account_id?: string | null;
+  items: CalculatedItem[];
+  description: string;
+  reverse?: boolean;
+}): JournalLineData[] => {
+  const revenueByAccount = new Map<string, number>();
+  for (const item of params.items) {
+    const accountId = item.revenue_account_id || params.default_revenue_account_id;
+    if (!accountId) {
+      throw new ValidationError('Every line needs a revenue account (or configure a default revenue account)');
+    }
+    revenueByAccount.set(accountId, roundMoney((revenueByAccount.get(accountId) || 0) + item.line_subtotal));
+  }
+
+  const totals = calculateInvoiceTotals(params.items);
+  if (totals.tax_total !== 0 && !params.vat_output_account_id) {
+    throw new ValidationError('Configure the VAT output account in financial settings first');
+  }
+
+  // Amounts are built as invoice-side (debit receivable, credit revenue/VAT) then flipped for credit notes
+  const side = (amount: number, isDebit: boolean): Pick<JournalLineData, 'foreign_debit' | 'foreign_credit'> =>
+    (isDebit !== Boolean(params.reverse))
+      ? { foreign_debit: amount, foreign_credit: 0 }
+      : { foreign_debit: 0, foreign_credit: amount };
+
+  const lines: JournalLineData[] = [
+    { account_id: params.receivable_account_id, description: params.description, ...side(totals.total, true) }
+  ];
+
+  for (const [accountId, amount] of revenueByAccount) {
+    if (amount === 0) continue;
+    lines.push({ account_id: accountId, description: params.description, ...side(amount, false) });
+  }
+
+  if (totals.tax_total !== 0) {
+    lines.push({ account_id: params.vat_output_account_id!, description: `VAT ${params.description}`, ...side(totals.tax_total, false) });
+  }
+
+  return lines;
+};
+
+export class InvoiceService {
+  /**
+   * Get invoices with filters and pagination
+   */
+  async getInvoices(companyId: string, filters: InvoiceFilters = {}): Promise<{
+    invoices: InvoiceWithItems[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('invoices')
+        .join('customers', 'invoices.customer_id', 'customers.id')
+        .where('invoices.company_id', companyId);
+
+      if (filters.status) {
+        query = query.where('invoices.status', filters.status);
+      }
+
+      if (filters.customer_id) {
+        query = query.where('invoices.customer_id', filters.customer_id);
+      }
+
+      if (filters.start_date) {
+        query = query.where('invoices.issue_date', '>=', toDateOnly(filters.start_date));
+      }
+
+      if (filters.end_date) {
+        query = query.where('invoices.issue_date', '<=', toDateOnly(filters.end_date));
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('invoices.invoice_number', 'ilike', search)
+            .orWhere('invoices.reference', 'ilike', search)
+            .orWhere('customers.name', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+
+      const rows = await query
+        .select('invoices.*', 'customers.name as customer_name', 'customers.customer_code')
+        .orderBy('invoices.issue_date', 'desc')
+        .orderBy('invoices.invoice_number', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      const items = await this.getItems(db, 'invoice_items', 'invoice_id', rows.map((row: any) => row.id));
+
+      return {
+        invoices: rows.map((row: any) => this.mapInvoice(row, items.filter(item => item.parent_id === row.id))),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching invoices', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get invoice with items, payments and credit notes
+   */
+  async getInvoiceById(
+    companyId: string,
+    invoiceId: string,
+    trx?: Knex.Transaction
+  ): Promise<InvoiceWithItems | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('invoices')
+        .select('invoices.*', 'customers.name as customer_name', 'customers.customer_code')
+        .join('customers', 'invoices.customer_id', 'customers.id')
+        .where('invoices.id', invoiceId)
+        .where('invoices.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const items = await this.getItems(db, 'invoice_items', 'invoice_id', [row.id]);
+      const invoice = this.mapInvoice(row, items);
+
+      const payments = await db('invoice_payments')
+        .where('invoice_id', invoiceId)
+        .orderBy('payment_date');
+      invoice.payments = payments.map((payment: any) => ({
+        ...payment,
+        payment_date: toDateOnly(payment.payment_date),
+        amount: toAmount(payment.amount),
+        exchange_rate: parseFloat(payment.exchange_rate),
+        realised_fx: toAmount(payment.realised_fx)
+      }));
+
+      const creditNotes = await db('credit_notes')
+        .where('invoice_id', invoiceId)
+        .orderBy('issue_date');
+      const creditItems = await this.getItems(db, 'credit_note_items', 'credit_note_id', creditNotes.map((note: any) => note.id));
+      invoice.credit_notes = creditNotes.map((note: any) => ({
+        ...note,
+        issue_date: toDateOnly(note.issue_date),
+        subtotal: toAmount(note.subtotal),
+        tax_total: toAmount(note.tax_total),
+        total: toAmount(note.total),
+        items: creditItems.filter(item => item.parent_id === note.id)
+      }));
+
+      invoice.history = await db('invoice_history')
+        .where('invoice_id', invoiceId)
+        .orderBy('created_at');
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error fetching invoice by ID', { error, companyId, invoiceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft invoice
+   */
+  async createInvoice(companyId: string, data: CreateInvoiceData, createdBy: string): Promise<InvoiceWithItems> {
+    try {
+      const db = getDatabase();
+      this.validateItems(data.items);
+
+      const customer = await customerService.getCustomerById(companyId, data.customer_id);
+      if (!customer) {
+        throw new NotFoundError('Customer not found');
+      }
+
+      if (!customer.is_active) {
+        throw new ValidationError('Customer is inactive');
+      }
+
+      const invoiceId = uuidv4();
+      const issueDate = toDateOnly(data.issue_date);
+      const dueDate = data.due_date ? toDateOnly(data.due_date) : addDays(issueDate, customer.payment_terms_days);
+      if (dueDate < issueDate) {
+        throw new ValidationError('Due date cannot be before the issue date');
+      }
+
+      await db.transaction(async (trx) => {
+        await this.assertRevenueAccounts(trx, companyId, data.items);
+
+        const invoiceNumber = await sequenceService.next(trx, companyId, 'invoice', { prefix: 'INV' });
+        const items = (await vatService.applyTaxCodes(trx, companyId, 'sales', issueDate, data.items)).map(calculateInvoiceItem);
+        const totals = calculateInvoiceTotals(items);
+
+        await trx('invoices').insert({
+          id: invoiceId,
+          company_id: companyId,
+          customer_id: customer.id,
+          invoice_number: invoiceNumber,
+          issue_date: issueDate,
+          due_date: dueDate,
+          currency: (data.currency || customer.currency).toUpperCase(),
+          exchange_rate: data.exchange_rate ?? 1,
+          ...totals,
+          balance_due: totals.total,
+          status: InvoiceStatus.DRAFT,
+          reference: data.reference,
+          notes: data.notes,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        await this.insertItems(trx, 'invoice_items', 'invoice_id', invoiceId, items);
+      });
+
+      const invoice = await this.getInvoiceById(companyId, invoiceId);
+      if (!invoice) {
+        throw new Error('Failed to create invoice');
+      }
+
+      logger.info('Invoice created successfully', {
+        invoiceId,
+        invoiceNumber: invoice.invoice_number,
+        companyId,
+        createdBy
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error creating invoice', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft invoice (items are replaced when given)
+   */
+  async updateInvoice(
+    companyId: string,
+    invoiceId: string,
+    data: UpdateInvoiceData,
+    updatedBy: string
+  ): Promise<InvoiceWithItems> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const invoice = await this.lockInvoice(trx, companyId, invoiceId);
+        if (invoice.status !== InvoiceStatus.DRAFT) {
+          throw new ConflictError('Only draft invoices can be edited');
+        }
+
+        const updateData: Record<string, any> = {
+          updated_by: updatedBy,
+          updated_at: new Date()
+        };
+
+        if (data.issue_date !== undefined) updateData.issue_date = toDateOnly(data.issue_date);
+        if (data.due_date !== undefined) updateData.due_date = toDateOnly(data.due_date);
+        if (data.currency !== undefined) updateData.currency = data.currency.toUpperCase();
+        if (data.exchange_rate !== undefined) updateData.exchange_rate = data.exchange_rate;
+        if (data.reference !== undefined) updateData.reference = data.reference;
+        if (data.notes !== undefined) updateData.notes = data.notes;
+
+        const issueDate = updateData.issue_date || toDateOnly(invoice.issue_date);
+        const dueDate = updateData.due_date || toDateOnly(invoice.due_date);
+        if (dueDate < issueDate) {
+          throw new ValidationError('Due date cannot be before the issue date');
+        }
+
+        // A new issue date can change the rate a tax code resolves to
+        const itemData = data.items
+          ?? (data.issue_date !== undefined ? await this.getItems(trx, 'invoice_items', 'invoice_id', [invoiceId]) : undefined);
+
+        if (itemData) {
+          this.validateItems(itemData);
+          await this.assertRevenueAccounts(trx, companyId, itemData);
+
+          const items = (await vatService.applyTaxCodes(trx, companyId, 'sales', issueDate, itemData)).map(calculateInvoiceItem);
+          const totals = calculateInvoiceTotals(items);
+          Object.assign(updateData, totals, { balance_due: totals.total });
+
+          await trx('invoice_items').where('invoice_id', invoiceId).del();
+          await this.insertItems(trx, 'invoice_items', 'invoice_id', invoiceId, items);
+        }
+
+        await trx('invoices').where('id', invoiceId).update(updateData);
+      });
+
+      const invoice = await this.getInvoiceById(companyId, invoiceId);
+      if (!invoice) {
+        throw new Error('Failed to update invoice');
+      }
+
+      logger.info('Invoice updated successfully', { invoiceId, companyId, updatedBy });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error updating invoice', { error, companyId, invoiceId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft invoice
+   */
+  async deleteInvoice(companyId: string, invoiceId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const invoice = await this.lockInvoice(trx, companyId, invoiceId);
+        if (invoice.status !== InvoiceStatus.DRAFT) {
+          throw new ConflictError('Only draft invoices can be deleted; cancel it instead');
+        }
+
+        await trx('invoices').where('id', invoiceId).del();
+      });
+
+      logger.info('Invoice deleted successfully', { invoiceId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting invoice', { error, companyId, invoiceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a draft invoice: post it to the ledger and mark it sent
+   */
+  async sendInvoice(companyId: string, invoiceId: string, userId: string): Promise<InvoiceWithItems> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      await db.transaction(async (trx) => {
+        const invoice = await this.lockInvoice(trx, companyId, invoiceId);
+        if (invoice.status !== InvoiceStatus.DRAFT) {
+          throw new ConflictError(`Only draft invoices can be sent (status: ${invoice.status})`);
+        }
+
+        if (!(toAmount(invoice.total) > 0)) {
+          throw new ValidationError('Invoice total must be greater than zero');
+        }
+
+        const customer = await customerService.getCustomerById(companyId, invoice.customer_id, trx);
+        const settings = await financialSettingsService.getSettings(companyId, trx);
+        const receivableAccountId = await this.resolveReceivableAccount(companyId, customer!, trx);
+
+        const currency = invoice.currency.toUpperCase();
+        const exchangeRate = currency === baseCurrency
+          ? 1
+          : parseFloat(invoice.exchange_rate) !== 1
+            ? parseFloat(invoice.exchange_rate)
+            : (await exchangeRateService.getRate(currency, baseCurrency, invoice.issue_date)).rate;
+
+        const items = await this.getItems(trx, 'invoice_items', 'invoice_id', [invoiceId]);
+
+        const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+          entry_date: toDateOnly(invoice.issue_date),
+          description: `Invoice ${invoice.invoice_number} - ${customer!.name}`,
+          reference: invoice.invoice_number,
+          source_type: INVOICE_SOURCE_TYPE,
+          source_id: invoiceId,
+          currency,
+          exchange_rate: exchangeRate,
+          lines: buildInvoicePostingLines({
+            receivable_account_id: receivableAccountId,
+            vat_output_account_id: settings.vat_output_account_id,
+            default_revenue_account_id: settings.default_revenue_account_id,
+            items,
+            description: `Invoice ${invoice.invoice_number}`
+          })
+        }, userId, trx);
+
+        const vatEntries = await vatService.calculateDocumentTax(trx, companyId, 'sales', invoice.issue_date, items);
+        await vatService.recordDocumentTax(trx, companyId, vatEntries, {
+          source_type: INVOICE_SOURCE_TYPE,
+          source_id: invoiceId,
+          journal_entry_id: entry.id,
+          tax_point: invoice.issue_date,
+          exchange_rate: exchangeRate
+        });
+
+        await trx('invoices')
+          .where('id', invoiceId)
+          .update({
+            status: InvoiceStatus.SENT,
+            exchange_rate: exchangeRate,
+            receivable_account_id: receivableAccountId,
+            journal_entry_id: entry.id,
+            sent_at: new Date(),
+            sent_by: userId,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+
+        await this.recordHistory(companyId, invoiceId, 'issued', userId, {
+          details: { journal_entry_id: entry.id, exchange_rate: exchangeRate }
+        }, trx);
+      });
+
+      const invoice = await this.getInvoiceById(companyId, invoiceId);
+      if (!invoice) {
+        throw new Error('Failed to send invoice');
+      }
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'INVOICE_SENT',
+        resource_type: 'invoice',
+        resource_id: invoiceId,
+        company_id: companyId,
+        details: { invoice_number: invoice.invoice_number, total: invoice.total, currency: invoice.currency }
+      });
+
+      logger.info('Invoice sent successfully', {
+        invoiceId,
+        invoiceNumber: invoice.invoice_number,
+        companyId,
+        userId
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error sending invoice', { error, companyId, invoiceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a customer payment against an open invoice
+   */
+  async recordPayment(
+    companyId: string,
+    invoiceId: string,
+    data: RecordPaymentData,
+    userId: string
+  ): Promise<InvoiceWithItems> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      await db.transaction(async (trx) => {
+        const invoice = await this.lockInvoice(trx, companyId, invoiceId);
+        if (!OPEN_STATUSES.includes(invoice.status)) {
+          throw new ConflictError(`Payments can only be recorded on open invoices (status: ${invoice.status})`);
+        }
+
+        const amount = roundMoney(data.amount);
+        const balanceDue = toAmount(invoice.balance_due);
+        if (!(amount > 0)) {
+          throw new ValidationError('Payment amount must be greater than zero');
+        }
+        if (amount > balanceDue) {
+          throw new ValidationError(`Payment exceeds the balance due (${balanceDue.toFixed(2)})`);
+        }
+
+        const bank = await trx('accounts')
+          .where('id', data.bank_account_id)
+          .where('company_id', companyId)
+          .whereNull('deleted_at')
+          .first();
+        if (!bank || bank.type !== AccountType.ASSET) {
+          throw new ValidationError('Bank account must be an asset account of this company');
+        }
+
+        const currency = invoice.currency.toUpperCase();
+        const isForeign = currency !== baseCurrency;
+        const paymentRate = !isForeign
+          ? 1
+          : data.exchange_rate ?? (await exchangeRateService.getRate(currency, baseCurrency, data.payment_date)).rate;
+        const realisedAccountId = isForeign
+          ? await financialSettingsService.requireAccount(companyId, 'fx_realised_gain_loss_account_id', trx)
+          : '';
+
+        const { lines, realised } = buildSettlementLines({
+          account_id: invoice.receivable_account_id,
+          account_type: AccountType.ASSET,
+          bank_account_id: bank.id,
+          bank_is_foreign: isForeign && bank.currency === currency,
+          realised_account_id: realisedAccountId,
+          foreign_amount: amount,
+          original_rate: parseFloat(invoice.exchange_rate),
+          settlement_rate: paymentRate
+        });
+
+        const paymentId = uuidv4();
+        const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+          entry_date: toDateOnly(data.payment_date),
+          description: `Payment for invoice ${invoice.invoice_number}`,
+          reference: data.reference || invoice.invoice_number,
+          source_type: INVOICE_PAYMENT_SOURCE_TYPE,
+          source_id: paymentId,
+          currency,
+          exchange_rate: paymentRate,
+          lines
+        }, userId, trx);
+
+        await trx('invoice_payments').insert({
+          id: paymentId,
+          company_id: companyId,
+          invoice_id: invoiceId,
+          payment_date: toDateOnly(data.payment_date),
+          amount,
+          exchange_rate: paymentRate,
+          realised_fx: realised,
+          bank_account_id: bank.id,
+          method: data.method,
+          reference: data.reference,
+          journal_entry_id: entry.id,
+          created_by: userId
+        });
+
+        const newBalance = roundMoney(balanceDue - amount);
+        await trx('invoices')
+          .where('id', invoiceId)
+          .update({
+            amount_paid: roundMoney(toAmount(invoice.amount_paid) + amount),
+            balance_due: newBalance,
+            status: newBalance === 0 ? InvoiceStatus.PAID : invoice.status,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+
+        await this.recordHistory(companyId, invoiceId, 'payment_recorded', userId, {
+          details: { payment_id: paymentId, amount, realised_fx: realised }
+        }, trx);
+      });
+
+      const invoice = await this.getInvoiceById(companyId, invoiceId);
+      if (!invoice) {
+        throw new Error('Failed to record payment');
+      }
+
+      logger.info('Invoice payment recorded', {
+        invoiceId,
+        amount: data.amount,
+        balanceDue: invoice.balance_due,
+        companyId,
+        userId
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error recording invoice payment', { error, companyId, invoiceId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a credit note against an open invoice's balance
+   */
+  async createCreditNote(
+    companyId: string,
+    invoiceId: string,
+    data: CreateCreditNoteData,
+    userId: string
+  ): Promise<InvoiceWithItems> {
+    try {
+      const db = getDatabase();
+      this.validateItems(data.items);
+
+      if (!data.reason || data.reason.trim().length === 0) {
+        throw new ValidationError('A reason is required for a credit note');
+      }
+
+      await db.transaction(async (trx) => {
+        const invoice = await this.lockInvoice(trx, companyId, invoiceId);
+        if (!OPEN_STATUSES.includes(invoice.status)) {
+          throw new ConflictError(`Credit notes can only be issued on open invoices (status: ${invoice.status})`);
+        }
+
+        await this.assertRevenueAccounts(trx, companyId, data.items);
+
+        const items = (await vatService.applyTaxCodes(trx, companyId, 'sales', data.issue_date, data.items)).map(calculateInvoiceItem);
+        const totals = calculateInvoiceTotals(items);
+        const balanceDue = toAmount(invoice.balance_due);
+
+        if (!(totals.total > 0)) {
+          throw new ValidationError('Credit note total must be greater than zero');
+        }
+        if (totals.total > balanceDue) {
+          throw new ValidationError(`Credit note exceeds the balance due (${balanceDue.toFixed(2)})`);
+        }
+
+        const settings = await financialSettingsService.getSettings(companyId, trx);
+        const creditNoteId = uuidv4();
+        const creditNoteNumber = await sequenceService.next(trx, companyId, 'credit_note', { prefix: 'CN' });
+
+        // Credited at the invoice's rate so the receivable clears at its carrying amount
+        const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+          entry_date: toDateOnly(data.issue_date),
+          description: `Credit note ${creditNoteNumber} for invoice ${invoice.invoice_number}`,
+          reference: creditNoteNumber,
+          source_type: CREDIT_NOTE_SOURCE_TYPE,
+          source_id: creditNoteId,
+          currency: invoice.currency,
+          exchange_rate: parseFloat(invoice.exchange_rate),
+          lines: buildInvoicePostingLines({
+            receivable_account_id: invoice.receivable_account_id,
+            vat_output_account_id: settings.vat_output_account_id,
+            default_revenue_account_id: settings.default_revenue_account_id,
+            items,
+            description: `Credit note ${creditNoteNumber}`,
+            reverse: true
+          })
+        }, userId, trx);
+
+        const vatEntries = await vatService.calculateDocumentTax(trx, companyId, 'sales', data.issue_date, items);
+        await vatService.recordDocumentTax(trx, companyId, vatEntries, {
+          source_type: CREDIT_NOTE_SOURCE_TYPE,
+          source_id: creditNoteId,
+          journal_entry_id: entry.id,
+          tax_point: data.issue_date,
+          exchange_rate: parseFloat(invoice.exchange_rate),
+          sign: -1
+        });
+
+        await trx('credit_notes').insert({
+          id: creditNoteId,
+          company_id: companyId,
+          invoice_id: invoiceId,
+          customer_id: invoice.customer_id,
+          credit_note_number: creditNoteNumber,
+          issue_date: toDateOnly(data.issue_date),
+          reason: data.reason.trim(),
+          currency: invoice.currency,
+          ...totals,
+          journal_entry_id: entry.id,
+          created_by: userId
+        });
+
+        await this.insertItems(trx, 'credit_note_items', 'credit_note_id', creditNoteId, items);
+
+        const newBalance = roundMoney(balanceDue - totals.total);
+        const amountPaid = toAmount(invoice.amount_paid);
+        await trx('invoices')
+          .where('id', invoiceId)
+          .update({
+            amount_credited: roundMoney(toAmount(invoice.amount_credited) + totals.total),
+            balance_due: newBalance,
+            // Fully credited without any payment is effectively a cancellation
+            status: newBalance > 0
+              ? invoice.status
+              : amountPaid > 0 ? InvoiceStatus.PAID : InvoiceStatus.CANCELLED,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+
+        await this.recordHistory(companyId, invoiceId, 'credit_note_issued', userId, {
+          details: { credit_note_id: creditNoteId, credit_note_number: creditNoteNumber, total: totals.total }
+        }, trx);
+      });
+
+      const invoice = await this.getInvoiceById(companyId, invoiceId);
+      if (!invoice) {
+        throw new Error('Failed to create credit note');
+      }
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'CREDIT_NOTE_ISSUED',
+        resource_type: 'invoice',
+        resource_id: invoiceId,
+        company_id: companyId,
+        details: { invoice_number: invoice.invoice_number, reason: data.reason }
+      });
+
+      logger.info('Credit note issued', { invoiceId, companyId, userId });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error creating credit note', { error, companyId, invoiceId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a draft invoice, or a sent one without payments or credits (its posting is reversed)
+   */
+  async cancelInvoice(companyId: string, invoiceId: string, userId: string, reason?: string): Promise<InvoiceWithItems> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const invoice = await this.lockInvoice(trx, companyId, invoiceId);
+
+        if (invoice.status !== InvoiceStatus.DRAFT && !OPEN_STATUSES.includes(invoice.status)) {
+          throw new ConflictError(`Invoice cannot be cancelled (status: ${invoice.status})`);
+        }
+
+        if (toAmount(invoice.amount_paid) > 0 || toAmount(invoice.amount_credited) > 0) {
+          throw new ConflictError('Invoice has payments or credit notes; issue a credit note for the balance instead');
+        }
+
+        if (invoice.journal_entry_id) {
+          const reversal = await ledgerService.reverseJournalEntry(companyId, invoice.journal_entry_id, {
+            description: `Cancellation of invoice ${invoice.invoice_number}${reason ? `: ${reason}` : ''}`
+          }, userId, trx);
+
+          await vatService.reverseDocumentTax(trx, companyId, INVOICE_SOURCE_TYPE, invoiceId, {
+            journal_entry_id: reversal.id,
+            tax_point: reversal.entry_date
+          });
+        }
+
+        await trx('invoices')
+          .where('id', invoiceId)
+          .update({
+            status: InvoiceStatus.CANCELLED,
+            balance_due: 0,
+            cancelled_at: new Date(),
+            updated_by: userId,
+            updated_at: new Date()
+          });
+
+        await this.recordHistory(companyId, invoiceId, 'cancelled', userId, {
+          details: reason ? { reason } : null
+        }, trx);
+      });
+
+      const invoice = await this.getInvoiceById(companyId, invoiceId);
+      if (!invoice) {
+        throw new Error('Failed to cancel invoice');
+      }
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'INVOICE_CANCELLED',
+        resource_type: 'invoice',
+        resource_id: invoiceId,
+        company_id: companyId,
+        details: { invoice_number: invoice.invoice_number, reason }
+      });
+
+      logger.info('Invoice cancelled', { invoiceId, companyId, userId });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error cancelling invoice', { error, companyId, invoiceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Flag sent invoices past their due date as overdue (all companies)
+   */
+  async markOverdueInvoices(asOf: Date | string = new Date()): Promise<number> {
+    try {
+      const db = getDatabase();
+      const date = toDateOnly(asOf);
+
+      const updated = await db('invoices')
+        .where('status', InvoiceStatus.SENT)
+        .where('due_date', '<', date)
+        .where('balance_due', '>', 0)
+        .update({ status: InvoiceStatus.OVERDUE, updated_at: new Date() });
+
+      logger.info('Overdue invoices flagged', { date, count: updated });
+
+      return updated;
+    } catch (error) {
+      logger.error('Error flagging overdue invoices', { error, asOf });
+      throw error;
+    }
+  }
+
+  /**
+   * Append an entry to an invoice's history
+   */
+  async recordHistory(
+    companyId: string,
+    invoiceId: string,
+    action: InvoiceHistoryAction,
+    userId: string | null,
+    data: { recipient?: string; details?: Record<string, any> | null } = {},
+    trx?: Knex.Transaction
+  ): Promise<void> {
+    try {
+      const db = trx || getDatabase();
+
+      await db('invoice_history').insert({
+        company_id: companyId,
+        invoice_id: invoiceId,
+        action,
+        recipient: data.recipient,
+        details: data.details ? JSON.stringify(data.details) : null,
+        created_by: userId
+      });
+    } catch (error) {
+      logger.error('Error recording invoice history', { error, companyId, invoiceId, action });
+      throw error;
+    }
+  }
+
+  /**
+   * Customer receivable account, falling back to the AR control account
+   */
+  private async resolveReceivableAccount(
+    companyId: string,
+    customer: Customer,
+    trx: Knex.Transaction
+  ): Promise<string> {
+    if (customer.receivable_account_id) {
+      return customer.receivable_account_id;
+    }
+
+    return financialSettingsService.requireAccount(companyId, 'ar_control_account_id', trx);
+  }
+
+  /**
+   * Lock an invoice row for update
+   */
+  private async lockInvoice(trx: Knex.Transaction, companyId: string, invoiceId: string): Promise<any> {
+    const invoice = await trx('invoices')
+      .where('id', invoiceId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Revenue accounts on lines must be revenue accounts of this company
+   */
+  private async assertRevenueAccounts(trx: Knex.Transaction, companyId: string, items: InvoiceItemData[]): Promise<void> {
+    const accountIds = Array.from(new Set(items.map(item => item.revenue_account_id).filter(Boolean))) as string[];
+    if (accountIds.length === 0) return;
+
+    const accounts = await trx('accounts')
+      .whereIn('id', accountIds)
+      .where('company_id', companyId)
+      .where('type', AccountType.REVENUE)
+      .whereNull('deleted_at');
+
+    if (accounts.length !== accountIds.length) {
+      throw new ValidationError('Line revenue accounts must be revenue accounts of this company');
+    }
+  }
+
+  /**
+   * Insert priced lines for an invoice or credit note
+   */
+  private async insertItems(
+    trx: Knex.Transaction,
+    table: 'invoice_items' | 'credit_note_items',
+    parentColumn: 'invoice_id' | 'credit_note_id',
+    parentId: string,
+    items: CalculatedItem[]
+  ): Promise<void> {
+    await trx(table).insert(items.map((item, index) => ({
+      id: uuidv4(),
+      [parentColumn]: parentId,
+      line_number: index + 1,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      discount_percent: item.discount_percent,
+      tax_code_id: item.tax_code_id || null,
+      tax_rate: item.tax_rate,
+      line_subtotal: item.line_subtotal,
+      tax_amount: item.tax_amount,
+      line_total: item.line_total,
+      revenue_account_id: item.revenue_account_id
+    })));
+  }
+
+  /**
+   * Load lines for a set of invoices or credit notes
+   */
+  private async getItems(
+    db: Knex | Knex.Transaction,
+    table: 'invoice_items' | 'credit_note_items',
+    parentColumn: 'invoice_id' | 'credit_note_id',
+    parentIds: string[]
+  ): Promise<Array<InvoiceLineItem & { parent_id: string }>> {
+    if (parentIds.length === 0) return [];
+
+    const rows = await db(table)
+      .whereIn(parentColumn, parentIds)
+      .orderBy('line_number');
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      parent_id: row[parentColumn],
+      line_number: row.line_number,
+      description: row.description,
+      quantity: parseFloat(row.quantity),
+      unit_price: parseFloat(row.unit_price),
+      discount_percent: toAmount(row.discount_percent),
+      tax_code_id: row.tax_code_id,
+      tax_rate: parseFloat(row.tax_rate),
+      line_subtotal: toAmount(row.line_subtotal),
+      tax_amount: toAmount(row.tax_amount),
+      line_total: toAmount(row.line_total),
+      revenue_account_id: row.revenue_account_id
+    }));
+  }
+
+  /**
+   * Map an invoice row and its lines
+   */
+  private mapInvoice(row: any, items: Array<InvoiceLineItem & { parent_id?: string }>): InvoiceWithItems {
+    return {
+      ...row,
+      issue_date: toDateOnly(row.issue_date),
+      due_date: toDateOnly(row.due_date),
+      exchange_rate: parseFloat(row.exchange_rate),
+      subtotal: toAmount(row.subtotal),
+      tax_total: toAmount(row.tax_total),
+      total: toAmount(row.total),
+      amount_paid: toAmount(row.amount_paid),
+      amount_credited: toAmount(row.amount_credited),
+      balance_due: toAmount(row.balance_due),
+      items: items.map(({ parent_id, ...item }) => item)
+    };
+  }
+
+  /**
+   * Validate invoice lines
+   */
+  private validateItems(items: InvoiceItemData[]): void {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ValidationError('At least one line item is required');
+    }
+
+    items.forEach((item, index) => {
+      if (!item.description || item.description.trim().length === 0) {
+        throw new ValidationError(`Line ${index + 1}: description is required`);
+      }
+
+      if (!(item.quantity > 0)) {
+        throw new ValidationError(`Line ${index + 1}: quantity must be greater than zero`);
+      }
+
+      if (item.unit_price < 0) {
+        throw new ValidationError(`Line ${index + 1}: unit price cannot be negative`);
+      }
+
+      if (item.tax_rate !== undefined && (item.tax_rate < 0 || item.tax_rate > 100)) {
+        throw new ValidationError(`Line ${index + 1}: tax rate must be between 0 and 100`);
+      }
+    });
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,1001 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { exchangeRateService } from '../exchangeRateService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount, amountsEqual } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { AccountType, TransactionStatus, FiscalPeriodStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+/**
+ * debit/credit are base-currency amounts. On a foreign-currency entry,
+ * foreign_debit/foreign_credit carry the transaction-currency amount and
+ * the base amount is derived from the entry's exchange rate when omitted.
+ */
+export interface JournalLineData {
+  account_id: string;
+  description?: string;
+  debit?: number;
+  credit?: number;
+  foreign_debit?: number;
+  foreign_credit?: number;
+  cost_centre_id?: string | null;
+  // Group company on the other side; defaults from an intercompany account
+  counterparty_company_id?: string | null;
+}
+
+export interface CreateJournalEntryData {
+  entry_date: Date | string;
+  description: string;
+  reference?: string;
+  source_type?: string;
+  source_id?: string;
+  currency?: string;
+  exchange_rate?: number;
+  lines: JournalLineData[];
+}
+
+export interface ReverseJournalEntryData {
+  reversal_date?: Date | string;
+  description?: string;
+}
+
+export interface JournalEntryLine {
+  id: string;
+  journal_entry_id: string;
+  line_number: number;
+  account_id: string;
+  account_number?: string;
+  account_name?: string;
+  description?: string;
+  debit: number;
+  credit: number;
+  foreign_debit: number;
+  foreign_credit: number;
+  cost_centre_id?: string | null;
+  counterparty_company_id?: string | null;
+}
+
+export interface JournalEntryWithLines {
+  id: string;
+  company_id: string;
+  entry_number: string;
+  entry_date: Date;
+  description: string;
+  reference?: string;
+  status: TransactionStatus;
+  currency: string;
+  exchange_rate: number;
+  source_type?: string;
+  source_id?: string;
+  reversal_of_id?: string;
+  reversed_by_id?: string;
+  posted_at?: Date;
+  posted_by?: string;
+  created_by: string;
+  updated_by?: string;
+  created_at: Date;
+  updated_at: Date;
+  total_debit: number;
+  total_credit: number;
+  lines: JournalEntryLine[];
+}
+
+export interface AccountMovement {
+  account_id: string;
+  account_number: string;
+  account_name: string;
+  type: AccountType;
+  category: string;
+  parent_account_id?: string | null;
+  debit: number;
+  credit: number;
+}
+
+export interface MovementFilters {
+  start_date?: Date | string;
+  end_date: Date | string;
+  account_types?: AccountType[];
+  exclude_source_types?: string[];
+  // Only lines tagged as intercompany with one of these companies
+  counterparty_company_ids?: string[];
+}
+
+export interface JournalEntryFilters {
+  status?: TransactionStatus;
+  start_date?: Date | string;
+  end_date?: Date | string;
+  account_id?: string;
+  source_type?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Called inside the posting transaction once an entry is posted
+ */
+export type PostingListener = (
+  trx: Knex.Transaction,
+  companyId: string,
+  entryId: string,
+  postedBy: string
+) => Promise<void>;
+
+const DEBIT_NORMAL_TYPES: string[] = [AccountType.ASSET, AccountType.EXPENSE];
+
+// Entries that adjust only the base-currency value of foreign-currency accounts
+export const FX_REVALUATION_SOURCE_TYPE = 'fx_revaluation';
+
+/**
+ * Signed effect of a debit/credit pair on an account balance.
+ *
+ * Balances are kept in the account's natural sign: assets and expenses grow
+ * with debits, liabilities, equity and revenue grow with credits.
+ */
+export const balanceChange = (accountType: string, debit: number, credit: number): number => {
+  return DEBIT_NORMAL_TYPES.includes(accountType)
+    ? roundMoney(debit - credit)
+    : roundMoney(credit - debit);
+};
+
+/**
+ * Fill in base-currency amounts for lines given in the transaction currency.
+ * Rounding can leave the converted base amounts a few cents out of balance;
+ * the difference is absorbed by the largest converted line.
+ */
+export const convertLinesToBase = (lines: JournalLineData[], rate: number): JournalLineData[] => {
+  const converted = lines.map(line => {
+    const foreignDebit = toAmount(line.foreign_debit);
+    const foreignCredit = toAmount(line.foreign_credit);
+    const hasBase = toAmount(line.debit) > 0 || toAmount(line.credit) > 0;
+
+    if (hasBase || (foreignDebit === 0 && foreignCredit === 0)) {
+      return { line: { ...line }, converted: false };
+    }
+
+    return {
+      line: {
+        ...line,
+        debit: roundMoney(foreignDebit * rate),
+        credit: roundMoney(foreignCredit * rate)
+      },
+      converted: true
+    };
+  });
+
+  const result = converted.map(item => item.line);
+  const difference = roundMoney(sumMoney(result.map(line => line.debit)) - sumMoney(result.map(line => line.credit)));
+  const foreignBalanced = amountsEqual(
+    sumMoney(lines.map(line => line.foreign_debit)),
+    sumMoney(lines.map(line => line.foreign_credit))
+  );
+  const convertedCount = converted.filter(item => item.converted).length;
+
+  if (difference !== 0 && foreignBalanced && Math.abs(difference) <= 0.01 * convertedCount) {
+    const target = converted
+      .filter(item => item.converted)
+      .map(item => item.line)
+      .reduce((largest, line) =>
+        Math.max(toAmount(line.debit), toAmount(line.credit)) > Math.max(toAmount(largest.debit), toAmount(largest.credit))
+          ? line
+          : largest
+      );
+
+    if (toAmount(target.debit) > 0) {
+      target.debit = roundMoney(toAmount(target.debit) - difference);
+    } else {
+      target.credit = roundMoney(toAmount(target.credit) + difference);
+    }
+  }
+
+  return result;
+};
+
+export class LedgerService {
+  private postingListeners: PostingListener[] = [];
+
+  /**
+   * Register a listener run after every posting (including sub-ledger postings and reversals)
+   */
+  onEntryPosted(listener: PostingListener): void {
+    this.postingListeners.push(listener);
+  }
+
+  /**
+   * Get journal entries with filters and pagination
+   */
+  async getJournalEntries(
+    companyId: string,
+    filters: JournalEntryFilters = {}
+  ): Promise<{
+    entries: JournalEntryWithLines[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      // Build query
+      let query = db('journal_entries').where('journal_entries.company_id', companyId);
+
+      // Apply filters
+      if (filters.status) {
+        query = query.where('journal_entries.status', filters.status);
+      }
+
+      if (filters.start_date) {
+        query = query.where('journal_entries.entry_date', '>=', filters.start_date);
+      }
+
+      if (filters.end_date) {
+        query = query.where('journal_entries.entry_date', '<=', filters.end_date);
+      }
+
+      if (filters.source_type) {
+        query = query.where('journal_entries.source_type', filters.source_type);
+      }
+
+      if (filters.account_id) {
+        query = query.whereExists(
+          db('journal_entry_lines')
+            .whereRaw('journal_entry_lines.journal_entry_id = journal_entries.id')
+            .where('journal_entry_lines.account_id', filters.account_id)
+        );
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('journal_entries.entry_number', 'ilike', search)
+            .orWhere('journal_entries.description', 'ilike', search)
+            .orWhere('journal_entries.reference', 'ilike', search);
+        });
+      }
+
+      // Get total count
+      const [{ count }] = await query.clone().count('* as count');
+
+      // Get paginated results
+      const rows = await query
+        .select('journal_entries.*')
+        .orderBy('journal_entries.entry_date', 'desc')
+        .orderBy('journal_entries.entry_number', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      const lines = await this.getLinesForEntries(db, rows.map((row: any) => row.id));
+      const entries = rows.map((row: any) => this.mapEntry(row, lines.filter(line => line.journal_entry_id === row.id)));
+
+      return {
+        entries,
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching journal entries', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single journal entry with its lines
+   */
+  async getJournalEntryById(
+    companyId: string,
+    entryId: string,
+    trx?: Knex.Transaction
+  ): Promise<JournalEntryWithLines | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('journal_entries')
+        .where('id', entryId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const lines = await this.getLinesForEntries(db, [row.id]);
+      return this.mapEntry(row, lines);
+    } catch (error) {
+      logger.error('Error fetching journal entry by ID', { error, companyId, entryId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft journal entry
+   */
+  async createJournalEntry(
+    companyId: string,
+    data: CreateJournalEntryData,
+    createdBy: string,
+    trx?: Knex.Transaction
+  ): Promise<JournalEntryWithLines> {
+    try {
+      // Validate input
+      this.validateJournalEntryData(data);
+
+      const entryId = await this.inTransaction(trx, async (t) => {
+        const prepared = await this.prepareEntry(t, companyId, data);
+        return this.insertEntry(t, companyId, prepared, createdBy);
+      });
+
+      const entry = await this.getJournalEntryById(companyId, entryId, trx);
+      if (!entry) {
+        throw new Error('Failed to create journal entry');
+      }
+
+      logger.info('Journal entry created successfully', {
+        entryId,
+        entryNumber: entry.entry_number,
+        companyId,
+        createdBy
+      });
+
+      return entry;
+    } catch (error) {
+      logger.error('Error creating journal entry', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Post a draft journal entry and update account balances
+   */
+  async postJournalEntry(
+    companyId: string,
+    entryId: string,
+    postedBy: string,
+    trx?: Knex.Transaction
+  ): Promise<JournalEntryWithLines> {
+    try {
+      await this.inTransaction(trx, (t) => this.applyPosting(t, companyId, entryId, postedBy));
+
+      const entry = await this.getJournalEntryById(companyId, entryId, trx);
+      if (!entry) {
+        throw new Error('Failed to post journal entry');
+      }
+
+      await auditService.logUserAction({
+        user_id: postedBy,
+        action: 'JOURNAL_ENTRY_POSTED',
+        resource_type: 'journal_entry',
+        resource_id: entryId,
+        company_id: companyId,
+        details: { entry_number: entry.entry_number, total: entry.total_debit }
+      });
+
+      logger.info('Journal entry posted successfully', {
+        entryId,
+        entryNumber: entry.entry_number,
+        companyId,
+        postedBy
+      });
+
+      return entry;
+    } catch (error) {
+      logger.error('Error posting journal entry', { error, companyId, entryId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create and immediately post a journal entry (used by sub-ledgers)
+   */
+  async createAndPostJournalEntry(
+    companyId: string,
+    data: CreateJournalEntryData,
+    userId: string,
+    trx?: Knex.Transaction
+  ): Promise<JournalEntryWithLines> {
+    try {
+      this.validateJournalEntryData(data);
+
+      const entryId = await this.inTransaction(trx, async (t) => {
+        const prepared = await this.prepareEntry(t, companyId, data);
+        const id = await this.insertEntry(t, companyId, prepared, userId);
+        await this.applyPosting(t, companyId, id, userId);
+        return id;
+      });
+
+      const entry = await this.getJournalEntryById(companyId, entryId, trx);
+      if (!entry) {
+        throw new Error('Failed to post journal entry');
+      }
+
+      logger.info('Journal entry created and posted', {
+        entryId,
+        entryNumber: entry.entry_number,
+        sourceType: data.source_type,
+        sourceId: data.source_id,
+        companyId
+      });
+
+      return entry;
+    } catch (error) {
+      logger.error('Error creating and posting journal entry', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse a posted journal entry with an equal and opposite entry
+   */
+  async reverseJournalEntry(
+    companyId: string,
+    entryId: string,
+    data: ReverseJournalEntryData,
+    reversedBy: string,
+    trx?: Knex.Transaction
+  ): Promise<JournalEntryWithLines> {
+    try {
+      const reversalId = await this.inTransaction(trx, async (t) => {
+        const original = await t('journal_entries')
+          .where('id', entryId)
+          .where('company_id', companyId)
+          .forUpdate()
+          .first();
+
+        if (!original) {
+          throw new NotFoundError('Journal entry not found');
+        }
+
+        if (original.status !== TransactionStatus.POSTED) {
+          throw new ConflictError(`Only posted journal entries can be reversed (status: ${original.status})`);
+        }
+
+        const originalLines = await t('journal_entry_lines')
+          .where('journal_entry_id', entryId)
+          .orderBy('line_number');
+
+        const id = await this.insertEntry(t, companyId, {
+          entry_date: data.reversal_date || new Date(),
+          description: data.description || `Reversal of ${original.entry_number}: ${original.description}`,
+          reference: original.entry_number,
+          source_type: original.source_type,
+          source_id: original.source_id,
+          currency: original.currency,
+          exchange_rate: parseFloat(original.exchange_rate),
+          lines: originalLines.map((line: any) => ({
+            account_id: line.account_id,
+            description: line.description,
+            debit: toAmount(line.credit),
+            credit: toAmount(line.debit),
+            foreign_debit: toAmount(line.foreign_credit),
+            foreign_credit: toAmount(line.foreign_debit),
+            cost_centre_id: line.cost_centre_id,
+            counterparty_company_id: line.counterparty_company_id
+          }))
+        }, reversedBy, entryId);
+
+        await this.applyPosting(t, companyId, id, reversedBy);
+
+        await t('journal_entries')
+          .where('id', entryId)
+          .update({
+            status: TransactionStatus.REVERSED,
+            reversed_by_id: id,
+            updated_by: reversedBy,
+            updated_at: new Date()
+          });
+
+        return id;
+      });
+
+      const reversal = await this.getJournalEntryById(companyId, reversalId, trx);
+      if (!reversal) {
+        throw new Error('Failed to reverse journal entry');
+      }
+
+      await auditService.logUserAction({
+        user_id: reversedBy,
+        action: 'JOURNAL_ENTRY_REVERSED',
+        resource_type: 'journal_entry',
+        resource_id: entryId,
+        company_id: companyId,
+        details: { reversal_id: reversalId, reversal_number: reversal.entry_number }
+      });
+
+      logger.info('Journal entry reversed successfully', {
+        entryId,
+        reversalId,
+        companyId,
+        reversedBy
+      });
+
+      return reversal;
+    } catch (error) {
+      logger.error('Error reversing journal entry', { error, companyId, entryId });
+      throw error;
+    }
+  }
+
+  /**
+   * Sum posted debits and credits per account over a date range.
+   * Reversed entries are included alongside their reversals so they net out.
+   */
+  async getAccountMovements(
+    companyId: string,
+    filters: MovementFilters,
+    trx?: Knex.Transaction
+  ): Promise<AccountMovement[]> {
+    try {
+      const db = trx || getDatabase();
+      let query = db('journal_entry_lines')
+        .select(
+          'accounts.id as account_id',
+          'accounts.account_number',
+          'accounts.name as account_name',
+          'accounts.type',
+          'accounts.category',
+          'accounts.parent_account_id'
+        )
+        .sum({ debit: 'journal_entry_lines.debit', credit: 'journal_entry_lines.credit' })
+        .join('journal_entries', 'journal_entry_lines.journal_entry_id', 'journal_entries.id')
+        .join('accounts', 'journal_entry_lines.account_id', 'accounts.id')
+        .where('journal_entries.company_id', companyId)
+        .whereIn('journal_entries.status', [TransactionStatus.POSTED, TransactionStatus.REVERSED])
+        .where('journal_entries.entry_date', '<=', toDateOnly(filters.end_date));
+
+      if (filters.start_date) {
+        query = query.where('journal_entries.entry_date', '>=', toDateOnly(filters.start_date));
+      }
+
+      if (filters.account_types && filters.account_types.length > 0) {
+        query = query.whereIn('accounts.type', filters.account_types);
+      }
+
+      if (filters.exclude_source_types && filters.exclude_source_types.length > 0) {
+        const excluded = filters.exclude_source_types;
+        query = query.where((builder) => {
+          builder.whereNull('journal_entries.source_type').orWhereNotIn('journal_entries.source_type', excluded);
+        });
+      }
+
+      if (filters.counterparty_company_ids) {
+        query = query.whereIn('journal_entry_lines.counterparty_company_id', filters.counterparty_company_ids);
+      }
+
+      const rows = await query
+        .groupBy('accounts.id', 'accounts.account_number', 'accounts.name', 'accounts.type', 'accounts.category', 'accounts.parent_account_id')
+        .orderBy('accounts.account_number');
+
+      return rows.map((row: any) => ({
+        ...row,
+        debit: toAmount(row.debit),
+        credit: toAmount(row.credit)
+      }));
+    } catch (error) {
+      logger.error('Error fetching account movements', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Validate that journal lines are well formed and balance
+   */
+  validateJournalLines(lines: JournalLineData[]): void {
+    if (!Array.isArray(lines) || lines.length < 2) {
+      throw new ValidationError('A journal entry requires at least two lines');
+    }
+
+    lines.forEach((line, index) => {
+      const debit = toAmount(line.debit);
+      const credit = toAmount(line.credit);
+
+      if (!line.account_id) {
+        throw new ValidationError(`Line ${index + 1}: account is required`);
+      }
+
+      if (debit < 0 || credit < 0) {
+        throw new ValidationError(`Line ${index + 1}: amounts cannot be negative`);
+      }
+
+      if (debit > 0 && credit > 0) {
+        throw new ValidationError(`Line ${index + 1}: a line cannot have both a debit and a credit`);
+      }
+
+      if (debit === 0 && credit === 0) {
+        throw new ValidationError(`Line ${index + 1}: a debit or credit amount is required`);
+      }
+    });
+
+    const totalDebit = sumMoney(lines.map(line => line.debit));
+    const totalCredit = sumMoney(lines.map(line => line.credit));
+
+    if (!amountsEqual(totalDebit, totalCredit)) {
+      throw new ValidationError(
+        `Journal entry is not balanced: debits ${totalDebit.toFixed(2)} != credits ${totalCredit.toFixed(2)}`
+      );
+    }
+  }
+
+  /**
+   * Post an entry inside an open transaction
+   */
+  private async applyPosting(
+    trx: Knex.Transaction,
+    companyId: string,
+    entryId: string,
+    postedBy: string
+  ): Promise<void> {
+    const entry = await trx('journal_entries')
+      .where('id', entryId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!entry) {
+      throw new NotFoundError('Journal entry not found');
+    }
+
+    if (entry.status !== TransactionStatus.DRAFT) {
+      throw new ConflictError(`Journal entry ${entry.entry_number} is already ${entry.status}`);
+    }
+
+    await this.assertPeriodOpen(trx, companyId, entry.entry_date);
+
+    const lines = await trx('journal_entry_lines').where('journal_entry_id', entryId);
+    this.validateJournalLines(lines);
+
+    const accountIds = Array.from(new Set<string>(lines.map((line: any) => line.account_id)));
+    const accounts = await this.assertAccountsUsable(trx, companyId, accountIds, true);
+    const accountTypes = new Map<string, string>(accounts.map((account: any) => [account.id, account.type]));
+
+    // Aggregate per account so each balance is updated once
+    const changes = new Map<string, number>();
+    for (const line of lines) {
+      const change = balanceChange(
+        accountTypes.get(line.account_id) as string,
+        toAmount(line.debit),
+        toAmount(line.credit)
+      );
+      changes.set(line.account_id, roundMoney((changes.get(line.account_id) || 0) + change));
+    }
+
+    for (const [accountId, change] of changes) {
+      if (change === 0) continue;
+
+      await trx('accounts')
+        .where('id', accountId)
+        .update({
+          balance: trx.raw('balance + ?', [change]),
+          updated_at: new Date()
+        });
+    }
+
+    await trx('journal_entries')
+      .where('id', entryId)
+      .update({
+        status: TransactionStatus.POSTED,
+        posted_at: new Date(),
+        posted_by: postedBy,
+        updated_by: postedBy,
+        updated_at: new Date()
+      });
+
+    for (const listener of this.postingListeners) {
+      await listener(trx, companyId, entryId, postedBy);
+    }
+  }
+
+  /**
+   * Reject postings dated in a closed fiscal period or year.
+   * Dates outside any defined fiscal year are allowed.
+   */
+  private async assertPeriodOpen(trx: Knex.Transaction, companyId: string, entryDate: Date | string): Promise<void> {
+    const date = toDateOnly(entryDate);
+
+    const period = await trx('fiscal_periods')
+      .select('fiscal_periods.name', 'fiscal_periods.status', 'fiscal_years.status as year_status')
+      .join('fiscal_years', 'fiscal_periods.fiscal_year_id', 'fiscal_years.id')
+      .where('fiscal_periods.company_id', companyId)
+      .where('fiscal_periods.start_date', '<=', date)
+      .where('fiscal_periods.end_date', '>=', date)
+      .forShare()
+      .first();
+
+    if (!period) return;
+
+    if (period.status === FiscalPeriodStatus.CLOSED || period.year_status === FiscalPeriodStatus.CLOSED) {
+      throw new ValidationError(`Cannot post to closed fiscal period ${period.name} (${date})`, 'PERIOD_CLOSED');
+    }
+  }
+
+  /**
+   * Resolve currency and exchange rate, convert transaction-currency lines to
+   * base currency and check the lines against their accounts' currencies
+   */
+  private async prepareEntry(
+    trx: Knex.Transaction,
+    companyId: string,
+    data: CreateJournalEntryData
+  ): Promise<CreateJournalEntryData> {
+    const baseCurrency = await companyService.getBaseCurrency(companyId);
+    const currency = (data.currency || baseCurrency).toUpperCase();
+
+    let exchangeRate = 1;
+    if (currency !== baseCurrency) {
+      exchangeRate = data.exchange_rate
+        ?? (await exchangeRateService.getRate(currency, baseCurrency, data.entry_date)).rate;
+    }
+
+    const lines = currency === baseCurrency
+      ? data.lines.map(line => ({
+        ...line,
+        // Base-currency entries carry no separate foreign amounts
+        debit: toAmount(line.debit) || toAmount(line.foreign_debit),
+        credit: toAmount(line.credit) || toAmount(line.foreign_credit),
+        foreign_debit: 0,
+        foreign_credit: 0
+      }))
+      : convertLinesToBase(data.lines, exchangeRate);
+
+    this.validateJournalLines(lines);
+
+    const accounts = await this.assertAccountsUsable(trx, companyId, lines.map(line => line.account_id));
+    await this.assertCostCentresUsable(trx, companyId, lines);
+    await this.assertCounterpartiesValid(trx, companyId, lines);
+
+    // Foreign-currency accounts keep a balance in their own currency, so every
+    // line hitting them must be in that currency (revaluations adjust base only)
+    for (const [index, line] of lines.entries()) {
+      const account = accounts.find((item: any) => item.id === line.account_id);
+      const accountCurrency = (account.currency || baseCurrency).toUpperCase();
+      if (accountCurrency === baseCurrency) continue;
+
+      const hasForeign = toAmount(line.foreign_debit) > 0 || toAmount(line.foreign_credit) > 0;
+      if (data.source_type === FX_REVALUATION_SOURCE_TYPE && !hasForeign) continue;
+
+      if (currency !== accountCurrency || !hasForeign) {
+        throw new ValidationError(
+          `Line ${index + 1}: account ${account.account_number} is held in ${accountCurrency} and needs ${accountCurrency} amounts`
+        );
+      }
+    }
+
+    return {
+      ...data,
+      currency,
+      exchange_rate: exchangeRate,
+      lines: lines.map(line => ({
+        ...line,
+        counterparty_company_id: line.counterparty_company_id
+          || accounts.find((item: any) => item.id === line.account_id).intercompany_company_id
+          || null
+      }))
+    };
+  }
+
+  /**
+   * Insert the entry header and lines, returning the new entry ID
+   */
+  private async insertEntry(
+    trx: Knex.Transaction,
+    companyId: string,
+    data: CreateJournalEntryData,
+    createdBy: string,
+    reversalOfId?: string
+  ): Promise<string> {
+    const entryNumber = await sequenceService.next(trx, companyId, 'journal_entry', { prefix: 'JE' });
+    const entryId = uuidv4();
+
+    await trx('journal_entries').insert({
+      id: entryId,
+      company_id: companyId,
+      entry_number: entryNumber,
+      entry_date: data.entry_date,
+      description: data.description.trim(),
+      reference: data.reference,
+      status: TransactionStatus.DRAFT,
+      source_type: data.source_type,
+      source_id: data.source_id,
+      currency: data.currency,
+      exchange_rate: data.exchange_rate ?? 1,
+      reversal_of_id: reversalOfId,
+      created_by: createdBy,
+      updated_by: createdBy
+    });
+
+    await trx('journal_entry_lines').insert(
+      data.lines.map((line, index) => ({
+        id: uuidv4(),
+        journal_entry_id: entryId,
+        line_number: index + 1,
+        account_id: line.account_id,
+        description: line.description,
+        debit: toAmount(line.debit),
+        credit: toAmount(line.credit),
+        foreign_debit: toAmount(line.foreign_debit),
+        foreign_credit: toAmount(line.foreign_credit),
+        cost_centre_id: line.cost_centre_id || null,
+        counterparty_company_id: line.counterparty_company_id || null
+      }))
+    );
+
+    return entryId;
+  }
+
+  /**
+   * Ensure every account exists in the company and accepts postings
+   */
+  private async assertAccountsUsable(
+    trx: Knex.Transaction,
+    companyId: string,
+    accountIds: string[],
+    lock = false
+  ): Promise<any[]> {
+    const uniqueIds = Array.from(new Set(accountIds));
+    let query = trx('accounts')
+      .whereIn('id', uniqueIds)
+      .where('company_id', companyId)
+      .whereNull('deleted_at');
+
+    if (lock) {
+      query = query.forUpdate();
+    }
+
+    const accounts = await query;
+
+    const missing = uniqueIds.filter(id => !accounts.some((account: any) => account.id === id));
+    if (missing.length > 0) {
+      throw new ValidationError(`Unknown account(s): ${missing.join(', ')}`);
+    }
+
+    const inactive = accounts.filter((account: any) => !account.is_active);
+    if (inactive.length > 0) {
+      throw new ValidationError(
+        `Inactive account(s) cannot be posted to: ${inactive.map((account: any) => account.account_number).join(', ')}`
+      );
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Ensure cost centres on lines belong to the company and are active
+   */
+  private async assertCostCentresUsable(
+    trx: Knex.Transaction,
+    companyId: string,
+    lines: JournalLineData[]
+  ): Promise<void> {
+    const costCentreIds = Array.from(new Set(lines.map(line => line.cost_centre_id).filter(Boolean))) as string[];
+    if (costCentreIds.length === 0) return;
+
+    const costCentres = await trx('cost_centres')
+      .whereIn('id', costCentreIds)
+      .where('company_id', companyId)
+      .where('is_active', true);
+
+    if (costCentres.length !== costCentreIds.length) {
+      throw new ValidationError('Line cost centres must be active cost centres of this company');
+    }
+  }
+
+  /**
+   * Ensure intercompany counterparties are other existing companies
+   */
+  private async assertCounterpartiesValid(
+    trx: Knex.Transaction,
+    companyId: string,
+    lines: JournalLineData[]
+  ): Promise<void> {
+    const counterpartyIds = Array.from(new Set(lines.map(line => line.counterparty_company_id).filter(Boolean))) as string[];
+    if (counterpartyIds.length === 0) return;
+
+    if (counterpartyIds.includes(companyId)) {
+      throw new ValidationError('A line cannot be intercompany with its own company');
+    }
+
+    const companies = await trx('companies').whereIn('id', counterpartyIds).select('id');
+    if (companies.length !== counterpartyIds.length) {
+      throw new ValidationError('Line counterparty companies must exist');
+    }
+  }
+
+  /**
+   * Run a callback in the caller's transaction or a new one
+   */
+  private async inTransaction<T>(
+    trx: Knex.Transaction | undefined,
+    callback: (trx: Knex.Transaction) => Promise<T>
+  ): Promise<T> {
+    if (trx) {
+      return callback(trx);
+    }
+
+    return getDatabase().transaction(callback);
+  }
+
+  /**
+   * Load lines (with account details) for a set of entries
+   */
+  private async getLinesForEntries(db: Knex | Knex.Transaction, entryIds: string[]): Promise<JournalEntryLine[]> {
+    if (entryIds.length === 0) return [];
+
+    const lines = await db('journal_entry_lines')
+      .select(
+        'journal_entry_lines.*',
+        'accounts.account_number',
+        'accounts.name as account_name'
+      )
+      .leftJoin('accounts', 'journal_entry_lines.account_id', 'accounts.id')
+      .whereIn('journal_entry_lines.journal_entry_id', entryIds)
+      .orderBy('journal_entry_lines.line_number');
+
+    return lines.map((line: any) => ({
+      ...line,
+      debit: toAmount(line.debit),
+      credit: toAmount(line.credit),
+      foreign_debit: toAmount(line.foreign_debit),
+      foreign_credit: toAmount(line.foreign_credit)
+    }));
+  }
+
+  /**
+   * Map a journal entry row and its lines to the API shape
+   */
+  private mapEntry(row: any, lines: JournalEntryLine[]): JournalEntryWithLines {
+    return {
+      ...row,
+      exchange_rate: parseFloat(row.exchange_rate),
+      total_debit: sumMoney(lines.map(line => line.debit)),
+      total_credit: sumMoney(lines.map(line => line.credit)),
+      lines
+    };
+  }
+
+  /**
+   * Validate journal entry data
+   */
+  private validateJournalEntryData(data: CreateJournalEntryData): void {
+    if (!data.description || data.description.trim().length === 0) {
+      throw new ValidationError('Description is required');
+    }
+
+    if (!data.entry_date || isNaN(new Date(data.entry_date).getTime())) {
+      throw new ValidationError('A valid entry date is required');
+    }
+
+    if (data.exchange_rate !== undefined && !(data.exchange_rate > 0)) {
+      throw new ValidationError('Exchange rate must be greater than zero');
+    }
+
+    if (!Array.isArray(data.lines) || data.lines.length < 2) {
+      throw new ValidationError('A journal entry requires at least two lines');
+    }
+
+    data.lines.forEach((line, index) => {
+      const foreignDebit = toAmount(line.foreign_debit);
+      const foreignCredit = toAmount(line.foreign_credit);
+
+      if (foreignDebit < 0 || foreignCredit < 0) {
+        throw new ValidationError(`Line ${index + 1}: amounts cannot be negative`);
+      }
+
+      if (foreignDebit > 0 && foreignCredit > 0) {
+        throw new ValidationError(`Line ${index + 1}: a line cannot have both a debit and a credit`);
+      }
+    });
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,496 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { exchangeRateService } from '../exchangeRateService';
+import { ledgerService } from './ledgerService';
+import { financialSettingsService } from './financialSettingsService';
+import { buildSettlementLines } from './fxService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { AccountType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export type PaymentRunStatus = 'draft' | 'posted' | 'cancelled';
+
+export interface CreatePaymentRunData {
+  payment_date: Date | string;
+  bank_account_id: string;
+  due_on_or_before?: Date | string;
+  currency?: string;
+  supplier_ids?: string[];
+}
+
+export interface PaymentRunItem {
+  id: string;
+  bill_id: string;
+  bill_number: string;
+  supplier_reference: string;
+  due_date: string;
+  supplier_id: string;
+  supplier_name: string;
+  amount: number;
+  exchange_rate: number;
+  realised_fx: number;
+  journal_entry_id: string | null;
+}
+
+export interface PaymentRun {
+  id: string;
+  company_id: string;
+  run_number: string;
+  payment_date: string;
+  due_on_or_before: string;
+  currency: string;
+  bank_account_id: string;
+  total: number;
+  bill_count: number;
+  status: PaymentRunStatus;
+  posted_at?: Date | null;
+  posted_by?: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  items?: PaymentRunItem[];
+}
+
+export interface PaymentRunFilters {
+  status?: PaymentRunStatus;
+  page?: number;
+  limit?: number;
+}
+
+export const SUPPLIER_PAYMENT_SOURCE_TYPE = 'supplier_payment';
+
+const PAYABLE_STATUSES = ['approved', 'partially_paid'];
+
+export class PaymentRunService {
+  /**
+   * Get payment runs with pagination
+   */
+  async getPaymentRuns(companyId: string, filters: PaymentRunFilters = {}): Promise<{
+    runs: PaymentRun[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('payment_runs').where('company_id', companyId);
+
+      if (filters.status) {
+        query = query.where('status', filters.status);
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+
+      const rows = await query
+        .select('*')
+        .orderBy('payment_date', 'desc')
+        .orderBy('run_number', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        runs: rows.map((row: any) => this.mapRun(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching payment runs', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a payment run with its bills
+   */
+  async getPaymentRunById(companyId: string, runId: string, trx?: Knex.Transaction): Promise<PaymentRun | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('payment_runs')
+        .where('id', runId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const items = await db('payment_run_items')
+        .select(
+          'payment_run_items.*',
+          'supplier_bills.bill_number',
+          'supplier_bills.supplier_reference',
+          'supplier_bills.due_date',
+          'suppliers.name as supplier_name'
+        )
+        .join('supplier_bills', 'payment_run_items.bill_id', 'supplier_bills.id')
+        .join('suppliers', 'payment_run_items.supplier_id', 'suppliers.id')
+        .where('payment_run_items.payment_run_id', runId)
+        .orderBy('suppliers.name')
+        .orderBy('supplier_bills.due_date');
+
+      return {
+        ...this.mapRun(row),
+        items: items.map((item: any) => ({
+          id: item.id,
+          bill_id: item.bill_id,
+          bill_number: item.bill_number,
+          supplier_reference: item.supplier_reference,
+          due_date: toDateOnly(item.due_date),
+          supplier_id: item.supplier_id,
+          supplier_name: item.supplier_name,
+          amount: toAmount(item.amount),
+          exchange_rate: parseFloat(item.exchange_rate),
+          realised_fx: toAmount(item.realised_fx),
+          journal_entry_id: item.journal_entry_id
+        }))
+      };
+    } catch (error) {
+      logger.error('Error fetching payment run by ID', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Propose a draft payment run of every approved bill due by the cut-off date
+   */
+  async createPaymentRun(companyId: string, data: CreatePaymentRunData, createdBy: string): Promise<PaymentRun> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+      const runId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const bank = await this.getBankAccount(trx, companyId, data.bank_account_id);
+        const currency = (data.currency || bank.currency || baseCurrency).toUpperCase();
+        if (bank.currency && bank.currency.toUpperCase() !== currency && bank.currency.toUpperCase() !== baseCurrency) {
+          throw new ValidationError(`Bank account ${bank.account_number} cannot pay ${currency} bills`);
+        }
+
+        const paymentDate = toDateOnly(data.payment_date);
+        const dueBy = data.due_on_or_before ? toDateOnly(data.due_on_or_before) : paymentDate;
+
+        let query = trx('supplier_bills')
+          .where('company_id', companyId)
+          .whereIn('status', PAYABLE_STATUSES)
+          .where('currency', currency)
+          .where('balance_due', '>', 0)
+          .where('due_date', '<=', dueBy)
+          .whereNotExists(function () {
+            this.select('payment_run_items.id')
+              .from('payment_run_items')
+              .join('payment_runs', 'payment_run_items.payment_run_id', 'payment_runs.id')
+              .whereRaw('payment_run_items.bill_id = supplier_bills.id')
+              .where('payment_runs.status', 'draft');
+          });
+
+        if (data.supplier_ids && data.supplier_ids.length > 0) {
+          query = query.whereIn('supplier_id', data.supplier_ids);
+        }
+
+        const bills = await query.orderBy('due_date').forUpdate();
+        if (bills.length === 0) {
+          throw new ValidationError(`No approved ${currency} bills are due on or before ${dueBy}`);
+        }
+
+        const runNumber = await sequenceService.next(trx, companyId, 'payment_run', { prefix: 'PAY' });
+        const total = sumMoney(bills.map((bill: any) => toAmount(bill.balance_due)));
+
+        await trx('payment_runs').insert({
+          id: runId,
+          company_id: companyId,
+          run_number: runNumber,
+          payment_date: paymentDate,
+          due_on_or_before: dueBy,
+          currency,
+          bank_account_id: bank.id,
+          total,
+          bill_count: bills.length,
+          status: 'draft',
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        await trx('payment_run_items').insert(bills.map((bill: any) => ({
+          id: uuidv4(),
+          payment_run_id: runId,
+          bill_id: bill.id,
+          supplier_id: bill.supplier_id,
+          amount: toAmount(bill.balance_due)
+        })));
+      });
+
+      const run = await this.getPaymentRunById(companyId, runId);
+      if (!run) {
+        throw new Error('Failed to create payment run');
+      }
+
+      logger.info('Payment run created', {
+        runId,
+        runNumber: run.run_number,
+        billCount: run.bill_count,
+        total: run.total,
+        companyId,
+        createdBy
+      });
+
+      return run;
+    } catch (error) {
+      logger.error('Error creating payment run', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Take a bill out of a draft payment run
+   */
+  async excludeBill(companyId: string, runId: string, billId: string, userId: string): Promise<PaymentRun> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const run = await this.lockRun(trx, companyId, runId);
+        if (run.status !== 'draft') {
+          throw new ConflictError(`Bills can only be removed from draft runs (status: ${run.status})`);
+        }
+
+        const deleted = await trx('payment_run_items')
+          .where('payment_run_id', runId)
+          .where('bill_id', billId)
+          .del();
+        if (deleted === 0) {
+          throw new NotFoundError('Bill is not in this payment run');
+        }
+
+        const remaining = await trx('payment_run_items').where('payment_run_id', runId);
+        await trx('payment_runs')
+          .where('id', runId)
+          .update({
+            total: sumMoney(remaining.map((item: any) => toAmount(item.amount))),
+            bill_count: remaining.length,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Bill removed from payment run', { runId, billId, companyId, userId });
+
+      return (await this.getPaymentRunById(companyId, runId))!;
+    } catch (error) {
+      logger.error('Error removing bill from payment run', { error, companyId, runId, billId });
+      throw error;
+    }
+  }
+
+  /**
+   * Post a draft run: one payment journal per bill, settling the payable
+   * from the bank and recognising realised exchange differences
+   */
+  async postPaymentRun(companyId: string, runId: string, userId: string): Promise<PaymentRun> {
+    try {
+      const db = getDatabase();
+      const baseCurrency = await companyService.getBaseCurrency(companyId);
+
+      await db.transaction(async (trx) => {
+        const run = await this.lockRun(trx, companyId, runId);
+        if (run.status !== 'draft') {
+          throw new ConflictError(`Only draft payment runs can be posted (status: ${run.status})`);
+        }
+
+        const items = await trx('payment_run_items').where('payment_run_id', runId);
+        if (items.length === 0) {
+          throw new ValidationError('Payment run has no bills');
+        }
+
+        const bank = await this.getBankAccount(trx, companyId, run.bank_account_id);
+        const paymentDate = toDateOnly(run.payment_date);
+        const currency = run.currency.toUpperCase();
+        const isForeign = currency !== baseCurrency;
+        const paymentRate = isForeign
+          ? (await exchangeRateService.getRate(currency, baseCurrency, paymentDate)).rate
+          : 1;
+        const realisedAccountId = isForeign
+          ? await financialSettingsService.requireAccount(companyId, 'fx_realised_gain_loss_account_id', trx)
+          : '';
+
+        for (const item of items) {
+          const bill = await trx('supplier_bills')
+            .where('id', item.bill_id)
+            .where('company_id', companyId)
+            .forUpdate()
+            .first();
+
+          const amount = toAmount(item.amount);
+          const balanceDue = toAmount(bill?.balance_due);
+          if (!bill || !PAYABLE_STATUSES.includes(bill.status) || amount > balanceDue) {
+            throw new ConflictError(
+              `Bill ${bill?.bill_number ?? item.bill_id} is no longer payable for ${amount.toFixed(2)}; remove it from the run`
+            );
+          }
+
+          const { lines, realised } = buildSettlementLines({
+            account_id: bill.payable_account_id,
+            account_type: AccountType.LIABILITY,
+            bank_account_id: bank.id,
+            bank_is_foreign: isForeign && bank.currency === currency,
+            realised_account_id: realisedAccountId,
+            foreign_amount: amount,
+            original_rate: parseFloat(bill.exchange_rate),
+            settlement_rate: paymentRate
+          });
+
+          const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+            entry_date: paymentDate,
+            description: `Payment of supplier bill ${bill.bill_number}`,
+            reference: `${run.run_number} ${bill.supplier_reference}`,
+            source_type: SUPPLIER_PAYMENT_SOURCE_TYPE,
+            source_id: item.id,
+            currency,
+            exchange_rate: paymentRate,
+            lines
+          }, userId, trx);
+
+          const newBalance = roundMoney(balanceDue - amount);
+          await trx('supplier_bills')
+            .where('id', bill.id)
+            .update({
+              amount_paid: roundMoney(toAmount(bill.amount_paid) + amount),
+              balance_due: newBalance,
+              status: newBalance === 0 ? 'paid' : 'partially_paid',
+              updated_by: userId,
+              updated_at: new Date()
+            });
+
+          await trx('payment_run_items')
+            .where('id', item.id)
+            .update({
+              exchange_rate: paymentRate,
+              realised_fx: realised,
+              journal_entry_id: entry.id
+            });
+        }
+
+        await trx('payment_runs')
+          .where('id', runId)
+          .update({
+            status: 'posted',
+            posted_at: new Date(),
+            posted_by: userId,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      const run = (await this.getPaymentRunById(companyId, runId))!;
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'PAYMENT_RUN_POSTED',
+        resource_type: 'payment_run',
+        resource_id: runId,
+        company_id: companyId,
+        details: { run_number: run.run_number, currency: run.currency, total: run.total, bill_count: run.bill_count }
+      });
+
+      logger.info('Payment run posted', { runId, total: run.total, companyId, userId });
+
+      return run;
+    } catch (error) {
+      logger.error('Error posting payment run', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a draft payment run, releasing its bills
+   */
+  async cancelPaymentRun(companyId: string, runId: string, userId: string): Promise<PaymentRun> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const run = await this.lockRun(trx, companyId, runId);
+        if (run.status !== 'draft') {
+          throw new ConflictError(`Only draft payment runs can be cancelled (status: ${run.status})`);
+        }
+
+        await trx('payment_runs')
+          .where('id', runId)
+          .update({
+            status: 'cancelled',
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Payment run cancelled', { runId, companyId, userId });
+
+      return (await this.getPaymentRunById(companyId, runId))!;
+    } catch (error) {
+      logger.error('Error cancelling payment run', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Bank account a run pays from
+   */
+  private async getBankAccount(trx: Knex.Transaction, companyId: string, accountId: string): Promise<any> {
+    const bank = await trx('accounts')
+      .where('id', accountId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!bank || bank.type !== AccountType.ASSET) {
+      throw new ValidationError('Bank account must be an asset account of this company');
+    }
+
+    return bank;
+  }
+
+  /**
+   * Lock a payment run row for update
+   */
+  private async lockRun(trx: Knex.Transaction, companyId: string, runId: string): Promise<any> {
+    const run = await trx('payment_runs')
+      .where('id', runId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!run) {
+      throw new NotFoundError('Payment run not found');
+    }
+
+    return run;
+  }
+
+  /**
+   * Map a payment run row
+   */
+  private mapRun(row: any): PaymentRun {
+    return {
+      ...row,
+      payment_date: toDateOnly(row.payment_date),
+      due_on_or_before: toDateOnly(row.due_on_or_before),
+      total: toAmount(row.total)
+    };
+  }
+}
+
+export const paymentRunService = new PaymentRunService();
@@ -0,0 +1,643 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { supplierService } from './supplierService';
+import { calculateInvoiceItem, calculateInvoiceTotals, CalculatedItem } from './invoiceService';
+import { logger } from '../../utils/logger';
+import { toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { AccountType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export type PurchaseOrderStatus = 'draft' | 'issued' | 'partially_received' | 'received' | 'closed' | 'cancelled';
+
+export interface PurchaseOrderItemData {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_rate?: number;
+  expense_account_id?: string;
+}
+
+export interface CreatePurchaseOrderData {
+  supplier_id: string;
+  order_date: Date | string;
+  expected_date?: Date | string;
+  currency?: string;
+  reference?: string;
+  notes?: string;
+  items: PurchaseOrderItemData[];
+}
+
+export type UpdatePurchaseOrderData = Partial<Omit<CreatePurchaseOrderData, 'supplier_id'>>;
+
+export interface ReceiveGoodsData {
+  received_date: Date | string;
+  delivery_note?: string;
+  notes?: string;
+  items: Array<{ purchase_order_item_id: string; quantity: number }>;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  line_number: number;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  line_subtotal: number;
+  tax_amount: number;
+  line_total: number;
+  expense_account_id?: string | null;
+  quantity_received: number;
+  quantity_billed: number;
+}
+
+export interface GoodsReceipt {
+  id: string;
+  receipt_number: string;
+  received_date: string;
+  delivery_note?: string;
+  notes?: string;
+  received_by: string;
+  items: Array<{ purchase_order_item_id: string; quantity: number }>;
+  created_at: Date;
+}
+
+export interface PurchaseOrderWithItems {
+  id: string;
+  company_id: string;
+  supplier_id: string;
+  supplier_name?: string;
+  supplier_code?: string;
+  po_number: string;
+  order_date: string;
+  expected_date?: string | null;
+  currency: string;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  status: PurchaseOrderStatus;
+  reference?: string;
+  notes?: string;
+  issued_at?: Date;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  items: PurchaseOrderItem[];
+  receipts?: GoodsReceipt[];
+}
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus;
+  supplier_id?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['issued', 'partially_received'];
+
+export class PurchaseOrderService {
+  /**
+   * Get purchase orders with filters and pagination
+   */
+  async getPurchaseOrders(companyId: string, filters: PurchaseOrderFilters = {}): Promise<{
+    purchase_orders: PurchaseOrderWithItems[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('purchase_orders')
+        .join('suppliers', 'purchase_orders.supplier_id', 'suppliers.id')
+        .where('purchase_orders.company_id', companyId);
+
+      if (filters.status) {
+        query = query.where('purchase_orders.status', filters.status);
+      }
+
+      if (filters.supplier_id) {
+        query = query.where('purchase_orders.supplier_id', filters.supplier_id);
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('purchase_orders.po_number', 'ilike', search)
+            .orWhere('purchase_orders.reference', 'ilike', search)
+            .orWhere('suppliers.name', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+
+      const rows = await query
+        .select('purchase_orders.*', 'suppliers.name as supplier_name', 'suppliers.supplier_code')
+        .orderBy('purchase_orders.order_date', 'desc')
+        .orderBy('purchase_orders.po_number', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      const items = await this.getItems(db, rows.map((row: any) => row.id));
+
+      return {
+        purchase_orders: rows.map((row: any) => this.mapOrder(row, items.filter(item => item.purchase_order_id === row.id))),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching purchase orders', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get purchase order with lines and goods receipts
+   */
+  async getPurchaseOrderById(
+    companyId: string,
+    orderId: string,
+    trx?: Knex.Transaction
+  ): Promise<PurchaseOrderWithItems | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('purchase_orders')
+        .select('purchase_orders.*', 'suppliers.name as supplier_name', 'suppliers.supplier_code')
+        .join('suppliers', 'purchase_orders.supplier_id', 'suppliers.id')
+        .where('purchase_orders.id', orderId)
+        .where('purchase_orders.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const order = this.mapOrder(row, await this.getItems(db, [orderId]));
+
+      const receipts = await db('goods_receipts')
+        .where('purchase_order_id', orderId)
+        .orderBy('received_date');
+      const receiptItems = receipts.length > 0
+        ? await db('goods_receipt_items').whereIn('goods_receipt_id', receipts.map((receipt: any) => receipt.id))
+        : [];
+
+      order.receipts = receipts.map((receipt: any) => ({
+        ...receipt,
+        received_date: toDateOnly(receipt.received_date),
+        items: receiptItems
+          .filter((item: any) => item.goods_receipt_id === receipt.id)
+          .map((item: any) => ({
+            purchase_order_item_id: item.purchase_order_item_id,
+            quantity: parseFloat(item.quantity)
+          }))
+      }));
+
+      return order;
+    } catch (error) {
+      logger.error('Error fetching purchase order by ID', { error, companyId, orderId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  async createPurchaseOrder(
+    companyId: string,
+    data: CreatePurchaseOrderData,
+    createdBy: string
+  ): Promise<PurchaseOrderWithItems> {
+    try {
+      const db = getDatabase();
+      this.validateItems(data.items);
+
+      const supplier = await supplierService.getSupplierById(companyId, data.supplier_id);
+      if (!supplier) {
+        throw new NotFoundError('Supplier not found');
+      }
+
+      if (!supplier.is_active) {
+        throw new ValidationError('Supplier is inactive');
+      }
+
+      const orderId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        await this.assertExpenseAccounts(trx, companyId, data.items);
+
+        const poNumber = await sequenceService.next(trx, companyId, 'purchase_order', { prefix: 'PO' });
+        const items = data.items.map(calculateInvoiceItem);
+
+        await trx('purchase_orders').insert({
+          id: orderId,
+          company_id: companyId,
+          supplier_id: supplier.id,
+          po_number: poNumber,
+          order_date: toDateOnly(data.order_date),
+          expected_date: data.expected_date ? toDateOnly(data.expected_date) : null,
+          currency: (data.currency || supplier.currency).toUpperCase(),
+          ...calculateInvoiceTotals(items),
+          status: 'draft',
+          reference: data.reference,
+          notes: data.notes,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        await this.insertItems(trx, orderId, items);
+      });
+
+      const order = await this.getPurchaseOrderById(companyId, orderId);
+      if (!order) {
+        throw new Error('Failed to create purchase order');
+      }
+
+      logger.info('Purchase order created successfully', {
+        orderId,
+        poNumber: order.po_number,
+        companyId,
+        createdBy
+      });
+
+      return order;
+    } catch (error) {
+      logger.error('Error creating purchase order', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft purchase order (lines are replaced when given)
+   */
+  async updatePurchaseOrder(
+    companyId: string,
+    orderId: string,
+    data: UpdatePurchaseOrderData,
+    updatedBy: string
+  ): Promise<PurchaseOrderWithItems> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const order = await this.lockOrder(trx, companyId, orderId);
+        if (order.status !== 'draft') {
+          throw new ConflictError('Only draft purchase orders can be edited');
+        }
+
+        const updateData: Record<string, any> = {
+          updated_by: updatedBy,
+          updated_at: new Date()
+        };
+
+        if (data.order_date !== undefined) updateData.order_date = toDateOnly(data.order_date);
+        if (data.expected_date !== undefined) updateData.expected_date = toDateOnly(data.expected_date);
+        if (data.currency !== undefined) updateData.currency = data.currency.toUpperCase();
+        if (data.reference !== undefined) updateData.reference = data.reference;
+        if (data.notes !== undefined) updateData.notes = data.notes;
+
+        if (data.items) {
+          this.validateItems(data.items);
+          await this.assertExpenseAccounts(trx, companyId, data.items);
+
+          const items = data.items.map(calculateInvoiceItem);
+          Object.assign(updateData, calculateInvoiceTotals(items));
+
+          await trx('purchase_order_items').where('purchase_order_id', orderId).del();
+          await this.insertItems(trx, orderId, items);
+        }
+
+        await trx('purchase_orders').where('id', orderId).update(updateData);
+      });
+
+      const order = await this.getPurchaseOrderById(companyId, orderId);
+      if (!order) {
+        throw new Error('Failed to update purchase order');
+      }
+
+      logger.info('Purchase order updated successfully', { orderId, companyId, updatedBy });
+
+      return order;
+    } catch (error) {
+      logger.error('Error updating purchase order', { error, companyId, orderId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a draft purchase order to the supplier
+   */
+  async issuePurchaseOrder(companyId: string, orderId: string, userId: string): Promise<PurchaseOrderWithItems> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const order = await this.lockOrder(trx, companyId, orderId);
+        if (order.status !== 'draft') {
+          throw new ConflictError(`Only draft purchase orders can be issued (status: ${order.status})`);
+        }
+
+        await trx('purchase_orders')
+          .where('id', orderId)
+          .update({
+            status: 'issued',
+            issued_at: new Date(),
+            issued_by: userId,
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Purchase order issued', { orderId, companyId, userId });
+
+      return (await this.getPurchaseOrderById(companyId, orderId))!;
+    } catch (error) {
+      logger.error('Error issuing purchase order', { error, companyId, orderId });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a goods receipt against an issued purchase order
+   */
+  async receiveGoods(
+    companyId: string,
+    orderId: string,
+    data: ReceiveGoodsData,
+    userId: string
+  ): Promise<PurchaseOrderWithItems> {
+    try {
+      const db = getDatabase();
+
+      if (!Array.isArray(data.items) || data.items.length === 0) {
+        throw new ValidationError('At least one received line is required');
+      }
+
+      await db.transaction(async (trx) => {
+        const order = await this.lockOrder(trx, companyId, orderId);
+        if (!RECEIVABLE_STATUSES.includes(order.status)) {
+          throw new ConflictError(`Goods can only be received on issued purchase orders (status: ${order.status})`);
+        }
+
+        const orderItems = await this.getItems(trx, [orderId]);
+        const receiptId = uuidv4();
+        const receiptNumber = await sequenceService.next(trx, companyId, 'goods_receipt', { prefix: 'GRN' });
+
+        await trx('goods_receipts').insert({
+          id: receiptId,
+          company_id: companyId,
+          purchase_order_id: orderId,
+          receipt_number: receiptNumber,
+          received_date: toDateOnly(data.received_date),
+          delivery_note: data.delivery_note,
+          notes: data.notes,
+          received_by: userId
+        });
+
+        for (const [index, line] of data.items.entries()) {
+          const orderItem = orderItems.find(item => item.id === line.purchase_order_item_id);
+          if (!orderItem) {
+            throw new ValidationError(`Line ${index + 1}: not a line of this purchase order`);
+          }
+
+          if (!(line.quantity > 0)) {
+            throw new ValidationError(`Line ${index + 1}: quantity must be greater than zero`);
+          }
+
+          const outstanding = orderItem.quantity - orderItem.quantity_received;
+          if (line.quantity > outstanding + 1e-9) {
+            throw new ValidationError(`Line ${index + 1}: only ${outstanding} of ${orderItem.description} outstanding`);
+          }
+
+          orderItem.quantity_received += line.quantity;
+
+          await trx('goods_receipt_items').insert({
+            goods_receipt_id: receiptId,
+            purchase_order_item_id: orderItem.id,
+            quantity: line.quantity
+          });
+
+          await trx('purchase_order_items')
+            .where('id', orderItem.id)
+            .update({ quantity_received: orderItem.quantity_received });
+        }
+
+        const fullyReceived = orderItems.every(item => item.quantity_received >= item.quantity - 1e-9);
+        await trx('purchase_orders')
+          .where('id', orderId)
+          .update({
+            status: fullyReceived ? 'received' : 'partially_received',
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Goods received', { orderId, companyId, userId });
+
+      return (await this.getPurchaseOrderById(companyId, orderId))!;
+    } catch (error) {
+      logger.error('Error receiving goods', { error, companyId, orderId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a purchase order with nothing received, or close one that will
+   * receive no further deliveries
+   */
+  async closePurchaseOrder(
+    companyId: string,
+    orderId: string,
+    userId: string
+  ): Promise<PurchaseOrderWithItems> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const order = await this.lockOrder(trx, companyId, orderId);
+        if (order.status === 'closed' || order.status === 'cancelled') {
+          throw new ConflictError(`Purchase order is already ${order.status}`);
+        }
+
+        const receipt = await trx('goods_receipts').where('purchase_order_id', orderId).first();
+
+        await trx('purchase_orders')
+          .where('id', orderId)
+          .update({
+            status: receipt ? 'closed' : 'cancelled',
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Purchase order closed', { orderId, companyId, userId });
+
+      return (await this.getPurchaseOrderById(companyId, orderId))!;
+    } catch (error) {
+      logger.error('Error closing purchase order', { error, companyId, orderId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lines of a purchase order for matching, locked for update
+   */
+  async getItemsForUpdate(trx: Knex.Transaction, orderId: string): Promise<PurchaseOrderItem[]> {
+    const rows = await trx('purchase_order_items')
+      .where('purchase_order_id', orderId)
+      .orderBy('line_number')
+      .forUpdate();
+
+    return rows.map((row: any) => this.mapItem(row));
+  }
+
+  /**
+   * Lock a purchase order row for update
+   */
+  private async lockOrder(trx: Knex.Transaction, companyId: string, orderId: string): Promise<any> {
+    const order = await trx('purchase_orders')
+      .where('id', orderId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!order) {
+      throw new NotFoundError('Purchase order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * Line accounts must be expense or (inventory) asset accounts of this company
+   */
+  private async assertExpenseAccounts(
+    trx: Knex.Transaction,
+    companyId: string,
+    items: PurchaseOrderItemData[]
+  ): Promise<void> {
+    const accountIds = Array.from(new Set(items.map(item => item.expense_account_id).filter(Boolean))) as string[];
+    if (accountIds.length === 0) return;
+
+    const accounts = await trx('accounts')
+      .whereIn('id', accountIds)
+      .where('company_id', companyId)
+      .whereIn('type', [AccountType.EXPENSE, AccountType.ASSET])
+      .whereNull('deleted_at');
+
+    if (accounts.length !== accountIds.length) {
+      throw new ValidationError('Line accounts must be expense or asset accounts of this company');
+    }
+  }
+
+  /**
+   * Insert priced purchase order lines
+   */
+  private async insertItems(
+    trx: Knex.Transaction,
+    orderId: string,
+    items: Array<PurchaseOrderItemData & CalculatedItem>
+  ): Promise<void> {
+    await trx('purchase_order_items').insert(items.map((item, index) => ({
+      id: uuidv4(),
+      purchase_order_id: orderId,
+      line_number: index + 1,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_rate: item.tax_rate,
+      line_subtotal: item.line_subtotal,
+      tax_amount: item.tax_amount,
+      line_total: item.line_total,
+      expense_account_id: item.expense_account_id
+    })));
+  }
+
+  /**
+   * Load lines for a set of purchase orders
+   */
+  private async getItems(
+    db: Knex | Knex.Transaction,
+    orderIds: string[]
+  ): Promise<Array<PurchaseOrderItem & { purchase_order_id: string }>> {
+    if (orderIds.length === 0) return [];
+
+    const rows = await db('purchase_order_items')
+      .whereIn('purchase_order_id', orderIds)
+      .orderBy('line_number');
+
+    return rows.map((row: any) => ({ ...this.mapItem(row), purchase_order_id: row.purchase_order_id }));
+  }
+
+  /**
+   * Map a purchase order line row
+   */
+  private mapItem(row: any): PurchaseOrderItem {
+    return {
+      id: row.id,
+      line_number: row.line_number,
+      description: row.description,
+      quantity: parseFloat(row.quantity),
+      unit_price: parseFloat(row.unit_price),
+      tax_rate: parseFloat(row.tax_rate),
+      line_subtotal: toAmount(row.line_subtotal),
+      tax_amount: toAmount(row.tax_amount),
+      line_total: toAmount(row.line_total),
+      expense_account_id: row.expense_account_id,
+      quantity_received: parseFloat(row.quantity_received),
+      quantity_billed: parseFloat(row.quantity_billed)
+    };
+  }
+
+  /**
+   * Map a purchase order row and its lines
+   */
+  private mapOrder(row: any, items: Array<PurchaseOrderItem & { purchase_order_id?: string }>): PurchaseOrderWithItems {
+    return {
+      ...row,
+      order_date: toDateOnly(row.order_date),
+      expected_date: row.expected_date ? toDateOnly(row.expected_date) : null,
+      subtotal: toAmount(row.subtotal),
+      tax_total: toAmount(row.tax_total),
+      total: toAmount(row.total),
+      items: items.map(({ purchase_order_id, ...item }) => item)
+    };
+  }
+
+  /**
+   * Validate purchase order lines
+   */
+  private validateItems(items: PurchaseOrderItemData[]): void {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ValidationError('At least one line item is required');
+    }
+
+    items.forEach((item, index) => {
+      if (!item.description || item.description.trim().length === 0) {
+        throw new ValidationError(`Line ${index + 1}: description is required`);
+      }
+
+      if (!(item.quantity > 0)) {
+        throw new ValidationError(`Line ${index + 1}: quantity must be greater than zero`);
+      }
+
+      if (item.unit_price < 0) {
+        throw new ValidationError(`Line ${index + 1}: unit price cannot be negative`);
+      }
+    });
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
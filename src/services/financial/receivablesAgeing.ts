@@ -0,0 +1,158 @@
+import { roundMoney } from '../../utils/currencyUtils';
+import { daysBetween } from '../../utils/dateUtils';
+
+/**
+ * Receivables ageing, statement running balances and dunning escalation.
+ *
+ * Ageing bands are named by their lower bound, the way customer statements
+ * print them: Current (under 30 days), 30, 60, 90 and 120+ days, counted
+ * from the invoice date or, with the due_date basis, from the due date.
+ */
+
+export type AgeingBucket = 'current' | 'days_30' | 'days_60' | 'days_90' | 'days_120_plus';
+export type AgeingBasis = 'invoice_date' | 'due_date';
+
+export const AGEING_BUCKETS: Array<{ key: AgeingBucket; label: string; from_days: number }> = [
+  { key: 'current', label: 'Current', from_days: 0 },
+  { key: 'days_30', label: '30 days', from_days: 30 },
+  { key: 'days_60', label: '60 days', from_days: 60 },
+  { key: 'days_90', label: '90 days', from_days: 90 },
+  { key: 'days_120_plus', label: '120+ days', from_days: 120 }
+];
+
+export interface OpenInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  customer_id: string;
+  customer_code: string;
+  customer_name: string;
+  currency: string;
+  issue_date: string;
+  due_date: string;
+  balance: number;
+}
+
+export type AgeingAmounts = Record<AgeingBucket, number> & { total: number };
+
+export interface AgeingRow extends AgeingAmounts {
+  customer_id: string;
+  customer_code: string;
+  customer_name: string;
+  currency: string;
+}
+
+export type StatementTransactionType = 'invoice' | 'payment' | 'credit_note';
+
+export interface StatementTransaction {
+  date: string;
+  type: StatementTransactionType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+export interface StatementLine extends StatementTransaction {
+  balance: number;
+}
+
+export interface DunningStep {
+  level: number;
+  days_overdue: number;
+}
+
+const TYPE_ORDER: Record<StatementTransactionType, number> = { invoice: 0, credit_note: 1, payment: 2 };
+
+/**
+ * Empty bucket amounts
+ */
+export const emptyAgeing = (): AgeingAmounts => ({
+  current: 0,
+  days_30: 0,
+  days_60: 0,
+  days_90: 0,
+  days_120_plus: 0,
+  total: 0
+});
+
+/**
+ * Bucket for an age in days (not yet due counts as current)
+ */
+export const ageingBucket = (days: number): AgeingBucket => {
+  let bucket: AgeingBucket = 'current';
+  for (const band of AGEING_BUCKETS) {
+    if (days >= band.from_days) bucket = band.key;
+  }
+  return bucket;
+};
+
+/**
+ * Age open invoices per customer and currency as at a date
+ */
+export const buildAgeing = (invoices: OpenInvoice[], asOf: string, basis: AgeingBasis = 'invoice_date'): AgeingRow[] => {
+  const rows = new Map<string, AgeingRow>();
+
+  for (const invoice of invoices) {
+    if (invoice.balance === 0) continue;
+
+    const key = `${invoice.customer_id}|${invoice.currency}`;
+    const row = rows.get(key) || {
+      customer_id: invoice.customer_id,
+      customer_code: invoice.customer_code,
+      customer_name: invoice.customer_name,
+      currency: invoice.currency,
+      ...emptyAgeing()
+    };
+
+    const bucket = ageingBucket(daysBetween(basis === 'due_date' ? invoice.due_date : invoice.issue_date, asOf));
+    row[bucket] = roundMoney(row[bucket] + invoice.balance);
+    row.total = roundMoney(row.total + invoice.balance);
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values())
+    .filter(row => row.total !== 0)
+    .sort((a, b) => a.customer_name.localeCompare(b.customer_name) || a.currency.localeCompare(b.currency));
+};
+
+/**
+ * Bucket totals per currency
+ */
+export const ageingTotals = (rows: AgeingRow[]): Record<string, AgeingAmounts> => {
+  const totals: Record<string, AgeingAmounts> = {};
+  for (const row of rows) {
+    const total = totals[row.currency] || emptyAgeing();
+    for (const key of [...AGEING_BUCKETS.map(band => band.key), 'total'] as Array<keyof AgeingAmounts>) {
+      total[key] = roundMoney(total[key] + row[key]);
+    }
+    totals[row.currency] = total;
+  }
+  return totals;
+};
+
+/**
+ * Statement lines in date order with a running balance (invoices before
+ * credits and payments on the same day)
+ */
+export const buildStatementLines = (openingBalance: number, transactions: StatementTransaction[]): StatementLine[] => {
+  let balance = openingBalance;
+
+  return [...transactions]
+    .sort((a, b) => a.date.localeCompare(b.date) || TYPE_ORDER[a.type] - TYPE_ORDER[b.type] || a.reference.localeCompare(b.reference))
+    .map(transaction => {
+      balance = roundMoney(balance + transaction.debit - transaction.credit);
+      return { ...transaction, balance };
+    });
+};
+
+/**
+ * The highest dunning level an invoice has reached and not yet been sent,
+ * or null when no new reminder is due
+ */
+export const dunningLevelDue = (levels: DunningStep[], daysOverdue: number, currentLevel: number): number | null => {
+  const reached = levels
+    .filter(step => step.days_overdue <= daysOverdue && step.level > currentLevel)
+    .sort((a, b) => b.level - a.level);
+
+  return reached.length > 0 ? reached[0].level : null;
+};
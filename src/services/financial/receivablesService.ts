@@ -0,0 +1,874 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { invoiceService } from './invoiceService';
+import { customerService, Customer } from './customerService';
+import {
+  invoiceDocumentService,
+  buildLetterhead,
+  buildTemplateValues,
+  renderTemplate,
+  escapeHtml,
+  TEMPLATE_PLACEHOLDERS
+} from './invoiceDocumentService';
+import {
+  AGEING_BUCKETS,
+  buildAgeing,
+  ageingTotals,
+  buildStatementLines,
+  dunningLevelDue,
+  emptyAgeing,
+  AgeingAmounts,
+  AgeingBasis,
+  AgeingRow,
+  OpenInvoice,
+  StatementLine,
+  StatementTransaction
+} from './receivablesAgeing';
+import { RenderedReport } from './reportService';
+import { companyService, CompanyWithDepartments } from '../../core/company/companyService';
+import { emailService } from '../email';
+import { logger } from '../../utils/logger';
+import { roundMoney, toAmount, formatMoney } from '../../utils/currencyUtils';
+import { toDateOnly, startOfMonth, daysBetween } from '../../utils/dateUtils';
+import { toCsv } from '../../utils/csvUtils';
+import { renderTablePdf, PdfTableRow } from '../../utils/pdfUtils';
+import { InvoiceStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface AgeingOptions {
+  as_of_date?: Date | string;
+  basis?: AgeingBasis;
+  customer_id?: string;
+}
+
+export interface AgeingReport {
+  company_name: string;
+  as_of_date: string;
+  basis: AgeingBasis;
+  rows: AgeingRow[];
+  totals: Record<string, AgeingAmounts>;
+}
+
+export interface StatementOptions {
+  start_date?: Date | string;
+  end_date?: Date | string;
+  currency?: string;
+}
+
+export interface CustomerStatement {
+  company_name: string;
+  customer: Customer;
+  currency: string;
+  start_date: string;
+  end_date: string;
+  opening_balance: number;
+  lines: StatementLine[];
+  closing_balance: number;
+  ageing: AgeingAmounts;
+}
+
+export interface DunningLevel {
+  id: string;
+  company_id: string;
+  level: number;
+  name: string;
+  days_overdue: number;
+  email_subject: string;
+  email_body: string;
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateDunningLevelData {
+  level: number;
+  name: string;
+  days_overdue: number;
+  email_subject: string;
+  email_body: string;
+  is_active?: boolean;
+}
+
+export type UpdateDunningLevelData = Partial<CreateDunningLevelData>;
+
+export interface DunningReminder {
+  invoice_id: string;
+  invoice_number: string;
+  customer_name: string;
+  level: number;
+  level_name: string;
+  days_overdue: number;
+  recipient: string | null;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+export interface DunningRunResult {
+  as_of_date: string;
+  reminders: DunningReminder[];
+}
+
+// Reminder templates accept the invoice placeholders plus the dunning ones
+export const DUNNING_PLACEHOLDERS = [...TEMPLATE_PLACEHOLDERS, 'days_overdue', 'level_name'] as const;
+
+const DEFAULT_DUNNING_LEVELS: CreateDunningLevelData[] = [
+  {
+    level: 1,
+    name: 'First reminder',
+    days_overdue: 7,
+    email_subject: 'Payment reminder: invoice {{invoice_number}}',
+    email_body: 'Dear {{customer_name}},\n\nOur records show that invoice {{invoice_number}} was due on {{due_date}} and {{currency}} {{balance_due}} is still outstanding.\n\nPlease arrange payment at your earliest convenience.\n\nKind regards,\n{{company_name}}'
+  },
+  {
+    level: 2,
+    name: 'Second reminder',
+    days_overdue: 30,
+    email_subject: 'Second reminder: invoice {{invoice_number}} is {{days_overdue}} days overdue',
+    email_body: 'Dear {{customer_name}},\n\nInvoice {{invoice_number}} is now {{days_overdue}} days overdue with {{currency}} {{balance_due}} outstanding. We have not received payment following our first reminder.\n\nPlease settle the balance within 7 days or contact us to discuss.\n\nKind regards,\n{{company_name}}'
+  },
+  {
+    level: 3,
+    name: 'Final notice',
+    days_overdue: 60,
+    email_subject: 'Final notice: invoice {{invoice_number}}',
+    email_body: 'Dear {{customer_name}},\n\nDespite previous reminders, {{currency}} {{balance_due}} on invoice {{invoice_number}} remains unpaid {{days_overdue}} days after the due date.\n\nUnless payment is received within 7 days, your account may be placed on hold and the matter referred for collection.\n\nKind regards,\n{{company_name}}'
+  }
+];
+
+// Invoices that never reached the customer's account
+const EXCLUDED_STATUSES = [InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED];
+
+export class ReceivablesService {
+  /**
+   * Aged receivables per customer as at a date, from invoice totals less
+   * payments and credit notes dated on or before it
+   */
+  async getAgeing(companyId: string, options: AgeingOptions = {}): Promise<AgeingReport> {
+    try {
+      const asOf = toDateOnly(options.as_of_date || new Date());
+      const basis = options.basis || 'invoice_date';
+
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const invoices = await this.openInvoices(companyId, asOf, { customer_id: options.customer_id });
+      const rows = buildAgeing(invoices, asOf, basis);
+
+      return {
+        company_name: company.name,
+        as_of_date: asOf,
+        basis,
+        rows,
+        totals: ageingTotals(rows)
+      };
+    } catch (error) {
+      logger.error('Error building receivables ageing', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Render an ageing report to CSV or PDF
+   */
+  async renderAgeing(report: AgeingReport, format: 'csv' | 'pdf'): Promise<RenderedReport> {
+    const filename = `ar-ageing-${report.as_of_date}`;
+    const bucketKeys = AGEING_BUCKETS.map(band => band.key);
+
+    if (format === 'csv') {
+      const records = [
+        ...report.rows.map(row => ({
+          customer_code: row.customer_code,
+          customer_name: row.customer_name,
+          currency: row.currency,
+          ...Object.fromEntries(bucketKeys.map(key => [key, row[key].toFixed(2)])),
+          total: row.total.toFixed(2)
+        })),
+        ...Object.entries(report.totals).map(([currency, total]) => ({
+          customer_name: 'Total',
+          currency,
+          ...Object.fromEntries(bucketKeys.map(key => [key, total[key].toFixed(2)])),
+          total: total.total.toFixed(2)
+        }))
+      ];
+
+      return {
+        content: toCsv(['customer_code', 'customer_name', 'currency', ...bucketKeys, 'total'], records),
+        content_type: 'text/csv; charset=utf-8',
+        filename: `${filename}.csv`
+      };
+    }
+
+    const rows: PdfTableRow[] = [
+      ...report.rows.map(row => ({
+        cells: [
+          `${row.customer_code}  ${row.customer_name}`,
+          row.currency,
+          ...bucketKeys.map(key => formatMoney(row[key])),
+          formatMoney(row.total)
+        ]
+      })),
+      ...Object.entries(report.totals).map(([currency, total]) => ({
+        cells: ['Total', currency, ...bucketKeys.map(key => formatMoney(total[key])), formatMoney(total.total)],
+        bold: true
+      }))
+    ];
+
+    const content = await renderTablePdf({
+      title: 'Aged Receivables',
+      subtitle: [
+        report.company_name,
+        `As at ${report.as_of_date} - aged by ${report.basis === 'due_date' ? 'due date' : 'invoice date'}`
+      ],
+      columns: [
+        { label: 'Customer', width: 3 },
+        { label: 'Cur.', width: 0.6 },
+        ...AGEING_BUCKETS.map(band => ({ label: band.label, width: 1.2, align: 'right' as const })),
+        { label: 'Total', width: 1.3, align: 'right' }
+      ],
+      rows,
+      landscape: true
+    });
+
+    return {
+      content,
+      content_type: 'application/pdf',
+      filename: `${filename}.pdf`
+    };
+  }
+
+  /**
+   * Customer statement for a period (the month to date by default) with a
+   * running balance and the ageing of the closing balance
+   */
+  async getCustomerStatement(
+    companyId: string,
+    customerId: string,
+    options: StatementOptions = {}
+  ): Promise<CustomerStatement> {
+    try {
+      const db = getDatabase();
+      const endDate = toDateOnly(options.end_date || new Date());
+      const startDate = toDateOnly(options.start_date || startOfMonth(endDate));
+
+      if (startDate > endDate) {
+        throw new ValidationError('Start date must be on or before end date');
+      }
+
+      const customer = await customerService.getCustomerById(companyId, customerId);
+      if (!customer) {
+        throw new NotFoundError('Customer not found');
+      }
+
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const filters = { customer_id: customerId, currency: options.currency || customer.currency };
+
+      const [opening, invoices, payments, creditNotes] = await Promise.all([
+        this.balanceBefore(companyId, startDate, filters),
+        this.accountInvoices(db, companyId, filters)
+          .whereBetween('invoices.issue_date', [startDate, endDate])
+          .select('invoices.invoice_number', 'invoices.issue_date', 'invoices.total', 'invoices.reference'),
+        this.accountInvoices(db, companyId, filters)
+          .join('invoice_payments', 'invoice_payments.invoice_id', 'invoices.id')
+          .whereBetween('invoice_payments.payment_date', [startDate, endDate])
+          .select('invoices.invoice_number', 'invoice_payments.payment_date', 'invoice_payments.amount', 'invoice_payments.reference'),
+        this.accountInvoices(db, companyId, filters)
+          .join('credit_notes', 'credit_notes.invoice_id', 'invoices.id')
+          .whereBetween('credit_notes.issue_date', [startDate, endDate])
+          .select('invoices.invoice_number', 'credit_notes.credit_note_number', 'credit_notes.issue_date', 'credit_notes.total')
+      ]);
+
+      const transactions: StatementTransaction[] = [
+        ...invoices.map((row: any) => ({
+          date: toDateOnly(row.issue_date),
+          type: 'invoice' as const,
+          reference: row.invoice_number,
+          description: row.reference ? `Invoice - ${row.reference}` : 'Invoice',
+          debit: toAmount(row.total),
+          credit: 0
+        })),
+        ...payments.map((row: any) => ({
+          date: toDateOnly(row.payment_date),
+          type: 'payment' as const,
+          reference: row.reference || row.invoice_number,
+          description: `Payment - ${row.invoice_number}`,
+          debit: 0,
+          credit: toAmount(row.amount)
+        })),
+        ...creditNotes.map((row: any) => ({
+          date: toDateOnly(row.issue_date),
+          type: 'credit_note' as const,
+          reference: row.credit_note_number,
+          description: `Credit note - ${row.invoice_number}`,
+          debit: 0,
+          credit: toAmount(row.total)
+        }))
+      ];
+
+      const lines = buildStatementLines(opening, transactions);
+      const [ageing] = buildAgeing(await this.openInvoices(companyId, endDate, filters), endDate);
+
+      return {
+        company_name: company.name,
+        customer,
+        currency: filters.currency,
+        start_date: startDate,
+        end_date: endDate,
+        opening_balance: opening,
+        lines,
+        closing_balance: lines.length > 0 ? lines[lines.length - 1].balance : opening,
+        ageing: ageing || emptyAgeing()
+      };
+    } catch (error) {
+      logger.error('Error building customer statement', { error, companyId, customerId });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a customer statement to PDF with the company letterhead
+   */
+  async renderStatementPdf(companyId: string, statement: CustomerStatement): Promise<RenderedReport> {
+    try {
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const { customer } = statement;
+      const rows: PdfTableRow[] = [
+        { cells: [statement.start_date, '', 'Opening balance', '', '', formatMoney(statement.opening_balance)], bold: true },
+        ...statement.lines.map(line => ({
+          cells: [
+            line.date,
+            line.reference,
+            line.description,
+            line.debit ? formatMoney(line.debit) : '',
+            line.credit ? formatMoney(line.credit) : '',
+            formatMoney(line.balance)
+          ]
+        })),
+        { cells: [statement.end_date, '', 'Closing balance', '', '', formatMoney(statement.closing_balance)], bold: true }
+      ];
+
+      const content = await renderTablePdf({
+        title: 'Statement',
+        letterhead: buildLetterhead(company),
+        subtitle: [
+          `Customer: ${customer.name} (${customer.customer_code})`,
+          [customer.address_line_1, customer.address_line_2].filter(Boolean).join(', ') || null,
+          [customer.city, customer.postal_code, customer.country].filter(Boolean).join(', ') || null,
+          '',
+          `Period: ${statement.start_date} to ${statement.end_date}    Currency: ${statement.currency}`
+        ].filter((line): line is string => line !== null),
+        columns: [
+          { label: 'Date', width: 1.2 },
+          { label: 'Reference', width: 1.4 },
+          { label: 'Description', width: 2.6 },
+          { label: 'Debit', width: 1.2, align: 'right' },
+          { label: 'Credit', width: 1.2, align: 'right' },
+          { label: 'Balance', width: 1.3, align: 'right' }
+        ],
+        rows,
+        footer: [
+          AGEING_BUCKETS.map(band => `${band.label}: ${formatMoney(statement.ageing[band.key])}`).join('    '),
+          `Amount due: ${statement.currency} ${formatMoney(statement.closing_balance)}`
+        ]
+      });
+
+      return {
+        content,
+        content_type: 'application/pdf',
+        filename: `statement-${customer.customer_code}-${statement.end_date}.pdf`
+      };
+    } catch (error) {
+      logger.error('Error rendering customer statement', { error, companyId, customerId: statement.customer.id });
+      throw error;
+    }
+  }
+
+  /**
+   * List the company's dunning levels
+   */
+  async getDunningLevels(companyId: string): Promise<DunningLevel[]> {
+    try {
+      const db = getDatabase();
+      return db('dunning_levels').where('company_id', companyId).orderBy('level');
+    } catch (error) {
+      logger.error('Error fetching dunning levels', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a dunning level
+   */
+  async createDunningLevel(
+    companyId: string,
+    data: CreateDunningLevelData,
+    createdBy: string,
+    trx?: Knex.Transaction
+  ): Promise<DunningLevel> {
+    try {
+      const db = trx || getDatabase();
+
+      this.validatePlaceholders(data);
+      await this.validateEscalation(db, companyId, data.level, data.days_overdue);
+
+      const [level] = await db('dunning_levels')
+        .insert({
+          id: uuidv4(),
+          company_id: companyId,
+          level: data.level,
+          name: data.name,
+          days_overdue: data.days_overdue,
+          email_subject: data.email_subject,
+          email_body: data.email_body,
+          is_active: data.is_active ?? true,
+          created_by: createdBy,
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning('*');
+
+      logger.info('Dunning level created', { companyId, level: data.level, createdBy });
+
+      return level;
+    } catch (error) {
+      logger.error('Error creating dunning level', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the default three-step reminder sequence (7, 30 and 60 days
+   * overdue) for a company without dunning levels
+   */
+  async createDefaultDunningLevels(companyId: string, createdBy: string): Promise<DunningLevel[]> {
+    try {
+      const db = getDatabase();
+
+      const existing = await db('dunning_levels').where('company_id', companyId).first();
+      if (existing) {
+        throw new ConflictError('Dunning levels already exist; add further levels individually');
+      }
+
+      await db.transaction(async (trx) => {
+        for (const definition of DEFAULT_DUNNING_LEVELS) {
+          await this.createDunningLevel(companyId, definition, createdBy, trx);
+        }
+      });
+
+      logger.info('Default dunning levels created', { companyId, createdBy });
+
+      return this.getDunningLevels(companyId);
+    } catch (error) {
+      logger.error('Error creating default dunning levels', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a dunning level
+   */
+  async updateDunningLevel(
+    companyId: string,
+    levelId: string,
+    data: UpdateDunningLevelData,
+    updatedBy: string
+  ): Promise<DunningLevel> {
+    try {
+      const db = getDatabase();
+
+      const current = await db('dunning_levels').where({ id: levelId, company_id: companyId }).first();
+      if (!current) {
+        throw new NotFoundError('Dunning level not found');
+      }
+
+      this.validatePlaceholders(data);
+      if (data.level !== undefined || data.days_overdue !== undefined) {
+        await this.validateEscalation(
+          db,
+          companyId,
+          data.level ?? current.level,
+          data.days_overdue ?? current.days_overdue,
+          levelId
+        );
+      }
+
+      const [level] = await db('dunning_levels')
+        .where({ id: levelId, company_id: companyId })
+        .update({ ...data, updated_by: updatedBy, updated_at: new Date() })
+        .returning('*');
+
+      logger.info('Dunning level updated', { companyId, levelId, updatedBy });
+
+      return level;
+    } catch (error) {
+      logger.error('Error updating dunning level', { error, companyId, levelId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a dunning level; invoices that already reached it keep their
+   * level and escalate to the next one
+   */
+  async deleteDunningLevel(companyId: string, levelId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      const deleted = await db('dunning_levels').where({ id: levelId, company_id: companyId }).del();
+      if (deleted === 0) {
+        throw new NotFoundError('Dunning level not found');
+      }
+
+      logger.info('Dunning level deleted', { companyId, levelId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting dunning level', { error, companyId, levelId });
+      throw error;
+    }
+  }
+
+  /**
+   * Email the next reminder for every overdue invoice that reached a new
+   * dunning level. Paid and cancelled invoices drop out on their own since
+   * only open invoices with a balance are considered.
+   */
+  async runDunning(companyId: string, date: Date | string, userId: string | null): Promise<DunningRunResult> {
+    try {
+      const db = getDatabase();
+      const asOf = toDateOnly(date);
+
+      const levels: DunningLevel[] = await db('dunning_levels')
+        .where({ company_id: companyId, is_active: true })
+        .orderBy('level');
+
+      if (levels.length === 0) {
+        return { as_of_date: asOf, reminders: [] };
+      }
+
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const candidates = await db('invoices')
+        .join('customers', 'invoices.customer_id', 'customers.id')
+        .where('invoices.company_id', companyId)
+        .whereIn('invoices.status', [InvoiceStatus.SENT, InvoiceStatus.OVERDUE])
+        .where('invoices.balance_due', '>', 0)
+        .where('invoices.due_date', '<', asOf)
+        .orderBy('invoices.due_date')
+        .select(
+          'invoices.id',
+          'invoices.invoice_number',
+          'invoices.due_date',
+          'invoices.dunning_level',
+          'invoices.last_reminder_at',
+          'customers.name as customer_name',
+          'customers.email as customer_email'
+        );
+
+      const reminders: DunningReminder[] = [];
+
+      for (const candidate of candidates) {
+        const daysOverdue = daysBetween(toDateOnly(candidate.due_date), asOf);
+        const levelNumber = dunningLevelDue(levels, daysOverdue, candidate.dunning_level);
+        if (levelNumber === null) continue;
+
+        const level = levels.find(item => item.level === levelNumber)!;
+        const reminder = await this.sendReminder(companyId, company, candidate, level, daysOverdue, userId);
+        if (reminder) reminders.push(reminder);
+      }
+
+      logger.info('Dunning run completed', {
+        companyId,
+        asOf,
+        sent: reminders.filter(reminder => reminder.status === 'sent').length,
+        failed: reminders.filter(reminder => reminder.status === 'failed').length
+      });
+
+      return { as_of_date: asOf, reminders };
+    } catch (error) {
+      logger.error('Error running dunning', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Send due reminders for every company with active dunning levels
+   */
+  async runScheduledDunning(date: Date | string): Promise<void> {
+    const db = getDatabase();
+    const companyIds = await db('dunning_levels')
+      .where('is_active', true)
+      .distinct('company_id')
+      .pluck('company_id');
+
+    for (const companyId of companyIds) {
+      try {
+        const result = await this.runDunning(companyId, date, null);
+        for (const reminder of result.reminders.filter(item => item.status === 'failed')) {
+          logger.warn('Scheduled payment reminder failed', {
+            companyId,
+            invoiceId: reminder.invoice_id,
+            level: reminder.level,
+            error: reminder.error
+          });
+        }
+      } catch (error) {
+        logger.error('Scheduled dunning failed', {
+          companyId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Send one reminder. The level is claimed before the email goes out so
+   * overlapping runs never send it twice, and released again on failure so
+   * the next run retries. Returns null when another run got there first.
+   */
+  private async sendReminder(
+    companyId: string,
+    company: CompanyWithDepartments,
+    candidate: any,
+    level: DunningLevel,
+    daysOverdue: number,
+    userId: string | null
+  ): Promise<DunningReminder | null> {
+    const db = getDatabase();
+    const recipient: string | null = candidate.customer_email || null;
+    const reminder: DunningReminder = {
+      invoice_id: candidate.id,
+      invoice_number: candidate.invoice_number,
+      customer_name: candidate.customer_name,
+      level: level.level,
+      level_name: level.name,
+      days_overdue: daysOverdue,
+      recipient,
+      status: 'sent'
+    };
+
+    if (!recipient) {
+      logger.warn('Payment reminder skipped: customer has no email address', { companyId, invoiceId: candidate.id });
+      return { ...reminder, status: 'failed', error: 'Customer has no email address' };
+    }
+
+    const claimed = await db('invoices')
+      .where({ id: candidate.id, company_id: companyId })
+      .where('dunning_level', '<', level.level)
+      .whereIn('status', [InvoiceStatus.SENT, InvoiceStatus.OVERDUE])
+      .update({ dunning_level: level.level, last_reminder_at: new Date(), updated_at: new Date() });
+
+    if (claimed === 0) return null;
+
+    let subject = level.email_subject;
+    try {
+      const invoice = await invoiceService.getInvoiceById(companyId, candidate.id);
+      const values: Record<typeof DUNNING_PLACEHOLDERS[number], string> = {
+        ...buildTemplateValues(invoice!, company),
+        days_overdue: String(daysOverdue),
+        level_name: level.name
+      };
+      subject = renderTemplate(level.email_subject, values);
+      const message = renderTemplate(level.email_body, values);
+      const pdf = await invoiceDocumentService.renderInvoicePdf(companyId, candidate.id);
+
+      await emailService.sendPaymentReminderEmail(recipient, {
+        subject,
+        companyName: escapeHtml(company.name),
+        invoiceNumber: escapeHtml(candidate.invoice_number),
+        levelName: escapeHtml(level.name),
+        message: escapeHtml(message),
+        attachmentName: pdf.filename,
+        attachmentContent: pdf.content
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      await db('invoices')
+        .where({ id: candidate.id, company_id: companyId, dunning_level: level.level })
+        .update({ dunning_level: candidate.dunning_level, last_reminder_at: candidate.last_reminder_at });
+      await invoiceService.recordHistory(companyId, candidate.id, 'email_failed', userId, {
+        recipient,
+        details: { subject, dunning_level: level.level, error: message }
+      });
+
+      return { ...reminder, status: 'failed', error: message };
+    }
+
+    await invoiceService.recordHistory(companyId, candidate.id, 'reminder_sent', userId, {
+      recipient,
+      details: { subject, dunning_level: level.level, level_name: level.name, days_overdue: daysOverdue }
+    });
+
+    return reminder;
+  }
+
+  /**
+   * Invoices on the customer's account (issued and not cancelled)
+   */
+  private accountInvoices(
+    db: Knex,
+    companyId: string,
+    filters: { customer_id?: string; currency?: string }
+  ): Knex.QueryBuilder {
+    const query = db('invoices')
+      .where('invoices.company_id', companyId)
+      .whereNotIn('invoices.status', EXCLUDED_STATUSES);
+
+    if (filters.customer_id) query.where('invoices.customer_id', filters.customer_id);
+    if (filters.currency) query.where('invoices.currency', filters.currency);
+
+    return query;
+  }
+
+  /**
+   * Invoice balances as at a date
+   */
+  private async openInvoices(
+    companyId: string,
+    asOf: string,
+    filters: { customer_id?: string; currency?: string }
+  ): Promise<OpenInvoice[]> {
+    const db = getDatabase();
+
+    const [invoices, payments, credits] = await Promise.all([
+      this.accountInvoices(db, companyId, filters)
+        .join('customers', 'invoices.customer_id', 'customers.id')
+        .where('invoices.issue_date', '<=', asOf)
+        .select(
+          'invoices.id',
+          'invoices.invoice_number',
+          'invoices.customer_id',
+          'customers.customer_code',
+          'customers.name as customer_name',
+          'invoices.currency',
+          'invoices.issue_date',
+          'invoices.due_date',
+          'invoices.total'
+        ),
+      this.accountInvoices(db, companyId, filters)
+        .join('invoice_payments', 'invoice_payments.invoice_id', 'invoices.id')
+        .where('invoice_payments.payment_date', '<=', asOf)
+        .groupBy('invoices.id')
+        .select('invoices.id', db.raw('SUM(invoice_payments.amount) as amount')),
+      this.accountInvoices(db, companyId, filters)
+        .join('credit_notes', 'credit_notes.invoice_id', 'invoices.id')
+        .where('credit_notes.issue_date', '<=', asOf)
+        .groupBy('invoices.id')
+        .select('invoices.id', db.raw('SUM(credit_notes.total) as amount'))
+    ]);
+
+    const settled = new Map<string, number>();
+    for (const row of [...payments, ...credits]) {
+      settled.set(row.id, roundMoney((settled.get(row.id) || 0) + toAmount(row.amount)));
+    }
+
+    return invoices.map((row: any) => ({
+      invoice_id: row.id,
+      invoice_number: row.invoice_number,
+      customer_id: row.customer_id,
+      customer_code: row.customer_code,
+      customer_name: row.customer_name,
+      currency: row.currency,
+      issue_date: toDateOnly(row.issue_date),
+      due_date: toDateOnly(row.due_date),
+      balance: roundMoney(toAmount(row.total) - (settled.get(row.id) || 0))
+    }));
+  }
+
+  /**
+   * Account balance brought forward from before a date
+   */
+  private async balanceBefore(
+    companyId: string,
+    date: string,
+    filters: { customer_id?: string; currency?: string }
+  ): Promise<number> {
+    const db = getDatabase();
+
+    const [invoiced, paid, credited] = await Promise.all([
+      this.accountInvoices(db, companyId, filters)
+        .where('invoices.issue_date', '<', date)
+        .sum({ amount: 'invoices.total' })
+        .first(),
+      this.accountInvoices(db, companyId, filters)
+        .join('invoice_payments', 'invoice_payments.invoice_id', 'invoices.id')
+        .where('invoice_payments.payment_date', '<', date)
+        .sum({ amount: 'invoice_payments.amount' })
+        .first(),
+      this.accountInvoices(db, companyId, filters)
+        .join('credit_notes', 'credit_notes.invoice_id', 'invoices.id')
+        .where('credit_notes.issue_date', '<', date)
+        .sum({ amount: 'credit_notes.total' })
+        .first()
+    ]);
+
+    return roundMoney(toAmount(invoiced?.amount) - toAmount(paid?.amount) - toAmount(credited?.amount));
+  }
+
+  /**
+   * Reject placeholders reminder templates do not support
+   */
+  private validatePlaceholders(data: UpdateDunningLevelData): void {
+    for (const key of ['email_subject', 'email_body'] as const) {
+      const value = data[key];
+      if (typeof value !== 'string') continue;
+
+      const unknown = Array.from(value.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+        .map(match => match[1])
+        .filter(name => !(DUNNING_PLACEHOLDERS as readonly string[]).includes(name));
+      if (unknown.length > 0) {
+        throw new ValidationError(`Unknown placeholder(s) in ${key}: ${unknown.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Levels are unique and each one must wait longer than the level below it
+   */
+  private async validateEscalation(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    level: number,
+    daysOverdue: number,
+    excludeId?: string
+  ): Promise<void> {
+    const others: DunningLevel[] = await db('dunning_levels')
+      .where('company_id', companyId)
+      .modify(query => {
+        if (excludeId) query.whereNot('id', excludeId);
+      });
+
+    if (others.some(other => other.level === level)) {
+      throw new ConflictError(`Dunning level ${level} already exists`);
+    }
+
+    const outOfOrder = others.find(other =>
+      (other.level < level && other.days_overdue >= daysOverdue) ||
+      (other.level > level && other.days_overdue <= daysOverdue)
+    );
+    if (outOfOrder) {
+      throw new ValidationError(
+        `Level ${level} must escalate in order: level ${outOfOrder.level} is at ${outOfOrder.days_overdue} days overdue`
+      );
+    }
+  }
+}
+
+export const receivablesService = new ReceivablesService();
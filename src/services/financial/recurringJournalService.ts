@@ -0,0 +1,666 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { ledgerService, JournalEntryWithLines } from './ledgerService';
+import {
+  nextOccurrence,
+  dueOccurrences,
+  RecurringFrequency,
+  RecurringSchedule
+} from './recurringSchedule';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount, amountsEqual } from '../../utils/currencyUtils';
+import { toDateOnly, addDays } from '../../utils/dateUtils';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export const RECURRING_JOURNAL_SOURCE_TYPE = 'recurring_journal';
+
+export interface RecurringJournalLineData {
+  account_id: string;
+  cost_centre_id?: string | null;
+  description?: string;
+  debit?: number;
+  credit?: number;
+}
+
+export interface RecurringJournalLine extends RecurringJournalLineData {
+  id: string;
+  account_number: string;
+  account_name: string;
+  debit: number;
+  credit: number;
+  line_number: number;
+}
+
+export interface RecurringJournalRun {
+  id: string;
+  occurrence_date: string;
+  status: 'draft' | 'posted' | 'skipped';
+  journal_entry_id: string | null;
+  entry_number: string | null;
+  reversal_entry_id: string | null;
+  created_at: Date;
+}
+
+export interface RecurringJournal {
+  id: string;
+  company_id: string;
+  name: string;
+  description: string;
+  reference?: string | null;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string | null;
+  last_run_date: string | null;
+  auto_post: boolean;
+  auto_reverse: boolean;
+  catch_up: boolean;
+  is_active: boolean;
+  last_error?: string | null;
+  total: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  lines?: RecurringJournalLine[];
+  runs?: RecurringJournalRun[];
+}
+
+export interface CreateRecurringJournalData {
+  name: string;
+  description: string;
+  reference?: string;
+  frequency: RecurringFrequency;
+  start_date: Date | string;
+  end_date?: Date | string | null;
+  auto_post?: boolean;
+  auto_reverse?: boolean;
+  catch_up?: boolean;
+  lines: RecurringJournalLineData[];
+}
+
+export type UpdateRecurringJournalData = Partial<CreateRecurringJournalData> & {
+  is_active?: boolean;
+};
+
+export interface RecurringRunResult {
+  recurring_journal_id: string;
+  name: string;
+  entries: Array<{
+    occurrence_date: string;
+    journal_entry_id: string;
+    entry_number: string;
+    status: 'draft' | 'posted';
+    reversal_entry_id: string | null;
+  }>;
+  skipped: string[];
+  error?: string;
+}
+
+export class RecurringJournalService {
+  /**
+   * Get recurring journal templates
+   */
+  async getRecurringJournals(companyId: string, filters: { is_active?: boolean } = {}): Promise<RecurringJournal[]> {
+    try {
+      const db = getDatabase();
+      const totals = db('recurring_journal_lines')
+        .select('recurring_journal_id')
+        .sum({ total: 'debit' })
+        .groupBy('recurring_journal_id')
+        .as('totals');
+
+      let query = db('recurring_journals')
+        .select('recurring_journals.*', 'totals.total')
+        .leftJoin(totals, 'totals.recurring_journal_id', 'recurring_journals.id')
+        .where('recurring_journals.company_id', companyId);
+
+      if (filters.is_active !== undefined) {
+        query = query.where('recurring_journals.is_active', filters.is_active);
+      }
+
+      const rows = await query.orderBy('recurring_journals.name');
+
+      return rows.map((row: any) => this.mapTemplate(row));
+    } catch (error) {
+      logger.error('Error fetching recurring journals', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a template with its lines and recent runs
+   */
+  async getRecurringJournalById(
+    companyId: string,
+    templateId: string,
+    trx?: Knex.Transaction
+  ): Promise<RecurringJournal | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('recurring_journals')
+        .where('id', templateId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const lines = await db('recurring_journal_lines')
+        .select('recurring_journal_lines.*', 'accounts.account_number', 'accounts.name as account_name')
+        .join('accounts', 'recurring_journal_lines.account_id', 'accounts.id')
+        .where('recurring_journal_lines.recurring_journal_id', templateId)
+        .orderBy('recurring_journal_lines.line_number');
+
+      const runs = await db('recurring_journal_runs')
+        .select('recurring_journal_runs.*', 'journal_entries.entry_number')
+        .leftJoin('journal_entries', 'recurring_journal_runs.journal_entry_id', 'journal_entries.id')
+        .where('recurring_journal_runs.recurring_journal_id', templateId)
+        .orderBy('recurring_journal_runs.occurrence_date', 'desc')
+        .limit(24);
+
+      const mappedLines = lines.map((line: any) => ({
+        ...line,
+        debit: toAmount(line.debit),
+        credit: toAmount(line.credit)
+      }));
+
+      return {
+        ...this.mapTemplate({ ...row, total: sumMoney(mappedLines.map((line: any) => line.debit)) }),
+        lines: mappedLines,
+        runs: runs.map((run: any) => ({
+          id: run.id,
+          occurrence_date: toDateOnly(run.occurrence_date),
+          status: run.status,
+          journal_entry_id: run.journal_entry_id,
+          entry_number: run.entry_number || null,
+          reversal_entry_id: run.reversal_entry_id,
+          created_at: run.created_at
+        }))
+      };
+    } catch (error) {
+      logger.error('Error fetching recurring journal by ID', { error, companyId, templateId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a recurring journal template
+   */
+  async createRecurringJournal(
+    companyId: string,
+    data: CreateRecurringJournalData,
+    createdBy: string
+  ): Promise<RecurringJournal> {
+    try {
+      const db = getDatabase();
+      const templateId = uuidv4();
+
+      const schedule: RecurringSchedule = {
+        frequency: data.frequency,
+        start_date: toDateOnly(data.start_date),
+        end_date: data.end_date ? toDateOnly(data.end_date) : null
+      };
+      this.validateTemplate(schedule, data.auto_post ?? true, data.auto_reverse ?? false, data.lines);
+
+      await db.transaction(async (trx) => {
+        await this.assertAccounts(trx, companyId, data.lines);
+
+        await trx('recurring_journals').insert({
+          id: templateId,
+          company_id: companyId,
+          name: data.name.trim(),
+          description: data.description.trim(),
+          reference: data.reference,
+          frequency: schedule.frequency,
+          start_date: schedule.start_date,
+          end_date: schedule.end_date,
+          next_run_date: nextOccurrence(schedule, null),
+          auto_post: data.auto_post ?? true,
+          auto_reverse: data.auto_reverse ?? false,
+          catch_up: data.catch_up ?? true,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        await this.insertLines(trx, templateId, data.lines);
+      });
+
+      logger.info('Recurring journal created successfully', { templateId, companyId, createdBy });
+
+      return (await this.getRecurringJournalById(companyId, templateId))!;
+    } catch (error) {
+      logger.error('Error creating recurring journal', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template; lines are replaced when given and the next run date
+   * follows a changed schedule
+   */
+  async updateRecurringJournal(
+    companyId: string,
+    templateId: string,
+    data: UpdateRecurringJournalData,
+    updatedBy: string
+  ): Promise<RecurringJournal> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const template = await this.lockTemplate(trx, companyId, templateId);
+
+        const schedule: RecurringSchedule = {
+          frequency: data.frequency ?? template.frequency,
+          start_date: data.start_date ? toDateOnly(data.start_date) : toDateOnly(template.start_date),
+          end_date: data.end_date !== undefined
+            ? (data.end_date ? toDateOnly(data.end_date) : null)
+            : (template.end_date ? toDateOnly(template.end_date) : null)
+        };
+
+        const lines = data.lines ?? (await trx('recurring_journal_lines').where('recurring_journal_id', templateId))
+          .map((line: any) => ({ ...line, debit: toAmount(line.debit), credit: toAmount(line.credit) }));
+
+        this.validateTemplate(
+          schedule,
+          data.auto_post ?? template.auto_post,
+          data.auto_reverse ?? template.auto_reverse,
+          lines
+        );
+
+        const updateData: Record<string, any> = {
+          frequency: schedule.frequency,
+          start_date: schedule.start_date,
+          end_date: schedule.end_date,
+          next_run_date: nextOccurrence(schedule, template.last_run_date ? toDateOnly(template.last_run_date) : null),
+          updated_by: updatedBy,
+          updated_at: new Date()
+        };
+
+        if (data.name !== undefined) updateData.name = data.name.trim();
+        if (data.description !== undefined) updateData.description = data.description.trim();
+        if (data.reference !== undefined) updateData.reference = data.reference;
+        if (data.auto_post !== undefined) updateData.auto_post = data.auto_post;
+        if (data.auto_reverse !== undefined) updateData.auto_reverse = data.auto_reverse;
+        if (data.catch_up !== undefined) updateData.catch_up = data.catch_up;
+        if (data.is_active !== undefined) updateData.is_active = data.is_active;
+
+        await trx('recurring_journals').where('id', templateId).update(updateData);
+
+        if (data.lines) {
+          await this.assertAccounts(trx, companyId, data.lines);
+          await trx('recurring_journal_lines').where('recurring_journal_id', templateId).del();
+          await this.insertLines(trx, templateId, data.lines);
+        }
+      });
+
+      logger.info('Recurring journal updated successfully', { templateId, companyId, updatedBy });
+
+      return (await this.getRecurringJournalById(companyId, templateId))!;
+    } catch (error) {
+      logger.error('Error updating recurring journal', { error, companyId, templateId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template that has never run
+   */
+  async deleteRecurringJournal(companyId: string, templateId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        await this.lockTemplate(trx, companyId, templateId);
+
+        const run = await trx('recurring_journal_runs').where('recurring_journal_id', templateId).first();
+        if (run) {
+          throw new ConflictError('Recurring journal has generated entries; deactivate it instead');
+        }
+
+        await trx('recurring_journals').where('id', templateId).del();
+      });
+
+      logger.info('Recurring journal deleted successfully', { templateId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting recurring journal', { error, companyId, templateId });
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the entries a template is due for up to asOf
+   */
+  async runRecurringJournal(
+    companyId: string,
+    templateId: string,
+    asOf: Date | string,
+    userId: string
+  ): Promise<RecurringRunResult> {
+    try {
+      const db = getDatabase();
+      const template = await db('recurring_journals')
+        .where('id', templateId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!template) {
+        throw new NotFoundError('Recurring journal not found');
+      }
+
+      if (!template.is_active) {
+        throw new ConflictError('Recurring journal is inactive');
+      }
+
+      return await this.generate(companyId, templateId, toDateOnly(asOf), userId);
+    } catch (error) {
+      logger.error('Error running recurring journal', { error, companyId, templateId });
+      throw error;
+    }
+  }
+
+  /**
+   * Generate entries for every active template of the company that is due
+   * by asOf; a failing template does not stop the others
+   */
+  async runDueJournals(companyId: string, asOf: Date | string, userId?: string): Promise<RecurringRunResult[]> {
+    try {
+      const db = getDatabase();
+      const date = toDateOnly(asOf);
+
+      const templates = await db('recurring_journals')
+        .where('company_id', companyId)
+        .where('is_active', true)
+        .whereNotNull('next_run_date')
+        .where('next_run_date', '<=', date)
+        .orderBy('next_run_date');
+
+      const results: RecurringRunResult[] = [];
+      for (const template of templates) {
+        try {
+          // Scheduled runs are attributed to whoever last saved the template
+          results.push(await this.generate(companyId, template.id, date, userId || template.updated_by || template.created_by));
+        } catch (error) {
+          results.push({
+            recurring_journal_id: template.id,
+            name: template.name,
+            entries: [],
+            skipped: [],
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      return results;
+    } catch (error) {
+      logger.error('Error running due recurring journals', { error, companyId, asOf });
+      throw error;
+    }
+  }
+
+  /**
+   * Daily run across companies; after downtime the catch-up templates
+   * generate every occurrence they missed
+   */
+  async runScheduledJournals(date: Date | string): Promise<void> {
+    const db = getDatabase();
+    const companyIds = await db('recurring_journals')
+      .where('is_active', true)
+      .whereNotNull('next_run_date')
+      .where('next_run_date', '<=', toDateOnly(date))
+      .distinct('company_id')
+      .pluck('company_id');
+
+    for (const companyId of companyIds) {
+      try {
+        const results = await this.runDueJournals(companyId, date);
+        for (const result of results.filter(item => item.error)) {
+          logger.warn('Scheduled recurring journal failed', {
+            companyId,
+            templateId: result.recurring_journal_id,
+            error: result.error
+          });
+        }
+      } catch (error) {
+        logger.error('Scheduled recurring journals failed', {
+          companyId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Generate due occurrences of one template in a transaction; the error is
+   * kept on the template so it shows until the next successful run
+   */
+  private async generate(companyId: string, templateId: string, asOf: string, userId: string): Promise<RecurringRunResult> {
+    const db = getDatabase();
+
+    try {
+      const result = await db.transaction(async (trx) => {
+        const template = await this.lockTemplate(trx, companyId, templateId);
+        const schedule: RecurringSchedule = {
+          frequency: template.frequency,
+          start_date: toDateOnly(template.start_date),
+          end_date: template.end_date ? toDateOnly(template.end_date) : null
+        };
+
+        const due = dueOccurrences(schedule, template.next_run_date ? toDateOnly(template.next_run_date) : null, asOf);
+        const run: RecurringRunResult = { recurring_journal_id: templateId, name: template.name, entries: [], skipped: [] };
+        if (due.length === 0) return run;
+
+        const lines = await trx('recurring_journal_lines')
+          .where('recurring_journal_id', templateId)
+          .orderBy('line_number');
+
+        // Without catch-up only the latest missed occurrence is generated
+        const generated = template.catch_up ? due : due.slice(-1);
+        run.skipped = template.catch_up ? [] : due.slice(0, -1);
+
+        for (const occurrence of run.skipped) {
+          await trx('recurring_journal_runs').insert({
+            id: uuidv4(),
+            recurring_journal_id: templateId,
+            occurrence_date: occurrence,
+            status: 'skipped',
+            run_by: userId
+          });
+        }
+
+        for (const occurrence of generated) {
+          const entryData = {
+            entry_date: occurrence,
+            description: template.description,
+            reference: template.reference || undefined,
+            source_type: RECURRING_JOURNAL_SOURCE_TYPE,
+            source_id: templateId,
+            lines: lines.map((line: any) => ({
+              account_id: line.account_id,
+              cost_centre_id: line.cost_centre_id,
+              description: line.description || undefined,
+              debit: toAmount(line.debit),
+              credit: toAmount(line.credit)
+            }))
+          };
+
+          const entry: JournalEntryWithLines = template.auto_post
+            ? await ledgerService.createAndPostJournalEntry(companyId, entryData, userId, trx)
+            : await ledgerService.createJournalEntry(companyId, entryData, userId, trx);
+
+          // Accruals reverse at the start of the next day, i.e. the next period for month-end runs
+          let reversalId: string | null = null;
+          if (template.auto_post && template.auto_reverse) {
+            const reversal = await ledgerService.reverseJournalEntry(companyId, entry.id, {
+              reversal_date: addDays(occurrence, 1),
+              description: `Reversal of ${template.description}`
+            }, userId, trx);
+            reversalId = reversal.id;
+          }
+
+          await trx('recurring_journal_runs').insert({
+            id: uuidv4(),
+            recurring_journal_id: templateId,
+            occurrence_date: occurrence,
+            status: template.auto_post ? 'posted' : 'draft',
+            journal_entry_id: entry.id,
+            reversal_entry_id: reversalId,
+            run_by: userId
+          });
+
+          run.entries.push({
+            occurrence_date: occurrence,
+            journal_entry_id: entry.id,
+            entry_number: entry.entry_number,
+            status: template.auto_post ? 'posted' : 'draft',
+            reversal_entry_id: reversalId
+          });
+        }
+
+        const lastRun = due[due.length - 1];
+        await trx('recurring_journals')
+          .where('id', templateId)
+          .update({
+            last_run_date: lastRun,
+            next_run_date: nextOccurrence(schedule, lastRun),
+            last_error: null,
+            updated_at: new Date()
+          });
+
+        return run;
+      });
+
+      if (result.entries.length > 0 || result.skipped.length > 0) {
+        logger.info('Recurring journal run', {
+          templateId,
+          companyId,
+          generated: result.entries.length,
+          skipped: result.skipped.length,
+          userId
+        });
+      }
+
+      return result;
+    } catch (error) {
+      await db('recurring_journals')
+        .where('id', templateId)
+        .update({ last_error: error instanceof Error ? error.message : 'Unknown error' })
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert template lines in order
+   */
+  private async insertLines(trx: Knex.Transaction, templateId: string, lines: RecurringJournalLineData[]): Promise<void> {
+    await trx('recurring_journal_lines').insert(lines.map((line, index) => ({
+      id: uuidv4(),
+      recurring_journal_id: templateId,
+      account_id: line.account_id,
+      cost_centre_id: line.cost_centre_id || null,
+      description: line.description,
+      debit: roundMoney(line.debit || 0),
+      credit: roundMoney(line.credit || 0),
+      line_number: index + 1
+    })));
+  }
+
+  /**
+   * Lines must use the company's accounts and active cost centres
+   */
+  private async assertAccounts(trx: Knex.Transaction, companyId: string, lines: RecurringJournalLineData[]): Promise<void> {
+    const accountIds = Array.from(new Set(lines.map(line => line.account_id)));
+    const accounts = await trx('accounts')
+      .whereIn('id', accountIds)
+      .where('company_id', companyId)
+      .whereNull('deleted_at');
+    if (accounts.length !== accountIds.length) {
+      throw new ValidationError('Lines must use accounts of this company');
+    }
+
+    const costCentreIds = Array.from(new Set(lines.map(line => line.cost_centre_id).filter(Boolean))) as string[];
+    if (costCentreIds.length === 0) return;
+
+    const costCentres = await trx('cost_centres')
+      .whereIn('id', costCentreIds)
+      .where('company_id', companyId)
+      .where('is_active', true);
+    if (costCentres.length !== costCentreIds.length) {
+      throw new ValidationError('Lines must use active cost centres of this company');
+    }
+  }
+
+  /**
+   * Validate schedule and lines (balanced, one side per line)
+   */
+  private validateTemplate(
+    schedule: RecurringSchedule,
+    autoPost: boolean,
+    autoReverse: boolean,
+    lines: RecurringJournalLineData[]
+  ): void {
+    if (schedule.end_date && schedule.end_date < schedule.start_date) {
+      throw new ValidationError('End date cannot be before the start date');
+    }
+
+    if (autoReverse && !autoPost) {
+      throw new ValidationError('Auto-reverse needs entries to be posted automatically');
+    }
+
+    if (!Array.isArray(lines) || lines.length < 2) {
+      throw new ValidationError('A recurring journal needs at least two lines');
+    }
+
+    for (const [index, line] of lines.entries()) {
+      const debit = line.debit || 0;
+      const credit = line.credit || 0;
+      if (debit < 0 || credit < 0 || (debit > 0) === (credit > 0)) {
+        throw new ValidationError(`Line ${index + 1} must have either a debit or a credit amount`);
+      }
+    }
+
+    const debits = sumMoney(lines.map(line => line.debit || 0));
+    const credits = sumMoney(lines.map(line => line.credit || 0));
+    if (!amountsEqual(debits, credits)) {
+      throw new ValidationError(`Debits (${debits}) must equal credits (${credits})`);
+    }
+  }
+
+  /**
+   * Lock a template row for update
+   */
+  private async lockTemplate(trx: Knex.Transaction, companyId: string, templateId: string): Promise<any> {
+    const template = await trx('recurring_journals')
+      .where('id', templateId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!template) {
+      throw new NotFoundError('Recurring journal not found');
+    }
+
+    return template;
+  }
+
+  /**
+   * Map a template row
+   */
+  private mapTemplate(row: any): RecurringJournal {
+    return {
+      ...row,
+      start_date: toDateOnly(row.start_date),
+      end_date: row.end_date ? toDateOnly(row.end_date) : null,
+      next_run_date: row.next_run_date ? toDateOnly(row.next_run_date) : null,
+      last_run_date: row.last_run_date ? toDateOnly(row.last_run_date) : null,
+      total: toAmount(row.total)
+    };
+  }
+}
+
+export const recurringJournalService = new RecurringJournalService();
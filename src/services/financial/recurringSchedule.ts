@@ -0,0 +1,65 @@
+import { addDays, addMonths } from '../../utils/dateUtils';
+
+/**
+ * Occurrence dates for recurring journals. Every occurrence is counted from
+ * the start date, so a schedule starting on 31 January runs on the last day
+ * of shorter months and returns to the 31st afterwards.
+ */
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'semi_annually' | 'annually';
+
+export interface RecurringSchedule {
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date?: string | null;
+}
+
+const FREQUENCY_MONTHS: Record<Exclude<RecurringFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semi_annually: 6,
+  annually: 12
+};
+
+// Guards against runaway loops on bad data (20 years of weekly runs)
+const MAX_OCCURRENCES = 1040;
+
+/**
+ * The n-th occurrence (0 is the start date)
+ */
+export const occurrenceDate = (schedule: RecurringSchedule, index: number): string =>
+  schedule.frequency === 'weekly'
+    ? addDays(schedule.start_date, index * 7)
+    : addMonths(schedule.start_date, index * FREQUENCY_MONTHS[schedule.frequency]);
+
+/**
+ * First occurrence after the given date (the start date when there is none),
+ * or null once the schedule has ended
+ */
+export const nextOccurrence = (schedule: RecurringSchedule, after: string | null | undefined): string | null => {
+  for (let index = 0; index < MAX_OCCURRENCES; index++) {
+    const date = occurrenceDate(schedule, index);
+    if (schedule.end_date && date > schedule.end_date) return null;
+    if (!after || date > after) return date;
+  }
+  return null;
+};
+
+/**
+ * Occurrences from the next run date up to and including asOf
+ */
+export const dueOccurrences = (
+  schedule: RecurringSchedule,
+  nextRunDate: string | null | undefined,
+  asOf: string
+): string[] => {
+  const dates: string[] = [];
+  let date = nextRunDate || null;
+
+  while (date && date <= asOf && dates.length < MAX_OCCURRENCES) {
+    dates.push(date);
+    date = nextOccurrence(schedule, date);
+  }
+
+  return dates;
+};
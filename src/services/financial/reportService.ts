@@ -0,0 +1,520 @@
+import { ledgerService, balanceChange, AccountMovement } from './ledgerService';
+import { YEAR_END_SOURCE_TYPE } from './fiscalPeriodService';
+import { budgetService } from './budgetService';
+import { companyService } from '../../core/company/companyService';
+import { logger } from '../../utils/logger';
+import { roundMoney } from '../../utils/currencyUtils';
+import { toCsv } from '../../utils/csvUtils';
+import { renderTablePdf, PdfTableRow } from '../../utils/pdfUtils';
+import { toDateOnly, addDays, addMonths, daysBetween } from '../../utils/dateUtils';
+import { AccountType, AccountCategory } from '../../types';
+import { ValidationError } from '../../middleware/errorHandler';
+
+export type ReportType = 'trial_balance' | 'income_statement' | 'balance_sheet';
+export type ComparisonType = 'prior_period' | 'prior_year' | 'budget';
+export type ReportFormat = 'json' | 'csv' | 'pdf';
+
+export interface ReportOptions {
+  start_date?: Date | string;
+  end_date: Date | string;
+  compare?: ComparisonType[];
+  // Budget for the budget comparison; the approved budgets by default
+  budget_id?: string;
+}
+
+export interface ReportPeriod {
+  key: string;
+  label: string;
+  start_date?: string;
+  end_date: string;
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  period_key: string;
+}
+
+export interface ReportLine {
+  account_id: string | null;
+  account_number: string;
+  account_name: string;
+  values: Record<string, number>;
+}
+
+export interface ReportGroup {
+  category: string;
+  label: string;
+  lines: ReportLine[];
+  totals: Record<string, number>;
+}
+
+export interface ReportSection {
+  type: AccountType;
+  label: string;
+  groups: ReportGroup[];
+  totals: Record<string, number>;
+}
+
+export interface ReportSummaryRow {
+  key: string;
+  label: string;
+  values: Record<string, number>;
+}
+
+export interface FinancialReport {
+  report_type: ReportType;
+  title: string;
+  company_id: string;
+  company_name?: string;
+  currency?: string;
+  periods: ReportPeriod[];
+  columns: ReportColumn[];
+  sections: ReportSection[];
+  summary: ReportSummaryRow[];
+  generated_at: Date;
+}
+
+export interface RenderedReport {
+  content: Buffer | string;
+  content_type: string;
+  filename: string;
+}
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  trial_balance: 'Trial Balance',
+  income_statement: 'Income Statement',
+  balance_sheet: 'Balance Sheet'
+};
+
+const SECTION_ORDER: Record<ReportType, AccountType[]> = {
+  trial_balance: [AccountType.ASSET, AccountType.LIABILITY, AccountType.EQUITY, AccountType.REVENUE, AccountType.EXPENSE],
+  income_statement: [AccountType.REVENUE, AccountType.EXPENSE],
+  balance_sheet: [AccountType.ASSET, AccountType.LIABILITY, AccountType.EQUITY]
+};
+
+const SECTION_LABELS: Record<string, string> = {
+  [AccountType.ASSET]: 'Assets',
+  [AccountType.LIABILITY]: 'Liabilities',
+  [AccountType.EQUITY]: 'Equity',
+  [AccountType.REVENUE]: 'Revenue',
+  [AccountType.EXPENSE]: 'Expenses'
+};
+
+const CATEGORY_ORDER: string[] = Object.values(AccountCategory);
+
+/**
+ * 'current_assets' -> 'Current Assets'
+ */
+export const humanize = (value: string): string => {
+  return value
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+/**
+ * Work out the current period and any comparison periods for a report
+ */
+export const buildReportPeriods = (reportType: ReportType, options: ReportOptions): ReportPeriod[] => {
+  const endDate = toDateOnly(options.end_date);
+  const startDate = options.start_date ? toDateOnly(options.start_date) : undefined;
+
+  if (reportType === 'income_statement' && !startDate) {
+    throw new ValidationError('start_date is required for the income statement');
+  }
+
+  if (startDate && startDate > endDate) {
+    throw new ValidationError('start_date must not be after end_date');
+  }
+
+  const current: ReportPeriod = { key: 'current', label: '', start_date: startDate, end_date: endDate };
+  const periods = [current];
+
+  for (const comparison of options.compare || []) {
+    if (comparison === 'prior_year') {
+      periods.push({
+        key: 'prior_year',
+        label: '',
+        start_date: startDate ? addMonths(startDate, -12) : undefined,
+        end_date: addMonths(endDate, -12)
+      });
+    } else if (comparison === 'prior_period') {
+      if (!startDate) {
+        throw new ValidationError('Prior period comparison needs a start_date');
+      }
+      const length = daysBetween(startDate, endDate);
+      const priorEnd = addDays(startDate, -1);
+      periods.push({
+        key: 'prior_period',
+        label: '',
+        start_date: addDays(priorEnd, -length),
+        end_date: priorEnd
+      });
+    } else if (comparison === 'budget') {
+      if (reportType !== 'income_statement') {
+        throw new ValidationError('Budget comparison is only available on the income statement');
+      }
+      periods.push({ key: 'budget', label: '', start_date: startDate, end_date: endDate });
+    } else {
+      throw new ValidationError(`Unsupported comparison: ${comparison}`);
+    }
+  }
+
+  // Balance sheet and trial balance are balances as at the end of each period
+  const pointInTime = reportType !== 'income_statement';
+
+  return periods.map(period => {
+    const label = pointInTime || !period.start_date ? period.end_date : `${period.start_date} to ${period.end_date}`;
+    return {
+      ...period,
+      start_date: pointInTime ? undefined : period.start_date,
+      label: period.key === 'budget' ? `Budget ${label}` : label
+    };
+  });
+};
+
+/**
+ * Value columns for a report: debit/credit pairs for the trial balance,
+ * one amount per period otherwise
+ */
+export const buildReportColumns = (reportType: ReportType, periods: ReportPeriod[]): ReportColumn[] => {
+  if (reportType !== 'trial_balance') {
+    return periods.map(period => ({ key: period.key, label: period.label, period_key: period.key }));
+  }
+
+  return periods.flatMap(period => [
+    { key: `${period.key}_debit`, label: `Debit ${period.label}`, period_key: period.key },
+    { key: `${period.key}_credit`, label: `Credit ${period.label}`, period_key: period.key }
+  ]);
+};
+
+/**
+ * Add one record of values into a running total
+ */
+const addValues = (target: Record<string, number>, values: Record<string, number>): void => {
+  for (const [key, value] of Object.entries(values)) {
+    target[key] = roundMoney((target[key] || 0) + value);
+  }
+};
+
+/**
+ * Build a report from per-period account movements.
+ *
+ * Amounts are shown in each account's natural sign (see balanceChange); the
+ * trial balance splits them into debit and credit columns instead.
+ */
+export const buildFinancialReport = (
+  reportType: ReportType,
+  periods: ReportPeriod[],
+  movementsByPeriod: Record<string, AccountMovement[]>
+): Pick<FinancialReport, 'report_type' | 'title' | 'periods' | 'columns' | 'sections' | 'summary'> => {
+  const columns = buildReportColumns(reportType, periods);
+  const emptyValues = (): Record<string, number> =>
+    Object.fromEntries(columns.map(column => [column.key, 0]));
+
+  const accounts = new Map<string, { movement: AccountMovement; values: Record<string, number> }>();
+
+  for (const period of periods) {
+    for (const movement of movementsByPeriod[period.key] || []) {
+      const balance = balanceChange(movement.type, movement.debit, movement.credit);
+      if (!accounts.has(movement.account_id)) {
+        accounts.set(movement.account_id, { movement, values: emptyValues() });
+      }
+      const values = accounts.get(movement.account_id)!.values;
+
+      if (reportType === 'trial_balance') {
+        // Debit-positive net balance decides which column the account lands in
+        const net = roundMoney(movement.debit - movement.credit);
+        values[`${period.key}_debit`] = net > 0 ? net : 0;
+        values[`${period.key}_credit`] = net < 0 ? -net : 0;
+      } else {
+        values[period.key] = balance;
+      }
+    }
+  }
+
+  const sections: ReportSection[] = [];
+
+  for (const type of SECTION_ORDER[reportType]) {
+    const groups = new Map<string, ReportGroup>();
+
+    const rows = Array.from(accounts.values())
+      .filter(row => row.movement.type === type)
+      .filter(row => Object.values(row.values).some(value => value !== 0))
+      .sort((a, b) => a.movement.account_number.localeCompare(b.movement.account_number));
+
+    for (const row of rows) {
+      const category = row.movement.category;
+      if (!groups.has(category)) {
+        groups.set(category, { category, label: humanize(category), lines: [], totals: emptyValues() });
+      }
+      const group = groups.get(category)!;
+      group.lines.push({
+        account_id: row.movement.account_id,
+        account_number: row.movement.account_number,
+        account_name: row.movement.account_name,
+        values: row.values
+      });
+      addValues(group.totals, row.values);
+    }
+
+    const section: ReportSection = {
+      type,
+      label: SECTION_LABELS[type],
+      groups: Array.from(groups.values()).sort((a, b) =>
+        CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category)
+      ),
+      totals: emptyValues()
+    };
+    section.groups.forEach(group => addValues(section.totals, group.totals));
+    sections.push(section);
+  }
+
+  const sectionTotals = (type: AccountType): Record<string, number> =>
+    sections.find(section => section.type === type)?.totals || emptyValues();
+  const combine = (a: Record<string, number>, b: Record<string, number>, sign: 1 | -1) =>
+    Object.fromEntries(columns.map(column => [column.key, roundMoney(a[column.key] + sign * b[column.key])]));
+
+  const summary: ReportSummaryRow[] = [];
+
+  if (reportType === 'trial_balance') {
+    const totals = emptyValues();
+    sections.forEach(section => addValues(totals, section.totals));
+    summary.push({ key: 'total', label: 'Total', values: totals });
+  } else if (reportType === 'income_statement') {
+    const revenue = sectionTotals(AccountType.REVENUE);
+    const expenses = sectionTotals(AccountType.EXPENSE);
+    summary.push(
+      { key: 'total_revenue', label: 'Total Revenue', values: revenue },
+      { key: 'total_expenses', label: 'Total Expenses', values: expenses },
+      { key: 'net_income', label: 'Net Income', values: combine(revenue, expenses, -1) }
+    );
+  } else {
+    // Profit not yet closed to retained earnings still belongs to equity
+    const earnings = emptyValues();
+    for (const row of accounts.values()) {
+      if (row.movement.type === AccountType.REVENUE) addValues(earnings, row.values);
+      if (row.movement.type === AccountType.EXPENSE) {
+        addValues(earnings, Object.fromEntries(Object.entries(row.values).map(([key, value]) => [key, -value])));
+      }
+    }
+
+    const equity = sections.find(section => section.type === AccountType.EQUITY)!;
+    if (Object.values(earnings).some(value => value !== 0)) {
+      let group = equity.groups.find(item => item.category === AccountCategory.OWNERS_EQUITY);
+      if (!group) {
+        group = {
+          category: AccountCategory.OWNERS_EQUITY,
+          label: humanize(AccountCategory.OWNERS_EQUITY),
+          lines: [],
+          totals: emptyValues()
+        };
+        equity.groups.push(group);
+      }
+      group.lines.push({
+        account_id: null,
+        account_number: '',
+        account_name: 'Current Year Earnings',
+        values: earnings
+      });
+      addValues(group.totals, earnings);
+      addValues(equity.totals, earnings);
+    }
+
+    const assets = sectionTotals(AccountType.ASSET);
+    const liabilities = sectionTotals(AccountType.LIABILITY);
+    summary.push(
+      { key: 'total_assets', label: 'Total Assets', values: assets },
+      { key: 'total_liabilities', label: 'Total Liabilities', values: liabilities },
+      { key: 'total_equity', label: 'Total Equity', values: equity.totals },
+      { key: 'total_liabilities_and_equity', label: 'Total Liabilities and Equity', values: combine(liabilities, equity.totals, 1) }
+    );
+  }
+
+  return {
+    report_type: reportType,
+    title: REPORT_TITLES[reportType],
+    periods,
+    columns,
+    sections,
+    summary
+  };
+};
+
+/**
+ * Flatten a report into labelled rows for CSV and PDF output
+ */
+const flattenReport = (report: FinancialReport): Array<{
+  section: string;
+  category: string;
+  account_number: string;
+  account_name: string;
+  values: Record<string, number>;
+  level: number;
+  bold: boolean;
+}> => {
+  const rows = [];
+
+  for (const section of report.sections) {
+    for (const group of section.groups) {
+      for (const line of group.lines) {
+        rows.push({
+          section: section.label,
+          category: group.label,
+          account_number: line.account_number,
+          account_name: line.account_name,
+          values: line.values,
+          level: 2,
+          bold: false
+        });
+      }
+      rows.push({
+        section: section.label,
+        category: group.label,
+        account_number: '',
+        account_name: `Total ${group.label}`,
+        values: group.totals,
+        level: 1,
+        bold: true
+      });
+    }
+    rows.push({
+      section: section.label,
+      category: '',
+      account_number: '',
+      account_name: `Total ${section.label}`,
+      values: section.totals,
+      level: 0,
+      bold: true
+    });
+  }
+
+  const sectionTotalLabels = rows.map(row => row.account_name);
+
+  for (const row of report.summary) {
+    // Section totals are already listed once
+    if (sectionTotalLabels.includes(row.label)) continue;
+
+    rows.push({
+      section: '',
+      category: '',
+      account_number: '',
+      account_name: row.label,
+      values: row.values,
+      level: 0,
+      bold: true
+    });
+  }
+
+  return rows;
+};
+
+export class ReportService {
+  /**
+   * Build a trial balance, income statement or balance sheet from the ledger
+   */
+  async generateReport(companyId: string, reportType: ReportType, options: ReportOptions): Promise<FinancialReport> {
+    try {
+      const periods = buildReportPeriods(reportType, options);
+      const movementsByPeriod: Record<string, AccountMovement[]> = {};
+
+      for (const period of periods) {
+        if (period.key === 'budget') {
+          movementsByPeriod[period.key] = await budgetService.getBudgetMovements(
+            companyId,
+            period.start_date!,
+            period.end_date,
+            options.budget_id
+          );
+          continue;
+        }
+
+        movementsByPeriod[period.key] = await ledgerService.getAccountMovements(companyId, {
+          start_date: period.start_date,
+          end_date: period.end_date,
+          account_types: reportType === 'income_statement'
+            ? [AccountType.REVENUE, AccountType.EXPENSE]
+            : undefined,
+          // Closing entries would zero the income statement on the year-end date
+          exclude_source_types: reportType === 'income_statement' ? [YEAR_END_SOURCE_TYPE] : undefined
+        });
+      }
+
+      const company = await companyService.getCompanyById(companyId);
+
+      return {
+        ...buildFinancialReport(reportType, periods, movementsByPeriod),
+        company_id: companyId,
+        company_name: company?.name,
+        currency: company?.currency_code,
+        generated_at: new Date()
+      };
+    } catch (error) {
+      logger.error('Error generating financial report', { error, companyId, reportType, options });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a report as CSV or PDF
+   */
+  async renderReport(report: FinancialReport, format: Exclude<ReportFormat, 'json'>): Promise<RenderedReport> {
+    const filename = `${report.report_type.replace(/_/g, '-')}-${report.periods[0].end_date}`;
+    const rows = flattenReport(report);
+
+    if (format === 'csv') {
+      const columns = ['section', 'category', 'account_number', 'account_name', ...report.columns.map(column => column.label)];
+      const records = rows.map(row => ({
+        section: row.section,
+        category: row.category,
+        account_number: row.account_number,
+        account_name: row.account_name,
+        ...Object.fromEntries(report.columns.map(column => [column.label, row.values[column.key].toFixed(2)]))
+      }));
+
+      return {
+        content: toCsv(columns, records),
+        content_type: 'text/csv; charset=utf-8',
+        filename: `${filename}.csv`
+      };
+    }
+
+    const formatAmount = (value: number): string =>
+      value === 0 ? '-' : value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    const pdfRows: PdfTableRow[] = rows.map(row => ({
+      cells: [
+        row.account_number ? `${row.account_number}  ${row.account_name}` : row.account_name,
+        ...report.columns.map(column => formatAmount(row.values[column.key]))
+      ],
+      bold: row.bold,
+      indent: row.level
+    }));
+
+    const content = await renderTablePdf({
+      title: report.title,
+      subtitle: [
+        [report.company_name, report.currency].filter(Boolean).join(' - '),
+        report.report_type === 'balance_sheet'
+          ? `As at ${report.periods[0].end_date}`
+          : `Period ${report.periods[0].label}`
+      ].filter(line => line.length > 0),
+      columns: [
+        { label: 'Account', width: 3 },
+        ...report.columns.map(column => ({ label: column.label, width: 1.4, align: 'right' as const }))
+      ],
+      rows: pdfRows,
+      footer: [`Generated ${report.generated_at.toISOString()}`],
+      landscape: report.columns.length > 3
+    });
+
+    return {
+      content,
+      content_type: 'application/pdf',
+      filename: `${filename}.pdf`
+    };
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,956 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { exchangeRateService } from '../exchangeRateService';
+import { ledgerService, JournalLineData } from './ledgerService';
+import { supplierService, Supplier } from './supplierService';
+import { purchaseOrderService } from './purchaseOrderService';
+import { financialSettingsService } from './financialSettingsService';
+import { calculateInvoiceItem, calculateInvoiceTotals, CalculatedItem } from './invoiceService';
+import { matchBillLines, MatchIssue, MatchResult } from './threeWayMatch';
+import { vatService, reverseChargeTax } from './vatService';
+import { companyService } from '../../core/company/companyService';
+import { notificationService } from '../../core/notification/notificationService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, toAmount } from '../../utils/currencyUtils';
+import { toDateOnly, addDays } from '../../utils/dateUtils';
+import { AccountType, NotificationType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export type BillStatus = 'draft' | 'on_hold' | 'approved' | 'partially_paid' | 'paid' | 'cancelled';
+export type BillMatchStatus = 'pending' | 'not_required' | 'matched' | 'mismatch' | 'overridden';
+
+export interface BillItemData {
+  purchase_order_item_id?: string | null;
+  description?: string;
+  quantity: number;
+  unit_price: number;
+  tax_code_id?: string | null;
+  tax_rate?: number;
+  expense_account_id?: string | null;
+}
+
+export interface CreateBillData {
+  supplier_id: string;
+  purchase_order_id?: string;
+  supplier_reference: string;
+  bill_date: Date | string;
+  due_date?: Date | string;
+  currency?: string;
+  exchange_rate?: number;
+  notes?: string;
+  items: BillItemData[];
+}
+
+export type UpdateBillData = Partial<Omit<CreateBillData, 'supplier_id' | 'purchase_order_id'>>;
+
+export interface BillLineItem extends CalculatedItem {
+  id: string;
+  line_number: number;
+  purchase_order_item_id?: string | null;
+  expense_account_id?: string | null;
+}
+
+export interface BillPayment {
+  payment_run_id: string;
+  run_number: string;
+  payment_date: string;
+  amount: number;
+  exchange_rate: number;
+  realised_fx: number;
+  journal_entry_id: string | null;
+}
+
+export interface SupplierBill {
+  id: string;
+  company_id: string;
+  supplier_id: string;
+  supplier_name?: string;
+  supplier_code?: string;
+  purchase_order_id?: string | null;
+  bill_number: string;
+  supplier_reference: string;
+  bill_date: string;
+  due_date: string;
+  currency: string;
+  exchange_rate: number;
+  subtotal: number;
+  tax_total: number;
+  total: number;
+  amount_paid: number;
+  balance_due: number;
+  status: BillStatus;
+  match_status: BillMatchStatus;
+  match_details?: MatchIssue[] | null;
+  override_reason?: string | null;
+  notes?: string;
+  payable_account_id?: string | null;
+  journal_entry_id?: string | null;
+  approved_at?: Date | null;
+  approved_by?: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  items: BillLineItem[];
+  payments?: BillPayment[];
+}
+
+export interface BillFilters {
+  status?: BillStatus;
+  supplier_id?: string;
+  due_on_or_before?: Date | string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const SUPPLIER_BILL_SOURCE_TYPE = 'supplier_bill';
+
+const EDITABLE_STATUSES: BillStatus[] = ['draft', 'on_hold'];
+
+/**
+ * Ledger lines for an approved bill in the bill currency: expense (or
+ * inventory) per account and input VAT against the payable. VAT self-assessed
+ * under reverse charge is debited to input and credited to output VAT.
+ */
+export const buildBillPostingLines = (params: {
+  payable_account_id: string;
+  vat_input_account_id?: string | null;
+  vat_output_account_id?: string | null;
+  default_expense_account_id?: string | null;
+  items: Array<CalculatedItem & { expense_account_id?: string | null }>;
+  description: string;
+  reverse_charge_tax?: number;
+}): JournalLineData[] => {
+  const expenseByAccount = new Map<string, number>();
+  for (const item of params.items) {
+    const accountId = item.expense_account_id || params.default_expense_account_id;
+    if (!accountId) {
+      throw new ValidationError('Every line needs an expense account (or configure a default expense account)');
+    }
+    expenseByAccount.set(accountId, roundMoney((expenseByAccount.get(accountId) || 0) + item.line_subtotal));
+  }
+
+  const totals = calculateInvoiceTotals(params.items);
+  if (totals.tax_total !== 0 && !params.vat_input_account_id) {
+    throw new ValidationError('Configure the VAT input account in financial settings first');
+  }
+
+  const lines: JournalLineData[] = [];
+  for (const [accountId, amount] of expenseByAccount) {
+    if (amount === 0) continue;
+    lines.push({ account_id: accountId, description: params.description, foreign_debit: amount, foreign_credit: 0 });
+  }
+
+  if (totals.tax_total !== 0) {
+    lines.push({ account_id: params.vat_input_account_id!, description: `VAT ${params.description}`, foreign_debit: totals.tax_total, foreign_credit: 0 });
+  }
+
+  lines.push({ account_id: params.payable_account_id, description: params.description, foreign_debit: 0, foreign_credit: totals.total });
+
+  const selfAssessed = toAmount(params.reverse_charge_tax);
+  if (selfAssessed !== 0) {
+    if (!params.vat_input_account_id || !params.vat_output_account_id) {
+      throw new ValidationError('Configure the VAT input and output accounts in financial settings first');
+    }
+    lines.push(
+      { account_id: params.vat_input_account_id, description: `Reverse charge VAT ${params.description}`, foreign_debit: selfAssessed, foreign_credit: 0 },
+      { account_id: params.vat_output_account_id, description: `Reverse charge VAT ${params.description}`, foreign_debit: 0, foreign_credit: selfAssessed }
+    );
+  }
+
+  return lines;
+};
+
+export class SupplierBillService {
+  /**
+   * Get supplier bills with filters and pagination
+   */
+  async getBills(companyId: string, filters: BillFilters = {}): Promise<{
+    bills: SupplierBill[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('supplier_bills')
+        .join('suppliers', 'supplier_bills.supplier_id', 'suppliers.id')
+        .where('supplier_bills.company_id', companyId);
+
+      if (filters.status) {
+        query = query.where('supplier_bills.status', filters.status);
+      }
+
+      if (filters.supplier_id) {
+        query = query.where('supplier_bills.supplier_id', filters.supplier_id);
+      }
+
+      if (filters.due_on_or_before) {
+        query = query.where('supplier_bills.due_date', '<=', toDateOnly(filters.due_on_or_before));
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('supplier_bills.bill_number', 'ilike', search)
+            .orWhere('supplier_bills.supplier_reference', 'ilike', search)
+            .orWhere('suppliers.name', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+
+      const rows = await query
+        .select('supplier_bills.*', 'suppliers.name as supplier_name', 'suppliers.supplier_code')
+        .orderBy('supplier_bills.due_date')
+        .orderBy('supplier_bills.bill_number')
+        .limit(limit)
+        .offset(offset);
+
+      const items = await this.getItems(db, rows.map((row: any) => row.id));
+
+      return {
+        bills: rows.map((row: any) => this.mapBill(row, items.filter(item => item.bill_id === row.id))),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching supplier bills', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get supplier bill with lines and payments
+   */
+  async getBillById(companyId: string, billId: string, trx?: Knex.Transaction): Promise<SupplierBill | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('supplier_bills')
+        .select('supplier_bills.*', 'suppliers.name as supplier_name', 'suppliers.supplier_code')
+        .join('suppliers', 'supplier_bills.supplier_id', 'suppliers.id')
+        .where('supplier_bills.id', billId)
+        .where('supplier_bills.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const bill = this.mapBill(row, await this.getItems(db, [billId]));
+
+      const payments = await db('payment_run_items')
+        .select('payment_run_items.*', 'payment_runs.run_number', 'payment_runs.payment_date')
+        .join('payment_runs', 'payment_run_items.payment_run_id', 'payment_runs.id')
+        .where('payment_run_items.bill_id', billId)
+        .where('payment_runs.status', 'posted')
+        .orderBy('payment_runs.payment_date');
+
+      bill.payments = payments.map((payment: any) => ({
+        payment_run_id: payment.payment_run_id,
+        run_number: payment.run_number,
+        payment_date: toDateOnly(payment.payment_date),
+        amount: toAmount(payment.amount),
+        exchange_rate: parseFloat(payment.exchange_rate),
+        realised_fx: toAmount(payment.realised_fx),
+        journal_entry_id: payment.journal_entry_id
+      }));
+
+      return bill;
+    } catch (error) {
+      logger.error('Error fetching supplier bill by ID', { error, companyId, billId });
+      throw error;
+    }
+  }
+
+  /**
+   * Capture a supplier bill as draft, optionally against a purchase order
+   */
+  async createBill(companyId: string, data: CreateBillData, createdBy: string): Promise<SupplierBill> {
+    try {
+      const db = getDatabase();
+
+      const supplier = await supplierService.getSupplierById(companyId, data.supplier_id);
+      if (!supplier) {
+        throw new NotFoundError('Supplier not found');
+      }
+
+      const billId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const order = data.purchase_order_id
+          ? await this.getBillableOrder(trx, companyId, data.purchase_order_id, supplier.id)
+          : null;
+
+        const billDate = toDateOnly(data.bill_date);
+        const items = await this.prepareItems(trx, companyId, data.items, order?.id ?? null, billDate);
+        await this.assertUniqueReference(trx, supplier.id, data.supplier_reference);
+
+        const dueDate = data.due_date ? toDateOnly(data.due_date) : addDays(billDate, supplier.payment_terms_days);
+        if (dueDate < billDate) {
+          throw new ValidationError('Due date cannot be before the bill date');
+        }
+
+        const totals = calculateInvoiceTotals(items);
+        const billNumber = await sequenceService.next(trx, companyId, 'supplier_bill', { prefix: 'BILL' });
+
+        await trx('supplier_bills').insert({
+          id: billId,
+          company_id: companyId,
+          supplier_id: supplier.id,
+          purchase_order_id: order?.id ?? null,
+          bill_number: billNumber,
+          supplier_reference: data.supplier_reference.trim(),
+          bill_date: billDate,
+          due_date: dueDate,
+          currency: (order?.currency || data.currency || supplier.currency).toUpperCase(),
+          exchange_rate: data.exchange_rate ?? 1,
+          ...totals,
+          balance_due: totals.total,
+          status: 'draft',
+          match_status: 'pending',
+          notes: data.notes,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        await this.insertItems(trx, billId, items);
+      });
+
+      const bill = await this.getBillById(companyId, billId);
+      if (!bill) {
+        throw new Error('Failed to create supplier bill');
+      }
+
+      logger.info('Supplier bill created successfully', {
+        billId,
+        billNumber: bill.bill_number,
+        companyId,
+        createdBy
+      });
+
+      return bill;
+    } catch (error) {
+      logger.error('Error creating supplier bill', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a draft or on-hold bill; it returns to draft and must be re-submitted
+   */
+  async updateBill(
+    companyId: string,
+    billId: string,
+    data: UpdateBillData,
+    updatedBy: string
+  ): Promise<SupplierBill> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const bill = await this.lockBill(trx, companyId, billId);
+        if (!EDITABLE_STATUSES.includes(bill.status)) {
+          throw new ConflictError('Only draft or on-hold bills can be edited');
+        }
+
+        const updateData: Record<string, any> = {
+          status: 'draft',
+          match_status: 'pending',
+          match_details: null,
+          updated_by: updatedBy,
+          updated_at: new Date()
+        };
+
+        if (data.supplier_reference !== undefined && data.supplier_reference !== bill.supplier_reference) {
+          await this.assertUniqueReference(trx, bill.supplier_id, data.supplier_reference);
+          updateData.supplier_reference = data.supplier_reference.trim();
+        }
+        if (data.bill_date !== undefined) updateData.bill_date = toDateOnly(data.bill_date);
+        if (data.due_date !== undefined) updateData.due_date = toDateOnly(data.due_date);
+        if (data.currency !== undefined && !bill.purchase_order_id) updateData.currency = data.currency.toUpperCase();
+        if (data.exchange_rate !== undefined) updateData.exchange_rate = data.exchange_rate;
+        if (data.notes !== undefined) updateData.notes = data.notes;
+
+        const billDate = updateData.bill_date || toDateOnly(bill.bill_date);
+        const dueDate = updateData.due_date || toDateOnly(bill.due_date);
+        if (dueDate < billDate) {
+          throw new ValidationError('Due date cannot be before the bill date');
+        }
+
+        // A new bill date can change the rate a tax code resolves to
+        const itemData = data.items
+          ?? (data.bill_date !== undefined ? await this.getItems(trx, [billId]) : undefined);
+
+        if (itemData) {
+          const items = await this.prepareItems(trx, companyId, itemData, bill.purchase_order_id, billDate);
+          const totals = calculateInvoiceTotals(items);
+          Object.assign(updateData, totals, { balance_due: totals.total });
+
+          await trx('supplier_bill_items').where('bill_id', billId).del();
+          await this.insertItems(trx, billId, items);
+        }
+
+        await trx('supplier_bills').where('id', billId).update(updateData);
+      });
+
+      const bill = await this.getBillById(companyId, billId);
+      if (!bill) {
+        throw new Error('Failed to update supplier bill');
+      }
+
+      logger.info('Supplier bill updated successfully', { billId, companyId, updatedBy });
+
+      return bill;
+    } catch (error) {
+      logger.error('Error updating supplier bill', { error, companyId, billId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a draft bill
+   */
+  async deleteBill(companyId: string, billId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const bill = await this.lockBill(trx, companyId, billId);
+        if (!EDITABLE_STATUSES.includes(bill.status)) {
+          throw new ConflictError('Only draft or on-hold bills can be deleted; cancel it instead');
+        }
+
+        await trx('supplier_bills').where('id', billId).del();
+      });
+
+      logger.info('Supplier bill deleted successfully', { billId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting supplier bill', { error, companyId, billId });
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a bill for approval: bills raised against a purchase order are
+   * matched to the order and goods receipts first. A match within tolerance
+   * (or no order) is approved and posted; a mismatch puts the bill on hold
+   * and notifies finance for an approval decision.
+   */
+  async approveBill(companyId: string, billId: string, userId: string): Promise<SupplierBill> {
+    try {
+      const db = getDatabase();
+      let result: MatchResult = { status: 'not_required', issues: [] };
+
+      await db.transaction(async (trx) => {
+        const bill = await this.lockBill(trx, companyId, billId);
+        if (!EDITABLE_STATUSES.includes(bill.status)) {
+          throw new ConflictError(`Only draft or on-hold bills can be approved (status: ${bill.status})`);
+        }
+
+        const items = await this.getItems(trx, [billId]);
+        const settings = await financialSettingsService.getSettings(companyId, trx);
+        const orderLines = bill.purchase_order_id
+          ? await purchaseOrderService.getItemsForUpdate(trx, bill.purchase_order_id)
+          : null;
+
+        result = matchBillLines(items, orderLines, {
+          price_percent: settings.ap_price_tolerance_percent,
+          quantity_percent: settings.ap_quantity_tolerance_percent
+        });
+
+        if (result.status === 'mismatch') {
+          await trx('supplier_bills')
+            .where('id', billId)
+            .update({
+              status: 'on_hold',
+              match_status: 'mismatch',
+              match_details: JSON.stringify(result.issues),
+              updated_by: userId,
+              updated_at: new Date()
+            });
+          return;
+        }
+
+        await this.postBill(trx, companyId, bill, items, userId, { match_status: result.status });
+      });
+
+      const bill = (await this.getBillById(companyId, billId))!;
+
+      if (result.status === 'mismatch') {
+        await this.notifyMismatch(companyId, bill, result.issues, userId);
+        logger.info('Supplier bill put on hold after match failure', { billId, companyId, issues: result.issues.length });
+      } else {
+        logger.info('Supplier bill approved', { billId, companyId, userId });
+      }
+
+      return bill;
+    } catch (error) {
+      logger.error('Error approving supplier bill', { error, companyId, billId });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve an on-hold bill despite its match differences
+   */
+  async overrideMatch(
+    companyId: string,
+    billId: string,
+    reason: string,
+    userId: string
+  ): Promise<SupplierBill> {
+    try {
+      const db = getDatabase();
+
+      if (!reason || reason.trim().length === 0) {
+        throw new ValidationError('A reason is required to override a match failure');
+      }
+
+      await db.transaction(async (trx) => {
+        const bill = await this.lockBill(trx, companyId, billId);
+        if (bill.status !== 'on_hold') {
+          throw new ConflictError(`Only bills on hold can be overridden (status: ${bill.status})`);
+        }
+
+        const items = await this.getItems(trx, [billId]);
+        if (bill.purchase_order_id) {
+          // Lock the order lines as approveBill does before billed quantities change
+          await purchaseOrderService.getItemsForUpdate(trx, bill.purchase_order_id);
+        }
+
+        await this.postBill(trx, companyId, bill, items, userId, {
+          match_status: 'overridden',
+          override_reason: reason.trim()
+        });
+      });
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'SUPPLIER_BILL_MATCH_OVERRIDDEN',
+        resource_type: 'supplier_bill',
+        resource_id: billId,
+        company_id: companyId,
+        details: { reason }
+      });
+
+      logger.info('Supplier bill match overridden', { billId, companyId, userId });
+
+      return (await this.getBillById(companyId, billId))!;
+    } catch (error) {
+      logger.error('Error overriding supplier bill match', { error, companyId, billId });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a bill; approved bills without payments have their posting reversed
+   */
+  async cancelBill(companyId: string, billId: string, userId: string, reason?: string): Promise<SupplierBill> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const bill = await this.lockBill(trx, companyId, billId);
+        if (!EDITABLE_STATUSES.includes(bill.status) && bill.status !== 'approved') {
+          throw new ConflictError(`Bill cannot be cancelled (status: ${bill.status})`);
+        }
+
+        const inRun = await trx('payment_run_items')
+          .join('payment_runs', 'payment_run_items.payment_run_id', 'payment_runs.id')
+          .where('payment_run_items.bill_id', billId)
+          .where('payment_runs.status', 'draft')
+          .first();
+        if (inRun) {
+          throw new ConflictError('Bill is in a draft payment run; remove it from the run first');
+        }
+
+        if (bill.journal_entry_id) {
+          const reversal = await ledgerService.reverseJournalEntry(companyId, bill.journal_entry_id, {
+            description: `Cancellation of supplier bill ${bill.bill_number}${reason ? `: ${reason}` : ''}`
+          }, userId, trx);
+
+          await vatService.reverseDocumentTax(trx, companyId, SUPPLIER_BILL_SOURCE_TYPE, billId, {
+            journal_entry_id: reversal.id,
+            tax_point: reversal.entry_date
+          });
+
+          const items = await this.getItems(trx, [billId]);
+          for (const item of items.filter(line => line.purchase_order_item_id)) {
+            await trx('purchase_order_items')
+              .where('id', item.purchase_order_item_id!)
+              .decrement('quantity_billed', item.quantity);
+          }
+        }
+
+        await trx('supplier_bills')
+          .where('id', billId)
+          .update({
+            status: 'cancelled',
+            balance_due: 0,
+            cancelled_at: new Date(),
+            updated_by: userId,
+            updated_at: new Date()
+          });
+      });
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'SUPPLIER_BILL_CANCELLED',
+        resource_type: 'supplier_bill',
+        resource_id: billId,
+        company_id: companyId,
+        details: { reason }
+      });
+
+      logger.info('Supplier bill cancelled', { billId, companyId, userId });
+
+      return (await this.getBillById(companyId, billId))!;
+    } catch (error) {
+      logger.error('Error cancelling supplier bill', { error, companyId, billId });
+      throw error;
+    }
+  }
+
+  /**
+   * Post an approved bill to accounts payable and count its lines as billed on the order
+   */
+  private async postBill(
+    trx: Knex.Transaction,
+    companyId: string,
+    bill: any,
+    items: Array<BillLineItem & { bill_id: string }>,
+    userId: string,
+    update: { match_status: BillMatchStatus; override_reason?: string }
+  ): Promise<void> {
+    if (!(toAmount(bill.total) > 0)) {
+      throw new ValidationError('Bill total must be greater than zero');
+    }
+
+    const baseCurrency = await companyService.getBaseCurrency(companyId);
+    const supplier = await supplierService.getSupplierById(companyId, bill.supplier_id, trx);
+    const settings = await financialSettingsService.getSettings(companyId, trx);
+    const payableAccountId = await this.resolvePayableAccount(companyId, supplier!, trx);
+
+    const currency = bill.currency.toUpperCase();
+    let exchangeRate = 1;
+    if (currency !== baseCurrency) {
+      exchangeRate = parseFloat(bill.exchange_rate) !== 1
+        ? parseFloat(bill.exchange_rate)
+        : (await exchangeRateService.getRate(currency, baseCurrency, bill.bill_date)).rate;
+    }
+
+    const vatEntries = await vatService.calculateDocumentTax(trx, companyId, 'purchases', bill.bill_date, items);
+
+    const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+      entry_date: toDateOnly(bill.bill_date),
+      description: `Supplier bill ${bill.bill_number} - ${supplier!.name} (${bill.supplier_reference})`,
+      reference: bill.supplier_reference,
+      source_type: SUPPLIER_BILL_SOURCE_TYPE,
+      source_id: bill.id,
+      currency,
+      exchange_rate: exchangeRate,
+      lines: buildBillPostingLines({
+        payable_account_id: payableAccountId,
+        vat_input_account_id: settings.vat_input_account_id,
+        vat_output_account_id: settings.vat_output_account_id,
+        default_expense_account_id: settings.default_expense_account_id,
+        items,
+        description: `Bill ${bill.bill_number}`,
+        reverse_charge_tax: reverseChargeTax(vatEntries)
+      })
+    }, userId, trx);
+
+    await vatService.recordDocumentTax(trx, companyId, vatEntries, {
+      source_type: SUPPLIER_BILL_SOURCE_TYPE,
+      source_id: bill.id,
+      journal_entry_id: entry.id,
+      tax_point: bill.bill_date,
+      exchange_rate: exchangeRate
+    });
+
+    for (const item of items.filter(line => line.purchase_order_item_id)) {
+      await trx('purchase_order_items')
+        .where('id', item.purchase_order_item_id!)
+        .increment('quantity_billed', item.quantity);
+    }
+
+    await trx('supplier_bills')
+      .where('id', bill.id)
+      .update({
+        ...update,
+        status: 'approved',
+        match_details: null,
+        exchange_rate: exchangeRate,
+        payable_account_id: payableAccountId,
+        journal_entry_id: entry.id,
+        approved_at: new Date(),
+        approved_by: userId,
+        updated_by: userId,
+        updated_at: new Date()
+      });
+  }
+
+  /**
+   * Raise an APPROVAL notification to the finance department for a bill on hold
+   */
+  private async notifyMismatch(
+    companyId: string,
+    bill: SupplierBill,
+    issues: MatchIssue[],
+    userId: string
+  ): Promise<void> {
+    try {
+      const finance = await companyService.getFinanceDepartment(companyId);
+
+      await notificationService.createNotification({
+        type: NotificationType.APPROVAL,
+        title: `Supplier bill ${bill.bill_number} needs approval`,
+        message: [
+          `${bill.supplier_name} bill ${bill.supplier_reference} (${bill.currency} ${bill.total.toFixed(2)}) does not match its purchase order:`,
+          ...issues.map(issue => `- ${issue.message}`)
+        ].join('\n'),
+        ...(finance ? { recipient_department_id: finance.id } : { recipient_id: userId }),
+        data: { bill_id: bill.id, purchase_order_id: bill.purchase_order_id, issues },
+        priority: 'high'
+      }, userId);
+    } catch (error) {
+      // The bill stays on hold either way; a lost notification must not undo that
+      logger.error('Error sending supplier bill approval notification', { error, companyId, billId: bill.id });
+    }
+  }
+
+  /**
+   * Purchase order a bill may be raised against
+   */
+  private async getBillableOrder(
+    trx: Knex.Transaction,
+    companyId: string,
+    orderId: string,
+    supplierId: string
+  ): Promise<any> {
+    const order = await trx('purchase_orders')
+      .where('id', orderId)
+      .where('company_id', companyId)
+      .first();
+
+    if (!order) {
+      throw new NotFoundError('Purchase order not found');
+    }
+
+    if (order.supplier_id !== supplierId) {
+      throw new ValidationError('Purchase order belongs to a different supplier');
+    }
+
+    if (order.status === 'draft' || order.status === 'cancelled') {
+      throw new ValidationError(`Bills cannot be raised against a ${order.status} purchase order`);
+    }
+
+    return order;
+  }
+
+  /**
+   * Validate bill lines, defaulting description and account from the order
+   * line, and rate them from their tax codes as at the bill date
+   */
+  private async prepareItems(
+    trx: Knex.Transaction,
+    companyId: string,
+    items: BillItemData[],
+    orderId: string | null,
+    billDate: string
+  ): Promise<Array<BillItemData & CalculatedItem>> {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ValidationError('At least one line item is required');
+    }
+
+    const orderLines = orderId
+      ? await trx('purchase_order_items').where('purchase_order_id', orderId)
+      : [];
+
+    const taxed = await vatService.applyTaxCodes(trx, companyId, 'purchases', billDate, items);
+
+    const prepared = taxed.map((item, index) => {
+      let description = item.description;
+      let expenseAccountId = item.expense_account_id;
+
+      if (item.purchase_order_item_id) {
+        const orderLine = orderLines.find((line: any) => line.id === item.purchase_order_item_id);
+        if (!orderLine) {
+          throw new ValidationError(`Line ${index + 1}: not a line of the bill's purchase order`);
+        }
+        description = description || orderLine.description;
+        expenseAccountId = expenseAccountId || orderLine.expense_account_id || undefined;
+      }
+
+      if (!description || description.trim().length === 0) {
+        throw new ValidationError(`Line ${index + 1}: description is required`);
+      }
+
+      if (!(item.quantity > 0)) {
+        throw new ValidationError(`Line ${index + 1}: quantity must be greater than zero`);
+      }
+
+      if (item.unit_price < 0) {
+        throw new ValidationError(`Line ${index + 1}: unit price cannot be negative`);
+      }
+
+      return calculateInvoiceItem({ ...item, description, expense_account_id: expenseAccountId });
+    });
+
+    const accountIds = Array.from(new Set(prepared.map(item => item.expense_account_id).filter(Boolean))) as string[];
+    if (accountIds.length > 0) {
+      const accounts = await trx('accounts')
+        .whereIn('id', accountIds)
+        .where('company_id', companyId)
+        .whereIn('type', [AccountType.EXPENSE, AccountType.ASSET])
+        .whereNull('deleted_at');
+
+      if (accounts.length !== accountIds.length) {
+        throw new ValidationError('Line accounts must be expense or asset accounts of this company');
+      }
+    }
+
+    return prepared;
+  }
+
+  /**
+   * A supplier's invoice number may only be captured once (unless cancelled)
+   */
+  private async assertUniqueReference(trx: Knex.Transaction, supplierId: string, reference: string): Promise<void> {
+    if (!reference || reference.trim().length === 0) {
+      throw new ValidationError("The supplier's invoice number is required");
+    }
+
+    const existing = await trx('supplier_bills')
+      .where('supplier_id', supplierId)
+      .where('supplier_reference', reference.trim())
+      .whereNot('status', 'cancelled')
+      .first();
+
+    if (existing) {
+      throw new ConflictError(`Supplier invoice ${reference} has already been captured as ${existing.bill_number}`);
+    }
+  }
+
+  /**
+   * Supplier payable account, falling back to the AP control account
+   */
+  private async resolvePayableAccount(
+    companyId: string,
+    supplier: Supplier,
+    trx: Knex.Transaction
+  ): Promise<string> {
+    if (supplier.payable_account_id) {
+      return supplier.payable_account_id;
+    }
+
+    return financialSettingsService.requireAccount(companyId, 'ap_control_account_id', trx);
+  }
+
+  /**
+   * Lock a bill row for update
+   */
+  private async lockBill(trx: Knex.Transaction, companyId: string, billId: string): Promise<any> {
+    const bill = await trx('supplier_bills')
+      .where('id', billId)
+      .where('company_id', companyId)
+      .forUpdate()
+      .first();
+
+    if (!bill) {
+      throw new NotFoundError('Supplier bill not found');
+    }
+
+    return bill;
+  }
+
+  /**
+   * Insert priced bill lines
+   */
+  private async insertItems(
+    trx: Knex.Transaction,
+    billId: string,
+    items: Array<BillItemData & CalculatedItem>
+  ): Promise<void> {
+    await trx('supplier_bill_items').insert(items.map((item, index) => ({
+      id: uuidv4(),
+      bill_id: billId,
+      line_number: index + 1,
+      purchase_order_item_id: item.purchase_order_item_id,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_code_id: item.tax_code_id || null,
+      tax_rate: item.tax_rate,
+      line_subtotal: item.line_subtotal,
+      tax_amount: item.tax_amount,
+      line_total: item.line_total,
+      expense_account_id: item.expense_account_id
+    })));
+  }
+
+  /**
+   * Load lines for a set of bills
+   */
+  private async getItems(
+    db: Knex | Knex.Transaction,
+    billIds: string[]
+  ): Promise<Array<BillLineItem & { bill_id: string }>> {
+    if (billIds.length === 0) return [];
+
+    const rows = await db('supplier_bill_items')
+      .whereIn('bill_id', billIds)
+      .orderBy('line_number');
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      bill_id: row.bill_id,
+      line_number: row.line_number,
+      purchase_order_item_id: row.purchase_order_item_id,
+      description: row.description,
+      quantity: parseFloat(row.quantity),
+      unit_price: parseFloat(row.unit_price),
+      discount_percent: 0,
+      tax_code_id: row.tax_code_id,
+      tax_rate: parseFloat(row.tax_rate),
+      line_subtotal: toAmount(row.line_subtotal),
+      tax_amount: toAmount(row.tax_amount),
+      line_total: toAmount(row.line_total),
+      expense_account_id: row.expense_account_id
+    }));
+  }
+
+  /**
+   * Map a bill row and its lines
+   */
+  private mapBill(row: any, items: Array<BillLineItem & { bill_id?: string }>): SupplierBill {
+    return {
+      ...row,
+      bill_date: toDateOnly(row.bill_date),
+      due_date: toDateOnly(row.due_date),
+      exchange_rate: parseFloat(row.exchange_rate),
+      subtotal: toAmount(row.subtotal),
+      tax_total: toAmount(row.tax_total),
+      total: toAmount(row.total),
+      amount_paid: toAmount(row.amount_paid),
+      balance_due: toAmount(row.balance_due),
+      items: items.map(({ bill_id, ...item }) => item)
+    };
+  }
+}
+
+export const supplierBillService = new SupplierBillService();
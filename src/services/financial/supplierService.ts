@@ -0,0 +1,353 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { companyService } from '../../core/company/companyService';
+import { logger } from '../../utils/logger';
+import { AccountType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface CreateSupplierData {
+  supplier_code?: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  vat_number?: string;
+  address_line_1?: string;
+  address_line_2?: string;
+  city?: string;
+  postal_code?: string;
+  country?: string;
+  currency?: string;
+  payment_terms_days?: number;
+  bank_name?: string | null;
+  bank_account_number?: string | null;
+  bank_branch_code?: string | null;
+  payable_account_id?: string | null;
+}
+
+export interface UpdateSupplierData extends Partial<Omit<CreateSupplierData, 'supplier_code'>> {
+  is_active?: boolean;
+}
+
+export interface Supplier {
+  id: string;
+  company_id: string;
+  supplier_code: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  vat_number?: string;
+  address_line_1?: string;
+  address_line_2?: string;
+  city?: string;
+  postal_code?: string;
+  country?: string;
+  currency: string;
+  payment_terms_days: number;
+  bank_name?: string | null;
+  bank_account_number?: string | null;
+  bank_branch_code?: string | null;
+  payable_account_id: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SupplierFilters {
+  search?: string;
+  is_active?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export class SupplierService {
+  /**
+   * Get suppliers with filters and pagination
+   */
+  async getSuppliers(companyId: string, filters: SupplierFilters = {}): Promise<{
+    suppliers: Supplier[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('suppliers')
+        .where('company_id', companyId)
+        .whereNull('deleted_at');
+
+      if (filters.is_active !== undefined) {
+        query = query.where('is_active', filters.is_active);
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('name', 'ilike', search)
+            .orWhere('supplier_code', 'ilike', search)
+            .orWhere('email', 'ilike', search)
+            .orWhere('vat_number', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().count('* as count');
+      const rows = await query.orderBy('name').limit(limit).offset(offset);
+
+      return {
+        suppliers: rows.map((row: any) => this.mapSupplier(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching suppliers', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get supplier by ID
+   */
+  async getSupplierById(companyId: string, supplierId: string, trx?: Knex.Transaction): Promise<Supplier | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('suppliers')
+        .where('id', supplierId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .first();
+
+      return row ? this.mapSupplier(row) : null;
+    } catch (error) {
+      logger.error('Error fetching supplier by ID', { error, companyId, supplierId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create supplier
+   */
+  async createSupplier(companyId: string, data: CreateSupplierData, createdBy: string): Promise<Supplier> {
+    try {
+      const db = getDatabase();
+      this.validateSupplierData(data);
+
+      const currency = (data.currency || await companyService.getBaseCurrency(companyId)).toUpperCase();
+
+      const supplierId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        if (data.payable_account_id) {
+          await this.assertPayableAccount(trx, companyId, data.payable_account_id, currency);
+        }
+
+        const supplierCode = data.supplier_code
+          || await sequenceService.next(trx, companyId, 'supplier', { prefix: 'SUP', padding: 5 });
+
+        const existing = await trx('suppliers')
+          .where('company_id', companyId)
+          .where('supplier_code', supplierCode)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Supplier code ${supplierCode} already exists`);
+        }
+
+        await trx('suppliers').insert({
+          id: supplierId,
+          company_id: companyId,
+          supplier_code: supplierCode,
+          name: data.name.trim(),
+          email: data.email,
+          phone: data.phone,
+          vat_number: data.vat_number,
+          address_line_1: data.address_line_1,
+          address_line_2: data.address_line_2,
+          city: data.city,
+          postal_code: data.postal_code,
+          country: data.country,
+          currency,
+          payment_terms_days: data.payment_terms_days ?? 30,
+          bank_name: data.bank_name,
+          bank_account_number: data.bank_account_number,
+          bank_branch_code: data.bank_branch_code,
+          payable_account_id: data.payable_account_id ?? null,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+      });
+
+      const supplier = await this.getSupplierById(companyId, supplierId);
+      if (!supplier) {
+        throw new Error('Failed to create supplier');
+      }
+
+      logger.info('Supplier created successfully', {
+        supplierId,
+        supplierCode: supplier.supplier_code,
+        companyId,
+        createdBy
+      });
+
+      return supplier;
+    } catch (error) {
+      logger.error('Error creating supplier', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update supplier
+   */
+  async updateSupplier(
+    companyId: string,
+    supplierId: string,
+    data: UpdateSupplierData,
+    updatedBy: string
+  ): Promise<Supplier> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getSupplierById(companyId, supplierId);
+      if (!existing) {
+        throw new NotFoundError('Supplier not found');
+      }
+
+      if (data.name !== undefined && data.name.trim().length === 0) {
+        throw new ValidationError('Supplier name is required');
+      }
+
+      const currency = (data.currency || existing.currency).toUpperCase();
+
+      if (currency !== existing.currency) {
+        const billed = await db('supplier_bills').where('supplier_id', supplierId).first()
+          || await db('purchase_orders').where('supplier_id', supplierId).first();
+        if (billed) {
+          throw new ConflictError('Currency cannot be changed once the supplier has orders or bills');
+        }
+      }
+
+      await db.transaction(async (trx) => {
+        const payableAccountId = data.payable_account_id !== undefined
+          ? data.payable_account_id
+          : existing.payable_account_id;
+        if (payableAccountId) {
+          await this.assertPayableAccount(trx, companyId, payableAccountId, currency);
+        }
+
+        await trx('suppliers')
+          .where('id', supplierId)
+          .update({
+            ...data,
+            name: data.name?.trim() ?? existing.name,
+            currency,
+            updated_by: updatedBy,
+            updated_at: new Date()
+          });
+      });
+
+      const supplier = await this.getSupplierById(companyId, supplierId);
+      if (!supplier) {
+        throw new Error('Failed to update supplier');
+      }
+
+      logger.info('Supplier updated successfully', { supplierId, companyId, updatedBy });
+
+      return supplier;
+    } catch (error) {
+      logger.error('Error updating supplier', { error, companyId, supplierId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete supplier (soft delete; suppliers with orders or bills are deactivated instead)
+   */
+  async deleteSupplier(companyId: string, supplierId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getSupplierById(companyId, supplierId);
+      if (!existing) {
+        throw new NotFoundError('Supplier not found');
+      }
+
+      const used = await db('supplier_bills').where('supplier_id', supplierId).first()
+        || await db('purchase_orders').where('supplier_id', supplierId).first();
+      if (used) {
+        throw new ConflictError('Supplier has orders or bills; deactivate it instead');
+      }
+
+      await db('suppliers')
+        .where('id', supplierId)
+        .update({
+          deleted_at: new Date(),
+          is_active: false,
+          updated_by: deletedBy,
+          updated_at: new Date()
+        });
+
+      logger.info('Supplier deleted successfully', { supplierId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting supplier', { error, companyId, supplierId });
+      throw error;
+    }
+  }
+
+  /**
+   * A supplier-specific payable account must be a liability in the supplier's
+   * currency or the company's base currency
+   */
+  private async assertPayableAccount(
+    trx: Knex.Transaction,
+    companyId: string,
+    accountId: string,
+    currency: string
+  ): Promise<void> {
+    const account = await trx('accounts')
+      .where('id', accountId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!account || account.type !== AccountType.LIABILITY) {
+      throw new ValidationError('Payable account must be a liability account of this company');
+    }
+
+    const company = await companyService.getCompanyById(companyId);
+    if (account.currency !== currency && account.currency !== company?.currency_code) {
+      throw new ValidationError(`Payable account must be held in ${currency} or the base currency`);
+    }
+  }
+
+  /**
+   * Map a supplier row
+   */
+  private mapSupplier(row: any): Supplier {
+    return { ...row };
+  }
+
+  /**
+   * Validate supplier data
+   */
+  private validateSupplierData(data: CreateSupplierData): void {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ValidationError('Supplier name is required');
+    }
+
+    if (data.payment_terms_days !== undefined && data.payment_terms_days < 0) {
+      throw new ValidationError('Payment terms cannot be negative');
+    }
+  }
+}
+
+export const supplierService = new SupplierService();
@@ -0,0 +1,109 @@
+/**
+ * Three-way matching of supplier bill lines against the purchase order
+ * (price) and goods receipts (quantity), within configurable tolerances.
+ */
+
+export interface MatchTolerance {
+  price_percent: number;
+  quantity_percent: number;
+}
+
+export interface BillLineToMatch {
+  line_number: number;
+  description: string;
+  purchase_order_item_id?: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface OrderLineForMatch {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  quantity_received: number;
+  // Quantity already billed on other approved bills
+  quantity_billed: number;
+}
+
+export type MatchIssueType = 'not_on_order' | 'price_variance' | 'quantity_not_received';
+
+export interface MatchIssue {
+  line_number: number;
+  type: MatchIssueType;
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface MatchResult {
+  status: 'not_required' | 'matched' | 'mismatch';
+  issues: MatchIssue[];
+}
+
+const QUANTITY_PRECISION = 10000;
+
+const roundQuantity = (quantity: number): number =>
+  Math.round(quantity * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+
+/**
+ * Compare bill lines with their order lines: the unit price may differ from
+ * the order by the price tolerance, and the total quantity billed may exceed
+ * the quantity received by the quantity tolerance. Bills not raised against a
+ * purchase order need no match.
+ */
+export const matchBillLines = (
+  lines: BillLineToMatch[],
+  orderLines: OrderLineForMatch[] | null,
+  tolerance: MatchTolerance
+): MatchResult => {
+  if (!orderLines) {
+    return { status: 'not_required', issues: [] };
+  }
+
+  const issues: MatchIssue[] = [];
+  // Several bill lines may draw on the same order line
+  const billedSoFar = new Map<string, number>();
+
+  for (const line of lines) {
+    const orderLine = line.purchase_order_item_id
+      ? orderLines.find(item => item.id === line.purchase_order_item_id)
+      : undefined;
+
+    if (!orderLine) {
+      issues.push({
+        line_number: line.line_number,
+        type: 'not_on_order',
+        message: `Line ${line.line_number} (${line.description}) is not on the purchase order`
+      });
+      continue;
+    }
+
+    const priceLimit = orderLine.unit_price * tolerance.price_percent / 100;
+    if (Math.abs(line.unit_price - orderLine.unit_price) > priceLimit + 1e-9) {
+      issues.push({
+        line_number: line.line_number,
+        type: 'price_variance',
+        message: `Line ${line.line_number}: unit price ${line.unit_price} differs from the order price ${orderLine.unit_price}`,
+        expected: orderLine.unit_price,
+        actual: line.unit_price
+      });
+    }
+
+    const billed = roundQuantity((billedSoFar.get(orderLine.id) ?? orderLine.quantity_billed) + line.quantity);
+    billedSoFar.set(orderLine.id, billed);
+
+    const quantityLimit = roundQuantity(orderLine.quantity_received * (1 + tolerance.quantity_percent / 100));
+    if (billed > quantityLimit) {
+      issues.push({
+        line_number: line.line_number,
+        type: 'quantity_not_received',
+        message: `Line ${line.line_number}: ${billed} billed in total but only ${orderLine.quantity_received} received`,
+        expected: orderLine.quantity_received,
+        actual: billed
+      });
+    }
+  }
+
+  return { status: issues.length > 0 ? 'mismatch' : 'matched', issues };
+};
+
@@ -0,0 +1,914 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { RenderedReport } from './reportService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount, formatMoney } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { toCsv } from '../../utils/csvUtils';
+import { renderTablePdf, PdfTableRow } from '../../utils/pdfUtils';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export type TaxCodeType = 'sales' | 'purchases';
+
+export interface TaxCodeRate {
+  id: string;
+  rate: number;
+  effective_from: string;
+}
+
+export interface TaxCode {
+  id: string;
+  company_id: string;
+  code: string;
+  name: string;
+  type: TaxCodeType;
+  is_exempt: boolean;
+  is_zero_rated: boolean;
+  is_reverse_charge: boolean;
+  return_field: string | null;
+  is_active: boolean;
+  rates: TaxCodeRate[];
+  current_rate: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateTaxCodeData {
+  code: string;
+  name: string;
+  type: TaxCodeType;
+  is_exempt?: boolean;
+  is_zero_rated?: boolean;
+  is_reverse_charge?: boolean;
+  return_field?: string | null;
+  rate?: number;
+  effective_from?: Date | string;
+}
+
+export interface UpdateTaxCodeData {
+  name?: string;
+  return_field?: string | null;
+  is_active?: boolean;
+}
+
+export interface AddTaxRateData {
+  rate: number;
+  effective_from: Date | string;
+}
+
+export interface TaxCodeFilters {
+  type?: TaxCodeType;
+  is_active?: boolean;
+}
+
+/**
+ * A document line as far as VAT is concerned (document currency)
+ */
+export interface TaxableLine {
+  tax_code_id?: string | null;
+  tax_rate: number;
+  line_subtotal: number;
+  tax_amount: number;
+}
+
+/**
+ * Tax code with the rate in force on the document date
+ */
+export interface ResolvedTaxCode {
+  id: string;
+  code: string;
+  is_exempt: boolean;
+  is_zero_rated: boolean;
+  is_reverse_charge: boolean;
+  return_field: string | null;
+  rate: number | null;
+}
+
+export interface VatEntry {
+  tax_code_id: string | null;
+  return_field: string;
+  tax_rate: number;
+  net_amount: number;
+  tax_amount: number;
+}
+
+export interface Vat201Field {
+  field: string;
+  label: string;
+  amount: number;
+}
+
+export interface Vat201TaxCodeSummary {
+  tax_code_id: string | null;
+  code: string;
+  name: string;
+  return_field: string;
+  net_amount: number;
+  tax_amount: number;
+}
+
+export interface Vat201Return {
+  company_name: string;
+  vat_number: string | null;
+  currency: string;
+  period_start: string;
+  period_end: string;
+  fields: Vat201Field[];
+  total_output_tax: number;
+  total_input_tax: number;
+  vat_payable: number;
+  is_refund: boolean;
+  by_tax_code: Vat201TaxCodeSummary[];
+}
+
+export const SALES_RETURN_FIELDS = ['1', '1A', '2', '2A', '3'];
+export const PURCHASE_RETURN_FIELDS = ['14', '14A', '15', '15A'];
+// Output tax self-assessed on imported services
+export const REVERSE_CHARGE_OUTPUT_FIELD = '12';
+
+const VAT201_LABELS: Array<[string, string]> = [
+  ['1', 'Standard rate (excluding capital goods) - consideration incl. VAT'],
+  ['4', 'Standard rate (excluding capital goods) - output tax'],
+  ['1A', 'Standard rate (capital goods) - consideration incl. VAT'],
+  ['4A', 'Standard rate (capital goods) - output tax'],
+  ['2', 'Zero rate (excluding exports)'],
+  ['2A', 'Zero rate (exports)'],
+  ['3', 'Exempt and non-supplies'],
+  ['12', 'Imported services - output tax'],
+  ['13', 'Total output tax'],
+  ['14', 'Capital goods and services supplied to you - input tax'],
+  ['14A', 'Capital goods imported - input tax'],
+  ['15', 'Other goods and services supplied to you - input tax'],
+  ['15A', 'Other goods imported - input tax'],
+  ['19', 'Total input tax'],
+  ['20', 'VAT payable / (refundable)']
+];
+
+/**
+ * South African defaults: the standard rate moved from 14% to 15% on 1 April 2018
+ */
+const DEFAULT_TAX_CODES: Array<CreateTaxCodeData & { rates?: AddTaxRateData[] }> = [
+  { code: 'S-STD', name: 'Standard rated supplies', type: 'sales', return_field: '1', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'S-CAP', name: 'Standard rated supplies of capital goods', type: 'sales', return_field: '1A', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'S-ZR', name: 'Zero rated supplies', type: 'sales', is_zero_rated: true, return_field: '2' },
+  { code: 'S-EXP', name: 'Zero rated exports', type: 'sales', is_zero_rated: true, return_field: '2A' },
+  { code: 'S-EX', name: 'Exempt supplies', type: 'sales', is_exempt: true, return_field: '3' },
+  { code: 'P-STD', name: 'Standard rated purchases', type: 'purchases', return_field: '15', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'P-CAP', name: 'Capital goods purchased', type: 'purchases', return_field: '14', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'P-IMP', name: 'Goods imported', type: 'purchases', return_field: '15A', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'P-IMPCAP', name: 'Capital goods imported', type: 'purchases', return_field: '14A', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'P-RC', name: 'Imported services (reverse charge)', type: 'purchases', is_reverse_charge: true, return_field: '15', rates: [{ rate: 14, effective_from: '1993-04-07' }, { rate: 15, effective_from: '2018-04-01' }] },
+  { code: 'P-ZR', name: 'Zero rated purchases', type: 'purchases', is_zero_rated: true, return_field: null },
+  { code: 'P-EX', name: 'Exempt purchases', type: 'purchases', is_exempt: true, return_field: null }
+];
+
+/**
+ * Rate in force on a date: the latest rate effective on or before it
+ */
+export const resolveTaxRate = (rates: Array<{ rate: number; effective_from: string }>, date: string): number | null => {
+  const applicable = rates
+    .filter(rate => rate.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  return applicable.length > 0 ? applicable[0].rate : null;
+};
+
+/**
+ * Rate charged on the line itself; exempt, zero-rated and reverse-charge
+ * supplies carry no VAT on the document
+ */
+export const lineTaxRate = (code: ResolvedTaxCode): number => {
+  if (code.is_exempt || code.is_zero_rated || code.is_reverse_charge) {
+    return 0;
+  }
+
+  if (code.rate === null) {
+    throw new ValidationError(`Tax code ${code.code} has no rate in force on the document date`);
+  }
+
+  return code.rate;
+};
+
+/**
+ * VAT201 entries for a document's lines, grouped by tax code, field and rate.
+ * Lines without a code fall back on their rate: taxed lines are standard
+ * rated, untaxed sales are zero rated and untaxed purchases are not claimed.
+ */
+export const buildVatEntries = (
+  type: TaxCodeType,
+  lines: TaxableLine[],
+  codes: Map<string, ResolvedTaxCode>
+): VatEntry[] => {
+  const entries = new Map<string, VatEntry>();
+
+  const add = (taxCodeId: string | null, field: string | null, rate: number, net: number, tax: number) => {
+    if (!field) return;
+
+    const key = `${taxCodeId ?? ''}|${field}|${rate}`;
+    const entry = entries.get(key) || { tax_code_id: taxCodeId, return_field: field, tax_rate: rate, net_amount: 0, tax_amount: 0 };
+    entry.net_amount = roundMoney(entry.net_amount + net);
+    entry.tax_amount = roundMoney(entry.tax_amount + tax);
+    entries.set(key, entry);
+  };
+
+  for (const line of lines) {
+    const code = line.tax_code_id ? codes.get(line.tax_code_id) : undefined;
+    if (line.tax_code_id && !code) {
+      throw new ValidationError('Tax code not found');
+    }
+
+    if (!code) {
+      const field = line.tax_rate > 0
+        ? (type === 'sales' ? '1' : '15')
+        : (type === 'sales' ? '2' : null);
+      add(null, field, line.tax_rate, line.line_subtotal, line.tax_amount);
+      continue;
+    }
+
+    if (code.is_reverse_charge) {
+      if (code.rate === null) {
+        throw new ValidationError(`Tax code ${code.code} has no rate in force on the document date`);
+      }
+
+      // Self-assessed: declared as output tax and claimed back as input tax
+      const tax = roundMoney(line.line_subtotal * code.rate / 100);
+      add(code.id, REVERSE_CHARGE_OUTPUT_FIELD, code.rate, line.line_subtotal, tax);
+      add(code.id, code.return_field, code.rate, line.line_subtotal, tax);
+      continue;
+    }
+
+    add(code.id, code.return_field, line.tax_rate, line.line_subtotal, line.tax_amount);
+  }
+
+  return Array.from(entries.values());
+};
+
+/**
+ * Self-assessed VAT on reverse-charge lines (to post to both VAT accounts)
+ */
+export const reverseChargeTax = (entries: VatEntry[]): number =>
+  sumMoney(entries
+    .filter(entry => entry.return_field === REVERSE_CHARGE_OUTPUT_FIELD)
+    .map(entry => entry.tax_amount));
+
+/**
+ * VAT201 fields from net and tax totals per return field. Standard rated
+ * supplies are declared inclusive of VAT with the tax alongside; zero rated
+ * and exempt supplies at their value; input fields are tax amounts.
+ */
+export const buildVat201Fields = (totals: Record<string, { net_amount: number; tax_amount: number }>): Vat201Field[] => {
+  const net = (field: string) => totals[field]?.net_amount ?? 0;
+  const tax = (field: string) => totals[field]?.tax_amount ?? 0;
+
+  const values: Record<string, number> = {
+    '1': roundMoney(net('1') + tax('1')),
+    '4': tax('1'),
+    '1A': roundMoney(net('1A') + tax('1A')),
+    '4A': tax('1A'),
+    '2': net('2'),
+    '2A': net('2A'),
+    '3': net('3'),
+    '12': tax(REVERSE_CHARGE_OUTPUT_FIELD),
+    '14': tax('14'),
+    '14A': tax('14A'),
+    '15': tax('15'),
+    '15A': tax('15A')
+  };
+  values['13'] = sumMoney([values['4'], values['4A'], values['12']]);
+  values['19'] = sumMoney([values['14'], values['14A'], values['15'], values['15A']]);
+  values['20'] = roundMoney(values['13'] - values['19']);
+
+  return VAT201_LABELS.map(([field, label]) => ({ field, label, amount: values[field] }));
+};
+
+export class VatService {
+  /**
+   * Get a company's tax codes with their rates
+   */
+  async getTaxCodes(companyId: string, filters: TaxCodeFilters = {}): Promise<TaxCode[]> {
+    try {
+      const db = getDatabase();
+
+      let query = db('tax_codes').where('company_id', companyId);
+
+      if (filters.type) {
+        query = query.where('type', filters.type);
+      }
+
+      if (filters.is_active !== undefined) {
+        query = query.where('is_active', filters.is_active);
+      }
+
+      const rows = await query.orderBy('type').orderBy('code');
+      const rates = await this.getRates(db, rows.map((row: any) => row.id));
+
+      return rows.map((row: any) => this.mapTaxCode(row, rates.filter(rate => rate.tax_code_id === row.id)));
+    } catch (error) {
+      logger.error('Error fetching tax codes', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a tax code with its rate history
+   */
+  async getTaxCodeById(companyId: string, taxCodeId: string, trx?: Knex.Transaction): Promise<TaxCode | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('tax_codes')
+        .where('id', taxCodeId)
+        .where('company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const rates = await this.getRates(db, [row.id]);
+      return this.mapTaxCode(row, rates);
+    } catch (error) {
+      logger.error('Error fetching tax code by ID', { error, companyId, taxCodeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a tax code, with its first rate unless it is exempt or zero rated
+   */
+  async createTaxCode(
+    companyId: string,
+    data: CreateTaxCodeData,
+    createdBy: string,
+    trx?: Knex.Transaction
+  ): Promise<TaxCode> {
+    try {
+      const db = trx || getDatabase();
+      this.validateTaxCode(data);
+
+      const code = data.code.trim().toUpperCase();
+      const existing = await db('tax_codes')
+        .where('company_id', companyId)
+        .where('code', code)
+        .first();
+      if (existing) {
+        throw new ConflictError(`Tax code ${code} already exists`);
+      }
+
+      const taxCodeId = uuidv4();
+      const carriesRate = !data.is_exempt && !data.is_zero_rated;
+
+      if (carriesRate && data.rate === undefined) {
+        throw new ValidationError('A rate is required for a taxed code');
+      }
+
+      await db('tax_codes').insert({
+        id: taxCodeId,
+        company_id: companyId,
+        code,
+        name: data.name.trim(),
+        type: data.type,
+        is_exempt: Boolean(data.is_exempt),
+        is_zero_rated: Boolean(data.is_zero_rated),
+        is_reverse_charge: Boolean(data.is_reverse_charge),
+        return_field: data.return_field || null,
+        created_by: createdBy
+      });
+
+      if (carriesRate) {
+        await db('tax_code_rates').insert({
+          id: uuidv4(),
+          tax_code_id: taxCodeId,
+          rate: data.rate,
+          effective_from: toDateOnly(data.effective_from || '1900-01-01')
+        });
+      }
+
+      const taxCode = await this.getTaxCodeById(companyId, taxCodeId, trx);
+      if (!taxCode) {
+        throw new Error('Failed to create tax code');
+      }
+
+      logger.info('Tax code created successfully', { taxCodeId, code, companyId, createdBy });
+
+      return taxCode;
+    } catch (error) {
+      logger.error('Error creating tax code', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a tax code's name, VAT201 field or active flag
+   */
+  async updateTaxCode(
+    companyId: string,
+    taxCodeId: string,
+    data: UpdateTaxCodeData,
+    updatedBy: string
+  ): Promise<TaxCode> {
+    try {
+      const db = getDatabase();
+
+      const taxCode = await this.getTaxCodeById(companyId, taxCodeId);
+      if (!taxCode) {
+        throw new NotFoundError('Tax code not found');
+      }
+
+      const updateData: Record<string, any> = { updated_at: new Date() };
+
+      if (data.name !== undefined) updateData.name = data.name.trim();
+      if (data.is_active !== undefined) updateData.is_active = data.is_active;
+      if (data.return_field !== undefined) {
+        this.validateReturnField(taxCode.type, data.return_field);
+        updateData.return_field = data.return_field || null;
+      }
+
+      await db('tax_codes').where('id', taxCodeId).update(updateData);
+
+      logger.info('Tax code updated successfully', { taxCodeId, companyId, updatedBy });
+
+      return (await this.getTaxCodeById(companyId, taxCodeId))!;
+    } catch (error) {
+      logger.error('Error updating tax code', { error, companyId, taxCodeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a rate change effective from a date (e.g. a change in the standard rate)
+   */
+  async addRate(companyId: string, taxCodeId: string, data: AddTaxRateData, userId: string): Promise<TaxCode> {
+    try {
+      const db = getDatabase();
+
+      const taxCode = await this.getTaxCodeById(companyId, taxCodeId);
+      if (!taxCode) {
+        throw new NotFoundError('Tax code not found');
+      }
+
+      if (taxCode.is_exempt || taxCode.is_zero_rated) {
+        throw new ValidationError('Exempt and zero rated codes do not carry a rate');
+      }
+
+      if (!(data.rate >= 0 && data.rate <= 100)) {
+        throw new ValidationError('Rate must be between 0 and 100');
+      }
+
+      const effectiveFrom = toDateOnly(data.effective_from);
+      if (taxCode.rates.some(rate => rate.effective_from === effectiveFrom)) {
+        throw new ConflictError(`Tax code ${taxCode.code} already has a rate effective from ${effectiveFrom}`);
+      }
+
+      await db('tax_code_rates').insert({
+        id: uuidv4(),
+        tax_code_id: taxCodeId,
+        rate: data.rate,
+        effective_from: effectiveFrom
+      });
+
+      await auditService.logUserAction({
+        user_id: userId,
+        action: 'TAX_RATE_ADDED',
+        resource_type: 'tax_code',
+        resource_id: taxCodeId,
+        company_id: companyId,
+        details: { code: taxCode.code, rate: data.rate, effective_from: effectiveFrom }
+      });
+
+      logger.info('Tax rate added', { taxCodeId, companyId, rate: data.rate, effectiveFrom });
+
+      return (await this.getTaxCodeById(companyId, taxCodeId))!;
+    } catch (error) {
+      logger.error('Error adding tax rate', { error, companyId, taxCodeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the South African default tax codes the company does not have yet
+   */
+  async createDefaultTaxCodes(companyId: string, createdBy: string): Promise<TaxCode[]> {
+    try {
+      const db = getDatabase();
+
+      const existing = await db('tax_codes').where('company_id', companyId).pluck('code');
+
+      await db.transaction(async (trx) => {
+        for (const { rates, ...definition } of DEFAULT_TAX_CODES) {
+          if (existing.includes(definition.code)) continue;
+
+          const [first, ...later] = rates || [];
+          const taxCode = await this.createTaxCode(companyId, {
+            ...definition,
+            rate: first?.rate,
+            effective_from: first?.effective_from
+          }, createdBy, trx);
+
+          if (later.length > 0) {
+            await trx('tax_code_rates').insert(later.map(rate => ({
+              id: uuidv4(),
+              tax_code_id: taxCode.id,
+              rate: rate.rate,
+              effective_from: toDateOnly(rate.effective_from)
+            })));
+          }
+        }
+      });
+
+      logger.info('Default tax codes created', { companyId, createdBy });
+
+      return this.getTaxCodes(companyId);
+    } catch (error) {
+      logger.error('Error creating default tax codes', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Set each line's tax rate from its tax code as at the document date
+   */
+  async applyTaxCodes<T extends { tax_code_id?: string | null; tax_rate?: number }>(
+    trx: Knex.Transaction,
+    companyId: string,
+    type: TaxCodeType,
+    date: Date | string,
+    items: T[]
+  ): Promise<T[]> {
+    try {
+      const codes = await this.resolveTaxCodes(trx, companyId, items, date);
+
+      return items.map((item, index) => {
+        if (!item.tax_code_id) return item;
+
+        const code = codes.get(item.tax_code_id)!;
+        if (code.type !== type) {
+          throw new ValidationError(`Line ${index + 1}: tax code ${code.code} is not a ${type} code`);
+        }
+        if (!code.is_active) {
+          throw new ValidationError(`Line ${index + 1}: tax code ${code.code} is inactive`);
+        }
+
+        return { ...item, tax_rate: lineTaxRate(code) };
+      });
+    } catch (error) {
+      logger.error('Error applying tax codes', { error, companyId, type });
+      throw error;
+    }
+  }
+
+  /**
+   * VAT201 entries for a document's priced lines (document currency)
+   */
+  async calculateDocumentTax(
+    trx: Knex.Transaction,
+    companyId: string,
+    type: TaxCodeType,
+    date: Date | string,
+    lines: TaxableLine[]
+  ): Promise<VatEntry[]> {
+    try {
+      const codes = await this.resolveTaxCodes(trx, companyId, lines, date);
+      return buildVatEntries(type, lines, codes);
+    } catch (error) {
+      logger.error('Error calculating document tax', { error, companyId, type });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a posted document's VAT in base currency (sign -1 for credit notes)
+   */
+  async recordDocumentTax(
+    trx: Knex.Transaction,
+    companyId: string,
+    entries: VatEntry[],
+    source: {
+      source_type: string;
+      source_id: string;
+      journal_entry_id: string;
+      tax_point: Date | string;
+      exchange_rate: number;
+      sign?: 1 | -1;
+    }
+  ): Promise<void> {
+    try {
+      if (entries.length === 0) return;
+
+      const sign = source.sign ?? 1;
+      await trx('vat_transactions').insert(entries.map(entry => ({
+        id: uuidv4(),
+        company_id: companyId,
+        tax_code_id: entry.tax_code_id,
+        return_field: entry.return_field,
+        tax_point: toDateOnly(source.tax_point),
+        net_amount: roundMoney(sign * entry.net_amount * source.exchange_rate),
+        tax_amount: roundMoney(sign * entry.tax_amount * source.exchange_rate),
+        tax_rate: entry.tax_rate,
+        source_type: source.source_type,
+        source_id: source.source_id,
+        journal_entry_id: source.journal_entry_id
+      })));
+    } catch (error) {
+      logger.error('Error recording document tax', { error, companyId, source });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a document's VAT with opposite entries at the reversal's date
+   */
+  async reverseDocumentTax(
+    trx: Knex.Transaction,
+    companyId: string,
+    sourceType: string,
+    sourceId: string,
+    reversal: { journal_entry_id: string; tax_point: Date | string }
+  ): Promise<void> {
+    try {
+      const rows = await trx('vat_transactions')
+        .where('company_id', companyId)
+        .where('source_type', sourceType)
+        .where('source_id', sourceId);
+
+      if (rows.length === 0) return;
+
+      await trx('vat_transactions').insert(rows.map((row: any) => ({
+        id: uuidv4(),
+        company_id: companyId,
+        tax_code_id: row.tax_code_id,
+        return_field: row.return_field,
+        tax_point: toDateOnly(reversal.tax_point),
+        net_amount: roundMoney(-toAmount(row.net_amount)),
+        tax_amount: roundMoney(-toAmount(row.tax_amount)),
+        tax_rate: row.tax_rate,
+        source_type: sourceType,
+        source_id: sourceId,
+        journal_entry_id: reversal.journal_entry_id
+      })));
+    } catch (error) {
+      logger.error('Error reversing document tax', { error, companyId, sourceType, sourceId });
+      throw error;
+    }
+  }
+
+  /**
+   * VAT201 return for a tax period from posted documents
+   */
+  async getVat201(companyId: string, startDate: Date | string, endDate: Date | string): Promise<Vat201Return> {
+    try {
+      const db = getDatabase();
+      const periodStart = toDateOnly(startDate);
+      const periodEnd = toDateOnly(endDate);
+
+      if (periodEnd < periodStart) {
+        throw new ValidationError('End date cannot be before the start date');
+      }
+
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const rows = await db('vat_transactions')
+        .leftJoin('tax_codes', 'vat_transactions.tax_code_id', 'tax_codes.id')
+        .where('vat_transactions.company_id', companyId)
+        .whereBetween('vat_transactions.tax_point', [periodStart, periodEnd])
+        .groupBy('vat_transactions.tax_code_id', 'tax_codes.code', 'tax_codes.name', 'vat_transactions.return_field')
+        .select(
+          'vat_transactions.tax_code_id',
+          'tax_codes.code',
+          'tax_codes.name',
+          'vat_transactions.return_field'
+        )
+        .sum({ net_amount: 'vat_transactions.net_amount', tax_amount: 'vat_transactions.tax_amount' })
+        .orderBy('vat_transactions.return_field')
+        .orderBy('tax_codes.code');
+
+      const byTaxCode: Vat201TaxCodeSummary[] = rows.map((row: any) => ({
+        tax_code_id: row.tax_code_id,
+        code: row.code || '(none)',
+        name: row.name || 'Lines without a tax code',
+        return_field: row.return_field,
+        net_amount: toAmount(row.net_amount),
+        tax_amount: toAmount(row.tax_amount)
+      }));
+
+      const totals: Record<string, { net_amount: number; tax_amount: number }> = {};
+      for (const summary of byTaxCode) {
+        const total = totals[summary.return_field] || { net_amount: 0, tax_amount: 0 };
+        total.net_amount = roundMoney(total.net_amount + summary.net_amount);
+        total.tax_amount = roundMoney(total.tax_amount + summary.tax_amount);
+        totals[summary.return_field] = total;
+      }
+
+      const fields = buildVat201Fields(totals);
+      const value = (field: string) => fields.find(entry => entry.field === field)!.amount;
+
+      return {
+        company_name: company.name,
+        vat_number: company.vat_number || null,
+        currency: (company.currency_code || '').toUpperCase(),
+        period_start: periodStart,
+        period_end: periodEnd,
+        fields,
+        total_output_tax: value('13'),
+        total_input_tax: value('19'),
+        vat_payable: value('20'),
+        is_refund: value('20') < 0,
+        by_tax_code: byTaxCode
+      };
+    } catch (error) {
+      logger.error('Error generating VAT201 return', { error, companyId, startDate, endDate });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a VAT201 return as CSV or PDF
+   */
+  async renderVat201(vatReturn: Vat201Return, format: 'csv' | 'pdf'): Promise<RenderedReport> {
+    const filename = `vat201-${vatReturn.period_start}-${vatReturn.period_end}`;
+
+    if (format === 'csv') {
+      const records = [
+        ...vatReturn.fields.map(field => ({
+          section: 'VAT201',
+          field: field.field,
+          description: field.label,
+          amount: field.amount.toFixed(2)
+        })),
+        ...vatReturn.by_tax_code.map(summary => ({
+          section: 'By tax code',
+          field: summary.return_field,
+          description: `${summary.code} ${summary.name}`,
+          net_amount: summary.net_amount.toFixed(2),
+          amount: summary.tax_amount.toFixed(2)
+        }))
+      ];
+
+      return {
+        content: toCsv(['section', 'field', 'description', 'net_amount', 'amount'], records),
+        content_type: 'text/csv; charset=utf-8',
+        filename: `${filename}.csv`
+      };
+    }
+
+    const totalFields = ['13', '19', '20'];
+    const rows: PdfTableRow[] = [
+      ...vatReturn.fields.map(field => ({
+        cells: [field.field, field.label, '', formatMoney(field.amount)],
+        bold: totalFields.includes(field.field)
+      })),
+      ...(vatReturn.by_tax_code.length > 0 ? [{ cells: ['', 'By tax code', 'Net', 'VAT'], bold: true }] : []),
+      ...vatReturn.by_tax_code.map(summary => ({
+        cells: [summary.return_field, `${summary.code} ${summary.name}`, formatMoney(summary.net_amount), formatMoney(summary.tax_amount)],
+        indent: 1
+      }))
+    ];
+
+    const content = await renderTablePdf({
+      title: 'VAT201 Return',
+      subtitle: [
+        vatReturn.company_name,
+        vatReturn.vat_number ? `VAT number ${vatReturn.vat_number}` : '',
+        `Tax period ${vatReturn.period_start} to ${vatReturn.period_end} (${vatReturn.currency})`
+      ].filter(line => line.length > 0),
+      columns: [
+        { label: 'Field', width: 45 },
+        { label: 'Description', width: 300 },
+        { label: 'Net', width: 85, align: 'right' },
+        { label: 'Amount', width: 85, align: 'right' }
+      ],
+      rows
+    });
+
+    return {
+      content,
+      content_type: 'application/pdf',
+      filename: `${filename}.pdf`
+    };
+  }
+
+  /**
+   * Load the tax codes used on a set of lines with the rate in force on the date
+   */
+  private async resolveTaxCodes(
+    trx: Knex.Transaction,
+    companyId: string,
+    lines: Array<{ tax_code_id?: string | null }>,
+    date: Date | string
+  ): Promise<Map<string, ResolvedTaxCode & { type: TaxCodeType; is_active: boolean }>> {
+    const ids = Array.from(new Set(lines.map(line => line.tax_code_id).filter(Boolean))) as string[];
+    const codes = new Map<string, ResolvedTaxCode & { type: TaxCodeType; is_active: boolean }>();
+    if (ids.length === 0) return codes;
+
+    const rows = await trx('tax_codes')
+      .whereIn('id', ids)
+      .where('company_id', companyId);
+
+    if (rows.length !== ids.length) {
+      throw new ValidationError('Line tax codes must be tax codes of this company');
+    }
+
+    const rates = await this.getRates(trx, ids);
+    const documentDate = toDateOnly(date);
+
+    for (const row of rows) {
+      codes.set(row.id, {
+        id: row.id,
+        code: row.code,
+        type: row.type,
+        is_active: row.is_active,
+        is_exempt: row.is_exempt,
+        is_zero_rated: row.is_zero_rated,
+        is_reverse_charge: row.is_reverse_charge,
+        return_field: row.return_field,
+        rate: resolveTaxRate(rates.filter(rate => rate.tax_code_id === row.id), documentDate)
+      });
+    }
+
+    return codes;
+  }
+
+  /**
+   * Rate history for a set of tax codes
+   */
+  private async getRates(
+    db: Knex | Knex.Transaction,
+    taxCodeIds: string[]
+  ): Promise<Array<TaxCodeRate & { tax_code_id: string }>> {
+    if (taxCodeIds.length === 0) return [];
+
+    const rows = await db('tax_code_rates')
+      .whereIn('tax_code_id', taxCodeIds)
+      .orderBy('effective_from');
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      tax_code_id: row.tax_code_id,
+      rate: parseFloat(row.rate),
+      effective_from: toDateOnly(row.effective_from)
+    }));
+  }
+
+  /**
+   * Map a tax code row and its rates
+   */
+  private mapTaxCode(row: any, rates: Array<TaxCodeRate & { tax_code_id?: string }>): TaxCode {
+    const history = rates.map(({ tax_code_id, ...rate }) => rate);
+    const carriesRate = !row.is_exempt && !row.is_zero_rated;
+
+    return {
+      ...row,
+      rates: history,
+      current_rate: carriesRate ? resolveTaxRate(history, toDateOnly(new Date())) : 0
+    };
+  }
+
+  /**
+   * Validate a new tax code's flags and VAT201 field
+   */
+  private validateTaxCode(data: CreateTaxCodeData): void {
+    if (!data.code || data.code.trim().length === 0) {
+      throw new ValidationError('Tax code is required');
+    }
+
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ValidationError('Tax code name is required');
+    }
+
+    const flags = [data.is_exempt, data.is_zero_rated, data.is_reverse_charge].filter(Boolean);
+    if (flags.length > 1) {
+      throw new ValidationError('A tax code can only be one of exempt, zero rated or reverse charge');
+    }
+
+    if (data.is_reverse_charge && data.type !== 'purchases') {
+      throw new ValidationError('Reverse charge only applies to purchases');
+    }
+
+    if (data.rate !== undefined && !(data.rate >= 0 && data.rate <= 100)) {
+      throw new ValidationError('Rate must be between 0 and 100');
+    }
+
+    this.validateReturnField(data.type, data.return_field);
+  }
+
+  /**
+   * Sales codes report in the supply fields and purchase codes in the input tax fields
+   */
+  private validateReturnField(type: TaxCodeType, field: string | null | undefined): void {
+    if (!field) return;
+
+    const allowed = type === 'sales' ? SALES_RETURN_FIELDS : PURCHASE_RETURN_FIELDS;
+    if (!allowed.includes(field)) {
+      throw new ValidationError(`VAT201 field for ${type} codes must be one of: ${allowed.join(', ')}`);
+    }
+  }
+}
+
+export const vatService = new VatService();
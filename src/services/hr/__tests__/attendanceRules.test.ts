@@ -0,0 +1,60 @@
+import { evaluateClockIn, evaluateAttendance, scheduledHours, DEFAULT_SHIFT } from '../attendanceRules';
+import { AttendanceStatus } from '../../../types';
+
+describe('Attendance rules', () => {
+  const zone = 'Africa/Johannesburg';
+  const nightShift = { ...DEFAULT_SHIFT, start_time: '22:00', end_time: '06:00', break_minutes: 30 };
+
+  it('should allow the grace period before marking a clock-in late', () => {
+    // 08:15 and 08:16 in Johannesburg (UTC+2)
+    expect(evaluateClockIn(new Date('2025-07-14T06:15:00Z'), DEFAULT_SHIFT, zone)).toEqual({
+      date: '2025-07-14',
+      status: AttendanceStatus.PRESENT,
+      late_minutes: 15,
+    });
+    expect(evaluateClockIn(new Date('2025-07-14T06:16:00Z'), DEFAULT_SHIFT, zone).status).toBe(AttendanceStatus.LATE);
+    expect(evaluateClockIn(new Date('2025-07-14T05:40:00Z'), DEFAULT_SHIFT, zone).late_minutes).toBe(0);
+  });
+
+  it('should date a post-midnight clock-in to the overnight shift it belongs to', () => {
+    expect(scheduledHours(nightShift)).toBe(7.5);
+    expect(evaluateClockIn(new Date('2025-07-14T19:50:00Z'), nightShift, zone)).toMatchObject({
+      date: '2025-07-14',
+      late_minutes: 0,
+    });
+    // 00:30 on the 15th
+    expect(evaluateClockIn(new Date('2025-07-14T22:30:00Z'), nightShift, zone)).toMatchObject({
+      date: '2025-07-14',
+      late_minutes: 150,
+      status: AttendanceStatus.LATE,
+    });
+  });
+
+  it('should deduct the break and count hours beyond the shift as overtime', () => {
+    const result = evaluateAttendance(
+      new Date('2025-07-14T05:55:00Z'),
+      new Date('2025-07-14T17:25:00Z'),
+      DEFAULT_SHIFT,
+      zone
+    );
+
+    expect(result).toEqual({
+      date: '2025-07-14',
+      status: AttendanceStatus.PRESENT,
+      late_minutes: 0,
+      total_hours: 10.5,
+      overtime_hours: 2.5,
+    });
+  });
+
+  it('should mark short days as half days even when late', () => {
+    const result = evaluateAttendance(
+      new Date('2025-07-14T10:00:00Z'),
+      new Date('2025-07-14T15:00:00Z'),
+      DEFAULT_SHIFT,
+      zone
+    );
+
+    expect(result).toMatchObject({ status: AttendanceStatus.HALF_DAY, total_hours: 4, overtime_hours: 0 });
+  });
+});
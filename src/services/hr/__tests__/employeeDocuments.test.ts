@@ -0,0 +1,25 @@
+import { documentVersionPath, dueExpiryReminder } from '../employeeDocuments';
+
+describe('Employee documents', () => {
+  it('reminds at 60, 30 and 7 days before expiry', () => {
+    expect(dueExpiryReminder('2026-12-31', '2026-10-31', [])).toBeNull();
+    expect(dueExpiryReminder('2026-12-31', '2026-11-01', [])).toBe(60);
+    expect(dueExpiryReminder('2026-12-31', '2026-11-02', [60])).toBeNull();
+    expect(dueExpiryReminder('2026-12-31', '2026-12-01', [60])).toBe(30);
+    expect(dueExpiryReminder('2026-12-31', '2026-12-24', [60, 30])).toBe(7);
+    expect(dueExpiryReminder('2026-12-31', '2026-12-31', [60, 30, 7])).toBeNull();
+  });
+
+  it('sends only the nearest reminder after missed runs and none once expired', () => {
+    // Uploaded three weeks before expiry: the 30-day reminder, then the 7-day one
+    expect(dueExpiryReminder('2026-12-31', '2026-12-10', [])).toBe(30);
+    expect(dueExpiryReminder('2026-12-31', '2026-12-28', [])).toBe(7);
+    expect(dueExpiryReminder('2026-12-31', '2026-12-28', [7])).toBeNull();
+    expect(dueExpiryReminder('2026-12-31', '2027-01-01', [])).toBeNull();
+  });
+
+  it('stores each version under its own sanitised path', () => {
+    expect(documentVersionPath('company-1', 'employee-1', 'document-1', 2, '../Contract 2026 (signed).pdf'))
+      .toBe('employee-documents/company-1/employee-1/document-1/v2-_Contract_2026__signed_.pdf');
+  });
+});
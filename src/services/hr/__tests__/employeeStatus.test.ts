@@ -0,0 +1,26 @@
+import { canTransition, salaryOn } from '../employeeStatus';
+import { EmployeeStatus } from '../../../types';
+
+describe('Employee status', () => {
+  it('should only allow reinstatement out of termination', () => {
+    expect(canTransition(EmployeeStatus.ACTIVE, EmployeeStatus.ON_LEAVE)).toBe(true);
+    expect(canTransition(EmployeeStatus.ON_LEAVE, EmployeeStatus.TERMINATED)).toBe(true);
+    expect(canTransition(EmployeeStatus.ON_LEAVE, EmployeeStatus.INACTIVE)).toBe(false);
+    expect(canTransition(EmployeeStatus.TERMINATED, EmployeeStatus.ON_LEAVE)).toBe(false);
+    expect(canTransition(EmployeeStatus.TERMINATED, EmployeeStatus.ACTIVE)).toBe(true);
+    expect(canTransition(EmployeeStatus.ACTIVE, EmployeeStatus.ACTIVE)).toBe(false);
+  });
+
+  it('should pick the latest salary that has taken effect', () => {
+    const history = [
+      { effective_from: '2026-03-01', salary: 480000, currency: 'ZAR' },
+      { effective_from: '2025-01-01', salary: 420000, currency: 'ZAR' },
+      { effective_from: '2025-07-01', salary: 450000, currency: 'ZAR' },
+    ];
+
+    expect(salaryOn(history, '2024-12-31')).toBeNull();
+    expect(salaryOn(history, '2025-01-01')?.salary).toBe(420000);
+    expect(salaryOn(history, '2025-12-31')?.salary).toBe(450000);
+    expect(salaryOn(history, '2026-03-01')?.salary).toBe(480000);
+  });
+});
@@ -0,0 +1,46 @@
+import { accruedInYear, leaveBalance, AccrualRules } from '../leaveAccrual';
+
+describe('Leave accrual', () => {
+  const monthly: AccrualRules = {
+    annual_days: 18,
+    accrual_frequency: 'monthly',
+    carry_over_cap: 5,
+    prorate_new_hires: true,
+  };
+
+  it('should accrue monthly from the start of each month', () => {
+    const employment = { hire_date: '2020-01-15' };
+    expect(accruedInYear(monthly, employment, 2025, '2025-01-01')).toBe(1.5);
+    expect(accruedInYear(monthly, employment, 2025, '2025-03-31')).toBe(4.5);
+    expect(accruedInYear(monthly, employment, 2025, '2025-12-31')).toBe(18);
+  });
+
+  it('should pro-rate the first month or year of a new hire', () => {
+    // 17 of 30 days in June
+    expect(accruedInYear(monthly, { hire_date: '2025-06-14' }, 2025, '2025-06-30')).toBe(0.85);
+    expect(accruedInYear({ ...monthly, prorate_new_hires: false }, { hire_date: '2025-06-14' }, 2025, '2025-06-30')).toBe(1.5);
+
+    const annual: AccrualRules = { ...monthly, accrual_frequency: 'annual' };
+    expect(accruedInYear(annual, { hire_date: '2020-03-01' }, 2025, '2025-01-01')).toBe(18);
+    // 184 of 365 days
+    expect(accruedInYear(annual, { hire_date: '2025-07-01' }, 2025, '2025-07-01')).toBe(9.07);
+    expect(accruedInYear(annual, { hire_date: '2025-07-01' }, 2025, '2025-06-30')).toBe(0);
+  });
+
+  it('should stop accruing after termination', () => {
+    const employment = { hire_date: '2020-01-01', termination_date: '2025-04-10' };
+    expect(accruedInYear(monthly, employment, 2025, '2025-12-31')).toBe(6);
+  });
+
+  it('should cap positive carry-over but carry negative balances in full', () => {
+    const employment = { hire_date: '2024-01-01' };
+
+    const capped = leaveBalance(monthly, employment, '2025-02-10', { 2024: 10 });
+    expect(capped).toEqual({ year: 2025, opening: 5, accrued: 3, adjustments: 0, taken: 0, closing: 8 });
+
+    const overdrawn = leaveBalance(monthly, employment, '2025-01-05', { 2024: 20 }, { 2025: 1 });
+    expect(overdrawn).toMatchObject({ opening: -2, accrued: 1.5, adjustments: 1, closing: 0.5 });
+
+    expect(leaveBalance({ ...monthly, carry_over_cap: null }, employment, '2025-01-05', { 2024: 2 }).opening).toBe(16);
+  });
+});
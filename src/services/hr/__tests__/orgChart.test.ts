@@ -0,0 +1,85 @@
+import {
+  OrgChartEntry,
+  buildForest,
+  buildOrgChartDocument,
+  detectCycles,
+  findNode,
+  renderOrgChartSvg,
+  wouldCreateCycle
+} from '../orgChart';
+
+describe('Org chart', () => {
+  const entry = (id: string, parentId: string | null, name: string): OrgChartEntry => ({
+    id,
+    parent_id: parentId,
+    name,
+    detail: `${name} role`,
+  });
+
+  const entries = [
+    entry('ceo', null, 'Naledi'),
+    entry('cfo', 'ceo', 'Pieter'),
+    entry('cto', 'ceo', 'Ayesha'),
+    entry('dev-1', 'cto', 'Sipho'),
+    entry('dev-2', 'cto', 'Jan'),
+    entry('clerk', 'cfo', 'Zanele'),
+  ];
+
+  it('groups entries under their parents, siblings sorted by name', () => {
+    const { roots, cycles } = buildForest(entries);
+
+    expect(cycles).toEqual([]);
+    expect(roots.map(root => root.id)).toEqual(['ceo']);
+    expect(roots[0].children.map(child => child.name)).toEqual(['Ayesha', 'Pieter']);
+    expect(findNode(roots, 'cto')!.children.map(child => child.name)).toEqual(['Jan', 'Sipho']);
+  });
+
+  it('treats entries with a missing parent as roots', () => {
+    const { roots } = buildForest([entry('a', 'terminated', 'Anna'), entry('b', 'a', 'Ben')]);
+
+    expect(roots.map(root => root.id)).toEqual(['a']);
+    expect(roots[0].children.map(child => child.id)).toEqual(['b']);
+  });
+
+  it('rejects a parent that reports to the entry', () => {
+    const parents = new Map(entries.map(item => [item.id, item.parent_id]));
+
+    expect(wouldCreateCycle(parents, 'cto', 'dev-1')).toEqual(['dev-1', 'cto']);
+    expect(wouldCreateCycle(parents, 'ceo', 'clerk')).toEqual(['clerk', 'cfo', 'ceo']);
+    expect(wouldCreateCycle(parents, 'clerk', 'cto')).toBeNull();
+  });
+
+  it('reports and cuts existing cycles', () => {
+    const looped = [entry('a', 'c', 'Anna'), entry('b', 'a', 'Ben'), entry('c', 'b', 'Cara'), entry('d', 'c', 'Dan')];
+
+    expect(detectCycles(new Map(looped.map(item => [item.id, item.parent_id])))).toEqual([['a', 'c', 'b']]);
+
+    const { roots, cycles } = buildForest(looped);
+    expect(cycles).toHaveLength(1);
+    expect(roots.map(root => root.id)).toEqual(['a']);
+    expect(findNode(roots, 'c')!.children.map(child => child.id)).toEqual(['d']);
+  });
+
+  it('draws each parent centred over its children', () => {
+    const svg = renderOrgChartSvg(buildForest(entries).roots, 'Acme & Co');
+
+    expect(svg).toContain('<text x="20" y="30" class="title">Acme &amp; Co</text>');
+    expect(svg.match(/<rect /g)).toHaveLength(6);
+    // Leaves take slots 0-2; the CTO sits over Jan and Sipho, the CEO over the CTO and CFO
+    expect(svg).toContain('<g transform="translate(113 130)">');
+    expect(svg).toContain('<g transform="translate(252.5 50)">');
+  });
+
+  it('outlines the chart for the PDF export', () => {
+    const doc = buildOrgChartDocument(buildForest(entries).roots, 'Organisation chart', [], 'Position');
+
+    expect(doc.rows.map(row => [row.cells[0], row.indent, row.cells[2]])).toEqual([
+      ['Naledi', 0, '2'],
+      ['Ayesha', 1, '2'],
+      ['Jan', 2, ''],
+      ['Sipho', 2, ''],
+      ['Pieter', 1, '1'],
+      ['Zanele', 2, ''],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { calculatePayslip, annualTax, taxYearOf, ageOn, prorate, PayeTable, PayrollEarning } from '../payrollCalculator';
+
+describe('Payroll calculator', () => {
+  // 2026 tax year
+  const table: PayeTable = {
+    brackets: [
+      { min: 0, rate: 18 },
+      { min: 237100, rate: 26 },
+      { min: 370500, rate: 31 },
+      { min: 512800, rate: 36 },
+      { min: 673000, rate: 39 },
+      { min: 857900, rate: 41 },
+      { min: 1817000, rate: 45 },
+    ],
+    primary_rebate: 17235,
+    secondary_rebate: 9444,
+    tertiary_rebate: 3145,
+    uif_rate: 1,
+    uif_monthly_ceiling: 17712,
+    sdl_rate: 1,
+    sdl_threshold: 500000,
+    retirement_cap_percent: 27.5,
+    retirement_cap_annual: 350000,
+  };
+  const basic = (amount: number): PayrollEarning => ({ code: 'BASIC', name: 'Basic salary', amount, taxable: true, annual_payment: false });
+  const input = { deductions: [], age: 40, periods_per_year: 12, sdl_applicable: true };
+
+  it('should tax annual income on the brackets less rebates', () => {
+    expect(annualTax(table, 360000, 40)).toBe(57397);
+    expect(annualTax(table, 360000, 66)).toBe(47953);
+    expect(annualTax(table, 84000, 40)).toBe(0);
+  });
+
+  it('should calculate monthly PAYE, UIF capped at the ceiling and SDL', () => {
+    expect(calculatePayslip(table, { ...input, earnings: [basic(30000)] })).toEqual({
+      gross: 30000,
+      remuneration: 30000,
+      retirement_deduction: 0,
+      taxable_income: 30000,
+      paye: 4783.08,
+      uif_employee: 177.12,
+      uif_employer: 177.12,
+      sdl: 300,
+      deductions: 0,
+      net: 25039.8,
+    });
+    expect(calculatePayslip(table, { ...input, earnings: [basic(30000)], sdl_applicable: false }).sdl).toBe(0);
+  });
+
+  it('should tax a bonus in full in the period it is paid', () => {
+    const payslip = calculatePayslip(table, {
+      ...input,
+      earnings: [basic(30000), { code: 'BONUS', name: 'Bonus', amount: 10000, taxable: true, annual_payment: true }],
+    });
+    expect(payslip.paye).toBe(7383.08);
+    expect(payslip.uif_employee).toBe(177.12);
+  });
+
+  it('should deduct retirement contributions before tax and other deductions after', () => {
+    const payslip = calculatePayslip(table, {
+      ...input,
+      earnings: [basic(30000), { code: 'TRAVEL', name: 'Reimbursement', amount: 500, taxable: false, annual_payment: false }],
+      deductions: [
+        { code: 'PENSION', name: 'Pension fund', amount: 3000, retirement_fund: true },
+        { code: 'MED', name: 'Medical aid', amount: 2000, retirement_fund: false },
+      ],
+    });
+    expect(payslip).toMatchObject({ gross: 30500, retirement_deduction: 3000, taxable_income: 27000, paye: 4003.08, deductions: 5000 });
+    expect(payslip.net).toBe(21319.8);
+  });
+
+  it('should work out tax years, ages and pro-rated pay', () => {
+    expect(taxYearOf('2025-02-28')).toBe(2025);
+    expect(taxYearOf('2025-03-01')).toBe(2026);
+    expect(ageOn('1960-03-01', '2025-02-28')).toBe(64);
+    expect(ageOn('1960-02-28', '2025-02-28')).toBe(65);
+    expect(prorate(30000, 11, 22)).toBe(15000);
+    expect(prorate(30000, 22, 22)).toBe(30000);
+  });
+});
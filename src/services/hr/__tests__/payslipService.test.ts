@@ -0,0 +1,111 @@
+import { PDFDocument } from 'pdf-lib';
+import { PayslipEmployee, buildPayslipDocument, payslipPassword } from '../payslipService';
+import { PayrollRunLine } from '../payrollService';
+import { CompanyWithDepartments } from '../../../core/company/companyService';
+import { renderTablePdf } from '../../../utils/pdfUtils';
+import { encryptPdf, deriveEncryptionKeys } from '../../../utils/pdfEncryption';
+
+jest.mock('../../email', () => ({ emailService: { sendPayslipEmail: jest.fn() } }));
+
+describe('Payslips', () => {
+  const company: Omit<CompanyWithDepartments, 'departments'> = {
+    id: 'company-1',
+    name: 'Acme Engineering (Pty) Ltd',
+    registration_number: '2015/123456/07',
+    address_line_1: '1 Main Road',
+    city: 'Cape Town',
+    state_province: 'Western Cape',
+    postal_code: '8001',
+    country: 'South Africa',
+    phone: '+27 21 555 0100',
+    email: 'payroll@acme.example',
+    currency_code: 'ZAR',
+    timezone: 'Africa/Johannesburg',
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    created_by: 'user-1',
+    updated_by: 'user-1',
+  };
+
+  const employee: PayslipEmployee = {
+    employee_number: 'EMP-001',
+    name: 'Thandi Nkosi',
+    position: 'Draughtsperson',
+    department: 'engineering',
+    email: 'thandi@acme.example',
+    id_number: '9001155009087',
+    tax_number: '0123456789',
+  };
+
+  const line: PayrollRunLine = {
+    id: 'line-1',
+    run_id: 'run-1',
+    employee_id: 'employee-1',
+    employee_number: 'EMP-001',
+    employee_name: 'Thandi Nkosi',
+    salary: 360000,
+    working_days: 22,
+    days_paid: 20,
+    unpaid_leave_days: 2,
+    items: [
+      { code: 'BASIC', name: 'Basic salary', type: 'earning', amount: 27272.73, account_id: null },
+      { code: 'PENSION', name: 'Pension fund', type: 'deduction', amount: 1500, account_id: 'account-1' },
+    ],
+    gross: 27272.73,
+    taxable_income: 25772.73,
+    paye: 3915.41,
+    uif_employee: 177.12,
+    uif_employer: 177.12,
+    sdl: 272.73,
+    deductions: 1500,
+    net: 21680.2,
+  };
+
+  const run = { run_number: 'PAY-000007', period: '2026-06', payment_date: '2026-06-25' };
+
+  it('lays out earnings, deductions and net pay', () => {
+    const doc = buildPayslipDocument(run, line, employee, company);
+
+    expect(doc.title).toBe('Payslip');
+    expect(doc.letterhead![0]).toBe('Acme Engineering (Pty) Ltd');
+    expect(doc.subtitle).toContain('Days paid: 20 of 22 working days (2 days unpaid leave)');
+    expect(doc.rows.map(row => row.cells)).toEqual([
+      ['Basic salary', '27,272.73', ''],
+      ['PAYE', '', '3,915.41'],
+      ['UIF', '', '177.12'],
+      ['Pension fund', '', '1,500.00'],
+      ['', '', ''],
+      ['Total', '27,272.73', '5,592.53'],
+      ['Net pay (ZAR)', '21,680.20', ''],
+    ]);
+    expect(doc.footer).toContain('Employer contributions: UIF 177.12, SDL 272.73');
+  });
+
+  it('uses the ID number as the password, or the tax number', () => {
+    expect(payslipPassword(employee)!.password).toBe('9001155009087');
+    expect(payslipPassword({ id_number: null, tax_number: '0123456789' })).toEqual({
+      password: '0123456789',
+      hint: 'your 10-digit income tax number',
+    });
+    expect(payslipPassword({ id_number: null, tax_number: null })).toBeNull();
+  });
+
+  it('derives the standard security handler entries', () => {
+    // Reference values from an independent implementation of the PDF 1.7 algorithms
+    const keys = deriveEncryptionKeys('user', 'owner', Buffer.from(Array.from({ length: 16 }, (_, index) => index)));
+
+    expect(keys.owner.toString('hex')).toBe('0ba3835f88f90388e74e54584125ce142be0de24c6b0d37746e075b891756671');
+    expect(keys.key.toString('hex')).toBe('481675df0f0acdb6db06753febde0be1');
+    expect(keys.user.subarray(0, 16).toString('hex')).toBe('d8db3412fc85f16675d89ef62365479c');
+  });
+
+  it('produces a PDF that needs a password to open', async () => {
+    const pdf = await renderTablePdf(buildPayslipDocument(run, line, employee, company));
+    const encrypted = await encryptPdf(pdf, '9001155009087');
+
+    expect(encrypted.toString('latin1')).toContain('/Encrypt');
+    expect(encrypted.toString('latin1')).not.toContain('Thandi');
+    await expect(PDFDocument.load(encrypted)).rejects.toThrow(/encrypted/i);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  CertificateEmployer,
+  CertificateInput,
+  buildCertificate,
+  certificateNumber,
+  isValidIdNumber,
+  renderEmp501,
+  validateCertificate,
+  validateEmployer
+} from '../taxCertificates';
+
+describe('Tax certificates', () => {
+  const employer: CertificateEmployer = {
+    name: 'Acme Engineering (Pty) Ltd',
+    paye_reference_number: '7123456789',
+    sdl_reference_number: 'L123456789',
+    uif_reference_number: 'U123456789',
+    address_line_1: '1 Main Road',
+    city: 'Cape Town',
+    postal_code: '8001',
+    contact_name: 'Lerato Dlamini',
+    contact_phone: '021 555 0100',
+    contact_email: 'payroll@acme.example',
+  };
+
+  const input: CertificateInput = {
+    employee: {
+      employee_id: 'employee-1',
+      employee_number: 'EMP-001',
+      first_names: 'Thandi Grace',
+      surname: 'Nkosi',
+      id_number: '9001155009086',
+      tax_number: '0123456789',
+      date_of_birth: '1990-01-15',
+      hire_date: '2025-06-01',
+      termination_date: null,
+    },
+    periods_worked: 9,
+    income: [
+      { code: '3601', description: 'Income', amount: 270000.6, taxable: true },
+      { code: '3714', description: 'Other allowances (non-taxable)', amount: 1800, taxable: false },
+    ],
+    deductions: [{ code: '4001', description: 'Pension fund contributions', amount: 13500 }],
+    paye: 35238.69,
+    uif_employee: 1594.08,
+    uif_employer: 1594.08,
+    sdl: 2700.01,
+  };
+
+  it('validates identity numbers', () => {
+    expect(isValidIdNumber('9001155009086')).toBe(true);
+    expect(isValidIdNumber('9001155009087')).toBe(false);
+    expect(isValidIdNumber('9013155009086')).toBe(false);
+    expect(isValidIdNumber('900115500908')).toBe(false);
+  });
+
+  it('issues an IRP5 when tax was withheld and an IT3(a) otherwise', () => {
+    const number = certificateNumber(employer.paye_reference_number, 2026, 1);
+    const irp5 = buildCertificate(input, 2026, number);
+
+    expect(number).toBe('712345678920262026020000000001');
+    expect(irp5.type).toBe('IRP5');
+    expect(irp5.employed_from).toBe('2025-06-01');
+    expect(irp5.employed_to).toBe('2026-02-28');
+    expect(irp5.gross_taxable).toBe(270000.6);
+    expect(irp5.gross_non_taxable).toBe(1800);
+    expect(irp5.uif).toBe(3188.16);
+    expect(irp5.total_tax).toBe(41126.86);
+
+    const it3a = buildCertificate({ ...input, paye: 0 }, 2026, number);
+    expect(it3a.type).toBe('IT3(a)');
+    expect(it3a.it3a_reason).toBe('02');
+  });
+
+  it('reports missing tax and identity numbers', () => {
+    const certificate = buildCertificate(
+      { ...input, employee: { ...input.employee, tax_number: null, id_number: '9001155009087' } },
+      2026,
+      '1'
+    );
+
+    expect(validateCertificate(certificate).map(issue => [issue.severity, issue.field])).toEqual([
+      ['error', 'tax_number'],
+      ['error', 'id_number'],
+    ]);
+    expect(validateCertificate({ ...certificate, type: 'IT3(a)' })[0].severity).toBe('warning');
+
+    expect(validateEmployer({ ...employer, paye_reference_number: null, uif_reference_number: null }, [certificate])
+      .map(issue => issue.field)).toEqual(['paye_reference_number', 'uif_reference_number']);
+  });
+
+  it('renders the EMP501 file with employer, employee and trailer records', () => {
+    const certificate = buildCertificate(input, 2026, certificateNumber(employer.paye_reference_number, 2026, 1));
+    const lines = renderEmp501(employer, [certificate], 2026, false).trimEnd().split('\r\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      '2010,"Acme Engineering (Pty) Ltd",2015,"TEST",2020,7123456789,2022,L123456789,2024,U123456789,' +
+      '2025,"Lerato Dlamini",2026,0215550100,2027,"payroll@acme.example",2028,"NitroERP",2030,2026,2031,202602,' +
+      '2063,"1 Main Road",2065,"Cape Town",2080,8001,9999'
+    );
+    expect(lines[1]).toContain('3015,IRP5,3020,A,3025,2026,3030,"Nkosi",3040,"Thandi Grace",3050,"TG"');
+    expect(lines[1]).toContain('3601,270000,3714,1800,3696,1800,3699,270000,4001,13500');
+    expect(lines[1]).toMatch(/4102,35238\.69,4141,3188\.16,4142,2700\.01,4149,41126\.86,9999$/);
+    expect(lines[2]).toBe('6010,1,6020,40,6030,639353.72,9999');
+  });
+});
@@ -0,0 +1,106 @@
+import { addDays, zonedDateTime } from '../../utils/dateUtils';
+import { AttendanceStatus } from '../../types';
+
+/**
+ * Attendance rules for a clocked day.
+ *
+ * Shift times are wall-clock times in the company's timezone. A clock-in
+ * more than the grace period after the shift start is LATE, and a day with
+ * fewer worked hours than the shift's full-day minimum is a HALF_DAY. The
+ * unpaid break is deducted from the time between clock-in and clock-out,
+ * and anything beyond the scheduled hours is overtime. Shifts that end
+ * before they start run overnight; a clock-in after midnight for such a
+ * shift belongs to the previous day.
+ */
+
+export interface ShiftRules {
+  start_time: string;
+  end_time: string;
+  grace_minutes: number;
+  break_minutes: number;
+  min_full_day_hours: number;
+}
+
+export interface ClockInResult {
+  date: string;
+  status: AttendanceStatus;
+  late_minutes: number;
+}
+
+export interface AttendanceResult extends ClockInResult {
+  total_hours: number;
+  overtime_hours: number;
+}
+
+export const DEFAULT_SHIFT: ShiftRules = {
+  start_time: '08:00',
+  end_time: '17:00',
+  grace_minutes: 15,
+  break_minutes: 60,
+  min_full_day_hours: 6
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Scheduled working hours of a shift, less the break
+ */
+export const scheduledHours = (shift: ShiftRules): number => {
+  let minutes = toMinutes(shift.end_time) - toMinutes(shift.start_time);
+  if (minutes <= 0) minutes += MINUTES_PER_DAY;
+  return roundHours(Math.max(0, minutes - shift.break_minutes) / 60);
+};
+
+/**
+ * Attendance date and lateness for a clock-in
+ */
+export const evaluateClockIn = (checkIn: Date, shift: ShiftRules, timeZone: string): ClockInResult => {
+  const local = zonedDateTime(checkIn, timeZone);
+  let offset = local.minutes - toMinutes(shift.start_time);
+  let date = local.date;
+
+  // Measure against the nearest shift start, which may be yesterday's
+  if (offset > MINUTES_PER_DAY / 2) {
+    offset -= MINUTES_PER_DAY;
+    date = addDays(date, 1);
+  } else if (offset <= -MINUTES_PER_DAY / 2) {
+    offset += MINUTES_PER_DAY;
+    date = addDays(date, -1);
+  }
+
+  const lateMinutes = Math.max(0, offset);
+
+  return {
+    date,
+    status: lateMinutes > shift.grace_minutes ? AttendanceStatus.LATE : AttendanceStatus.PRESENT,
+    late_minutes: lateMinutes
+  };
+};
+
+/**
+ * Hours, overtime and status for a completed day
+ */
+export const evaluateAttendance = (
+  checkIn: Date,
+  checkOut: Date,
+  shift: ShiftRules,
+  timeZone: string
+): AttendanceResult => {
+  const clockIn = evaluateClockIn(checkIn, shift, timeZone);
+  const elapsedMinutes = Math.max(0, (checkOut.getTime() - checkIn.getTime()) / 60000);
+  const totalHours = roundHours(Math.max(0, elapsedMinutes - shift.break_minutes) / 60);
+
+  return {
+    ...clockIn,
+    status: totalHours < shift.min_full_day_hours ? AttendanceStatus.HALF_DAY : clockIn.status,
+    total_hours: totalHours,
+    overtime_hours: roundHours(Math.max(0, totalHours - scheduledHours(shift)))
+  };
+};
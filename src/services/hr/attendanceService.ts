@@ -0,0 +1,797 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import {
+  ShiftRules,
+  DEFAULT_SHIFT,
+  evaluateClockIn,
+  evaluateAttendance
+} from './attendanceRules';
+import { AttendanceStatus, EmployeeStatus } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  AuthorizationError
+} from '../../middleware/errorHandler';
+
+export type ClockSource = 'kiosk' | 'mobile' | 'web' | 'manual';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface CreateShiftData {
+  name: string;
+  start_time: string;
+  end_time: string;
+  grace_minutes?: number;
+  break_minutes?: number;
+  min_full_day_hours?: number;
+  is_default?: boolean;
+}
+
+export interface UpdateShiftData extends Partial<CreateShiftData> {
+  is_active?: boolean;
+}
+
+export interface Shift extends ShiftRules {
+  id: string;
+  company_id: string;
+  name: string;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ClockData {
+  source: Exclude<ClockSource, 'manual'>;
+  location?: GeoLocation;
+  notes?: string;
+}
+
+export interface RecordAttendanceData {
+  employee_id: string;
+  date: Date | string;
+  status: AttendanceStatus;
+  check_in?: Date | string;
+  check_out?: Date | string;
+  notes?: string;
+}
+
+export interface AttendanceCorrectionData {
+  check_in?: Date | string | null;
+  check_out?: Date | string | null;
+  status?: AttendanceStatus;
+  notes?: string | null;
+  reason: string;
+}
+
+export interface AttendanceCorrector {
+  id: string;
+  department: string;
+  role: string;
+}
+
+export interface AttendanceCorrection {
+  id: string;
+  attendance_id: string;
+  reason: string;
+  previous_values: Record<string, unknown>;
+  new_values: Record<string, unknown>;
+  corrected_by: string;
+  corrected_by_name: string;
+  created_at: Date;
+}
+
+export interface AttendanceRecord {
+  id: string;
+  company_id: string;
+  employee_id: string;
+  employee_number: string;
+  employee_name: string;
+  date: string;
+  shift_id: string | null;
+  check_in: Date | null;
+  check_out: Date | null;
+  check_in_source: ClockSource | null;
+  check_out_source: ClockSource | null;
+  check_in_location: GeoLocation | null;
+  check_out_location: GeoLocation | null;
+  total_hours: number | null;
+  overtime_hours: number;
+  late_minutes: number;
+  status: AttendanceStatus;
+  notes: string | null;
+  recorded_by: string | null;
+  corrected_at: Date | null;
+  corrections?: AttendanceCorrection[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AttendanceFilters {
+  employee_id?: string;
+  status?: AttendanceStatus;
+  start_date?: string;
+  end_date?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Longest time between clock-in and clock-out before a manager must correct it
+const MAX_SHIFT_HOURS = 24;
+
+// Roles that may correct any record alongside HR
+const OVERRIDE_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+// Fields a correction may change, recorded before and after
+const CORRECTABLE_FIELDS = ['check_in', 'check_out', 'status', 'notes', 'date', 'total_hours', 'overtime_hours', 'late_minutes'];
+
+export class AttendanceService {
+  /**
+   * Get shifts
+   */
+  async getShifts(companyId: string): Promise<Shift[]> {
+    try {
+      const db = getDatabase();
+      const rows = await db('shifts')
+        .where('company_id', companyId)
+        .orderBy('name');
+
+      return rows.map((row: any) => this.mapShift(row));
+    } catch (error) {
+      logger.error('Error fetching shifts', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create shift
+   */
+  async createShift(companyId: string, data: CreateShiftData, createdBy: string): Promise<Shift> {
+    try {
+      const db = getDatabase();
+      const shiftId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const existing = await trx('shifts')
+          .where('company_id', companyId)
+          .where('name', data.name.trim())
+          .first();
+        if (existing) {
+          throw new ConflictError(`Shift ${data.name} already exists`);
+        }
+
+        if (data.is_default) {
+          await trx('shifts')
+            .where('company_id', companyId)
+            .update({ is_default: false, updated_at: new Date() });
+        }
+
+        await trx('shifts').insert({
+          id: shiftId,
+          company_id: companyId,
+          name: data.name.trim(),
+          start_time: data.start_time,
+          end_time: data.end_time,
+          grace_minutes: data.grace_minutes ?? DEFAULT_SHIFT.grace_minutes,
+          break_minutes: data.break_minutes ?? DEFAULT_SHIFT.break_minutes,
+          min_full_day_hours: data.min_full_day_hours ?? DEFAULT_SHIFT.min_full_day_hours,
+          is_default: data.is_default ?? false,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+      });
+
+      logger.info('Shift created successfully', { shiftId, companyId, createdBy });
+
+      const row = await db('shifts').where('id', shiftId).first();
+      return this.mapShift(row);
+    } catch (error) {
+      logger.error('Error creating shift', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update shift (recorded attendance keeps the hours it was calculated with)
+   */
+  async updateShift(companyId: string, shiftId: string, data: UpdateShiftData, updatedBy: string): Promise<Shift> {
+    try {
+      const db = getDatabase();
+      const existing = await db('shifts')
+        .where('id', shiftId)
+        .where('company_id', companyId)
+        .first();
+      if (!existing) {
+        throw new NotFoundError('Shift not found');
+      }
+
+      await db.transaction(async (trx) => {
+        if (data.name !== undefined && data.name.trim() !== existing.name) {
+          const duplicate = await trx('shifts')
+            .where('company_id', companyId)
+            .where('name', data.name.trim())
+            .first();
+          if (duplicate) {
+            throw new ConflictError(`Shift ${data.name} already exists`);
+          }
+        }
+
+        if (data.is_default) {
+          await trx('shifts')
+            .where('company_id', companyId)
+            .whereNot('id', shiftId)
+            .update({ is_default: false, updated_at: new Date() });
+        }
+
+        await trx('shifts')
+          .where('id', shiftId)
+          .update({
+            ...data,
+            name: data.name?.trim() ?? existing.name,
+            updated_by: updatedBy,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Shift updated successfully', { shiftId, companyId, updatedBy });
+
+      const row = await db('shifts').where('id', shiftId).first();
+      return this.mapShift(row);
+    } catch (error) {
+      logger.error('Error updating shift', { error, companyId, shiftId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Get attendance records with filters and pagination
+   */
+  async getAttendance(companyId: string, filters: AttendanceFilters = {}): Promise<{
+    records: AttendanceRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = this.attendanceQuery(db)
+        .where('attendance.company_id', companyId);
+
+      if (filters.employee_id) {
+        query = query.where('attendance.employee_id', filters.employee_id);
+      }
+
+      if (filters.status) {
+        query = query.where('attendance.status', filters.status);
+      }
+
+      if (filters.start_date) {
+        query = query.where('attendance.date', '>=', filters.start_date);
+      }
+
+      if (filters.end_date) {
+        query = query.where('attendance.date', '<=', filters.end_date);
+      }
+
+      const [{ count }] = await query.clone().clearSelect().count('* as count');
+      const rows = await query
+        .orderBy('attendance.date', 'desc')
+        .orderBy('users.last_name')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        records: rows.map((row: any) => this.mapRecord(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching attendance', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get attendance record with its corrections
+   */
+  async getAttendanceById(companyId: string, attendanceId: string, trx?: Knex.Transaction): Promise<AttendanceRecord | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await this.attendanceQuery(db)
+        .where('attendance.id', attendanceId)
+        .where('attendance.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const corrections = await db('attendance_corrections')
+        .join('users', 'attendance_corrections.corrected_by', 'users.id')
+        .where('attendance_corrections.attendance_id', attendanceId)
+        .orderBy('attendance_corrections.created_at')
+        .select(
+          'attendance_corrections.*',
+          db.raw("concat_ws(' ', users.first_name, users.last_name) as corrected_by_name")
+        );
+
+      return {
+        ...this.mapRecord(row),
+        corrections
+      };
+    } catch (error) {
+      logger.error('Error fetching attendance by ID', { error, companyId, attendanceId });
+      throw error;
+    }
+  }
+
+  /**
+   * Clock an employee in now; lateness is measured against their shift
+   */
+  async clockIn(companyId: string, employeeId: string, data: ClockData, recordedBy: string): Promise<AttendanceRecord> {
+    try {
+      const db = getDatabase();
+      const now = new Date();
+      const timeZone = await this.companyTimeZone(companyId);
+      const attendanceId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const employee = await this.getActiveEmployee(trx, companyId, employeeId);
+        const shift = await this.resolveShift(trx, companyId, employee.shift_id);
+
+        const open = await trx('attendance')
+          .where('employee_id', employeeId)
+          .whereNotNull('check_in')
+          .whereNull('check_out')
+          .first();
+        if (open) {
+          throw new ConflictError('Employee is already clocked in');
+        }
+
+        const result = evaluateClockIn(now, shift.rules, timeZone);
+
+        const existing = await trx('attendance')
+          .where('employee_id', employeeId)
+          .where('date', result.date)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Attendance for ${result.date} is already recorded`);
+        }
+
+        await trx('attendance').insert({
+          id: attendanceId,
+          company_id: companyId,
+          employee_id: employeeId,
+          date: result.date,
+          shift_id: shift.id,
+          check_in: now,
+          check_in_source: data.source,
+          check_in_location: data.location ? JSON.stringify(data.location) : null,
+          late_minutes: result.late_minutes,
+          status: result.status,
+          notes: data.notes,
+          recorded_by: recordedBy
+        });
+      });
+
+      logger.info('Employee clocked in', { attendanceId, employeeId, companyId, source: data.source });
+
+      return (await this.getAttendanceById(companyId, attendanceId))!;
+    } catch (error) {
+      logger.error('Error clocking in', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Clock an employee out of their open attendance record
+   */
+  async clockOut(companyId: string, employeeId: string, data: ClockData, recordedBy: string): Promise<AttendanceRecord> {
+    try {
+      const db = getDatabase();
+      const now = new Date();
+      const timeZone = await this.companyTimeZone(companyId);
+      let attendanceId = '';
+
+      await db.transaction(async (trx) => {
+        const open = await trx('attendance')
+          .where('company_id', companyId)
+          .where('employee_id', employeeId)
+          .whereNotNull('check_in')
+          .whereNull('check_out')
+          .forUpdate()
+          .first();
+        if (!open) {
+          throw new ValidationError('Employee is not clocked in');
+        }
+
+        const checkIn = new Date(open.check_in);
+        if (now.getTime() - checkIn.getTime() > MAX_SHIFT_HOURS * 60 * 60 * 1000) {
+          throw new ValidationError(`Clock-in is more than ${MAX_SHIFT_HOURS} hours old; a manager must correct it`);
+        }
+
+        const shift = await this.resolveShift(trx, companyId, open.shift_id);
+        const result = evaluateAttendance(checkIn, now, shift.rules, timeZone);
+        attendanceId = open.id;
+
+        await trx('attendance')
+          .where('id', open.id)
+          .update({
+            check_out: now,
+            check_out_source: data.source,
+            check_out_location: data.location ? JSON.stringify(data.location) : null,
+            total_hours: result.total_hours,
+            overtime_hours: result.overtime_hours,
+            status: result.status,
+            notes: data.notes ?? open.notes,
+            updated_at: new Date()
+          });
+      });
+
+      logger.info('Employee clocked out', { attendanceId, employeeId, companyId, source: data.source, recordedBy });
+
+      return (await this.getAttendanceById(companyId, attendanceId))!;
+    } catch (error) {
+      logger.error('Error clocking out', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a day manually, such as an absence or a missed clock-in
+   */
+  async recordAttendance(companyId: string, data: RecordAttendanceData, recordedBy: string): Promise<AttendanceRecord> {
+    try {
+      const db = getDatabase();
+      const timeZone = await this.companyTimeZone(companyId);
+      const date = toDateOnly(data.date);
+      const attendanceId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const employee = await trx('employees')
+          .where('id', data.employee_id)
+          .where('company_id', companyId)
+          .whereNull('deleted_at')
+          .first();
+        if (!employee) {
+          throw new ValidationError('Employee not found');
+        }
+
+        const existing = await trx('attendance')
+          .where('employee_id', data.employee_id)
+          .where('date', date)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Attendance for ${date} is already recorded`);
+        }
+
+        const shift = await this.resolveShift(trx, companyId, employee.shift_id);
+        const times = this.evaluateTimes(
+          data.check_in ? new Date(data.check_in) : null,
+          data.check_out ? new Date(data.check_out) : null,
+          shift.rules,
+          timeZone
+        );
+
+        await trx('attendance').insert({
+          id: attendanceId,
+          company_id: companyId,
+          employee_id: data.employee_id,
+          date,
+          shift_id: shift.id,
+          check_in: data.check_in ? new Date(data.check_in) : null,
+          check_out: data.check_out ? new Date(data.check_out) : null,
+          check_in_source: data.check_in ? 'manual' : null,
+          check_out_source: data.check_out ? 'manual' : null,
+          total_hours: times.total_hours,
+          overtime_hours: times.overtime_hours,
+          late_minutes: times.late_minutes,
+          status: data.status,
+          notes: data.notes,
+          recorded_by: recordedBy
+        });
+      });
+
+      logger.info('Attendance recorded', { attendanceId, employeeId: data.employee_id, companyId, recordedBy });
+
+      return (await this.getAttendanceById(companyId, attendanceId))!;
+    } catch (error) {
+      logger.error('Error recording attendance', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Correct an attendance record; hours are recalculated from the corrected
+   * times unless a status is given, and the change is kept with its reason
+   */
+  async correctAttendance(
+    companyId: string,
+    attendanceId: string,
+    data: AttendanceCorrectionData,
+    corrector: AttendanceCorrector
+  ): Promise<AttendanceRecord> {
+    const correctedBy = corrector.id;
+    try {
+      const db = getDatabase();
+      const timeZone = await this.companyTimeZone(companyId);
+      let changes: { previous: Record<string, unknown>; updated: Record<string, unknown> } = { previous: {}, updated: {} };
+
+      await db.transaction(async (trx) => {
+        const existing = await trx('attendance')
+          .where('id', attendanceId)
+          .where('company_id', companyId)
+          .forUpdate()
+          .first();
+        if (!existing) {
+          throw new NotFoundError('Attendance record not found');
+        }
+        await this.assertCanCorrect(trx, companyId, existing.employee_id, corrector);
+
+        const checkIn = data.check_in !== undefined
+          ? (data.check_in ? new Date(data.check_in) : null)
+          : (existing.check_in ? new Date(existing.check_in) : null);
+        const checkOut = data.check_out !== undefined
+          ? (data.check_out ? new Date(data.check_out) : null)
+          : (existing.check_out ? new Date(existing.check_out) : null);
+
+        if (checkOut && !checkIn) {
+          throw new ValidationError('A clock-out needs a clock-in');
+        }
+        if (checkIn && checkOut && checkOut <= checkIn) {
+          throw new ValidationError('Clock-out must be after clock-in');
+        }
+
+        const shift = await this.resolveShift(trx, companyId, existing.shift_id);
+        const times = this.evaluateTimes(checkIn, checkOut, shift.rules, timeZone);
+        const date = times.date || toDateOnly(existing.date);
+
+        if (date !== toDateOnly(existing.date)) {
+          const clash = await trx('attendance')
+            .where('employee_id', existing.employee_id)
+            .where('date', date)
+            .first();
+          if (clash) {
+            throw new ConflictError(`Attendance for ${date} is already recorded`);
+          }
+        }
+
+        const update: Record<string, unknown> = {
+          date,
+          check_in: checkIn,
+          check_out: checkOut,
+          total_hours: times.total_hours,
+          overtime_hours: times.overtime_hours,
+          late_minutes: times.late_minutes,
+          status: data.status || times.status || existing.status,
+          notes: data.notes !== undefined ? data.notes : existing.notes
+        };
+
+        changes = this.diffRecord(existing, update);
+        if (Object.keys(changes.updated).length === 0) {
+          throw new ValidationError('Correction does not change the record');
+        }
+
+        await trx('attendance')
+          .where('id', attendanceId)
+          .update({
+            ...update,
+            check_in_source: data.check_in !== undefined ? (checkIn ? 'manual' : null) : existing.check_in_source,
+            check_out_source: data.check_out !== undefined ? (checkOut ? 'manual' : null) : existing.check_out_source,
+            corrected_at: new Date(),
+            updated_at: new Date()
+          });
+
+        await trx('attendance_corrections').insert({
+          id: uuidv4(),
+          attendance_id: attendanceId,
+          reason: data.reason,
+          previous_values: JSON.stringify(changes.previous),
+          new_values: JSON.stringify(changes.updated),
+          corrected_by: correctedBy
+        });
+      });
+
+      await auditService.logUserAction({
+        user_id: correctedBy,
+        action: 'attendance_corrected',
+        resource_type: 'attendance',
+        resource_id: attendanceId,
+        company_id: companyId,
+        details: { reason: data.reason, previous: changes.previous, updated: changes.updated }
+      });
+
+      logger.info('Attendance corrected', { attendanceId, companyId, correctedBy });
+
+      return (await this.getAttendanceById(companyId, attendanceId))!;
+    } catch (error) {
+      logger.error('Error correcting attendance', { error, companyId, attendanceId });
+      throw error;
+    }
+  }
+
+  /**
+   * HR and administrators may correct any record; anyone else only those
+   * of employees who report to them directly
+   */
+  private async assertCanCorrect(
+    trx: Knex.Transaction,
+    companyId: string,
+    employeeId: string,
+    corrector: AttendanceCorrector
+  ): Promise<void> {
+    if (corrector.department === 'HR' || OVERRIDE_ROLES.includes(corrector.role)) return;
+
+    const employee = await trx('employees')
+      .join('employees as managers', 'employees.manager_id', 'managers.id')
+      .where('employees.id', employeeId)
+      .where('employees.company_id', companyId)
+      .where('managers.user_id', corrector.id)
+      .whereNull('managers.deleted_at')
+      .first('employees.id');
+
+    if (!employee) {
+      throw new AuthorizationError('Only HR or the employee\'s manager can correct this record');
+    }
+  }
+
+  /**
+   * Base query joining the employee's name
+   */
+  private attendanceQuery(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    return db('attendance')
+      .join('employees', 'attendance.employee_id', 'employees.id')
+      .join('users', 'employees.user_id', 'users.id')
+      .select(
+        'attendance.*',
+        'employees.employee_number',
+        db.raw("concat_ws(' ', users.first_name, users.last_name) as employee_name")
+      );
+  }
+
+  /**
+   * The employee must be active to clock in
+   */
+  private async getActiveEmployee(trx: Knex.Transaction, companyId: string, employeeId: string): Promise<any> {
+    const employee = await trx('employees')
+      .where('id', employeeId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!employee) {
+      throw new NotFoundError('Employee not found');
+    }
+
+    if (employee.status !== EmployeeStatus.ACTIVE) {
+      throw new ValidationError(`Employee is ${employee.status} and cannot clock in`);
+    }
+
+    return employee;
+  }
+
+  /**
+   * Shift rules for an employee: their own shift, the company default, or
+   * the built-in office hours
+   */
+  private async resolveShift(
+    trx: Knex.Transaction,
+    companyId: string,
+    shiftId: string | null
+  ): Promise<{ id: string | null; rules: ShiftRules }> {
+    let row = shiftId
+      ? await trx('shifts').where('id', shiftId).where('company_id', companyId).first()
+      : null;
+
+    if (!row) {
+      row = await trx('shifts')
+        .where('company_id', companyId)
+        .where('is_default', true)
+        .where('is_active', true)
+        .first();
+    }
+
+    return row
+      ? { id: row.id, rules: this.mapShift(row) }
+      : { id: null, rules: DEFAULT_SHIFT };
+  }
+
+  /**
+   * Date, status and hours implied by clock times, where there are any
+   */
+  private evaluateTimes(
+    checkIn: Date | null,
+    checkOut: Date | null,
+    rules: ShiftRules,
+    timeZone: string
+  ): { date: string | null; status: AttendanceStatus | null; total_hours: number | null; overtime_hours: number; late_minutes: number } {
+    if (!checkIn) {
+      return { date: null, status: null, total_hours: null, overtime_hours: 0, late_minutes: 0 };
+    }
+
+    if (!checkOut) {
+      const result = evaluateClockIn(checkIn, rules, timeZone);
+      return { ...result, total_hours: null, overtime_hours: 0 };
+    }
+
+    return evaluateAttendance(checkIn, checkOut, rules, timeZone);
+  }
+
+  /**
+   * Fields that differ between a stored record and its correction
+   */
+  private diffRecord(
+    existing: any,
+    update: Record<string, unknown>
+  ): { previous: Record<string, unknown>; updated: Record<string, unknown> } {
+    const normalise = (field: string, value: unknown): unknown => {
+      if (value === null || value === undefined) return null;
+      if (field === 'date') return toDateOnly(value as Date | string);
+      if (field === 'check_in' || field === 'check_out') return new Date(value as Date | string).toISOString();
+      if (field === 'total_hours' || field === 'overtime_hours') return toAmount(value as number);
+      return value;
+    };
+
+    const previous: Record<string, unknown> = {};
+    const updated: Record<string, unknown> = {};
+
+    for (const field of CORRECTABLE_FIELDS) {
+      const before = normalise(field, existing[field]);
+      const after = normalise(field, update[field]);
+      if (before !== after) {
+        previous[field] = before;
+        updated[field] = after;
+      }
+    }
+
+    return { previous, updated };
+  }
+
+  /**
+   * Company timezone for shift times (UTC when not set)
+   */
+  private async companyTimeZone(companyId: string): Promise<string> {
+    const company = await companyService.getCompanyById(companyId);
+    return company?.timezone || 'UTC';
+  }
+
+  /**
+   * Map a shift row
+   */
+  private mapShift(row: any): Shift {
+    return {
+      ...row,
+      min_full_day_hours: toAmount(row.min_full_day_hours)
+    };
+  }
+
+  /**
+   * Map an attendance row
+   */
+  private mapRecord(row: any): AttendanceRecord {
+    return {
+      ...row,
+      date: toDateOnly(row.date),
+      total_hours: row.total_hours !== null && row.total_hours !== undefined ? toAmount(row.total_hours) : null,
+      overtime_hours: toAmount(row.overtime_hours)
+    };
+  }
+}
+
+export const attendanceService = new AttendanceService();
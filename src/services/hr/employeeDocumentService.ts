@@ -0,0 +1,652 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { auditService } from '../../core/audit/auditService';
+import { companyService } from '../../core/company/companyService';
+import { notificationService } from '../../core/notification/notificationService';
+import { fileStorage } from '../fileStorage';
+import { logger } from '../../utils/logger';
+import { addDays, toDateOnly } from '../../utils/dateUtils';
+import { DocumentType, EmployeeStatus, NotificationType } from '../../types';
+import {
+  EXPIRING_DOCUMENT_TYPES,
+  EXPIRY_REMINDER_DAYS,
+  documentVersionPath,
+  dueExpiryReminder
+} from './employeeDocuments';
+import { ValidationError, NotFoundError } from '../../middleware/errorHandler';
+
+export interface UploadedDocumentFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export interface CreateEmployeeDocumentData {
+  type: DocumentType;
+  name: string;
+  description?: string | null;
+  expiry_date?: Date | string | null;
+  notes?: string | null;
+}
+
+export interface EmployeeDocumentVersionData {
+  // Replaces the document's expiry date when given (null clears it)
+  expiry_date?: Date | string | null;
+  notes?: string | null;
+}
+
+export interface EmployeeDocumentVersion {
+  id: string;
+  document_id: string;
+  version: number;
+  file_name: string;
+  mime_type: string;
+  file_size: number;
+  checksum: string;
+  expiry_date: string | null;
+  notes: string | null;
+  uploaded_by: string;
+  uploaded_at: Date;
+}
+
+export interface EmployeeDocument {
+  id: string;
+  company_id: string;
+  employee_id: string;
+  type: DocumentType;
+  name: string;
+  description: string | null;
+  expiry_date: string | null;
+  current_version: number;
+  // Current version's file
+  file_name: string;
+  mime_type: string;
+  file_size: number;
+  uploaded_at: Date;
+  versions?: EmployeeDocumentVersion[];
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmployeeDocumentFilters {
+  type?: DocumentType;
+  // Only documents expiring on or before this date
+  expiring_before?: Date | string;
+}
+
+export interface RenderedEmployeeDocument {
+  content: Buffer;
+  content_type: string;
+  filename: string;
+}
+
+export interface ExpiryReminderResult {
+  date: string;
+  // Notifications, counting the employee's and HR's separately
+  sent: number;
+  failed: number;
+}
+
+type ReminderRecipient = 'employee' | 'hr';
+
+const REMINDER_RECIPIENTS: ReminderRecipient[] = ['employee', 'hr'];
+
+const TYPE_LABELS: Record<DocumentType, string> = {
+  [DocumentType.CONTRACT]: 'Contract',
+  [DocumentType.ID_PROOF]: 'Proof of identity',
+  [DocumentType.CERTIFICATE]: 'Certificate',
+  [DocumentType.PERFORMANCE_REVIEW]: 'Performance review',
+  [DocumentType.OTHER]: 'Document'
+};
+
+export class EmployeeDocumentService {
+  /**
+   * An employee's documents with their current versions
+   */
+  async getDocuments(
+    companyId: string,
+    employeeId: string,
+    filters: EmployeeDocumentFilters = {}
+  ): Promise<EmployeeDocument[]> {
+    try {
+      const db = getDatabase();
+      await this.getEmployee(companyId, employeeId);
+
+      let query = this.documentQuery(db)
+        .where('employee_documents.employee_id', employeeId);
+
+      if (filters.type) {
+        query = query.where('employee_documents.type', filters.type);
+      }
+      if (filters.expiring_before) {
+        query = query.where('employee_documents.expiry_date', '<=', toDateOnly(filters.expiring_before));
+      }
+
+      const rows = await query.orderBy([
+        { column: 'employee_documents.type' },
+        { column: 'employee_documents.name' }
+      ]);
+
+      return rows.map((row: any) => this.mapDocument(row));
+    } catch (error) {
+      logger.error('Error fetching employee documents', { error, companyId, employeeId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * A document with every version, newest first
+   */
+  async getDocumentById(companyId: string, employeeId: string, documentId: string): Promise<EmployeeDocument | null> {
+    try {
+      const db = getDatabase();
+      const row = await this.documentQuery(db)
+        .where('employee_documents.id', documentId)
+        .where('employee_documents.employee_id', employeeId)
+        .where('employee_documents.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const versions = await db('employee_document_versions')
+        .where('document_id', documentId)
+        .orderBy('version', 'desc');
+
+      return {
+        ...this.mapDocument(row),
+        versions: versions.map((version: any) => this.mapVersion(version))
+      };
+    } catch (error) {
+      logger.error('Error fetching employee document', { error, companyId, employeeId, documentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a new document as its first version
+   */
+  async uploadDocument(
+    companyId: string,
+    employeeId: string,
+    data: CreateEmployeeDocumentData,
+    file: UploadedDocumentFile | undefined,
+    uploadedBy: string
+  ): Promise<EmployeeDocument> {
+    try {
+      const db = getDatabase();
+      await this.getEmployee(companyId, employeeId);
+
+      if (!file) {
+        throw new ValidationError('A file is required');
+      }
+      if (!data.name || data.name.trim().length === 0) {
+        throw new ValidationError('Document name is required');
+      }
+
+      const documentId = uuidv4();
+      const filePath = documentVersionPath(companyId, employeeId, documentId, 1, file.originalname);
+      const expiryDate = data.expiry_date ? toDateOnly(data.expiry_date) : null;
+      const fileSize = await fileStorage.save(filePath, file.buffer);
+
+      try {
+        await db.transaction(async (trx) => {
+          await trx('employee_documents').insert({
+            id: documentId,
+            company_id: companyId,
+            employee_id: employeeId,
+            type: data.type,
+            name: data.name.trim(),
+            description: data.description || null,
+            expiry_date: expiryDate,
+            current_version: 1,
+            created_by: uploadedBy,
+            updated_by: uploadedBy
+          });
+
+          await trx('employee_document_versions').insert(
+            this.versionRow(documentId, 1, filePath, file, fileSize, expiryDate, data.notes, uploadedBy)
+          );
+        });
+      } catch (error) {
+        await fileStorage.remove(filePath);
+        throw error;
+      }
+
+      await auditService.logUserAction({
+        user_id: uploadedBy,
+        action: 'employee_document_uploaded',
+        resource_type: 'employee_document',
+        resource_id: documentId,
+        company_id: companyId,
+        details: { employee_id: employeeId, type: data.type, name: data.name.trim(), version: 1 }
+      });
+
+      logger.info('Employee document uploaded', { documentId, employeeId, companyId, type: data.type, uploadedBy });
+
+      return (await this.getDocumentById(companyId, employeeId, documentId))!;
+    } catch (error) {
+      logger.error('Error uploading employee document', { error, companyId, employeeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a new version of a document; earlier versions are kept
+   */
+  async addVersion(
+    companyId: string,
+    employeeId: string,
+    documentId: string,
+    data: EmployeeDocumentVersionData,
+    file: UploadedDocumentFile | undefined,
+    uploadedBy: string
+  ): Promise<EmployeeDocument> {
+    try {
+      const db = getDatabase();
+
+      if (!file) {
+        throw new ValidationError('A file is required');
+      }
+
+      let version = 0;
+      let filePath = '';
+      await db.transaction(async (trx) => {
+        const document = await trx('employee_documents')
+          .where('id', documentId)
+          .where('employee_id', employeeId)
+          .where('company_id', companyId)
+          .whereNull('deleted_at')
+          .forUpdate()
+          .first();
+        if (!document) {
+          throw new NotFoundError('Document not found');
+        }
+
+        version = document.current_version + 1;
+        filePath = documentVersionPath(companyId, employeeId, documentId, version, file.originalname);
+        const expiryDate = data.expiry_date !== undefined
+          ? (data.expiry_date ? toDateOnly(data.expiry_date) : null)
+          : (document.expiry_date ? toDateOnly(document.expiry_date) : null);
+
+        const fileSize = await fileStorage.save(filePath, file.buffer);
+
+        try {
+          await trx('employee_document_versions').insert(
+            this.versionRow(documentId, version, filePath, file, fileSize, expiryDate, data.notes, uploadedBy)
+          );
+
+          await trx('employee_documents')
+            .where('id', documentId)
+            .update({
+              current_version: version,
+              expiry_date: expiryDate,
+              updated_by: uploadedBy,
+              updated_at: new Date()
+            });
+        } catch (error) {
+          await fileStorage.remove(filePath);
+          throw error;
+        }
+      });
+
+      await auditService.logUserAction({
+        user_id: uploadedBy,
+        action: 'employee_document_version_added',
+        resource_type: 'employee_document',
+        resource_id: documentId,
+        company_id: companyId,
+        details: { employee_id: employeeId, version }
+      });
+
+      logger.info('Employee document version added', { documentId, employeeId, companyId, version, uploadedBy });
+
+      return (await this.getDocumentById(companyId, employeeId, documentId))!;
+    } catch (error) {
+      logger.error('Error adding employee document version', { error, companyId, employeeId, documentId });
+      throw error;
+    }
+  }
+
+  /**
+   * File of a document version (the current one unless given)
+   */
+  async getDocumentFile(
+    companyId: string,
+    employeeId: string,
+    documentId: string,
+    version: number | undefined,
+    requestedBy: string
+  ): Promise<RenderedEmployeeDocument> {
+    try {
+      const db = getDatabase();
+      const document = await db('employee_documents')
+        .where('id', documentId)
+        .where('employee_id', employeeId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .first();
+      if (!document) {
+        throw new NotFoundError('Document not found');
+      }
+
+      const row = await db('employee_document_versions')
+        .where('document_id', documentId)
+        .where('version', version ?? document.current_version)
+        .first();
+      if (!row) {
+        throw new NotFoundError('Document version not found');
+      }
+
+      const content = await fileStorage.read(row.file_path);
+
+      await auditService.logUserAction({
+        user_id: requestedBy,
+        action: 'employee_document_downloaded',
+        resource_type: 'employee_document',
+        resource_id: documentId,
+        company_id: companyId,
+        details: { employee_id: employeeId, version: row.version }
+      });
+
+      return {
+        content,
+        content_type: row.mime_type,
+        filename: row.file_name.replace(/[^A-Za-z0-9._-]/g, '_')
+      };
+    } catch (error) {
+      logger.error('Error fetching employee document file', { error, companyId, employeeId, documentId, version });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a document from the vault; its files are kept for the record
+   */
+  async deleteDocument(companyId: string, employeeId: string, documentId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const updated = await db('employee_documents')
+        .where('id', documentId)
+        .where('employee_id', employeeId)
+        .where('company_id', companyId)
+        .whereNull('deleted_at')
+        .update({
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date()
+        });
+      if (!updated) {
+        throw new NotFoundError('Document not found');
+      }
+
+      await auditService.logUserAction({
+        user_id: deletedBy,
+        action: 'employee_document_deleted',
+        resource_type: 'employee_document',
+        resource_id: documentId,
+        company_id: companyId,
+        details: { employee_id: employeeId }
+      });
+
+      logger.info('Employee document deleted', { documentId, employeeId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting employee document', { error, companyId, employeeId, documentId });
+      throw error;
+    }
+  }
+
+  /**
+   * A user's own documents
+   */
+  async getUserDocuments(companyId: string, userId: string): Promise<EmployeeDocument[]> {
+    const employee = await this.getEmployeeForUser(companyId, userId);
+    return this.getDocuments(companyId, employee.id);
+  }
+
+  /**
+   * File of one of a user's own documents
+   */
+  async getUserDocumentFile(
+    companyId: string,
+    userId: string,
+    documentId: string,
+    version: number | undefined,
+    requestedBy: string
+  ): Promise<RenderedEmployeeDocument> {
+    const employee = await this.getEmployeeForUser(companyId, userId);
+    return this.getDocumentFile(companyId, employee.id, documentId, version, requestedBy);
+  }
+
+  /**
+   * Remind HR and the employee of contracts and certificates expiring in
+   * 60, 30 and 7 days. Each recipient's reminder is claimed before it is
+   * sent so overlapping runs never send it twice, and released again on
+   * failure so the next run retries that recipient only.
+   */
+  async runScheduledExpiryReminders(date: Date | string): Promise<ExpiryReminderResult> {
+    const db = getDatabase();
+    const today = toDateOnly(date);
+    const result: ExpiryReminderResult = { date: today, sent: 0, failed: 0 };
+
+    const documents = await db('employee_documents')
+      .join('employees', 'employee_documents.employee_id', 'employees.id')
+      .join('users', 'employees.user_id', 'users.id')
+      .whereIn('employee_documents.type', EXPIRING_DOCUMENT_TYPES)
+      .whereNull('employee_documents.deleted_at')
+      .whereNull('employees.deleted_at')
+      .whereNot('employees.status', EmployeeStatus.TERMINATED)
+      .whereBetween('employee_documents.expiry_date', [today, addDays(today, Math.max(...EXPIRY_REMINDER_DAYS))])
+      .select(
+        'employee_documents.*',
+        'employees.user_id',
+        'employees.employee_number',
+        'users.first_name',
+        'users.last_name'
+      );
+    if (documents.length === 0) return result;
+
+    const sent = await db('employee_document_reminders')
+      .whereIn('document_id', documents.map((document: any) => document.id));
+    const hrDepartments = new Map<string, string | null>();
+
+    for (const document of documents) {
+      const expiryDate = toDateOnly(document.expiry_date);
+
+      for (const recipient of REMINDER_RECIPIENTS) {
+        const daysBefore = dueExpiryReminder(
+          expiryDate,
+          today,
+          sent
+            .filter((reminder: any) =>
+              reminder.document_id === document.id &&
+              reminder.recipient === recipient &&
+              toDateOnly(reminder.expiry_date) === expiryDate
+            )
+            .map((reminder: any) => reminder.days_before)
+        );
+        if (daysBefore === null) continue;
+
+        let hrDepartmentId: string | null = null;
+        if (recipient === 'hr') {
+          if (!hrDepartments.has(document.company_id)) {
+            const department = await companyService.getHrDepartment(document.company_id);
+            hrDepartments.set(document.company_id, department ? department.id : null);
+          }
+          hrDepartmentId = hrDepartments.get(document.company_id)!;
+          if (!hrDepartmentId) {
+            logger.warn('No HR department to remind about document expiry', { companyId: document.company_id, documentId: document.id });
+            continue;
+          }
+        }
+
+        const [claim] = await db('employee_document_reminders')
+          .insert({ id: uuidv4(), document_id: document.id, expiry_date: expiryDate, days_before: daysBefore, recipient })
+          .onConflict(['document_id', 'expiry_date', 'days_before', 'recipient'])
+          .ignore()
+          .returning('id');
+        if (!claim) continue;
+
+        try {
+          await this.notifyExpiry(document, expiryDate, daysBefore, hrDepartmentId);
+          result.sent++;
+        } catch (error) {
+          await db('employee_document_reminders').where('id', claim.id).delete();
+          result.failed++;
+          logger.warn('Document expiry reminder failed', {
+            documentId: document.id,
+            companyId: document.company_id,
+            daysBefore,
+            recipient,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Notify the employee, or HR when given its department, that a document
+   * is about to expire
+   */
+  private async notifyExpiry(document: any, expiryDate: string, daysBefore: number, hrDepartmentId: string | null): Promise<void> {
+    const label = TYPE_LABELS[document.type as DocumentType];
+    const employeeName = [document.first_name, document.last_name].filter(Boolean).join(' ');
+    const details = {
+      type: NotificationType.WARNING,
+      data: {
+        employee_document_id: document.id,
+        employee_id: document.employee_id,
+        expiry_date: expiryDate,
+        days_before: daysBefore
+      },
+      priority: daysBefore <= 7 ? 'high' as const : 'medium' as const
+    };
+
+    if (hrDepartmentId) {
+      await notificationService.createNotification({
+        ...details,
+        title: `${label} for ${employeeName} expires in ${daysBefore} days`,
+        message: `${label} "${document.name}" for ${employeeName} (${document.employee_number}) expires on ${expiryDate}.`,
+        recipient_department_id: hrDepartmentId
+      });
+      return;
+    }
+
+    await notificationService.createNotification({
+      ...details,
+      title: `${label} expires in ${daysBefore} days`,
+      message: `Your ${label.toLowerCase()} "${document.name}" expires on ${expiryDate}. Please arrange a renewal with HR.`,
+      recipient_id: document.user_id
+    });
+  }
+
+  /**
+   * Version row for a stored file
+   */
+  private versionRow(
+    documentId: string,
+    version: number,
+    filePath: string,
+    file: UploadedDocumentFile,
+    fileSize: number,
+    expiryDate: string | null,
+    notes: string | null | undefined,
+    uploadedBy: string
+  ): Record<string, unknown> {
+    return {
+      id: uuidv4(),
+      document_id: documentId,
+      version,
+      file_path: filePath,
+      file_name: file.originalname,
+      mime_type: file.mimetype,
+      file_size: fileSize,
+      checksum: createHash('sha256').update(file.buffer).digest('hex'),
+      expiry_date: expiryDate,
+      notes: notes || null,
+      uploaded_by: uploadedBy,
+      uploaded_at: new Date()
+    };
+  }
+
+  /**
+   * Base query joining each document's current version
+   */
+  private documentQuery(db: ReturnType<typeof getDatabase>) {
+    return db('employee_documents')
+      .join('employee_document_versions', function () {
+        this.on('employee_document_versions.document_id', '=', 'employee_documents.id')
+          .andOn('employee_document_versions.version', '=', 'employee_documents.current_version');
+      })
+      .whereNull('employee_documents.deleted_at')
+      .select(
+        'employee_documents.*',
+        'employee_document_versions.file_name',
+        'employee_document_versions.mime_type',
+        'employee_document_versions.file_size',
+        'employee_document_versions.uploaded_at'
+      );
+  }
+
+  /**
+   * The employee must belong to the company
+   */
+  private async getEmployee(companyId: string, employeeId: string): Promise<any> {
+    const employee = await getDatabase()('employees')
+      .where('id', employeeId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!employee) {
+      throw new NotFoundError('Employee not found');
+    }
+
+    return employee;
+  }
+
+  /**
+   * Employee record of a user in the company
+   */
+  private async getEmployeeForUser(companyId: string, userId: string): Promise<any> {
+    const employee = await getDatabase()('employees')
+      .where('company_id', companyId)
+      .where('user_id', userId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!employee) {
+      throw new NotFoundError('No employee record for this user');
+    }
+
+    return employee;
+  }
+
+  /**
+   * Map a document row
+   */
+  private mapDocument(row: any): EmployeeDocument {
+    const { updated_by, deleted_at, ...document } = row;
+    return {
+      ...document,
+      expiry_date: row.expiry_date ? toDateOnly(row.expiry_date) : null
+    };
+  }
+
+  /**
+   * Map a version row (the storage path stays internal)
+   */
+  private mapVersion(row: any): EmployeeDocumentVersion {
+    const { file_path, ...version } = row;
+    return {
+      ...version,
+      expiry_date: row.expiry_date ? toDateOnly(row.expiry_date) : null
+    };
+  }
+}
+
+export const employeeDocumentService = new EmployeeDocumentService();
@@ -0,0 +1,39 @@
+import { DocumentType } from '../../types';
+import { daysBetween } from '../../utils/dateUtils';
+
+// Days before expiry on which HR and the employee are reminded
+export const EXPIRY_REMINDER_DAYS = [60, 30, 7];
+
+// Document types whose expiry is monitored
+export const EXPIRING_DOCUMENT_TYPES: DocumentType[] = [DocumentType.CONTRACT, DocumentType.CERTIFICATE];
+
+/**
+ * Reminder due for a document on a date: the nearest threshold reached
+ * that has not been sent. A reminder missed while the job was not running
+ * is replaced by the next one rather than sent late, and nothing is sent
+ * once the document has expired.
+ */
+export const dueExpiryReminder = (expiryDate: string, today: string, sent: number[]): number | null => {
+  const daysLeft = daysBetween(today, expiryDate);
+  if (daysLeft < 0) return null;
+
+  const reached = EXPIRY_REMINDER_DAYS.filter(days => daysLeft <= days);
+  if (reached.length === 0) return null;
+
+  const nearest = Math.min(...reached);
+  return sent.some(days => days <= nearest) ? null : nearest;
+};
+
+/**
+ * Storage path of a document version, relative to UPLOAD_PATH
+ */
+export const documentVersionPath = (
+  companyId: string,
+  employeeId: string,
+  documentId: string,
+  version: number,
+  fileName: string
+): string => {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '') || 'document';
+  return ['employee-documents', companyId, employeeId, documentId, `v${version}-${safeName}`].join('/');
+};
@@ -0,0 +1,820 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { canTransition, salaryOn } from './employeeStatus';
+import { wouldCreateCycle } from './orgChart';
+import {
+  Department,
+  EmploymentType,
+  EmployeeStatus,
+  EmergencyContact
+} from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export interface CreateEmployeeData {
+  user_id: string;
+  employee_number?: string;
+  department: Department;
+  position: string;
+  work_location?: string;
+  employment_type: EmploymentType;
+  hire_date: Date | string;
+  date_of_birth?: Date | string | null;
+  id_number?: string | null;
+  tax_number?: string | null;
+  manager_id?: string | null;
+  shift_id?: string | null;
+  holiday_calendar_id?: string | null;
+  emergency_contact?: EmergencyContact | null;
+  salary: number;
+  currency?: string;
+}
+
+export interface UpdateEmployeeData {
+  department?: Department;
+  position?: string;
+  work_location?: string;
+  employment_type?: EmploymentType;
+  hire_date?: Date | string;
+  date_of_birth?: Date | string | null;
+  id_number?: string | null;
+  tax_number?: string | null;
+  manager_id?: string | null;
+  shift_id?: string | null;
+  holiday_calendar_id?: string | null;
+  emergency_contact?: EmergencyContact | null;
+}
+
+export interface EmployeeStatusChange {
+  status: EmployeeStatus;
+  effective_date?: Date | string;
+  reason?: string;
+}
+
+export interface SalaryChangeData {
+  salary: number;
+  effective_from: Date | string;
+  currency?: string;
+  reason?: string;
+}
+
+export interface SalaryHistoryEntry {
+  id: string;
+  employee_id: string;
+  effective_from: string;
+  salary: number;
+  currency: string;
+  reason: string | null;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface Employee {
+  id: string;
+  company_id: string;
+  user_id: string;
+  employee_number: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  department: Department;
+  position: string;
+  work_location: string | null;
+  employment_type: EmploymentType;
+  status: EmployeeStatus;
+  hire_date: string;
+  date_of_birth: string | null;
+  id_number: string | null;
+  tax_number: string | null;
+  termination_date: string | null;
+  termination_reason: string | null;
+  manager_id: string | null;
+  manager_name: string | null;
+  shift_id: string | null;
+  // Null uses the company's default holiday calendar
+  holiday_calendar_id: string | null;
+  emergency_contact: EmergencyContact | null;
+  // Annual salary in effect today
+  salary: number | null;
+  currency: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmployeeFilters {
+  search?: string;
+  status?: EmployeeStatus;
+  department?: Department;
+  employment_type?: EmploymentType;
+  manager_id?: string;
+  page?: number;
+  limit?: number;
+}
+
+export class EmployeeService {
+  /**
+   * Get employees with filters and pagination
+   */
+  async getEmployees(companyId: string, filters: EmployeeFilters = {}): Promise<{
+    employees: Employee[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = this.employeeQuery(db)
+        .where('employees.company_id', companyId);
+
+      if (filters.status) {
+        query = query.where('employees.status', filters.status);
+      }
+
+      if (filters.department) {
+        query = query.where('employees.department', filters.department);
+      }
+
+      if (filters.employment_type) {
+        query = query.where('employees.employment_type', filters.employment_type);
+      }
+
+      if (filters.manager_id) {
+        query = query.where('employees.manager_id', filters.manager_id);
+      }
+
+      if (filters.search) {
+        const search = `%${filters.search}%`;
+        query = query.where((builder) => {
+          builder
+            .where('users.first_name', 'ilike', search)
+            .orWhere('users.last_name', 'ilike', search)
+            .orWhere('users.email', 'ilike', search)
+            .orWhere('employees.employee_number', 'ilike', search);
+        });
+      }
+
+      const [{ count }] = await query.clone().clearSelect().count('* as count');
+      const rows = await query
+        .orderBy('users.last_name')
+        .orderBy('users.first_name')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        employees: await this.mapEmployees(db, rows),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching employees', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get employee by ID
+   */
+  async getEmployeeById(companyId: string, employeeId: string, trx?: Knex.Transaction): Promise<Employee | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await this.employeeQuery(db)
+        .where('employees.id', employeeId)
+        .where('employees.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const [employee] = await this.mapEmployees(db, [row]);
+      return employee;
+    } catch (error) {
+      logger.error('Error fetching employee by ID', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the employee record linked to a user
+   */
+  async getEmployeeByUserId(companyId: string, userId: string, trx?: Knex.Transaction): Promise<Employee | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await this.employeeQuery(db)
+        .where('employees.user_id', userId)
+        .where('employees.company_id', companyId)
+        .first();
+
+      if (!row) return null;
+
+      const [employee] = await this.mapEmployees(db, [row]);
+      return employee;
+    } catch (error) {
+      logger.error('Error fetching employee by user', { error, companyId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create employee with an opening salary effective from the hire date
+   */
+  async createEmployee(companyId: string, data: CreateEmployeeData, createdBy: string): Promise<Employee> {
+    try {
+      const db = getDatabase();
+      this.validateEmployeeData(data);
+
+      const currency = (data.currency || await companyService.getBaseCurrency(companyId)).toUpperCase();
+
+      const hireDate = toDateOnly(data.hire_date);
+      const employeeId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const user = await trx('users')
+          .where('id', data.user_id)
+          .whereNull('deleted_at')
+          .first();
+        if (!user) {
+          throw new ValidationError('User not found');
+        }
+
+        const linked = await trx('employees')
+          .where('user_id', data.user_id)
+          .whereNull('deleted_at')
+          .first();
+        if (linked) {
+          throw new ConflictError('User already has an employee record');
+        }
+
+        if (data.manager_id) {
+          await this.assertManager(trx, companyId, data.manager_id);
+        }
+
+        if (data.shift_id) {
+          await this.assertShift(trx, companyId, data.shift_id);
+        }
+
+        if (data.holiday_calendar_id) {
+          await this.assertCalendar(trx, companyId, data.holiday_calendar_id);
+        }
+
+        const employeeNumber = data.employee_number
+          || await sequenceService.next(trx, companyId, 'employee', { prefix: 'EMP', padding: 5 });
+
+        const existing = await trx('employees')
+          .where('company_id', companyId)
+          .where('employee_number', employeeNumber)
+          .first();
+        if (existing) {
+          throw new ConflictError(`Employee number ${employeeNumber} already exists`);
+        }
+
+        await trx('employees').insert({
+          id: employeeId,
+          company_id: companyId,
+          user_id: data.user_id,
+          employee_number: employeeNumber,
+          department: data.department,
+          position: data.position.trim(),
+          work_location: data.work_location,
+          employment_type: data.employment_type,
+          status: EmployeeStatus.ACTIVE,
+          hire_date: hireDate,
+          date_of_birth: data.date_of_birth ? toDateOnly(data.date_of_birth) : null,
+          id_number: data.id_number ?? null,
+          tax_number: data.tax_number ?? null,
+          manager_id: data.manager_id ?? null,
+          shift_id: data.shift_id ?? null,
+          holiday_calendar_id: data.holiday_calendar_id ?? null,
+          emergency_contact: data.emergency_contact ? JSON.stringify(data.emergency_contact) : null,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+
+        await trx('employee_salary_history').insert({
+          id: uuidv4(),
+          employee_id: employeeId,
+          effective_from: hireDate,
+          salary: data.salary,
+          currency,
+          reason: 'Starting salary',
+          created_by: createdBy
+        });
+      });
+
+      const employee = await this.getEmployeeById(companyId, employeeId);
+      if (!employee) {
+        throw new Error('Failed to create employee');
+      }
+
+      logger.info('Employee created successfully', {
+        employeeId,
+        employeeNumber: employee.employee_number,
+        companyId,
+        createdBy
+      });
+
+      return employee;
+    } catch (error) {
+      logger.error('Error creating employee', { error, companyId, userId: data.user_id });
+      throw error;
+    }
+  }
+
+  /**
+   * Update employee details (status and salary have their own operations)
+   */
+  async updateEmployee(
+    companyId: string,
+    employeeId: string,
+    data: UpdateEmployeeData,
+    updatedBy: string
+  ): Promise<Employee> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getEmployeeById(companyId, employeeId);
+      if (!existing) {
+        throw new NotFoundError('Employee not found');
+      }
+
+      if (data.position !== undefined && data.position.trim().length === 0) {
+        throw new ValidationError('Position is required');
+      }
+
+      await db.transaction(async (trx) => {
+        if (data.manager_id) {
+          if (data.manager_id === employeeId) {
+            throw new ValidationError('An employee cannot be their own manager');
+          }
+          await this.assertManager(trx, companyId, data.manager_id);
+          await this.assertNoReportingCycle(trx, companyId, employeeId, data.manager_id);
+        }
+
+        if (data.shift_id) {
+          await this.assertShift(trx, companyId, data.shift_id);
+        }
+
+        if (data.holiday_calendar_id) {
+          await this.assertCalendar(trx, companyId, data.holiday_calendar_id);
+        }
+
+        if (data.hire_date !== undefined) {
+          const hireDate = toDateOnly(data.hire_date);
+          const first = await trx('employee_salary_history')
+            .where('employee_id', employeeId)
+            .orderBy('effective_from')
+            .first();
+          if (first && toDateOnly(first.effective_from) < hireDate) {
+            throw new ValidationError('Hire date cannot be after the first salary entry');
+          }
+          if (existing.termination_date && existing.termination_date < hireDate) {
+            throw new ValidationError('Hire date cannot be after the termination date');
+          }
+        }
+
+        const { emergency_contact, ...fields } = data;
+
+        await trx('employees')
+          .where('id', employeeId)
+          .update({
+            ...fields,
+            position: data.position?.trim() ?? existing.position,
+            hire_date: data.hire_date !== undefined ? toDateOnly(data.hire_date) : existing.hire_date,
+            ...(data.date_of_birth !== undefined
+              ? { date_of_birth: data.date_of_birth ? toDateOnly(data.date_of_birth) : null }
+              : {}),
+            ...(emergency_contact !== undefined
+              ? { emergency_contact: emergency_contact ? JSON.stringify(emergency_contact) : null }
+              : {}),
+            updated_by: updatedBy,
+            updated_at: new Date()
+          });
+      });
+
+      const employee = await this.getEmployeeById(companyId, employeeId);
+      if (!employee) {
+        throw new Error('Failed to update employee');
+      }
+
+      logger.info('Employee updated successfully', { employeeId, companyId, updatedBy });
+
+      return employee;
+    } catch (error) {
+      logger.error('Error updating employee', { error, companyId, employeeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Move an employee to another status; termination records the date and
+   * reason, and reinstatement clears them
+   */
+  async changeStatus(
+    companyId: string,
+    employeeId: string,
+    change: EmployeeStatusChange,
+    changedBy: string
+  ): Promise<Employee> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getEmployeeById(companyId, employeeId);
+      if (!existing) {
+        throw new NotFoundError('Employee not found');
+      }
+
+      if (!canTransition(existing.status, change.status)) {
+        throw new ValidationError(`Employee cannot move from ${existing.status} to ${change.status}`);
+      }
+
+      const effectiveDate = toDateOnly(change.effective_date || new Date());
+      const update: Record<string, unknown> = {
+        status: change.status,
+        updated_by: changedBy,
+        updated_at: new Date()
+      };
+
+      if (change.status === EmployeeStatus.TERMINATED) {
+        if (effectiveDate < existing.hire_date) {
+          throw new ValidationError('Termination date cannot be before the hire date');
+        }
+        update.termination_date = effectiveDate;
+        update.termination_reason = change.reason ?? null;
+      } else if (existing.status === EmployeeStatus.TERMINATED) {
+        update.termination_date = null;
+        update.termination_reason = null;
+      }
+
+      await db('employees')
+        .where('id', employeeId)
+        .update(update);
+
+      await auditService.logUserAction({
+        user_id: changedBy,
+        action: 'employee_status_changed',
+        resource_type: 'employee',
+        resource_id: employeeId,
+        company_id: companyId,
+        details: {
+          from: existing.status,
+          to: change.status,
+          effective_date: effectiveDate,
+          reason: change.reason
+        }
+      });
+
+      const employee = await this.getEmployeeById(companyId, employeeId);
+      if (!employee) {
+        throw new Error('Failed to update employee status');
+      }
+
+      logger.info('Employee status changed', {
+        employeeId,
+        companyId,
+        from: existing.status,
+        to: change.status,
+        changedBy
+      });
+
+      return employee;
+    } catch (error) {
+      logger.error('Error changing employee status', { error, companyId, employeeId, change });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete employee (soft delete; only records without later salary changes,
+   * as anything else is history that should be kept by terminating instead)
+   */
+  async deleteEmployee(companyId: string, employeeId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const existing = await this.getEmployeeById(companyId, employeeId);
+      if (!existing) {
+        throw new NotFoundError('Employee not found');
+      }
+
+      const [{ count }] = await db('employee_salary_history')
+        .where('employee_id', employeeId)
+        .count('* as count');
+      if (parseInt(count as string) > 1) {
+        throw new ConflictError('Employee has salary history; terminate them instead');
+      }
+
+      const reports = await db('employees')
+        .where('manager_id', employeeId)
+        .whereNull('deleted_at')
+        .first();
+      if (reports) {
+        throw new ConflictError('Employee manages other employees; reassign them first');
+      }
+
+      await db('employees')
+        .where('id', employeeId)
+        .update({
+          deleted_at: new Date(),
+          updated_by: deletedBy,
+          updated_at: new Date()
+        });
+
+      logger.info('Employee deleted successfully', { employeeId, companyId, deletedBy });
+    } catch (error) {
+      logger.error('Error deleting employee', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an employee's salary history, latest first
+   */
+  async getSalaryHistory(companyId: string, employeeId: string): Promise<SalaryHistoryEntry[]> {
+    try {
+      const db = getDatabase();
+      const employee = await this.getEmployeeById(companyId, employeeId);
+      if (!employee) {
+        throw new NotFoundError('Employee not found');
+      }
+
+      const rows = await db('employee_salary_history')
+        .where('employee_id', employeeId)
+        .orderBy('effective_from', 'desc');
+
+      return rows.map((row: any) => this.mapSalaryEntry(row));
+    } catch (error) {
+      logger.error('Error fetching salary history', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the salary in effect for an employee on a date
+   */
+  async getSalaryOn(
+    companyId: string,
+    employeeId: string,
+    date: string,
+    trx?: Knex.Transaction
+  ): Promise<SalaryHistoryEntry | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('employee_salary_history')
+        .join('employees', 'employee_salary_history.employee_id', 'employees.id')
+        .where('employees.id', employeeId)
+        .where('employees.company_id', companyId)
+        .where('employee_salary_history.effective_from', '<=', date)
+        .orderBy('employee_salary_history.effective_from', 'desc')
+        .select('employee_salary_history.*')
+        .first();
+
+      return row ? this.mapSalaryEntry(row) : null;
+    } catch (error) {
+      logger.error('Error fetching salary on date', { error, companyId, employeeId, date });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a salary change from a date; earlier entries are kept as history
+   */
+  async addSalaryChange(
+    companyId: string,
+    employeeId: string,
+    data: SalaryChangeData,
+    createdBy: string
+  ): Promise<SalaryHistoryEntry> {
+    try {
+      const db = getDatabase();
+      const employee = await this.getEmployeeById(companyId, employeeId);
+      if (!employee) {
+        throw new NotFoundError('Employee not found');
+      }
+
+      if (employee.status === EmployeeStatus.TERMINATED) {
+        throw new ValidationError('Cannot change the salary of a terminated employee');
+      }
+
+      if (!(data.salary > 0)) {
+        throw new ValidationError('Salary must be greater than zero');
+      }
+
+      const effectiveFrom = toDateOnly(data.effective_from);
+      if (effectiveFrom < employee.hire_date) {
+        throw new ValidationError('Salary change cannot take effect before the hire date');
+      }
+
+      const entryId = uuidv4();
+      let currency = '';
+
+      await db.transaction(async (trx) => {
+        const latest = await trx('employee_salary_history')
+          .where('employee_id', employeeId)
+          .orderBy('effective_from', 'desc')
+          .first();
+        currency = (data.currency || latest?.currency || '').toUpperCase();
+        if (!currency) {
+          throw new ValidationError('Currency is required');
+        }
+
+        const existing = await trx('employee_salary_history')
+          .where('employee_id', employeeId)
+          .where('effective_from', effectiveFrom)
+          .first();
+        if (existing) {
+          throw new ConflictError(`A salary change already takes effect on ${effectiveFrom}`);
+        }
+
+        await trx('employee_salary_history').insert({
+          id: entryId,
+          employee_id: employeeId,
+          effective_from: effectiveFrom,
+          salary: data.salary,
+          currency,
+          reason: data.reason,
+          created_by: createdBy
+        });
+
+        await trx('employees')
+          .where('id', employeeId)
+          .update({ updated_by: createdBy, updated_at: new Date() });
+      });
+
+      await auditService.logUserAction({
+        user_id: createdBy,
+        action: 'employee_salary_changed',
+        resource_type: 'employee',
+        resource_id: employeeId,
+        company_id: companyId,
+        details: {
+          previous_salary: employee.salary,
+          salary: data.salary,
+          currency,
+          effective_from: effectiveFrom,
+          reason: data.reason
+        }
+      });
+
+      logger.info('Employee salary change recorded', { employeeId, companyId, effectiveFrom, createdBy });
+
+      const entry = await db('employee_salary_history').where('id', entryId).first();
+      return this.mapSalaryEntry(entry);
+    } catch (error) {
+      logger.error('Error recording salary change', { error, companyId, employeeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Base query joining the linked user and manager
+   */
+  private employeeQuery(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    return db('employees')
+      .join('users', 'employees.user_id', 'users.id')
+      .leftJoin('employees as managers', 'employees.manager_id', 'managers.id')
+      .leftJoin('users as manager_users', 'managers.user_id', 'manager_users.id')
+      .whereNull('employees.deleted_at')
+      .select(
+        'employees.*',
+        'users.first_name',
+        'users.last_name',
+        'users.email',
+        db.raw("concat_ws(' ', manager_users.first_name, manager_users.last_name) as manager_name")
+      );
+  }
+
+  /**
+   * The manager must be a current employee of the same company
+   */
+  private async assertManager(trx: Knex.Transaction, companyId: string, managerId: string): Promise<void> {
+    const manager = await trx('employees')
+      .where('id', managerId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!manager || manager.status === EmployeeStatus.TERMINATED) {
+      throw new ValidationError('Manager must be a current employee of this company');
+    }
+  }
+
+  /**
+   * The new manager must not report, directly or through others, to the employee
+   */
+  private async assertNoReportingCycle(
+    trx: Knex.Transaction,
+    companyId: string,
+    employeeId: string,
+    managerId: string
+  ): Promise<void> {
+    const rows = await trx('employees')
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .select('id', 'employee_number', 'manager_id');
+
+    const cycle = wouldCreateCycle(new Map(rows.map((row: any) => [row.id, row.manager_id])), employeeId, managerId);
+    if (cycle) {
+      const numbers = new Map(rows.map((row: any) => [row.id, row.employee_number]));
+      throw new ValidationError(
+        `Manager would create a reporting cycle: ${[employeeId, ...cycle].map(id => numbers.get(id)).join(' → ')}`
+      );
+    }
+  }
+
+  /**
+   * The shift must be an active shift of the same company
+   */
+  private async assertShift(trx: Knex.Transaction, companyId: string, shiftId: string): Promise<void> {
+    const shift = await trx('shifts')
+      .where('id', shiftId)
+      .where('company_id', companyId)
+      .where('is_active', true)
+      .first();
+
+    if (!shift) {
+      throw new ValidationError('Shift must be an active shift of this company');
+    }
+  }
+
+  /**
+   * The holiday calendar must be an active calendar of the same company
+   */
+  private async assertCalendar(trx: Knex.Transaction, companyId: string, calendarId: string): Promise<void> {
+    const calendar = await trx('holiday_calendars')
+      .where('id', calendarId)
+      .where('company_id', companyId)
+      .where('is_active', true)
+      .first();
+
+    if (!calendar) {
+      throw new ValidationError('Holiday calendar must be an active calendar of this company');
+    }
+  }
+
+  /**
+   * Map employee rows, attaching the salary in effect today
+   */
+  private async mapEmployees(db: Knex | Knex.Transaction, rows: any[]): Promise<Employee[]> {
+    if (rows.length === 0) return [];
+
+    const today = toDateOnly(new Date());
+    const history = await db('employee_salary_history')
+      .whereIn('employee_id', rows.map(row => row.id))
+      .where('effective_from', '<=', today);
+
+    return rows.map(row => {
+      const entries = history
+        .filter((entry: any) => entry.employee_id === row.id)
+        .map((entry: any) => this.mapSalaryEntry(entry));
+      const current = salaryOn(entries, today);
+
+      return {
+        ...row,
+        hire_date: toDateOnly(row.hire_date),
+        date_of_birth: row.date_of_birth ? toDateOnly(row.date_of_birth) : null,
+        termination_date: row.termination_date ? toDateOnly(row.termination_date) : null,
+        manager_name: row.manager_id ? row.manager_name : null,
+        salary: current ? current.salary : null,
+        currency: current ? current.currency : null
+      };
+    });
+  }
+
+  /**
+   * Map a salary history row
+   */
+  private mapSalaryEntry(row: any): SalaryHistoryEntry {
+    return {
+      ...row,
+      effective_from: toDateOnly(row.effective_from),
+      salary: toAmount(row.salary)
+    };
+  }
+
+  /**
+   * Validate employee data
+   */
+  private validateEmployeeData(data: CreateEmployeeData): void {
+    if (!data.position || data.position.trim().length === 0) {
+      throw new ValidationError('Position is required');
+    }
+
+    if (!(data.salary > 0)) {
+      throw new ValidationError('Salary must be greater than zero');
+    }
+  }
+}
+
+export const employeeService = new EmployeeService();
@@ -0,0 +1,45 @@
+import { EmployeeStatus } from '../../types';
+
+/**
+ * Employee lifecycle rules.
+ *
+ * Termination ends employment but keeps the record for payroll and tax
+ * history; a terminated employee can only be reinstated as active. Salary
+ * is never overwritten: each change is an effective-dated entry and the
+ * salary on a date is the latest entry that has taken effect by then.
+ */
+
+export const STATUS_TRANSITIONS: Record<EmployeeStatus, EmployeeStatus[]> = {
+  [EmployeeStatus.ACTIVE]: [EmployeeStatus.ON_LEAVE, EmployeeStatus.INACTIVE, EmployeeStatus.TERMINATED],
+  [EmployeeStatus.ON_LEAVE]: [EmployeeStatus.ACTIVE, EmployeeStatus.TERMINATED],
+  [EmployeeStatus.INACTIVE]: [EmployeeStatus.ACTIVE, EmployeeStatus.TERMINATED],
+  [EmployeeStatus.TERMINATED]: [EmployeeStatus.ACTIVE]
+};
+
+export interface SalaryEntry {
+  effective_from: string;
+  salary: number;
+  currency: string;
+}
+
+/**
+ * Whether an employee may move from one status to another
+ */
+export const canTransition = (from: EmployeeStatus, to: EmployeeStatus): boolean =>
+  STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Salary entry in effect on a date, or null before the first entry
+ */
+export const salaryOn = <T extends SalaryEntry>(history: T[], date: string): T | null => {
+  let current: T | null = null;
+
+  for (const entry of history) {
+    if (entry.effective_from > date) continue;
+    if (!current || entry.effective_from > current.effective_from) {
+      current = entry;
+    }
+  }
+
+  return current;
+};
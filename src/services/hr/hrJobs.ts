@@ -0,0 +1,28 @@
+import { isTest } from '../../../config/environment';
+import { scheduleJob, scheduledDate } from '../schedulerService';
+import { employeeDocumentService } from './employeeDocumentService';
+import { logger } from '../../utils/logger';
+
+/**
+ * Register the HR module's scheduled jobs
+ */
+export const initializeHrJobs = async (): Promise<void> => {
+  try {
+    if (isTest()) return;
+
+    // Before the working day so HR sees the reminders first thing
+    scheduleJob('hr:document-expiry-reminders', '0 0 7 * * *', async () => {
+      const result = await employeeDocumentService.runScheduledExpiryReminders(scheduledDate());
+      if (result.failed > 0) {
+        logger.warn('Some document expiry reminders failed and will be retried', { ...result });
+      }
+    });
+
+    logger.info('HR jobs initialized successfully');
+  } catch (error) {
+    logger.error('Failed to initialize HR jobs', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+};
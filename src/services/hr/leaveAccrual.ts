@@ -0,0 +1,111 @@
+import { daysBetween, endOfMonth } from '../../utils/dateUtils';
+
+/**
+ * Leave accrual and balances.
+ *
+ * Leave years are calendar years. A monthly policy accrues a twelfth of the
+ * annual entitlement at the start of each month (from the hire date in the
+ * month someone starts); an annual policy grants the whole entitlement on
+ * 1 January (or the hire date). New hires are pro-rated by the days they
+ * are employed in their first month or year unless the policy says not to.
+ * At each year end the closing balance carries over, capped by the policy;
+ * negative balances always carry in full.
+ */
+
+export type AccrualFrequency = 'monthly' | 'annual';
+
+export interface AccrualRules {
+  annual_days: number;
+  accrual_frequency: AccrualFrequency;
+  // Null carries everything over
+  carry_over_cap: number | null;
+  prorate_new_hires: boolean;
+}
+
+export interface Employment {
+  hire_date: string;
+  termination_date?: string | null;
+}
+
+export interface LeaveYearBalance {
+  year: number;
+  opening: number;
+  accrued: number;
+  adjustments: number;
+  taken: number;
+  closing: number;
+}
+
+const roundDays = (days: number): number => Math.round(days * 100) / 100;
+
+const yearOf = (date: string): number => parseInt(date.slice(0, 4));
+
+/**
+ * Days accrued in a leave year up to and including a date
+ */
+export const accruedInYear = (rules: AccrualRules, employment: Employment, year: number, asOf: string): number => {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const until = [asOf, yearEnd, employment.termination_date || yearEnd].sort()[0];
+
+  if (employment.hire_date > until || until < yearStart) return 0;
+
+  if (rules.accrual_frequency === 'annual') {
+    const grantDate = employment.hire_date > yearStart ? employment.hire_date : yearStart;
+    const fraction = rules.prorate_new_hires && grantDate > yearStart
+      ? (daysBetween(grantDate, yearEnd) + 1) / (daysBetween(yearStart, yearEnd) + 1)
+      : 1;
+    return roundDays(rules.annual_days * fraction);
+  }
+
+  let accrued = 0;
+  for (let month = 1; month <= 12; month++) {
+    const monthStart = `${year}-${String(month).padStart(2, '0')}-01`;
+    const monthEnd = endOfMonth(monthStart);
+    if (monthEnd < employment.hire_date) continue;
+
+    const accrualDate = employment.hire_date > monthStart ? employment.hire_date : monthStart;
+    if (accrualDate > until) break;
+
+    const fraction = rules.prorate_new_hires && accrualDate > monthStart
+      ? (daysBetween(accrualDate, monthEnd) + 1) / (daysBetween(monthStart, monthEnd) + 1)
+      : 1;
+    accrued += (rules.annual_days / 12) * fraction;
+  }
+
+  return roundDays(accrued);
+};
+
+/**
+ * Balance for a leave year as at a date, carrying each earlier year's
+ * closing balance forward from the hire year
+ */
+export const leaveBalance = (
+  rules: AccrualRules,
+  employment: Employment,
+  asOf: string,
+  takenByYear: Record<number, number> = {},
+  adjustmentsByYear: Record<number, number> = {}
+): LeaveYearBalance => {
+  const targetYear = yearOf(asOf);
+  let balance: LeaveYearBalance | null = null;
+
+  for (let year = Math.min(yearOf(employment.hire_date), targetYear); year <= targetYear; year++) {
+    const carried: number = balance ? balance.closing : 0;
+    const opening = rules.carry_over_cap === null ? carried : Math.min(carried, rules.carry_over_cap);
+    const accrued = accruedInYear(rules, employment, year, year === targetYear ? asOf : `${year}-12-31`);
+    const adjustments = adjustmentsByYear[year] || 0;
+    const taken = takenByYear[year] || 0;
+
+    balance = {
+      year,
+      opening: roundDays(opening),
+      accrued,
+      adjustments: roundDays(adjustments),
+      taken: roundDays(taken),
+      closing: roundDays(opening + accrued + adjustments - taken)
+    };
+  }
+
+  return balance!;
+};
@@ -0,0 +1,659 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { approvalService, ApprovalRequest, ApprovalDecision } from '../approvalService';
+import { calendarService } from '../calendar/calendarService';
+import { logger } from '../../utils/logger';
+import { toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import {
+  AccrualFrequency,
+  AccrualRules,
+  leaveBalance
+} from './leaveAccrual';
+import {
+  LeaveType,
+  LeaveStatus,
+  EmploymentType,
+  EmployeeStatus
+} from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  AuthorizationError
+} from '../../middleware/errorHandler';
+
+export const LEAVE_RESOURCE_TYPE = 'leave';
+
+// Leave types that can be taken without a policy or balance
+const UNMETERED_TYPES = [LeaveType.UNPAID];
+
+export interface CreateLeavePolicyData {
+  leave_type: LeaveType;
+  employment_type?: EmploymentType | null;
+  annual_days: number;
+  accrual_frequency?: AccrualFrequency;
+  carry_over_cap?: number | null;
+  prorate_new_hires?: boolean;
+}
+
+export interface UpdateLeavePolicyData extends Partial<Omit<CreateLeavePolicyData, 'leave_type' | 'employment_type'>> {
+  is_active?: boolean;
+}
+
+export interface LeavePolicy extends AccrualRules {
+  id: string;
+  company_id: string;
+  leave_type: LeaveType;
+  employment_type: EmploymentType | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LeaveBalance {
+  leave_type: LeaveType;
+  policy_id: string;
+  year: number;
+  opening: number;
+  accrued: number;
+  adjustments: number;
+  taken: number;
+  pending: number;
+  available: number;
+}
+
+export interface LeaveAdjustmentData {
+  leave_type: LeaveType;
+  year?: number;
+  days: number;
+  reason: string;
+}
+
+export interface LeaveRequestData {
+  type: LeaveType;
+  start_date: Date | string;
+  end_date: Date | string;
+  reason?: string;
+}
+
+export interface LeaveRecord {
+  id: string;
+  company_id: string;
+  employee_id: string;
+  employee_number: string;
+  employee_name: string;
+  type: LeaveType;
+  start_date: string;
+  end_date: string;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  requested_by: string;
+  approved_by: string | null;
+  approved_at: Date | null;
+  decision_comments: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LeaveFilters {
+  employee_id?: string;
+  type?: LeaveType;
+  status?: LeaveStatus;
+  start_date?: string;
+  end_date?: string;
+  page?: number;
+  limit?: number;
+}
+
+export class LeaveService {
+  /**
+   * Get leave policies
+   */
+  async getPolicies(companyId: string): Promise<LeavePolicy[]> {
+    try {
+      const db = getDatabase();
+      const rows = await db('leave_policies')
+        .where('company_id', companyId)
+        .orderBy('leave_type')
+        .orderBy('employment_type');
+
+      return rows.map((row: any) => this.mapPolicy(row));
+    } catch (error) {
+      logger.error('Error fetching leave policies', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create leave policy for a leave type, optionally for one employment type
+   */
+  async createPolicy(companyId: string, data: CreateLeavePolicyData, createdBy: string): Promise<LeavePolicy> {
+    try {
+      const db = getDatabase();
+      const policyId = uuidv4();
+
+      await db.transaction(async (trx) => {
+        const existing = await this.activePolicyQuery(trx, companyId, data.leave_type, data.employment_type ?? null).first();
+        if (existing) {
+          throw new ConflictError(
+            `An active ${data.leave_type} leave policy already exists for ${data.employment_type || 'all employment types'}`
+          );
+        }
+
+        await trx('leave_policies').insert({
+          id: policyId,
+          company_id: companyId,
+          leave_type: data.leave_type,
+          employment_type: data.employment_type ?? null,
+          annual_days: data.annual_days,
+          accrual_frequency: data.accrual_frequency || 'monthly',
+          carry_over_cap: data.carry_over_cap ?? null,
+          prorate_new_hires: data.prorate_new_hires ?? true,
+          created_by: createdBy,
+          updated_by: createdBy
+        });
+      });
+
+      logger.info('Leave policy created', { policyId, companyId, leaveType: data.leave_type, createdBy });
+
+      const row = await db('leave_policies').where('id', policyId).first();
+      return this.mapPolicy(row);
+    } catch (error) {
+      logger.error('Error creating leave policy', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update leave policy (balances are recalculated from the current policy)
+   */
+  async updatePolicy(
+    companyId: string,
+    policyId: string,
+    data: UpdateLeavePolicyData,
+    updatedBy: string
+  ): Promise<LeavePolicy> {
+    try {
+      const db = getDatabase();
+      const existing = await db('leave_policies')
+        .where('id', policyId)
+        .where('company_id', companyId)
+        .first();
+      if (!existing) {
+        throw new NotFoundError('Leave policy not found');
+      }
+
+      if (data.is_active && !existing.is_active) {
+        const clash = await this.activePolicyQuery(db, companyId, existing.leave_type, existing.employment_type).first();
+        if (clash) {
+          throw new ConflictError(`Another active ${existing.leave_type} leave policy covers the same employees`);
+        }
+      }
+
+      await db('leave_policies')
+        .where('id', policyId)
+        .update({
+          ...data,
+          updated_by: updatedBy,
+          updated_at: new Date()
+        });
+
+      logger.info('Leave policy updated', { policyId, companyId, updatedBy });
+
+      const row = await db('leave_policies').where('id', policyId).first();
+      return this.mapPolicy(row);
+    } catch (error) {
+      logger.error('Error updating leave policy', { error, companyId, policyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Leave balances for every leave type with a policy, as at a date
+   */
+  async getBalances(companyId: string, employeeId: string, asOf?: string): Promise<LeaveBalance[]> {
+    try {
+      const db = getDatabase();
+      const employee = await this.getEmployee(db, companyId, employeeId);
+      const date = asOf || toDateOnly(new Date());
+      const balances: LeaveBalance[] = [];
+
+      for (const leaveType of Object.values(LeaveType)) {
+        const balance = await this.balanceFor(db, companyId, employee, leaveType, date);
+        if (balance) balances.push(balance);
+      }
+
+      return balances;
+    } catch (error) {
+      logger.error('Error fetching leave balances', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Adjust a leave balance, e.g. opening balances or days sold back
+   */
+  async addAdjustment(
+    companyId: string,
+    employeeId: string,
+    data: LeaveAdjustmentData,
+    createdBy: string
+  ): Promise<LeaveBalance[]> {
+    try {
+      const db = getDatabase();
+      await this.getEmployee(db, companyId, employeeId);
+
+      await db('leave_adjustments').insert({
+        id: uuidv4(),
+        employee_id: employeeId,
+        leave_type: data.leave_type,
+        year: data.year || new Date().getFullYear(),
+        days: data.days,
+        reason: data.reason,
+        created_by: createdBy
+      });
+
+      logger.info('Leave balance adjusted', { employeeId, companyId, leaveType: data.leave_type, days: data.days, createdBy });
+
+      return this.getBalances(companyId, employeeId);
+    } catch (error) {
+      logger.error('Error adjusting leave balance', { error, companyId, employeeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Get leave requests with filters and pagination
+   */
+  async getLeaves(companyId: string, filters: LeaveFilters = {}): Promise<{
+    leaves: LeaveRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = this.leaveQuery(db)
+        .where('leaves.company_id', companyId);
+
+      if (filters.employee_id) {
+        query = query.where('leaves.employee_id', filters.employee_id);
+      }
+
+      if (filters.type) {
+        query = query.where('leaves.type', filters.type);
+      }
+
+      if (filters.status) {
+        query = query.where('leaves.status', filters.status);
+      }
+
+      if (filters.start_date) {
+        query = query.where('leaves.end_date', '>=', filters.start_date);
+      }
+
+      if (filters.end_date) {
+        query = query.where('leaves.start_date', '<=', filters.end_date);
+      }
+
+      const [{ count }] = await query.clone().clearSelect().count('* as count');
+      const rows = await query
+        .orderBy('leaves.start_date', 'desc')
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        leaves: rows.map((row: any) => this.mapLeave(row)),
+        total: parseInt(count as string),
+        page,
+        limit,
+        totalPages: Math.ceil(parseInt(count as string) / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching leave requests', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get leave request by ID
+   */
+  async getLeaveById(companyId: string, leaveId: string, trx?: Knex.Transaction): Promise<LeaveRecord | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await this.leaveQuery(db)
+        .where('leaves.id', leaveId)
+        .where('leaves.company_id', companyId)
+        .first();
+
+      return row ? this.mapLeave(row) : null;
+    } catch (error) {
+      logger.error('Error fetching leave request by ID', { error, companyId, leaveId });
+      throw error;
+    }
+  }
+
+  /**
+   * Request leave; it must fit the available balance (less other pending
+   * requests) and goes to the employee's manager, or HR without one
+   */
+  async requestLeave(
+    companyId: string,
+    employeeId: string,
+    data: LeaveRequestData,
+    requestedBy: string
+  ): Promise<LeaveRecord> {
+    try {
+      const db = getDatabase();
+      const startDate = toDateOnly(data.start_date);
+      const endDate = toDateOnly(data.end_date);
+
+      if (endDate < startDate) {
+        throw new ValidationError('Leave cannot end before it starts');
+      }
+
+      if (startDate.slice(0, 4) !== endDate.slice(0, 4)) {
+        throw new ValidationError('Leave cannot span the year end; request each year separately');
+      }
+
+      const days = await calendarService.countWorkingDays(companyId, startDate, endDate, { employee_id: employeeId });
+      if (days === 0) {
+        throw new ValidationError('Leave must include at least one working day');
+      }
+
+      const leaveId = uuidv4();
+      let approval: ApprovalRequest | null = null;
+
+      await db.transaction(async (trx) => {
+        const employee = await this.getEmployee(trx, companyId, employeeId);
+        if (employee.status === EmployeeStatus.TERMINATED || employee.status === EmployeeStatus.INACTIVE) {
+          throw new ValidationError(`Employee is ${employee.status} and cannot request leave`);
+        }
+
+        // Serialise requests per employee so two cannot spend the same balance
+        await trx('employees').where('id', employeeId).forUpdate().first();
+
+        const overlap = await trx('leaves')
+          .where('employee_id', employeeId)
+          .whereIn('status', [LeaveStatus.PENDING, LeaveStatus.APPROVED])
+          .where('start_date', '<=', endDate)
+          .where('end_date', '>=', startDate)
+          .first();
+        if (overlap) {
+          throw new ConflictError('Leave overlaps another pending or approved request');
+        }
+
+        if (!UNMETERED_TYPES.includes(data.type)) {
+          const balance = await this.balanceFor(trx, companyId, employee, data.type, startDate);
+          if (!balance) {
+            throw new ValidationError(`No ${data.type} leave policy applies to this employee`);
+          }
+          if (balance.available < days) {
+            throw new ValidationError(
+              `Insufficient ${data.type} leave balance: ${balance.available} days available, ${days} requested`
+            );
+          }
+        }
+
+        await trx('leaves').insert({
+          id: leaveId,
+          company_id: companyId,
+          employee_id: employeeId,
+          type: data.type,
+          start_date: startDate,
+          end_date: endDate,
+          days,
+          reason: data.reason,
+          status: LeaveStatus.PENDING,
+          requested_by: requestedBy
+        });
+
+        const manager = employee.manager_id
+          ? await trx('employees')
+            .where('id', employee.manager_id)
+            .whereNull('deleted_at')
+            .whereNot('status', EmployeeStatus.TERMINATED)
+            .first()
+          : null;
+        const approverId = manager && manager.user_id !== employee.user_id ? manager.user_id : null;
+
+        approval = await approvalService.createRequest(trx, {
+          company_id: companyId,
+          resource_type: LEAVE_RESOURCE_TYPE,
+          resource_id: leaveId,
+          title: `${employee.first_name} ${employee.last_name}: ${data.type} leave ${startDate} to ${endDate}`,
+          details: { employee_id: employeeId, type: data.type, start_date: startDate, end_date: endDate, days },
+          requested_by: employee.user_id,
+          approver_id: approverId,
+          approver_department: approverId ? null : 'HR'
+        });
+      });
+
+      if (approval) {
+        await approvalService.notifyApprover(approval);
+      }
+
+      logger.info('Leave requested', { leaveId, employeeId, companyId, type: data.type, days, requestedBy });
+
+      return (await this.getLeaveById(companyId, leaveId))!;
+    } catch (error) {
+      logger.error('Error requesting leave', { error, companyId, employeeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a pending request, or approved leave that has not started
+   */
+  async cancelLeave(companyId: string, leaveId: string, userId: string, isHr: boolean): Promise<LeaveRecord> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const leave = await trx('leaves')
+          .join('employees', 'leaves.employee_id', 'employees.id')
+          .where('leaves.id', leaveId)
+          .where('leaves.company_id', companyId)
+          .select('leaves.*', 'employees.user_id')
+          .forUpdate()
+          .first();
+        if (!leave) {
+          throw new NotFoundError('Leave request not found');
+        }
+
+        if (leave.user_id !== userId && !isHr) {
+          throw new AuthorizationError('You can only cancel your own leave');
+        }
+
+        const started = toDateOnly(leave.start_date) <= toDateOnly(new Date());
+        if (leave.status !== LeaveStatus.PENDING && !(leave.status === LeaveStatus.APPROVED && !started)) {
+          throw new ValidationError('Only pending requests or approved leave that has not started can be cancelled');
+        }
+
+        await trx('leaves')
+          .where('id', leaveId)
+          .update({ status: LeaveStatus.CANCELLED, updated_at: new Date() });
+
+        await approvalService.cancelForResource(trx, LEAVE_RESOURCE_TYPE, leaveId);
+      });
+
+      logger.info('Leave cancelled', { leaveId, companyId, userId });
+
+      return (await this.getLeaveById(companyId, leaveId))!;
+    } catch (error) {
+      logger.error('Error cancelling leave', { error, companyId, leaveId });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply an approver's decision to a pending leave request
+   */
+  async applyDecision(
+    trx: Knex.Transaction,
+    request: ApprovalRequest,
+    decision: ApprovalDecision,
+    decidedBy: string,
+    comments?: string
+  ): Promise<void> {
+    const leave = await trx('leaves')
+      .where('id', request.resource_id)
+      .where('company_id', request.company_id)
+      .forUpdate()
+      .first();
+    if (!leave || leave.status !== LeaveStatus.PENDING) {
+      throw new ValidationError('Leave request is no longer pending');
+    }
+
+    await trx('leaves')
+      .where('id', leave.id)
+      .update({
+        status: decision === 'approved' ? LeaveStatus.APPROVED : LeaveStatus.REJECTED,
+        approved_by: decision === 'approved' ? decidedBy : null,
+        approved_at: decision === 'approved' ? new Date() : null,
+        decision_comments: comments ?? null,
+        updated_at: new Date()
+      });
+
+    logger.info('Leave request decided', { leaveId: leave.id, decision, decidedBy });
+  }
+
+  /**
+   * Balance of one leave type as at a date, or null without a policy
+   */
+  private async balanceFor(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    employee: any,
+    leaveType: LeaveType,
+    asOf: string
+  ): Promise<LeaveBalance | null> {
+    const policyRow = await this.activePolicyQuery(db, companyId, leaveType, employee.employment_type)
+      .first() || await this.activePolicyQuery(db, companyId, leaveType, null).first();
+    if (!policyRow) return null;
+
+    const policy = this.mapPolicy(policyRow);
+
+    const leaves = await db('leaves')
+      .where('employee_id', employee.id)
+      .where('type', leaveType)
+      .whereIn('status', [LeaveStatus.PENDING, LeaveStatus.APPROVED]);
+    const adjustments = await db('leave_adjustments')
+      .where('employee_id', employee.id)
+      .where('leave_type', leaveType);
+
+    const year = parseInt(asOf.slice(0, 4));
+    const takenByYear: Record<number, number> = {};
+    const adjustmentsByYear: Record<number, number> = {};
+    let pending = 0;
+
+    for (const leave of leaves) {
+      const leaveYear = parseInt(toDateOnly(leave.start_date).slice(0, 4));
+      if (leave.status === LeaveStatus.PENDING) {
+        if (leaveYear === year) pending += toAmount(leave.days);
+        continue;
+      }
+      takenByYear[leaveYear] = (takenByYear[leaveYear] || 0) + toAmount(leave.days);
+    }
+
+    for (const adjustment of adjustments) {
+      adjustmentsByYear[adjustment.year] = (adjustmentsByYear[adjustment.year] || 0) + toAmount(adjustment.days);
+    }
+
+    const balance = leaveBalance(policy, {
+      hire_date: toDateOnly(employee.hire_date),
+      termination_date: employee.termination_date ? toDateOnly(employee.termination_date) : null
+    }, asOf, takenByYear, adjustmentsByYear);
+
+    return {
+      leave_type: leaveType,
+      policy_id: policy.id,
+      ...balance,
+      pending: Math.round(pending * 100) / 100,
+      available: Math.round((balance.closing - pending) * 100) / 100
+    };
+  }
+
+  /**
+   * Active policy for a leave type and employment type (null for the catch-all)
+   */
+  private activePolicyQuery(
+    db: Knex | Knex.Transaction,
+    companyId: string,
+    leaveType: LeaveType,
+    employmentType: EmploymentType | null
+  ): Knex.QueryBuilder {
+    const query = db('leave_policies')
+      .where('company_id', companyId)
+      .where('leave_type', leaveType)
+      .where('is_active', true);
+
+    return employmentType ? query.where('employment_type', employmentType) : query.whereNull('employment_type');
+  }
+
+  /**
+   * Employee with their user's name
+   */
+  private async getEmployee(db: Knex | Knex.Transaction, companyId: string, employeeId: string): Promise<any> {
+    const employee = await db('employees')
+      .join('users', 'employees.user_id', 'users.id')
+      .where('employees.id', employeeId)
+      .where('employees.company_id', companyId)
+      .whereNull('employees.deleted_at')
+      .select('employees.*', 'users.first_name', 'users.last_name')
+      .first();
+
+    if (!employee) {
+      throw new NotFoundError('Employee not found');
+    }
+
+    return employee;
+  }
+
+  /**
+   * Base query joining the employee's name
+   */
+  private leaveQuery(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    return db('leaves')
+      .join('employees', 'leaves.employee_id', 'employees.id')
+      .join('users', 'employees.user_id', 'users.id')
+      .select(
+        'leaves.*',
+        'employees.employee_number',
+        db.raw("concat_ws(' ', users.first_name, users.last_name) as employee_name")
+      );
+  }
+
+  /**
+   * Map a policy row
+   */
+  private mapPolicy(row: any): LeavePolicy {
+    return {
+      ...row,
+      annual_days: toAmount(row.annual_days),
+      carry_over_cap: row.carry_over_cap === null ? null : toAmount(row.carry_over_cap)
+    };
+  }
+
+  /**
+   * Map a leave row
+   */
+  private mapLeave(row: any): LeaveRecord {
+    return {
+      ...row,
+      start_date: toDateOnly(row.start_date),
+      end_date: toDateOnly(row.end_date),
+      days: toAmount(row.days)
+    };
+  }
+}
+
+export const leaveService = new LeaveService();
@@ -0,0 +1,242 @@
+import { PdfTableDocument } from '../../utils/pdfUtils';
+
+/**
+ * Reporting-line trees: employees under their managers and departments
+ * under their parent departments. Both are stored as a parent id on each
+ * row, so a chart is built by grouping children under parents; entries
+ * whose parent is missing (a terminated manager, a deleted department)
+ * become roots. Cycles are rejected when a parent is set, but rows edited
+ * outside the application can still contain one, so builders report them
+ * and cut each cycle at one member rather than looping.
+ */
+
+export interface OrgChartEntry {
+  id: string;
+  parent_id: string | null;
+  // Sort key among siblings and label of the box
+  name: string;
+  // Second line of the box
+  detail: string | null;
+}
+
+export type OrgChartNode<T extends OrgChartEntry> = T & {
+  children: Array<OrgChartNode<T>>;
+};
+
+export interface OrgChartForest<T extends OrgChartEntry> {
+  roots: Array<OrgChartNode<T>>;
+  // Ids in each cycle found, in reporting order
+  cycles: string[][];
+}
+
+const BOX_WIDTH = 170;
+const BOX_HEIGHT = 44;
+const H_GAP = 16;
+const V_GAP = 36;
+const MARGIN = 20;
+
+/**
+ * The cycle reached by following parents from an entry, if any
+ */
+export const findCycle = (parents: Map<string, string | null>, start: string): string[] | null => {
+  const path: string[] = [];
+  const seen = new Map<string, number>();
+  let current: string | null | undefined = start;
+
+  while (current && parents.has(current)) {
+    if (seen.has(current)) {
+      return path.slice(seen.get(current));
+    }
+    seen.set(current, path.length);
+    path.push(current);
+    current = parents.get(current);
+  }
+
+  return null;
+};
+
+/**
+ * The chain that would close into a cycle if the entry's parent were set,
+ * from the proposed parent up to the entry itself; null when it is safe
+ */
+export const wouldCreateCycle = (
+  parents: Map<string, string | null>,
+  id: string,
+  parentId: string
+): string[] | null => {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  let current: string | null | undefined = parentId;
+
+  while (current && !seen.has(current)) {
+    chain.push(current);
+    if (current === id) return chain;
+    seen.add(current);
+    current = parents.get(current);
+  }
+
+  return null;
+};
+
+/**
+ * Every distinct cycle among the entries
+ */
+export const detectCycles = (parents: Map<string, string | null>): string[][] => {
+  const cycles: string[][] = [];
+  const inCycle = new Set<string>();
+
+  for (const id of parents.keys()) {
+    if (inCycle.has(id)) continue;
+    const cycle = findCycle(parents, id);
+    if (cycle && !cycle.some(member => inCycle.has(member))) {
+      cycle.forEach(member => inCycle.add(member));
+      cycles.push(cycle);
+    }
+  }
+
+  return cycles;
+};
+
+/**
+ * Group entries under their parents, siblings sorted by name
+ */
+export const buildForest = <T extends OrgChartEntry>(entries: T[]): OrgChartForest<T> => {
+  const parents = new Map(entries.map(entry => [entry.id, entry.parent_id]));
+  const cycles = detectCycles(parents);
+  const cut = new Set(cycles.map(cycle => [...cycle].sort()[0]));
+
+  const nodes = new Map<string, OrgChartNode<T>>(entries.map(entry => [entry.id, { ...entry, children: [] }]));
+  const roots: Array<OrgChartNode<T>> = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parent_id && !cut.has(node.id) ? nodes.get(node.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sort = (list: Array<OrgChartNode<T>>) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => sort(node.children));
+  };
+  sort(roots);
+
+  return { roots, cycles };
+};
+
+/**
+ * The subtree under an entry
+ */
+export const findNode = <T extends OrgChartEntry>(roots: Array<OrgChartNode<T>>, id: string): OrgChartNode<T> | null => {
+  for (const node of roots) {
+    if (node.id === id) return node;
+    const found = findNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const fit = (text: string, length: number): string => {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+};
+
+/**
+ * SVG drawing of a forest: boxes placed level by level with each parent
+ * centred over its children, joined by elbow connectors
+ */
+export const renderOrgChartSvg = <T extends OrgChartEntry>(roots: Array<OrgChartNode<T>>, title: string): string => {
+  const boxes: string[] = [];
+  const lines: string[] = [];
+  let slot = 0;
+  let depth = 0;
+
+  const place = (node: OrgChartNode<T>, level: number): number => {
+    depth = Math.max(depth, level);
+    const y = MARGIN + 30 + level * (BOX_HEIGHT + V_GAP);
+
+    let x: number;
+    if (node.children.length === 0) {
+      x = MARGIN + slot++ * (BOX_WIDTH + H_GAP);
+    } else {
+      const childXs = node.children.map(child => place(child, level + 1));
+      x = (childXs[0] + childXs[childXs.length - 1]) / 2;
+
+      const midY = y + BOX_HEIGHT + V_GAP / 2;
+      for (const childX of childXs) {
+        lines.push(
+          `<path d="M${x + BOX_WIDTH / 2} ${y + BOX_HEIGHT} V${midY} H${childX + BOX_WIDTH / 2} V${midY + V_GAP / 2}"/>`
+        );
+      }
+    }
+
+    boxes.push(
+      `<g transform="translate(${x} ${y})">` +
+      `<rect width="${BOX_WIDTH}" height="${BOX_HEIGHT}" rx="4"/>` +
+      `<text x="${BOX_WIDTH / 2}" y="18" class="name">${escapeXml(fit(node.name, 26))}</text>` +
+      (node.detail ? `<text x="${BOX_WIDTH / 2}" y="34">${escapeXml(fit(node.detail, 30))}</text>` : '') +
+      '</g>'
+    );
+
+    return x;
+  };
+
+  roots.forEach(root => place(root, 0));
+
+  const width = Math.max(1, slot) * (BOX_WIDTH + H_GAP) - H_GAP + MARGIN * 2;
+  const height = MARGIN * 2 + 30 + (depth + 1) * (BOX_HEIGHT + V_GAP) - V_GAP;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '<style>',
+    'text{font-family:Helvetica,Arial,sans-serif;font-size:11px;text-anchor:middle;fill:#222}',
+    'text.name{font-weight:bold}',
+    'text.title{font-size:14px;font-weight:bold;text-anchor:start}',
+    'rect{fill:#f4f6f8;stroke:#5b6b7b}',
+    'path{fill:none;stroke:#5b6b7b}',
+    '</style>',
+    `<text x="${MARGIN}" y="${MARGIN + 10}" class="title">${escapeXml(title)}</text>`,
+    ...lines,
+    ...boxes,
+    '</svg>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Printable outline of a forest, indented by level
+ */
+export const buildOrgChartDocument = <T extends OrgChartEntry>(
+  roots: Array<OrgChartNode<T>>,
+  title: string,
+  subtitle: string[],
+  detailLabel: string
+): PdfTableDocument => {
+  const rows: PdfTableDocument['rows'] = [];
+
+  const walk = (node: OrgChartNode<T>, level: number) => {
+    rows.push({
+      cells: [node.name, node.detail || '', node.children.length > 0 ? String(node.children.length) : ''],
+      bold: level === 0,
+      indent: level
+    });
+    node.children.forEach(child => walk(child, level + 1));
+  };
+  roots.forEach(root => walk(root, 0));
+
+  return {
+    title,
+    subtitle,
+    columns: [
+      { label: 'Name', width: 4 },
+      { label: detailLabel, width: 3 },
+      { label: 'Direct reports', width: 1.2, align: 'right' }
+    ],
+    rows
+  };
+};
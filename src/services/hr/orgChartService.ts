@@ -0,0 +1,288 @@
+import { getDatabase } from '../../database/connection';
+import { companyService } from '../../core/company/companyService';
+import { logger } from '../../utils/logger';
+import { toDateOnly } from '../../utils/dateUtils';
+import { renderTablePdf } from '../../utils/pdfUtils';
+import { EmployeeStatus } from '../../types';
+import {
+  OrgChartEntry,
+  OrgChartNode,
+  buildForest,
+  buildOrgChartDocument,
+  findCycle,
+  findNode,
+  renderOrgChartSvg
+} from './orgChart';
+import { ValidationError, NotFoundError } from '../../middleware/errorHandler';
+
+export type OrgChartView = 'employees' | 'departments';
+export type OrgChartFormat = 'svg' | 'pdf';
+
+export interface EmployeeChartEntry extends OrgChartEntry {
+  user_id: string;
+  employee_number: string;
+  // Position
+  detail: string;
+  department: string;
+}
+
+export interface DepartmentChartEntry extends OrgChartEntry {
+  // Manager's name
+  detail: string | null;
+  manager_id: string | null;
+}
+
+export interface OrgChartOptions {
+  view?: OrgChartView;
+  // Only the subtree under this employee or department
+  root_id?: string;
+}
+
+export interface OrgChart {
+  view: OrgChartView;
+  roots: Array<OrgChartNode<EmployeeChartEntry>> | Array<OrgChartNode<DepartmentChartEntry>>;
+  count: number;
+  // Reporting lines that loop back on themselves; each is cut to draw the chart
+  cycles: string[][];
+}
+
+export interface ManagementChainEntry {
+  employee_id: string;
+  user_id: string;
+  employee_number: string;
+  name: string;
+  position: string;
+  department: string;
+  email: string;
+  // 0 for the employee, 1 for their manager and so on
+  level: number;
+}
+
+export interface ManagementChain {
+  employee: ManagementChainEntry;
+  // Direct manager first, up to the top of the organisation
+  managers: ManagementChainEntry[];
+  // Set when the chain loops back on itself; it stops before repeating
+  cycle: string[] | null;
+}
+
+export interface RenderedOrgChart {
+  content: Buffer;
+  content_type: string;
+  filename: string;
+}
+
+export class OrgChartService {
+  /**
+   * Reporting tree of current employees, or the department hierarchy
+   */
+  async getOrgChart(companyId: string, options: OrgChartOptions = {}): Promise<OrgChart> {
+    try {
+      const view = options.view || 'employees';
+      const entries = view === 'employees'
+        ? await this.getEmployeeEntries(companyId)
+        : await this.getDepartmentEntries(companyId);
+
+      const forest = buildForest<OrgChartEntry>(entries);
+      if (forest.cycles.length > 0) {
+        logger.warn('Org chart contains reporting cycles', { companyId, view, cycles: forest.cycles });
+      }
+
+      let roots = forest.roots;
+      if (options.root_id) {
+        const root = findNode(forest.roots, options.root_id);
+        if (!root) {
+          throw new NotFoundError(view === 'employees' ? 'Employee not found' : 'Department not found');
+        }
+        roots = [root];
+      }
+
+      const count = (nodes: Array<OrgChartNode<OrgChartEntry>>): number => {
+        return nodes.reduce((sum, node) => sum + 1 + count(node.children), 0);
+      };
+
+      return {
+        view,
+        roots: roots as OrgChart['roots'],
+        count: count(roots),
+        cycles: forest.cycles
+      };
+    } catch (error) {
+      logger.error('Error building org chart', { error, companyId, options });
+      throw error;
+    }
+  }
+
+  /**
+   * Org chart drawn as SVG or outlined in a PDF
+   */
+  async exportOrgChart(
+    companyId: string,
+    format: OrgChartFormat,
+    options: OrgChartOptions = {}
+  ): Promise<RenderedOrgChart> {
+    try {
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const chart = await this.getOrgChart(companyId, options);
+      const roots = chart.roots as Array<OrgChartNode<OrgChartEntry>>;
+      if (roots.length === 0) {
+        throw new ValidationError(chart.view === 'employees' ? 'Company has no current employees' : 'Company has no departments');
+      }
+
+      const title = chart.view === 'employees'
+        ? `${company.name} - Organisation chart`
+        : `${company.name} - Departments`;
+      const filename = `org-chart-${chart.view}-${toDateOnly(new Date())}.${format}`;
+
+      if (format === 'svg') {
+        return {
+          content: Buffer.from(renderOrgChartSvg(roots, title), 'utf8'),
+          content_type: 'image/svg+xml',
+          filename
+        };
+      }
+
+      const content = await renderTablePdf(buildOrgChartDocument(
+        roots,
+        title,
+        [
+          `As at ${toDateOnly(new Date())}`,
+          chart.view === 'employees' ? `${chart.count} employees` : `${chart.count} departments`
+        ],
+        chart.view === 'employees' ? 'Position' : 'Manager'
+      ));
+
+      return { content, content_type: 'application/pdf', filename };
+    } catch (error) {
+      logger.error('Error exporting org chart', { error, companyId, format, options });
+      throw error;
+    }
+  }
+
+  /**
+   * A user's managers from their direct manager to the top of the organisation
+   */
+  async getManagementChain(companyId: string, userId: string): Promise<ManagementChain> {
+    try {
+      const rows = await getDatabase()('employees')
+        .join('users', 'employees.user_id', 'users.id')
+        .where('employees.company_id', companyId)
+        .whereNull('employees.deleted_at')
+        .select(
+          'employees.id',
+          'employees.user_id',
+          'employees.employee_number',
+          'employees.position',
+          'employees.department',
+          'employees.manager_id',
+          'users.first_name',
+          'users.last_name',
+          'users.email'
+        );
+
+      const employee = rows.find((row: any) => row.user_id === userId);
+      if (!employee) {
+        throw new NotFoundError('No employee record for this user');
+      }
+
+      const byId = new Map(rows.map((row: any) => [row.id, row]));
+      const parents = new Map<string, string | null>(rows.map((row: any) => [row.id, row.manager_id]));
+      const cycle = findCycle(parents, employee.id);
+
+      const entry = (row: any, level: number): ManagementChainEntry => ({
+        employee_id: row.id,
+        user_id: row.user_id,
+        employee_number: row.employee_number,
+        name: [row.first_name, row.last_name].filter(Boolean).join(' '),
+        position: row.position,
+        department: row.department,
+        email: row.email,
+        level
+      });
+
+      const managers: ManagementChainEntry[] = [];
+      const seen = new Set<string>([employee.id]);
+      let manager = employee.manager_id ? byId.get(employee.manager_id) : undefined;
+      while (manager && !seen.has(manager.id)) {
+        seen.add(manager.id);
+        managers.push(entry(manager, managers.length + 1));
+        manager = manager.manager_id ? byId.get(manager.manager_id) : undefined;
+      }
+
+      if (cycle) {
+        logger.warn('Management chain contains a cycle', { companyId, userId, cycle });
+      }
+
+      return { employee: entry(employee, 0), managers, cycle };
+    } catch (error) {
+      logger.error('Error fetching management chain', { error, companyId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Current employees under their managers
+   */
+  private async getEmployeeEntries(companyId: string): Promise<EmployeeChartEntry[]> {
+    const rows = await getDatabase()('employees')
+      .join('users', 'employees.user_id', 'users.id')
+      .where('employees.company_id', companyId)
+      .whereNull('employees.deleted_at')
+      .whereNot('employees.status', EmployeeStatus.TERMINATED)
+      .select(
+        'employees.id',
+        'employees.user_id',
+        'employees.employee_number',
+        'employees.position',
+        'employees.department',
+        'employees.manager_id',
+        'users.first_name',
+        'users.last_name'
+      );
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      parent_id: row.manager_id,
+      name: [row.first_name, row.last_name].filter(Boolean).join(' '),
+      detail: row.position,
+      user_id: row.user_id,
+      employee_number: row.employee_number,
+      department: row.department
+    }));
+  }
+
+  /**
+   * Active departments under their parent departments
+   */
+  private async getDepartmentEntries(companyId: string): Promise<DepartmentChartEntry[]> {
+    const rows = await getDatabase()('departments')
+      .leftJoin('users as managers', 'departments.manager_id', 'managers.id')
+      .where('departments.company_id', companyId)
+      .where('departments.deleted_at', null)
+      .where('departments.is_active', true)
+      .select(
+        'departments.id',
+        'departments.name',
+        'departments.parent_department_id',
+        'departments.manager_id',
+        'managers.first_name as manager_first_name',
+        'managers.last_name as manager_last_name'
+      );
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      parent_id: row.parent_department_id,
+      name: row.name,
+      detail: row.manager_id
+        ? [row.manager_first_name, row.manager_last_name].filter(Boolean).join(' ')
+        : null,
+      manager_id: row.manager_id
+    }));
+  }
+}
+
+export const orgChartService = new OrgChartService();
@@ -0,0 +1,180 @@
+import { endOfMonth } from '../../utils/dateUtils';
+import { roundMoney, sumMoney } from '../../utils/currencyUtils';
+
+/**
+ * South African payroll tax for one employee and pay period.
+ *
+ * PAYE follows the SARS annualisation method: regular taxable remuneration
+ * for the period (less allowable retirement fund contributions) is grossed
+ * up to a year, taxed on the table's brackets less the age rebates, and the
+ * annual tax spread back over the periods. Annual payments such as bonuses
+ * are taxed in full in the period they are paid, as the difference between
+ * tax on the annualised remuneration with and without them. UIF is charged
+ * on employee and employer alike on remuneration up to the ceiling; SDL is
+ * an employer levy once annual payroll exceeds the threshold.
+ */
+
+export interface TaxBracket {
+  // Income above which the rate applies
+  min: number;
+  // Marginal rate in percent
+  rate: number;
+}
+
+export interface PayeTable {
+  brackets: TaxBracket[];
+  primary_rebate: number;
+  // From age 65
+  secondary_rebate: number;
+  // From age 75
+  tertiary_rebate: number;
+  uif_rate: number;
+  uif_monthly_ceiling: number;
+  sdl_rate: number;
+  sdl_threshold: number;
+  retirement_cap_percent: number;
+  retirement_cap_annual: number;
+}
+
+export interface PayrollEarning {
+  code: string;
+  name: string;
+  amount: number;
+  taxable: boolean;
+  annual_payment: boolean;
+}
+
+export interface PayrollDeduction {
+  code: string;
+  name: string;
+  amount: number;
+  retirement_fund: boolean;
+}
+
+export interface PayslipInput {
+  earnings: PayrollEarning[];
+  deductions: PayrollDeduction[];
+  // Age at the end of the tax year; null gives the primary rebate only
+  age: number | null;
+  periods_per_year: number;
+  sdl_applicable: boolean;
+}
+
+export interface PayslipResult {
+  gross: number;
+  // Remuneration for UIF and SDL: all taxable earnings
+  remuneration: number;
+  retirement_deduction: number;
+  taxable_income: number;
+  paye: number;
+  uif_employee: number;
+  uif_employer: number;
+  sdl: number;
+  // Deduction items, excluding PAYE and UIF
+  deductions: number;
+  net: number;
+}
+
+/**
+ * Tax year a date falls in, named by the year it ends (March to February)
+ */
+export const taxYearOf = (date: string): number => {
+  const year = parseInt(date.slice(0, 4));
+  return parseInt(date.slice(5, 7)) >= 3 ? year + 1 : year;
+};
+
+/**
+ * First and last day of a tax year
+ */
+export const taxYearRange = (taxYear: number): { start: string; end: string } => ({
+  start: `${taxYear - 1}-03-01`,
+  end: endOfMonth(`${taxYear}-02-01`)
+});
+
+/**
+ * Age in whole years on a date
+ */
+export const ageOn = (dateOfBirth: string, date: string): number => {
+  const years = parseInt(date.slice(0, 4)) - parseInt(dateOfBirth.slice(0, 4));
+  return date.slice(5) < dateOfBirth.slice(5) ? years - 1 : years;
+};
+
+/**
+ * Tax on annual income after the rebates for the taxpayer's age
+ */
+export const annualTax = (table: PayeTable, income: number, age: number | null): number => {
+  const brackets = [...table.brackets].sort((a, b) => a.min - b.min);
+
+  let tax = 0;
+  brackets.forEach((bracket, index) => {
+    const upper = index + 1 < brackets.length ? brackets[index + 1].min : Infinity;
+    if (income > bracket.min) {
+      tax += (Math.min(income, upper) - bracket.min) * bracket.rate / 100;
+    }
+  });
+
+  let rebates = table.primary_rebate;
+  if (age !== null && age >= 65) rebates += table.secondary_rebate;
+  if (age !== null && age >= 75) rebates += table.tertiary_rebate;
+
+  return Math.max(0, tax - rebates);
+};
+
+/**
+ * Whether SDL is due on an expected annual payroll
+ */
+export const sdlApplies = (table: PayeTable, annualRemuneration: number): boolean => {
+  return annualRemuneration > table.sdl_threshold;
+};
+
+/**
+ * Share of a period's pay for the working days paid
+ */
+export const prorate = (amount: number, daysPaid: number, workingDays: number): number => {
+  if (workingDays <= 0 || daysPaid >= workingDays) return roundMoney(amount);
+  return roundMoney(amount * Math.max(0, daysPaid) / workingDays);
+};
+
+/**
+ * Gross, statutory deductions and net pay for one pay period
+ */
+export const calculatePayslip = (table: PayeTable, input: PayslipInput): PayslipResult => {
+  const periods = input.periods_per_year;
+  const taxable = input.earnings.filter(earning => earning.taxable);
+
+  const gross = sumMoney(input.earnings.map(earning => earning.amount));
+  const regular = sumMoney(taxable.filter(earning => !earning.annual_payment).map(earning => earning.amount));
+  const annualPayments = sumMoney(taxable.filter(earning => earning.annual_payment).map(earning => earning.amount));
+  const remuneration = roundMoney(regular + annualPayments);
+
+  // Retirement contributions are deductible up to a share of remuneration and an annual cap
+  const contributions = sumMoney(input.deductions.filter(deduction => deduction.retirement_fund).map(deduction => deduction.amount));
+  const cap = Math.min(regular * periods * table.retirement_cap_percent / 100, table.retirement_cap_annual) / periods;
+  const retirementDeduction = roundMoney(Math.max(0, Math.min(contributions, cap)));
+
+  const annualRegular = Math.max(0, regular - retirementDeduction) * periods;
+  const regularTax = annualTax(table, annualRegular, input.age) / periods;
+  const annualPaymentTax = annualPayments > 0
+    ? annualTax(table, annualRegular + annualPayments, input.age) - annualTax(table, annualRegular, input.age)
+    : 0;
+  const paye = roundMoney(regularTax + annualPaymentTax);
+
+  const uifBase = Math.min(remuneration, table.uif_monthly_ceiling * 12 / periods);
+  const uif = roundMoney(uifBase * table.uif_rate / 100);
+  const sdl = input.sdl_applicable ? roundMoney(remuneration * table.sdl_rate / 100) : 0;
+
+  const deductions = sumMoney(input.deductions.map(deduction => deduction.amount));
+
+  return {
+    gross,
+    remuneration,
+    retirement_deduction: retirementDeduction,
+    taxable_income: roundMoney(Math.max(0, remuneration - retirementDeduction)),
+    paye,
+    uif_employee: uif,
+    uif_employer: uif,
+    sdl,
+    deductions,
+    net: roundMoney(gross - paye - uif - deductions)
+  };
+};
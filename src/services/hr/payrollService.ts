@@ -0,0 +1,1501 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { sequenceService } from '../sequenceService';
+import { calendarService } from '../calendar/calendarService';
+import { ledgerService, JournalLineData } from '../financial/ledgerService';
+import { financialSettingsService, AccountSettingKey } from '../financial/financialSettingsService';
+import { companyService } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { logger } from '../../utils/logger';
+import { roundMoney, sumMoney, toAmount } from '../../utils/currencyUtils';
+import { endOfMonth, toDateOnly } from '../../utils/dateUtils';
+import { salaryOn } from './employeeStatus';
+import {
+  PayeTable,
+  PayrollEarning,
+  PayrollDeduction,
+  calculatePayslip,
+  prorate,
+  sdlApplies,
+  taxYearOf,
+  taxYearRange,
+  ageOn
+} from './payrollCalculator';
+import { EmployeeStatus, LeaveStatus, LeaveType } from '../../types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../../middleware/errorHandler';
+
+export const PAYROLL_RUN_SOURCE_TYPE = 'payroll_run';
+
+export type PayrollItemType = 'earning' | 'deduction';
+export type PayrollRunType = 'regular' | 'reversal';
+export type PayrollRunStatus = 'draft' | 'finalised';
+
+export interface CreateTaxTableData extends PayeTable {
+  tax_year: number;
+  effective_from?: Date | string;
+  notes?: string;
+}
+
+export interface TaxTable extends PayeTable {
+  id: string;
+  company_id: string;
+  tax_year: number;
+  version: number;
+  effective_from: string;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface CreatePayrollItemData {
+  code: string;
+  name: string;
+  type: PayrollItemType;
+  taxable?: boolean;
+  annual_payment?: boolean;
+  retirement_fund?: boolean;
+  account_id?: string | null;
+  // SARS source code for tax certificates; defaults by item type when unset
+  sars_code?: string | null;
+}
+
+export interface UpdatePayrollItemData extends Partial<Omit<CreatePayrollItemData, 'code' | 'type'>> {
+  is_active?: boolean;
+}
+
+export interface PayrollItem {
+  id: string;
+  company_id: string;
+  code: string;
+  name: string;
+  type: PayrollItemType;
+  taxable: boolean;
+  annual_payment: boolean;
+  retirement_fund: boolean;
+  account_id: string | null;
+  sars_code: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmployeePayrollItemData {
+  payroll_item_id: string;
+  amount: number;
+  effective_from: Date | string;
+  effective_to?: Date | string | null;
+}
+
+export interface UpdateEmployeePayrollItemData {
+  amount?: number;
+  effective_to?: Date | string | null;
+}
+
+export interface EmployeePayrollItem {
+  id: string;
+  employee_id: string;
+  payroll_item_id: string;
+  code: string;
+  name: string;
+  type: PayrollItemType;
+  amount: number;
+  effective_from: string;
+  effective_to: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PayrollInput {
+  employee_id: string;
+  payroll_item_id: string;
+  amount: number;
+}
+
+export interface CalculatePayrollData {
+  // YYYY-MM
+  period: string;
+  payment_date?: Date | string;
+  // Pay only these employees (a supplementary run)
+  employee_ids?: string[];
+  // Once-off earnings and deductions for this period
+  inputs?: PayrollInput[];
+}
+
+export interface ReversePayrollData {
+  reason: string;
+  // Reverse only these employees' lines
+  employee_ids?: string[];
+}
+
+export interface PayslipItem {
+  code: string;
+  name: string;
+  type: PayrollItemType;
+  amount: number;
+  account_id: string | null;
+}
+
+export interface PayrollException {
+  employee_id: string;
+  employee_number: string | null;
+  message: string;
+}
+
+export interface PayrollRunLine {
+  id: string;
+  run_id: string;
+  employee_id: string;
+  employee_number: string;
+  employee_name: string;
+  salary: number;
+  working_days: number;
+  days_paid: number;
+  unpaid_leave_days: number;
+  items: PayslipItem[];
+  gross: number;
+  taxable_income: number;
+  paye: number;
+  uif_employee: number;
+  uif_employer: number;
+  sdl: number;
+  deductions: number;
+  net: number;
+}
+
+export interface PayrollRun {
+  id: string;
+  company_id: string;
+  run_number: string;
+  period: string;
+  period_start: string;
+  period_end: string;
+  payment_date: string;
+  run_type: PayrollRunType;
+  corrects_run_id: string | null;
+  status: PayrollRunStatus;
+  tax_table_id: string | null;
+  inputs: PayrollInput[];
+  exceptions: PayrollException[];
+  employee_count: number;
+  gross: number;
+  paye: number;
+  uif_employee: number;
+  uif_employer: number;
+  sdl: number;
+  deductions: number;
+  net: number;
+  reason: string | null;
+  journal_entry_id: string | null;
+  calculated_by: string;
+  calculated_at: Date;
+  finalised_by: string | null;
+  finalised_at: Date | null;
+  lines?: PayrollRunLine[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PayrollRunFilters {
+  period?: string;
+  status?: PayrollRunStatus;
+  run_type?: PayrollRunType;
+  page?: number;
+  limit?: number;
+}
+
+type CalculatedLine = Omit<PayrollRunLine, 'id' | 'run_id' | 'employee_number' | 'employee_name'>;
+
+// Amounts compared between the preview and the figures at finalisation
+const LINE_AMOUNTS = ['gross', 'taxable_income', 'paye', 'uif_employee', 'uif_employer', 'sdl', 'deductions', 'net'] as const;
+
+const PERIODS_PER_YEAR = 12;
+
+const SA_BRACKETS = [
+  { min: 0, rate: 18 },
+  { min: 237100, rate: 26 },
+  { min: 370500, rate: 31 },
+  { min: 512800, rate: 36 },
+  { min: 673000, rate: 39 },
+  { min: 857900, rate: 41 },
+  { min: 1817000, rate: 45 }
+];
+
+const SA_STATUTORY = {
+  primary_rebate: 17235,
+  secondary_rebate: 9444,
+  tertiary_rebate: 3145,
+  uif_rate: 1,
+  uif_monthly_ceiling: 17712,
+  sdl_rate: 1,
+  sdl_threshold: 500000,
+  retirement_cap_percent: 27.5,
+  retirement_cap_annual: 350000
+};
+
+/**
+ * South African tables as published by SARS; the 2024 brackets and rebates
+ * were left unchanged for 2025 and 2026. Later years are added as new tables.
+ */
+const DEFAULT_TAX_TABLES: CreateTaxTableData[] = [2024, 2025, 2026].map(taxYear => ({
+  tax_year: taxYear,
+  brackets: SA_BRACKETS,
+  ...SA_STATUTORY,
+  notes: 'SARS monthly tax deduction tables'
+}));
+
+export class PayrollService {
+  /**
+   * Get PAYE tax tables, optionally for one tax year
+   */
+  async getTaxTables(companyId: string, taxYear?: number): Promise<TaxTable[]> {
+    try {
+      const db = getDatabase();
+      let query = db('paye_tax_tables')
+        .where('company_id', companyId)
+        .orderBy([{ column: 'tax_year', order: 'desc' }, { column: 'version', order: 'desc' }]);
+      if (taxYear) {
+        query = query.where('tax_year', taxYear);
+      }
+
+      const rows = await query;
+      return rows.map((row: any) => this.mapTaxTable(row));
+    } catch (error) {
+      logger.error('Error fetching PAYE tax tables', { error, companyId, taxYear });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a tax table version; it supersedes earlier versions of the year from
+   * its effective date, and runs already calculated keep the table they used
+   */
+  async createTaxTable(
+    companyId: string,
+    data: CreateTaxTableData,
+    createdBy: string,
+    trx?: Knex.Transaction
+  ): Promise<TaxTable> {
+    try {
+      const db = trx || getDatabase();
+      const range = taxYearRange(data.tax_year);
+      const effectiveFrom = data.effective_from ? toDateOnly(data.effective_from) : range.start;
+
+      if (effectiveFrom < range.start || effectiveFrom > range.end) {
+        throw new ValidationError(`Effective date must fall in the ${data.tax_year} tax year (${range.start} to ${range.end})`);
+      }
+
+      const brackets = [...data.brackets].sort((a, b) => a.min - b.min);
+      if (brackets.length === 0 || brackets[0].min !== 0) {
+        throw new ValidationError('Tax brackets must start at 0');
+      }
+      if (new Set(brackets.map(bracket => bracket.min)).size !== brackets.length) {
+        throw new ValidationError('Tax brackets must have distinct thresholds');
+      }
+
+      const latest = await db('paye_tax_tables')
+        .where('company_id', companyId)
+        .where('tax_year', data.tax_year)
+        .max('version as version')
+        .first();
+      const version = (latest?.version || 0) + 1;
+
+      const [row] = await db('paye_tax_tables')
+        .insert({
+          id: uuidv4(),
+          company_id: companyId,
+          tax_year: data.tax_year,
+          version,
+          effective_from: effectiveFrom,
+          brackets: JSON.stringify(brackets),
+          primary_rebate: data.primary_rebate,
+          secondary_rebate: data.secondary_rebate,
+          tertiary_rebate: data.tertiary_rebate,
+          uif_rate: data.uif_rate,
+          uif_monthly_ceiling: data.uif_monthly_ceiling,
+          sdl_rate: data.sdl_rate,
+          sdl_threshold: data.sdl_threshold,
+          retirement_cap_percent: data.retirement_cap_percent,
+          retirement_cap_annual: data.retirement_cap_annual,
+          notes: data.notes,
+          created_by: createdBy
+        })
+        .returning('*');
+
+      await auditService.logUserAction({
+        user_id: createdBy,
+        action: 'paye_tax_table_created',
+        resource_type: 'paye_tax_table',
+        resource_id: row.id,
+        company_id: companyId,
+        details: { tax_year: data.tax_year, version, effective_from: effectiveFrom }
+      });
+
+      logger.info('PAYE tax table created', { companyId, taxYear: data.tax_year, version, createdBy });
+
+      return this.mapTaxTable(row);
+    } catch (error) {
+      logger.error('Error creating PAYE tax table', { error, companyId, taxYear: data.tax_year });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the South African default tax tables for years the company has none for
+   */
+  async createDefaultTaxTables(companyId: string, createdBy: string): Promise<TaxTable[]> {
+    try {
+      const db = getDatabase();
+      const existing = await db('paye_tax_tables')
+        .where('company_id', companyId)
+        .distinct('tax_year')
+        .pluck('tax_year');
+
+      await db.transaction(async (trx) => {
+        for (const table of DEFAULT_TAX_TABLES) {
+          if (existing.includes(table.tax_year)) continue;
+          await this.createTaxTable(companyId, table, createdBy, trx);
+        }
+      });
+
+      logger.info('Default PAYE tax tables created', { companyId, createdBy });
+
+      return this.getTaxTables(companyId);
+    } catch (error) {
+      logger.error('Error creating default PAYE tax tables', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get payroll earning and deduction items
+   */
+  async getPayrollItems(companyId: string): Promise<PayrollItem[]> {
+    try {
+      const db = getDatabase();
+      return await db('payroll_items')
+        .where('company_id', companyId)
+        .orderBy(['type', 'code']);
+    } catch (error) {
+      logger.error('Error fetching payroll items', { error, companyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Create payroll item; deductions need the account they are paid over from
+   */
+  async createPayrollItem(companyId: string, data: CreatePayrollItemData, createdBy: string): Promise<PayrollItem> {
+    try {
+      const db = getDatabase();
+      const code = data.code.trim().toUpperCase();
+
+      if (data.type === 'deduction' && !data.account_id) {
+        throw new ValidationError('Deductions need an account to post to');
+      }
+      if (data.type === 'deduction' && (data.annual_payment || data.taxable)) {
+        throw new ValidationError('Only earnings can be taxable or annual payments');
+      }
+      if (data.type === 'earning' && data.retirement_fund) {
+        throw new ValidationError('Only deductions can be retirement fund contributions');
+      }
+      if (data.account_id) {
+        await this.assertAccount(db, companyId, data.account_id);
+      }
+
+      const existing = await db('payroll_items')
+        .where('company_id', companyId)
+        .where('code', code)
+        .first();
+      if (existing) {
+        throw new ConflictError(`Payroll item ${code} already exists`);
+      }
+
+      const [row] = await db('payroll_items')
+        .insert({
+          id: uuidv4(),
+          company_id: companyId,
+          code,
+          name: data.name.trim(),
+          type: data.type,
+          taxable: data.type === 'earning' ? data.taxable ?? true : false,
+          annual_payment: data.annual_payment ?? false,
+          retirement_fund: data.retirement_fund ?? false,
+          account_id: data.account_id ?? null,
+          sars_code: data.sars_code ?? null,
+          created_by: createdBy,
+          updated_by: createdBy
+        })
+        .returning('*');
+
+      logger.info('Payroll item created successfully', { itemId: row.id, code, companyId, createdBy });
+
+      return row;
+    } catch (error) {
+      logger.error('Error creating payroll item', { error, companyId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Update payroll item (runs already calculated keep their figures)
+   */
+  async updatePayrollItem(
+    companyId: string,
+    itemId: string,
+    data: UpdatePayrollItemData,
+    updatedBy: string
+  ): Promise<PayrollItem> {
+    try {
+      const db = getDatabase();
+      const existing = await db('payroll_items')
+        .where('id', itemId)
+        .where('company_id', companyId)
+        .first();
+      if (!existing) {
+        throw new NotFoundError('Payroll item not found');
+      }
+
+      if (existing.type === 'deduction' && data.account_id === null) {
+        throw new ValidationError('Deductions need an account to post to');
+      }
+      if (existing.type === 'deduction' && (data.annual_payment || data.taxable)) {
+        throw new ValidationError('Only earnings can be taxable or annual payments');
+      }
+      if (existing.type === 'earning' && data.retirement_fund) {
+        throw new ValidationError('Only deductions can be retirement fund contributions');
+      }
+      if (data.account_id) {
+        await this.assertAccount(db, companyId, data.account_id);
+      }
+
+      const [row] = await db('payroll_items')
+        .where('id', itemId)
+        .update({
+          ...data,
+          name: data.name?.trim() ?? existing.name,
+          updated_by: updatedBy,
+          updated_at: new Date()
+        })
+        .returning('*');
+
+      logger.info('Payroll item updated successfully', { itemId, companyId, updatedBy });
+
+      return row;
+    } catch (error) {
+      logger.error('Error updating payroll item', { error, companyId, itemId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Recurring earnings and deductions for an employee
+   */
+  async getEmployeePayrollItems(companyId: string, employeeId: string): Promise<EmployeePayrollItem[]> {
+    try {
+      const db = getDatabase();
+      await this.getEmployee(db, companyId, employeeId);
+
+      const rows = await this.employeeItemQuery(db)
+        .where('employee_payroll_items.employee_id', employeeId)
+        .orderBy([{ column: 'payroll_items.code' }, { column: 'employee_payroll_items.effective_from', order: 'desc' }]);
+
+      return rows.map((row: any) => this.mapEmployeeItem(row));
+    } catch (error) {
+      logger.error('Error fetching employee payroll items', { error, companyId, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Give an employee a recurring earning or deduction
+   */
+  async addEmployeePayrollItem(
+    companyId: string,
+    employeeId: string,
+    data: EmployeePayrollItemData,
+    createdBy: string
+  ): Promise<EmployeePayrollItem> {
+    try {
+      const db = getDatabase();
+      await this.getEmployee(db, companyId, employeeId);
+
+      const item = await db('payroll_items')
+        .where('id', data.payroll_item_id)
+        .where('company_id', companyId)
+        .where('is_active', true)
+        .first();
+      if (!item) {
+        throw new ValidationError('Payroll item must be an active item of this company');
+      }
+
+      const effectiveFrom = toDateOnly(data.effective_from);
+      const effectiveTo = data.effective_to ? toDateOnly(data.effective_to) : null;
+      if (effectiveTo && effectiveTo < effectiveFrom) {
+        throw new ValidationError('Item cannot end before it starts');
+      }
+
+      const id = uuidv4();
+      await db('employee_payroll_items').insert({
+        id,
+        employee_id: employeeId,
+        payroll_item_id: item.id,
+        amount: data.amount,
+        effective_from: effectiveFrom,
+        effective_to: effectiveTo,
+        created_by: createdBy,
+        updated_by: createdBy
+      });
+
+      logger.info('Employee payroll item added', { id, employeeId, code: item.code, companyId, createdBy });
+
+      const row = await this.employeeItemQuery(db).where('employee_payroll_items.id', id).first();
+      return this.mapEmployeeItem(row);
+    } catch (error) {
+      logger.error('Error adding employee payroll item', { error, companyId, employeeId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the amount of, or end, an employee's recurring item
+   */
+  async updateEmployeePayrollItem(
+    companyId: string,
+    employeeId: string,
+    id: string,
+    data: UpdateEmployeePayrollItemData,
+    updatedBy: string
+  ): Promise<EmployeePayrollItem> {
+    try {
+      const db = getDatabase();
+      await this.getEmployee(db, companyId, employeeId);
+
+      const existing = await db('employee_payroll_items')
+        .where('id', id)
+        .where('employee_id', employeeId)
+        .first();
+      if (!existing) {
+        throw new NotFoundError('Employee payroll item not found');
+      }
+
+      const effectiveTo = data.effective_to !== undefined
+        ? (data.effective_to ? toDateOnly(data.effective_to) : null)
+        : undefined;
+      if (effectiveTo && effectiveTo < toDateOnly(existing.effective_from)) {
+        throw new ValidationError('Item cannot end before it starts');
+      }
+
+      await db('employee_payroll_items')
+        .where('id', id)
+        .update({
+          ...(data.amount !== undefined ? { amount: data.amount } : {}),
+          ...(effectiveTo !== undefined ? { effective_to: effectiveTo } : {}),
+          updated_by: updatedBy,
+          updated_at: new Date()
+        });
+
+      logger.info('Employee payroll item updated', { id, employeeId, companyId, updatedBy });
+
+      const row = await this.employeeItemQuery(db).where('employee_payroll_items.id', id).first();
+      return this.mapEmployeeItem(row);
+    } catch (error) {
+      logger.error('Error updating employee payroll item', { error, companyId, employeeId, id, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Get payroll runs with filters and pagination
+   */
+  async getPayrollRuns(companyId: string, filters: PayrollRunFilters = {}): Promise<{
+    runs: PayrollRun[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const db = getDatabase();
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 20, 100);
+      const offset = (page - 1) * limit;
+
+      let query = db('payroll_runs').where('company_id', companyId);
+
+      if (filters.period) {
+        query = query.where('period', filters.period);
+      }
+
+      if (filters.status) {
+        query = query.where('status', filters.status);
+      }
+
+      if (filters.run_type) {
+        query = query.where('run_type', filters.run_type);
+      }
+
+      const countResult = await query.clone().clearSelect().count('* as count');
+      const total = parseInt(countResult[0].count as string);
+
+      const rows = await query
+        .orderBy([{ column: 'period', order: 'desc' }, { column: 'created_at', order: 'desc' }])
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        runs: rows.map((row: any) => this.mapRun(row)),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      };
+    } catch (error) {
+      logger.error('Error fetching payroll runs', { error, companyId, filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a payroll run with its lines
+   */
+  async getPayrollRunById(companyId: string, runId: string, trx?: Knex.Transaction): Promise<PayrollRun | null> {
+    try {
+      const db = trx || getDatabase();
+      const row = await db('payroll_runs')
+        .where('id', runId)
+        .where('company_id', companyId)
+        .first();
+      if (!row) return null;
+
+      const lines = await db('payroll_run_lines')
+        .join('employees', 'payroll_run_lines.employee_id', 'employees.id')
+        .join('users', 'employees.user_id', 'users.id')
+        .where('payroll_run_lines.run_id', runId)
+        .select(
+          'payroll_run_lines.*',
+          'employees.employee_number',
+          db.raw("concat_ws(' ', users.first_name, users.last_name) as employee_name")
+        )
+        .orderBy('employees.employee_number');
+
+      return {
+        ...this.mapRun(row),
+        lines: lines.map((line: any) => this.mapLine(line))
+      };
+    } catch (error) {
+      logger.error('Error fetching payroll run by ID', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate the period's payroll as a draft for review; recalculating
+   * replaces the period's draft. Employees already paid for the period in a
+   * finalised run are left out.
+   */
+  async calculatePayroll(companyId: string, data: CalculatePayrollData, calculatedBy: string): Promise<PayrollRun> {
+    try {
+      const db = getDatabase();
+      const periodEnd = endOfMonth(`${data.period}-01`);
+      const paymentDate = data.payment_date ? toDateOnly(data.payment_date) : periodEnd;
+      let runId = '';
+
+      await db.transaction(async (trx) => {
+        // Serialise calculation and finalisation of the period
+        await trx('payroll_runs').where('company_id', companyId).where('period', data.period).forUpdate();
+
+        const result = await this.computeRun(trx, companyId, data.period, data.employee_ids, data.inputs || []);
+
+        const draft = await trx('payroll_runs')
+          .where('company_id', companyId)
+          .where('period', data.period)
+          .where('run_type', 'regular')
+          .where('status', 'draft')
+          .first();
+
+        runId = await this.saveDraft(trx, companyId, draft, {
+          period: data.period,
+          payment_date: paymentDate,
+          run_type: 'regular',
+          corrects_run_id: null,
+          tax_table_id: result.table.id,
+          inputs: data.inputs || [],
+          exceptions: result.exceptions,
+          reason: null
+        }, result.lines, calculatedBy);
+      });
+
+      logger.info('Payroll calculated', { runId, period: data.period, companyId, calculatedBy });
+
+      return (await this.getPayrollRunById(companyId, runId))!;
+    } catch (error) {
+      logger.error('Error calculating payroll', { error, companyId, period: data.period });
+      throw error;
+    }
+  }
+
+  /**
+   * Prepare a reversal of a finalised run (all of it, or some employees);
+   * once finalised it negates their pay, tax and ledger postings
+   */
+  async reversePayrollRun(
+    companyId: string,
+    runId: string,
+    data: ReversePayrollData,
+    createdBy: string
+  ): Promise<PayrollRun> {
+    try {
+      const db = getDatabase();
+      let reversalId = '';
+
+      await db.transaction(async (trx) => {
+        const original = await trx('payroll_runs')
+          .where('id', runId)
+          .where('company_id', companyId)
+          .first();
+        if (!original) {
+          throw new NotFoundError('Payroll run not found');
+        }
+        if (original.run_type !== 'regular' || original.status !== 'finalised') {
+          throw new ValidationError('Only finalised payroll runs can be reversed');
+        }
+
+        await trx('payroll_runs').where('company_id', companyId).where('period', original.period).forUpdate();
+
+        const reversed = await this.reversedEmployees(trx, runId);
+        let lines = await trx('payroll_run_lines').where('run_id', runId);
+        lines = lines.filter((line: any) => !reversed.has(line.employee_id));
+        if (data.employee_ids) {
+          const unknown = data.employee_ids.filter(id => !lines.some((line: any) => line.employee_id === id));
+          if (unknown.length > 0) {
+            throw new ValidationError(`Not on run ${original.run_number} or already reversed: ${unknown.join(', ')}`);
+          }
+          lines = lines.filter((line: any) => data.employee_ids!.includes(line.employee_id));
+        }
+        if (lines.length === 0) {
+          throw new ValidationError(`Nothing is left to reverse on run ${original.run_number}`);
+        }
+
+        const draft = await trx('payroll_runs')
+          .where('company_id', companyId)
+          .where('corrects_run_id', runId)
+          .where('status', 'draft')
+          .first();
+
+        reversalId = await this.saveDraft(trx, companyId, draft, {
+          period: original.period,
+          payment_date: toDateOnly(original.payment_date),
+          run_type: 'reversal',
+          corrects_run_id: runId,
+          tax_table_id: original.tax_table_id,
+          inputs: [],
+          exceptions: [],
+          reason: data.reason
+        }, lines.map((line: any) => this.negateLine(this.mapLine(line))), createdBy);
+      });
+
+      logger.info('Payroll reversal prepared', { reversalId, runId, companyId, createdBy });
+
+      return (await this.getPayrollRunById(companyId, reversalId))!;
+    } catch (error) {
+      logger.error('Error preparing payroll reversal', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Finalise a draft run and post it to the ledger. Regular runs are
+   * recalculated first and must still match the preview. Finalised runs
+   * cannot be changed; mistakes are put right with a reversal and a new run.
+   */
+  async finalisePayrollRun(companyId: string, runId: string, finalisedBy: string): Promise<PayrollRun> {
+    try {
+      const db = getDatabase();
+
+      await db.transaction(async (trx) => {
+        const run = await trx('payroll_runs')
+          .where('id', runId)
+          .where('company_id', companyId)
+          .first();
+        if (!run) {
+          throw new NotFoundError('Payroll run not found');
+        }
+
+        await trx('payroll_runs').where('company_id', companyId).where('period', run.period).forUpdate();
+
+        const current = await trx('payroll_runs').where('id', runId).first();
+        if (current.status !== 'draft') {
+          throw new ConflictError(`Payroll run ${run.run_number} is already finalised; correct it with a reversal`);
+        }
+
+        const lines = (await trx('payroll_run_lines').where('run_id', runId)).map((line: any) => this.mapLine(line));
+        if (lines.length === 0) {
+          throw new ValidationError(`Payroll run ${run.run_number} has no employees to pay`);
+        }
+
+        if (run.run_type === 'regular') {
+          const recalculated = await this.computeRun(
+            trx,
+            companyId,
+            run.period,
+            lines.map(line => line.employee_id),
+            run.inputs || []
+          );
+          const changed = lines.length !== recalculated.lines.length || lines.some(line => {
+            const fresh = recalculated.lines.find(candidate => candidate.employee_id === line.employee_id);
+            return !fresh || LINE_AMOUNTS.some(field => toAmount(fresh[field]) !== line[field]);
+          });
+          if (changed) {
+            throw new ConflictError('Payroll inputs have changed since the preview; recalculate the run before finalising');
+          }
+        } else {
+          const reversed = await this.reversedEmployees(trx, run.corrects_run_id);
+          if (lines.some(line => reversed.has(line.employee_id))) {
+            throw new ConflictError('Some of these employees have already been reversed; prepare the reversal again');
+          }
+        }
+
+        const original = run.corrects_run_id
+          ? await trx('payroll_runs').where('id', run.corrects_run_id).first()
+          : null;
+
+        const entry = await ledgerService.createAndPostJournalEntry(companyId, {
+          entry_date: toDateOnly(run.payment_date),
+          description: original
+            ? `Reversal of payroll ${original.run_number} for ${run.period}`
+            : `Payroll for ${run.period}`,
+          reference: run.run_number,
+          source_type: PAYROLL_RUN_SOURCE_TYPE,
+          source_id: runId,
+          lines: await this.journalLines(trx, companyId, lines)
+        }, finalisedBy, trx);
+
+        await trx('payroll_runs')
+          .where('id', runId)
+          .update({
+            status: 'finalised',
+            journal_entry_id: entry.id,
+            finalised_by: finalisedBy,
+            finalised_at: new Date(),
+            updated_at: new Date()
+          });
+      });
+
+      const run = (await this.getPayrollRunById(companyId, runId))!;
+
+      await auditService.logUserAction({
+        user_id: finalisedBy,
+        action: 'payroll_run_finalised',
+        resource_type: 'payroll_run',
+        resource_id: runId,
+        company_id: companyId,
+        details: {
+          run_number: run.run_number,
+          period: run.period,
+          run_type: run.run_type,
+          corrects_run_id: run.corrects_run_id,
+          employees: run.employee_count,
+          net: run.net
+        }
+      });
+
+      logger.info('Payroll run finalised', { runId, companyId, finalisedBy });
+
+      return run;
+    } catch (error) {
+      logger.error('Error finalising payroll run', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a draft run
+   */
+  async discardPayrollRun(companyId: string, runId: string, discardedBy: string): Promise<void> {
+    try {
+      const db = getDatabase();
+      const run = await db('payroll_runs')
+        .where('id', runId)
+        .where('company_id', companyId)
+        .first();
+      if (!run) {
+        throw new NotFoundError('Payroll run not found');
+      }
+      if (run.status !== 'draft') {
+        throw new ConflictError(`Payroll run ${run.run_number} is finalised and cannot be discarded`);
+      }
+
+      await db('payroll_runs').where('id', runId).where('status', 'draft').delete();
+
+      logger.info('Payroll run discarded', { runId, companyId, discardedBy });
+    } catch (error) {
+      logger.error('Error discarding payroll run', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate pay for the period's employees: the annual salary in effect
+   * on their last day in the period, pro-rated by working days employed less
+   * approved unpaid leave, plus recurring and once-off items
+   */
+  private async computeRun(
+    trx: Knex.Transaction,
+    companyId: string,
+    period: string,
+    employeeIds: string[] | undefined,
+    inputs: PayrollInput[]
+  ): Promise<{ table: TaxTable; lines: CalculatedLine[]; exceptions: PayrollException[] }> {
+    const periodStart = `${period}-01`;
+    const periodEnd = endOfMonth(periodStart);
+    const table = await this.resolveTaxTable(trx, companyId, periodEnd);
+    const company = await companyService.getCompanyById(companyId);
+    const currency = company?.currency_code;
+    const exceptions: PayrollException[] = [];
+
+    // Everyone employed in the period, for the SDL payroll estimate
+    const employed = await trx('employees')
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .where('hire_date', '<=', periodEnd)
+      .where(function () {
+        this.whereNull('termination_date').orWhere('termination_date', '>=', periodStart);
+      });
+
+    const history = employed.length > 0
+      ? await trx('employee_salary_history')
+        .whereIn('employee_id', employed.map((employee: any) => employee.id))
+        .where('effective_from', '<=', periodEnd)
+      : [];
+    const salaryFor = (employee: any) => {
+      const lastDay = employee.termination_date && toDateOnly(employee.termination_date) < periodEnd
+        ? toDateOnly(employee.termination_date)
+        : periodEnd;
+      const entries = history
+        .filter((entry: any) => entry.employee_id === employee.id)
+        .map((entry: any) => ({ ...entry, effective_from: toDateOnly(entry.effective_from), salary: toAmount(entry.salary) }));
+      return salaryOn(entries, lastDay);
+    };
+
+    const expectedPayroll = sumMoney(employed.map((employee: any) => salaryFor(employee)?.salary ?? 0));
+    const sdlApplicable = sdlApplies(table, expectedPayroll);
+
+    let employees = employed;
+    if (employeeIds) {
+      for (const id of employeeIds) {
+        if (!employed.some((employee: any) => employee.id === id)) {
+          exceptions.push({ employee_id: id, employee_number: null, message: `Not employed during ${period}` });
+        }
+      }
+      employees = employed.filter((employee: any) => employeeIds.includes(employee.id));
+    }
+
+    const paid = await this.paidEmployees(trx, companyId, period);
+    const items = await this.payrollItemsById(trx, companyId, inputs);
+
+    const recurring = employees.length > 0
+      ? await this.employeeItemQuery(trx)
+        .whereIn('employee_payroll_items.employee_id', employees.map((employee: any) => employee.id))
+        .where('employee_payroll_items.effective_from', '<=', periodEnd)
+        .where(function () {
+          this.whereNull('employee_payroll_items.effective_to').orWhere('employee_payroll_items.effective_to', '>=', periodStart);
+        })
+        .where('payroll_items.is_active', true)
+        .select('payroll_items.taxable', 'payroll_items.annual_payment', 'payroll_items.retirement_fund', 'payroll_items.account_id')
+      : [];
+
+    const unpaidLeave = employees.length > 0
+      ? await trx('leaves')
+        .whereIn('employee_id', employees.map((employee: any) => employee.id))
+        .where('type', LeaveType.UNPAID)
+        .where('status', LeaveStatus.APPROVED)
+        .where('start_date', '<=', periodEnd)
+        .where('end_date', '>=', periodStart)
+      : [];
+
+    const lines: CalculatedLine[] = [];
+
+    for (const employee of employees) {
+      const skip = (message: string) => exceptions.push({
+        employee_id: employee.id,
+        employee_number: employee.employee_number,
+        message
+      });
+
+      if (paid.has(employee.id)) {
+        skip(`Already paid for ${period} in a finalised run`);
+        continue;
+      }
+      if (employee.status === EmployeeStatus.INACTIVE) {
+        skip('Employee is inactive');
+        continue;
+      }
+
+      const salary = salaryFor(employee);
+      if (!salary) {
+        skip('No salary in effect for the period');
+        continue;
+      }
+      if (currency && salary.currency !== currency) {
+        skip(`Salary is in ${salary.currency}; payroll runs in ${currency}`);
+        continue;
+      }
+
+      const firstDay = toDateOnly(employee.hire_date) > periodStart ? toDateOnly(employee.hire_date) : periodStart;
+      const lastDay = employee.termination_date && toDateOnly(employee.termination_date) < periodEnd
+        ? toDateOnly(employee.termination_date)
+        : periodEnd;
+      const calendar = { employee_id: employee.id };
+
+      const workingDays = await calendarService.countWorkingDays(companyId, periodStart, periodEnd, calendar, trx);
+      const daysEmployed = await calendarService.countWorkingDays(companyId, firstDay, lastDay, calendar, trx);
+
+      let unpaidDays = 0;
+      for (const leave of unpaidLeave.filter((row: any) => row.employee_id === employee.id)) {
+        const start = toDateOnly(leave.start_date) > firstDay ? toDateOnly(leave.start_date) : firstDay;
+        const end = toDateOnly(leave.end_date) < lastDay ? toDateOnly(leave.end_date) : lastDay;
+        unpaidDays += await calendarService.countWorkingDays(companyId, start, end, calendar, trx);
+      }
+      const daysPaid = Math.max(0, daysEmployed - unpaidDays);
+
+      const payslipItems: Array<PayslipItem & { taxable: boolean; annual_payment: boolean; retirement_fund: boolean }> = [{
+        code: 'BASIC',
+        name: 'Basic salary',
+        type: 'earning',
+        amount: prorate(salary.salary / PERIODS_PER_YEAR, daysPaid, workingDays),
+        account_id: null,
+        taxable: true,
+        annual_payment: false,
+        retirement_fund: false
+      }];
+
+      for (const row of recurring.filter((item: any) => item.employee_id === employee.id)) {
+        payslipItems.push({
+          code: row.code,
+          name: row.name,
+          type: row.type,
+          amount: toAmount(row.amount),
+          account_id: row.account_id,
+          taxable: row.taxable,
+          annual_payment: row.annual_payment,
+          retirement_fund: row.retirement_fund
+        });
+      }
+
+      for (const input of inputs.filter(entry => entry.employee_id === employee.id)) {
+        const item = items.get(input.payroll_item_id)!;
+        payslipItems.push({
+          code: item.code,
+          name: item.name,
+          type: item.type,
+          amount: roundMoney(input.amount),
+          account_id: item.account_id,
+          taxable: item.taxable,
+          annual_payment: item.annual_payment,
+          retirement_fund: item.retirement_fund
+        });
+      }
+
+      const earnings: PayrollEarning[] = payslipItems.filter(item => item.type === 'earning');
+      const deductions: PayrollDeduction[] = payslipItems.filter(item => item.type === 'deduction');
+      const payslip = calculatePayslip(table, {
+        earnings,
+        deductions,
+        age: employee.date_of_birth
+          ? ageOn(toDateOnly(employee.date_of_birth), taxYearRange(table.tax_year).end)
+          : null,
+        periods_per_year: PERIODS_PER_YEAR,
+        sdl_applicable: sdlApplicable
+      });
+
+      if (payslip.net < 0) {
+        skip(`Deductions exceed pay by ${Math.abs(payslip.net).toFixed(2)}`);
+        continue;
+      }
+
+      lines.push({
+        employee_id: employee.id,
+        salary: salary.salary,
+        working_days: workingDays,
+        days_paid: daysPaid,
+        unpaid_leave_days: unpaidDays,
+        items: payslipItems.map(({ code, name, type, amount, account_id }) => ({ code, name, type, amount, account_id })),
+        gross: payslip.gross,
+        taxable_income: payslip.taxable_income,
+        paye: payslip.paye,
+        uif_employee: payslip.uif_employee,
+        uif_employer: payslip.uif_employer,
+        sdl: payslip.sdl,
+        deductions: payslip.deductions,
+        net: payslip.net
+      });
+    }
+
+    return { table, lines, exceptions };
+  }
+
+  /**
+   * Insert a draft run, or replace the lines of an existing draft
+   */
+  private async saveDraft(
+    trx: Knex.Transaction,
+    companyId: string,
+    existing: any,
+    run: {
+      period: string;
+      payment_date: string;
+      run_type: PayrollRunType;
+      corrects_run_id: string | null;
+      tax_table_id: string;
+      inputs: PayrollInput[];
+      exceptions: PayrollException[];
+      reason: string | null;
+    },
+    lines: CalculatedLine[],
+    userId: string
+  ): Promise<string> {
+    const total = (field: typeof LINE_AMOUNTS[number]) => sumMoney(lines.map(line => line[field]));
+    const fields = {
+      period: run.period,
+      period_start: `${run.period}-01`,
+      period_end: endOfMonth(`${run.period}-01`),
+      payment_date: run.payment_date,
+      run_type: run.run_type,
+      corrects_run_id: run.corrects_run_id,
+      tax_table_id: run.tax_table_id,
+      inputs: JSON.stringify(run.inputs),
+      exceptions: JSON.stringify(run.exceptions),
+      employee_count: lines.length,
+      gross: total('gross'),
+      paye: total('paye'),
+      uif_employee: total('uif_employee'),
+      uif_employer: total('uif_employer'),
+      sdl: total('sdl'),
+      deductions: total('deductions'),
+      net: total('net'),
+      reason: run.reason,
+      calculated_by: userId,
+      calculated_at: new Date()
+    };
+
+    let runId: string;
+    if (existing) {
+      runId = existing.id;
+      await trx('payroll_run_lines').where('run_id', runId).delete();
+      await trx('payroll_runs')
+        .where('id', runId)
+        .update({ ...fields, updated_at: new Date() });
+    } else {
+      runId = uuidv4();
+      const runNumber = await sequenceService.next(trx, companyId, 'payroll_run', { prefix: 'PAY' });
+      await trx('payroll_runs').insert({
+        id: runId,
+        company_id: companyId,
+        run_number: runNumber,
+        status: 'draft',
+        created_by: userId,
+        ...fields
+      });
+    }
+
+    if (lines.length > 0) {
+      await trx('payroll_run_lines').insert(lines.map(line => ({
+        id: uuidv4(),
+        run_id: runId,
+        employee_id: line.employee_id,
+        salary: line.salary,
+        working_days: line.working_days,
+        days_paid: line.days_paid,
+        unpaid_leave_days: line.unpaid_leave_days,
+        items: JSON.stringify(line.items),
+        gross: line.gross,
+        taxable_income: line.taxable_income,
+        paye: line.paye,
+        uif_employee: line.uif_employee,
+        uif_employer: line.uif_employer,
+        sdl: line.sdl,
+        deductions: line.deductions,
+        net: line.net
+      })));
+    }
+
+    return runId;
+  }
+
+  /**
+   * Ledger lines for a run: earnings and employer contributions are
+   * expenses; PAYE, UIF, SDL, deductions and net pay are owed. Reversal
+   * runs carry negative amounts, which swap the sides.
+   */
+  private async journalLines(trx: Knex.Transaction, companyId: string, lines: PayrollRunLine[]): Promise<JournalLineData[]> {
+    const accounts = new Map<AccountSettingKey, string>();
+    const account = async (key: AccountSettingKey): Promise<string> => {
+      if (!accounts.has(key)) {
+        accounts.set(key, await financialSettingsService.requireAccount(companyId, key, trx));
+      }
+      return accounts.get(key)!;
+    };
+
+    // Net debit per account
+    const balances = new Map<string, number>();
+    const post = (accountId: string, debit: number) => {
+      if (debit === 0) return;
+      balances.set(accountId, roundMoney((balances.get(accountId) || 0) + debit));
+    };
+
+    for (const line of lines) {
+      for (const item of line.items) {
+        if (item.type === 'earning') {
+          post(item.account_id || await account('payroll_expense_account_id'), item.amount);
+        } else {
+          post(item.account_id!, -item.amount);
+        }
+      }
+
+      if (line.uif_employer !== 0 || line.sdl !== 0) {
+        post(await account('payroll_employer_expense_account_id'), roundMoney(line.uif_employer + line.sdl));
+      }
+      if (line.paye !== 0) {
+        post(await account('paye_payable_account_id'), -line.paye);
+      }
+      if (line.uif_employee !== 0 || line.uif_employer !== 0) {
+        post(await account('uif_payable_account_id'), -roundMoney(line.uif_employee + line.uif_employer));
+      }
+      if (line.sdl !== 0) {
+        post(await account('sdl_payable_account_id'), -line.sdl);
+      }
+      if (line.net !== 0) {
+        post(await account('net_pay_account_id'), -line.net);
+      }
+    }
+
+    return Array.from(balances.entries())
+      .filter(([, amount]) => amount !== 0)
+      .map(([accountId, amount]) => amount > 0
+        ? { account_id: accountId, debit: amount }
+        : { account_id: accountId, credit: -amount });
+  }
+
+  /**
+   * Tax table in force on a date: the latest version of its tax year
+   * effective by then
+   */
+  private async resolveTaxTable(db: Knex | Knex.Transaction, companyId: string, date: string): Promise<TaxTable> {
+    const taxYear = taxYearOf(date);
+    const row = await db('paye_tax_tables')
+      .where('company_id', companyId)
+      .where('tax_year', taxYear)
+      .where('effective_from', '<=', date)
+      .orderBy('version', 'desc')
+      .first();
+
+    if (!row) {
+      throw new ValidationError(`No PAYE tax table for the ${taxYear} tax year; add it before running payroll`);
+    }
+
+    return this.mapTaxTable(row);
+  }
+
+  /**
+   * Employees paid for the period by finalised runs and not since reversed
+   */
+  private async paidEmployees(trx: Knex.Transaction, companyId: string, period: string): Promise<Set<string>> {
+    const rows = await trx('payroll_run_lines')
+      .join('payroll_runs', 'payroll_run_lines.run_id', 'payroll_runs.id')
+      .where('payroll_runs.company_id', companyId)
+      .where('payroll_runs.period', period)
+      .where('payroll_runs.status', 'finalised')
+      .select('payroll_run_lines.employee_id', 'payroll_runs.run_type');
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      counts.set(row.employee_id, (counts.get(row.employee_id) || 0) + (row.run_type === 'reversal' ? -1 : 1));
+    }
+
+    return new Set(Array.from(counts.entries()).filter(([, count]) => count > 0).map(([id]) => id));
+  }
+
+  /**
+   * Employees on a run whose lines a finalised reversal has negated
+   */
+  private async reversedEmployees(trx: Knex.Transaction, runId: string): Promise<Set<string>> {
+    const rows = await trx('payroll_run_lines')
+      .join('payroll_runs', 'payroll_run_lines.run_id', 'payroll_runs.id')
+      .where('payroll_runs.corrects_run_id', runId)
+      .where('payroll_runs.status', 'finalised')
+      .pluck('payroll_run_lines.employee_id');
+
+    return new Set(rows);
+  }
+
+  /**
+   * Payroll items used by once-off inputs; they must be active items of the company
+   */
+  private async payrollItemsById(
+    trx: Knex.Transaction,
+    companyId: string,
+    inputs: PayrollInput[]
+  ): Promise<Map<string, PayrollItem>> {
+    const ids = Array.from(new Set(inputs.map(input => input.payroll_item_id)));
+    if (ids.length === 0) return new Map();
+
+    const rows = await trx('payroll_items')
+      .whereIn('id', ids)
+      .where('company_id', companyId)
+      .where('is_active', true);
+
+    const missing = ids.filter(id => !rows.some((row: any) => row.id === id));
+    if (missing.length > 0) {
+      throw new ValidationError(`Unknown or inactive payroll item(s): ${missing.join(', ')}`);
+    }
+
+    return new Map(rows.map((row: any) => [row.id, row]));
+  }
+
+  /**
+   * Posting accounts must belong to the company
+   */
+  private async assertAccount(db: Knex | Knex.Transaction, companyId: string, accountId: string): Promise<void> {
+    const account = await db('accounts')
+      .where('id', accountId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!account) {
+      throw new ValidationError('Account must be an account of this company');
+    }
+  }
+
+  /**
+   * Employee of the company
+   */
+  private async getEmployee(db: Knex | Knex.Transaction, companyId: string, employeeId: string): Promise<any> {
+    const employee = await db('employees')
+      .where('id', employeeId)
+      .where('company_id', companyId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!employee) {
+      throw new NotFoundError('Employee not found');
+    }
+
+    return employee;
+  }
+
+  /**
+   * Base query joining the item definition
+   */
+  private employeeItemQuery(db: Knex | Knex.Transaction): Knex.QueryBuilder {
+    return db('employee_payroll_items')
+      .join('payroll_items', 'employee_payroll_items.payroll_item_id', 'payroll_items.id')
+      .select(
+        'employee_payroll_items.*',
+        'payroll_items.code',
+        'payroll_items.name',
+        'payroll_items.type'
+      );
+  }
+
+  /**
+   * Mirror of a line for a reversal run
+   */
+  private negateLine(line: PayrollRunLine): CalculatedLine {
+    const negate = (amount: number) => roundMoney(-amount);
+    return {
+      employee_id: line.employee_id,
+      salary: line.salary,
+      working_days: line.working_days,
+      days_paid: line.days_paid,
+      unpaid_leave_days: line.unpaid_leave_days,
+      items: line.items.map(item => ({ ...item, amount: negate(item.amount) })),
+      gross: negate(line.gross),
+      taxable_income: negate(line.taxable_income),
+      paye: negate(line.paye),
+      uif_employee: negate(line.uif_employee),
+      uif_employer: negate(line.uif_employer),
+      sdl: negate(line.sdl),
+      deductions: negate(line.deductions),
+      net: negate(line.net)
+    };
+  }
+
+  /**
+   * Map a tax table row
+   */
+  private mapTaxTable(row: any): TaxTable {
+    return {
+      ...row,
+      effective_from: toDateOnly(row.effective_from),
+      brackets: row.brackets.map((bracket: any) => ({ min: Number(bracket.min), rate: Number(bracket.rate) })),
+      primary_rebate: toAmount(row.primary_rebate),
+      secondary_rebate: toAmount(row.secondary_rebate),
+      tertiary_rebate: toAmount(row.tertiary_rebate),
+      uif_rate: toAmount(row.uif_rate),
+      uif_monthly_ceiling: toAmount(row.uif_monthly_ceiling),
+      sdl_rate: toAmount(row.sdl_rate),
+      sdl_threshold: toAmount(row.sdl_threshold),
+      retirement_cap_percent: toAmount(row.retirement_cap_percent),
+      retirement_cap_annual: toAmount(row.retirement_cap_annual)
+    };
+  }
+
+  /**
+   * Map an employee payroll item row
+   */
+  private mapEmployeeItem(row: any): EmployeePayrollItem {
+    return {
+      ...row,
+      amount: toAmount(row.amount),
+      effective_from: toDateOnly(row.effective_from),
+      effective_to: row.effective_to ? toDateOnly(row.effective_to) : null
+    };
+  }
+
+  /**
+   * Map a payroll run row
+   */
+  private mapRun(row: any): PayrollRun {
+    return {
+      ...row,
+      period_start: toDateOnly(row.period_start),
+      period_end: toDateOnly(row.period_end),
+      payment_date: toDateOnly(row.payment_date),
+      gross: toAmount(row.gross),
+      paye: toAmount(row.paye),
+      uif_employee: toAmount(row.uif_employee),
+      uif_employer: toAmount(row.uif_employer),
+      sdl: toAmount(row.sdl),
+      deductions: toAmount(row.deductions),
+      net: toAmount(row.net)
+    };
+  }
+
+  /**
+   * Map a payroll run line row
+   */
+  private mapLine(row: any): PayrollRunLine {
+    return {
+      ...row,
+      salary: toAmount(row.salary),
+      days_paid: toAmount(row.days_paid),
+      unpaid_leave_days: toAmount(row.unpaid_leave_days),
+      gross: toAmount(row.gross),
+      taxable_income: toAmount(row.taxable_income),
+      paye: toAmount(row.paye),
+      uif_employee: toAmount(row.uif_employee),
+      uif_employer: toAmount(row.uif_employer),
+      sdl: toAmount(row.sdl),
+      deductions: toAmount(row.deductions),
+      net: toAmount(row.net)
+    };
+  }
+}
+
+export const payrollService = new PayrollService();
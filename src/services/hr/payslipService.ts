@@ -0,0 +1,419 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../../database/connection';
+import { payrollService, PayrollRun, PayrollRunLine } from './payrollService';
+import { companyService, CompanyWithDepartments } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { buildLetterhead, escapeHtml } from '../financial/invoiceDocumentService';
+import { emailService } from '../email';
+import { fileStorage } from '../fileStorage';
+import { logger } from '../../utils/logger';
+import { formatMoney, roundMoney, toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { renderTablePdf, PdfTableDocument } from '../../utils/pdfUtils';
+import { encryptPdf } from '../../utils/pdfEncryption';
+import { ValidationError, NotFoundError } from '../../middleware/errorHandler';
+
+export interface PayslipEmployee {
+  employee_number: string;
+  name: string;
+  position: string;
+  department: string;
+  email: string | null;
+  id_number: string | null;
+  tax_number: string | null;
+}
+
+export interface Payslip {
+  id: string;
+  company_id: string;
+  run_id: string;
+  run_number: string;
+  employee_id: string;
+  employee_number: string;
+  employee_name: string;
+  period: string;
+  payment_date: string;
+  net: number;
+  file_size: number;
+  generated_at: Date;
+  emailed_to: string | null;
+  emailed_at: Date | null;
+  email_error: string | null;
+  // A finalised reversal has since cancelled this pay
+  reversed: boolean;
+}
+
+export interface IssuePayslipsOptions {
+  // Email the payslips as well as archiving them (default true)
+  email?: boolean;
+}
+
+export interface IssuePayslipsResult {
+  run_id: string;
+  generated: number;
+  emailed: number;
+  failed: Array<{ employee_id: string; employee_number: string; error: string }>;
+}
+
+export interface RenderedPayslip {
+  content: Buffer;
+  content_type: string;
+  filename: string;
+}
+
+/**
+ * Password for an emailed payslip: the employee's ID number, or their tax
+ * number when no ID number is recorded. A date of birth or employee number
+ * is too easy to guess for a document carrying salary and bank details, so
+ * an employee with neither gets no emailed copy and uses the archive instead.
+ */
+export const payslipPassword = (
+  employee: Pick<PayslipEmployee, 'id_number' | 'tax_number'>
+): { password: string; hint: string } | null => {
+  if (employee.id_number) {
+    return { password: employee.id_number, hint: 'your 13-digit ID number' };
+  }
+  if (employee.tax_number) {
+    return { password: employee.tax_number, hint: 'your 10-digit income tax number' };
+  }
+  return null;
+};
+
+/**
+ * Lay out a payslip: letterhead, employee and period details, earnings and
+ * deductions side by side, net pay, then employer contributions
+ */
+export const buildPayslipDocument = (
+  run: Pick<PayrollRun, 'run_number' | 'period' | 'payment_date'>,
+  line: PayrollRunLine,
+  employee: PayslipEmployee,
+  company: Omit<CompanyWithDepartments, 'departments'>
+): PdfTableDocument => {
+  const earnings = line.items.filter(item => item.type === 'earning');
+  const deductions = [
+    { name: 'PAYE', amount: line.paye },
+    { name: 'UIF', amount: line.uif_employee },
+    ...line.items.filter(item => item.type === 'deduction')
+  ].filter(deduction => deduction.amount !== 0);
+  const totalDeductions = roundMoney(line.paye + line.uif_employee + line.deductions);
+
+  const subtitle = [
+    `Employee: ${employee.name} (${employee.employee_number})`,
+    `Position: ${employee.position}, ${employee.department}`,
+    `Period: ${run.period}    Payment date: ${run.payment_date}    Run: ${run.run_number}`,
+    line.days_paid < line.working_days
+      ? `Days paid: ${line.days_paid} of ${line.working_days} working days` +
+        (line.unpaid_leave_days > 0 ? ` (${line.unpaid_leave_days} days unpaid leave)` : '')
+      : null
+  ].filter((text): text is string => text !== null);
+
+  return {
+    title: 'Payslip',
+    letterhead: buildLetterhead(company),
+    subtitle,
+    columns: [
+      { label: 'Description', width: 4 },
+      { label: 'Earnings', width: 1.4, align: 'right' },
+      { label: 'Deductions', width: 1.4, align: 'right' }
+    ],
+    rows: [
+      ...earnings.map(item => ({ cells: [item.name, formatMoney(item.amount), ''] })),
+      ...deductions.map(item => ({ cells: [item.name, '', formatMoney(item.amount)] })),
+      { cells: ['', '', ''] },
+      { cells: ['Total', formatMoney(line.gross), formatMoney(totalDeductions)], bold: true },
+      { cells: [`Net pay (${company.currency_code})`, formatMoney(line.net), ''], bold: true }
+    ],
+    footer: [
+      `Taxable income this period: ${formatMoney(line.taxable_income)}`,
+      `Employer contributions: UIF ${formatMoney(line.uif_employer)}, SDL ${formatMoney(line.sdl)}`
+    ]
+  };
+};
+
+export class PayslipService {
+  /**
+   * Generate and archive payslips for a finalised run and email each
+   * employee a password-protected copy; regenerating replaces the archive
+   */
+  async issuePayslips(
+    companyId: string,
+    runId: string,
+    issuedBy: string,
+    options: IssuePayslipsOptions = {}
+  ): Promise<IssuePayslipsResult> {
+    try {
+      const db = getDatabase();
+      const run = await payrollService.getPayrollRunById(companyId, runId);
+      if (!run) {
+        throw new NotFoundError('Payroll run not found');
+      }
+      if (run.run_type !== 'regular' || run.status !== 'finalised') {
+        throw new ValidationError('Payslips are issued for finalised payroll runs only');
+      }
+
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const lines = run.lines || [];
+      const employees = await this.getEmployees(lines.map(line => line.employee_id));
+      const result: IssuePayslipsResult = { run_id: runId, generated: 0, emailed: 0, failed: [] };
+
+      for (const line of lines) {
+        const employee = employees.get(line.employee_id);
+        if (!employee) {
+          result.failed.push({ employee_id: line.employee_id, employee_number: line.employee_number, error: 'Employee has no user account' });
+          continue;
+        }
+
+        const pdf = await renderTablePdf(buildPayslipDocument(run, line, employee, company));
+        const filePath = [
+          'payslips',
+          companyId,
+          run.period,
+          `${run.run_number}-${employee.employee_number}.pdf`.replace(/[^A-Za-z0-9._-]/g, '_')
+        ].join('/');
+        const fileSize = await fileStorage.save(filePath, pdf);
+
+        const [payslip] = await db('payslips')
+          .insert({
+            id: uuidv4(),
+            company_id: companyId,
+            run_id: runId,
+            employee_id: line.employee_id,
+            period: run.period,
+            file_path: filePath,
+            file_size: fileSize,
+            generated_by: issuedBy,
+            generated_at: new Date()
+          })
+          .onConflict(['run_id', 'employee_id'])
+          .merge(['file_path', 'file_size', 'generated_by', 'generated_at'])
+          .returning('*');
+        result.generated++;
+
+        if (options.email === false) continue;
+
+        const failure = await this.emailPayslip(payslip.id, pdf, run, employee, company);
+        if (failure) {
+          result.failed.push({ employee_id: line.employee_id, employee_number: employee.employee_number, error: failure });
+        } else {
+          result.emailed++;
+        }
+      }
+
+      await auditService.logUserAction({
+        user_id: issuedBy,
+        action: 'payslips_issued',
+        resource_type: 'payroll_run',
+        resource_id: runId,
+        company_id: companyId,
+        details: { run_number: run.run_number, generated: result.generated, emailed: result.emailed, failed: result.failed.length }
+      });
+
+      logger.info('Payslips issued', { runId, companyId, issuedBy, generated: result.generated, emailed: result.emailed });
+
+      return result;
+    } catch (error) {
+      logger.error('Error issuing payslips', { error, companyId, runId });
+      throw error;
+    }
+  }
+
+  /**
+   * Payslip archive of the employee record linked to a user, newest first
+   */
+  async getPayslips(companyId: string, userId: string): Promise<Payslip[]> {
+    try {
+      const db = getDatabase();
+      const employee = await this.getEmployeeForUser(companyId, userId);
+
+      const rows = await this.payslipQuery(db)
+        .where('payslips.employee_id', employee.id)
+        .orderBy([{ column: 'payslips.period', order: 'desc' }, { column: 'payslips.generated_at', order: 'desc' }]);
+
+      return rows.map((row: any) => this.mapPayslip(row));
+    } catch (error) {
+      logger.error('Error fetching payslips', { error, companyId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Archived PDF of one of a user's payslips
+   */
+  async getPayslipFile(companyId: string, userId: string, payslipId: string, requestedBy: string): Promise<RenderedPayslip> {
+    try {
+      const db = getDatabase();
+      const employee = await this.getEmployeeForUser(companyId, userId);
+
+      const row = await this.payslipQuery(db)
+        .where('payslips.id', payslipId)
+        .where('payslips.employee_id', employee.id)
+        .first();
+      if (!row) {
+        throw new NotFoundError('Payslip not found');
+      }
+
+      const content = await fileStorage.read(row.file_path);
+
+      await auditService.logUserAction({
+        user_id: requestedBy,
+        action: 'payslip_downloaded',
+        resource_type: 'payslip',
+        resource_id: payslipId,
+        company_id: companyId,
+        details: { employee_id: employee.id, period: row.period }
+      });
+
+      return {
+        content,
+        content_type: 'application/pdf',
+        filename: `payslip-${row.period}-${row.employee_number}.pdf`.replace(/[^A-Za-z0-9._-]/g, '_')
+      };
+    } catch (error) {
+      logger.error('Error fetching payslip file', { error, companyId, userId, payslipId });
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypt and email one payslip, recording the outcome; returns the error, if any
+   */
+  private async emailPayslip(
+    payslipId: string,
+    pdf: Buffer,
+    run: PayrollRun,
+    employee: PayslipEmployee,
+    company: Omit<CompanyWithDepartments, 'departments'>
+  ): Promise<string | null> {
+    const db = getDatabase();
+
+    if (!employee.email) {
+      await db('payslips').where('id', payslipId).update({ email_error: 'Employee has no email address', updated_at: new Date() });
+      return 'Employee has no email address';
+    }
+
+    const secret = payslipPassword(employee);
+    if (!secret) {
+      const message = 'Employee has no ID or tax number to protect the emailed copy';
+      await db('payslips').where('id', payslipId).update({ email_error: message, updated_at: new Date() });
+      return message;
+    }
+
+    try {
+      const { password, hint } = secret;
+      await emailService.sendPayslipEmail(employee.email, {
+        companyName: escapeHtml(company.name),
+        employeeName: escapeHtml(employee.name),
+        period: run.period,
+        passwordHint: hint,
+        attachmentName: `payslip-${run.period}.pdf`,
+        attachmentContent: await encryptPdf(pdf, password)
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await db('payslips').where('id', payslipId).update({ email_error: message, updated_at: new Date() });
+      return message;
+    }
+
+    await db('payslips')
+      .where('id', payslipId)
+      .update({ emailed_to: employee.email, emailed_at: new Date(), email_error: null, updated_at: new Date() });
+    return null;
+  }
+
+  /**
+   * Names and contact details of the employees on a run
+   */
+  private async getEmployees(employeeIds: string[]): Promise<Map<string, PayslipEmployee>> {
+    if (employeeIds.length === 0) return new Map();
+
+    const rows = await getDatabase()('employees')
+      .join('users', 'employees.user_id', 'users.id')
+      .whereIn('employees.id', employeeIds)
+      .select(
+        'employees.id',
+        'employees.employee_number',
+        'employees.position',
+        'employees.department',
+        'employees.id_number',
+        'employees.tax_number',
+        'users.email',
+        'users.first_name',
+        'users.last_name'
+      );
+
+    return new Map(rows.map((row: any) => [row.id, {
+      employee_number: row.employee_number,
+      name: [row.first_name, row.last_name].filter(Boolean).join(' '),
+      position: row.position,
+      department: row.department,
+      email: row.email || null,
+      id_number: row.id_number || null,
+      tax_number: row.tax_number || null
+    }]));
+  }
+
+  /**
+   * Employee record of a user in the company
+   */
+  private async getEmployeeForUser(companyId: string, userId: string): Promise<any> {
+    const employee = await getDatabase()('employees')
+      .where('company_id', companyId)
+      .where('user_id', userId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!employee) {
+      throw new NotFoundError('No employee record for this user');
+    }
+
+    return employee;
+  }
+
+  /**
+   * Base query joining the run, line and employee
+   */
+  private payslipQuery(db: ReturnType<typeof getDatabase>) {
+    return db('payslips')
+      .join('payroll_runs', 'payslips.run_id', 'payroll_runs.id')
+      .join('payroll_run_lines', function () {
+        this.on('payroll_run_lines.run_id', '=', 'payslips.run_id')
+          .andOn('payroll_run_lines.employee_id', '=', 'payslips.employee_id');
+      })
+      .join('employees', 'payslips.employee_id', 'employees.id')
+      .join('users', 'employees.user_id', 'users.id')
+      .select(
+        'payslips.*',
+        'payroll_runs.run_number',
+        'payroll_runs.payment_date',
+        'payroll_run_lines.net',
+        'employees.employee_number',
+        db.raw("concat_ws(' ', users.first_name, users.last_name) as employee_name"),
+        db.raw(`exists (
+          select 1 from payroll_runs reversals
+          join payroll_run_lines reversed on reversed.run_id = reversals.id
+          where reversals.corrects_run_id = payslips.run_id
+            and reversals.status = 'finalised'
+            and reversed.employee_id = payslips.employee_id
+        ) as reversed`)
+      );
+  }
+
+  /**
+   * Map a payslip row
+   */
+  private mapPayslip(row: any): Payslip {
+    const { file_path, generated_by, created_at, updated_at, ...payslip } = row;
+    return {
+      ...payslip,
+      payment_date: toDateOnly(row.payment_date),
+      net: toAmount(row.net),
+      reversed: Boolean(row.reversed)
+    };
+  }
+}
+
+export const payslipService = new PayslipService();
@@ -0,0 +1,427 @@
+import { getDatabase } from '../../database/connection';
+import { companyService, CompanyWithDepartments } from '../../core/company/companyService';
+import { auditService } from '../../core/audit/auditService';
+import { buildLetterhead } from '../financial/invoiceDocumentService';
+import { logger } from '../../utils/logger';
+import { formatMoney, roundMoney, toAmount } from '../../utils/currencyUtils';
+import { toDateOnly } from '../../utils/dateUtils';
+import { renderTablePdf, PdfTableDocument } from '../../utils/pdfUtils';
+import { PayslipItem } from './payrollService';
+import { taxYearRange } from './payrollCalculator';
+import {
+  CertificateAmount,
+  CertificateEmployee,
+  CertificateEmployer,
+  CertificateIncome,
+  CertificateIssue,
+  CertificateInput,
+  SOURCE_CODES,
+  TaxCertificate,
+  buildCertificate,
+  certificateNumber,
+  defaultSourceCode,
+  renderEmp501,
+  validateCertificate,
+  validateEmployer
+} from './taxCertificates';
+import { ValidationError, NotFoundError } from '../../middleware/errorHandler';
+
+export interface TaxYearReconciliation {
+  tax_year: number;
+  employer: CertificateEmployer;
+  certificates: TaxCertificate[];
+  issues: CertificateIssue[];
+}
+
+export interface CertificateValidationReport {
+  tax_year: number;
+  certificate_count: number;
+  error_count: number;
+  warning_count: number;
+  // Whether the EMP501 file can be exported
+  ready: boolean;
+  issues: CertificateIssue[];
+}
+
+export interface RenderedCertificateFile {
+  content: Buffer;
+  content_type: string;
+  filename: string;
+}
+
+export interface Emp501Options {
+  // Mark the file as a test submission
+  test?: boolean;
+}
+
+interface ItemDefinition {
+  type: 'earning' | 'deduction';
+  taxable: boolean;
+  annual_payment: boolean;
+  retirement_fund: boolean;
+  sars_code: string | null;
+}
+
+// Basic salary is generated by the payroll run rather than defined as an item
+const BASIC_SALARY: ItemDefinition = {
+  type: 'earning',
+  taxable: true,
+  annual_payment: false,
+  retirement_fund: false,
+  sars_code: '3601'
+};
+
+export class TaxCertificateService {
+  /**
+   * IRP5/IT3(a) certificates for a tax year from its finalised payroll runs,
+   * with the problems SARS would reject
+   */
+  async getReconciliation(companyId: string, taxYear: number, requestedBy: string): Promise<TaxYearReconciliation> {
+    try {
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const employer = await this.getEmployer(company, requestedBy);
+      const { inputs, issues: itemIssues } = await this.collectInputs(companyId, taxYear);
+
+      const certificates = inputs.map((input, index) => buildCertificate(
+        input,
+        taxYear,
+        certificateNumber(employer.paye_reference_number, taxYear, index + 1)
+      ));
+
+      const issues = [
+        ...validateEmployer(employer, certificates),
+        ...certificates.flatMap(certificate => validateCertificate(certificate)),
+        ...itemIssues
+      ];
+
+      return { tax_year: taxYear, employer, certificates, issues };
+    } catch (error) {
+      logger.error('Error building tax certificates', { error, companyId, taxYear });
+      throw error;
+    }
+  }
+
+  /**
+   * Missing or invalid tax and identity numbers for a tax year
+   */
+  async getValidationReport(companyId: string, taxYear: number, requestedBy: string): Promise<CertificateValidationReport> {
+    const reconciliation = await this.getReconciliation(companyId, taxYear, requestedBy);
+    const errors = reconciliation.issues.filter(issue => issue.severity === 'error').length;
+
+    return {
+      tax_year: taxYear,
+      certificate_count: reconciliation.certificates.length,
+      error_count: errors,
+      warning_count: reconciliation.issues.length - errors,
+      ready: errors === 0 && reconciliation.certificates.length > 0,
+      issues: reconciliation.issues
+    };
+  }
+
+  /**
+   * PDF of one employee's certificate
+   */
+  async getCertificatePdf(
+    companyId: string,
+    taxYear: number,
+    employeeId: string,
+    requestedBy: string
+  ): Promise<RenderedCertificateFile> {
+    try {
+      const company = await companyService.getCompanyById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company not found');
+      }
+
+      const reconciliation = await this.getReconciliation(companyId, taxYear, requestedBy);
+      const certificate = reconciliation.certificates.find(entry => entry.employee.employee_id === employeeId);
+      if (!certificate) {
+        throw new NotFoundError('Employee was not paid in this tax year');
+      }
+
+      const content = await renderTablePdf(buildCertificateDocument(certificate, reconciliation.employer, company));
+
+      await auditService.logUserAction({
+        user_id: requestedBy,
+        action: 'tax_certificate_downloaded',
+        resource_type: 'employee',
+        resource_id: employeeId,
+        company_id: companyId,
+        details: { tax_year: taxYear, certificate_number: certificate.certificate_number, type: certificate.type }
+      });
+
+      return {
+        content,
+        content_type: 'application/pdf',
+        filename: `${certificate.type}-${taxYear}-${certificate.employee.employee_number}.pdf`.replace(/[^A-Za-z0-9._-]/g, '_')
+      };
+    } catch (error) {
+      logger.error('Error rendering tax certificate', { error, companyId, taxYear, employeeId });
+      throw error;
+    }
+  }
+
+  /**
+   * EMP501 reconciliation file for import into e@syFile; refused while the
+   * validation report has errors
+   */
+  async exportEmp501(
+    companyId: string,
+    taxYear: number,
+    requestedBy: string,
+    options: Emp501Options = {}
+  ): Promise<RenderedCertificateFile> {
+    try {
+      const reconciliation = await this.getReconciliation(companyId, taxYear, requestedBy);
+      if (reconciliation.certificates.length === 0) {
+        throw new ValidationError(`No finalised payroll runs in the ${taxYear} tax year`);
+      }
+
+      const errors = reconciliation.issues.filter(issue => issue.severity === 'error');
+      if (errors.length > 0) {
+        throw new ValidationError(
+          `${errors.length} problems must be fixed before exporting, see the validation report: ` +
+          errors.slice(0, 3).map(issue => issue.employee_number ? `${issue.employee_number}: ${issue.message}` : issue.message).join('; ')
+        );
+      }
+
+      const content = renderEmp501(reconciliation.employer, reconciliation.certificates, taxYear, !options.test);
+
+      await auditService.logUserAction({
+        user_id: requestedBy,
+        action: 'emp501_exported',
+        resource_type: 'company',
+        resource_id: companyId,
+        company_id: companyId,
+        details: { tax_year: taxYear, certificates: reconciliation.certificates.length, test: !!options.test }
+      });
+
+      logger.info('EMP501 exported', { companyId, taxYear, certificates: reconciliation.certificates.length, requestedBy });
+
+      return {
+        content: Buffer.from(content, 'utf8'),
+        content_type: 'text/csv',
+        filename: `EMP501-${reconciliation.employer.paye_reference_number}-${taxYear}${options.test ? '-TEST' : ''}.csv`
+      };
+    } catch (error) {
+      logger.error('Error exporting EMP501', { error, companyId, taxYear });
+      throw error;
+    }
+  }
+
+  /**
+   * Employer details from the company, with the requesting user as contact
+   */
+  private async getEmployer(
+    company: Omit<CompanyWithDepartments, 'departments'>,
+    requestedBy: string
+  ): Promise<CertificateEmployer> {
+    const user = await getDatabase()('users')
+      .where('id', requestedBy)
+      .select('first_name', 'last_name', 'email', 'phone')
+      .first();
+
+    return {
+      name: company.name,
+      paye_reference_number: company.paye_reference_number || null,
+      sdl_reference_number: company.sdl_reference_number || null,
+      uif_reference_number: company.uif_reference_number || null,
+      address_line_1: company.address_line_1 || null,
+      city: company.city || null,
+      postal_code: company.postal_code || null,
+      contact_name: [user?.first_name, user?.last_name].filter(Boolean).join(' '),
+      contact_phone: user?.phone || company.phone || null,
+      contact_email: user?.email || company.email || ''
+    };
+  }
+
+  /**
+   * Each employee's totals by source code over the tax year's finalised
+   * runs; reversal runs carry negative amounts and net out
+   */
+  private async collectInputs(
+    companyId: string,
+    taxYear: number
+  ): Promise<{ inputs: CertificateInput[]; issues: CertificateIssue[] }> {
+    const db = getDatabase();
+    const range = taxYearRange(taxYear);
+
+    const lines = await db('payroll_run_lines')
+      .join('payroll_runs', 'payroll_run_lines.run_id', 'payroll_runs.id')
+      .where('payroll_runs.company_id', companyId)
+      .where('payroll_runs.status', 'finalised')
+      .whereBetween('payroll_runs.period', [range.start.slice(0, 7), range.end.slice(0, 7)])
+      .select('payroll_run_lines.*', 'payroll_runs.period');
+
+    const definitions = new Map<string, ItemDefinition>(
+      (await db('payroll_items').where('company_id', companyId)).map((item: any) => [item.code, item])
+    );
+    definitions.set('BASIC', BASIC_SALARY);
+
+    const employees = await this.getEmployees(companyId, [...new Set(lines.map((line: any) => line.employee_id as string))]);
+    const issues: CertificateIssue[] = [];
+
+    const totals = new Map<string, {
+      income: Map<string, CertificateIncome>;
+      deductions: Map<string, CertificateAmount>;
+      net_by_period: Map<string, number>;
+      paye: number;
+      uif_employee: number;
+      uif_employer: number;
+      sdl: number;
+    }>();
+
+    for (const line of lines) {
+      let total = totals.get(line.employee_id);
+      if (!total) {
+        total = { income: new Map(), deductions: new Map(), net_by_period: new Map(), paye: 0, uif_employee: 0, uif_employer: 0, sdl: 0 };
+        totals.set(line.employee_id, total);
+      }
+
+      total.paye += toAmount(line.paye);
+      total.uif_employee += toAmount(line.uif_employee);
+      total.uif_employer += toAmount(line.uif_employer);
+      total.sdl += toAmount(line.sdl);
+      total.net_by_period.set(line.period, (total.net_by_period.get(line.period) || 0) + toAmount(line.net));
+
+      const items: PayslipItem[] = typeof line.items === 'string' ? JSON.parse(line.items) : line.items;
+      for (const item of items) {
+        const definition = definitions.get(item.code) || { ...BASIC_SALARY, type: item.type, sars_code: null };
+        const code = definition.sars_code || defaultSourceCode(definition);
+        const employee = employees.get(line.employee_id)!;
+
+        if (item.type === 'earning' && !definition.taxable && !definition.sars_code) {
+          if (!issues.some(issue => issue.employee_id === line.employee_id && issue.field === item.code)) {
+            issues.push({
+              severity: 'warning',
+              employee_id: line.employee_id,
+              employee_number: employee.employee_number,
+              field: item.code,
+              message: `Non-taxable earning ${item.name} has no SARS source code and is left off the certificate`
+            });
+          }
+          continue;
+        }
+        if (!code) continue;
+
+        const target = item.type === 'earning' ? total.income : total.deductions;
+        const entry = target.get(code) || {
+          code,
+          description: SOURCE_CODES[code] || item.name,
+          amount: 0,
+          ...(item.type === 'earning' ? { taxable: definition.taxable } : {})
+        };
+        entry.amount = roundMoney(entry.amount + toAmount(item.amount));
+        target.set(code, entry as CertificateIncome);
+      }
+    }
+
+    const inputs: CertificateInput[] = [...totals.entries()].map(([employeeId, total]) => ({
+      employee: employees.get(employeeId)!,
+      periods_worked: [...total.net_by_period.values()].filter(net => roundMoney(net) !== 0).length,
+      income: [...total.income.values()],
+      deductions: [...total.deductions.values()],
+      paye: roundMoney(total.paye),
+      uif_employee: roundMoney(total.uif_employee),
+      uif_employer: roundMoney(total.uif_employer),
+      sdl: roundMoney(total.sdl)
+    }));
+
+    // Fully reversed employees have nothing to certify
+    return {
+      inputs: inputs
+        .filter(input => input.periods_worked > 0)
+        .sort((a, b) => a.employee.employee_number.localeCompare(b.employee.employee_number)),
+      issues
+    };
+  }
+
+  /**
+   * Personal details certificates are issued under
+   */
+  private async getEmployees(companyId: string, employeeIds: string[]): Promise<Map<string, CertificateEmployee>> {
+    if (employeeIds.length === 0) return new Map();
+
+    const rows = await getDatabase()('employees')
+      .join('users', 'employees.user_id', 'users.id')
+      .where('employees.company_id', companyId)
+      .whereIn('employees.id', employeeIds)
+      .select(
+        'employees.id',
+        'employees.employee_number',
+        'employees.id_number',
+        'employees.tax_number',
+        'employees.date_of_birth',
+        'employees.hire_date',
+        'employees.termination_date',
+        'users.first_name',
+        'users.last_name'
+      );
+
+    return new Map(rows.map((row: any) => [row.id, {
+      employee_id: row.id,
+      employee_number: row.employee_number,
+      first_names: row.first_name,
+      surname: row.last_name,
+      id_number: row.id_number || null,
+      tax_number: row.tax_number || null,
+      date_of_birth: row.date_of_birth ? toDateOnly(row.date_of_birth) : null,
+      hire_date: toDateOnly(row.hire_date),
+      termination_date: row.termination_date ? toDateOnly(row.termination_date) : null
+    }]));
+  }
+}
+
+/**
+ * Printable layout of a certificate: source codes and amounts as reported
+ * in the EMP501 file
+ */
+export const buildCertificateDocument = (
+  certificate: TaxCertificate,
+  employer: CertificateEmployer,
+  company: Omit<CompanyWithDepartments, 'departments'>
+): PdfTableDocument => {
+  const employee = certificate.employee;
+  const range = taxYearRange(certificate.tax_year);
+
+  return {
+    title: certificate.type === 'IRP5' ? 'IRP5 Employee Tax Certificate' : 'IT3(a) Employee Tax Certificate',
+    letterhead: buildLetterhead(company),
+    subtitle: [
+      `Certificate number: ${certificate.certificate_number}`,
+      `Tax year: ${certificate.tax_year} (${range.start} to ${range.end})`,
+      `Employer PAYE reference: ${employer.paye_reference_number || '-'}`,
+      `Employee: ${employee.first_names} ${employee.surname} (${employee.employee_number})`,
+      `Identity number: ${employee.id_number || '-'}    Tax reference: ${employee.tax_number || '-'}`,
+      `Employed: ${certificate.employed_from} to ${certificate.employed_to}    ` +
+        `Periods worked: ${certificate.periods_worked} of ${certificate.pay_periods}`
+    ],
+    columns: [
+      { label: 'Code', width: 0.8 },
+      { label: 'Description', width: 4 },
+      { label: 'Amount', width: 1.4, align: 'right' }
+    ],
+    rows: [
+      ...certificate.income.map(entry => ({ cells: [entry.code, entry.description, formatMoney(Math.trunc(entry.amount))] })),
+      ...(certificate.gross_non_taxable !== 0
+        ? [{ cells: ['3696', 'Gross non-taxable income', formatMoney(Math.trunc(certificate.gross_non_taxable))], bold: true }]
+        : []),
+      { cells: ['3699', 'Gross employment income (taxable)', formatMoney(Math.trunc(certificate.gross_taxable))], bold: true },
+      ...certificate.deductions.map(entry => ({ cells: [entry.code, entry.description, formatMoney(Math.trunc(entry.amount))] })),
+      { cells: ['', '', ''] },
+      { cells: ['4102', 'PAYE', formatMoney(certificate.paye)] },
+      { cells: ['4141', 'UIF contributions (employee and employer)', formatMoney(certificate.uif)] },
+      { cells: ['4142', 'SDL contributions', formatMoney(certificate.sdl)] },
+      { cells: ['4149', 'Total tax, SDL and UIF', formatMoney(certificate.total_tax)], bold: true }
+    ],
+    footer: certificate.it3a_reason
+      ? [`No tax was withheld (reason code ${certificate.it3a_reason})`]
+      : undefined
+  };
+};
+
+export const taxCertificateService = new TaxCertificateService();
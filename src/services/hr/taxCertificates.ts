@@ -0,0 +1,387 @@
+import { roundMoney, sumMoney } from '../../utils/currencyUtils';
+import { taxYearRange } from './payrollCalculator';
+
+/**
+ * Year-end employee tax certificates and the EMP501 reconciliation file.
+ *
+ * Each employee paid in a tax year gets an IRP5, or an IT3(a) when no PAYE
+ * was withheld, listing income and deductions under SARS source codes. The
+ * EMP501 file follows the SARS e@syFile import layout: one line per record
+ * of comma-separated code,value pairs ending in 9999, with an employer
+ * header, one record per certificate and a trailer of record, code and
+ * amount totals. Income and deduction amounts are whole rands; tax, UIF
+ * and SDL amounts keep their cents.
+ */
+
+export type CertificateType = 'IRP5' | 'IT3(a)';
+
+export interface CertificateEmployer {
+  name: string;
+  paye_reference_number: string | null;
+  sdl_reference_number: string | null;
+  uif_reference_number: string | null;
+  address_line_1: string | null;
+  city: string | null;
+  postal_code: string | null;
+  contact_name: string;
+  contact_phone: string | null;
+  contact_email: string;
+}
+
+export interface CertificateEmployee {
+  employee_id: string;
+  employee_number: string;
+  first_names: string;
+  surname: string;
+  id_number: string | null;
+  tax_number: string | null;
+  date_of_birth: string | null;
+  hire_date: string;
+  termination_date: string | null;
+}
+
+export interface CertificateAmount {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export interface CertificateIncome extends CertificateAmount {
+  taxable: boolean;
+}
+
+export interface CertificateInput {
+  employee: CertificateEmployee;
+  periods_worked: number;
+  income: CertificateIncome[];
+  deductions: CertificateAmount[];
+  paye: number;
+  uif_employee: number;
+  uif_employer: number;
+  sdl: number;
+}
+
+export interface TaxCertificate {
+  certificate_number: string;
+  type: CertificateType;
+  tax_year: number;
+  employee: CertificateEmployee;
+  employed_from: string;
+  employed_to: string;
+  pay_periods: number;
+  periods_worked: number;
+  income: CertificateIncome[];
+  deductions: CertificateAmount[];
+  // 3699 and 3696
+  gross_taxable: number;
+  gross_non_taxable: number;
+  paye: number;
+  // Employee and employer UIF (4141)
+  uif: number;
+  sdl: number;
+  // PAYE, UIF and SDL (4149)
+  total_tax: number;
+  // Why no tax was withheld, on IT3(a)s (4150)
+  it3a_reason: string | null;
+}
+
+export interface CertificateIssue {
+  severity: 'error' | 'warning';
+  employee_id: string | null;
+  employee_number: string | null;
+  field: string;
+  message: string;
+}
+
+const PAY_PERIODS = 12;
+
+// Descriptions of the source codes payroll items are usually reported under
+export const SOURCE_CODES: Record<string, string> = {
+  '3601': 'Income',
+  '3605': 'Annual payment',
+  '3606': 'Commission',
+  '3615': 'Director\'s remuneration',
+  '3701': 'Travel allowance',
+  '3702': 'Reimbursive travel allowance',
+  '3713': 'Other allowances',
+  '3714': 'Other allowances (non-taxable)',
+  '3801': 'General fringe benefits',
+  '3810': 'Medical scheme fees (fringe benefit)',
+  '4001': 'Pension fund contributions',
+  '4003': 'Provident fund contributions',
+  '4005': 'Medical scheme contributions',
+  '4006': 'Retirement annuity fund contributions',
+  '4474': 'Employer medical scheme contributions'
+};
+
+// IT3(a) reasons for not withholding tax
+const IT3A_BELOW_THRESHOLD = '02';
+const IT3A_NON_TAXABLE = '03';
+
+/**
+ * Source code for an item without one configured
+ */
+export const defaultSourceCode = (item: { type: 'earning' | 'deduction'; annual_payment?: boolean; retirement_fund?: boolean }): string | null => {
+  if (item.type === 'earning') return item.annual_payment ? '3605' : '3601';
+  return item.retirement_fund ? '4001' : null;
+};
+
+/**
+ * Whether a South African identity number is well formed: a valid YYMMDD
+ * birth date and a Luhn check digit
+ */
+export const isValidIdNumber = (idNumber: string): boolean => {
+  if (!/^\d{13}$/.test(idNumber)) return false;
+
+  const month = parseInt(idNumber.slice(2, 4));
+  const day = parseInt(idNumber.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1 || day > 31) return false;
+
+  let sum = 0;
+  for (let index = 0; index < 13; index++) {
+    let digit = parseInt(idNumber[12 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Whether an income tax reference number has the SARS format
+ */
+export const isValidTaxNumber = (taxNumber: string): boolean => /^[01239]\d{9}$/.test(taxNumber);
+
+/**
+ * 30-character certificate number: PAYE reference, tax year, reconciliation
+ * period and a sequence unique within the submission
+ */
+export const certificateNumber = (payeReference: string | null, taxYear: number, sequence: number): string => {
+  return `${(payeReference || '').padStart(10, '0')}${taxYear}${taxYear}02${String(sequence).padStart(10, '0')}`;
+};
+
+/**
+ * Certificate for an employee's totals for a tax year
+ */
+export const buildCertificate = (
+  input: CertificateInput,
+  taxYear: number,
+  number: string
+): TaxCertificate => {
+  const range = taxYearRange(taxYear);
+  const employee = input.employee;
+  const income = input.income.filter(entry => entry.amount !== 0).sort((a, b) => a.code.localeCompare(b.code));
+  const deductions = input.deductions.filter(entry => entry.amount !== 0).sort((a, b) => a.code.localeCompare(b.code));
+
+  const grossTaxable = sumMoney(income.filter(entry => entry.taxable).map(entry => entry.amount));
+  const grossNonTaxable = sumMoney(income.filter(entry => !entry.taxable).map(entry => entry.amount));
+  const uif = roundMoney(input.uif_employee + input.uif_employer);
+  const type: CertificateType = input.paye > 0 ? 'IRP5' : 'IT3(a)';
+
+  return {
+    certificate_number: number,
+    type,
+    tax_year: taxYear,
+    employee,
+    employed_from: employee.hire_date > range.start ? employee.hire_date : range.start,
+    employed_to: employee.termination_date && employee.termination_date < range.end ? employee.termination_date : range.end,
+    pay_periods: PAY_PERIODS,
+    periods_worked: input.periods_worked,
+    income,
+    deductions,
+    gross_taxable: grossTaxable,
+    gross_non_taxable: grossNonTaxable,
+    paye: roundMoney(input.paye),
+    uif,
+    sdl: roundMoney(input.sdl),
+    total_tax: roundMoney(input.paye + uif + input.sdl),
+    it3a_reason: type === 'IT3(a)' ? (grossTaxable > 0 ? IT3A_BELOW_THRESHOLD : IT3A_NON_TAXABLE) : null
+  };
+};
+
+/**
+ * Problems SARS would reject in the employer details
+ */
+export const validateEmployer = (employer: CertificateEmployer, certificates: TaxCertificate[]): CertificateIssue[] => {
+  const issues: CertificateIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({
+    severity: 'error',
+    employee_id: null,
+    employee_number: null,
+    field,
+    message
+  });
+
+  if (!employer.paye_reference_number) {
+    issue('paye_reference_number', 'Company has no PAYE reference number');
+  } else if (!/^7\d{9}$/.test(employer.paye_reference_number)) {
+    issue('paye_reference_number', 'PAYE reference number must be 10 digits starting with 7');
+  }
+
+  if (employer.sdl_reference_number && !/^L\d{9}$/.test(employer.sdl_reference_number)) {
+    issue('sdl_reference_number', 'SDL reference number must be L followed by 9 digits');
+  } else if (!employer.sdl_reference_number && certificates.some(certificate => certificate.sdl !== 0)) {
+    issue('sdl_reference_number', 'Company has no SDL reference number but SDL was paid');
+  }
+
+  if (employer.uif_reference_number && !/^U\d{9}$/.test(employer.uif_reference_number)) {
+    issue('uif_reference_number', 'UIF reference number must be U followed by 9 digits');
+  } else if (!employer.uif_reference_number && certificates.some(certificate => certificate.uif !== 0)) {
+    issue('uif_reference_number', 'Company has no UIF reference number but UIF was paid');
+  }
+
+  if (!employer.contact_phone) {
+    issue('contact_phone', 'A contact telephone number is required for the submission');
+  }
+
+  return issues;
+};
+
+/**
+ * Problems with an employee's certificate: tax numbers are required on
+ * IRP5s, and every certificate needs a valid identity number
+ */
+export const validateCertificate = (certificate: TaxCertificate): CertificateIssue[] => {
+  const employee = certificate.employee;
+  const issues: CertificateIssue[] = [];
+  const issue = (severity: CertificateIssue['severity'], field: string, message: string) => issues.push({
+    severity,
+    employee_id: employee.employee_id,
+    employee_number: employee.employee_number,
+    field,
+    message
+  });
+
+  if (!employee.tax_number) {
+    issue(certificate.type === 'IRP5' ? 'error' : 'warning', 'tax_number', 'Income tax reference number is missing');
+  } else if (!isValidTaxNumber(employee.tax_number)) {
+    issue('error', 'tax_number', 'Income tax reference number must be 10 digits starting with 0, 1, 2, 3 or 9');
+  }
+
+  if (!employee.id_number) {
+    issue('error', 'id_number', 'Identity number is missing');
+  } else if (!isValidIdNumber(employee.id_number)) {
+    issue('error', 'id_number', 'Identity number is not a valid South African ID number');
+  } else if (employee.date_of_birth && employee.date_of_birth.slice(2).replace(/-/g, '') !== employee.id_number.slice(0, 6)) {
+    issue('warning', 'date_of_birth', 'Date of birth does not match the identity number');
+  }
+
+  if (!employee.date_of_birth) {
+    issue('warning', 'date_of_birth', 'Date of birth is missing');
+  }
+
+  if (certificate.paye < 0 || certificate.gross_taxable < 0) {
+    issue('error', 'amounts', 'Reversals exceed the amounts paid for the year');
+  }
+
+  return issues;
+};
+
+/**
+ * Text value: quoted, without characters the import format cannot carry
+ */
+const text = (value: string): string => `"${value.replace(/["\r\n]/g, ' ').replace(/,/g, ' ').trim()}"`;
+
+const date = (value: string): string => value.replace(/-/g, '');
+
+/**
+ * Amount for a code: whole rands for income and deductions, rands and
+ * cents for tax, UIF and SDL
+ */
+const amount = (code: string, value: number): string => {
+  return parseInt(code) >= 4100 && parseInt(code) < 4200 ? value.toFixed(2) : String(Math.trunc(value));
+};
+
+const initials = (names: string): string => {
+  return names.split(/\s+/).filter(Boolean).map(name => name[0].toUpperCase()).join('');
+};
+
+/**
+ * EMP501 reconciliation file for a tax year's certificates
+ */
+export const renderEmp501 = (
+  employer: CertificateEmployer,
+  certificates: TaxCertificate[],
+  taxYear: number,
+  live: boolean
+): string => {
+  const records: Array<Array<[string, string]>> = [];
+  let totalAmount = 0;
+  const money = (code: string, value: number): [string, string] => {
+    const formatted = amount(code, value);
+    totalAmount += parseFloat(formatted);
+    return [code, formatted];
+  };
+
+  const header: Array<[string, string]> = [
+    ['2010', text(employer.name)],
+    ['2015', text(live ? 'LIVE' : 'TEST')],
+    ['2020', employer.paye_reference_number || ''],
+    ...(employer.sdl_reference_number ? [['2022', employer.sdl_reference_number] as [string, string]] : []),
+    ...(employer.uif_reference_number ? [['2024', employer.uif_reference_number] as [string, string]] : []),
+    ['2025', text(employer.contact_name)],
+    ['2026', (employer.contact_phone || '').replace(/[^\d+]/g, '')],
+    ['2027', text(employer.contact_email)],
+    ['2028', text('NitroERP')],
+    ['2030', String(taxYear)],
+    ['2031', `${taxYear}02`],
+    ...(employer.address_line_1 ? [['2063', text(employer.address_line_1)] as [string, string]] : []),
+    ...(employer.city ? [['2065', text(employer.city)] as [string, string]] : []),
+    ...(employer.postal_code ? [['2080', employer.postal_code] as [string, string]] : [])
+  ];
+  records.push(header);
+
+  for (const certificate of certificates) {
+    const employee = certificate.employee;
+    const record: Array<[string, string]> = [
+      ['3010', certificate.certificate_number],
+      ['3015', certificate.type],
+      ['3020', employee.id_number ? 'A' : 'B'],
+      ['3025', String(certificate.tax_year)],
+      ['3030', text(employee.surname)],
+      ['3040', text(employee.first_names)],
+      ['3050', text(initials(employee.first_names))],
+      ...(employee.id_number ? [['3060', employee.id_number] as [string, string]] : []),
+      ...(employee.date_of_birth ? [['3080', date(employee.date_of_birth)] as [string, string]] : []),
+      ...(employee.tax_number ? [['3100', employee.tax_number] as [string, string]] : []),
+      ['3160', text(employee.employee_number)],
+      ['3170', date(certificate.employed_from)],
+      ['3180', date(certificate.employed_to)],
+      ['3200', certificate.pay_periods.toFixed(4)],
+      ['3210', certificate.periods_worked.toFixed(4)]
+    ];
+
+    for (const entry of certificate.income) {
+      record.push(money(entry.code, entry.amount));
+    }
+    if (certificate.gross_non_taxable !== 0) record.push(money('3696', certificate.gross_non_taxable));
+    record.push(money('3699', certificate.gross_taxable));
+
+    for (const entry of certificate.deductions) {
+      record.push(money(entry.code, entry.amount));
+    }
+
+    if (certificate.paye !== 0) record.push(money('4102', certificate.paye));
+    if (certificate.uif !== 0) record.push(money('4141', certificate.uif));
+    if (certificate.sdl !== 0) record.push(money('4142', certificate.sdl));
+    record.push(money('4149', certificate.total_tax));
+    if (certificate.it3a_reason) record.push(['4150', certificate.it3a_reason]);
+
+    records.push(record);
+  }
+
+  const codeCount = records.reduce((sum, record) => sum + record.length + 1, 0);
+  const trailer: Array<[string, string]> = [
+    ['6010', String(certificates.length)],
+    ['6020', String(codeCount)],
+    ['6030', totalAmount.toFixed(2)]
+  ];
+
+  return [...records, trailer]
+    .map(record => [...record, ['9999', ''] as [string, string]]
+      .map(([code, value]) => code === '9999' ? code : `${code},${value}`)
+      .join(','))
+    .join('\r\n') + '\r\n';
+};
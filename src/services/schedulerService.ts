@@ -0,0 +1,66 @@
+import { CronJob } from 'cron';
+import { logger } from '../utils/logger';
+import { zonedDateTime } from '../utils/dateUtils';
+
+const DEFAULT_TIMEZONE = 'Africa/Johannesburg';
+
+const jobs = new Map<string, CronJob>();
+const running = new Set<string>();
+
+/**
+ * Run a task on a cron schedule (seconds field included). A run is skipped
+ * while the previous one is still busy, and failures are logged rather than thrown.
+ */
+export const scheduleJob = (
+  name: string,
+  cronTime: string,
+  task: () => Promise<void>,
+  timeZone: string = DEFAULT_TIMEZONE
+): void => {
+  if (jobs.has(name)) {
+    jobs.get(name)!.stop();
+  }
+
+  const job = new CronJob(cronTime, async () => {
+    if (running.has(name)) {
+      logger.warn('Scheduled job still running, skipping tick', { job: name });
+      return;
+    }
+
+    running.add(name);
+    const startedAt = Date.now();
+    try {
+      await task();
+      logger.info('Scheduled job completed', { job: name, durationMs: Date.now() - startedAt });
+    } catch (error) {
+      logger.error('Scheduled job failed', {
+        job: name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      running.delete(name);
+    }
+  }, null, true, timeZone);
+
+  jobs.set(name, job);
+  logger.info('Scheduled job registered', { job: name, cronTime, timeZone });
+};
+
+/**
+ * Calendar date of an instant in the jobs' timezone. Jobs pass this to
+ * services instead of the server's local date, which differs around midnight.
+ */
+export const scheduledDate = (instant: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string => {
+  return zonedDateTime(instant, timeZone).date;
+};
+
+/**
+ * Stop every registered job (used on shutdown)
+ */
+export const stopScheduledJobs = (): void => {
+  for (const [name, job] of jobs) {
+    job.stop();
+    logger.info('Scheduled job stopped', { job: name });
+  }
+  jobs.clear();
+};
@@ -0,0 +1,76 @@
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+export interface SequenceDefaults {
+  prefix: string;
+  padding?: number;
+}
+
+/**
+ * Per-company document numbering (journal entries, invoices, ...).
+ *
+ * Numbers are allocated inside the caller's transaction with a row lock so
+ * concurrent requests never receive the same number and rolled back
+ * documents do not leave gaps.
+ */
+export class SequenceService {
+  /**
+   * Allocate the next formatted number for a company sequence
+   */
+  async next(
+    trx: Knex.Transaction,
+    companyId: string,
+    sequenceType: string,
+    defaults: SequenceDefaults
+  ): Promise<string> {
+    try {
+      let sequence = await trx('document_sequences')
+        .where('company_id', companyId)
+        .where('sequence_type', sequenceType)
+        .forUpdate()
+        .first();
+
+      if (!sequence) {
+        await trx('document_sequences')
+          .insert({
+            id: uuidv4(),
+            company_id: companyId,
+            sequence_type: sequenceType,
+            prefix: defaults.prefix,
+            padding: defaults.padding ?? 6,
+            next_value: 1
+          })
+          .onConflict(['company_id', 'sequence_type'])
+          .ignore();
+
+        sequence = await trx('document_sequences')
+          .where('company_id', companyId)
+          .where('sequence_type', sequenceType)
+          .forUpdate()
+          .first();
+      }
+
+      await trx('document_sequences')
+        .where('id', sequence.id)
+        .update({
+          next_value: sequence.next_value + 1,
+          updated_at: new Date()
+        });
+
+      return this.format(sequence.prefix, sequence.next_value, sequence.padding);
+    } catch (error) {
+      logger.error('Error allocating document number', { error, companyId, sequenceType });
+      throw error;
+    }
+  }
+
+  /**
+   * Format a sequence value, e.g. JE-000042
+   */
+  format(prefix: string, value: number, padding: number): string {
+    return `${prefix}-${String(value).padStart(padding, '0')}`;
+  }
+}
+
+export const sequenceService = new SequenceService();
@@ -1,7 +1,14 @@
 import { logger } from '../utils/logger';
+import { approvalService } from './approvalService';
+import { leaveService, LEAVE_RESOURCE_TYPE } from './hr/leaveService';
 
 export const initializeWorkflowEngine = async (): Promise<void> => {
   try {
+    // Handlers that apply approval decisions to the resources awaiting them
+    approvalService.registerHandler(LEAVE_RESOURCE_TYPE, (trx, request, decision, decidedBy, comments) =>
+      leaveService.applyDecision(trx, request, decision, decidedBy, comments)
+    );
+
     logger.info('Workflow engine initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize workflow engine', {
@@ -93,32 +93,53 @@ export enum AccountCategory {
 
 export interface Transaction {
   id: string;
+  companyId: string;
   transactionNumber: string;
   date: Date;
   description: string;
-  amount: number;
-  type: TransactionType;
-  status: TransactionStatus;
-  accountId: string;
-  categoryId: string;
   reference?: string;
+  status: TransactionStatus;
+  currency: string;
+  exchangeRate: number;
+  lines: TransactionLine[];
+  sourceType?: string;
+  sourceId?: string;
+  reversalOfId?: string;
+  reversedById?: string;
   attachments?: string[];
   createdBy: string;
-  approvedBy?: string;
+  postedBy?: string;
+  postedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TransactionLine {
+  id: string;
+  lineNumber: number;
+  accountId: string;
+  description?: string;
+  debit: number;
+  credit: number;
+  foreignDebit: number;
+  foreignCredit: number;
+}
+
 export enum TransactionType {
   DEBIT = 'debit',
   CREDIT = 'credit',
 }
 
 export enum TransactionStatus {
-  PENDING = 'pending',
-  APPROVED = 'approved',
-  REJECTED = 'rejected',
-  CANCELLED = 'cancelled',
+  DRAFT = 'draft',
+  POSTED = 'posted',
+  REVERSED = 'reversed',
+}
+
+export enum FiscalPeriodStatus {
+  OPEN = 'open',
+  CLOSING = 'closing',
+  CLOSED = 'closed',
 }
 
 export interface Invoice {
@@ -128,7 +149,7 @@ export interface Invoice {
   issueDate: Date;
   dueDate: Date;
   amount: number;
-  tax: number;
+  taxTotal: number;
   total: number;
   status: InvoiceStatus;
   items: InvoiceItem[];
@@ -150,6 +171,9 @@ export interface InvoiceItem {
   description: string;
   quantity: number;
   unitPrice: number;
+  taxCodeId?: string;
+  taxRate: number;
+  taxAmount: number;
   total: number;
 }
 
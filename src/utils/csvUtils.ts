@@ -0,0 +1,100 @@
+/**
+ * Minimal RFC 4180 CSV helpers used by the import/export endpoints.
+ */
+
+/**
+ * Parse CSV text into rows of fields (handles quoted fields, escaped quotes and CRLF)
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM written by spreadsheet tools
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+};
+
+/**
+ * Parse CSV text with a header row into records keyed by normalised header name
+ */
+export const parseCsvRecords = (text: string, delimiter = ','): Array<Record<string, string>> => {
+  const [header, ...rows] = parseCsv(text, delimiter);
+  if (!header) return [];
+
+  const keys = header.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+/**
+ * Escape a single CSV field
+ */
+const escapeField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialise records to CSV using the given column order
+ */
+export const toCsv = (columns: string[], records: Array<Record<string, unknown>>): string => {
+  const lines = [columns.map(escapeField).join(',')];
+
+  for (const record of records) {
+    lines.push(columns.map(column => escapeField(record[column])).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+};
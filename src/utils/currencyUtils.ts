@@ -0,0 +1,50 @@
+/**
+ * Currency and monetary amount helpers.
+ *
+ * Amounts are stored as DECIMAL(18,2) and come back from PostgreSQL as strings,
+ * so everything here accepts loosely typed input and normalises to 2 decimals.
+ */
+
+const CENTS = 100;
+
+/**
+ * Round an amount to 2 decimal places (half away from zero)
+ */
+export const roundMoney = (amount: number): number => {
+  const sign = amount < 0 ? -1 : 1;
+  return (sign * Math.round(Math.abs(amount) * CENTS + Number.EPSILON)) / CENTS;
+};
+
+/**
+ * Parse a database or request value into a rounded amount
+ */
+export const toAmount = (value: unknown): number => {
+  if (value === null || value === undefined || value === '') {
+    return 0;
+  }
+
+  const amount = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(amount) ? roundMoney(amount) : 0;
+};
+
+/**
+ * Sum a list of amounts without accumulating floating point drift
+ */
+export const sumMoney = (amounts: Array<number | string | null | undefined>): number => {
+  const cents = amounts.reduce<number>((total, amount) => total + Math.round(toAmount(amount) * CENTS), 0);
+  return cents / CENTS;
+};
+
+/**
+ * Check whether two amounts are equal to the cent
+ */
+export const amountsEqual = (a: number, b: number): boolean => {
+  return Math.round(a * CENTS) === Math.round(b * CENTS);
+};
+
+/**
+ * Format an amount with thousands separators and 2 decimals for documents
+ */
+export const formatMoney = (amount: number): string => {
+  return toAmount(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
@@ -0,0 +1,108 @@
+/**
+ * Calendar date helpers.
+ *
+ * Accounting and HR dates are calendar days without a time of day, so they
+ * are handled as 'YYYY-MM-DD' strings and all arithmetic is done in UTC to
+ * avoid daylight-saving and server timezone shifts.
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Normalise a Date or date string to 'YYYY-MM-DD'
+ */
+export const toDateOnly = (value: Date | string): string => {
+  if (typeof value === 'string' && DATE_ONLY.test(value)) {
+    return value.slice(0, 10);
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  // Parsed ISO dates sit on UTC midnight; DATE columns from pg sit on local midnight
+  const utcMidnight = date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0;
+  return utcMidnight
+    ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+    : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Convert a date-only string to a Date at UTC midnight
+ */
+export const parseDateOnly = (value: Date | string): Date => {
+  return new Date(`${toDateOnly(value)}T00:00:00.000Z`);
+};
+
+/**
+ * Add calendar days
+ */
+export const addDays = (value: Date | string, days: number): string => {
+  return toDateOnly(new Date(parseDateOnly(value).getTime() + days * DAY_MS));
+};
+
+/**
+ * Add calendar months, clamping to the end of shorter months
+ */
+export const addMonths = (value: Date | string, months: number): string => {
+  const date = parseDateOnly(value);
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toDateOnly(target);
+};
+
+/**
+ * Last day of the month containing the date
+ */
+export const endOfMonth = (value: Date | string): string => {
+  const date = parseDateOnly(value);
+  return toDateOnly(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)));
+};
+
+/**
+ * First day of the month containing the date
+ */
+export const startOfMonth = (value: Date | string): string => {
+  return `${toDateOnly(value).slice(0, 7)}-01`;
+};
+
+/**
+ * Whole days from start to end (negative when end is earlier)
+ */
+export const daysBetween = (start: Date | string, end: Date | string): number => {
+  return Math.round((parseDateOnly(end).getTime() - parseDateOnly(start).getTime()) / DAY_MS);
+};
+
+/**
+ * Day of week for a date-only value (0 = Sunday)
+ */
+export const dayOfWeek = (value: Date | string): number => {
+  return parseDateOnly(value).getUTCDay();
+};
+
+/**
+ * Local calendar date and minutes after midnight of an instant in a timezone
+ */
+export const zonedDateTime = (instant: Date, timeZone: string): { date: string; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: string): string => parts.find(item => item.type === type)?.value || '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute'))
+  };
+};
@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import {
+  PDFDocument,
+  PDFObject,
+  PDFDict,
+  PDFArray,
+  PDFNumber,
+  PDFString,
+  PDFHexString,
+  PDFRawStream,
+  PDFRef
+} from 'pdf-lib';
+
+/**
+ * Password protection for generated PDFs. pdf-lib can read but not write
+ * encrypted files, so this applies the PDF Standard Security Handler
+ * (revision 4, 128-bit AES) to a saved document: every string and stream is
+ * encrypted with a per-object key derived from the file key, and the Encrypt
+ * dictionary and file ID are added to the trailer. Readers ask for the user
+ * password to open the file; the owner password (random unless given)
+ * guards the permissions, which allow printing and nothing else.
+ */
+
+// Password padding string from the PDF specification
+const PASSWORD_PADDING = Buffer.from(
+  '28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a',
+  'hex'
+);
+
+// Print (bit 3), accessibility extraction (bit 10) and high-quality print (bit 12)
+const PERMISSIONS = -1340;
+
+const md5 = (...parts: Buffer[]): Buffer => {
+  const hash = crypto.createHash('md5');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+};
+
+/**
+ * RC4, which the handler still uses to derive the O and U entries (Node's
+ * OpenSSL no longer provides it)
+ */
+const rc4 = (key: Buffer, data: Buffer): Buffer => {
+  const state = Array.from({ length: 256 }, (_, index) => index);
+  let j = 0;
+  for (let i = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = Buffer.alloc(data.length);
+  let i = 0;
+  j = 0;
+  for (let index = 0; index < data.length; index++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[index] = data[index] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+};
+
+/**
+ * RC4 applied 20 times with the key XORed with the round number (revision 3 and later)
+ */
+const rc4Rounds = (key: Buffer, data: Buffer): Buffer => {
+  let result = data;
+  for (let round = 0; round < 20; round++) {
+    result = rc4(Buffer.from(key.map(byte => byte ^ round)), result);
+  }
+  return result;
+};
+
+/**
+ * Password bytes padded or truncated to 32 bytes
+ */
+const padPassword = (password: string): Buffer => {
+  const bytes = Buffer.from(password, 'latin1').subarray(0, 32);
+  return Buffer.concat([bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length)]);
+};
+
+/**
+ * Hash repeated 50 times, as revision 3 and later require
+ */
+const stretch = (hash: Buffer): Buffer => {
+  let result = hash;
+  for (let round = 0; round < 50; round++) {
+    result = md5(result.subarray(0, 16));
+  }
+  return result.subarray(0, 16);
+};
+
+/**
+ * The O, U and file key entries for a pair of passwords (algorithms 2, 3 and 5)
+ */
+export const deriveEncryptionKeys = (
+  userPassword: string,
+  ownerPassword: string,
+  fileId: Buffer,
+  permissions: number = PERMISSIONS
+): { owner: Buffer; user: Buffer; key: Buffer } => {
+  const ownerKey = stretch(md5(padPassword(ownerPassword)));
+  const owner = rc4Rounds(ownerKey, padPassword(userPassword));
+
+  const permissionBytes = Buffer.alloc(4);
+  permissionBytes.writeInt32LE(permissions);
+  const key = stretch(md5(padPassword(userPassword), owner, permissionBytes, fileId));
+
+  const user = Buffer.concat([rc4Rounds(key, md5(PASSWORD_PADDING, fileId)), Buffer.alloc(16)]);
+
+  return { owner, user, key };
+};
+
+/**
+ * AES-128-CBC encryption of one string or stream with its object's key;
+ * the random IV is prepended as the handler requires
+ */
+const encryptObjectData = (fileKey: Buffer, ref: PDFRef, data: Uint8Array): Buffer => {
+  const objectId = Buffer.alloc(5);
+  objectId.writeUIntLE(ref.objectNumber, 0, 3);
+  objectId.writeUIntLE(ref.generationNumber, 3, 2);
+  const key = md5(fileKey, objectId, Buffer.from('sAlT', 'latin1'));
+
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-128-cbc', key, iv);
+  return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+};
+
+/**
+ * Encrypt the strings within a direct object, replacing them in place
+ */
+const encryptStrings = (object: PDFObject, encrypt: (data: Uint8Array) => Buffer): PDFObject => {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(encrypt(object.asBytes()).toString('hex'));
+  }
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      object.set(key, encryptStrings(value, encrypt));
+    }
+  }
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      object.set(index, encryptStrings(object.get(index), encrypt));
+    }
+  }
+  return object;
+};
+
+/**
+ * Password-protect a PDF so that it only opens with the user password
+ */
+export const encryptPdf = async (content: Uint8Array, userPassword: string, ownerPassword?: string): Promise<Buffer> => {
+  const pdf = await PDFDocument.load(content, { updateMetadata: false });
+  const context = pdf.context;
+
+  const fileId = crypto.randomBytes(16);
+  const { owner, user, key } = deriveEncryptionKeys(
+    userPassword,
+    ownerPassword ?? crypto.randomBytes(16).toString('hex'),
+    fileId
+  );
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const encrypt = (data: Uint8Array) => encryptObjectData(key, ref, data);
+
+    if (object instanceof PDFRawStream) {
+      encryptStrings(object.dict, encrypt);
+      context.assign(ref, PDFRawStream.of(object.dict, encrypt(object.contents)));
+    } else {
+      context.assign(ref, encryptStrings(object, encrypt));
+    }
+  }
+
+  const standardFilter = context.obj({
+    CFM: 'AESV2',
+    AuthEvent: 'DocOpen',
+    Length: 16
+  });
+  context.trailerInfo.Encrypt = context.register(context.obj({
+    Filter: 'Standard',
+    V: 4,
+    R: 4,
+    Length: 128,
+    CF: context.obj({ StdCF: standardFilter }),
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    O: PDFHexString.of(owner.toString('hex')),
+    U: PDFHexString.of(user.toString('hex')),
+    P: PDFNumber.of(PERMISSIONS)
+  }));
+  const id = PDFHexString.of(fileId.toString('hex'));
+  context.trailerInfo.ID = context.obj([id, id]);
+
+  return Buffer.from(await pdf.save({ useObjectStreams: false, addDefaultPage: false }));
+};
@@ -0,0 +1,144 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+/**
+ * Small table-oriented PDF writer on top of pdf-lib, used for reports and
+ * documents that only need a heading, a few text lines and tabular rows.
+ */
+
+export interface PdfTableColumn {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export interface PdfTableRow {
+  cells: string[];
+  bold?: boolean;
+  indent?: number;
+}
+
+export interface PdfTableDocument {
+  title: string;
+  subtitle?: string[];
+  // Right-aligned block beside the title, first line in bold (e.g. company letterhead)
+  letterhead?: string[];
+  columns: PdfTableColumn[];
+  rows: PdfTableRow[];
+  footer?: string[];
+  landscape?: boolean;
+}
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const ROW_HEIGHT = 14;
+
+/**
+ * Truncate text so that it fits in the given width
+ */
+export const fitText = (text: string, font: PDFFont, size: number, width: number): string => {
+  if (font.widthOfTextAtSize(text, size) <= width) return text;
+
+  let result = text;
+  while (result.length > 0 && font.widthOfTextAtSize(`${result}…`, size) > width) {
+    result = result.slice(0, -1);
+  }
+  return `${result}…`;
+};
+
+/**
+ * Replace characters the standard (WinAnsi) fonts cannot encode
+ */
+export const toPdfText = (text: string): string => {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF…]/g, '?');
+};
+
+/**
+ * Render a titled table to a PDF buffer, repeating the header on each page
+ */
+export const renderTablePdf = async (doc: PdfTableDocument): Promise<Buffer> => {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const [pageWidth, pageHeight] = doc.landscape ? [A4[1], A4[0]] : A4;
+
+  const usableWidth = pageWidth - MARGIN * 2;
+  const totalWeight = doc.columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = doc.columns.map(column => (column.width / totalWeight) * usableWidth);
+
+  let page: PDFPage = pdf.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - MARGIN;
+
+  const drawRow = (cells: string[], font: PDFFont, indent = 0) => {
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const column = doc.columns[index];
+      const padding = index === 0 ? indent * 8 : 0;
+      const width = widths[index] - 4 - padding;
+      const text = fitText(toPdfText(cell ?? ''), font, FONT_SIZE, width);
+      const textWidth = font.widthOfTextAtSize(text, FONT_SIZE);
+      const textX = column.align === 'right' ? x + widths[index] - 2 - textWidth : x + 2 + padding;
+
+      page.drawText(text, { x: textX, y, size: FONT_SIZE, font });
+      x += widths[index];
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  const drawHeader = () => {
+    drawRow(doc.columns.map(column => column.label), bold);
+    page.drawLine({
+      start: { x: MARGIN, y: y + ROW_HEIGHT - 3 },
+      end: { x: pageWidth - MARGIN, y: y + ROW_HEIGHT - 3 },
+      thickness: 0.5,
+      color: rgb(0.4, 0.4, 0.4)
+    });
+  };
+
+  let letterheadY = y;
+  (doc.letterhead || []).forEach((line, index) => {
+    const font = index === 0 ? bold : regular;
+    const size = index === 0 ? FONT_SIZE + 3 : FONT_SIZE;
+    const text = toPdfText(line);
+    page.drawText(text, { x: pageWidth - MARGIN - font.widthOfTextAtSize(text, size), y: letterheadY, size, font });
+    letterheadY -= index === 0 ? 16 : ROW_HEIGHT - 2;
+  });
+
+  page.drawText(toPdfText(doc.title), { x: MARGIN, y, size: 14, font: bold });
+  y -= 20;
+
+  for (const line of doc.subtitle || []) {
+    page.drawText(toPdfText(line), { x: MARGIN, y, size: FONT_SIZE, font: regular });
+    y -= ROW_HEIGHT;
+  }
+  y = Math.min(y, letterheadY) - 6;
+
+  drawHeader();
+
+  for (const row of doc.rows) {
+    if (y < MARGIN + ROW_HEIGHT) {
+      page = pdf.addPage([pageWidth, pageHeight]);
+      y = pageHeight - MARGIN;
+      drawHeader();
+    }
+    drawRow(row.cells, row.bold ? bold : regular, row.indent);
+  }
+
+  if (doc.footer && doc.footer.length > 0) {
+    y -= 6;
+    for (const line of doc.footer) {
+      if (y < MARGIN) {
+        page = pdf.addPage([pageWidth, pageHeight]);
+        y = pageHeight - MARGIN;
+      }
+      page.drawText(toPdfText(line), { x: MARGIN, y, size: FONT_SIZE - 1, font: regular });
+      y -= ROW_HEIGHT;
+    }
+  }
+
+  return Buffer.from(await pdf.save());
+};